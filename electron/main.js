@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, protocol } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, protocol, screen, shell } from 'electron';
 import path from 'path';
 import Database from 'better-sqlite3';
 import fs from 'fs';
@@ -14,7 +14,26 @@ import * as optionGroupService from './services/optionGroupService.js';
 import * as optionService from './services/optionService.js';
 import * as addonService from './services/addonService.js';
 import * as tableService from './services/tableService.js';
+import * as floorSectionService from './services/floorSectionService.js';
+import * as tableTransferService from './services/tableTransferService.js';
+import * as reservationService from './services/reservationService.js';
+import * as kdsService from './services/kdsService.js';
+import * as prepStationService from './services/prepStationService.js';
+import * as pickupBoardService from './services/pickupBoardService.js';
 import * as printService from './services/printService.js';
+import * as templateService from './services/templateService.js';
+import * as printJobService from './services/printJobService.js';
+import * as printerService from './services/printerService.js';
+import * as pdfArchiveService from './services/pdfArchiveService.js';
+import * as labelService from './services/labelService.js';
+import * as recipeService from './services/recipeService.js';
+import * as shiftService from './services/shiftService.js';
+import * as discountService from './services/discountService.js';
+import * as taxService from './services/taxService.js';
+import * as numberingService from './services/numberingService.js';
+import * as orderService from './services/orderService.js';
+import * as refundService from './services/refundService.js';
+import * as overrideService from './services/overrideService.js';
 import * as syncService from './services/syncService.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -44,14 +63,16 @@ const isProductionBuild = !isDev && !app.isPackaged;
 // Database setup
 const dbPath = path.join(app.getPath('userData'), 'kings-bakery.db');
 const mediaPath = path.join(app.getPath('userData'), 'media');
+const pdfArchivePath = path.join(app.getPath('userData'), 'pdf-archive');
 
 // Ensure media directory exists
 if (!fs.existsSync(mediaPath)) {
   fs.mkdirSync(mediaPath, { recursive: true });
 }
 
-// Simple HTTP server for production builds (needed for ES modules)
+// Simple HTTP server for production builds (needed for ES modules); it also serves the pickup board
 let productionServer = null;
+let productionServerHost = null;
 const PRODUCTION_PORT = 5174; // Different from dev server port
 
 function startProductionServer() {
@@ -84,6 +105,9 @@ function startProductionServer() {
   }
   
   productionServer = createServer((req, res) => {
+    // The counter TV's pickup board lives under /pickup
+    if (pickupBoardService.handlePickupBoardRequest(req, res)) return;
+
     const parsedUrl = parse(req.url || '/', true);
     let pathname = parsedUrl.pathname || '/';
     
@@ -186,8 +210,19 @@ function startProductionServer() {
     }
   });
   
-  productionServer.listen(PRODUCTION_PORT, 'localhost', () => {
-    console.log(`Production server started on http://localhost:${PRODUCTION_PORT}`);
+  // Only listens beyond this machine when the pickup board is opted in to the network
+  productionServerHost = pickupBoardService.getPickupBoardHost();
+  productionServer.once('error', (error) => {
+    const message = error.code === 'EADDRINUSE'
+      ? `Port ${PRODUCTION_PORT} is already in use`
+      : `Could not start the app server: ${error.message}`;
+    console.error(message);
+    productionServer = null;
+    productionServerHost = null;
+    pickupBoardService.setPickupBoardError(message);
+  });
+  productionServer.listen(PRODUCTION_PORT, productionServerHost, () => {
+    console.log(`Production server started on http://${productionServerHost}:${PRODUCTION_PORT}`);
   });
   
   return PRODUCTION_PORT;
@@ -197,7 +232,30 @@ function stopProductionServer() {
   if (productionServer) {
     productionServer.close();
     productionServer = null;
+    productionServerHost = null;
+  }
+}
+
+/**
+ * Apply the pickup_board_* settings: serve the board from the app server, moving the server
+ * onto every network interface (or back to this machine only) when that setting changed
+ * @returns {Promise<Object>} Pickup board status
+ */
+async function applyPickupBoardSettings() {
+  pickupBoardService.stopPickupBoard();
+  if (productionServer && productionServerHost !== pickupBoardService.getPickupBoardHost()) {
+    const server = productionServer;
+    productionServer = null;
+    productionServerHost = null;
+    await new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeIdleConnections();
+    });
   }
+  if (!pickupBoardService.isPickupBoardEnabled()) {
+    return pickupBoardService.startPickupBoard(null);
+  }
+  return pickupBoardService.startPickupBoard(startProductionServer());
 }
 
 // Initialize database
@@ -228,6 +286,25 @@ function startAutoSync() {
   }, ms);
 }
 
+// Reservation hold interval handle: tables are switched to/from 'reserved' around bookings
+let reservationHoldIntervalId = null;
+
+function startReservationHolds() {
+  if (reservationHoldIntervalId) {
+    clearInterval(reservationHoldIntervalId);
+  }
+  const applyHolds = () => {
+    try {
+      if (!db) return;
+      reservationService.applyReservationHolds();
+    } catch (err) {
+      console.warn('[Reservations] Applying table holds failed:', err.message);
+    }
+  };
+  applyHolds();
+  reservationHoldIntervalId = setInterval(applyHolds, 60 * 1000);
+}
+
 function initDatabase() {
   db = new Database(dbPath);
   
@@ -239,431 +316,1765 @@ function initDatabase() {
   
   // Set database instance for services
   setDatabase(db);
+  pdfArchiveService.setArchiveDirectory(pdfArchivePath);
+
+  // Start auto-sync if enabled
+  startAutoSync();
+
+  // Keep table holds in step with upcoming bookings
+  startReservationHolds();
+
+  // Serve the counter TV's pickup board when this till hosts it
+  applyPickupBoardSettings().catch((err) => {
+    console.warn('[PickupBoard] Start failed:', err.message);
+  });
+
+  // Jobs cut off by the last shutdown wait in the failed list; old ones are dropped
+  try {
+    printJobService.failInterruptedPrintJobs();
+    printJobService.purgeOldPrintJobs();
+  } catch (err) {
+    console.warn('[PrintJobs] Tidying the job log failed:', err.message);
+  }
+}
+
+// Windows hear about print jobs that failed after their automatic retries
+printService.setPrintJobFailureListener((failure) => {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    if (!win.isDestroyed()) win.webContents.send('printJob:failed', failure);
+  });
+});
+
+// Kitchen display: windows are told when orders change instead of polling for them
+const ORDER_WRITE_PATTERN = /\b(orders|order_items)\b/i;
+// One window per prep station; the expo (all stations) view is keyed 'expo'
+const kitchenWindows = new Map();
+let kitchenNotifyTimeoutId = null;
+
+// Saving an order is many statements, so changes are gathered into one notification
+function notifyKitchen() {
+  if (kitchenNotifyTimeoutId) return;
+  kitchenNotifyTimeoutId = setTimeout(() => {
+    kitchenNotifyTimeoutId = null;
+    BrowserWindow.getAllWindows().forEach((win) => {
+      if (!win.isDestroyed()) win.webContents.send('kds:updated');
+    });
+    // The pickup board follows the same status changes
+    pickupBoardService.broadcastPickupBoard();
+  }, 150);
+}
+
+function getAppUrl() {
+  return isDev ? 'http://localhost:5173' : `http://localhost:${startProductionServer()}`;
+}
+
+function openKitchenWindow(stationId = null) {
+  const key = stationId || 'expo';
+  const existing = kitchenWindows.get(key);
+  if (existing && !existing.isDestroyed()) {
+    existing.show();
+    existing.focus();
+    return;
+  }
+  const station = stationId ? prepStationService.getPrepStationById(stationId) : null;
+  if (stationId && !station) {
+    throw new Error('Prep station not found');
+  }
+
+  // Prefer a second monitor, full screen; otherwise a window next to the POS
+  const primary = screen.getPrimaryDisplay();
+  const external = screen.getAllDisplays().find(d => d.id !== primary.id);
+  const bounds = (external || primary).workArea;
+
+  const kitchenWindow = new BrowserWindow({
+    x: bounds.x,
+    y: bounds.y,
+    width: external ? bounds.width : Math.min(1280, bounds.width),
+    height: external ? bounds.height : Math.min(800, bounds.height),
+    fullscreen: !!external,
+    title: station ? `Kitchen Display · ${station.name}` : 'Kitchen Display',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.cjs'),
+    },
+    icon: path.join(__dirname, '../assets/icon.png'),
+    backgroundColor: '#121212',
+    autoHideMenuBar: true,
+  });
+  kitchenWindows.set(key, kitchenWindow);
+  kitchenWindow.on('closed', () => {
+    kitchenWindows.delete(key);
+  });
+  kitchenWindow.loadURL(`${getAppUrl()}/kds${stationId ? `?station=${stationId}` : ''}`);
+}
+
+// Customer display: the POS pushes what the customer should see; the window only renders it
+const CUSTOMER_DISPLAY_THANK_YOU_MS = 15000;
+const PROMO_IMAGE_PATTERN = /\.(png|jpe?g|gif|webp)$/i;
+let customerDisplayWindow = null;
+let customerDisplayState = { mode: 'idle' };
+let customerDisplayIdleTimeoutId = null;
+
+function setCustomerDisplayState(state) {
+  if (customerDisplayIdleTimeoutId) {
+    clearTimeout(customerDisplayIdleTimeoutId);
+    customerDisplayIdleTimeoutId = null;
+  }
+  customerDisplayState = state;
+  if (customerDisplayWindow && !customerDisplayWindow.isDestroyed()) {
+    customerDisplayWindow.webContents.send('customerDisplay:state', state);
+  }
+  // The thank-you screen gives way to the promotions unless the next sale starts first
+  if (state.mode === 'thank_you') {
+    customerDisplayIdleTimeoutId = setTimeout(() => setCustomerDisplayState({ mode: 'idle' }), CUSTOMER_DISPLAY_THANK_YOU_MS);
+  }
+}
+
+function openCustomerDisplay() {
+  if (customerDisplayWindow && !customerDisplayWindow.isDestroyed()) {
+    customerDisplayWindow.show();
+    return;
+  }
+
+  // The customer faces the secondary screen; without one, open a small window beside the POS
+  const primary = screen.getPrimaryDisplay();
+  const external = screen.getAllDisplays().find(d => d.id !== primary.id);
+  const bounds = (external || primary).workArea;
+
+  customerDisplayWindow = new BrowserWindow({
+    x: external ? bounds.x : bounds.x + Math.max(0, bounds.width - 800),
+    y: bounds.y,
+    width: external ? bounds.width : Math.min(800, bounds.width),
+    height: external ? bounds.height : Math.min(600, bounds.height),
+    fullscreen: !!external,
+    title: 'Customer Display',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.cjs'),
+    },
+    icon: path.join(__dirname, '../assets/icon.png'),
+    backgroundColor: '#121212',
+    autoHideMenuBar: true,
+    focusable: !external,
+  });
+  customerDisplayWindow.on('closed', () => {
+    customerDisplayWindow = null;
+  });
+  customerDisplayWindow.loadURL(`${getAppUrl()}/customer-display`);
+}
+
+/**
+ * Images in media/promotions, shown on the customer display between sales
+ * @returns {string[]} media:// paths, in name order
+ */
+function getPromoImages() {
+  const promoPath = path.join(mediaPath, 'promotions');
+  if (!fs.existsSync(promoPath)) {
+    fs.mkdirSync(promoPath, { recursive: true });
+    return [];
+  }
+  return fs.readdirSync(promoPath)
+    .filter(name => PROMO_IMAGE_PATTERN.test(name))
+    .sort()
+    .map(name => `media://promotions/${encodeURIComponent(name)}`);
+}
+
+// IPC Handlers
+ipcMain.handle('db-query', async (_event, query, params = []) => {
+  try {
+    if (!db) throw new Error('Database not initialized');
+    
+    // Ensure foreign keys are enabled for all queries
+    db.pragma('foreign_keys = ON');
+    
+    if (query.trim().toUpperCase().startsWith('SELECT')) {
+      const stmt = db.prepare(query);
+      return stmt.all(...params);
+    } else {
+      const stmt = db.prepare(query);
+      const result = stmt.run(...params);
+      // Orders are still written from the renderer; tell the kitchen displays
+      if (ORDER_WRITE_PATTERN.test(query)) notifyKitchen();
+      return result;
+    }
+  } catch (error) {
+    console.error('Database error:', error);
+    console.error('Query:', query);
+    console.error('Params:', params);
+    throw error;
+  }
+});
+
+ipcMain.handle('save-media', async (_event, filename, buffer) => {
+  try {
+    const filePath = path.join(mediaPath, filename);
+    fs.writeFileSync(filePath, Buffer.from(buffer));
+    return filePath;
+  } catch (error) {
+    console.error('Media save error:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('get-media', async (_event, filename) => {
+  try {
+    const filePath = path.join(mediaPath, filename);
+    if (fs.existsSync(filePath)) {
+      return fs.readFileSync(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error('Media read error:', error);
+    return null;
+  }
+});
+
+// Menu Item IPC Handlers
+ipcMain.handle('menu:getAll', async () => {
+  try {
+    return await menuService.getAllMenuItems();
+  } catch (error) {
+    console.error('Error in menu:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getAvailable', async () => {
+  try {
+    return await menuService.getAvailableMenuItems();
+  } catch (error) {
+    console.error('Error in menu:getAvailable handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getById', async (_event, id) => {
+  try {
+    return await menuService.getMenuItemById(id);
+  } catch (error) {
+    console.error('Error in menu:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:create', async (_event, itemData) => {
+  try {
+    return await menuService.createMenuItem(itemData);
+  } catch (error) {
+    console.error('Error in menu:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:update', async (_event, id, itemData) => {
+  try {
+    return await menuService.updateMenuItem(id, itemData);
+  } catch (error) {
+    console.error('Error in menu:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:delete', async (_event, id) => {
+  try {
+    return await menuService.deleteMenuItem(id);
+  } catch (error) {
+    console.error('Error in menu:delete handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:toggleAvailability', async (_event, id) => {
+  try {
+    return await menuService.toggleMenuItemAvailability(id);
+  } catch (error) {
+    console.error('Error in menu:toggleAvailability handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getSizes', async (_event, menuItemId) => {
+  try {
+    return menuService.getMenuItemSizes(menuItemId);
+  } catch (error) {
+    console.error('Error in menu:getSizes handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:saveSizes', async (_event, menuItemId, sizes) => {
+  try {
+    return menuService.saveMenuItemSizes(menuItemId, sizes);
+  } catch (error) {
+    console.error('Error in menu:saveSizes handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getCustomOptions', async (_event, menuItemId) => {
+  try {
+    return menuService.getMenuItemCustomOptions(menuItemId);
+  } catch (error) {
+    console.error('Error in menu:getCustomOptions handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:saveCustomOptions', async (_event, menuItemId, options) => {
+  try {
+    return menuService.saveMenuItemCustomOptions(menuItemId, options);
+  } catch (error) {
+    console.error('Error in menu:saveCustomOptions handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getOptionGroups', async (_event, menuItemId) => {
+  try {
+    return menuService.getMenuItemOptionGroups(menuItemId);
+  } catch (error) {
+    console.error('Error in menu:getOptionGroups handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:saveOptionGroups', async (_event, menuItemId, optionGroupIds) => {
+  try {
+    return menuService.saveMenuItemOptionGroups(menuItemId, optionGroupIds);
+  } catch (error) {
+    console.error('Error in menu:saveOptionGroups handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:getAddons', async (_event, menuItemId) => {
+  try {
+    return menuService.getMenuItemAddons(menuItemId);
+  } catch (error) {
+    console.error('Error in menu:getAddons handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('menu:saveAddons', async (_event, menuItemId, addonIds) => {
+  try {
+    return menuService.saveMenuItemAddons(menuItemId, addonIds);
+  } catch (error) {
+    console.error('Error in menu:saveAddons handler:', error);
+    throw error;
+  }
+});
+
+// Recipe IPC Handlers
+ipcMain.handle('recipe:get', async (_event, menuItemId) => {
+  try {
+    return recipeService.getRecipe(menuItemId);
+  } catch (error) {
+    console.error('Error in recipe:get handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('recipe:save', async (_event, menuItemId, rows) => {
+  try {
+    return recipeService.saveRecipe(menuItemId, rows);
+  } catch (error) {
+    console.error('Error in recipe:save handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('recipe:postOrderUsage', async (_event, orderId) => {
+  try {
+    return recipeService.postOrderUsage(orderId);
+  } catch (error) {
+    console.error('Error in recipe:postOrderUsage handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('recipe:getUsage', async (_event, startDate, endDate) => {
+  try {
+    return recipeService.getUsageReport(startDate, endDate);
+  } catch (error) {
+    console.error('Error in recipe:getUsage handler:', error);
+    throw error;
+  }
+});
+
+// Category IPC Handlers
+ipcMain.handle('category:getAll', async () => {
+  try {
+    return await categoryService.getAllCategories();
+  } catch (error) {
+    console.error('Error in category:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('category:getById', async (_event, id) => {
+  try {
+    return await categoryService.getCategoryById(id);
+  } catch (error) {
+    console.error('Error in category:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('category:create', async (_event, categoryData) => {
+  try {
+    console.log('category:create called with data:', categoryData);
+    const result = await categoryService.createCategory(categoryData);
+    console.log('category:create result:', result);
+    return result;
+  } catch (error) {
+    console.error('Error in category:create handler:', error);
+    console.error('Error message:', error.message);
+    console.error('Error stack:', error.stack);
+    throw error;
+  }
+});
+
+ipcMain.handle('category:update', async (_event, id, categoryData) => {
+  try {
+    return await categoryService.updateCategory(id, categoryData);
+  } catch (error) {
+    console.error('Error in category:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('category:delete', async (_event, id) => {
+  try {
+    return await categoryService.deleteCategory(id);
+  } catch (error) {
+    console.error('Error in category:delete handler:', error);
+    throw error;
+  }
+});
+
+// Option Group IPC Handlers
+ipcMain.handle('optionGroup:getAll', async () => {
+  try {
+    return optionGroupService.getAllOptionGroups();
+  } catch (error) {
+    console.error('Error in optionGroup:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('optionGroup:getById', async (_event, id) => {
+  try {
+    return optionGroupService.getOptionGroupById(id);
+  } catch (error) {
+    console.error('Error in optionGroup:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('optionGroup:create', async (_event, groupData) => {
+  try {
+    return optionGroupService.createOptionGroup(groupData);
+  } catch (error) {
+    console.error('Error in optionGroup:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('optionGroup:update', async (_event, id, groupData) => {
+  try {
+    return optionGroupService.updateOptionGroup(id, groupData);
+  } catch (error) {
+    console.error('Error in optionGroup:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('optionGroup:delete', async (_event, id) => {
+  try {
+    return optionGroupService.deleteOptionGroup(id);
+  } catch (error) {
+    console.error('Error in optionGroup:delete handler:', error);
+    throw error;
+  }
+});
+
+// Option IPC Handlers
+ipcMain.handle('option:getAll', async (_event, optionGroupId) => {
+  try {
+    return optionService.getAllOptions(optionGroupId);
+  } catch (error) {
+    console.error('Error in option:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('option:getById', async (_event, id) => {
+  try {
+    return optionService.getOptionById(id);
+  } catch (error) {
+    console.error('Error in option:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('option:create', async (_event, optionData) => {
+  try {
+    return optionService.createOption(optionData);
+  } catch (error) {
+    console.error('Error in option:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('option:update', async (_event, id, optionData) => {
+  try {
+    return optionService.updateOption(id, optionData);
+  } catch (error) {
+    console.error('Error in option:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('option:delete', async (_event, id) => {
+  try {
+    return optionService.deleteOption(id);
+  } catch (error) {
+    console.error('Error in option:delete handler:', error);
+    throw error;
+  }
+});
+
+// Addon IPC Handlers
+ipcMain.handle('addon:getAll', async () => {
+  try {
+    return addonService.getAllAddons();
+  } catch (error) {
+    console.error('Error in addon:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('addon:getById', async (_event, id) => {
+  try {
+    return addonService.getAddonById(id);
+  } catch (error) {
+    console.error('Error in addon:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('addon:create', async (_event, addonData) => {
+  try {
+    return addonService.createAddon(addonData);
+  } catch (error) {
+    console.error('Error in addon:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('addon:update', async (_event, id, addonData) => {
+  try {
+    return addonService.updateAddon(id, addonData);
+  } catch (error) {
+    console.error('Error in addon:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('addon:delete', async (_event, id) => {
+  try {
+    return addonService.deleteAddon(id);
+  } catch (error) {
+    console.error('Error in addon:delete handler:', error);
+    throw error;
+  }
+});
+
+// Table IPC Handlers
+ipcMain.handle('table:getAll', async () => {
+  try {
+    return tableService.getAllTables();
+  } catch (error) {
+    console.error('Error in table:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:getById', async (_event, id) => {
+  try {
+    return tableService.getTableById(id);
+  } catch (error) {
+    console.error('Error in table:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:getByStatus', async (_event, status) => {
+  try {
+    return tableService.getTablesByStatus(status);
+  } catch (error) {
+    console.error('Error in table:getByStatus handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:create', async (_event, tableData) => {
+  try {
+    return tableService.createTable(tableData);
+  } catch (error) {
+    console.error('Error in table:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:update', async (_event, id, tableData) => {
+  try {
+    return tableService.updateTable(id, tableData);
+  } catch (error) {
+    console.error('Error in table:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:delete', async (_event, id) => {
+  try {
+    return tableService.deleteTable(id);
+  } catch (error) {
+    console.error('Error in table:delete handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:updateStatus', async (_event, id, status) => {
+  try {
+    return tableService.updateTableStatus(id, status);
+  } catch (error) {
+    console.error('Error in table:updateStatus handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:saveLayout', async (_event, layouts) => {
+  try {
+    return tableService.saveTableLayout(layouts);
+  } catch (error) {
+    console.error('Error in table:saveLayout handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:releaseOrder', async (_event, orderId) => {
+  try {
+    return tableService.releaseOrderTables(orderId);
+  } catch (error) {
+    console.error('Error in table:releaseOrder handler:', error);
+    throw error;
+  }
+});
+
+// Table transfer IPC Handlers
+ipcMain.handle('table:move', async (_event, transferData) => {
+  try {
+    const result = tableTransferService.moveTable(transferData);
+    notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in table:move handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:merge', async (_event, transferData) => {
+  try {
+    const result = tableTransferService.mergeTables(transferData);
+    notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in table:merge handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:splitOrder', async (_event, splitData) => {
+  try {
+    const result = tableTransferService.splitOrder(splitData);
+    notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in table:splitOrder handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:splitOrderBySeat', async (_event, splitData) => {
+  try {
+    const result = tableTransferService.splitOrderBySeat(splitData);
+    notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in table:splitOrderBySeat handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('table:getTransfers', async (_event, limit) => {
+  try {
+    return tableTransferService.getTableTransfers(limit);
+  } catch (error) {
+    console.error('Error in table:getTransfers handler:', error);
+    throw error;
+  }
+});
+
+// Floor section IPC Handlers
+ipcMain.handle('floorSection:getAll', async () => {
+  try {
+    return floorSectionService.getAllFloorSections();
+  } catch (error) {
+    console.error('Error in floorSection:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('floorSection:create', async (_event, sectionData) => {
+  try {
+    return floorSectionService.createFloorSection(sectionData);
+  } catch (error) {
+    console.error('Error in floorSection:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('floorSection:update', async (_event, id, sectionData) => {
+  try {
+    return floorSectionService.updateFloorSection(id, sectionData);
+  } catch (error) {
+    console.error('Error in floorSection:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('floorSection:delete', async (_event, id) => {
+  try {
+    return floorSectionService.deleteFloorSection(id);
+  } catch (error) {
+    console.error('Error in floorSection:delete handler:', error);
+    throw error;
+  }
+});
+
+// Reservation IPC Handlers
+ipcMain.handle('reservation:getByDate', async (_event, date) => {
+  try {
+    return reservationService.getReservations(date);
+  } catch (error) {
+    console.error('Error in reservation:getByDate handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:getById', async (_event, id) => {
+  try {
+    return reservationService.getReservationById(id);
+  } catch (error) {
+    console.error('Error in reservation:getById handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:create', async (_event, reservationData) => {
+  try {
+    return reservationService.createReservation(reservationData);
+  } catch (error) {
+    console.error('Error in reservation:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:update', async (_event, id, reservationData) => {
+  try {
+    return reservationService.updateReservation(id, reservationData);
+  } catch (error) {
+    console.error('Error in reservation:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:setStatus', async (_event, id, status) => {
+  try {
+    return reservationService.setReservationStatus(id, status);
+  } catch (error) {
+    console.error('Error in reservation:setStatus handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:delete', async (_event, id) => {
+  try {
+    return reservationService.deleteReservation(id);
+  } catch (error) {
+    console.error('Error in reservation:delete handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('reservation:seat', async (_event, id, seatData) => {
+  try {
+    return reservationService.seatReservation(id, seatData);
+  } catch (error) {
+    console.error('Error in reservation:seat handler:', error);
+    throw error;
+  }
+});
+
+// Kitchen display IPC Handlers
+ipcMain.handle('kds:getTickets', async (_event, stationId) => {
+  try {
+    return kdsService.getKitchenTickets(stationId);
+  } catch (error) {
+    console.error('Error in kds:getTickets handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:getBumped', async (_event, limit, stationId) => {
+  try {
+    return kdsService.getBumpedTickets(limit, stationId);
+  } catch (error) {
+    console.error('Error in kds:getBumped handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:start', async (_event, id) => {
+  try {
+    const order = kdsService.startTicket(id);
+    notifyKitchen();
+    return order;
+  } catch (error) {
+    console.error('Error in kds:start handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:bump', async (_event, id) => {
+  try {
+    const order = kdsService.bumpTicket(id);
+    notifyKitchen();
+    return order;
+  } catch (error) {
+    console.error('Error in kds:bump handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:recall', async (_event, id) => {
+  try {
+    const order = kdsService.recallTicket(id);
+    notifyKitchen();
+    return order;
+  } catch (error) {
+    console.error('Error in kds:recall handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:bumpStation', async (_event, id, stationId) => {
+  try {
+    const order = kdsService.bumpStationTicket(id, stationId);
+    notifyKitchen();
+    return order;
+  } catch (error) {
+    console.error('Error in kds:bumpStation handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:recallStation', async (_event, id, stationId) => {
+  try {
+    const order = kdsService.recallStationTicket(id, stationId);
+    notifyKitchen();
+    return order;
+  } catch (error) {
+    console.error('Error in kds:recallStation handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('kds:openWindow', async (_event, stationId) => {
+  try {
+    openKitchenWindow(stationId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in kds:openWindow handler:', error);
+    throw error;
+  }
+});
+
+// Prep station IPC Handlers
+ipcMain.handle('prepStation:getAll', async () => {
+  try {
+    return prepStationService.getAllPrepStations();
+  } catch (error) {
+    console.error('Error in prepStation:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('prepStation:create', async (_event, stationData) => {
+  try {
+    return prepStationService.createPrepStation(stationData);
+  } catch (error) {
+    console.error('Error in prepStation:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('prepStation:update', async (_event, id, stationData) => {
+  try {
+    return prepStationService.updatePrepStation(id, stationData);
+  } catch (error) {
+    console.error('Error in prepStation:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('prepStation:delete', async (_event, id) => {
+  try {
+    const deleted = prepStationService.deletePrepStation(id);
+    notifyKitchen();
+    return deleted;
+  } catch (error) {
+    console.error('Error in prepStation:delete handler:', error);
+    throw error;
+  }
+});
+
+// Customer display IPC Handlers
+ipcMain.handle('customerDisplay:open', async () => {
+  try {
+    openCustomerDisplay();
+    return { success: true };
+  } catch (error) {
+    console.error('Error in customerDisplay:open handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('customerDisplay:close', async () => {
+  try {
+    if (customerDisplayWindow && !customerDisplayWindow.isDestroyed()) {
+      customerDisplayWindow.close();
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error in customerDisplay:close handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('customerDisplay:update', async (_event, state) => {
+  try {
+    setCustomerDisplayState(state || { mode: 'idle' });
+    return { success: true };
+  } catch (error) {
+    console.error('Error in customerDisplay:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('customerDisplay:getState', async () => {
+  return customerDisplayState;
+});
+
+ipcMain.handle('customerDisplay:getPromoImages', async () => {
+  try {
+    return getPromoImages();
+  } catch (error) {
+    console.error('Error in customerDisplay:getPromoImages handler:', error);
+    throw error;
+  }
+});
+
+// Pickup board IPC Handlers
+ipcMain.handle('pickupBoard:getStatus', async () => {
+  try {
+    return pickupBoardService.getPickupBoardStatus();
+  } catch (error) {
+    console.error('Error in pickupBoard:getStatus handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('pickupBoard:restart', async () => {
+  try {
+    return await applyPickupBoardSettings();
+  } catch (error) {
+    console.error('Error in pickupBoard:restart handler:', error);
+    throw error;
+  }
+});
+
+/**
+ * Path of an image in the media folder
+ * @param {string|null} filename - Media file name
+ * @returns {string|null} Path, or null when there is no such file
+ */
+function getMediaFilePath(filename) {
+  if (!filename) return null;
+  const filePath = path.join(mediaPath, path.basename(filename));
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+// The printer role each template prints on
+const TEMPLATE_PRINTER_ROLES = { receipt: 'receipt', refund: 'receipt', kitchen: 'kitchen', z_report: 'reports' };
+
+/**
+ * Printer options for the print service, from this till's printer for the role and the printout's template
+ * @param {string} role - receipt, kitchen, labels or reports (see printerService.PRINTER_ROLES)
+ * @param {string|null} [templateType] - receipt, refund, kitchen or z_report
+ * @returns {Object} { printerName, paperWidth, copies, silent, business, template }
+ */
+function getPrinterOptions(role, templateType = null) {
+  const options = {
+    ...printerService.getPrintOptions(null, role),
+    business: templateService.getBusinessDetails(),
+  };
+  if (templateType) {
+    const template = templateService.getPrintTemplate(templateType);
+    options.template = { body: template.body, paperWidth: template.paper_width, logoPath: getMediaFilePath(template.logo) };
+  }
+  return options;
+}
+
+/**
+ * Save the PDF copy of a receipt, refund slip or Z-report, rendered with its print template
+ * @param {string} type - receipt, refund or z_report
+ * @param {Object} data - Data as sent to the print handler
+ * @returns {Promise<Object|null>} pdf_archive row, or null for a document that isn't archived (an open shift's report)
+ */
+async function archivePDF(type, data) {
+  let document;
+  if (type === 'receipt') {
+    document = { reference_id: data.order_id, reference_label: data.order_number, order_id: data.order_id, date: data.created_at };
+  } else if (type === 'refund') {
+    document = { reference_id: data.id, reference_label: data.refund_number, order_id: data.order_id, date: data.created_at };
+  } else {
+    // A Z-report is final only once its shift is closed
+    if (data.shift?.status !== 'closed') return null;
+    document = { reference_id: data.shift.id, reference_label: `Shift #${data.shift.id}`, order_id: null, date: data.shift.closed_at };
+  }
+
+  const { date, ...details } = document;
+  return pdfArchiveService.archiveDocument(
+    { ...details, document_type: type, document_date: pdfArchiveService.toDocumentDate(date) },
+    () => printService.renderPDF(type, data, getPrinterOptions(TEMPLATE_PRINTER_ROLES[type], type))
+  );
+}
+
+/**
+ * Archive a printout's PDF alongside printing it; the printout never waits on, or fails because of, the PDF
+ * @param {string} type - receipt, refund or z_report
+ * @param {Object} data - Data as sent to the print handler
+ */
+function archivePDFInBackground(type, data) {
+  archivePDF(type, data).catch((err) => {
+    console.error(`[PdfArchive] Could not archive ${type} PDF:`, err.message);
+  });
+}
+
+// Printer IPC Handlers
+ipcMain.handle('printer:getAll', async () => {
+  try {
+    return printerService.getAllPrinters();
+  } catch (error) {
+    console.error('Error in printer:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printer:getSystemPrinters', async (event) => {
+  try {
+    // The printers installed on this computer, as the OS reports them
+    const printers = await event.sender.getPrintersAsync();
+    return printers.map(p => ({
+      name: p.name,
+      displayName: p.displayName || p.name,
+      description: p.description || '',
+      isDefault: !!p.isDefault,
+    }));
+  } catch (error) {
+    console.error('Error in printer:getSystemPrinters handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printer:create', async (_event, printerData) => {
+  try {
+    return printerService.createPrinter(printerData);
+  } catch (error) {
+    console.error('Error in printer:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printer:update', async (_event, id, printerData) => {
+  try {
+    return printerService.updatePrinter(id, printerData);
+  } catch (error) {
+    console.error('Error in printer:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printer:delete', async (_event, id) => {
+  try {
+    return printerService.deletePrinter(id);
+  } catch (error) {
+    console.error('Error in printer:delete handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printer:test', async (_event, printerData) => {
+  try {
+    // Works on unsaved details, so a printer can be tried before it is added
+    return await printService.printTestPage({
+      name: printerData.name,
+      printerName: printerData.device_name?.trim() || null,
+      paperWidth: Number(printerData.paper_width),
+      silent: printerData.silent !== false,
+      roles: printerData.roles,
+    }, { business: templateService.getBusinessDetails() });
+  } catch (error) {
+    console.error('Error in printer:test handler:', error);
+    throw error;
+  }
+});
+
+// Label IPC Handlers
+ipcMain.handle('labelSize:getAll', async () => {
+  try {
+    return labelService.getAllLabelSizes();
+  } catch (error) {
+    console.error('Error in labelSize:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('labelSize:create', async (_event, sizeData) => {
+  try {
+    return labelService.createLabelSize(sizeData);
+  } catch (error) {
+    console.error('Error in labelSize:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('labelSize:update', async (_event, id, sizeData) => {
+  try {
+    return labelService.updateLabelSize(id, sizeData);
+  } catch (error) {
+    console.error('Error in labelSize:update handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('labelSize:delete', async (_event, id) => {
+  try {
+    return labelService.deleteLabelSize(id);
+  } catch (error) {
+    console.error('Error in labelSize:delete handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('production:getAll', async (_event, filters) => {
+  try {
+    return labelService.getProductionBatches(filters);
+  } catch (error) {
+    console.error('Error in production:getAll handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('production:create', async (_event, batchData) => {
+  try {
+    return labelService.createProductionBatch(batchData);
+  } catch (error) {
+    console.error('Error in production:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('label:preview', async (_event, request) => {
+  try {
+    const label = labelService.getLabelData(request);
+    const size = labelService.getLabelSize(request.label_size_id || null);
+    return {
+      label,
+      html: printService.renderLabelPreview(label, { size, business: templateService.getBusinessDetails() }),
+    };
+  } catch (error) {
+    console.error('Error in label:preview handler:', error);
+    throw error;
+  }
+});
 
-  // Start auto-sync if enabled
-  startAutoSync();
-}
+ipcMain.handle('label:print', async (_event, request) => {
+  try {
+    const count = labelService.validateLabelCount(request.count);
+    const label = labelService.getLabelData(request);
+    const size = labelService.getLabelSize(request.label_size_id || null);
+    // The count is the number of copies; the labels printer's copies setting doesn't apply
+    return await printService.printLabels(label, { ...getPrinterOptions('labels'), count, size });
+  } catch (error) {
+    console.error('Error in label:print handler:', error);
+    throw error;
+  }
+});
 
-// IPC Handlers
-ipcMain.handle('db-query', async (_event, query, params = []) => {
+// Print template IPC Handlers
+ipcMain.handle('printTemplate:getAll', async () => {
   try {
-    if (!db) throw new Error('Database not initialized');
-    
-    // Ensure foreign keys are enabled for all queries
-    db.pragma('foreign_keys = ON');
-    
-    if (query.trim().toUpperCase().startsWith('SELECT')) {
-      const stmt = db.prepare(query);
-      return stmt.all(...params);
-    } else {
-      const stmt = db.prepare(query);
-      return stmt.run(...params);
-    }
+    return templateService.getAllPrintTemplates();
   } catch (error) {
-    console.error('Database error:', error);
-    console.error('Query:', query);
-    console.error('Params:', params);
+    console.error('Error in printTemplate:getAll handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('save-media', async (_event, filename, buffer) => {
+ipcMain.handle('printTemplate:update', async (_event, type, templateData) => {
   try {
-    const filePath = path.join(mediaPath, filename);
-    fs.writeFileSync(filePath, Buffer.from(buffer));
-    return filePath;
+    return templateService.updatePrintTemplate(type, templateData);
   } catch (error) {
-    console.error('Media save error:', error);
+    console.error('Error in printTemplate:update handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('get-media', async (_event, filename) => {
+ipcMain.handle('printTemplate:reset', async (_event, type) => {
   try {
-    const filePath = path.join(mediaPath, filename);
-    if (fs.existsSync(filePath)) {
-      return fs.readFileSync(filePath);
+    return templateService.resetPrintTemplate(type);
+  } catch (error) {
+    console.error('Error in printTemplate:reset handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('printTemplate:preview', async (_event, type, templateData) => {
+  try {
+    // Mistakes are expected while typing, so they come back as a message rather than an error
+    const problem = templateService.validateTemplate(templateData.body);
+    if (problem) {
+      return { html: null, error: problem };
     }
-    return null;
+    const { paperWidth, business } = getPrinterOptions(TEMPLATE_PRINTER_ROLES[type] || 'receipt');
+    const html = printService.renderTemplatePreview(type, templateService.getTemplateSampleData(type), {
+      body: templateData.body,
+      paperWidth: templateData.paper_width || paperWidth,
+      logoPath: getMediaFilePath(templateData.logo),
+      business,
+    });
+    return { html, error: null };
   } catch (error) {
-    console.error('Media read error:', error);
-    return null;
+    console.error('Error in printTemplate:preview handler:', error);
+    throw error;
   }
 });
 
-// Menu Item IPC Handlers
-ipcMain.handle('menu:getAll', async () => {
+// Print job IPC Handlers
+ipcMain.handle('printJob:getAll', async (_event, filters) => {
   try {
-    return await menuService.getAllMenuItems();
+    return printJobService.getPrintJobs(filters);
   } catch (error) {
-    console.error('Error in menu:getAll handler:', error);
+    console.error('Error in printJob:getAll handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:getAvailable', async () => {
+ipcMain.handle('printJob:getFailedCount', async () => {
   try {
-    return await menuService.getAvailableMenuItems();
+    return printJobService.getFailedPrintJobCount();
   } catch (error) {
-    console.error('Error in menu:getAvailable handler:', error);
+    console.error('Error in printJob:getFailedCount handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:getById', async (_event, id) => {
+ipcMain.handle('printJob:retry', async (_event, id) => {
   try {
-    return await menuService.getMenuItemById(id);
+    return await printService.retryPrintJob(id);
   } catch (error) {
-    console.error('Error in menu:getById handler:', error);
+    console.error('Error in printJob:retry handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:create', async (_event, itemData) => {
+ipcMain.handle('printJob:reprint', async (_event, id) => {
   try {
-    return await menuService.createMenuItem(itemData);
+    return await printService.reprintPrintJob(id);
   } catch (error) {
-    console.error('Error in menu:create handler:', error);
+    console.error('Error in printJob:reprint handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:update', async (_event, id, itemData) => {
+ipcMain.handle('printJob:getQueueStatus', async () => {
   try {
-    return await menuService.updateMenuItem(id, itemData);
+    return printService.getPrintQueueStatus();
   } catch (error) {
-    console.error('Error in menu:update handler:', error);
+    console.error('Error in printJob:getQueueStatus handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:delete', async (_event, id) => {
+// PDF archive IPC Handlers
+ipcMain.handle('pdfArchive:getForOrder', async (_event, orderId) => {
   try {
-    return await menuService.deleteMenuItem(id);
+    return pdfArchiveService.getOrderDocuments(orderId);
   } catch (error) {
-    console.error('Error in menu:delete handler:', error);
+    console.error('Error in pdfArchive:getForOrder handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:toggleAvailability', async (_event, id) => {
+ipcMain.handle('pdfArchive:saveReceipt', async (_event, orderData) => {
   try {
-    return await menuService.toggleMenuItemAvailability(id);
+    // Receipts printed before the archive existed get their PDF on first request
+    return await archivePDF('receipt', orderData);
   } catch (error) {
-    console.error('Error in menu:toggleAvailability handler:', error);
+    console.error('Error in pdfArchive:saveReceipt handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:getSizes', async (_event, menuItemId) => {
+ipcMain.handle('pdfArchive:open', async (_event, id) => {
   try {
-    return menuService.getMenuItemSizes(menuItemId);
+    const { filePath } = pdfArchiveService.getDocumentFile(id);
+    const openError = await shell.openPath(filePath);
+    if (openError) {
+      throw new Error(`Could not open the PDF: ${openError}`);
+    }
+    return true;
   } catch (error) {
-    console.error('Error in menu:getSizes handler:', error);
+    console.error('Error in pdfArchive:open handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:saveSizes', async (_event, menuItemId, sizes) => {
+ipcMain.handle('pdfArchive:export', async (event, id) => {
   try {
-    return menuService.saveMenuItemSizes(menuItemId, sizes);
+    const { filePath } = pdfArchiveService.getDocumentFile(id);
+    const { canceled, filePath: destination } = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+      defaultPath: path.basename(filePath),
+      filters: [{ name: 'PDF', extensions: ['pdf'] }],
+    });
+    if (canceled || !destination) return null;
+    fs.copyFileSync(filePath, destination);
+    return { path: destination };
   } catch (error) {
-    console.error('Error in menu:saveSizes handler:', error);
+    console.error('Error in pdfArchive:export handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:getCustomOptions', async (_event, menuItemId) => {
+ipcMain.handle('pdfArchive:exportRange', async (event, startDate, endDate) => {
   try {
-    return menuService.getMenuItemCustomOptions(menuItemId);
+    const { data, count } = pdfArchiveService.exportDocumentsZip(startDate, endDate);
+    const { canceled, filePath: destination } = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+      defaultPath: startDate === endDate ? `receipts-${startDate}.zip` : `receipts-${startDate}-to-${endDate}.zip`,
+      filters: [{ name: 'Zip archive', extensions: ['zip'] }],
+    });
+    if (canceled || !destination) return null;
+    fs.writeFileSync(destination, data);
+    return { path: destination, count };
   } catch (error) {
-    console.error('Error in menu:getCustomOptions handler:', error);
+    console.error('Error in pdfArchive:exportRange handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('menu:saveCustomOptions', async (_event, menuItemId, options) => {
+// Print handlers
+ipcMain.handle('print:kitchenOrder', async (_event, orderData) => {
   try {
-    return menuService.saveMenuItemCustomOptions(menuItemId, options);
+    // Each prep station gets the items routed to it, on its own printer
+    const tickets = prepStationService.getKitchenTicketRoutes(orderData).map(ticket => ({
+      ...ticket,
+      printer: printerService.getPrintOptions(ticket.printer_name, 'kitchen'),
+    }));
+    const { template, business } = getPrinterOptions(TEMPLATE_PRINTER_ROLES.kitchen, 'kitchen');
+    return await printService.printKitchenTickets(orderData, tickets, { template, business });
   } catch (error) {
-    console.error('Error in menu:saveCustomOptions handler:', error);
+    console.error('Error printing kitchen order:', error);
     throw error;
   }
 });
 
-// Category IPC Handlers
-ipcMain.handle('category:getAll', async () => {
+ipcMain.handle('print:customerReceipt', async (_event, orderData) => {
   try {
-    return await categoryService.getAllCategories();
+    archivePDFInBackground('receipt', orderData);
+    return await printService.printCustomerReceipt(orderData, getPrinterOptions(TEMPLATE_PRINTER_ROLES.receipt, 'receipt'));
   } catch (error) {
-    console.error('Error in category:getAll handler:', error);
+    console.error('Error printing customer receipt:', error);
     throw error;
   }
 });
 
-ipcMain.handle('category:getById', async (_event, id) => {
+ipcMain.handle('print:zReport', async (_event, reportData) => {
   try {
-    return await categoryService.getCategoryById(id);
+    archivePDFInBackground('z_report', reportData);
+    return await printService.printZReport(reportData, getPrinterOptions(TEMPLATE_PRINTER_ROLES.z_report, 'z_report'));
   } catch (error) {
-    console.error('Error in category:getById handler:', error);
+    console.error('Error printing Z-report:', error);
     throw error;
   }
 });
 
-ipcMain.handle('category:create', async (_event, categoryData) => {
+ipcMain.handle('print:refundReceipt', async (_event, refundData) => {
   try {
-    console.log('category:create called with data:', categoryData);
-    const result = await categoryService.createCategory(categoryData);
-    console.log('category:create result:', result);
-    return result;
+    archivePDFInBackground('refund', refundData);
+    return await printService.printRefundReceipt(refundData, getPrinterOptions(TEMPLATE_PRINTER_ROLES.refund, 'refund'));
   } catch (error) {
-    console.error('Error in category:create handler:', error);
-    console.error('Error message:', error.message);
-    console.error('Error stack:', error.stack);
+    console.error('Error printing refund receipt:', error);
     throw error;
   }
 });
 
-ipcMain.handle('category:update', async (_event, id, categoryData) => {
+ipcMain.handle('print:openDrawer', async (_event, drawerData) => {
   try {
-    return await categoryService.updateCategory(id, categoryData);
+    return await printService.openCashDrawer(drawerData, getPrinterOptions('receipt'));
   } catch (error) {
-    console.error('Error in category:update handler:', error);
+    console.error('Error opening cash drawer:', error);
     throw error;
   }
 });
 
-ipcMain.handle('category:delete', async (_event, id) => {
+// Shift (cash drawer) handlers
+ipcMain.handle('shift:getCurrent', async () => {
   try {
-    return await categoryService.deleteCategory(id);
+    return shiftService.getCurrentShift();
   } catch (error) {
-    console.error('Error in category:delete handler:', error);
+    console.error('Error in shift:getCurrent handler:', error);
     throw error;
   }
 });
 
-// Option Group IPC Handlers
-ipcMain.handle('optionGroup:getAll', async () => {
+ipcMain.handle('shift:getAll', async (_event, limit) => {
   try {
-    return optionGroupService.getAllOptionGroups();
+    return shiftService.getShifts(limit);
   } catch (error) {
-    console.error('Error in optionGroup:getAll handler:', error);
+    console.error('Error in shift:getAll handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('optionGroup:getById', async (_event, id) => {
+ipcMain.handle('shift:getSummary', async (_event, id) => {
   try {
-    return optionGroupService.getOptionGroupById(id);
+    return shiftService.getShiftSummary(id);
   } catch (error) {
-    console.error('Error in optionGroup:getById handler:', error);
+    console.error('Error in shift:getSummary handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('optionGroup:create', async (_event, groupData) => {
+ipcMain.handle('shift:open', async (_event, shiftData) => {
   try {
-    return optionGroupService.createOptionGroup(groupData);
+    return shiftService.openShift(shiftData);
   } catch (error) {
-    console.error('Error in optionGroup:create handler:', error);
+    console.error('Error in shift:open handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('optionGroup:update', async (_event, id, groupData) => {
+ipcMain.handle('shift:close', async (_event, id, closeData) => {
   try {
-    return optionGroupService.updateOptionGroup(id, groupData);
+    return shiftService.closeShift(id, closeData);
   } catch (error) {
-    console.error('Error in optionGroup:update handler:', error);
+    console.error('Error in shift:close handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('optionGroup:delete', async (_event, id) => {
+ipcMain.handle('shift:addCashMovement', async (_event, movementData) => {
   try {
-    return optionGroupService.deleteOptionGroup(id);
+    return shiftService.addCashMovement(movementData);
   } catch (error) {
-    console.error('Error in optionGroup:delete handler:', error);
+    console.error('Error in shift:addCashMovement handler:', error);
     throw error;
   }
 });
 
-// Option IPC Handlers
-ipcMain.handle('option:getAll', async (_event, optionGroupId) => {
+// Discount (promotion) handlers
+ipcMain.handle('discount:getAll', async () => {
   try {
-    return optionService.getAllOptions(optionGroupId);
+    return discountService.getAllDiscounts();
   } catch (error) {
-    console.error('Error in option:getAll handler:', error);
+    console.error('Error in discount:getAll handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('option:getById', async (_event, id) => {
+ipcMain.handle('discount:getById', async (_event, id) => {
   try {
-    return optionService.getOptionById(id);
+    return discountService.getDiscountById(id);
   } catch (error) {
-    console.error('Error in option:getById handler:', error);
+    console.error('Error in discount:getById handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('option:create', async (_event, optionData) => {
+ipcMain.handle('discount:create', async (_event, discountData) => {
   try {
-    return optionService.createOption(optionData);
+    return discountService.createDiscount(discountData);
   } catch (error) {
-    console.error('Error in option:create handler:', error);
+    console.error('Error in discount:create handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('option:update', async (_event, id, optionData) => {
+ipcMain.handle('discount:update', async (_event, id, discountData) => {
   try {
-    return optionService.updateOption(id, optionData);
+    return discountService.updateDiscount(id, discountData);
   } catch (error) {
-    console.error('Error in option:update handler:', error);
+    console.error('Error in discount:update handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('option:delete', async (_event, id) => {
+ipcMain.handle('discount:delete', async (_event, id) => {
   try {
-    return optionService.deleteOption(id);
+    return discountService.deleteDiscount(id);
   } catch (error) {
-    console.error('Error in option:delete handler:', error);
+    console.error('Error in discount:delete handler:', error);
     throw error;
   }
 });
 
-// Addon IPC Handlers
-ipcMain.handle('addon:getAll', async () => {
+ipcMain.handle('discount:evaluate', async (_event, cart) => {
   try {
-    return addonService.getAllAddons();
+    return discountService.evaluatePromotions(cart);
   } catch (error) {
-    console.error('Error in addon:getAll handler:', error);
+    console.error('Error in discount:evaluate handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('addon:getById', async (_event, id) => {
+ipcMain.handle('discount:redeem', async (_event, id) => {
   try {
-    return addonService.getAddonById(id);
+    return discountService.redeemDiscount(id);
   } catch (error) {
-    console.error('Error in addon:getById handler:', error);
+    console.error('Error in discount:redeem handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('addon:create', async (_event, addonData) => {
+ipcMain.handle('discount:release', async (_event, id) => {
   try {
-    return addonService.createAddon(addonData);
+    return discountService.releaseDiscount(id);
   } catch (error) {
-    console.error('Error in addon:create handler:', error);
+    console.error('Error in discount:release handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('addon:update', async (_event, id, addonData) => {
+// Tax class handlers
+ipcMain.handle('tax:getClasses', async () => {
   try {
-    return addonService.updateAddon(id, addonData);
+    return taxService.getAllTaxClasses();
   } catch (error) {
-    console.error('Error in addon:update handler:', error);
+    console.error('Error in tax:getClasses handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('addon:delete', async (_event, id) => {
+ipcMain.handle('tax:createClass', async (_event, taxClassData) => {
   try {
-    return addonService.deleteAddon(id);
+    return taxService.createTaxClass(taxClassData);
   } catch (error) {
-    console.error('Error in addon:delete handler:', error);
+    console.error('Error in tax:createClass handler:', error);
     throw error;
   }
 });
 
-// Table IPC Handlers
-ipcMain.handle('table:getAll', async () => {
+ipcMain.handle('tax:updateClass', async (_event, id, taxClassData) => {
   try {
-    return tableService.getAllTables();
+    return taxService.updateTaxClass(id, taxClassData);
   } catch (error) {
-    console.error('Error in table:getAll handler:', error);
+    console.error('Error in tax:updateClass handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:getById', async (_event, id) => {
+ipcMain.handle('tax:deleteClass', async (_event, id) => {
   try {
-    return tableService.getTableById(id);
+    return taxService.deleteTaxClass(id);
   } catch (error) {
-    console.error('Error in table:getById handler:', error);
+    console.error('Error in tax:deleteClass handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:getByStatus', async (_event, status) => {
+// Order numbering handlers
+ipcMain.handle('numbering:next', async () => {
   try {
-    return tableService.getTablesByStatus(status);
+    return numberingService.getNextOrderNumber();
   } catch (error) {
-    console.error('Error in table:getByStatus handler:', error);
+    console.error('Error in numbering:next handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:create', async (_event, tableData) => {
+// Refund handlers
+ipcMain.handle('refund:process', async (_event, refundData) => {
   try {
-    return tableService.createTable(tableData);
+    const result = refundService.processRefund(refundData);
+    notifyKitchen();
+    return result;
   } catch (error) {
-    console.error('Error in table:create handler:', error);
+    console.error('Error in refund:process handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:update', async (_event, id, tableData) => {
+ipcMain.handle('refund:getByOrder', async (_event, orderId) => {
   try {
-    return tableService.updateTable(id, tableData);
+    return refundService.getOrderRefunds(orderId);
   } catch (error) {
-    console.error('Error in table:update handler:', error);
+    console.error('Error in refund:getByOrder handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:delete', async (_event, id) => {
+ipcMain.handle('refund:getAll', async (_event, startDate, endDate) => {
   try {
-    return tableService.deleteTable(id);
+    return refundService.getRefunds(startDate, endDate);
   } catch (error) {
-    console.error('Error in table:delete handler:', error);
+    console.error('Error in refund:getAll handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('table:updateStatus', async (_event, id, status) => {
+// Manager override handlers
+ipcMain.handle('override:getConfig', async () => {
   try {
-    return tableService.updateTableStatus(id, status);
+    return overrideService.getOverrideConfig();
   } catch (error) {
-    console.error('Error in table:updateStatus handler:', error);
+    console.error('Error in override:getConfig handler:', error);
     throw error;
   }
 });
 
-// Print handlers
-ipcMain.handle('print:kitchenOrder', async (_event, orderData) => {
+ipcMain.handle('override:approve', async (_event, overrideData) => {
   try {
-    return await printService.printKitchenOrder(orderData);
+    return overrideService.approveOverride(overrideData);
   } catch (error) {
-    console.error('Error printing kitchen order:', error);
+    console.error('Error in override:approve handler:', error);
     throw error;
   }
 });
 
-ipcMain.handle('print:customerReceipt', async (_event, orderData) => {
+ipcMain.handle('override:setPin', async (_event, userId, pin) => {
   try {
-    return await printService.printCustomerReceipt(orderData);
+    return overrideService.setUserPin(userId, pin);
   } catch (error) {
-    console.error('Error printing customer receipt:', error);
+    console.error('Error in override:setPin handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('override:getLog', async (_event, limit) => {
+  try {
+    return overrideService.getOverrides(limit);
+  } catch (error) {
+    console.error('Error in override:getLog handler:', error);
     throw error;
   }
 });
 
 // Order handlers
+
+ipcMain.handle('order:create', async (_event, orderData) => {
+  try {
+    const orderId = orderService.createOrder(orderData);
+    notifyKitchen();
+    return orderId;
+  } catch (error) {
+    console.error('Error in order:create handler:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('order:updateHeld', async (_event, id, orderData) => {
+  try {
+    const result = orderService.updateHeldOrder(id, orderData);
+    notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in order:updateHeld handler:', error);
+    throw error;
+  }
+});
+
+/**
+ * Delete an order that never took money, with its lines, giving back its table, promotion use and stock.
+ * Runs inside the caller's transaction.
+ * @param {number} id - Order ID
+ * @returns {{success: boolean, message?: string}} Result
+ */
+function deleteUnpaidOrder(id) {
+  // First, get the order to check for table association
+  const order = db.prepare('SELECT table_id, discount_id, payment_status FROM orders WHERE id = ?').get(id);
+  
+  if (!order) {
+    return { success: false, message: 'Order not found' };
+  }
+  
+  // Money has been taken (or returned) on this order, so it must stay on record
+  const payments = db.prepare('SELECT COUNT(*) as count FROM order_payments WHERE order_id = ?').get(id);
+  const refunds = db.prepare('SELECT COUNT(*) as count FROM refunds WHERE order_id = ?').get(id);
+  if (payments.count > 0 || refunds.count > 0 || !['pending', null].includes(order.payment_status)) {
+    return { success: false, message: 'Paid orders cannot be deleted. Use Refund or Void instead.' };
+  }
+  
+  // Free up the table FIRST (before deleting the order)
+  // This prevents foreign key constraint issues with tables.current_order_id
+  tableService.releaseOrderTables(id);
+  
+  // Get all order item IDs for this order
+  const orderItemIds = db.prepare('SELECT id FROM order_items WHERE order_id = ?').all(id);
+  
+  // Delete order item options and addons for each order item
+  if (orderItemIds.length > 0) {
+    for (const item of orderItemIds) {
+      // Delete order item options
+      db.prepare('DELETE FROM order_item_options WHERE order_item_id = ?').run(item.id);
+      
+      // Delete order item addons
+      db.prepare('DELETE FROM order_item_addons WHERE order_item_id = ?').run(item.id);
+    }
+  }
+  
+  // Delete order items (child of orders)
+  // This should cascade, but we're being explicit
+  db.prepare('DELETE FROM order_items WHERE order_id = ?').run(id);
+  
+  // Stock a completed order took out goes back with its lines
+  recipeService.postOrderUsage(id);
+  
+  // Give back the promotion use counted against this order
+  if (order.discount_id) {
+    db.prepare('UPDATE discounts SET usage_count = MAX(COALESCE(usage_count, 0) - 1, 0) WHERE id = ?').run(order.discount_id);
+  }
+  
+  // Finally, delete the order itself
+  const result = db.prepare('DELETE FROM orders WHERE id = ?').run(id);
+  return { success: result.changes > 0 };
+}
+
 ipcMain.handle('order:delete', async (_event, id, userId) => {
   try {
     if (!db) throw new Error('Database not initialized');
@@ -683,46 +2094,50 @@ ipcMain.handle('order:delete', async (_event, id, userId) => {
     db.pragma('foreign_keys = ON');
     
     // Use a transaction to ensure all deletions happen atomically
-    const transaction = db.transaction(() => {
-      // First, get the order to check for table association
-      const order = db.prepare('SELECT table_id FROM orders WHERE id = ?').get(id);
-      
-      if (!order) {
-        return { success: false, message: 'Order not found' };
-      }
-      
-      // Free up the table FIRST (before deleting the order)
-      // This prevents foreign key constraint issues with tables.current_order_id
-      if (order.table_id) {
-        db.prepare('UPDATE tables SET status = ?, current_order_id = ? WHERE id = ?').run('available', null, order.table_id);
+    const result = db.transaction(() => deleteUnpaidOrder(id))();
+    if (result.success) notifyKitchen();
+    return result;
+  } catch (error) {
+    console.error('Error in order:delete handler:', error);
+    throw error;
+  }
+});
+
+// Any user can discard a held ticket nothing has been paid on; when voids are guarded it takes a manager's approval
+ipcMain.handle('order:discardHeld', async (_event, id, userId, overrideId) => {
+  try {
+    if (!db) throw new Error('Database not initialized');
+    
+    const user = db.prepare('SELECT id FROM users WHERE id = ? AND is_active = 1').get(userId);
+    if (!user) {
+      return { success: false, message: 'User not found or inactive' };
+    }
+    const order = db.prepare('SELECT status, payment_status FROM orders WHERE id = ?').get(id);
+    if (!order || order.status !== 'pending' || order.payment_status !== 'pending') {
+      return { success: false, message: 'Only held tickets with nothing paid on them can be discarded' };
+    }
+    const guarded = overrideService.isActionGuarded('void');
+    if (guarded) {
+      overrideService.getUsableOverride(overrideId, 'void', id);
+    }
+    
+    db.pragma('foreign_keys = ON');
+    
+    const result = db.transaction(() => {
+      if (guarded) {
+        overrideService.markOverrideUsed(overrideId, null);
       }
-      
-      // Get all order item IDs for this order
-      const orderItemIds = db.prepare('SELECT id FROM order_items WHERE order_id = ?').all(id);
-      
-      // Delete order item options and addons for each order item
-      if (orderItemIds.length > 0) {
-        for (const item of orderItemIds) {
-          // Delete order item options
-          db.prepare('DELETE FROM order_item_options WHERE order_item_id = ?').run(item.id);
-          
-          // Delete order item addons
-          db.prepare('DELETE FROM order_item_addons WHERE order_item_id = ?').run(item.id);
-        }
+      const deleted = deleteUnpaidOrder(id);
+      if (!deleted.success) {
+        // Keeps the approval unused
+        throw new Error(deleted.message || 'Failed to discard held ticket');
       }
-      
-      // Delete order items (child of orders)
-      // This should cascade, but we're being explicit
-      db.prepare('DELETE FROM order_items WHERE order_id = ?').run(id);
-      
-      // Finally, delete the order itself
-      const result = db.prepare('DELETE FROM orders WHERE id = ?').run(id);
-      return { success: result.changes > 0 };
-    });
-    
-    return transaction();
+      return deleted;
+    })();
+    notifyKitchen();
+    return result;
   } catch (error) {
-    console.error('Error in order:delete handler:', error);
+    console.error('Error in order:discardHeld handler:', error);
     throw error;
   }
 });
@@ -742,7 +2157,7 @@ ipcMain.handle('user:getByUsername', async (_event, username) => {
 ipcMain.handle('user:getAll', async () => {
   try {
     if (!db) throw new Error('Database not initialized');
-    return db.prepare('SELECT id, username, role, full_name, email, is_active, last_login, created_at, updated_at FROM users ORDER BY created_at DESC').all();
+    return db.prepare('SELECT id, username, role, full_name, email, is_active, (pin_hash IS NOT NULL) as has_pin, last_login, created_at, updated_at FROM users ORDER BY created_at DESC').all();
   } catch (error) {
     console.error('Error in user:getAll handler:', error);
     throw error;
@@ -1077,7 +2492,7 @@ function createWindow() {
 app.whenReady().then(() => {
   // Register custom protocol for serving media files
   protocol.registerFileProtocol('media', (request, callback) => {
-    const filePath = request.url.replace('media://', '');
+    const filePath = decodeURIComponent(request.url.replace('media://', ''));
     const fullPath = path.join(mediaPath, filePath);
     callback({ path: fullPath });
   });
@@ -1104,7 +2519,20 @@ app.on('before-quit', () => {
     clearInterval(autoSyncIntervalId);
     autoSyncIntervalId = null;
   }
+  if (reservationHoldIntervalId) {
+    clearInterval(reservationHoldIntervalId);
+    reservationHoldIntervalId = null;
+  }
+  if (kitchenNotifyTimeoutId) {
+    clearTimeout(kitchenNotifyTimeoutId);
+    kitchenNotifyTimeoutId = null;
+  }
+  if (customerDisplayIdleTimeoutId) {
+    clearTimeout(customerDisplayIdleTimeoutId);
+    customerDisplayIdleTimeoutId = null;
+  }
   stopProductionServer();
+  pickupBoardService.stopPickupBoard();
   if (db) {
     db.close();
   }
@@ -630,6 +630,1127 @@ export const migrations = [
     down: (db) => {
       db.prepare("DELETE FROM settings WHERE key = 'sync_auto_interval'").run();
     }
+  },
+  {
+    version: 10,
+    up: (db) => {
+      // Payment ledger: one row per tender so an order can be settled with several methods
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS order_payments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id INTEGER NOT NULL,
+          payment_method TEXT NOT NULL,
+          amount REAL NOT NULL,
+          amount_tendered REAL,
+          change_given REAL DEFAULT 0,
+          reference TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON order_payments(order_id);
+        CREATE INDEX IF NOT EXISTS idx_order_payments_method ON order_payments(payment_method);
+      `);
+
+      // Backfill a single tender for orders that were paid before the ledger existed
+      db.exec(`
+        INSERT INTO order_payments (order_id, payment_method, amount, amount_tendered, user_id, created_at)
+        SELECT o.id, o.payment_method, o.total_amount, o.total_amount, o.user_id, o.created_at
+        FROM orders o
+        WHERE o.payment_status = 'paid'
+          AND o.payment_method IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM order_payments op WHERE op.order_id = o.id);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_order_payments_method;
+        DROP INDEX IF EXISTS idx_order_payments_order_id;
+        DROP TABLE IF EXISTS order_payments;
+      `);
+    }
+  },
+  {
+    version: 11,
+    up: (db) => {
+      // Cash drawer shifts (till sessions) and the cash movements recorded against them
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS shifts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER,
+          status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
+          opening_float REAL NOT NULL DEFAULT 0,
+          cash_sales REAL DEFAULT 0,
+          paid_in REAL DEFAULT 0,
+          paid_out REAL DEFAULT 0,
+          cash_refunds REAL DEFAULT 0,
+          expected_cash REAL,
+          counted_cash REAL,
+          over_short REAL,
+          denominations TEXT,
+          notes TEXT,
+          opened_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          closed_at DATETIME,
+          closed_by INTEGER,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (closed_by) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS cash_movements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          shift_id INTEGER NOT NULL,
+          movement_type TEXT NOT NULL CHECK(movement_type IN ('paid_in', 'paid_out', 'refund')),
+          amount REAL NOT NULL,
+          reason TEXT,
+          order_id INTEGER,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (shift_id) REFERENCES shifts(id) ON DELETE CASCADE,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_shifts_status ON shifts(status);
+        CREATE INDEX IF NOT EXISTS idx_shifts_opened_at ON shifts(opened_at);
+        CREATE INDEX IF NOT EXISTS idx_cash_movements_shift_id ON cash_movements(shift_id);
+      `);
+
+      // Tie orders and tenders to the shift they were taken in
+      const ordersInfo = db.prepare("PRAGMA table_info(orders)").all();
+      if (!ordersInfo.some(col => col.name === 'shift_id')) {
+        db.exec(`ALTER TABLE orders ADD COLUMN shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL;`);
+      }
+      const paymentsInfo = db.prepare("PRAGMA table_info(order_payments)").all();
+      if (!paymentsInfo.some(col => col.name === 'shift_id')) {
+        db.exec(`ALTER TABLE order_payments ADD COLUMN shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL;`);
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_orders_shift_id ON orders(shift_id);
+        CREATE INDEX IF NOT EXISTS idx_order_payments_shift_id ON order_payments(shift_id);
+      `);
+
+      const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get('cash_denominations');
+      if (!exists) {
+        db.prepare(
+          "INSERT INTO settings (key, value, description, category) VALUES ('cash_denominations', '20,10,5,2,1,0.5,0.25,0.1,0.05,0.01', 'Notes and coins counted when closing a shift (comma separated)', 'financial')"
+        ).run();
+      }
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key = 'cash_denominations'").run();
+      db.exec(`
+        DROP INDEX IF EXISTS idx_order_payments_shift_id;
+        DROP INDEX IF EXISTS idx_orders_shift_id;
+        DROP INDEX IF EXISTS idx_cash_movements_shift_id;
+        DROP INDEX IF EXISTS idx_shifts_opened_at;
+        DROP INDEX IF EXISTS idx_shifts_status;
+        DROP TABLE IF EXISTS cash_movements;
+        DROP TABLE IF EXISTS shifts;
+      `);
+      // Note: shift_id columns on orders/order_payments stay (SQLite limitation)
+    }
+  },
+  {
+    version: 12,
+    up: (db) => {
+      // Held tickets / open tabs are pending orders; the label names the ticket on the POS
+      const tableInfo = db.prepare("PRAGMA table_info(orders)").all();
+      if (!tableInfo.some(col => col.name === 'label')) {
+        db.exec(`ALTER TABLE orders ADD COLUMN label TEXT;`);
+      }
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);`);
+    },
+    down: (db) => {
+      db.exec(`DROP INDEX IF EXISTS idx_orders_payment_status;`);
+      // Note: SQLite doesn't support DROP COLUMN directly
+    }
+  },
+  {
+    version: 13,
+    up: (db) => {
+      // Snapshot the chosen size on each order line (name and price at sale time)
+      const tableInfo = db.prepare("PRAGMA table_info(order_items)").all();
+      const columnNames = tableInfo.map(col => col.name);
+
+      const columnsToAdd = [
+        { name: 'size_id', sql: 'ALTER TABLE order_items ADD COLUMN size_id INTEGER REFERENCES menu_item_sizes(id) ON DELETE SET NULL;' },
+        { name: 'size_name', sql: 'ALTER TABLE order_items ADD COLUMN size_name TEXT;' },
+        { name: 'size_price', sql: 'ALTER TABLE order_items ADD COLUMN size_price REAL;' },
+      ];
+
+      for (const column of columnsToAdd) {
+        if (!columnNames.includes(column.name)) {
+          db.exec(column.sql);
+        }
+      }
+
+      // Per-item custom options picked on the POS, with name and price captured at sale time
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS order_item_custom_options (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_item_id INTEGER NOT NULL,
+          custom_option_id INTEGER,
+          name TEXT NOT NULL,
+          price REAL DEFAULT 0,
+          FOREIGN KEY (order_item_id) REFERENCES order_items(id) ON DELETE CASCADE,
+          FOREIGN KEY (custom_option_id) REFERENCES menu_item_custom_options(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_order_item_custom_options_item_id ON order_item_custom_options(order_item_id);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_order_item_custom_options_item_id;
+        DROP TABLE IF EXISTS order_item_custom_options;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so the size columns stay
+    }
+  },
+  {
+    version: 14,
+    up: (db) => {
+      // Promotions: a discount with a code is entered by the cashier, one without applies automatically
+      const discountInfo = db.prepare("PRAGMA table_info(discounts)").all();
+      if (!discountInfo.some(col => col.name === 'code')) {
+        db.exec(`ALTER TABLE discounts ADD COLUMN code TEXT;`);
+      }
+
+      // The promotion applied to an order, with its name and value captured for reporting
+      const orderInfo = db.prepare("PRAGMA table_info(orders)").all();
+      const columnNames = orderInfo.map(col => col.name);
+
+      const columnsToAdd = [
+        { name: 'discount_id', sql: 'ALTER TABLE orders ADD COLUMN discount_id INTEGER REFERENCES discounts(id) ON DELETE SET NULL;' },
+        { name: 'promotion_name', sql: 'ALTER TABLE orders ADD COLUMN promotion_name TEXT;' },
+        { name: 'promotion_discount', sql: 'ALTER TABLE orders ADD COLUMN promotion_discount REAL DEFAULT 0;' },
+      ];
+
+      for (const column of columnsToAdd) {
+        if (!columnNames.includes(column.name)) {
+          db.exec(column.sql);
+        }
+      }
+
+      db.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_code ON discounts(code) WHERE code IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_orders_discount_id ON orders(discount_id);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_orders_discount_id;
+        DROP INDEX IF EXISTS idx_discounts_code;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so the promotion columns stay
+    }
+  },
+  {
+    version: 15,
+    up: (db) => {
+      // Tax classes (e.g. Zero-rated, Standard); items without one use their category's class, then the tax_rate setting
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tax_classes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          rate REAL NOT NULL DEFAULT 0 CHECK(rate >= 0),
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      const addColumns = (table, columnsToAdd) => {
+        const columnNames = db.prepare(`PRAGMA table_info(${table})`).all().map(col => col.name);
+        for (const column of columnsToAdd) {
+          if (!columnNames.includes(column.name)) {
+            db.exec(column.sql);
+          }
+        }
+      };
+
+      addColumns('menu_items', [
+        { name: 'tax_class_id', sql: 'ALTER TABLE menu_items ADD COLUMN tax_class_id INTEGER REFERENCES tax_classes(id) ON DELETE SET NULL;' },
+      ]);
+      addColumns('categories', [
+        { name: 'tax_class_id', sql: 'ALTER TABLE categories ADD COLUMN tax_class_id INTEGER REFERENCES tax_classes(id) ON DELETE SET NULL;' },
+      ]);
+
+      // Per-line tax captured at sale time: rate applied, net amount taxed (after discounts) and tax
+      addColumns('order_items', [
+        { name: 'tax_rate', sql: 'ALTER TABLE order_items ADD COLUMN tax_rate REAL DEFAULT 0;' },
+        { name: 'taxable_amount', sql: 'ALTER TABLE order_items ADD COLUMN taxable_amount REAL DEFAULT 0;' },
+        { name: 'tax_amount', sql: 'ALTER TABLE order_items ADD COLUMN tax_amount REAL DEFAULT 0;' },
+      ]);
+      addColumns('orders', [
+        { name: 'tax_inclusive', sql: 'ALTER TABLE orders ADD COLUMN tax_inclusive INTEGER DEFAULT 0;' },
+      ]);
+
+      const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get('tax_mode');
+      if (!exists) {
+        db.prepare(
+          "INSERT INTO settings (key, value, description, category) VALUES ('tax_mode', 'exclusive', 'Tax mode: exclusive (added at checkout) or inclusive (included in prices)', 'financial')"
+        ).run();
+      }
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key = 'tax_mode'").run();
+      db.exec(`DROP TABLE IF EXISTS tax_classes;`);
+      // Note: SQLite doesn't support DROP COLUMN, so the tax columns stay
+    }
+  },
+  {
+    version: 16,
+    up: (db) => {
+      // Last pickup number issued per terminal and business day. Local to each till (not synced),
+      // so numbering never depends on another machine's counter.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS order_number_sequences (
+          terminal_id TEXT NOT NULL,
+          business_date TEXT NOT NULL,
+          last_number INTEGER NOT NULL DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (terminal_id, business_date)
+        );
+      `);
+
+      const ordersInfo = db.prepare("PRAGMA table_info(orders)").all();
+      const existingColumns = ordersInfo.map(col => col.name);
+      const columnsToAdd = [
+        { name: 'terminal_id', sql: 'ALTER TABLE orders ADD COLUMN terminal_id TEXT;' },
+        { name: 'business_date', sql: 'ALTER TABLE orders ADD COLUMN business_date TEXT;' },
+        { name: 'pickup_number', sql: 'ALTER TABLE orders ADD COLUMN pickup_number INTEGER;' },
+      ];
+      for (const column of columnsToAdd) {
+        if (!existingColumns.includes(column.name)) {
+          db.exec(column.sql);
+        }
+      }
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_orders_terminal_business_date ON orders(terminal_id, business_date);`);
+
+      // A random default keeps freshly installed tills from sharing a prefix until an admin names them
+      const defaultTerminalId = `T${Math.random().toString(36).slice(2, 5).toUpperCase()}`;
+      const numberingSettings = [
+        { key: 'terminal_id', value: defaultTerminalId, description: 'Terminal ID, used as the order number prefix (must be different on every till)', category: 'terminal' },
+        { key: 'pickup_number_start', value: '1', description: 'First pickup number of the day on this till (e.g. 500 on a second till)', category: 'terminal' },
+        { key: 'business_day_start', value: '00:00', description: 'Time the business day starts; pickup numbers restart from then (HH:MM)', category: 'general' },
+      ];
+      numberingSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('terminal_id', 'pickup_number_start', 'business_day_start')").run();
+      db.exec(`
+        DROP INDEX IF EXISTS idx_orders_terminal_business_date;
+        DROP TABLE IF EXISTS order_number_sequences;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so the numbering columns stay
+    }
+  },
+  {
+    version: 17,
+    up: (db) => {
+      // Refunds (full or per line, after the sale) and voids (whole order cancelled).
+      // Orders are no longer deleted once paid; the refund rows are the audit trail.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS refunds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id INTEGER NOT NULL,
+          refund_number TEXT UNIQUE NOT NULL,
+          refund_type TEXT NOT NULL CHECK(refund_type IN ('refund', 'void')),
+          amount REAL NOT NULL DEFAULT 0 CHECK(amount >= 0),
+          tax_amount REAL DEFAULT 0,
+          refund_method TEXT,
+          reason TEXT NOT NULL,
+          user_id INTEGER,
+          approved_by INTEGER,
+          shift_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (shift_id) REFERENCES shifts(id) ON DELETE SET NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS refund_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          refund_id INTEGER NOT NULL,
+          order_item_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          amount REAL NOT NULL DEFAULT 0,
+          tax_amount REAL DEFAULT 0,
+          restocked INTEGER DEFAULT 0,
+          FOREIGN KEY (refund_id) REFERENCES refunds(id) ON DELETE CASCADE,
+          FOREIGN KEY (order_item_id) REFERENCES order_items(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+        CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at);
+        CREATE INDEX IF NOT EXISTS idx_refunds_shift_id ON refunds(shift_id);
+        CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+      `);
+
+      const addColumns = (table, columnsToAdd) => {
+        const columnNames = db.prepare(`PRAGMA table_info(${table})`).all().map(col => col.name);
+        for (const column of columnsToAdd) {
+          if (!columnNames.includes(column.name)) {
+            db.exec(column.sql);
+          }
+        }
+      };
+
+      addColumns('orders', [
+        { name: 'refunded_amount', sql: 'ALTER TABLE orders ADD COLUMN refunded_amount REAL DEFAULT 0;' },
+      ]);
+      addColumns('order_items', [
+        { name: 'refunded_quantity', sql: 'ALTER TABLE order_items ADD COLUMN refunded_quantity INTEGER DEFAULT 0;' },
+      ]);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_refund_items_refund_id;
+        DROP INDEX IF EXISTS idx_refunds_shift_id;
+        DROP INDEX IF EXISTS idx_refunds_created_at;
+        DROP INDEX IF EXISTS idx_refunds_order_id;
+        DROP TABLE IF EXISTS refund_items;
+        DROP TABLE IF EXISTS refunds;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so refunded_amount and refunded_quantity stay
+    }
+  },
+  {
+    version: 18,
+    up: (db) => {
+      // Manager override: a cashier's guarded action goes ahead once an admin enters their PIN on the till.
+      // Every approval is logged with both users.
+      const usersInfo = db.prepare("PRAGMA table_info(users)").all();
+      if (!usersInfo.some(col => col.name === 'pin_hash')) {
+        db.exec(`ALTER TABLE users ADD COLUMN pin_hash TEXT;`);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS manager_overrides (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          requested_by INTEGER,
+          approved_by INTEGER,
+          order_id INTEGER,
+          order_number TEXT,
+          amount REAL,
+          details TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (requested_by) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manager_overrides_created_at ON manager_overrides(created_at);
+        CREATE INDEX IF NOT EXISTS idx_manager_overrides_order_id ON manager_overrides(order_id);
+      `);
+
+      const overrideSettings = [
+        { key: 'override_actions', value: 'discount,price_override,void,refund,reopen_order,no_sale', description: 'Actions that need a manager PIN when done by a cashier', category: 'security' },
+        { key: 'override_discount_threshold', value: '10', description: 'Manual discounts above this percentage of the subtotal need a manager PIN', category: 'security' },
+        { key: 'override_price_threshold', value: '0', description: 'Price changes above this percentage of the menu price need a manager PIN (0 = any change)', category: 'security' },
+      ];
+      overrideSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('override_actions', 'override_discount_threshold', 'override_price_threshold')").run();
+      db.exec(`
+        DROP INDEX IF EXISTS idx_manager_overrides_order_id;
+        DROP INDEX IF EXISTS idx_manager_overrides_created_at;
+        DROP TABLE IF EXISTS manager_overrides;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so users.pin_hash stays
+    }
+  },
+  {
+    version: 19,
+    up: (db) => {
+      // Order type for the dine-in / takeaway / delivery selector in the POS
+      const ordersInfo = db.prepare("PRAGMA table_info(orders)").all();
+      if (!ordersInfo.some(col => col.name === 'order_type')) {
+        db.exec(`ALTER TABLE orders ADD COLUMN order_type TEXT DEFAULT 'takeaway';`);
+        // Orders rung up against a table before the selector existed were eaten in
+        db.exec(`UPDATE orders SET order_type = CASE WHEN table_id IS NOT NULL THEN 'dine_in' ELSE 'takeaway' END;`);
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_orders_order_type ON orders(order_type);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_orders_order_type;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so orders.order_type stays
+    }
+  },
+  {
+    version: 20,
+    up: (db) => {
+      // Floor plan: tables are placed on a 1000 x 600 canvas per section (e.g. Inside, Terrace)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS floor_sections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          display_order INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      const tablesInfo = db.prepare("PRAGMA table_info(tables)").all();
+      const layoutColumns = [
+        { name: 'section_id', sql: 'ALTER TABLE tables ADD COLUMN section_id INTEGER REFERENCES floor_sections(id) ON DELETE SET NULL;' },
+        { name: 'shape', sql: "ALTER TABLE tables ADD COLUMN shape TEXT DEFAULT 'square';" },
+        { name: 'pos_x', sql: 'ALTER TABLE tables ADD COLUMN pos_x REAL DEFAULT 0;' },
+        { name: 'pos_y', sql: 'ALTER TABLE tables ADD COLUMN pos_y REAL DEFAULT 0;' },
+        { name: 'width', sql: 'ALTER TABLE tables ADD COLUMN width REAL DEFAULT 80;' },
+        { name: 'height', sql: 'ALTER TABLE tables ADD COLUMN height REAL DEFAULT 80;' },
+        { name: 'rotation', sql: 'ALTER TABLE tables ADD COLUMN rotation REAL DEFAULT 0;' },
+        { name: 'occupied_at', sql: 'ALTER TABLE tables ADD COLUMN occupied_at DATETIME;' },
+      ];
+      layoutColumns.forEach((col) => {
+        if (!tablesInfo.some(c => c.name === col.name)) {
+          db.exec(col.sql);
+        }
+      });
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_tables_section_id ON tables(section_id);
+      `);
+
+      // Existing tables go into a default section, laid out in rows so none overlap
+      const sectionCount = db.prepare('SELECT COUNT(*) as count FROM floor_sections').get().count;
+      if (sectionCount === 0) {
+        const sectionId = db.prepare("INSERT INTO floor_sections (name, display_order) VALUES ('Inside', 0)").run().lastInsertRowid;
+        const tables = db.prepare('SELECT id FROM tables ORDER BY CAST(number AS INTEGER), number').all();
+        const place = db.prepare('UPDATE tables SET section_id = ?, pos_x = ?, pos_y = ? WHERE id = ?');
+        tables.forEach((table, index) => {
+          place.run(sectionId, 40 + (index % 8) * 120, 40 + Math.floor(index / 8) * 120, table.id);
+        });
+      }
+      db.exec(`UPDATE tables SET occupied_at = updated_at WHERE status = 'occupied' AND occupied_at IS NULL;`);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_tables_section_id;
+        DROP TABLE IF EXISTS floor_sections;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so the layout columns on tables stay
+    }
+  },
+  {
+    version: 21,
+    up: (db) => {
+      // Seat per order line, so a table's bill can be split by seat
+      const orderItemsInfo = db.prepare("PRAGMA table_info(order_items)").all();
+      if (!orderItemsInfo.some(col => col.name === 'seat_number')) {
+        db.exec(`ALTER TABLE order_items ADD COLUMN seat_number INTEGER;`);
+      }
+
+      // Who moved, merged or split which table's orders
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS table_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL CHECK(action IN ('move', 'merge', 'split')),
+          from_table_id INTEGER,
+          to_table_id INTEGER,
+          order_id INTEGER,
+          target_order_id INTEGER,
+          user_id INTEGER,
+          details TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (from_table_id) REFERENCES tables(id) ON DELETE SET NULL,
+          FOREIGN KEY (to_table_id) REFERENCES tables(id) ON DELETE SET NULL,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL,
+          FOREIGN KEY (target_order_id) REFERENCES orders(id) ON DELETE SET NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_table_transfers_created_at ON table_transfers(created_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_table_transfers_created_at;
+        DROP TABLE IF EXISTS table_transfers;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so order_items.seat_number stays
+    }
+  },
+  {
+    version: 22,
+    up: (db) => {
+      // Bookings; starts_at is local time (YYYY-MM-DD HH:MM) as agreed with the guest
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS reservations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          guest_name TEXT NOT NULL,
+          phone TEXT,
+          party_size INTEGER NOT NULL CHECK(party_size > 0),
+          starts_at TEXT NOT NULL,
+          duration_minutes INTEGER NOT NULL DEFAULT 90 CHECK(duration_minutes > 0),
+          table_id INTEGER,
+          status TEXT NOT NULL DEFAULT 'booked' CHECK(status IN ('booked', 'seated', 'completed', 'cancelled', 'no_show')),
+          order_id INTEGER,
+          notes TEXT,
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (table_id) REFERENCES tables(id) ON DELETE SET NULL,
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL,
+          FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_reservations_starts_at ON reservations(starts_at);
+        CREATE INDEX IF NOT EXISTS idx_reservations_table_id ON reservations(table_id);
+      `);
+
+      // Booking a table is currently held for, so only automatic holds are lifted automatically
+      const tablesInfo = db.prepare("PRAGMA table_info(tables)").all();
+      if (!tablesInfo.some(col => col.name === 'reservation_id')) {
+        db.exec(`ALTER TABLE tables ADD COLUMN reservation_id INTEGER REFERENCES reservations(id) ON DELETE SET NULL;`);
+      }
+
+      const reservationSettings = [
+        { key: 'reservation_hold_minutes', value: '30', description: 'Minutes before a booking that its table is switched to reserved', category: 'reservations' },
+        { key: 'reservation_default_duration', value: '90', description: 'Default length of a booking in minutes', category: 'reservations' },
+      ];
+      reservationSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('reservation_hold_minutes', 'reservation_default_duration')").run();
+      db.exec(`
+        DROP INDEX IF EXISTS idx_reservations_table_id;
+        DROP INDEX IF EXISTS idx_reservations_starts_at;
+        DROP TABLE IF EXISTS reservations;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so tables.reservation_id stays
+    }
+  },
+  {
+    version: 23,
+    up: (db) => {
+      // When the kitchen bumped the order, so bumped tickets can be recalled newest first
+      const ordersInfo = db.prepare("PRAGMA table_info(orders)").all();
+      if (!ordersInfo.some(col => col.name === 'ready_at')) {
+        db.exec(`ALTER TABLE orders ADD COLUMN ready_at DATETIME;`);
+      }
+
+      const kitchenSettings = [
+        { key: 'kds_warning_minutes', value: '8', description: 'Minutes after which a kitchen ticket turns amber', category: 'kitchen' },
+        { key: 'kds_critical_minutes', value: '15', description: 'Minutes after which a kitchen ticket turns red', category: 'kitchen' },
+      ];
+      kitchenSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('kds_warning_minutes', 'kds_critical_minutes')").run();
+      // Note: SQLite doesn't support DROP COLUMN, so orders.ready_at stays
+    }
+  },
+  {
+    version: 24,
+    up: (db) => {
+      // Prep stations (coffee bar, hot kitchen, ...): where kitchen tickets are printed and shown
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS prep_stations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          printer_name TEXT,
+          show_on_kds INTEGER DEFAULT 1,
+          display_order INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS order_station_bumps (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id INTEGER NOT NULL,
+          station_id INTEGER NOT NULL,
+          bumped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(order_id, station_id),
+          FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+          FOREIGN KEY (station_id) REFERENCES prep_stations(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Items go to their own station, or else to their category's
+      const categoriesInfo = db.prepare("PRAGMA table_info(categories)").all();
+      if (!categoriesInfo.some(col => col.name === 'prep_station_id')) {
+        db.exec(`ALTER TABLE categories ADD COLUMN prep_station_id INTEGER REFERENCES prep_stations(id) ON DELETE SET NULL;`);
+      }
+      const menuItemsInfo = db.prepare("PRAGMA table_info(menu_items)").all();
+      if (!menuItemsInfo.some(col => col.name === 'prep_station_id')) {
+        db.exec(`ALTER TABLE menu_items ADD COLUMN prep_station_id INTEGER REFERENCES prep_stations(id) ON DELETE SET NULL;`);
+      }
+
+      const expoSettings = [
+        { key: 'kitchen_expo_ticket', value: 'true', description: 'Print a consolidated expo ticket with every order sent to the stations (true/false)', category: 'kitchen' },
+        { key: 'kitchen_expo_printer', value: '', description: 'Printer for the expo ticket (blank = default printer)', category: 'kitchen' },
+      ];
+      expoSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('kitchen_expo_ticket', 'kitchen_expo_printer')").run();
+      db.exec(`
+        DROP TABLE IF EXISTS order_station_bumps;
+        DROP TABLE IF EXISTS prep_stations;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so prep_station_id stays on categories and menu_items
+    }
+  },
+  {
+    version: 25,
+    up: (db) => {
+      // Pickup board: a page on the LAN (counter TV) listing takeaway orders by pickup number
+      const pickupSettings = [
+        { key: 'pickup_board_enabled', value: 'false', description: 'Serve the pickup board to other devices on the network (true/false)', category: 'kitchen' },
+        { key: 'pickup_board_port', value: '8090', description: 'Network port for the pickup board', category: 'kitchen' },
+        { key: 'pickup_board_ready_minutes', value: '10', description: 'Minutes a ready order stays on the pickup board', category: 'kitchen' },
+      ];
+      pickupSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('pickup_board_enabled', 'pickup_board_port', 'pickup_board_ready_minutes')").run();
+    }
+  },
+  {
+    version: 26,
+    up: (db) => {
+      // ESC/POS printing: a printer named by network address (192.168.1.50:9100) or device path gets raw commands
+      const printingSettings = [
+        { key: 'receipt_printer', value: '', description: 'Printer for receipts, refunds, Z-reports and the cash drawer: printer name, IP address[:port] or device path (blank = default printer)', category: 'printing' },
+        { key: 'printer_paper_width', value: '80', description: 'Receipt paper width in mm for ESC/POS printers (58 or 80)', category: 'printing' },
+        { key: 'receipt_logo', value: '', description: 'Image file in the media folder printed at the top of ESC/POS receipts (blank = none)', category: 'printing' },
+      ];
+      printingSettings.forEach((s) => {
+        const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get(s.key);
+        if (!exists) {
+          db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(s.key, s.value, s.description, s.category);
+        }
+      });
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key IN ('receipt_printer', 'printer_paper_width', 'receipt_logo')").run();
+    }
+  },
+  {
+    version: 27,
+    up: (db) => {
+      // Editable print layouts; a row only exists once a template is changed, and a NULL body is the built-in layout
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS print_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          template_type TEXT NOT NULL UNIQUE CHECK(template_type IN ('receipt', 'refund', 'kitchen', 'z_report')),
+          body TEXT,
+          paper_width INTEGER CHECK(paper_width IN (58, 80)),
+          logo TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // The receipt logo now belongs to the receipt template
+      const receiptLogo = db.prepare("SELECT value FROM settings WHERE key = 'receipt_logo'").get();
+      if (receiptLogo?.value) {
+        db.prepare("INSERT OR IGNORE INTO print_templates (template_type, logo) VALUES ('receipt', ?)").run(receiptLogo.value);
+      }
+      db.prepare("DELETE FROM settings WHERE key = 'receipt_logo'").run();
+    },
+    down: (db) => {
+      const receiptTemplate = db.prepare("SELECT logo FROM print_templates WHERE template_type = 'receipt'").get();
+      db.prepare('INSERT OR IGNORE INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(
+        'receipt_logo', receiptTemplate?.logo || '', 'Image file in the media folder printed at the top of ESC/POS receipts (blank = none)', 'printing'
+      );
+      db.exec(`DROP TABLE IF EXISTS print_templates;`);
+    }
+  },
+  {
+    version: 28,
+    up: (db) => {
+      // Every printout this till sends, kept with exactly what went to the printer so it can be retried or reprinted
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS print_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_type TEXT NOT NULL CHECK(job_type IN ('receipt', 'refund', 'kitchen', 'z_report', 'no_sale')),
+          title TEXT NOT NULL,
+          reference_type TEXT CHECK(reference_type IN ('order', 'refund', 'shift')),
+          reference_id INTEGER,
+          reference_label TEXT,
+          template_type TEXT,
+          printer_name TEXT,
+          paper_width INTEGER,
+          output_format TEXT NOT NULL CHECK(output_format IN ('html', 'escpos')),
+          content TEXT,
+          raw_content BLOB,
+          status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'printing', 'printed', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          reprint_of INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          printed_at DATETIME,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (reprint_of) REFERENCES print_jobs(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_status ON print_jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_created_at ON print_jobs(created_at);
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_reference ON print_jobs(reference_type, reference_id);
+      `);
+
+      const exists = db.prepare("SELECT id FROM settings WHERE key = 'print_job_retention_days'").get();
+      if (!exists) {
+        db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(
+          'print_job_retention_days', '90', 'Days the print job log is kept before old jobs are removed', 'printing'
+        );
+      }
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key = 'print_job_retention_days'").run();
+      db.exec(`DROP TABLE IF EXISTS print_jobs;`);
+    }
+  },
+  {
+    version: 29,
+    up: (db) => {
+      // Configured printers and what they print; terminal_id NULL means every till uses the printer
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS printers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          connection_type TEXT NOT NULL CHECK(connection_type IN ('system', 'escpos')),
+          device_name TEXT NOT NULL,
+          roles TEXT,
+          paper_width INTEGER NOT NULL DEFAULT 80 CHECK(paper_width IN (58, 80)),
+          copies INTEGER NOT NULL DEFAULT 1 CHECK(copies BETWEEN 1 AND 5),
+          silent INTEGER NOT NULL DEFAULT 1,
+          terminal_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Retries print the same number of copies, the same way
+      const printJobsInfo = db.prepare('PRAGMA table_info(print_jobs)').all();
+      if (!printJobsInfo.some(col => col.name === 'copies')) {
+        db.exec(`ALTER TABLE print_jobs ADD COLUMN copies INTEGER NOT NULL DEFAULT 1;`);
+      }
+      if (!printJobsInfo.some(col => col.name === 'silent')) {
+        db.exec(`ALTER TABLE print_jobs ADD COLUMN silent INTEGER NOT NULL DEFAULT 1;`);
+      }
+
+      // This till's receipt printer setting becomes a printer for this till only
+      const setting = (key) => db.prepare('SELECT value FROM settings WHERE key = ?').get(key)?.value || '';
+      const receiptPrinter = setting('receipt_printer').trim();
+      if (receiptPrinter) {
+        const isRaw = /^(tcp:\/\/|device:\/\/|\d{1,3}(\.\d{1,3}){3}(:\d+)?$|\/dev\/|\\\\\.\\|(COM|LPT)\d+$)/i.test(receiptPrinter);
+        db.prepare(
+          `INSERT OR IGNORE INTO printers (name, connection_type, device_name, roles, paper_width, terminal_id)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(
+          'Receipt printer',
+          isRaw ? 'escpos' : 'system',
+          receiptPrinter,
+          JSON.stringify(['receipt', 'reports']),
+          setting('printer_paper_width') === '58' ? 58 : 80,
+          setting('terminal_id').trim().toUpperCase() || null
+        );
+      }
+      db.prepare("DELETE FROM settings WHERE key IN ('receipt_printer', 'printer_paper_width')").run();
+    },
+    down: (db) => {
+      const receiptPrinter = db.prepare("SELECT device_name, paper_width FROM printers WHERE roles LIKE '%\"receipt\"%' ORDER BY id LIMIT 1").get();
+      const insertSetting = db.prepare('INSERT OR IGNORE INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)');
+      insertSetting.run('receipt_printer', receiptPrinter?.device_name || '', 'Printer for receipts, refunds, Z-reports and the cash drawer: printer name, IP address[:port] or device path (blank = default printer)', 'printing');
+      insertSetting.run('printer_paper_width', String(receiptPrinter?.paper_width || 80), 'Receipt paper width in mm for ESC/POS printers (58 or 80)', 'printing');
+      db.exec(`DROP TABLE IF EXISTS printers;`);
+      // Note: SQLite doesn't support DROP COLUMN, so copies and silent stay on print_jobs
+    }
+  },
+  {
+    version: 30,
+    up: (db) => {
+      // PDF copies of receipts, refund slips and Z-reports; the files live in the pdf-archive folder under userData.
+      // One PDF per document, so reprints don't add copies. order_id ties refund slips to their order too.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pdf_archive (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_type TEXT NOT NULL CHECK(document_type IN ('receipt', 'refund', 'z_report')),
+          reference_id INTEGER NOT NULL,
+          reference_label TEXT,
+          order_id INTEGER,
+          document_date TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          file_size INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(document_type, reference_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pdf_archive_document_date ON pdf_archive(document_date);
+        CREATE INDEX IF NOT EXISTS idx_pdf_archive_order_id ON pdf_archive(order_id);
+      `);
+    },
+    down: (db) => {
+      // The PDF files themselves are left in place
+      db.exec(`DROP TABLE IF EXISTS pdf_archive;`);
+    }
+  },
+  {
+    version: 31,
+    up: (db) => {
+      // Shelf labels: best-before comes from the item's shelf life, allergens from its ingredients
+      const menuItemsInfo = db.prepare('PRAGMA table_info(menu_items)').all();
+      if (!menuItemsInfo.some(col => col.name === 'shelf_life_days')) {
+        db.exec(`ALTER TABLE menu_items ADD COLUMN shelf_life_days INTEGER;`);
+      }
+      if (!menuItemsInfo.some(col => col.name === 'barcode')) {
+        db.exec(`ALTER TABLE menu_items ADD COLUMN barcode TEXT;`);
+      }
+      db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_items_barcode ON menu_items(barcode) WHERE barcode IS NOT NULL;`);
+
+      const inventoryInfo = db.prepare('PRAGMA table_info(inventory_items)').all();
+      if (!inventoryInfo.some(col => col.name === 'allergens')) {
+        db.exec(`ALTER TABLE inventory_items ADD COLUMN allergens TEXT;`);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS label_sizes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          width_mm REAL NOT NULL CHECK(width_mm >= 20 AND width_mm <= 120),
+          height_mm REAL NOT NULL CHECK(height_mm >= 15 AND height_mm <= 200),
+          is_default INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- A batch of one item made for the shelf; its labels carry the batch number and dates
+        CREATE TABLE IF NOT EXISTS production_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_number TEXT NOT NULL UNIQUE,
+          menu_item_id INTEGER,
+          item_name TEXT NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          produced_at DATETIME NOT NULL,
+          best_before TEXT,
+          notes TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (menu_item_id) REFERENCES menu_items(id) ON DELETE SET NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_production_batches_produced_at ON production_batches(produced_at);
+        CREATE INDEX IF NOT EXISTS idx_production_batches_menu_item_id ON production_batches(menu_item_id);
+      `);
+
+      const sizeCount = db.prepare('SELECT COUNT(*) as count FROM label_sizes').get().count;
+      if (sizeCount === 0) {
+        const insertSize = db.prepare('INSERT INTO label_sizes (name, width_mm, height_mm, is_default) VALUES (?, ?, ?, ?)');
+        insertSize.run('58 x 40 mm', 58, 40, 1);
+        insertSize.run('50 x 30 mm', 50, 30, 0);
+        insertSize.run('80 x 60 mm', 80, 60, 0);
+      }
+
+      // Labels go through the print job log too; SQLite can't change a CHECK constraint, so print_jobs is rebuilt
+      db.exec(`
+        CREATE TABLE print_jobs_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_type TEXT NOT NULL CHECK(job_type IN ('receipt', 'refund', 'kitchen', 'z_report', 'no_sale', 'label')),
+          title TEXT NOT NULL,
+          reference_type TEXT CHECK(reference_type IN ('order', 'refund', 'shift', 'menu_item', 'batch')),
+          reference_id INTEGER,
+          reference_label TEXT,
+          template_type TEXT,
+          printer_name TEXT,
+          paper_width INTEGER,
+          copies INTEGER NOT NULL DEFAULT 1,
+          silent INTEGER NOT NULL DEFAULT 1,
+          output_format TEXT NOT NULL CHECK(output_format IN ('html', 'escpos')),
+          content TEXT,
+          raw_content BLOB,
+          status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'printing', 'printed', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          reprint_of INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          printed_at DATETIME,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (reprint_of) REFERENCES print_jobs_new(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO print_jobs_new (
+          id, job_type, title, reference_type, reference_id, reference_label, template_type, printer_name, paper_width,
+          copies, silent, output_format, content, raw_content, status, attempts, error, reprint_of, created_at, printed_at, updated_at
+        )
+        SELECT
+          id, job_type, title, reference_type, reference_id, reference_label, template_type, printer_name, paper_width,
+          copies, silent, output_format, content, raw_content, status, attempts, error, reprint_of, created_at, printed_at, updated_at
+        FROM print_jobs;
+
+        DROP TABLE print_jobs;
+        ALTER TABLE print_jobs_new RENAME TO print_jobs;
+
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_status ON print_jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_created_at ON print_jobs(created_at);
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_reference ON print_jobs(reference_type, reference_id);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DELETE FROM print_jobs WHERE job_type = 'label';
+        DROP TABLE IF EXISTS production_batches;
+        DROP TABLE IF EXISTS label_sizes;
+        DROP INDEX IF EXISTS idx_menu_items_barcode;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so shelf_life_days, barcode and allergens stay,
+      // and print_jobs keeps the wider CHECK constraints
+    }
+  },
+  {
+    version: 32,
+    up: (db) => {
+      // Recipes can differ by size. Sizes are saved by replacing them, so rows name the size rather than point at it;
+      // size_name NULL is the recipe every size uses unless it has its own quantity for that ingredient.
+      // SQLite can't change a UNIQUE constraint, so menu_item_ingredients is rebuilt
+      db.exec(`
+        CREATE TABLE menu_item_ingredients_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          menu_item_id INTEGER NOT NULL,
+          inventory_item_id INTEGER NOT NULL,
+          size_name TEXT,
+          quantity_required REAL NOT NULL CHECK(quantity_required >= 0),
+          unit TEXT,
+          FOREIGN KEY (menu_item_id) REFERENCES menu_items(id) ON DELETE CASCADE,
+          FOREIGN KEY (inventory_item_id) REFERENCES inventory_items(id) ON DELETE RESTRICT
+        );
+
+        INSERT INTO menu_item_ingredients_new (id, menu_item_id, inventory_item_id, quantity_required, unit)
+        SELECT id, menu_item_id, inventory_item_id, MAX(quantity_required, 0), unit
+        FROM menu_item_ingredients;
+
+        DROP TABLE menu_item_ingredients;
+        ALTER TABLE menu_item_ingredients_new RENAME TO menu_item_ingredients;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_item_ingredients_unique
+          ON menu_item_ingredients(menu_item_id, inventory_item_id, COALESCE(size_name, ''));
+        CREATE INDEX IF NOT EXISTS idx_menu_item_ingredients_menu_id ON menu_item_ingredients(menu_item_id);
+        CREATE INDEX IF NOT EXISTS idx_menu_item_ingredients_inventory_id ON menu_item_ingredients(inventory_item_id);
+      `);
+
+      // Sales post stock usage per order line, so refunds can give back exactly what that line used
+      const transactionsInfo = db.prepare('PRAGMA table_info(inventory_transactions)').all();
+      if (!transactionsInfo.some(col => col.name === 'order_item_id')) {
+        db.exec(`ALTER TABLE inventory_transactions ADD COLUMN order_item_id INTEGER;`);
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reference ON inventory_transactions(reference_type, reference_id);
+        CREATE INDEX IF NOT EXISTS idx_inventory_transactions_order_item_id ON inventory_transactions(order_item_id);
+        CREATE INDEX IF NOT EXISTS idx_inventory_transactions_created_at ON inventory_transactions(created_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DELETE FROM menu_item_ingredients WHERE size_name IS NOT NULL;
+        DROP INDEX IF EXISTS idx_menu_item_ingredients_unique;
+        DROP INDEX IF EXISTS idx_inventory_transactions_reference;
+        DROP INDEX IF EXISTS idx_inventory_transactions_order_item_id;
+        DROP INDEX IF EXISTS idx_inventory_transactions_created_at;
+      `);
+      // Note: SQLite doesn't support DROP COLUMN, so size_name and order_item_id stay
+    }
+  },
+  {
+    version: 33,
+    up: (db) => {
+      // A refund or void approval authorizes one refund; used_at marks it spent
+      const overridesInfo = db.prepare('PRAGMA table_info(manager_overrides)').all();
+      if (!overridesInfo.some(col => col.name === 'used_at')) {
+        db.exec(`ALTER TABLE manager_overrides ADD COLUMN used_at DATETIME;`);
+      }
+      if (!overridesInfo.some(col => col.name === 'used_by_refund_id')) {
+        db.exec(`ALTER TABLE manager_overrides ADD COLUMN used_by_refund_id INTEGER REFERENCES refunds(id) ON DELETE SET NULL;`);
+      }
+      // Approvals given before this migration may already have been used, so they can't be used again
+      db.exec(`UPDATE manager_overrides SET used_at = created_at WHERE used_at IS NULL AND action IN ('refund', 'void');`);
+    },
+    down: (db) => {
+      // Note: SQLite doesn't support DROP COLUMN, so used_at and used_by_refund_id stay
+    }
+  },
+  {
+    version: 34,
+    up: (db) => {
+      // Shifts are synced between tills, so each one names the terminal whose drawer it is
+      const shiftsInfo = db.prepare('PRAGMA table_info(shifts)').all();
+      if (!shiftsInfo.some(col => col.name === 'terminal_id')) {
+        db.exec(`ALTER TABLE shifts ADD COLUMN terminal_id TEXT;`);
+      }
+      // Existing shifts can't be told apart, so they are taken to be this till's
+      db.exec(`
+        UPDATE shifts SET terminal_id = (SELECT UPPER(TRIM(value)) FROM settings WHERE key = 'terminal_id')
+        WHERE terminal_id IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_shifts_terminal_status ON shifts(terminal_id, status);
+      `);
+    },
+    down: (db) => {
+      db.exec(`DROP INDEX IF EXISTS idx_shifts_terminal_status;`);
+      // Note: SQLite doesn't support DROP COLUMN, so terminal_id stays
+    }
+  },
+  {
+    version: 35,
+    up: (db) => {
+      // The pickup board moved onto the app's own server (under /pickup), which only listens beyond this
+      // machine when pickup_board_network is turned on; its separate port is gone
+      const exists = db.prepare('SELECT id FROM settings WHERE key = ?').get('pickup_board_network');
+      if (!exists) {
+        db.prepare('INSERT INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(
+          'pickup_board_network', 'false', 'Let other devices on the network open the pickup board (true/false)', 'kitchen'
+        );
+      }
+      db.prepare("UPDATE settings SET description = 'Serve the pickup board from this till (true/false)' WHERE key = 'pickup_board_enabled'").run();
+      db.prepare("DELETE FROM settings WHERE key = 'pickup_board_port'").run();
+    },
+    down: (db) => {
+      db.prepare("DELETE FROM settings WHERE key = 'pickup_board_network'").run();
+      db.prepare('INSERT OR IGNORE INTO settings (key, value, description, category) VALUES (?, ?, ?, ?)').run(
+        'pickup_board_port', '8090', 'Network port for the pickup board', 'kitchen'
+      );
+    }
   }
 ];
 
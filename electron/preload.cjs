@@ -25,6 +25,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
     saveSizes: (menuItemId, sizes) => ipcRenderer.invoke('menu:saveSizes', menuItemId, sizes),
     getCustomOptions: (menuItemId) => ipcRenderer.invoke('menu:getCustomOptions', menuItemId),
     saveCustomOptions: (menuItemId, options) => ipcRenderer.invoke('menu:saveCustomOptions', menuItemId, options),
+    getOptionGroups: (menuItemId) => ipcRenderer.invoke('menu:getOptionGroups', menuItemId),
+    saveOptionGroups: (menuItemId, optionGroupIds) => ipcRenderer.invoke('menu:saveOptionGroups', menuItemId, optionGroupIds),
+    getAddons: (menuItemId) => ipcRenderer.invoke('menu:getAddons', menuItemId),
+    saveAddons: (menuItemId, addonIds) => ipcRenderer.invoke('menu:saveAddons', menuItemId, addonIds),
+  },
+  
+  // Recipe handlers
+  recipe: {
+    get: (menuItemId) => ipcRenderer.invoke('recipe:get', menuItemId),
+    save: (menuItemId, rows) => ipcRenderer.invoke('recipe:save', menuItemId, rows),
+    postOrderUsage: (orderId) => ipcRenderer.invoke('recipe:postOrderUsage', orderId),
+    getUsage: (startDate, endDate) => ipcRenderer.invoke('recipe:getUsage', startDate, endDate),
   },
   
   // Category handlers
@@ -72,17 +84,204 @@ contextBridge.exposeInMainWorld('electronAPI', {
     update: (id, tableData) => ipcRenderer.invoke('table:update', id, tableData),
     delete: (id) => ipcRenderer.invoke('table:delete', id),
     updateStatus: (id, status) => ipcRenderer.invoke('table:updateStatus', id, status),
+    saveLayout: (layouts) => ipcRenderer.invoke('table:saveLayout', layouts),
+    releaseOrder: (orderId) => ipcRenderer.invoke('table:releaseOrder', orderId),
+    move: (transferData) => ipcRenderer.invoke('table:move', transferData),
+    merge: (transferData) => ipcRenderer.invoke('table:merge', transferData),
+    splitOrder: (splitData) => ipcRenderer.invoke('table:splitOrder', splitData),
+    splitOrderBySeat: (splitData) => ipcRenderer.invoke('table:splitOrderBySeat', splitData),
+    getTransfers: (limit) => ipcRenderer.invoke('table:getTransfers', limit),
+  },
+  
+  // Floor section handlers
+  floorSection: {
+    getAll: () => ipcRenderer.invoke('floorSection:getAll'),
+    create: (sectionData) => ipcRenderer.invoke('floorSection:create', sectionData),
+    update: (id, sectionData) => ipcRenderer.invoke('floorSection:update', id, sectionData),
+    delete: (id) => ipcRenderer.invoke('floorSection:delete', id),
+  },
+  
+  // Reservation handlers
+  reservation: {
+    getByDate: (date) => ipcRenderer.invoke('reservation:getByDate', date),
+    getById: (id) => ipcRenderer.invoke('reservation:getById', id),
+    create: (reservationData) => ipcRenderer.invoke('reservation:create', reservationData),
+    update: (id, reservationData) => ipcRenderer.invoke('reservation:update', id, reservationData),
+    setStatus: (id, status) => ipcRenderer.invoke('reservation:setStatus', id, status),
+    delete: (id) => ipcRenderer.invoke('reservation:delete', id),
+    seat: (id, seatData) => ipcRenderer.invoke('reservation:seat', id, seatData),
+  },
+  
+  // Kitchen display handlers
+  kds: {
+    getTickets: (stationId) => ipcRenderer.invoke('kds:getTickets', stationId),
+    getBumped: (limit, stationId) => ipcRenderer.invoke('kds:getBumped', limit, stationId),
+    start: (id) => ipcRenderer.invoke('kds:start', id),
+    bump: (id) => ipcRenderer.invoke('kds:bump', id),
+    recall: (id) => ipcRenderer.invoke('kds:recall', id),
+    bumpStation: (id, stationId) => ipcRenderer.invoke('kds:bumpStation', id, stationId),
+    recallStation: (id, stationId) => ipcRenderer.invoke('kds:recallStation', id, stationId),
+    openWindow: (stationId) => ipcRenderer.invoke('kds:openWindow', stationId),
+    // Pushed by the main process whenever orders change; returns an unsubscribe function
+    onUpdated: (callback) => {
+      const listener = () => callback();
+      ipcRenderer.on('kds:updated', listener);
+      return () => ipcRenderer.removeListener('kds:updated', listener);
+    },
+  },
+  
+  // Customer display handlers
+  customerDisplay: {
+    open: () => ipcRenderer.invoke('customerDisplay:open'),
+    close: () => ipcRenderer.invoke('customerDisplay:close'),
+    update: (state) => ipcRenderer.invoke('customerDisplay:update', state),
+    getState: () => ipcRenderer.invoke('customerDisplay:getState'),
+    getPromoImages: () => ipcRenderer.invoke('customerDisplay:getPromoImages'),
+    // Pushed by the main process whenever the POS changes what the customer sees; returns an unsubscribe function
+    onState: (callback) => {
+      const listener = (_event, state) => callback(state);
+      ipcRenderer.on('customerDisplay:state', listener);
+      return () => ipcRenderer.removeListener('customerDisplay:state', listener);
+    },
+  },
+  
+  // Pickup board handlers
+  pickupBoard: {
+    getStatus: () => ipcRenderer.invoke('pickupBoard:getStatus'),
+    restart: () => ipcRenderer.invoke('pickupBoard:restart'),
+  },
+  
+  // Prep station handlers
+  prepStation: {
+    getAll: () => ipcRenderer.invoke('prepStation:getAll'),
+    create: (stationData) => ipcRenderer.invoke('prepStation:create', stationData),
+    update: (id, stationData) => ipcRenderer.invoke('prepStation:update', id, stationData),
+    delete: (id) => ipcRenderer.invoke('prepStation:delete', id),
+  },
+  
+  // Printer handlers
+  printer: {
+    getAll: () => ipcRenderer.invoke('printer:getAll'),
+    getSystemPrinters: () => ipcRenderer.invoke('printer:getSystemPrinters'),
+    create: (printerData) => ipcRenderer.invoke('printer:create', printerData),
+    update: (id, printerData) => ipcRenderer.invoke('printer:update', id, printerData),
+    delete: (id) => ipcRenderer.invoke('printer:delete', id),
+    test: (printerData) => ipcRenderer.invoke('printer:test', printerData),
+  },
+  
+  // Label handlers
+  labelSize: {
+    getAll: () => ipcRenderer.invoke('labelSize:getAll'),
+    create: (sizeData) => ipcRenderer.invoke('labelSize:create', sizeData),
+    update: (id, sizeData) => ipcRenderer.invoke('labelSize:update', id, sizeData),
+    delete: (id) => ipcRenderer.invoke('labelSize:delete', id),
+  },
+  production: {
+    getAll: (filters) => ipcRenderer.invoke('production:getAll', filters),
+    create: (batchData) => ipcRenderer.invoke('production:create', batchData),
+  },
+  label: {
+    preview: (request) => ipcRenderer.invoke('label:preview', request),
+    print: (request) => ipcRenderer.invoke('label:print', request),
+  },
+  
+  // Print template handlers
+  printTemplate: {
+    getAll: () => ipcRenderer.invoke('printTemplate:getAll'),
+    update: (type, templateData) => ipcRenderer.invoke('printTemplate:update', type, templateData),
+    reset: (type) => ipcRenderer.invoke('printTemplate:reset', type),
+    preview: (type, templateData) => ipcRenderer.invoke('printTemplate:preview', type, templateData),
+  },
+  
+  // Print job handlers
+  printJob: {
+    getAll: (filters) => ipcRenderer.invoke('printJob:getAll', filters),
+    getFailedCount: () => ipcRenderer.invoke('printJob:getFailedCount'),
+    retry: (id) => ipcRenderer.invoke('printJob:retry', id),
+    reprint: (id) => ipcRenderer.invoke('printJob:reprint', id),
+    getQueueStatus: () => ipcRenderer.invoke('printJob:getQueueStatus'),
+    // Pushed by the main process when a job fails after its automatic retries; returns an unsubscribe function
+    onFailed: (callback) => {
+      const listener = (_event, failure) => callback(failure);
+      ipcRenderer.on('printJob:failed', listener);
+      return () => ipcRenderer.removeListener('printJob:failed', listener);
+    },
+  },
+  
+  // PDF archive handlers
+  pdfArchive: {
+    getForOrder: (orderId) => ipcRenderer.invoke('pdfArchive:getForOrder', orderId),
+    saveReceipt: (orderData) => ipcRenderer.invoke('pdfArchive:saveReceipt', orderData),
+    open: (id) => ipcRenderer.invoke('pdfArchive:open', id),
+    export: (id) => ipcRenderer.invoke('pdfArchive:export', id),
+    exportRange: (startDate, endDate) => ipcRenderer.invoke('pdfArchive:exportRange', startDate, endDate),
   },
   
   // Print handlers
   print: {
     kitchenOrder: (orderData) => ipcRenderer.invoke('print:kitchenOrder', orderData),
     customerReceipt: (orderData) => ipcRenderer.invoke('print:customerReceipt', orderData),
+    zReport: (reportData) => ipcRenderer.invoke('print:zReport', reportData),
+    refundReceipt: (refundData) => ipcRenderer.invoke('print:refundReceipt', refundData),
+    openDrawer: (drawerData) => ipcRenderer.invoke('print:openDrawer', drawerData),
+  },
+  
+  // Shift (cash drawer) handlers
+  shift: {
+    getCurrent: () => ipcRenderer.invoke('shift:getCurrent'),
+    getAll: (limit) => ipcRenderer.invoke('shift:getAll', limit),
+    getSummary: (id) => ipcRenderer.invoke('shift:getSummary', id),
+    open: (shiftData) => ipcRenderer.invoke('shift:open', shiftData),
+    close: (id, closeData) => ipcRenderer.invoke('shift:close', id, closeData),
+    addCashMovement: (movementData) => ipcRenderer.invoke('shift:addCashMovement', movementData),
+  },
+  
+  // Discount (promotion) handlers
+  discount: {
+    getAll: () => ipcRenderer.invoke('discount:getAll'),
+    getById: (id) => ipcRenderer.invoke('discount:getById', id),
+    create: (discountData) => ipcRenderer.invoke('discount:create', discountData),
+    update: (id, discountData) => ipcRenderer.invoke('discount:update', id, discountData),
+    delete: (id) => ipcRenderer.invoke('discount:delete', id),
+    evaluate: (cart) => ipcRenderer.invoke('discount:evaluate', cart),
+    redeem: (id) => ipcRenderer.invoke('discount:redeem', id),
+    release: (id) => ipcRenderer.invoke('discount:release', id),
+  },
+  
+  // Tax class handlers
+  tax: {
+    getClasses: () => ipcRenderer.invoke('tax:getClasses'),
+    createClass: (taxClassData) => ipcRenderer.invoke('tax:createClass', taxClassData),
+    updateClass: (id, taxClassData) => ipcRenderer.invoke('tax:updateClass', id, taxClassData),
+    deleteClass: (id) => ipcRenderer.invoke('tax:deleteClass', id),
+  },
+  
+  // Order numbering handlers
+  numbering: {
+    next: () => ipcRenderer.invoke('numbering:next'),
+  },
+  
+  // Refund handlers
+  refund: {
+    process: (refundData) => ipcRenderer.invoke('refund:process', refundData),
+    getByOrder: (orderId) => ipcRenderer.invoke('refund:getByOrder', orderId),
+    getAll: (startDate, endDate) => ipcRenderer.invoke('refund:getAll', startDate, endDate),
+  },
+  
+  // Manager override handlers
+  override: {
+    getConfig: () => ipcRenderer.invoke('override:getConfig'),
+    approve: (overrideData) => ipcRenderer.invoke('override:approve', overrideData),
+    setPin: (userId, pin) => ipcRenderer.invoke('override:setPin', userId, pin),
+    getLog: (limit) => ipcRenderer.invoke('override:getLog', limit),
   },
   
   // Order handlers
   order: {
+    create: (orderData) => ipcRenderer.invoke('order:create', orderData),
+    updateHeld: (id, orderData) => ipcRenderer.invoke('order:updateHeld', id, orderData),
     delete: (id, userId) => ipcRenderer.invoke('order:delete', id, userId),
+    discardHeld: (id, userId, overrideId) => ipcRenderer.invoke('order:discardHeld', id, userId, overrideId),
   },
   
   // User handlers
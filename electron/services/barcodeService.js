@@ -0,0 +1,104 @@
+/**
+ * Barcode Service - Code 128 barcodes as SVG
+ *
+ * Printouts that go through the OS print driver are HTML, so their barcodes
+ * are drawn as SVG bars. Code set B covers printable ASCII, and runs of
+ * digits switch to code set C (two digits per symbol) to keep the bars wide
+ * enough for a scanner on a small label. ESC/POS printers draw their own
+ * barcodes (see escposService).
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Bar and space widths, in modules, for symbol values 0-106
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100; // In code set C
+const CODE_C = 99; // In code set B
+const STOP = 106;
+
+const QUIET_ZONE = 10; // Modules of white either side
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Symbol values for a string, with the check symbol and stop
+ * @param {string} data - Printable ASCII
+ * @returns {number[]} Symbol values
+ */
+const encode = (data) => {
+  if (!data || !/^[\x20-\x7e]+$/.test(data)) {
+    throw new Error('Barcodes can only hold letters, digits and common symbols');
+  }
+
+  const values = [];
+  let set = null;
+  let i = 0;
+  while (i < data.length) {
+    // A run of 4+ digits (or 2+ at the very start or end) is shorter in set C
+    const run = data.slice(i).match(/^\d+/)?.[0].length || 0;
+    const useC = run >= 4 || (run >= 2 && (i === 0 || i + run === data.length) && run % 2 === 0);
+    if (useC) {
+      const pairs = Math.floor(run / 2);
+      values.push(set === null ? START_C : set === 'C' ? null : CODE_C);
+      set = 'C';
+      for (let p = 0; p < pairs; p++, i += 2) {
+        values.push(parseInt(data.slice(i, i + 2), 10));
+      }
+    } else {
+      values.push(set === null ? START_B : set === 'B' ? null : CODE_B);
+      set = 'B';
+      values.push(data.charCodeAt(i) - 32);
+      i += 1;
+    }
+  }
+
+  const symbols = values.filter(value => value !== null);
+  const checksum = symbols.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+  return [...symbols, checksum, STOP];
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Draw a Code 128 barcode
+ * @param {string} data - Printable ASCII
+ * @param {Object} [options] - Drawing options
+ * @param {number} [options.height] - Bar height, in SVG units (one unit per module)
+ * @returns {string} SVG element that scales to its container's width
+ */
+export const code128SVG = (data, { height = 40 } = {}) => {
+  const widths = encode(data).map(value => PATTERNS[value]).join('');
+  let x = QUIET_ZONE;
+  const bars = [];
+  for (let i = 0; i < widths.length; i++) {
+    const width = Number(widths[i]);
+    // Even positions are bars, odd are spaces
+    if (i % 2 === 0) {
+      bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}"/>`);
+    }
+    x += width;
+  }
+  const total = x + QUIET_ZONE;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${height}" preserveAspectRatio="none" shape-rendering="crispEdges">${bars.join('')}</svg>`;
+};
@@ -40,11 +40,12 @@ export async function getCategoryById(id) {
  * @param {string} categoryData.name - Category name (required)
  * @param {string} [categoryData.description] - Category description
  * @param {number} [categoryData.display_order] - Display order (default 0)
+ * @param {number} [categoryData.tax_class_id] - Tax class for items in this category
  * @returns {Promise<Object>} Created category with ID
  */
 export async function createCategory(categoryData) {
   try {
-    const { name, description, display_order = 0 } = categoryData;
+    const { name, description, display_order = 0, tax_class_id } = categoryData;
 
     // Validation
     if (!name || !name.trim()) {
@@ -62,12 +63,13 @@ export async function createCategory(categoryData) {
     }
 
     const result = dbQuery(
-      `INSERT INTO categories (name, description, display_order, created_at)
-       VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+      `INSERT INTO categories (name, description, display_order, tax_class_id, created_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
       [
         name.trim(),
         description?.trim() || null,
         display_order || 0,
+        tax_class_id || null,
       ]
     );
 
@@ -97,7 +99,7 @@ export async function updateCategory(id, categoryData) {
       throw new Error('Category not found');
     }
 
-    const { name, description, display_order } = categoryData;
+    const { name, description, display_order, tax_class_id } = categoryData;
 
     // Build update query dynamically based on provided fields
     const updates = [];
@@ -132,6 +134,11 @@ export async function updateCategory(id, categoryData) {
       values.push(display_order || 0);
     }
 
+    if (tax_class_id !== undefined) {
+      updates.push('tax_class_id = ?');
+      values.push(tax_class_id || null);
+    }
+
     if (updates.length === 0) {
       return existingCategory; // No updates provided
     }
@@ -0,0 +1,320 @@
+// Discount service for handling promotions and promo codes
+import { dbQuery } from './databaseService.js';
+
+const DISCOUNT_TYPES = ['percentage', 'fixed'];
+
+/**
+ * Normalise a promo code for storage and lookup (codes are case-insensitive)
+ * @param {string} [code] - Raw code
+ * @returns {string|null} Upper-cased code or null for automatic promotions
+ */
+function normaliseCode(code) {
+  const trimmed = code?.trim();
+  return trimmed ? trimmed.toUpperCase() : null;
+}
+
+/**
+ * Parse the applicable_items column (JSON array of menu item IDs)
+ * @param {string|null} value - Stored value
+ * @returns {Array<number>} Menu item IDs, empty when the promotion covers the whole order
+ */
+function parseApplicableItems(value) {
+  if (!value) return [];
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.map(Number).filter(id => !isNaN(id)) : [];
+  } catch (error) {
+    console.error('Error parsing discount applicable_items:', error);
+    return [];
+  }
+}
+
+/**
+ * Get all discounts
+ * @returns {Promise<Array>} Array of discounts
+ */
+export function getAllDiscounts() {
+  try {
+    return dbQuery('SELECT * FROM discounts ORDER BY is_active DESC, created_at DESC');
+  } catch (error) {
+    console.error('Error getting all discounts:', error);
+    throw new Error('Failed to retrieve discounts');
+  }
+}
+
+/**
+ * Get discount by ID
+ * @param {number} id - Discount ID
+ * @returns {Promise<Object|null>} Discount or null if not found
+ */
+export function getDiscountById(id) {
+  try {
+    const results = dbQuery('SELECT * FROM discounts WHERE id = ?', [id]);
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting discount by ID:', error);
+    throw new Error('Failed to retrieve discount');
+  }
+}
+
+/**
+ * Validate and normalise discount fields shared by create and update
+ * @param {Object} discountData - Discount data
+ * @returns {Array} Column values in insert/update order
+ */
+function buildDiscountValues(discountData) {
+  const {
+    name,
+    description,
+    code,
+    discount_type,
+    discount_value,
+    min_purchase_amount,
+    applicable_items,
+    start_date,
+    end_date,
+    is_active,
+    usage_limit,
+  } = discountData;
+
+  if (!name || name.trim() === '') {
+    throw new Error('Promotion name is required');
+  }
+  if (!DISCOUNT_TYPES.includes(discount_type)) {
+    throw new Error(`Invalid discount type. Must be one of: ${DISCOUNT_TYPES.join(', ')}`);
+  }
+  if (isNaN(discount_value) || Number(discount_value) <= 0) {
+    throw new Error('Discount value must be a positive number');
+  }
+  if (discount_type === 'percentage' && Number(discount_value) > 100) {
+    throw new Error('Percentage discounts cannot exceed 100%');
+  }
+  if (start_date && end_date && start_date > end_date) {
+    throw new Error('End date must be on or after the start date');
+  }
+
+  const itemIds = Array.isArray(applicable_items) ? applicable_items : parseApplicableItems(applicable_items);
+
+  return [
+    name.trim(),
+    description?.trim() || null,
+    normaliseCode(code),
+    discount_type,
+    Number(discount_value),
+    min_purchase_amount ? Number(min_purchase_amount) : null,
+    itemIds.length > 0 ? JSON.stringify(itemIds) : null,
+    start_date || null,
+    end_date || null,
+    is_active !== undefined ? (is_active ? 1 : 0) : 1,
+    usage_limit ? parseInt(usage_limit, 10) : null,
+  ];
+}
+
+/**
+ * Create a new discount
+ * @param {Object} discountData - Discount data
+ * @returns {Promise<Object>} Created discount
+ */
+export function createDiscount(discountData) {
+  try {
+    const values = buildDiscountValues(discountData);
+    const code = values[2];
+    if (code && dbQuery('SELECT id FROM discounts WHERE code = ?', [code]).length > 0) {
+      throw new Error(`Promo code "${code}" is already in use`);
+    }
+
+    const result = dbQuery(
+      `INSERT INTO discounts (name, description, code, discount_type, discount_value, min_purchase_amount,
+         applicable_items, start_date, end_date, is_active, usage_limit)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      values
+    );
+
+    return getDiscountById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error creating discount:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an existing discount
+ * @param {number} id - Discount ID
+ * @param {Object} discountData - Updated discount data
+ * @returns {Promise<Object>} Updated discount
+ */
+export function updateDiscount(id, discountData) {
+  try {
+    const existing = getDiscountById(id);
+    if (!existing) {
+      throw new Error('Promotion not found');
+    }
+
+    const values = buildDiscountValues(discountData);
+    const code = values[2];
+    if (code && dbQuery('SELECT id FROM discounts WHERE code = ? AND id != ?', [code, id]).length > 0) {
+      throw new Error(`Promo code "${code}" is already in use`);
+    }
+
+    dbQuery(
+      `UPDATE discounts
+       SET name = ?, description = ?, code = ?, discount_type = ?, discount_value = ?, min_purchase_amount = ?,
+           applicable_items = ?, start_date = ?, end_date = ?, is_active = ?, usage_limit = ?
+       WHERE id = ?`,
+      [...values, id]
+    );
+
+    return getDiscountById(id);
+  } catch (error) {
+    console.error('Error updating discount:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a discount (orders keep the promotion name and amount)
+ * @param {number} id - Discount ID
+ * @returns {Promise<boolean>} True if deleted
+ */
+export function deleteDiscount(id) {
+  try {
+    const result = dbQuery('DELETE FROM discounts WHERE id = ?', [id]);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('Error deleting discount:', error);
+    throw error;
+  }
+}
+
+/**
+ * Work out what a promotion is worth for a cart, or why it does not apply
+ * @param {Object} discount - Discount row
+ * @param {Object} cart - Cart being checked out
+ * @param {Array<{menu_item_id: number, subtotal: number}>} cart.items - Cart lines
+ * @param {number} cart.subtotal - Cart subtotal before discounts
+ * @param {number} [cart.redeemed_discount_id] - Promotion already counted against this ticket
+ * @returns {{amount: number, reason: string|null}} Discount amount, or the reason it is not eligible
+ */
+function calculatePromotion(discount, cart) {
+  const today = new Date().toLocaleDateString('en-CA');
+  const subtotal = Number(cart.subtotal) || 0;
+
+  if (!discount.is_active) {
+    return { amount: 0, reason: 'This promotion is not active' };
+  }
+  if (discount.start_date && discount.start_date.slice(0, 10) > today) {
+    return { amount: 0, reason: 'This promotion has not started yet' };
+  }
+  if (discount.end_date && discount.end_date.slice(0, 10) < today) {
+    return { amount: 0, reason: 'This promotion has expired' };
+  }
+  if (
+    discount.usage_limit &&
+    discount.usage_count >= discount.usage_limit &&
+    discount.id !== cart.redeemed_discount_id
+  ) {
+    return { amount: 0, reason: 'This promotion has reached its usage limit' };
+  }
+  if (discount.min_purchase_amount && subtotal < discount.min_purchase_amount) {
+    return { amount: 0, reason: `Spend at least ${discount.min_purchase_amount.toFixed(2)} to use this promotion` };
+  }
+
+  const itemIds = parseApplicableItems(discount.applicable_items);
+  const eligibleSubtotal = itemIds.length > 0
+    ? (cart.items || [])
+        .filter(item => itemIds.includes(Number(item.menu_item_id)))
+        .reduce((sum, item) => sum + (Number(item.subtotal) || 0), 0)
+    : subtotal;
+
+  if (eligibleSubtotal <= 0) {
+    return { amount: 0, reason: 'No items in the cart qualify for this promotion' };
+  }
+
+  const rawAmount = discount.discount_type === 'percentage'
+    ? eligibleSubtotal * (discount.discount_value / 100)
+    : Math.min(discount.discount_value, eligibleSubtotal);
+
+  return { amount: Math.round(rawAmount * 100) / 100, reason: null };
+}
+
+/**
+ * Find the promotion to apply to a cart: the entered promo code, otherwise the best automatic promotion
+ * @param {Object} cart - Cart being checked out
+ * @param {Array<{menu_item_id: number, subtotal: number}>} cart.items - Cart lines
+ * @param {number} cart.subtotal - Cart subtotal before discounts
+ * @param {string} [cart.code] - Promo code entered by the cashier
+ * @param {number} [cart.redeemed_discount_id] - Promotion already counted against this ticket
+ * @returns {Promise<{discount: Object, amount: number}|null>} Applied promotion or null if none apply
+ */
+export function evaluatePromotions(cart) {
+  try {
+    const code = normaliseCode(cart.code);
+
+    if (code) {
+      const results = dbQuery('SELECT * FROM discounts WHERE code = ?', [code]);
+      if (results.length === 0) {
+        throw new Error(`Promo code "${code}" was not found`);
+      }
+      const { amount, reason } = calculatePromotion(results[0], cart);
+      if (reason) {
+        throw new Error(reason);
+      }
+      return { discount: results[0], amount };
+    }
+
+    const automatic = dbQuery('SELECT * FROM discounts WHERE code IS NULL AND is_active = 1');
+    let best = null;
+    for (const discount of automatic) {
+      const { amount } = calculatePromotion(discount, cart);
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { discount, amount };
+      }
+    }
+    return best;
+  } catch (error) {
+    console.error('Error evaluating promotions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Count one use of a promotion, refusing once the usage limit is reached
+ * @param {number} id - Discount ID
+ * @returns {Promise<Object>} Updated discount
+ */
+export function redeemDiscount(id) {
+  try {
+    const result = dbQuery(
+      `UPDATE discounts
+       SET usage_count = COALESCE(usage_count, 0) + 1
+       WHERE id = ? AND is_active = 1 AND (usage_limit IS NULL OR COALESCE(usage_count, 0) < usage_limit)`,
+      [id]
+    );
+    if (result.changes === 0) {
+      const discount = getDiscountById(id);
+      if (!discount) {
+        throw new Error('Promotion not found');
+      }
+      throw new Error(discount.is_active ? `"${discount.name}" has reached its usage limit` : `"${discount.name}" is no longer active`);
+    }
+    return getDiscountById(id);
+  } catch (error) {
+    console.error('Error redeeming discount:', error);
+    throw error;
+  }
+}
+
+/**
+ * Give back a use of a promotion (ticket discarded or promotion removed from it)
+ * @param {number} id - Discount ID
+ * @returns {Promise<Object|null>} Updated discount or null if it no longer exists
+ */
+export function releaseDiscount(id) {
+  try {
+    dbQuery('UPDATE discounts SET usage_count = MAX(COALESCE(usage_count, 0) - 1, 0) WHERE id = ?', [id]);
+    return getDiscountById(id);
+  } catch (error) {
+    console.error('Error releasing discount:', error);
+    throw error;
+  }
+}
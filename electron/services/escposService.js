@@ -0,0 +1,505 @@
+/**
+ * ESC/POS Service - Raw thermal printer commands
+ *
+ * Builds ESC/POS byte streams (text styles, alignment, columns, QR codes,
+ * barcodes, raster logos, cut and drawer kick) and sends them straight to
+ * a network printer (TCP, normally port 9100) or a device path, without
+ * the OS print driver.
+ */
+
+import fs from 'fs';
+import net from 'net';
+import { nativeImage } from 'electron';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Printable width per paper roll, for font A (12x24) and font B (9x17)
+export const PAPER_WIDTHS = {
+  58: { dots: 384, columns: 32, columnsFontB: 42 },
+  80: { dots: 576, columns: 48, columnsFontB: 64 },
+};
+
+const ALIGNMENTS = { left: 0, center: 1, right: 2 };
+
+// GS k function B symbologies
+const BARCODE_TYPES = {
+  UPC_A: 65,
+  UPC_E: 66,
+  EAN13: 67,
+  EAN8: 68,
+  CODE39: 69,
+  ITF: 70,
+  CODABAR: 71,
+  CODE93: 72,
+  CODE128: 73,
+};
+
+const QR_ERROR_LEVELS = { L: 48, M: 49, Q: 50, H: 51 };
+
+export const DEFAULT_RAW_PORT = 9100;
+const SEND_TIMEOUT = 10000;
+
+// Characters the printer's PC437 code page lacks, spelled the way a receipt would
+const CHARACTER_REPLACEMENTS = {
+  '×': 'x',
+  '·': '-',
+  '•': '*',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '€': 'EUR',
+  '£': 'GBP',
+  '\u00a0': ' ', // Intl currency formatting puts a no-break space after the code
+  '\u202f': ' ',
+};
+
+// ============================================================================
+// Text helpers
+// ============================================================================
+
+/**
+ * Reduce text to what the printer can show: accents dropped, unknown characters as '?'
+ * @param {string} text - Text
+ * @returns {string} ASCII text
+ */
+const toPrintable = (text) =>
+  String(text ?? '')
+    .replace(/[×·•–—‘’“”…€£\u00a0\u202f]/g, (c) => CHARACTER_REPLACEMENTS[c])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\n]/g, '?');
+
+/**
+ * Break text into lines of at most width characters, on spaces where possible
+ * Leading spaces are kept as an indent on every line of the paragraph.
+ * @param {string} text - Text
+ * @param {number} width - Characters per line
+ * @returns {string[]} Lines
+ */
+export const wrapText = (text, width) => {
+  const lines = [];
+  String(text ?? '').split('\n').forEach((paragraph) => {
+    const indent = paragraph.match(/^ */)[0].slice(0, Math.max(0, width - 1));
+    const room = width - indent.length;
+    let line = indent;
+    paragraph.trimStart().split(' ').forEach((word) => {
+      while (word.length > room) {
+        if (line !== indent) {
+          lines.push(line);
+          line = indent;
+        }
+        lines.push(indent + word.slice(0, room));
+        word = word.slice(room);
+      }
+      if (line === indent) {
+        line += word;
+      } else if (line.length + 1 + word.length <= width) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = indent + word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const pad = (text, width, align) => {
+  const value = text.slice(0, width);
+  const space = width - value.length;
+  if (align === 'right') return ' '.repeat(space) + value;
+  if (align === 'center') return ' '.repeat(Math.floor(space / 2)) + value + ' '.repeat(Math.ceil(space / 2));
+  return value + ' '.repeat(space);
+};
+
+// ============================================================================
+// Raster images
+// ============================================================================
+
+/**
+ * Convert a bitmap to 1-bit printer raster with Floyd-Steinberg dithering
+ * @param {Object} bitmap - Image
+ * @param {number} bitmap.width - Width in pixels
+ * @param {number} bitmap.height - Height in pixels
+ * @param {Buffer|Uint8Array} bitmap.data - 4 bytes per pixel
+ * @param {string} [bitmap.order] - Channel order of data, 'BGRA' (Electron) or 'RGBA'
+ * @returns {{widthBytes: number, height: number, data: Buffer}} Rows of packed bits, 1 = black
+ */
+export const rasterize = ({ width, height, data, order = 'BGRA' }) => {
+  const [r, g, b] = order === 'RGBA' ? [0, 1, 2] : [2, 1, 0];
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = 0.299 * data[i * 4 + r] + 0.587 * data[i * 4 + g] + 0.114 * data[i * 4 + b];
+    // Transparent areas print as paper
+    gray[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+
+  const widthBytes = Math.ceil(width / 8);
+  const raster = Buffer.alloc(widthBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = gray[i] < 128;
+      const error = gray[i] - (black ? 0 : 255);
+      if (black) raster[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      if (x + 1 < width) gray[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) gray[i + width - 1] += (error * 3) / 16;
+        gray[i + width] += (error * 5) / 16;
+        if (x + 1 < width) gray[i + width + 1] += error / 16;
+      }
+    }
+  }
+  return { widthBytes, height, data: raster };
+};
+
+/**
+ * Load an image file and scale it down to fit the paper
+ * @param {string} filePath - PNG or JPEG file
+ * @param {number} maxWidth - Maximum width in dots
+ * @returns {Object|null} Bitmap for rasterize, or null when the file can't be read
+ */
+export const loadImageBitmap = (filePath, maxWidth) => {
+  if (!filePath || !fs.existsSync(filePath)) return null;
+  let image = nativeImage.createFromPath(filePath);
+  if (image.isEmpty()) return null;
+  if (image.getSize().width > maxWidth) {
+    image = image.resize({ width: maxWidth, quality: 'best' });
+  }
+  const { width, height } = image.getSize();
+  return { width, height, data: image.toBitmap(), order: 'BGRA' };
+};
+
+// ============================================================================
+// Command builder
+// ============================================================================
+
+/**
+ * Chainable ESC/POS command builder
+ *
+ * @example
+ * const bytes = new EscPosBuilder({ paperWidth: 80 })
+ *   .align('center').bold().line('THE KINGS BAKERY').bold(false)
+ *   .leftRight('Total', 'SLE 120')
+ *   .cut()
+ *   .build();
+ */
+export class EscPosBuilder {
+  /**
+   * @param {Object} [options] - Builder options
+   * @param {number} [options.paperWidth] - Paper roll width in mm (58 or 80)
+   */
+  constructor({ paperWidth = 80 } = {}) {
+    this.paper = PAPER_WIDTHS[paperWidth] || PAPER_WIDTHS[80];
+    this.chunks = [];
+    this.fontB = false;
+    this.widthScale = 1;
+    this.init();
+  }
+
+  /** Characters per line for the current font and text size */
+  get lineWidth() {
+    return Math.floor((this.fontB ? this.paper.columnsFontB : this.paper.columns) / this.widthScale);
+  }
+
+  raw(bytes) {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  /** Reset the printer and select the PC437 code page */
+  init() {
+    this.fontB = false;
+    this.widthScale = 1;
+    return this.raw([ESC, 0x40, ESC, 0x74, 0]);
+  }
+
+  text(text) {
+    this.chunks.push(Buffer.from(toPrintable(text), 'ascii'));
+    return this;
+  }
+
+  /** Text followed by a line feed; long text wraps at the line width */
+  line(text = '') {
+    wrapText(toPrintable(text), this.lineWidth).forEach((part) => this.text(part).raw([LF]));
+    return this;
+  }
+
+  newline(count = 1) {
+    return this.raw(Array(count).fill(LF));
+  }
+
+  /** Feed paper by a number of lines */
+  feed(lines = 1) {
+    return this.raw([ESC, 0x64, Math.min(255, Math.max(0, lines))]);
+  }
+
+  bold(on = true) {
+    return this.raw([ESC, 0x45, on ? 1 : 0]);
+  }
+
+  underline(on = true) {
+    return this.raw([ESC, 0x2d, on ? 1 : 0]);
+  }
+
+  /** White on black */
+  invert(on = true) {
+    return this.raw([GS, 0x42, on ? 1 : 0]);
+  }
+
+  /** Font A (normal) or B (condensed) */
+  font(name = 'A') {
+    this.fontB = name === 'B';
+    return this.raw([ESC, 0x4d, this.fontB ? 1 : 0]);
+  }
+
+  /**
+   * Character size as multiples of normal
+   * @param {number} width - 1 to 8
+   * @param {number} height - 1 to 8
+   */
+  size(width = 1, height = width) {
+    const w = Math.min(8, Math.max(1, width));
+    const h = Math.min(8, Math.max(1, height));
+    this.widthScale = w;
+    return this.raw([GS, 0x21, ((w - 1) << 4) | (h - 1)]);
+  }
+
+  /** @param {'left'|'center'|'right'} alignment - Alignment for the following lines */
+  align(alignment = 'left') {
+    return this.raw([ESC, 0x61, ALIGNMENTS[alignment] ?? 0]);
+  }
+
+  /** A full-width line of a repeated character */
+  rule(char = '-') {
+    return this.line(char.repeat(this.lineWidth));
+  }
+
+  /**
+   * Text in side-by-side columns; cells that don't fit wrap within their column
+   * @param {Array<{text: string, width?: number, align?: 'left'|'center'|'right'}>} cells - Cells;
+   *   width is in characters, and cells without one share the remaining width
+   */
+  columns(cells) {
+    const fixed = cells.reduce((sum, cell) => sum + (cell.width || 0), 0);
+    const flexible = cells.filter(cell => !cell.width).length;
+    const gaps = cells.length - 1;
+    const share = flexible > 0 ? Math.max(1, Math.floor((this.lineWidth - fixed - gaps) / flexible)) : 0;
+
+    const wrapped = cells.map((cell) => {
+      const width = cell.width || share;
+      return { width, align: cell.align || 'left', lines: wrapText(toPrintable(cell.text), width) };
+    });
+    const rows = Math.max(...wrapped.map(cell => cell.lines.length));
+    for (let row = 0; row < rows; row++) {
+      this.text(wrapped.map(cell => pad(cell.lines[row] || '', cell.width, cell.align)).join(' ')).raw([LF]);
+    }
+    return this;
+  }
+
+  /** Label on the left, value on the right */
+  leftRight(left, right) {
+    const value = toPrintable(right);
+    return this.columns([{ text: left }, { text: value, width: Math.min(value.length, this.lineWidth - 2), align: 'right' }]);
+  }
+
+  /**
+   * QR code, printed at the current alignment
+   * @param {string} data - Content
+   * @param {Object} [options] - QR options
+   * @param {number} [options.size] - Module size in dots, 1 to 16
+   * @param {'L'|'M'|'Q'|'H'} [options.errorLevel] - Error correction level
+   */
+  qr(data, { size = 6, errorLevel = 'M' } = {}) {
+    const bytes = Buffer.from(String(data), 'utf8');
+    const length = bytes.length + 3;
+    return this
+      .raw([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0]) // Model 2
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, size))])
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, QR_ERROR_LEVELS[errorLevel] || QR_ERROR_LEVELS.M])
+      .raw([GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30])
+      .raw(bytes)
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]);
+  }
+
+  /**
+   * Barcode, printed at the current alignment
+   * @param {string} data - Content (digits only for EAN/UPC/ITF)
+   * @param {Object} [options] - Barcode options
+   * @param {string} [options.type] - Symbology: CODE128, EAN13, EAN8, UPC_A, UPC_E, CODE39, CODE93, ITF or CODABAR
+   * @param {number} [options.height] - Bar height in dots
+   * @param {number} [options.width] - Module width, 2 to 6
+   * @param {boolean} [options.showText] - Print the human-readable text below the bars
+   */
+  barcode(data, { type = 'CODE128', height = 80, width = 2, showText = true } = {}) {
+    const symbology = BARCODE_TYPES[type];
+    if (!symbology) {
+      throw new Error(`Unsupported barcode type: ${type}`);
+    }
+    // CODE128 needs a code set; B covers printable ASCII
+    const content = type === 'CODE128' && !String(data).startsWith('{') ? `{B${data}` : String(data);
+    const bytes = Buffer.from(toPrintable(content), 'ascii');
+    return this
+      .raw([GS, 0x68, Math.min(255, Math.max(1, height))])
+      .raw([GS, 0x77, Math.min(6, Math.max(2, width))])
+      .raw([GS, 0x48, showText ? 2 : 0])
+      .raw([GS, 0x6b, symbology, bytes.length])
+      .raw(bytes)
+      .raw([LF]);
+  }
+
+  /**
+   * Raster image (e.g. a logo), printed at the current alignment
+   * @param {Object} bitmap - Bitmap as accepted by rasterize; wider images are cut off at the paper width
+   */
+  image(bitmap) {
+    const { widthBytes, height, data } = rasterize(bitmap);
+    const paperBytes = Math.floor(this.paper.dots / 8);
+    const bytesPerRow = Math.min(widthBytes, paperBytes);
+    const rows = widthBytes === bytesPerRow
+      ? data
+      : Buffer.concat(Array.from({ length: height }, (_, y) => data.subarray(y * widthBytes, y * widthBytes + bytesPerRow)));
+    return this
+      .raw([GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, height & 0xff, height >> 8])
+      .raw(rows);
+  }
+
+  /**
+   * Feed past the tear bar and cut
+   * @param {Object} [options] - Cut options
+   * @param {boolean} [options.partial] - Leave a small uncut tab
+   * @param {number} [options.feed] - Lines to feed before cutting
+   */
+  cut({ partial = true, feed = 3 } = {}) {
+    return this.raw([GS, 0x56, partial ? 66 : 65, Math.min(255, Math.max(0, feed))]);
+  }
+
+  /**
+   * Pulse the cash drawer
+   * @param {number} [pin] - Drawer connector pin, 2 or 5
+   */
+  drawerKick(pin = 2) {
+    return this.raw([ESC, 0x70, pin === 5 ? 1 : 0, 25, 250]);
+  }
+
+  /** @returns {Buffer} The command stream */
+  build() {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * Work out whether a printer name points at a raw ESC/POS printer
+ * Accepted: tcp://host[:port], an IPv4 address with optional :port, a device path
+ * (/dev/usb/lp0, /dev/ttyUSB0, COM3, LPT1, \\.\COM10) or device://path.
+ * Anything else is an OS printer name and prints through the driver.
+ * @param {string|null} printerName - Printer name or address
+ * @returns {{type: 'network', host: string, port: number}|{type: 'device', path: string}|null} Target, or null
+ */
+export const parseRawTarget = (printerName) => {
+  const value = String(printerName || '').trim();
+  if (!value) return null;
+
+  const network = value.match(/^tcp:\/\/([^:/]+)(?::(\d+))?\/?$/i) || value.match(/^(\d{1,3}(?:\.\d{1,3}){3})(?::(\d+))?$/);
+  if (network) {
+    return { type: 'network', host: network[1], port: parseInt(network[2], 10) || DEFAULT_RAW_PORT };
+  }
+  if (/^device:\/\//i.test(value)) {
+    return { type: 'device', path: value.replace(/^device:\/\//i, '') };
+  }
+  if (value.startsWith('/dev/') || /^(COM|LPT)\d+$/i.test(value) || value.startsWith('\\\\.\\')) {
+    const path = /^COM\d{2,}$/i.test(value) ? `\\\\.\\${value}` : value;
+    return { type: 'device', path };
+  }
+  return null;
+};
+
+/**
+ * Describe a target for logs and error messages
+ * @param {Object} target - Target from parseRawTarget
+ * @returns {string} host:port or device path
+ */
+export const describeTarget = (target) =>
+  target.type === 'network' ? `${target.host}:${target.port}` : target.path;
+
+/**
+ * Send bytes to a network printer
+ * @param {Buffer} data - Command stream
+ * @param {string} host - Printer address
+ * @param {number} port - Printer port
+ * @param {number} timeout - Milliseconds before giving up
+ * @returns {Promise<void>}
+ */
+const sendToNetwork = (data, host, port, timeout) => new Promise((resolve, reject) => {
+  const socket = new net.Socket();
+  let settled = false;
+  const finish = (error) => {
+    if (settled) return;
+    settled = true;
+    socket.destroy();
+    if (error) reject(error);
+    else resolve();
+  };
+
+  socket.setTimeout(timeout);
+  socket.once('timeout', () => finish(Object.assign(new Error(`Printer ${host}:${port} did not respond`), { code: 'ETIMEDOUT' })));
+  socket.once('error', finish);
+  socket.connect(port, host, () => {
+    socket.end(data, () => finish());
+  });
+});
+
+/**
+ * Write bytes to a printer device (USB printer class or USB-serial; set the serial line up in the OS)
+ * @param {Buffer} data - Command stream
+ * @param {string} path - Device path
+ * @returns {Promise<void>}
+ */
+const sendToDevice = (data, path) => new Promise((resolve, reject) => {
+  fs.open(path, 'w', (openError, fd) => {
+    if (openError) {
+      reject(openError);
+      return;
+    }
+    fs.write(fd, data, 0, data.length, null, (writeError) => {
+      fs.close(fd, () => (writeError ? reject(writeError) : resolve()));
+    });
+  });
+});
+
+/**
+ * Send an ESC/POS command stream to a printer
+ * @param {Buffer} data - Command stream
+ * @param {Object} target - Target from parseRawTarget
+ * @param {Object} [options] - Send options
+ * @param {number} [options.timeout] - Milliseconds before a network printer counts as offline
+ * @returns {Promise<void>}
+ */
+export const sendRaw = async (data, target, { timeout = SEND_TIMEOUT } = {}) => {
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    throw new Error('Nothing to send to the printer');
+  }
+  if (target?.type === 'network') {
+    await sendToNetwork(data, target.host, target.port, timeout);
+  } else if (target?.type === 'device') {
+    await sendToDevice(data, target.path);
+  } else {
+    throw new Error('Unknown printer target');
+  }
+};
@@ -0,0 +1,152 @@
+// Floor section service for handling floor plan areas (Inside, Terrace, ...)
+import { dbQuery } from './databaseService.js';
+
+/**
+ * Get all floor sections
+ * @returns {Promise<Array>} Array of sections with their table counts
+ */
+export function getAllFloorSections() {
+  try {
+    return dbQuery(
+      `SELECT fs.*, (SELECT COUNT(*) FROM tables t WHERE t.section_id = fs.id) as table_count
+       FROM floor_sections fs
+       ORDER BY fs.display_order, fs.name`
+    );
+  } catch (error) {
+    console.error('Error getting floor sections:', error);
+    throw new Error('Failed to retrieve floor sections');
+  }
+}
+
+/**
+ * Get a single floor section by ID
+ * @param {number} id - Section ID
+ * @returns {Promise<Object|null>} Section or null if not found
+ */
+export function getFloorSectionById(id) {
+  try {
+    const results = dbQuery(
+      'SELECT * FROM floor_sections WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting floor section by ID:', error);
+    throw new Error('Failed to retrieve floor section');
+  }
+}
+
+/**
+ * Create a new floor section
+ * @param {Object} sectionData - Section data
+ * @param {string} sectionData.name - Section name (required)
+ * @param {number} [sectionData.display_order] - Tab order (default: after the last section)
+ * @returns {Promise<Object>} Created section with ID
+ */
+export function createFloorSection(sectionData) {
+  try {
+    const { name, display_order } = sectionData;
+
+    // Validation
+    if (!name || !name.trim()) {
+      throw new Error('Section name is required');
+    }
+
+    const existing = dbQuery(
+      'SELECT id FROM floor_sections WHERE name = ?',
+      [name.trim()]
+    );
+    if (existing.length > 0) {
+      throw new Error('Section with this name already exists');
+    }
+
+    const order = display_order !== undefined && display_order !== null
+      ? display_order
+      : dbQuery('SELECT COALESCE(MAX(display_order), -1) + 1 as next FROM floor_sections')[0].next;
+
+    const result = dbQuery(
+      `INSERT INTO floor_sections (name, display_order, updated_at)
+       VALUES (?, ?, CURRENT_TIMESTAMP)`,
+      [name.trim(), order]
+    );
+
+    return getFloorSectionById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error creating floor section:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a floor section
+ * @param {number} id - Section ID
+ * @param {Object} sectionData - Updated section data
+ * @returns {Promise<Object>} Updated section
+ */
+export function updateFloorSection(id, sectionData) {
+  try {
+    const existing = getFloorSectionById(id);
+    if (!existing) {
+      throw new Error('Floor section not found');
+    }
+
+    const { name, display_order } = sectionData;
+    const updates = [];
+    const values = [];
+
+    if (name !== undefined) {
+      if (!name || !name.trim()) {
+        throw new Error('Section name cannot be empty');
+      }
+      const conflicting = dbQuery(
+        'SELECT id FROM floor_sections WHERE name = ? AND id != ?',
+        [name.trim(), id]
+      );
+      if (conflicting.length > 0) {
+        throw new Error('Section with this name already exists');
+      }
+      updates.push('name = ?');
+      values.push(name.trim());
+    }
+
+    if (display_order !== undefined) {
+      updates.push('display_order = ?');
+      values.push(display_order || 0);
+    }
+
+    if (updates.length === 0) {
+      return existing;
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    dbQuery(`UPDATE floor_sections SET ${updates.join(', ')} WHERE id = ?`, values);
+    return getFloorSectionById(id);
+  } catch (error) {
+    console.error('Error updating floor section:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a floor section. Its tables are kept and fall back to the first section.
+ * @param {number} id - Section ID
+ * @returns {Promise<boolean>} True if deleted
+ */
+export function deleteFloorSection(id) {
+  try {
+    const existing = getFloorSectionById(id);
+    if (!existing) {
+      throw new Error('Floor section not found');
+    }
+
+    // Foreign keys may be off on older databases, so detach the tables explicitly
+    dbQuery('UPDATE tables SET section_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE section_id = ?', [id]);
+    dbQuery('DELETE FROM floor_sections WHERE id = ?', [id]);
+    return true;
+  } catch (error) {
+    console.error('Error deleting floor section:', error);
+    throw error;
+  }
+}
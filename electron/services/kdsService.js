@@ -0,0 +1,258 @@
+// Kitchen display service for handling the tickets the kitchen works from
+import { dbQuery } from './databaseService.js';
+
+// Orders the kitchen still has to make
+const KITCHEN_STATUSES = ['pending', 'preparing'];
+// Older open orders are forgotten tabs, not tickets
+const TICKET_WINDOW = '-1 day';
+
+/**
+ * Attach the lines (with size, options, addons and custom options) to orders
+ * @param {Array} orders - Orders
+ * @returns {Array} Orders with an items array
+ */
+function attachItems(orders) {
+  if (orders.length === 0) return [];
+  const ids = orders.map(o => o.id);
+  const placeholders = ids.map(() => '?').join(', ');
+
+  const items = dbQuery(
+    `SELECT oi.id, oi.order_id, oi.quantity, oi.size_name, oi.notes, oi.seat_number, mi.name,
+       COALESCE(mi.prep_station_id, c.prep_station_id) as station_id
+     FROM order_items oi
+     JOIN menu_items mi ON oi.menu_item_id = mi.id
+     LEFT JOIN categories c ON c.name = mi.category
+     WHERE oi.order_id IN (${placeholders})
+     ORDER BY oi.id`,
+    ids
+  );
+  const options = dbQuery(
+    `SELECT oio.order_item_id, o.name
+     FROM order_item_options oio
+     JOIN order_items oi ON oio.order_item_id = oi.id
+     JOIN options o ON oio.option_id = o.id
+     WHERE oi.order_id IN (${placeholders})
+     ORDER BY oio.id`,
+    ids
+  );
+  const customOptions = dbQuery(
+    `SELECT oico.order_item_id, oico.name
+     FROM order_item_custom_options oico
+     JOIN order_items oi ON oico.order_item_id = oi.id
+     WHERE oi.order_id IN (${placeholders})
+     ORDER BY oico.id`,
+    ids
+  );
+  const addons = dbQuery(
+    `SELECT oia.order_item_id, oia.quantity, a.name
+     FROM order_item_addons oia
+     JOIN order_items oi ON oia.order_item_id = oi.id
+     JOIN addons a ON oia.addon_id = a.id
+     WHERE oi.order_id IN (${placeholders})
+     ORDER BY oia.id`,
+    ids
+  );
+  const bumps = dbQuery(
+    `SELECT order_id, station_id FROM order_station_bumps WHERE order_id IN (${placeholders})`,
+    ids
+  );
+
+  // Modifiers in the order the POS shows them: options, custom options, then addons
+  const modifiersOf = (itemId) => [
+    ...options.filter(o => o.order_item_id === itemId).map(o => o.name),
+    ...customOptions.filter(o => o.order_item_id === itemId).map(o => o.name),
+    ...addons.filter(a => a.order_item_id === itemId).map(a => (a.quantity > 1 ? `${a.name} x${a.quantity}` : a.name)),
+  ];
+
+  return orders.map(order => ({
+    ...order,
+    items: items
+      .filter(item => item.order_id === order.id)
+      .map(item => ({ ...item, modifiers: modifiersOf(item.id) })),
+    bumped_station_ids: bumps.filter(b => b.order_id === order.id).map(b => b.station_id),
+  }));
+}
+
+/**
+ * Narrow tickets to the items of one prep station, dropping tickets with none
+ * @param {Array} tickets - Tickets with items
+ * @param {number} stationId - Station ID
+ * @returns {Array} Tickets for the station
+ */
+function forStation(tickets, stationId) {
+  return tickets
+    .map(ticket => ({ ...ticket, items: ticket.items.filter(item => item.station_id === stationId) }))
+    .filter(ticket => ticket.items.length > 0);
+}
+
+const SELECT_TICKET = `SELECT o.id, o.order_number, o.pickup_number, o.order_type, o.label, o.notes, o.status,
+     o.created_at, o.ready_at, o.table_id, t.number as table_number, c.name as customer_name
+   FROM orders o
+   LEFT JOIN tables t ON o.table_id = t.id
+   LEFT JOIN customers c ON o.customer_id = c.id`;
+
+/**
+ * Get the tickets still to be made, oldest first
+ * @param {number} [stationId] - Only this prep station's items, leaving out tickets it has bumped (all items when omitted)
+ * @returns {Promise<Array>} Pending and preparing orders that have lines, with their items
+ */
+export function getKitchenTickets(stationId = null) {
+  try {
+    const orders = dbQuery(
+      `${SELECT_TICKET}
+       WHERE o.status IN (${KITCHEN_STATUSES.map(() => '?').join(', ')})
+         AND o.created_at >= datetime('now', ?)
+         AND EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id)
+         AND NOT EXISTS (SELECT 1 FROM order_station_bumps b WHERE b.order_id = o.id AND b.station_id = ?)
+       ORDER BY o.created_at, o.id`,
+      [...KITCHEN_STATUSES, TICKET_WINDOW, stationId]
+    );
+    const tickets = attachItems(orders);
+    return stationId ? forStation(tickets, stationId) : tickets;
+  } catch (error) {
+    console.error('Error getting kitchen tickets:', error);
+    throw new Error('Failed to retrieve kitchen tickets');
+  }
+}
+
+/**
+ * Get the tickets bumped most recently, for recall
+ * @param {number} limit - Maximum number of tickets
+ * @param {number} [stationId] - Tickets this prep station bumped, while the order is still in the kitchen
+ * @returns {Promise<Array>} Ready orders, last bumped first
+ */
+export function getBumpedTickets(limit = 12, stationId = null) {
+  try {
+    if (stationId) {
+      const orders = dbQuery(
+        `${SELECT_TICKET}
+         JOIN order_station_bumps b ON b.order_id = o.id AND b.station_id = ?
+         WHERE o.status IN (${KITCHEN_STATUSES.map(() => '?').join(', ')})
+         ORDER BY b.bumped_at DESC, o.id DESC
+         LIMIT ?`,
+        [stationId, ...KITCHEN_STATUSES, limit]
+      );
+      return forStation(attachItems(orders), stationId);
+    }
+
+    const orders = dbQuery(
+      `${SELECT_TICKET}
+       WHERE o.status = 'ready' AND COALESCE(o.ready_at, o.created_at) >= datetime('now', ?)
+       ORDER BY COALESCE(o.ready_at, o.created_at) DESC, o.id DESC
+       LIMIT ?`,
+      [TICKET_WINDOW, limit]
+    );
+    return attachItems(orders);
+  } catch (error) {
+    console.error('Error getting bumped tickets:', error);
+    throw new Error('Failed to retrieve bumped tickets');
+  }
+}
+
+/**
+ * Change the kitchen status of an order
+ * @param {number} id - Order ID
+ * @param {string[]} from - Statuses the order may be in
+ * @param {string} sql - SET clause
+ * @param {string} message - Error when the order is in another status
+ * @returns {Object} Updated order
+ */
+function moveTicket(id, from, sql, message) {
+  const order = dbQuery('SELECT id, status FROM orders WHERE id = ?', [id])[0];
+  if (!order) {
+    throw new Error('Order not found');
+  }
+  if (!from.includes(order.status)) {
+    throw new Error(message);
+  }
+  dbQuery(`UPDATE orders SET ${sql} WHERE id = ?`, [id]);
+  return dbQuery('SELECT * FROM orders WHERE id = ?', [id])[0];
+}
+
+/**
+ * Mark a ticket as being prepared
+ * @param {number} id - Order ID
+ * @returns {Promise<Object>} Updated order
+ */
+export function startTicket(id) {
+  try {
+    return moveTicket(id, ['pending'], "status = 'preparing'", 'Only new tickets can be started');
+  } catch (error) {
+    console.error('Error starting kitchen ticket:', error);
+    throw error;
+  }
+}
+
+/**
+ * Bump a ticket: the order is ready for the guest
+ * @param {number} id - Order ID
+ * @returns {Promise<Object>} Updated order
+ */
+export function bumpTicket(id) {
+  try {
+    return moveTicket(id, KITCHEN_STATUSES, "status = 'ready', ready_at = CURRENT_TIMESTAMP", 'This ticket has already been bumped');
+  } catch (error) {
+    console.error('Error bumping kitchen ticket:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recall a bumped ticket back onto the display
+ * @param {number} id - Order ID
+ * @returns {Promise<Object>} Updated order
+ */
+export function recallTicket(id) {
+  try {
+    return moveTicket(id, ['ready'], "status = 'preparing', ready_at = NULL", 'Only bumped tickets can be recalled');
+  } catch (error) {
+    console.error('Error recalling kitchen ticket:', error);
+    throw error;
+  }
+}
+
+/**
+ * Bump a ticket at one prep station; the order stays open until expo bumps it
+ * @param {number} id - Order ID
+ * @param {number} stationId - Station ID
+ * @returns {Promise<Object>} Updated order
+ */
+export function bumpStationTicket(id, stationId) {
+  try {
+    const order = dbQuery('SELECT id, status FROM orders WHERE id = ?', [id])[0];
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!KITCHEN_STATUSES.includes(order.status)) {
+      throw new Error('This ticket has already been bumped');
+    }
+    dbQuery('INSERT OR IGNORE INTO order_station_bumps (order_id, station_id) VALUES (?, ?)', [id, stationId]);
+    // The first station to finish something has started the order
+    if (order.status === 'pending') {
+      dbQuery("UPDATE orders SET status = 'preparing' WHERE id = ?", [id]);
+    }
+    return dbQuery('SELECT * FROM orders WHERE id = ?', [id])[0];
+  } catch (error) {
+    console.error('Error bumping station ticket:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recall a ticket bumped at one prep station
+ * @param {number} id - Order ID
+ * @param {number} stationId - Station ID
+ * @returns {Promise<Object>} Updated order
+ */
+export function recallStationTicket(id, stationId) {
+  try {
+    const result = dbQuery('DELETE FROM order_station_bumps WHERE order_id = ? AND station_id = ?', [id, stationId]);
+    if (result.changes === 0) {
+      throw new Error('Only bumped tickets can be recalled');
+    }
+    return dbQuery('SELECT * FROM orders WHERE id = ?', [id])[0];
+  } catch (error) {
+    console.error('Error recalling station ticket:', error);
+    throw error;
+  }
+}
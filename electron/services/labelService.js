@@ -0,0 +1,355 @@
+// Label service for handling label sizes, production batches and the contents of product labels
+import { dbQuery, getDatabase } from './databaseService.js';
+import { getTerminalId } from './numberingService.js';
+
+const MAX_LABELS = 200;
+
+/**
+ * Local calendar date
+ * @param {Date} date - Moment
+ * @returns {string} YYYY-MM-DD
+ */
+const toLocalDate = (date) => date.toLocaleDateString('en-CA');
+
+/**
+ * Parse a production time
+ * @param {string|null} value - Date or date-time (blank = now)
+ * @returns {Date} Moment
+ */
+function parseProducedAt(value) {
+  if (!value) return new Date();
+  // A bare date means that day, not midnight UTC
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+  if (isNaN(date.getTime())) {
+    throw new Error('Production date is not a valid date');
+  }
+  return date;
+}
+
+/**
+ * Best-before date: the production day plus the item's shelf life
+ * @param {Date} producedAt - Production time
+ * @param {number|null} shelfLifeDays - Days the item keeps (null = no best-before date)
+ * @returns {string|null} YYYY-MM-DD
+ */
+function getBestBefore(producedAt, shelfLifeDays) {
+  if (shelfLifeDays === null || shelfLifeDays === undefined || shelfLifeDays === '') return null;
+  const date = new Date(producedAt.getFullYear(), producedAt.getMonth(), producedAt.getDate() + Number(shelfLifeDays));
+  return toLocalDate(date);
+}
+
+// ============================================================================
+// Label sizes
+// ============================================================================
+
+/**
+ * Get all label sizes
+ * @returns {Promise<Array>} Sizes, the default first
+ */
+export function getAllLabelSizes() {
+  try {
+    return dbQuery('SELECT * FROM label_sizes ORDER BY is_default DESC, width_mm, height_mm');
+  } catch (error) {
+    console.error('Error getting label sizes:', error);
+    throw new Error('Failed to retrieve label sizes');
+  }
+}
+
+/**
+ * Get a label size
+ * @param {number|null} [id] - Size ID (null = the default size)
+ * @returns {Promise<Object>} Size
+ */
+export function getLabelSize(id = null) {
+  const size = id
+    ? dbQuery('SELECT * FROM label_sizes WHERE id = ?', [id])[0]
+    : getAllLabelSizes()[0];
+  if (!size) {
+    throw new Error(id ? 'Label size not found' : 'Add a label size in Settings → Printers first');
+  }
+  return size;
+}
+
+/**
+ * Check label size fields shared by create and update
+ * @param {Object} sizeData - { name, width_mm, height_mm, is_default }
+ * @returns {Object} Cleaned fields
+ */
+function validateLabelSize(sizeData) {
+  const { name, width_mm, height_mm, is_default } = sizeData;
+  if (!name || !name.trim()) {
+    throw new Error('Label size name is required');
+  }
+  const width = Number(width_mm);
+  const height = Number(height_mm);
+  if (!(width >= 20 && width <= 120)) {
+    throw new Error('Label width must be between 20 and 120 mm');
+  }
+  if (!(height >= 15 && height <= 200)) {
+    throw new Error('Label height must be between 15 and 200 mm');
+  }
+  return { name: name.trim(), width_mm: width, height_mm: height, is_default: is_default ? 1 : 0 };
+}
+
+/**
+ * Save a label size; making one the default takes it off the others
+ * @param {number|null} id - Size ID (null = new size)
+ * @param {Object} sizeData - { name, width_mm, height_mm, is_default }
+ * @returns {Object} Saved size
+ */
+function saveLabelSize(id, sizeData) {
+  const size = validateLabelSize(sizeData);
+  const db = getDatabase();
+  try {
+    const save = db.transaction(() => {
+      if (size.is_default) {
+        db.prepare('UPDATE label_sizes SET is_default = 0, updated_at = CURRENT_TIMESTAMP WHERE is_default = 1').run();
+      }
+      if (id) {
+        db.prepare(
+          'UPDATE label_sizes SET name = ?, width_mm = ?, height_mm = ?, is_default = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+        ).run(size.name, size.width_mm, size.height_mm, size.is_default, id);
+        return id;
+      }
+      return db.prepare('INSERT INTO label_sizes (name, width_mm, height_mm, is_default) VALUES (?, ?, ?, ?)')
+        .run(size.name, size.width_mm, size.height_mm, size.is_default).lastInsertRowid;
+    });
+    return getLabelSize(save());
+  } catch (error) {
+    console.error('Error saving label size:', error);
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      throw new Error('A label size with this name already exists');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a label size
+ * @param {Object} sizeData - Size details
+ * @param {string} sizeData.name - Name shown when printing, e.g. "58 x 40 mm"
+ * @param {number} sizeData.width_mm - Width in mm (20-120)
+ * @param {number} sizeData.height_mm - Height in mm (15-200)
+ * @param {boolean} [sizeData.is_default] - Chosen unless another size is picked
+ * @returns {Promise<Object>} Created size
+ */
+export function createLabelSize(sizeData) {
+  return saveLabelSize(null, sizeData);
+}
+
+/**
+ * Update a label size
+ * @param {number} id - Size ID
+ * @param {Object} sizeData - Size details (as for createLabelSize)
+ * @returns {Promise<Object>} Updated size
+ */
+export function updateLabelSize(id, sizeData) {
+  return saveLabelSize(id, sizeData);
+}
+
+/**
+ * Delete a label size; the last one can't go, and a deleted default passes to another size
+ * @param {number} id - Size ID
+ * @returns {Promise<boolean>} Success status
+ */
+export function deleteLabelSize(id) {
+  const db = getDatabase();
+  try {
+    db.transaction(() => {
+      const sizes = db.prepare('SELECT id, is_default FROM label_sizes').all();
+      if (sizes.length <= 1) {
+        throw new Error('Keep at least one label size');
+      }
+      db.prepare('DELETE FROM label_sizes WHERE id = ?').run(id);
+      if (sizes.find(size => size.id === id)?.is_default) {
+        db.prepare('UPDATE label_sizes SET is_default = 1 WHERE id = (SELECT MIN(id) FROM label_sizes)').run();
+      }
+    })();
+    return true;
+  } catch (error) {
+    console.error('Error deleting label size:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Production batches
+// ============================================================================
+
+/**
+ * Get production batches, newest first
+ * @param {Object} [filters] - { startDate, endDate } (YYYY-MM-DD, local production days) and limit
+ * @returns {Promise<Array>} Batches with the name of the user who recorded them
+ */
+export function getProductionBatches({ startDate = null, endDate = null, limit = 200 } = {}) {
+  try {
+    // produced_at is stored in UTC; the filter is on the local day
+    const conditions = [];
+    const params = [];
+    if (startDate) {
+      conditions.push("date(b.produced_at, 'localtime') >= ?");
+      params.push(startDate);
+    }
+    if (endDate) {
+      conditions.push("date(b.produced_at, 'localtime') <= ?");
+      params.push(endDate);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(Math.min(Math.max(parseInt(limit, 10) || 200, 1), 1000));
+    return dbQuery(
+      `SELECT b.*, u.full_name as user_name, u.username
+       FROM production_batches b
+       LEFT JOIN users u ON b.user_id = u.id
+       ${where}
+       ORDER BY b.produced_at DESC, b.id DESC
+       LIMIT ?`,
+      params
+    );
+  } catch (error) {
+    console.error('Error getting production batches:', error);
+    throw new Error('Failed to retrieve production batches');
+  }
+}
+
+/**
+ * Get a production batch
+ * @param {number} id - Batch ID
+ * @returns {Promise<Object|null>} Batch, or null when not found
+ */
+export function getProductionBatchById(id) {
+  try {
+    return dbQuery('SELECT * FROM production_batches WHERE id = ?', [id])[0] || null;
+  } catch (error) {
+    console.error('Error getting production batch:', error);
+    throw new Error('Failed to retrieve production batch');
+  }
+}
+
+/**
+ * Record a production batch
+ * The batch number is <terminal ID>-B<production day>-<n>, so tills never hand out the same one.
+ * @param {Object} batchData - Batch details
+ * @param {number} batchData.menu_item_id - Item made
+ * @param {number} batchData.quantity - Pieces made
+ * @param {string} [batchData.produced_at] - When it came out (default now)
+ * @param {string} [batchData.notes] - Notes
+ * @param {number} [batchData.user_id] - User recording it
+ * @returns {Promise<Object>} Created batch with its best-before date
+ */
+export function createProductionBatch(batchData) {
+  const { menu_item_id, quantity, produced_at, notes, user_id } = batchData;
+  const count = parseInt(quantity, 10);
+  if (!count || count < 1) {
+    throw new Error('Quantity must be at least 1');
+  }
+  const item = dbQuery('SELECT id, name, shelf_life_days FROM menu_items WHERE id = ?', [menu_item_id])[0];
+  if (!item) {
+    throw new Error('Menu item not found');
+  }
+  const producedAt = parseProducedAt(produced_at);
+  const prefix = `${getTerminalId()}-B${toLocalDate(producedAt).replace(/-/g, '')}-`;
+
+  const db = getDatabase();
+  try {
+    const insert = db.transaction(() => {
+      const numbers = db.prepare('SELECT batch_number FROM production_batches WHERE batch_number LIKE ?').all(`${prefix}%`);
+      const last = Math.max(0, ...numbers.map(row => parseInt(row.batch_number.slice(prefix.length), 10) || 0));
+      return db.prepare(
+        `INSERT INTO production_batches (batch_number, menu_item_id, item_name, quantity, produced_at, best_before, notes, user_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        `${prefix}${String(last + 1).padStart(2, '0')}`,
+        item.id,
+        item.name,
+        count,
+        producedAt.toISOString(),
+        getBestBefore(producedAt, item.shelf_life_days),
+        notes?.trim() || null,
+        user_id || null
+      ).lastInsertRowid;
+    });
+    return getProductionBatchById(insert());
+  } catch (error) {
+    console.error('Error creating production batch:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Label contents
+// ============================================================================
+
+/**
+ * Split a comma-separated allergen list
+ * @param {string|null} value - e.g. "Gluten, Milk"
+ * @returns {string[]} Allergens
+ */
+const splitAllergens = (value) => (value || '').split(',').map(a => a.trim()).filter(Boolean);
+
+/**
+ * Everything a product label shows
+ * Ingredients are the item's recipe (menu_item_ingredients) across all its sizes, largest quantity first;
+ * allergens are every allergen of those ingredients. A batch supplies its number and dates; otherwise the label is for today.
+ * @param {Object} request - What the label is for
+ * @param {number} [request.menu_item_id] - Item (ignored when batch_id is given)
+ * @param {number} [request.batch_id] - Production batch
+ * @param {string} [request.produced_at] - Production date without a batch (default today)
+ * @param {string} [request.batch_number] - Batch number without a batch (optional)
+ * @returns {Promise<Object>} { menu_item_id, batch_id, name, price, barcode, ingredients, allergens, produced_on, best_before, batch_number }
+ */
+export function getLabelData({ menu_item_id, batch_id = null, produced_at = null, batch_number = null } = {}) {
+  const batch = batch_id ? getProductionBatchById(batch_id) : null;
+  if (batch_id && !batch) {
+    throw new Error('Production batch not found');
+  }
+  const itemId = batch ? batch.menu_item_id : menu_item_id;
+  const item = itemId ? dbQuery('SELECT * FROM menu_items WHERE id = ?', [itemId])[0] : null;
+  if (!item) {
+    throw new Error(batch ? `${batch.item_name} is no longer on the menu` : 'Menu item not found');
+  }
+
+  const ingredients = dbQuery(
+    `SELECT inv.name, inv.allergens
+     FROM menu_item_ingredients mii
+     JOIN inventory_items inv ON mii.inventory_item_id = inv.id
+     WHERE mii.menu_item_id = ?
+     GROUP BY inv.id
+     HAVING MAX(mii.quantity_required) > 0
+     ORDER BY MAX(mii.quantity_required) DESC, inv.name`,
+    [item.id]
+  );
+  const allergens = [];
+  for (const allergen of ingredients.flatMap(ingredient => splitAllergens(ingredient.allergens))) {
+    if (!allergens.some(a => a.toLowerCase() === allergen.toLowerCase())) {
+      allergens.push(allergen);
+    }
+  }
+
+  const producedAt = batch ? new Date(batch.produced_at) : parseProducedAt(produced_at);
+  return {
+    menu_item_id: item.id,
+    batch_id: batch?.id || null,
+    name: item.name,
+    price: item.price,
+    // Items without their own barcode get their ID, all digits so it stays short
+    barcode: item.barcode || String(item.id).padStart(8, '0'),
+    ingredients: ingredients.map(ingredient => ingredient.name),
+    allergens: allergens.sort((a, b) => a.localeCompare(b)),
+    produced_on: toLocalDate(producedAt),
+    best_before: batch ? batch.best_before : getBestBefore(producedAt, item.shelf_life_days),
+    batch_number: batch ? batch.batch_number : (batch_number?.trim() || null),
+  };
+}
+
+/**
+ * Check a label count
+ * @param {number} count - Labels asked for
+ * @returns {number} Count
+ */
+export function validateLabelCount(count) {
+  const labels = parseInt(count, 10);
+  if (!labels || labels < 1 || labels > MAX_LABELS) {
+    throw new Error(`Print between 1 and ${MAX_LABELS} labels at a time`);
+  }
+  return labels;
+}
@@ -1,5 +1,5 @@
 // Menu service for handling menu item operations
-import { dbQuery } from './databaseService.js';
+import { dbQuery, getDatabase } from './databaseService.js';
 
 /**
  * Get all menu items
@@ -49,6 +49,34 @@ export async function getMenuItemById(id) {
   }
 }
 
+/**
+ * Check a shelf life
+ * @param {number|string|null} value - Days (blank = no best-before date)
+ * @returns {number|null} Days
+ */
+function validateShelfLife(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0 || days > 3650) {
+    throw new Error('Shelf life must be a whole number of days');
+  }
+  return days;
+}
+
+/**
+ * Check a label barcode; labels print it as Code 128, which takes printable ASCII
+ * @param {string|null} value - Barcode (blank = none)
+ * @returns {string|null} Barcode
+ */
+function validateBarcode(value) {
+  const barcode = value?.trim();
+  if (!barcode) return null;
+  if (!/^[\x20-\x7e]{1,48}$/.test(barcode)) {
+    throw new Error('Barcode must be up to 48 letters, digits or common symbols');
+  }
+  return barcode;
+}
+
 /**
  * Create a new menu item
  * @param {Object} itemData - Menu item data
@@ -58,11 +86,14 @@ export async function getMenuItemById(id) {
  * @param {string} [itemData.category] - Item category
  * @param {string} [itemData.image_path] - Image path
  * @param {number} [itemData.is_available] - Availability (1 or 0, default 1)
+ * @param {number} [itemData.tax_class_id] - Tax class (defaults to the category's)
+ * @param {number} [itemData.shelf_life_days] - Days it keeps, for the best-before date on labels
+ * @param {string} [itemData.barcode] - Barcode printed on labels (defaults to the item's ID)
  * @returns {Promise<Object>} Created menu item with ID
  */
 export async function createMenuItem(itemData) {
   try {
-    const { name, description, price, category, image_path, is_available = 1, option_groups = [], addons = [] } = itemData;
+    const { name, description, price, category, image_path, is_available = 1, tax_class_id, shelf_life_days, barcode, option_groups = [], addons = [] } = itemData;
 
     // Validation
     if (!name || !name.trim()) {
@@ -72,8 +103,8 @@ export async function createMenuItem(itemData) {
       throw new Error('Valid price is required');
     }
 
-    const insertQuery = `INSERT INTO menu_items (name, description, price, category, image_path, is_available, created_at, updated_at)
-                        VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`;
+    const insertQuery = `INSERT INTO menu_items (name, description, price, category, image_path, is_available, tax_class_id, shelf_life_days, barcode, created_at, updated_at)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`;
     const insertParams = [
       name.trim(),
       description?.trim() || null,
@@ -81,14 +112,20 @@ export async function createMenuItem(itemData) {
       category?.trim() || null,
       image_path || null,
       is_available ? 1 : 0,
+      tax_class_id || null,
+      validateShelfLife(shelf_life_days),
+      validateBarcode(barcode),
     ];
     const result = dbQuery(insertQuery, insertParams);
     return await getMenuItemById(result.lastInsertRowid);
   } catch (error) {
     console.error('Error creating menu item:', error);
-    if (error.message.includes('required') || error.message.includes('Valid')) {
+    if (error.message.includes('required') || error.message.includes('Valid') || error.message.includes('must be')) {
       throw error;
     }
+    if (error.message.includes('UNIQUE constraint failed')) {
+      throw new Error('Another menu item already has this barcode');
+    }
     throw new Error('Failed to create menu item');
   }
 }
@@ -107,7 +144,7 @@ export async function updateMenuItem(id, itemData) {
       throw new Error('Menu item not found');
     }
 
-    const { name, description, price, category, image_path, is_available, option_groups, addons } = itemData;
+    const { name, description, price, category, image_path, is_available, tax_class_id, shelf_life_days, barcode, option_groups, addons } = itemData;
 
     // Build update query dynamically based on provided fields
     const updates = [];
@@ -149,6 +186,21 @@ export async function updateMenuItem(id, itemData) {
       values.push(is_available ? 1 : 0);
     }
 
+    if (tax_class_id !== undefined) {
+      updates.push('tax_class_id = ?');
+      values.push(tax_class_id || null);
+    }
+
+    if (shelf_life_days !== undefined) {
+      updates.push('shelf_life_days = ?');
+      values.push(validateShelfLife(shelf_life_days));
+    }
+
+    if (barcode !== undefined) {
+      updates.push('barcode = ?');
+      values.push(validateBarcode(barcode));
+    }
+
     if (updates.length === 0) {
       return existingItem; // No updates provided
     }
@@ -168,6 +220,9 @@ export async function updateMenuItem(id, itemData) {
     if (error.message.includes('not found') || error.message.includes('cannot be empty') || error.message.includes('must be')) {
       throw error;
     }
+    if (error.message.includes('UNIQUE constraint failed')) {
+      throw new Error('Another menu item already has this barcode');
+    }
     throw new Error('Failed to update menu item');
   }
 }
@@ -246,30 +301,59 @@ export function getMenuItemSizes(menuItemId) {
 
 /**
  * Save sizes for a menu item
+ * Size-specific recipe quantities follow a renamed size (matched by the size's id) and go with a removed one.
  * @param {number} menuItemId - Menu item ID
- * @param {Array} sizes - Array of size objects
+ * @param {Array} sizes - Array of size objects (id set on sizes that already exist)
  * @returns {boolean} True if successful
  */
 export function saveMenuItemSizes(menuItemId, sizes) {
   try {
-    // Delete existing sizes
-    dbQuery('DELETE FROM menu_item_sizes WHERE menu_item_id = ?', [menuItemId]);
-    
-    // Insert new sizes
-    if (sizes && sizes.length > 0) {
-      sizes.forEach((size, index) => {
+    const db = getDatabase();
+    db.transaction(() => {
+      const previous = dbQuery('SELECT id, name FROM menu_item_sizes WHERE menu_item_id = ?', [menuItemId]);
+
+      // Old size name -> new name, by id, or by name for sizes passed without one
+      const renames = new Map();
+      (sizes || []).forEach((size) => {
+        const old = previous.find(p => size.id && p.id === Number(size.id)) || previous.find(p => !size.id && p.name === size.name);
+        if (old && !renames.has(old.name)) {
+          renames.set(old.name, size.name);
+        }
+      });
+
+      // Delete existing sizes
+      dbQuery('DELETE FROM menu_item_sizes WHERE menu_item_id = ?', [menuItemId]);
+      
+      // Insert new sizes
+      if (sizes && sizes.length > 0) {
+        sizes.forEach((size, index) => {
+          dbQuery(
+            'INSERT INTO menu_item_sizes (menu_item_id, name, price, display_order, is_default) VALUES (?, ?, ?, ?, ?)',
+            [
+              menuItemId,
+              size.name,
+              size.price,
+              size.display_order || index,
+              size.is_default ? 1 : 0
+            ]
+          );
+        });
+      }
+
+      // Re-file size-specific recipe rows under the new names (all at once, so swapped names don't collide)
+      const recipeRows = dbQuery(
+        'SELECT inventory_item_id, size_name, quantity_required, unit FROM menu_item_ingredients WHERE menu_item_id = ? AND size_name IS NOT NULL',
+        [menuItemId]
+      );
+      dbQuery('DELETE FROM menu_item_ingredients WHERE menu_item_id = ? AND size_name IS NOT NULL', [menuItemId]);
+      recipeRows.forEach((row) => {
+        if (!renames.has(row.size_name)) return;
         dbQuery(
-          'INSERT INTO menu_item_sizes (menu_item_id, name, price, display_order, is_default) VALUES (?, ?, ?, ?, ?)',
-          [
-            menuItemId,
-            size.name,
-            size.price,
-            size.display_order || index,
-            size.is_default ? 1 : 0
-          ]
+          'INSERT INTO menu_item_ingredients (menu_item_id, inventory_item_id, size_name, quantity_required, unit) VALUES (?, ?, ?, ?, ?)',
+          [menuItemId, row.inventory_item_id, renames.get(row.size_name), row.quantity_required, row.unit]
         );
       });
-    }
+    })();
     
     return true;
   } catch (error) {
@@ -326,3 +410,108 @@ export function saveMenuItemCustomOptions(menuItemId, options) {
   }
 }
 
+
+/**
+ * Get the shared option groups attached to a menu item, each with its available options
+ * @param {number} menuItemId - Menu item ID
+ * @returns {Array} Array of option groups with an `options` array
+ */
+export function getMenuItemOptionGroups(menuItemId) {
+  try {
+    const groups = dbQuery(
+      `SELECT og.*, miog.display_order as link_display_order
+       FROM option_groups og
+       INNER JOIN menu_item_option_groups miog ON og.id = miog.option_group_id
+       WHERE miog.menu_item_id = ?
+       ORDER BY miog.display_order, og.display_order, og.name`,
+      [menuItemId]
+    );
+
+    return groups.map(group => ({
+      ...group,
+      options: dbQuery(
+        'SELECT * FROM options WHERE option_group_id = ? AND is_available = 1 ORDER BY display_order, name',
+        [group.id]
+      ),
+    }));
+  } catch (error) {
+    console.error('Error getting menu item option groups:', error);
+    throw new Error('Failed to retrieve menu item option groups');
+  }
+}
+
+/**
+ * Replace the shared option groups attached to a menu item
+ * @param {number} menuItemId - Menu item ID
+ * @param {Array<number>} optionGroupIds - Option group IDs, in display order
+ * @returns {boolean} True if successful
+ */
+export function saveMenuItemOptionGroups(menuItemId, optionGroupIds) {
+  try {
+    // Delete existing links
+    dbQuery('DELETE FROM menu_item_option_groups WHERE menu_item_id = ?', [menuItemId]);
+
+    // Insert new links
+    if (optionGroupIds && optionGroupIds.length > 0) {
+      optionGroupIds.forEach((optionGroupId, index) => {
+        dbQuery(
+          'INSERT INTO menu_item_option_groups (menu_item_id, option_group_id, display_order) VALUES (?, ?, ?)',
+          [menuItemId, optionGroupId, index]
+        );
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error saving menu item option groups:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the available add-ons attached to a menu item
+ * @param {number} menuItemId - Menu item ID
+ * @returns {Array} Array of add-ons
+ */
+export function getMenuItemAddons(menuItemId) {
+  try {
+    return dbQuery(
+      `SELECT a.* FROM addons a
+       INNER JOIN menu_item_addons mia ON a.id = mia.addon_id
+       WHERE mia.menu_item_id = ? AND a.is_available = 1
+       ORDER BY mia.display_order, a.name`,
+      [menuItemId]
+    );
+  } catch (error) {
+    console.error('Error getting menu item addons:', error);
+    throw new Error('Failed to retrieve menu item addons');
+  }
+}
+
+/**
+ * Replace the add-ons attached to a menu item
+ * @param {number} menuItemId - Menu item ID
+ * @param {Array<number>} addonIds - Add-on IDs, in display order
+ * @returns {boolean} True if successful
+ */
+export function saveMenuItemAddons(menuItemId, addonIds) {
+  try {
+    // Delete existing links
+    dbQuery('DELETE FROM menu_item_addons WHERE menu_item_id = ?', [menuItemId]);
+
+    // Insert new links
+    if (addonIds && addonIds.length > 0) {
+      addonIds.forEach((addonId, index) => {
+        dbQuery(
+          'INSERT INTO menu_item_addons (menu_item_id, addon_id, display_order) VALUES (?, ?, ?)',
+          [menuItemId, addonId, index]
+        );
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error saving menu item addons:', error);
+    throw error;
+  }
+}
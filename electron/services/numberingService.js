@@ -0,0 +1,99 @@
+// Numbering service for invoice numbers and daily pickup numbers
+import { dbQuery, getDatabase } from './databaseService.js';
+
+const TERMINAL_ID_PATTERN = /^[A-Z0-9]{1,8}$/;
+
+/**
+ * Read a setting value
+ * @param {string} key - Setting key
+ * @returns {string|null} Value or null if the setting does not exist
+ */
+function getSettingValue(key) {
+  const results = dbQuery('SELECT value FROM settings WHERE key = ?', [key]);
+  return results.length > 0 ? results[0].value : null;
+}
+
+/**
+ * Get this till's terminal ID (the invoice number prefix)
+ * @returns {string} Upper-cased terminal ID
+ */
+export function getTerminalId() {
+  const terminalId = (getSettingValue('terminal_id') || '').trim().toUpperCase();
+  if (!TERMINAL_ID_PATTERN.test(terminalId)) {
+    throw new Error('Terminal ID must be 1-8 letters or digits. Set it in Settings → System Settings.');
+  }
+  return terminalId;
+}
+
+/**
+ * Get the business day a moment belongs to; orders before business_day_start count towards the previous day
+ * @param {Date} [date] - Moment to check (default now)
+ * @returns {string} Business date (YYYY-MM-DD, local time)
+ */
+export function getBusinessDate(date = new Date()) {
+  const [hours, minutes] = (getSettingValue('business_day_start') || '00:00')
+    .split(':')
+    .map(part => parseInt(part, 10) || 0);
+  const shifted = new Date(date.getTime() - (hours * 60 + minutes) * 60 * 1000);
+  return shifted.toLocaleDateString('en-CA');
+}
+
+/**
+ * Build the invoice number for a pickup number
+ * @param {string} terminalId - Terminal ID
+ * @param {string} businessDate - Business date (YYYY-MM-DD)
+ * @param {number} pickupNumber - Pickup number
+ * @returns {string} Invoice number, e.g. T1-20261019-0042
+ */
+export function formatInvoiceNumber(terminalId, businessDate, pickupNumber) {
+  return `${terminalId}-${businessDate.replace(/-/g, '')}-${String(pickupNumber).padStart(4, '0')}`;
+}
+
+/**
+ * Allocate the next order number on this terminal. The counter is stored in SQLite so it survives restarts,
+ * and invoice numbers carry the terminal ID so tills pushing to the same Supabase project never collide.
+ * @returns {Promise<{order_number: string, pickup_number: number, business_date: string, terminal_id: string}>} Allocated numbers
+ */
+export function getNextOrderNumber() {
+  try {
+    const terminalId = getTerminalId();
+    const businessDate = getBusinessDate();
+    const firstNumber = Math.max(1, parseInt(getSettingValue('pickup_number_start'), 10) || 1);
+
+    const db = getDatabase();
+    const allocate = db.transaction(() => {
+      const sequence = db
+        .prepare('SELECT last_number FROM order_number_sequences WHERE terminal_id = ? AND business_date = ?')
+        .get(terminalId, businessDate);
+      // Orders are checked too, so the sequence never goes backwards after a restore or pull
+      const used = db
+        .prepare('SELECT MAX(pickup_number) as last_number FROM orders WHERE terminal_id = ? AND business_date = ?')
+        .get(terminalId, businessDate);
+
+      let pickupNumber = Math.max(firstNumber - 1, sequence?.last_number || 0, used?.last_number || 0) + 1;
+      const taken = db.prepare('SELECT id FROM orders WHERE order_number = ?');
+      while (taken.get(formatInvoiceNumber(terminalId, businessDate, pickupNumber))) {
+        pickupNumber++;
+      }
+
+      db.prepare(
+        `INSERT INTO order_number_sequences (terminal_id, business_date, last_number, updated_at)
+         VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(terminal_id, business_date) DO UPDATE SET last_number = excluded.last_number, updated_at = CURRENT_TIMESTAMP`
+      ).run(terminalId, businessDate, pickupNumber);
+
+      return pickupNumber;
+    });
+    const pickupNumber = allocate();
+
+    return {
+      order_number: formatInvoiceNumber(terminalId, businessDate, pickupNumber),
+      pickup_number: pickupNumber,
+      business_date: businessDate,
+      terminal_id: terminalId,
+    };
+  } catch (error) {
+    console.error('Error allocating order number:', error);
+    throw error;
+  }
+}
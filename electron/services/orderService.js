@@ -0,0 +1,194 @@
+// Order service for saving sales and held tickets.
+// Each save runs in one transaction, so a failure anywhere leaves no half-written order or counted promotion use.
+import { dbQuery, getDatabase } from './databaseService.js';
+import { redeemDiscount, releaseDiscount } from './discountService.js';
+import { updateTable, releaseOrderTables } from './tableService.js';
+import { postOrderUsage } from './recipeService.js';
+
+/**
+ * Payment status follows the tender ledger: nothing paid, part paid, or settled
+ * @param {number} totalAmount - Order total
+ * @param {number} paidAmount - Sum of its tenders
+ * @returns {string} 'pending', 'partial' or 'paid'
+ */
+function derivePaymentStatus(totalAmount, paidAmount) {
+  if (paidAmount >= totalAmount - 0.005) return 'paid';
+  if (paidAmount > 0) return 'partial';
+  return 'pending';
+}
+
+/**
+ * A single method is kept as-is; several different methods are recorded as 'split'
+ * @param {Array<{payment_method: string}>} payments - Tenders
+ * @returns {string|null} Payment method
+ */
+function derivePaymentMethod(payments) {
+  const methods = Array.from(new Set(payments.map(p => p.payment_method)));
+  if (methods.length === 0) return null;
+  return methods.length === 1 ? methods[0] : 'split';
+}
+
+/**
+ * Store the lines with their size, custom options, modifiers and add-ons as chosen at sale time
+ * @param {number} orderId - Order ID
+ * @param {Array} items - Cart lines
+ */
+function insertOrderItems(orderId, items = []) {
+  for (const item of items) {
+    const itemResult = dbQuery(
+      `INSERT INTO order_items (order_id, menu_item_id, quantity, price, subtotal, notes, size_id, size_name, size_price, tax_rate, taxable_amount, tax_amount, seat_number)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [orderId, item.menu_item_id, item.quantity, item.price, item.subtotal, item.notes || null, item.size_id || null, item.size_name || null, item.size_price ?? null, item.tax_rate || 0, item.taxable_amount ?? item.subtotal, item.tax_amount || 0, item.seat_number || null]
+    );
+    const orderItemId = itemResult.lastInsertRowid;
+
+    for (const option of item.custom_options || []) {
+      dbQuery(
+        'INSERT INTO order_item_custom_options (order_item_id, custom_option_id, name, price) VALUES (?, ?, ?, ?)',
+        [orderItemId, option.custom_option_id || null, option.name, option.price || 0]
+      );
+    }
+
+    for (const option of item.options || []) {
+      dbQuery(
+        'INSERT INTO order_item_options (order_item_id, option_id, option_group_id, price_modifier) VALUES (?, ?, ?, ?)',
+        [orderItemId, option.option_id, option.option_group_id, option.price_modifier || 0]
+      );
+    }
+
+    for (const addon of item.addons || []) {
+      dbQuery(
+        'INSERT INTO order_item_addons (order_item_id, addon_id, quantity, price, subtotal) VALUES (?, ?, ?, ?, ?)',
+        [orderItemId, addon.addon_id, addon.quantity || 1, addon.price, addon.subtotal]
+      );
+    }
+  }
+}
+
+/**
+ * Record tender lines against an order; each defaults to the order's cashier and shift
+ * @param {number} orderId - Order ID
+ * @param {Array} payments - Tenders
+ * @param {Object} defaults - user_id and shift_id of the sale
+ */
+function insertOrderPayments(orderId, payments, { user_id, shift_id }) {
+  for (const payment of payments) {
+    dbQuery(
+      'INSERT INTO order_payments (order_id, payment_method, amount, amount_tendered, change_given, reference, user_id, shift_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [orderId, payment.payment_method, payment.amount, payment.amount_tendered ?? payment.amount, payment.change_given || 0, payment.reference || null, payment.user_id || user_id || null, payment.shift_id || shift_id || null]
+    );
+  }
+}
+
+/**
+ * Save a new order with its lines and tenders, counting its promotion use and posting stock usage
+ * @param {Object} orderData - Order, as built by the till
+ * @returns {Promise<number>} New order ID
+ */
+export function createOrder(orderData) {
+  try {
+    const { order_number, terminal_id, business_date, pickup_number, total_amount, subtotal, tax_amount = 0, tax_inclusive = false, discount_amount = 0, discount_id, promotion_name, promotion_discount = 0, payment_method, table_id, order_type = table_id ? 'dine_in' : 'takeaway', customer_id, user_id, shift_id, label, items, payments = [] } = orderData;
+
+    // Status and method come from the tenders; a payment_method alone only counts when no tender lines are given
+    const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0);
+    const paymentMethod = payments.length > 0 ? derivePaymentMethod(payments) : payment_method || null;
+    const paymentStatus = payments.length > 0
+      ? derivePaymentStatus(total_amount, paidAmount)
+      : (payment_method ? 'paid' : 'pending');
+
+    return getDatabase().transaction(() => {
+      // Count the promotion use first so an exhausted promotion blocks the sale
+      if (discount_id) {
+        redeemDiscount(discount_id);
+      }
+
+      const orderResult = dbQuery(
+        `INSERT INTO orders (order_number, terminal_id, business_date, pickup_number, total_amount, subtotal, tax_amount, tax_inclusive, discount_amount, discount_id, promotion_name, promotion_discount, payment_method, table_id, order_type, customer_id, user_id, shift_id, label, status, payment_status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [order_number, terminal_id || null, business_date || null, pickup_number ?? null, total_amount, subtotal, tax_amount, tax_inclusive ? 1 : 0, discount_amount, discount_id || null, promotion_name || null, promotion_discount, paymentMethod, table_id || null, order_type, customer_id || null, user_id || null, shift_id || null, label?.trim() || null, 'pending', paymentStatus]
+      );
+      const orderId = orderResult.lastInsertRowid;
+
+      insertOrderItems(orderId, items);
+      insertOrderPayments(orderId, payments, { user_id, shift_id });
+
+      // A dine-in table stays occupied until the bill is settled
+      if (table_id && paymentStatus !== 'paid') {
+        updateTable(table_id, { status: 'occupied', current_order_id: orderId });
+      }
+
+      postOrderUsage(orderId);
+      return orderId;
+    })();
+  } catch (error) {
+    console.error('Error creating order:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rewrite a held ticket's lines and totals; any payments passed are recorded against it
+ * @param {number} id - Held order ID
+ * @param {Object} orderData - Order, as built by the till
+ * @returns {Promise<{success: boolean}>} Result
+ */
+export function updateHeldOrder(id, orderData) {
+  try {
+    const { total_amount, subtotal, tax_amount = 0, tax_inclusive = false, discount_amount = 0, discount_id, promotion_name, promotion_discount = 0, table_id, order_type, customer_id, user_id, shift_id, label, items, payments = [] } = orderData;
+
+    return getDatabase().transaction(() => {
+      const order = dbQuery('SELECT status, payment_status, discount_id, table_id, order_type FROM orders WHERE id = ?', [id])[0];
+      if (!order || order.status !== 'pending' || order.payment_status === 'paid') {
+        throw new Error('Held order not found or already settled');
+      }
+
+      // A changed promotion moves the counted use from the old one to the new one
+      const previousDiscountId = order.discount_id || null;
+      if ((discount_id || null) !== previousDiscountId) {
+        if (discount_id) {
+          redeemDiscount(discount_id);
+        }
+        if (previousDiscountId) {
+          releaseDiscount(previousDiscountId);
+        }
+      }
+
+      // Seating a tab at a table (or taking it away) moves the occupancy with it
+      const finalOrderType = order_type || order.order_type || 'takeaway';
+      const finalTableId = finalOrderType === 'dine_in' ? (table_id ?? order.table_id ?? null) : null;
+      if (finalTableId !== (order.table_id || null)) {
+        releaseOrderTables(id);
+        if (finalTableId) {
+          updateTable(finalTableId, { status: 'occupied', current_order_id: id });
+        }
+      }
+
+      dbQuery(
+        'UPDATE orders SET total_amount = ?, subtotal = ?, tax_amount = ?, tax_inclusive = ?, discount_amount = ?, discount_id = ?, promotion_name = ?, promotion_discount = ?, customer_id = COALESCE(?, customer_id), label = ?, order_type = ?, table_id = ? WHERE id = ?',
+        [total_amount, subtotal, tax_amount, tax_inclusive ? 1 : 0, discount_amount, discount_id || null, promotion_name || null, promotion_discount, customer_id || null, label?.trim() || null, finalOrderType, finalTableId, id]
+      );
+
+      // Replace the lines with the current cart
+      dbQuery('DELETE FROM order_items WHERE order_id = ?', [id]);
+      insertOrderItems(id, items);
+      insertOrderPayments(id, payments, { user_id, shift_id });
+
+      // Re-derive status and method from every tender on the ticket, not just this visit's
+      const allPayments = dbQuery('SELECT payment_method, amount FROM order_payments WHERE order_id = ?', [id]);
+      const paidAmount = allPayments.reduce((sum, p) => sum + p.amount, 0);
+      const paymentStatus = derivePaymentStatus(total_amount, paidAmount);
+      dbQuery('UPDATE orders SET payment_status = ?, payment_method = ? WHERE id = ?', [paymentStatus, derivePaymentMethod(allPayments), id]);
+
+      // Settling the bill frees the table
+      if (paymentStatus === 'paid') {
+        releaseOrderTables(id);
+      }
+
+      postOrderUsage(id);
+      return { success: true };
+    })();
+  } catch (error) {
+    console.error('Error updating held order:', error);
+    throw error;
+  }
+}
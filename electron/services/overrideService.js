@@ -0,0 +1,273 @@
+// Override service for handling manager PINs and approvals of guarded actions
+import crypto from 'crypto';
+import { dbQuery } from './databaseService.js';
+
+export const OVERRIDE_ACTIONS = ['discount', 'price_override', 'void', 'refund', 'reopen_order', 'no_sale'];
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// A refund or void approval has to be used while the manager is still at the till
+const OVERRIDE_VALID_MINUTES = 10;
+
+/**
+ * Hash a PIN with a random salt
+ * @param {string} pin - PIN digits
+ * @returns {string} "salt:hash" (hex)
+ */
+function hashPin(pin) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(pin, salt, 32).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Check a PIN against a stored hash
+ * @param {string} pin - PIN digits
+ * @param {string} stored - "salt:hash" from users.pin_hash
+ * @returns {boolean} True if the PIN matches
+ */
+function verifyPin(pin, stored) {
+  const [salt, hash] = (stored || '').split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(pin, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Find the active admin a PIN belongs to
+ * @param {string} pin - PIN digits
+ * @param {number} [excludeId] - User to skip (when checking a new PIN is unique)
+ * @returns {Object|null} Admin user or null if no PIN matches
+ */
+function findAdminByPin(pin, excludeId) {
+  const admins = dbQuery(
+    "SELECT id, username, full_name, pin_hash FROM users WHERE role = 'admin' AND is_active = 1 AND pin_hash IS NOT NULL AND id != ?",
+    [excludeId || 0]
+  );
+  return admins.find(admin => verifyPin(pin, admin.pin_hash)) || null;
+}
+
+/**
+ * Get the guarded actions and thresholds from settings
+ * @returns {Promise<{actions: string[], discount_threshold: number, price_threshold: number}>} Override configuration
+ */
+export function getOverrideConfig() {
+  try {
+    const rows = dbQuery(
+      "SELECT key, value FROM settings WHERE key IN ('override_actions', 'override_discount_threshold', 'override_price_threshold')"
+    );
+    const valueOf = (key) => rows.find(r => r.key === key)?.value;
+
+    const actions = valueOf('override_actions');
+    return {
+      // A missing setting guards everything; an empty one guards nothing
+      actions: actions === undefined || actions === null
+        ? [...OVERRIDE_ACTIONS]
+        : actions.split(',').map(a => a.trim()).filter(a => OVERRIDE_ACTIONS.includes(a)),
+      discount_threshold: Math.max(0, parseFloat(valueOf('override_discount_threshold')) || 0),
+      price_threshold: Math.max(0, parseFloat(valueOf('override_price_threshold')) || 0),
+    };
+  } catch (error) {
+    console.error('Error getting override config:', error);
+    throw new Error('Failed to retrieve override settings');
+  }
+}
+
+/**
+ * Whether an action needs a manager override
+ * @param {string} action - Action name
+ * @returns {boolean} True if guarded
+ */
+export function isActionGuarded(action) {
+  return getOverrideConfig().actions.includes(action);
+}
+
+/**
+ * Set or clear a user's manager PIN (only admins can approve overrides)
+ * @param {number} userId - User ID
+ * @param {string|null} pin - 4-8 digit PIN, or empty to remove it
+ * @returns {Promise<boolean>} True if updated
+ */
+export function setUserPin(userId, pin) {
+  try {
+    const user = dbQuery('SELECT id, role FROM users WHERE id = ?', [userId])[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!pin) {
+      dbQuery('UPDATE users SET pin_hash = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [userId]);
+      return true;
+    }
+
+    const value = String(pin).trim();
+    if (!PIN_PATTERN.test(value)) {
+      throw new Error('PIN must be 4 to 8 digits');
+    }
+    if (user.role !== 'admin') {
+      throw new Error('Only admins can have a manager PIN');
+    }
+    // PINs identify the approver, so two managers can't share one
+    if (findAdminByPin(value, userId)) {
+      throw new Error('This PIN is already used by another manager');
+    }
+
+    const result = dbQuery('UPDATE users SET pin_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [hashPin(value), userId]);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('Error setting user PIN:', error);
+    throw error;
+  }
+}
+
+/**
+ * Approve a guarded action and log it. A cashier needs an admin's PIN; an admin approves their own action.
+ * @param {Object} overrideData - Override data
+ * @param {string} overrideData.action - One of OVERRIDE_ACTIONS
+ * @param {number} overrideData.requested_by - User attempting the action (required)
+ * @param {string} [overrideData.pin] - Manager PIN (required unless the requester is an admin)
+ * @param {number} [overrideData.order_id] - Related order
+ * @param {string} [overrideData.order_number] - Related order number (orders not saved yet)
+ * @param {number} [overrideData.amount] - Amount involved
+ * @param {string} [overrideData.details] - What was approved
+ * @returns {Promise<Object>} Logged override with approver name
+ */
+export function approveOverride(overrideData) {
+  try {
+    const { action, requested_by, pin, order_id, order_number, amount, details } = overrideData;
+
+    // Validation
+    if (!OVERRIDE_ACTIONS.includes(action)) {
+      throw new Error(`Invalid action. Must be one of: ${OVERRIDE_ACTIONS.join(', ')}`);
+    }
+    if (!requested_by) {
+      throw new Error('Requesting user is required');
+    }
+    const requester = dbQuery('SELECT id, role FROM users WHERE id = ? AND is_active = 1', [requested_by])[0];
+    if (!requester) {
+      throw new Error('User not found or inactive');
+    }
+
+    let approverId;
+    if (pin) {
+      const approver = findAdminByPin(String(pin).trim());
+      if (!approver) {
+        throw new Error('Incorrect manager PIN');
+      }
+      approverId = approver.id;
+    } else if (requester.role === 'admin') {
+      approverId = requester.id;
+    } else {
+      throw new Error('A manager PIN is required');
+    }
+
+    const result = dbQuery(
+      `INSERT INTO manager_overrides (action, requested_by, approved_by, order_id, order_number, amount, details)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        action,
+        requested_by,
+        approverId,
+        order_id || null,
+        order_number || null,
+        amount !== undefined && amount !== null && !isNaN(amount) ? Number(amount) : null,
+        details?.trim() || null,
+      ]
+    );
+
+    return getOverrideById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error approving override:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check an approval can authorize an action on an order: it is for that action and order,
+ * hasn't been used yet and was given in the last few minutes
+ * @param {number} overrideId - Override ID
+ * @param {string} action - Guarded action
+ * @param {number} orderId - Order the action is taken on
+ * @returns {Object} Override row
+ */
+export function getUsableOverride(overrideId, action, orderId) {
+  const override = overrideId
+    ? dbQuery(
+      `SELECT *, created_at >= datetime('now', ?) as is_recent FROM manager_overrides WHERE id = ?`,
+      [`-${OVERRIDE_VALID_MINUTES} minutes`, overrideId]
+    )[0]
+    : null;
+  if (!override || override.action !== action || Number(override.order_id) !== Number(orderId)) {
+    throw new Error(`A manager override is required to ${action} this order`);
+  }
+  if (override.used_at) {
+    throw new Error('This manager approval has already been used. Ask a manager to approve again.');
+  }
+  if (!override.is_recent) {
+    throw new Error('This manager approval has expired. Ask a manager to approve again.');
+  }
+  return override;
+}
+
+/**
+ * Mark an approval as spent. Runs inside the transaction of the action it approved,
+ * so an action that fails leaves the approval usable.
+ * @param {number} overrideId - Override ID
+ * @param {number|null} refundId - Refund it authorized (null for a discarded held ticket)
+ */
+export function markOverrideUsed(overrideId, refundId) {
+  const result = dbQuery(
+    'UPDATE manager_overrides SET used_at = CURRENT_TIMESTAMP, used_by_refund_id = ? WHERE id = ? AND used_at IS NULL',
+    [refundId || null, overrideId]
+  );
+  if (result.changes === 0) {
+    throw new Error('This manager approval has already been used. Ask a manager to approve again.');
+  }
+}
+
+/**
+ * Get a logged override by ID
+ * @param {number} id - Override ID
+ * @returns {Promise<Object|null>} Override or null if not found
+ */
+export function getOverrideById(id) {
+  try {
+    const results = dbQuery(
+      `SELECT mo.*, ru.username as requested_by_username, ru.full_name as requested_by_name,
+         au.username as approved_by_username, au.full_name as approved_by_name
+       FROM manager_overrides mo
+       LEFT JOIN users ru ON mo.requested_by = ru.id
+       LEFT JOIN users au ON mo.approved_by = au.id
+       WHERE mo.id = ?`,
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting override by ID:', error);
+    throw new Error('Failed to retrieve override');
+  }
+}
+
+/**
+ * Get the override log, newest first
+ * @param {number} [limit] - Maximum number of entries (default 200)
+ * @returns {Promise<Array>} Array of overrides
+ */
+export function getOverrides(limit = 200) {
+  try {
+    return dbQuery(
+      `SELECT mo.*, ru.username as requested_by_username, ru.full_name as requested_by_name,
+         au.username as approved_by_username, au.full_name as approved_by_name
+       FROM manager_overrides mo
+       LEFT JOIN users ru ON mo.requested_by = ru.id
+       LEFT JOIN users au ON mo.approved_by = au.id
+       ORDER BY mo.created_at DESC, mo.id DESC
+       LIMIT ?`,
+      [limit]
+    );
+  } catch (error) {
+    console.error('Error getting overrides:', error);
+    throw new Error('Failed to retrieve override log');
+  }
+}
@@ -0,0 +1,188 @@
+// PDF archive service for handling the PDF copies of receipts, refund slips and Z-reports kept on this till
+import fs from 'fs';
+import path from 'path';
+import { dbQuery } from './databaseService.js';
+import { createZip } from './zipService.js';
+
+const DOCUMENT_TYPES = ['receipt', 'refund', 'z_report'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+let archiveDirectory = null;
+
+/**
+ * Set the folder the PDFs are written to (pdf-archive under userData)
+ * @param {string} directory - Absolute path
+ */
+export function setArchiveDirectory(directory) {
+  archiveDirectory = directory;
+}
+
+/**
+ * Get the archive folder
+ * @returns {string} Absolute path
+ */
+function getArchiveDirectory() {
+  if (!archiveDirectory) {
+    throw new Error('PDF archive not initialized');
+  }
+  return archiveDirectory;
+}
+
+/**
+ * Local calendar date of a timestamp, for the archive's dated folders
+ * SQLite's CURRENT_TIMESTAMP values ("YYYY-MM-DD HH:MM:SS") are UTC.
+ * @param {string|Date|null} value - Timestamp (now when missing or unreadable)
+ * @returns {string} YYYY-MM-DD
+ */
+export function toDocumentDate(value) {
+  let date = value instanceof Date ? value : null;
+  if (typeof value === 'string' && value) {
+    date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  }
+  if (!date || isNaN(date.getTime())) {
+    date = new Date();
+  }
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Absolute path of an archived document's file
+ * @param {Object} document - pdf_archive row
+ * @returns {string} Path
+ */
+function resolveFilePath(document) {
+  const root = getArchiveDirectory();
+  const filePath = path.resolve(root, document.file_path);
+  // file_path comes from this service, but never leave the archive folder
+  if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+    throw new Error('Invalid archive file path');
+  }
+  return filePath;
+}
+
+/**
+ * Get an archived document
+ * @param {string} documentType - receipt, refund or z_report
+ * @param {number} referenceId - Order, refund or shift ID
+ * @returns {Object|null} pdf_archive row
+ */
+function findDocument(documentType, referenceId) {
+  return dbQuery('SELECT * FROM pdf_archive WHERE document_type = ? AND reference_id = ?', [documentType, referenceId])[0] || null;
+}
+
+/**
+ * Save a document's PDF, unless it is archived already
+ * The PDF is rendered only when needed, so a reprint costs nothing; a row whose file has gone is rendered again.
+ * @param {Object} document - Document details
+ * @param {string} document.document_type - receipt, refund or z_report
+ * @param {number} document.reference_id - Order, refund or shift ID
+ * @param {string|null} [document.reference_label] - Order number, refund number or "Shift #12"
+ * @param {number|null} [document.order_id] - Order the receipt or refund slip belongs to
+ * @param {string} document.document_date - YYYY-MM-DD (see toDocumentDate)
+ * @param {Function} render - Returns a Promise of the PDF Buffer
+ * @returns {Promise<Object>} pdf_archive row
+ */
+export async function archiveDocument(document, render) {
+  const { document_type, reference_id, reference_label = null, order_id = null, document_date } = document;
+  if (!DOCUMENT_TYPES.includes(document_type)) {
+    throw new Error(`Unknown document type: ${document_type}`);
+  }
+  if (!reference_id) {
+    throw new Error('A document needs a reference ID to be archived');
+  }
+  if (!DATE_PATTERN.test(document_date || '')) {
+    throw new Error('Document date must be YYYY-MM-DD');
+  }
+
+  const existing = findDocument(document_type, reference_id);
+  if (existing && fs.existsSync(resolveFilePath(existing))) {
+    return existing;
+  }
+
+  const label = String(reference_label || reference_id).replace(/[^A-Za-z0-9._-]+/g, '_');
+  const relativePath = existing?.file_path || path.join(document_date, `${document_type}-${label}.pdf`);
+  const pdf = await render();
+
+  try {
+    const filePath = path.join(getArchiveDirectory(), relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, pdf);
+
+    dbQuery(
+      `INSERT INTO pdf_archive (document_type, reference_id, reference_label, order_id, document_date, file_path, file_size)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(document_type, reference_id) DO UPDATE SET file_path = excluded.file_path, file_size = excluded.file_size`,
+      [document_type, reference_id, reference_label, order_id, document_date, relativePath, pdf.length]
+    );
+    return findDocument(document_type, reference_id);
+  } catch (error) {
+    console.error('Error archiving PDF:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get an order's PDFs: its receipt and any refund slips
+ * @param {number} orderId - Order ID
+ * @returns {Promise<Array>} pdf_archive rows, oldest first
+ */
+export function getOrderDocuments(orderId) {
+  try {
+    return dbQuery('SELECT * FROM pdf_archive WHERE order_id = ? ORDER BY created_at, id', [orderId]);
+  } catch (error) {
+    console.error('Error getting order PDFs:', error);
+    throw new Error('Failed to retrieve PDFs');
+  }
+}
+
+/**
+ * Get an archived document with the path of its file
+ * @param {number} id - pdf_archive ID
+ * @returns {Promise<Object>} pdf_archive row with filePath; throws when the row or file is missing
+ */
+export function getDocumentFile(id) {
+  const document = dbQuery('SELECT * FROM pdf_archive WHERE id = ?', [id])[0];
+  if (!document) {
+    throw new Error('PDF not found');
+  }
+  const filePath = resolveFilePath(document);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`The PDF for ${document.reference_label || document.document_type} is missing from the archive folder`);
+  }
+  return { ...document, filePath };
+}
+
+/**
+ * Zip every archived PDF dated within a range, in their dated folders
+ * Files missing from disk are left out.
+ * @param {string} startDate - First day, YYYY-MM-DD
+ * @param {string} endDate - Last day, YYYY-MM-DD
+ * @returns {Promise<Object>} { data: zip Buffer, count }
+ */
+export function exportDocumentsZip(startDate, endDate) {
+  if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+    throw new Error('Choose a start and end date');
+  }
+  if (startDate > endDate) {
+    throw new Error('The start date is after the end date');
+  }
+
+  const documents = dbQuery(
+    'SELECT * FROM pdf_archive WHERE document_date BETWEEN ? AND ? ORDER BY document_date, document_type, id',
+    [startDate, endDate]
+  );
+  const files = documents
+    .map(document => ({ document, filePath: resolveFilePath(document) }))
+    .filter(({ filePath }) => fs.existsSync(filePath))
+    .map(({ document, filePath }) => ({
+      name: document.file_path.split(path.sep).join('/'),
+      data: fs.readFileSync(filePath),
+      modified: fs.statSync(filePath).mtime,
+    }));
+
+  if (files.length === 0) {
+    throw new Error(`No PDFs were archived between ${startDate} and ${endDate}`);
+  }
+  return { data: createZip(files), count: files.length };
+}
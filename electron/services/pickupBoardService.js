@@ -0,0 +1,338 @@
+// Pickup board service for handling the counter TV page that lists takeaway orders by pickup number.
+// The page is served by the app's own HTTP server under /pickup; this service answers those requests.
+import os from 'os';
+import { dbQuery } from './databaseService.js';
+
+// Older open orders are forgotten tabs, not orders waiting at the counter
+const BOARD_WINDOW = '-1 day';
+// Keeps idle event streams from being dropped by the TV browser or a proxy
+const KEEP_ALIVE_MS = 25000;
+const BOARD_PATHS = ['/pickup', '/api/board', '/events'];
+
+let boardPort = null;
+let boardError = null;
+let keepAliveIntervalId = null;
+const eventClients = new Set();
+
+/**
+ * Escape text for the board page
+ * @param {string} str - Text
+ * @returns {string} HTML-safe text
+ */
+const escapeHTML = (str) => String(str ?? '').replace(/[&<>"']/g, (m) => ({
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#039;',
+}[m]));
+
+/**
+ * Read a setting value
+ * @param {string} key - Setting key
+ * @returns {string} Value, or '' when missing
+ */
+function getSettingValue(key) {
+  return dbQuery('SELECT value FROM settings WHERE key = ?', [key])[0]?.value || '';
+}
+
+/**
+ * Get the orders on the board
+ * Held tickets (pending and not yet paid in full) are still being rung up, so they stay off Now Preparing.
+ * Ready orders leave the board once collected (status 'completed') or after pickup_board_ready_minutes.
+ * @returns {Promise<Object>} { preparing, ready } lists of { id, number }, oldest first
+ */
+export function getPickupBoard() {
+  try {
+    const readyMinutes = parseInt(getSettingValue('pickup_board_ready_minutes'), 10) || 10;
+    const orders = dbQuery(
+      `SELECT o.id, COALESCE(o.pickup_number, o.order_number) as number, o.status
+       FROM orders o
+       WHERE COALESCE(o.order_type, 'takeaway') = 'takeaway'
+         AND o.created_at >= datetime('now', ?)
+         AND (
+           (o.status IN ('pending', 'preparing')
+             AND NOT (o.status = 'pending' AND o.payment_status IN ('pending', 'partial'))
+             AND EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id))
+           OR (o.status = 'ready' AND COALESCE(o.ready_at, o.created_at) >= datetime('now', ?))
+         )
+       ORDER BY COALESCE(o.ready_at, o.created_at), o.id`,
+      [BOARD_WINDOW, `-${readyMinutes} minutes`]
+    );
+
+    return {
+      preparing: orders.filter(o => o.status !== 'ready').map(o => ({ id: o.id, number: String(o.number) })),
+      ready: orders.filter(o => o.status === 'ready').map(o => ({ id: o.id, number: String(o.number) })),
+    };
+  } catch (error) {
+    console.error('Error getting pickup board:', error);
+    throw new Error('Failed to retrieve pickup board');
+  }
+}
+
+/**
+ * Generate the board page; it loads /api/board and refreshes on /events
+ * @returns {string} HTML document
+ */
+function getPickupBoardHTML() {
+  const businessName = escapeHTML(getSettingValue('business_name') || 'The Kings Bakery');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${businessName} - Pickup</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; height: 100vh; display: flex; flex-direction: column; font-family: Arial, Helvetica, sans-serif; background: #121212; color: #fff; overflow: hidden; }
+    header { padding: 2vh 3vw; font-size: 4vh; font-weight: bold; border-bottom: 2px solid #333; }
+    main { flex: 1; display: flex; min-height: 0; }
+    section { flex: 1; padding: 2vh 3vw; display: flex; flex-direction: column; min-height: 0; }
+    section + section { border-left: 2px solid #333; }
+    h2 { margin: 0 0 2vh; font-size: 5vh; text-transform: uppercase; letter-spacing: 2px; }
+    #preparing-title { color: #FFB300; }
+    #ready-title { color: #43A047; }
+    .numbers { display: flex; flex-wrap: wrap; align-content: flex-start; gap: 2vh; overflow: hidden; }
+    .number { min-width: 18vh; padding: 1.5vh 2vh; border-radius: 1.5vh; text-align: center; font-size: 9vh; font-weight: bold; background: #262626; }
+    #ready .number { background: #1B5E20; }
+    #ready .number.new { animation: flash 1s ease-in-out 3; }
+    @keyframes flash { 50% { background: #66BB6A; } }
+    #sound { position: fixed; bottom: 2vh; right: 2vw; padding: 1vh 2vw; border-radius: 1vh; background: #333; font-size: 2vh; cursor: pointer; }
+    #offline { display: none; position: fixed; top: 2vh; right: 2vw; padding: 1vh 2vw; border-radius: 1vh; background: #C62828; font-size: 2vh; }
+  </style>
+</head>
+<body>
+  <header>${businessName}</header>
+  <main>
+    <section>
+      <h2 id="preparing-title">Now Preparing</h2>
+      <div class="numbers" id="preparing"></div>
+    </section>
+    <section>
+      <h2 id="ready-title">Ready for Pickup</h2>
+      <div class="numbers" id="ready"></div>
+    </section>
+  </main>
+  <div id="sound">Tap to turn on the chime</div>
+  <div id="offline">Reconnecting…</div>
+  <script>
+    var audio = null;
+    var shownReady = null;
+
+    // Browsers only allow sound after someone has touched the page once
+    document.body.addEventListener('click', function () {
+      if (!audio) audio = new (window.AudioContext || window.webkitAudioContext)();
+      document.getElementById('sound').style.display = 'none';
+    });
+
+    function chime() {
+      if (!audio) return;
+      [880, 1175].forEach(function (frequency, i) {
+        var osc = audio.createOscillator();
+        var gain = audio.createGain();
+        var start = audio.currentTime + i * 0.35;
+        osc.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.3, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+        osc.connect(gain);
+        gain.connect(audio.destination);
+        osc.start(start);
+        osc.stop(start + 0.6);
+      });
+    }
+
+    function render(id, orders, fresh) {
+      var list = document.getElementById(id);
+      list.innerHTML = '';
+      orders.forEach(function (order) {
+        var el = document.createElement('div');
+        el.className = 'number' + (fresh && fresh.indexOf(order.id) >= 0 ? ' new' : '');
+        el.textContent = order.number;
+        list.appendChild(el);
+      });
+    }
+
+    function update(board) {
+      var readyIds = board.ready.map(function (o) { return o.id; });
+      var fresh = shownReady ? readyIds.filter(function (id) { return shownReady.indexOf(id) < 0; }) : [];
+      render('preparing', board.preparing);
+      // Newest ready first, where the customer looks
+      render('ready', board.ready.slice().reverse(), fresh);
+      if (fresh.length > 0) chime();
+      shownReady = readyIds;
+    }
+
+    function load() {
+      fetch('/api/board')
+        .then(function (res) { return res.json(); })
+        .then(update)
+        .catch(function () {});
+    }
+
+    var events = new EventSource('/events');
+    events.addEventListener('board', function (e) {
+      document.getElementById('offline').style.display = 'none';
+      update(JSON.parse(e.data));
+    });
+    events.onerror = function () {
+      document.getElementById('offline').style.display = 'block';
+    };
+
+    load();
+    // Ready orders expire without any order changing, so look again now and then
+    setInterval(load, 30000);
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Send the current board to every open page
+ */
+export function broadcastPickupBoard() {
+  if (eventClients.size === 0) return;
+  try {
+    const payload = `event: board\ndata: ${JSON.stringify(getPickupBoard())}\n\n`;
+    eventClients.forEach(res => res.write(payload));
+  } catch (error) {
+    console.error('Error broadcasting pickup board:', error);
+  }
+}
+
+/**
+ * Answer a request for the board page, its data or its event stream
+ * @param {import('http').IncomingMessage} req - Request
+ * @param {import('http').ServerResponse} res - Response
+ * @returns {boolean} True when the request was the board's; false leaves it to the app server
+ */
+export function handlePickupBoardRequest(req, res) {
+  const pathname = (req.url || '/').split('?')[0];
+  if (!boardPort || !BOARD_PATHS.includes(pathname)) {
+    return false;
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      res.writeHead(405);
+      res.end('Method Not Allowed');
+      return true;
+    }
+
+    if (pathname === '/pickup') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(getPickupBoardHTML());
+      return true;
+    }
+
+    if (pathname === '/api/board') {
+      res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(getPickupBoard()));
+      return true;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+    });
+    res.write(`event: board\ndata: ${JSON.stringify(getPickupBoard())}\n\n`);
+    eventClients.add(res);
+    req.on('close', () => eventClients.delete(res));
+  } catch (error) {
+    console.error('Error serving pickup board:', error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end('Internal Server Error');
+  }
+  return true;
+}
+
+/**
+ * Whether this till serves the board (pickup_board_enabled)
+ * @returns {boolean} True when enabled
+ */
+export function isPickupBoardEnabled() {
+  return getSettingValue('pickup_board_enabled').toLowerCase() === 'true';
+}
+
+/**
+ * Address the app server should listen on: every interface only when the board is opted in to the network
+ * @returns {string} '0.0.0.0' or 'localhost'
+ */
+export function getPickupBoardHost() {
+  return isPickupBoardEnabled() && getSettingValue('pickup_board_network').toLowerCase() === 'true'
+    ? '0.0.0.0'
+    : 'localhost';
+}
+
+/**
+ * Addresses the board can be opened at
+ * @param {number} port - Port the app server listens on
+ * @returns {string[]} URLs, one per IPv4 network interface when served to the network, else this till only
+ */
+function getBoardUrls(port) {
+  if (getPickupBoardHost() !== '0.0.0.0') {
+    return [`http://localhost:${port}/pickup`];
+  }
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter(net => net && net.family === 'IPv4' && !net.internal)
+    .map(net => `http://${net.address}:${port}/pickup`);
+}
+
+/**
+ * Get whether the board is being served, and where
+ * @returns {Promise<Object>} { running, port, urls, error }
+ */
+export function getPickupBoardStatus() {
+  return {
+    running: !!boardPort,
+    port: boardPort,
+    urls: boardPort ? getBoardUrls(boardPort) : [],
+    error: boardError,
+  };
+}
+
+/**
+ * Record why the app server could not serve the board
+ * @param {string|null} message - Error shown in Settings
+ */
+export function setPickupBoardError(message) {
+  boardError = message;
+  if (message) {
+    boardPort = null;
+  }
+}
+
+/**
+ * Stop answering board requests and close the open pages' event streams
+ */
+export function stopPickupBoard() {
+  if (keepAliveIntervalId) {
+    clearInterval(keepAliveIntervalId);
+    keepAliveIntervalId = null;
+  }
+  eventClients.forEach(res => res.end());
+  eventClients.clear();
+  boardPort = null;
+}
+
+/**
+ * Start answering board requests on the app server, following the pickup_board_* settings
+ * @param {number} port - Port the app server listens on
+ * @returns {Promise<Object>} Status, as getPickupBoardStatus
+ */
+export function startPickupBoard(port) {
+  stopPickupBoard();
+  boardError = null;
+
+  if (!isPickupBoardEnabled()) {
+    return getPickupBoardStatus();
+  }
+
+  boardPort = port;
+  keepAliveIntervalId = setInterval(() => {
+    eventClients.forEach(res => res.write(': keep-alive\n\n'));
+  }, KEEP_ALIVE_MS);
+  return getPickupBoardStatus();
+}
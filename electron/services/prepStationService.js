@@ -0,0 +1,223 @@
+// Prep station service for handling kitchen stations and the routing of items to them
+import { dbQuery, getDatabase } from './databaseService.js';
+
+/**
+ * Get all prep stations with the categories and menu items routed to them
+ * @returns {Promise<Array>} Stations with category_ids and menu_item_ids
+ */
+export function getAllPrepStations() {
+  try {
+    const stations = dbQuery('SELECT * FROM prep_stations ORDER BY display_order, name');
+    const categories = dbQuery('SELECT id, prep_station_id FROM categories WHERE prep_station_id IS NOT NULL');
+    const menuItems = dbQuery('SELECT id, prep_station_id FROM menu_items WHERE prep_station_id IS NOT NULL');
+
+    return stations.map(station => ({
+      ...station,
+      category_ids: categories.filter(c => c.prep_station_id === station.id).map(c => c.id),
+      menu_item_ids: menuItems.filter(m => m.prep_station_id === station.id).map(m => m.id),
+    }));
+  } catch (error) {
+    console.error('Error getting prep stations:', error);
+    throw new Error('Failed to retrieve prep stations');
+  }
+}
+
+/**
+ * Get prep station by ID
+ * @param {number} id - Station ID
+ * @returns {Promise<Object|null>} Station or null if not found
+ */
+export function getPrepStationById(id) {
+  try {
+    return getAllPrepStations().find(s => s.id === id) || null;
+  } catch (error) {
+    console.error('Error getting prep station by ID:', error);
+    throw new Error('Failed to retrieve prep station');
+  }
+}
+
+/**
+ * Validate prep station fields shared by create and update
+ * @param {Object} stationData - Station data
+ * @param {number} [excludeId] - Station being updated (skipped in the duplicate name check)
+ */
+function validatePrepStation(stationData, excludeId) {
+  const { name } = stationData;
+
+  if (!name || !name.trim()) {
+    throw new Error('Station name is required');
+  }
+
+  const existing = dbQuery('SELECT id FROM prep_stations WHERE name = ? AND id != ?', [name.trim(), excludeId || 0]);
+  if (existing.length > 0) {
+    throw new Error('Station with this name already exists');
+  }
+}
+
+/**
+ * Point the given categories and menu items at a station, and release the ones no longer listed
+ * @param {number} stationId - Station ID
+ * @param {number[]} [categoryIds] - Categories routed to the station (unchanged when omitted)
+ * @param {number[]} [menuItemIds] - Menu items routed to the station (unchanged when omitted)
+ */
+function saveRoutes(stationId, categoryIds, menuItemIds) {
+  [['categories', categoryIds], ['menu_items', menuItemIds]].forEach(([table, ids]) => {
+    if (!Array.isArray(ids)) return;
+    dbQuery(`UPDATE ${table} SET prep_station_id = NULL WHERE prep_station_id = ?`, [stationId]);
+    if (ids.length > 0) {
+      dbQuery(
+        `UPDATE ${table} SET prep_station_id = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        [stationId, ...ids]
+      );
+    }
+  });
+}
+
+/**
+ * Create a new prep station
+ * @param {Object} stationData - Station data
+ * @param {string} stationData.name - Name (required)
+ * @param {string} [stationData.printer_name] - Printer for its tickets (blank = kitchen display only)
+ * @param {boolean} [stationData.show_on_kds] - Whether it has its own kitchen display view
+ * @param {number} [stationData.display_order] - Sort order
+ * @param {number[]} [stationData.category_ids] - Categories routed to it
+ * @param {number[]} [stationData.menu_item_ids] - Menu items routed to it (over their category's station)
+ * @returns {Promise<Object>} Created station
+ */
+export function createPrepStation(stationData) {
+  try {
+    validatePrepStation(stationData);
+    const { name, printer_name, show_on_kds, display_order, category_ids, menu_item_ids } = stationData;
+
+    const db = getDatabase();
+    const id = db.transaction(() => {
+      const result = dbQuery(
+        `INSERT INTO prep_stations (name, printer_name, show_on_kds, display_order, updated_at)
+         VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [name.trim(), printer_name?.trim() || null, show_on_kds === false ? 0 : 1, display_order || 0]
+      );
+      saveRoutes(result.lastInsertRowid, category_ids, menu_item_ids);
+      return result.lastInsertRowid;
+    })();
+
+    return getPrepStationById(id);
+  } catch (error) {
+    console.error('Error creating prep station:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a prep station and its routing
+ * @param {number} id - Station ID
+ * @param {Object} stationData - Updated station data (as for createPrepStation)
+ * @returns {Promise<Object>} Updated station
+ */
+export function updatePrepStation(id, stationData) {
+  try {
+    if (!getPrepStationById(id)) {
+      throw new Error('Prep station not found');
+    }
+    validatePrepStation(stationData, id);
+    const { name, printer_name, show_on_kds, display_order, category_ids, menu_item_ids } = stationData;
+
+    const db = getDatabase();
+    db.transaction(() => {
+      dbQuery(
+        `UPDATE prep_stations SET name = ?, printer_name = ?, show_on_kds = ?, display_order = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [name.trim(), printer_name?.trim() || null, show_on_kds === false ? 0 : 1, display_order || 0, id]
+      );
+      saveRoutes(id, category_ids, menu_item_ids);
+    })();
+
+    return getPrepStationById(id);
+  } catch (error) {
+    console.error('Error updating prep station:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a prep station; its items only appear on the expo ticket from then on
+ * @param {number} id - Station ID
+ * @returns {Promise<boolean>} True if deleted
+ */
+export function deletePrepStation(id) {
+  try {
+    // Foreign keys may be off on older databases, so release the routes explicitly
+    saveRoutes(id, [], []);
+    dbQuery('DELETE FROM order_station_bumps WHERE station_id = ?', [id]);
+    const result = dbQuery('DELETE FROM prep_stations WHERE id = ?', [id]);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('Error deleting prep station:', error);
+    throw error;
+  }
+}
+
+/**
+ * Look up the station of each menu item: its own, or else its category's
+ * @param {number[]} menuItemIds - Menu item IDs
+ * @returns {Map<number, number|null>} Station ID per menu item ID
+ */
+export function getMenuItemStations(menuItemIds) {
+  const ids = [...new Set(menuItemIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+
+  const rows = dbQuery(
+    `SELECT mi.id, COALESCE(mi.prep_station_id, c.prep_station_id) as station_id
+     FROM menu_items mi
+     LEFT JOIN categories c ON c.name = mi.category
+     WHERE mi.id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  );
+  return new Map(rows.map(row => [row.id, row.station_id]));
+}
+
+/**
+ * Split an order sent to the kitchen into one ticket per station, plus the expo ticket.
+ * Without any stations the whole order goes to the default printer, as before stations existed.
+ * @param {Object} orderData - Order sent from the POS; items carry menu_item_id
+ * @returns {Promise<Array<{heading: string, printer_name: string|null, items: Array}>>} Tickets to print
+ */
+export function getKitchenTicketRoutes(orderData) {
+  try {
+    const items = orderData.items || [];
+    const stations = dbQuery('SELECT * FROM prep_stations ORDER BY display_order, name');
+    if (stations.length === 0) {
+      return [{ heading: 'KITCHEN ORDER', printer_name: null, items }];
+    }
+
+    const stationOf = getMenuItemStations(items.map(item => item.menu_item_id));
+    const tickets = [];
+
+    stations.forEach((station) => {
+      const stationItems = items.filter(item => stationOf.get(item.menu_item_id) === station.id);
+      // A station without a printer works from its kitchen display view
+      if (stationItems.length > 0 && station.printer_name) {
+        tickets.push({ heading: station.name.toUpperCase(), printer_name: station.printer_name, items: stationItems });
+      }
+    });
+
+    const settings = dbQuery(
+      "SELECT key, value FROM settings WHERE key IN ('kitchen_expo_ticket', 'kitchen_expo_printer')"
+    );
+    const setting = (key) => settings.find(s => s.key === key)?.value || '';
+    if (setting('kitchen_expo_ticket').toLowerCase() !== 'false') {
+      tickets.push({
+        heading: 'EXPO',
+        printer_name: setting('kitchen_expo_printer').trim() || null,
+        items: items.map(item => ({
+          ...item,
+          station: stations.find(s => s.id === stationOf.get(item.menu_item_id))?.name || null,
+        })),
+      });
+    }
+
+    return tickets;
+  } catch (error) {
+    console.error('Error routing kitchen tickets:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+// Print job service for handling the log of everything this till sent to a printer
+import { dbQuery } from './databaseService.js';
+
+// The list leaves out the printed output, which can run to tens of kilobytes per job
+const JOB_COLUMNS = `id, job_type, title, reference_type, reference_id, reference_label, template_type,
+  printer_name, paper_width, copies, silent, output_format, status, attempts, error, reprint_of, created_at, printed_at, updated_at`;
+
+/**
+ * Record a print job before it is sent
+ * @param {Object} job - Job details
+ * @param {string} job.job_type - receipt, refund, kitchen, z_report, no_sale or label
+ * @param {string} job.title - What the printout is, e.g. "Receipt ORD-0042" or "OVEN ticket"
+ * @param {string} job.output_format - 'html' or 'escpos'
+ * @param {string|null} [job.content] - HTML, for 'html' jobs
+ * @param {Buffer|null} [job.raw_content] - Command stream, for 'escpos' jobs
+ * @param {number} [job.copies] - Copies per send
+ * @param {number} [job.silent] - 0 when it prints through the print dialog
+ * @returns {Promise<number>} Job ID
+ */
+export function createPrintJob(job) {
+  try {
+    const result = dbQuery(
+      `INSERT INTO print_jobs (
+        job_type, title, reference_type, reference_id, reference_label, template_type,
+        printer_name, paper_width, copies, silent, output_format, content, raw_content, reprint_of
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        job.job_type,
+        job.title,
+        job.reference_type || null,
+        job.reference_id || null,
+        job.reference_label || null,
+        job.template_type || null,
+        job.printer_name || null,
+        job.paper_width || null,
+        job.copies || 1,
+        job.silent === 0 ? 0 : 1,
+        job.output_format,
+        job.content ?? null,
+        job.raw_content ?? null,
+        job.reprint_of || null,
+      ]
+    );
+    return result.lastInsertRowid;
+  } catch (error) {
+    console.error('Error creating print job:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a job to a new status
+ * Every change to 'printing' is one attempt at sending it.
+ * @param {number} id - Job ID
+ * @param {string} status - queued, printing, printed or failed
+ * @param {string|null} [errorMessage] - Why it failed
+ * @returns {Promise<void>}
+ */
+export function updatePrintJobStatus(id, status, errorMessage = null) {
+  try {
+    dbQuery(
+      `UPDATE print_jobs SET
+        status = ?,
+        attempts = attempts + CASE WHEN ? = 'printing' THEN 1 ELSE 0 END,
+        error = CASE WHEN ? = 'failed' THEN ? WHEN ? = 'printed' THEN NULL ELSE error END,
+        printed_at = CASE WHEN ? = 'printed' THEN CURRENT_TIMESTAMP ELSE printed_at END,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [status, status, status, errorMessage, status, status, id]
+    );
+  } catch (error) {
+    console.error('Error updating print job status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the job log, newest first
+ * @param {Object} [filters] - { status, limit }
+ * @returns {Promise<Array>} Jobs, without their printed output
+ */
+export function getPrintJobs({ status = null, limit = 200 } = {}) {
+  try {
+    const conditions = [];
+    const params = [];
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(Math.min(Math.max(parseInt(limit, 10) || 200, 1), 1000));
+    return dbQuery(`SELECT ${JOB_COLUMNS} FROM print_jobs ${where} ORDER BY created_at DESC, id DESC LIMIT ?`, params);
+  } catch (error) {
+    console.error('Error getting print jobs:', error);
+    throw new Error('Failed to retrieve print jobs');
+  }
+}
+
+/**
+ * Get a job with its printed output
+ * @param {number} id - Job ID
+ * @returns {Promise<Object|null>} Job, or null when it no longer exists
+ */
+export function getPrintJobById(id) {
+  try {
+    return dbQuery('SELECT * FROM print_jobs WHERE id = ?', [id])[0] || null;
+  } catch (error) {
+    console.error('Error getting print job:', error);
+    throw new Error('Failed to retrieve print job');
+  }
+}
+
+/**
+ * Count the jobs that failed and haven't been printed since
+ * @returns {Promise<number>} Failed jobs
+ */
+export function getFailedPrintJobCount() {
+  try {
+    return dbQuery("SELECT COUNT(*) as count FROM print_jobs WHERE status = 'failed'")[0].count;
+  } catch (error) {
+    console.error('Error counting failed print jobs:', error);
+    throw new Error('Failed to retrieve print jobs');
+  }
+}
+
+/**
+ * Mark jobs left queued or printing by the last run as failed, so they show up for a retry
+ * @returns {Promise<number>} Jobs marked
+ */
+export function failInterruptedPrintJobs() {
+  try {
+    const result = dbQuery(
+      `UPDATE print_jobs SET status = 'failed', error = 'The app closed before this job finished printing', updated_at = CURRENT_TIMESTAMP
+       WHERE status IN ('queued', 'printing')`
+    );
+    return result.changes;
+  } catch (error) {
+    console.error('Error marking interrupted print jobs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove jobs older than print_job_retention_days
+ * Jobs still queued or printing are kept whatever their age.
+ * @returns {Promise<number>} Jobs removed
+ */
+export function purgeOldPrintJobs() {
+  try {
+    const setting = dbQuery("SELECT value FROM settings WHERE key = 'print_job_retention_days'")[0];
+    const days = parseInt(setting?.value, 10);
+    if (!days || days < 1) return 0;
+    const result = dbQuery(
+      "DELETE FROM print_jobs WHERE created_at < datetime('now', ?) AND status IN ('printed', 'failed')",
+      [`-${days} days`]
+    );
+    return result.changes;
+  } catch (error) {
+    console.error('Error purging old print jobs:', error);
+    throw error;
+  }
+}
@@ -9,9 +9,17 @@
  * - Silent printing option for thermal printers
  * - Input validation and sanitization
  * - Detailed logging for debugging
+ * - Raw ESC/POS output for printers named by network address or device path
+ * - Every job logged with its output, for retrying failures and reprinting
+ * - PDF copies of receipts, refund slips and Z-reports, from the same templates
+ * - Product labels with ingredients, allergens, best-before dates and a barcode
  */
 
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, nativeImage } from 'electron';
+import { EscPosBuilder, PAPER_WIDTHS, parseRawTarget, describeTarget, sendRaw, loadImageBitmap } from './escposService.js';
+import { renderTemplate, getDefaultTemplateBody } from './templateService.js';
+import { createPrintJob, updatePrintJobStatus, getPrintJobById } from './printJobService.js';
+import { code128SVG } from './barcodeService.js';
 
 // ============================================================================
 // Configuration Constants
@@ -20,6 +28,7 @@ import { BrowserWindow } from 'electron';
 const CONFIG = {
   // Timeout settings (in milliseconds)
   PRINT_TIMEOUT: 20000, // 20 seconds - reasonable for thermal printers
+  DIALOG_PRINT_TIMEOUT: 300000, // Someone has to pick options in the print dialog
   RENDER_DELAY: 500,    // Time to wait for HTML rendering
   CLEANUP_DELAY: 1000,  // Delay before cleanup to ensure print completes
   
@@ -28,8 +37,7 @@ const CONFIG = {
   RETRY_DELAY_BASE: 1000, // Base delay for exponential backoff
   
   // Print options
-  SILENT_MODE: true, // Set to false to show print dialog
-  PAGE_SIZE: '80mm',
+  SILENT_MODE: true, // Default when no configured printer says otherwise (printers.silent)
   MARGIN_TYPE: 'none',
   
   // Queue settings
@@ -163,6 +171,12 @@ const formatCurrency = (amount) => {
   }).format(amount);
 };
 
+const ORDER_TYPE_LABELS = {
+  dine_in: 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
 /**
  * Sanitize HTML to prevent XSS
  */
@@ -247,170 +261,343 @@ function validateOrderData(orderData, type) {
 }
 
 // ============================================================================
-// HTML Template Generators
+// Template Data
 // ============================================================================
 
+const formatReceiptDate = (value) => (value ? new Date(value) : new Date()).toLocaleString('en-US', {
+  month: 'short', day: 'numeric', year: 'numeric',
+  hour: 'numeric', minute: '2-digit', hour12: true
+});
+
+const capitalize = (value) => {
+  const text = String(value || '');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// Amounts that are zero come through blank, so {{#if discount}} hides the line
+const formatOptionalCurrency = (amount) => (Number(amount) ? formatCurrency(Number(amount)) : '');
+
 /**
- * Generate kitchen order HTML template
+ * Template fields for a customer receipt
+ * @param {Object} orderData - Order data
+ * @returns {Object} Fields (see templateService.TEMPLATE_TYPES.receipt)
  */
-const getKitchenOrderHTML = (orderData) => {
-  const { order_number, items, customer_name, created_at } = orderData;
-  const date = new Date(created_at || new Date()).toLocaleString();
-  
-  let itemsHTML = '';
-  items.forEach((item) => {
-    const itemName = sanitizeHTML(item.name);
-    const quantity = item.quantity || 1;
-    
-    itemsHTML += `
-      <div style="margin-bottom: 12px; padding-bottom: 8px; border-bottom: 1px dashed #ccc;">
-        <div style="font-weight: bold; font-size: 18px; margin-bottom: 4px;">
-          ${quantity}x ${itemName}
-        </div>
-        ${item.size ? `<div style="font-size: 14px; color: #666;">Size: ${sanitizeHTML(item.size)}</div>` : ''}
-        ${item.options && Array.isArray(item.options) && item.options.length > 0 ? `
-          <div style="font-size: 14px; color: #666; margin-top: 4px;">
-            Options: ${item.options.map(opt => sanitizeHTML(opt.name || opt)).join(', ')}
-          </div>
-        ` : ''}
-        ${item.notes ? `
-          <div style="font-size: 14px; color: #d32f2f; margin-top: 4px; font-style: italic;">
-            Note: ${sanitizeHTML(item.notes)}
-          </div>
-        ` : ''}
-      </div>
-    `;
+const getReceiptTemplateData = (orderData) => {
+  const {
+    order_number, pickup_number, items, subtotal, total_amount, discount_amount, promotion_name,
+    promotion_discount, tax_amount, tax_inclusive, tax_summary, payment_method, payments,
+    created_at, customer_name, table_number, order_type,
+  } = orderData;
+
+  const promotionValue = Number(promotion_discount) || 0;
+  const tenderList = Array.isArray(payments) ? payments.filter(p => p && typeof p.amount === 'number') : [];
+
+  return {
+    order_number: order_number || '',
+    pickup_number: pickup_number ? String(pickup_number) : '',
+    date: formatReceiptDate(created_at),
+    order_type: ORDER_TYPE_LABELS[order_type] || '',
+    table_number: table_number ? String(table_number) : '',
+    customer_name: customer_name || '',
+    items: items.map((item) => {
+      const quantity = item.quantity || 1;
+      const price = typeof item.price === 'number' ? item.price : 0;
+      const options = Array.isArray(item.options) ? item.options.map(opt => opt?.name || opt) : [];
+      return {
+        quantity,
+        name: item.name || 'Item',
+        size: item.size || '',
+        modifiers: [item.size, ...options].filter(m => typeof m === 'string' && m),
+        notes: item.notes || '',
+        price: formatCurrency(price),
+        total: formatCurrency(item.subtotal || price * quantity),
+      };
+    }),
+    item_count: items.reduce((sum, item) => sum + (item.quantity || 1), 0),
+    subtotal: formatCurrency(typeof subtotal === 'number' ? subtotal : total_amount),
+    promotion_name: promotion_name || 'Promotion',
+    promotion_discount: formatOptionalCurrency(promotionValue),
+    discount: formatOptionalCurrency(Math.max(0, (Number(discount_amount) || 0) - promotionValue)),
+    // Inclusive prices already contain the tax; the tax lines show it
+    tax: tax_inclusive ? '' : formatOptionalCurrency(tax_amount),
+    tax_inclusive: !!tax_inclusive,
+    tax_lines: (Array.isArray(tax_summary) ? tax_summary : [])
+      .filter(line => line && Number(line.tax_amount) > 0)
+      .map(line => ({
+        label: `${tax_inclusive ? 'Incl. tax' : 'Tax'} ${Number(line.tax_rate)}% on ${formatCurrency(Number(line.taxable_amount) || 0)}`,
+        amount: formatCurrency(Number(line.tax_amount)),
+      })),
+    total: formatCurrency(Number(total_amount) || 0),
+    payments: tenderList.map(p => ({
+      method: capitalize(p.payment_method || 'Payment'),
+      amount: formatCurrency(typeof p.amount_tendered === 'number' ? p.amount_tendered : p.amount),
+    })),
+    change: formatOptionalCurrency(tenderList.reduce((sum, p) => sum + (Number(p.change_given) || 0), 0)),
+    payment_method: capitalize(payment_method),
+  };
+};
+
+/**
+ * Template fields for a refund or void receipt
+ * @param {Object} refundData - Refund with its lines (see refundService.processRefund)
+ * @returns {Object} Fields (see templateService.TEMPLATE_TYPES.refund)
+ */
+const getRefundTemplateData = (refundData) => {
+  const {
+    refund_number, refund_type, order_number, pickup_number, items, amount, tax_amount, refund_method,
+    reason, user_name, username, approved_by_name, approved_by_username, created_at,
+  } = refundData;
+
+  return {
+    title: refund_type === 'void' ? 'VOID' : 'REFUND',
+    refund_number: refund_number || '',
+    order_number: order_number || '',
+    pickup_number: pickup_number ? String(pickup_number) : '',
+    date: formatReceiptDate(created_at),
+    cashier: user_name || username || '',
+    approved_by: approved_by_name || approved_by_username || '',
+    items: (Array.isArray(items) ? items : []).map(item => ({
+      quantity: item.quantity || 1,
+      name: item.name || 'Item',
+      amount: formatCurrency(Number(item.amount) || 0),
+      restocked: !!item.restocked,
+    })),
+    tax: formatOptionalCurrency(tax_amount),
+    total: formatCurrency(Number(amount) || 0),
+    refund_method: capitalize(refund_method),
+    reason: reason || '',
+  };
+};
+
+/**
+ * Template fields for a kitchen ticket
+ * @param {Object} orderData - Order data; expo items carry the station they go to
+ * @param {string} heading - Ticket heading (the prep station, EXPO, or KITCHEN ORDER)
+ * @returns {Object} Fields (see templateService.TEMPLATE_TYPES.kitchen)
+ */
+const getKitchenTemplateData = (orderData, heading = 'KITCHEN ORDER') => {
+  const { order_number, pickup_number, items, customer_name, created_at, order_type, table_number } = orderData;
+
+  return {
+    heading,
+    order_number,
+    pickup_number: pickup_number ? String(pickup_number) : '',
+    order_type: (ORDER_TYPE_LABELS[order_type] || '').toUpperCase(),
+    table_number: table_number ? String(table_number) : '',
+    customer_name: customer_name || '',
+    time: new Date(created_at || new Date()).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+    items: items.map(item => ({
+      quantity: item.quantity || 1,
+      name: item.name,
+      station: item.station ? String(item.station).toUpperCase() : '',
+      size: item.size || '',
+      options: (Array.isArray(item.options) ? item.options.map(opt => opt?.name || opt) : []).filter(Boolean),
+      notes: item.notes || '',
+    })),
+  };
+};
+
+/**
+ * Template fields for a Z-report
+ * @param {Object} reportData - Shift summary (see shiftService.getShiftSummary)
+ * @returns {Object} Fields (see templateService.TEMPLATE_TYPES.z_report)
+ */
+const getZReportTemplateData = (reportData) => {
+  const {
+    shift, cash_sales, paid_in, paid_out, cash_refunds, expected_cash, counted_cash, over_short,
+    order_count, sales_total, discount_total, tax_total, refund_total, void_count, tenders,
+  } = reportData;
+  const overShortValue = typeof over_short === 'number' ? over_short : 0;
+
+  return {
+    shift_id: String(shift.id),
+    cashier: shift.full_name || shift.username || '-',
+    closed_by: shift.closed_by_name || shift.closed_by_username || '',
+    opened_at: shift.opened_at ? formatReceiptDate(shift.opened_at) : '-',
+    closed_at: shift.closed_at ? formatReceiptDate(shift.closed_at) : '-',
+    order_count: String(order_count || 0),
+    sales_total: formatCurrency(sales_total || 0),
+    discount_total: formatOptionalCurrency(discount_total),
+    tax_total: formatOptionalCurrency(tax_total),
+    refund_total: formatOptionalCurrency(refund_total),
+    void_count: void_count ? String(void_count) : '',
+    tenders: (Array.isArray(tenders) ? tenders : []).map(t => ({
+      method: capitalize(t.payment_method || 'Other'),
+      count: String(t.payment_count || 0),
+      amount: formatCurrency(t.total_amount || 0),
+    })),
+    opening_float: formatCurrency(shift.opening_float || 0),
+    cash_sales: formatCurrency(cash_sales || 0),
+    paid_in: formatCurrency(paid_in || 0),
+    paid_out: formatCurrency(paid_out || 0),
+    cash_refunds: formatCurrency(cash_refunds || 0),
+    expected_cash: formatCurrency(expected_cash || 0),
+    counted_cash: formatCurrency(counted_cash || 0),
+    over_short_label: overShortValue > 0 ? 'OVER:' : overShortValue < 0 ? 'SHORT:' : 'OVER/SHORT:',
+    over_short: formatCurrency(Math.abs(overShortValue)),
+    denominations: (Array.isArray(shift.denominations) ? shift.denominations : [])
+      .filter(d => d.count > 0)
+      .map(d => ({ count: String(d.count), denomination: String(d.denomination), amount: formatCurrency(d.denomination * d.count) })),
+  };
+};
+
+const TEMPLATE_DATA = {
+  receipt: getReceiptTemplateData,
+  refund: getRefundTemplateData,
+  kitchen: getKitchenTemplateData,
+  z_report: getZReportTemplateData,
+};
+
+/**
+ * Add the business details every template can print
+ * @param {Object} data - Printout fields
+ * @param {Object} [business] - business_* settings and receipt_footer (see templateService.getBusinessDetails)
+ * @returns {Object} Fields
+ */
+const withBusiness = (data, business = {}) => ({
+  business_name: 'The Kings Bakery',
+  ...business,
+  printed_at: formatReceiptDate(),
+  ...data,
+});
+
+// ============================================================================
+// Template Rendering
+// ============================================================================
+
+// Printable width of the paper roll, for HTML output
+const PRINTABLE_WIDTH_MM = { 58: 48, 80: 72 };
+
+/**
+ * Render template lines as an HTML document for the OS printer driver
+ * @param {Array<Object>} lines - Lines from templateService.renderTemplate
+ * @param {Object} [options] - Layout options
+ * @param {number} [options.paperWidth] - Paper width in mm
+ * @param {string|null} [options.logoPath] - Image for [logo] lines
+ * @returns {string} HTML document
+ */
+const renderTemplateHTML = (lines, { paperWidth = 80, logoPath = null } = {}) => {
+  const logo = logoPath ? nativeImage.createFromPath(logoPath) : null;
+  const logoURL = logo && !logo.isEmpty() ? logo.toDataURL() : null;
+
+  const body = lines.map((line) => {
+    const logoHTML = line.logo && logoURL ? `<div class="center"><img class="logo" src="${logoURL}" alt=""></div>` : '';
+    if (line.rule) return `${logoHTML}<div class="divider"></div>`;
+    if (line.logo && line.cells.length === 0) return logoHTML;
+
+    const classes = ['line', line.align !== 'left' && line.align, line.bold && 'bold', line.size !== 'normal' && line.size]
+      .filter(Boolean).join(' ');
+    if (line.cells.length <= 1) {
+      return `${logoHTML}<div class="${classes}">${sanitizeHTML(line.cells[0] || '') || '&nbsp;'}</div>`;
+    }
+    const [first, ...rest] = line.cells;
+    return `${logoHTML}<div class="${classes} row"><span class="grow">${sanitizeHTML(first)}</span>${rest.map(cell => `<span class="right">${sanitizeHTML(cell)}</span>`).join('')}</div>`;
+  }).join('\n  ');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body {
+      font-family: monospace;
+      margin: 0;
+      padding: 5px;
+      width: ${PRINTABLE_WIDTH_MM[paperWidth] || PRINTABLE_WIDTH_MM[80]}mm;
+      font-size: 12px;
+      color: #000;
+      background: #fff;
+    }
+    .line { white-space: pre-wrap; word-break: break-word; }
+    .row { display: flex; gap: 8px; }
+    .grow { flex: 1; }
+    .center { text-align: center; }
+    .right { text-align: right; }
+    .bold { font-weight: bold; }
+    .large { font-size: 20px; }
+    .small { font-size: 10px; }
+    .divider { border-top: 1px dashed #000; margin: 5px 0; }
+    .logo { max-width: 60%; margin-bottom: 5px; }
+  </style>
+</head>
+<body>
+  ${body}
+
+  <!-- Extra line breaks to flush printer buffer so next receipt doesn't start on same line -->
+  <br/><br/><br/>
+</body>
+</html>`;
+};
+
+/**
+ * Render template lines as ESC/POS commands
+ * @param {Array<Object>} lines - Lines from templateService.renderTemplate
+ * @param {Object} [options] - Layout options
+ * @param {number} [options.paperWidth] - Paper width in mm
+ * @param {string|null} [options.logoPath] - Image for [logo] lines
+ * @param {boolean} [options.drawerKick] - Open the cash drawer after the cut
+ * @returns {Buffer} Command stream
+ */
+const renderTemplateEscPos = (lines, { paperWidth = 80, logoPath = null, drawerKick = false } = {}) => {
+  const doc = new EscPosBuilder({ paperWidth });
+  const needsLogo = logoPath && lines.some(line => line.logo);
+  const logo = needsLogo ? loadImageBitmap(logoPath, Math.round((PAPER_WIDTHS[paperWidth] || PAPER_WIDTHS[80]).dots * 0.6)) : null;
+
+  lines.forEach((line) => {
+    doc.align(line.align);
+    if (line.logo && logo) doc.image(logo);
+    if (line.rule) {
+      doc.rule();
+      return;
+    }
+    if (line.cells.length === 0) {
+      if (!line.logo) doc.newline();
+      return;
+    }
+
+    if (line.bold) doc.bold();
+    if (line.size === 'large') doc.size(2, 2);
+    if (line.size === 'small') doc.font('B');
+    if (line.cells.length === 1) {
+      doc.line(line.cells[0]);
+    } else if (line.cells.length === 2) {
+      doc.leftRight(line.cells[0], line.cells[1]);
+    } else {
+      const [first, ...rest] = line.cells;
+      doc.columns([{ text: first }, ...rest.map(text => ({ text, width: Math.max(1, text.length), align: 'right' }))]);
+    }
+    if (line.size === 'large') doc.size(1, 1);
+    if (line.size === 'small') doc.font('A');
+    if (line.bold) doc.bold(false);
   });
 
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <style>
-        @media print {
-          @page {
-            size: ${CONFIG.PAGE_SIZE} auto;
-            margin: 0;
-          }
-          body {
-            margin: 0;
-            padding: 10mm;
-          }
-          * {
-            -webkit-print-color-adjust: exact;
-            print-color-adjust: exact;
-          }
-        }
-        body {
-          font-family: 'Courier New', 'Courier', monospace;
-          font-size: 14px;
-          line-height: 1.4;
-          max-width: 80mm;
-          margin: 0 auto;
-          padding: 10mm;
-          color: #000;
-          background: #fff;
-        }
-        .header {
-          text-align: center;
-          border-bottom: 2px solid #000;
-          padding-bottom: 10px;
-          margin-bottom: 15px;
-        }
-        .header h1 {
-          margin: 0;
-          font-size: 24px;
-          font-weight: bold;
-          text-transform: uppercase;
-          letter-spacing: 1px;
-        }
-        .header p {
-          margin: 5px 0 0 0;
-          font-size: 12px;
-          font-weight: bold;
-        }
-        .order-info {
-          margin-bottom: 15px;
-          padding-bottom: 10px;
-          border-bottom: 1px solid #ccc;
-        }
-        .order-info div {
-          margin: 4px 0;
-          font-size: 14px;
-        }
-        .items {
-          margin-bottom: 15px;
-        }
-        .footer {
-          text-align: center;
-          margin-top: 20px;
-          padding-top: 10px;
-          border-top: 2px solid #000;
-          font-size: 12px;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>The Kings Bakery</h1>
-        <p>KITCHEN ORDER</p>
-      </div>
-      <div class="order-info">
-        <div><strong>Order #:</strong> ${sanitizeHTML(order_number)}</div>
-        ${customer_name ? `<div><strong>Customer:</strong> ${sanitizeHTML(customer_name)}</div>` : ''}
-        <div><strong>Time:</strong> ${sanitizeHTML(date)}</div>
-      </div>
-      <div class="items">
-        ${itemsHTML}
-      </div>
-      <div class="footer">
-        <p>Thank you!</p>
-      </div>
-    </body>
-    </html>
-  `;
-};
-
-/**
- * Generate customer receipt HTML template
- * Uses HTML tables for reliable layout and adds extra spacing to flush printer buffer
- */
-const getCustomerReceiptHTML = (orderData) => {
-  const { 
-    order_number, 
-    items, 
-    subtotal, 
-    total_amount, 
-    payment_method, 
-    created_at,
-    customer_name 
-  } = orderData;
-  
-  const date = created_at ? new Date(created_at).toLocaleString('en-US', {
-    month: 'short', day: 'numeric', year: 'numeric',
-    hour: 'numeric', minute: '2-digit', hour12: true
-  }) : new Date().toLocaleString();
-
-  // Generate items rows
-  const itemsRows = items.map(item => {
-    const itemName = sanitizeHTML(item.name || 'Item');
-    const quantity = item.quantity || 1;
-    const price = typeof item.price === 'number' ? item.price : 0;
-    const itemSubtotal = item.subtotal || (price * quantity);
-    
-    return `
-      <tr>
-        <td style="padding: 2px 0;">${quantity}x ${itemName}</td>
-        <td style="text-align: right; padding: 2px 0;">${formatCurrency(itemSubtotal)}</td>
-      </tr>
-    `;
-  }).join('');
-
-  const subtotalValue = typeof subtotal === 'number' ? subtotal : total_amount;
-  const totalValue = typeof total_amount === 'number' ? total_amount : 0;
-  const paymentDisplay = payment_method ? payment_method.charAt(0).toUpperCase() + payment_method.slice(1) : '';
+  doc.align('left').cut();
+  return (drawerKick ? doc.drawerKick() : doc).build();
+};
+
+/**
+ * Document builders for a templated printout
+ * @param {string} type - receipt, refund, kitchen or z_report
+ * @param {Object} data - Fields for the template
+ * @param {Object} [template] - { body, paperWidth, logoPath }; a missing body uses the built-in layout
+ * @param {Object} [options] - { drawerKick } for ESC/POS output
+ * @returns {Object} { html, escpos } builders taking the paper width
+ */
+const getTemplateDocument = (type, data, template = {}, { drawerKick = false } = {}) => {
+  const lines = renderTemplate(template.body || getDefaultTemplateBody(type), data);
+  const logoPath = template.logoPath || null;
+  return {
+    html: (paperWidth) => renderTemplateHTML(lines, { paperWidth, logoPath }),
+    escpos: (paperWidth) => renderTemplateEscPos(lines, { paperWidth, logoPath, drawerKick }),
+  };
+};
+
+/**
+ * Generate no-sale slip HTML template
+ * Printing it kicks the drawer when the receipt printer driver is set to open the drawer on each job
+ */
+const getNoSaleHTML = (drawerData, businessName) => {
+  const { user_name, approved_by_name, reason } = drawerData || {};
 
   return `<!DOCTYPE html>
 <html>
@@ -425,7 +612,6 @@ const getCustomerReceiptHTML = (orderData) => {
       font-size: 12px;
     }
     table { width: 100%; border-collapse: collapse; }
-    td { vertical-align: top; }
     .center { text-align: center; }
     .right { text-align: right; }
     .bold { font-weight: bold; }
@@ -433,37 +619,230 @@ const getCustomerReceiptHTML = (orderData) => {
   </style>
 </head>
 <body>
-  <div class="center bold" style="font-size: 16px;">THE KINGS BAKERY</div>
+  <div class="center bold" style="font-size: 16px;">${sanitizeHTML(businessName)}</div>
+  <div class="center bold">NO SALE</div>
   <div class="divider"></div>
-  
+
   <table>
-    <tr><td>Order #:</td><td class="right">${sanitizeHTML(order_number || '')}</td></tr>
-    <tr><td>Date:</td><td class="right">${sanitizeHTML(date)}</td></tr>
-    ${customer_name ? `<tr><td>Customer:</td><td class="right">${sanitizeHTML(customer_name)}</td></tr>` : ''}
+    <tr><td>Date:</td><td class="right">${sanitizeHTML(formatReceiptDate())}</td></tr>
+    ${user_name ? `<tr><td>By:</td><td class="right">${sanitizeHTML(user_name)}</td></tr>` : ''}
+    ${approved_by_name ? `<tr><td>Approved:</td><td class="right">${sanitizeHTML(approved_by_name)}</td></tr>` : ''}
   </table>
-  
+  ${reason ? `<div class="divider"></div><div>Reason: ${sanitizeHTML(reason)}</div>` : ''}
+
+  <!-- Extra line breaks to flush printer buffer so next receipt doesn't start on same line -->
+  <br/><br/><br/>
+</body>
+</html>`;
+};
+
+/**
+ * Generate no-sale slip ESC/POS commands, with the drawer kick
+ * @param {Object} drawerData - { user_name, approved_by_name, reason }
+ * @param {string} businessName - Shop name for the top of the slip
+ * @param {number} paperWidth - Paper width in mm
+ * @returns {Buffer} Command stream
+ */
+const getNoSaleEscPos = (drawerData, businessName, paperWidth) => {
+  const { user_name, approved_by_name, reason } = drawerData || {};
+  const doc = new EscPosBuilder({ paperWidth })
+    .align('center').bold().size(2, 1).line(businessName).size(1, 1).line('NO SALE').bold(false).align('left')
+    .rule()
+    .leftRight('Date:', formatReceiptDate());
+  if (user_name) doc.leftRight('By:', user_name);
+  if (approved_by_name) doc.leftRight('Approved:', approved_by_name);
+  if (reason) doc.rule().line(`Reason: ${reason}`);
+  return doc.cut().drawerKick().build();
+};
+
+/**
+ * Lines of a printer test page
+ * @param {Object} printer - { name, printerName, paperWidth, roles }
+ * @param {string} businessName - Shop name for the top of the page
+ * @returns {Array<[string, string]>} Label and value rows
+ */
+const getTestPageRows = (printer, businessName) => [
+  ['Shop:', businessName],
+  ['Printer:', printer.name || '-'],
+  ['Connection:', printer.printerName || 'Default printer'],
+  ['Paper:', `${printer.paperWidth} mm`],
+  ['Prints:', (printer.roles || []).map(capitalize).join(', ') || 'Nothing yet'],
+  ['Date:', formatReceiptDate()],
+];
+
+/**
+ * Generate printer test page HTML template
+ */
+const getTestPageHTML = (printer, businessName) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body {
+      font-family: monospace;
+      margin: 0;
+      padding: 5px;
+      width: ${PRINTABLE_WIDTH_MM[printer.paperWidth] || PRINTABLE_WIDTH_MM[80]}mm;
+      font-size: 12px;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    .center { text-align: center; }
+    .right { text-align: right; }
+    .bold { font-weight: bold; }
+    .divider { border-top: 1px dashed #000; margin: 5px 0; }
+    .edge { border: 1px solid #000; height: 12px; }
+  </style>
+</head>
+<body>
+  <div class="center bold" style="font-size: 16px;">PRINTER TEST</div>
   <div class="divider"></div>
-  
   <table>
-    ${itemsRows}
+    ${getTestPageRows(printer, businessName).map(([label, value]) => `<tr><td>${sanitizeHTML(label)}</td><td class="right">${sanitizeHTML(value)}</td></tr>`).join('\n    ')}
   </table>
-  
   <div class="divider"></div>
-  
-  <table>
-    <tr><td>Subtotal:</td><td class="right">${formatCurrency(subtotalValue)}</td></tr>
-    <tr class="bold"><td>TOTAL:</td><td class="right">${formatCurrency(totalValue)}</td></tr>
-    ${paymentDisplay ? `<tr><td>Payment:</td><td class="right">${sanitizeHTML(paymentDisplay)}</td></tr>` : ''}
-  </table>
-  
+  <div>The box below should touch both edges of the paper:</div>
+  <div class="edge"></div>
   <div class="divider"></div>
-  
-  <div class="center" style="margin-top: 5px;">Thank you!</div>
-  
+  <div class="center">If you can read this, the printer is set up.</div>
+
   <!-- Extra line breaks to flush printer buffer so next receipt doesn't start on same line -->
   <br/><br/><br/>
 </body>
 </html>`;
+
+/**
+ * Generate printer test page ESC/POS commands
+ * The digit ruler shows whether the paper width matches the printer.
+ * @param {Object} printer - { name, printerName, paperWidth, roles }
+ * @param {string} businessName - Shop name for the top of the page
+ * @returns {Buffer} Command stream
+ */
+const getTestPageEscPos = (printer, businessName) => {
+  const doc = new EscPosBuilder({ paperWidth: printer.paperWidth })
+    .align('center').bold().size(2, 2).line('PRINTER TEST').size(1, 1).bold(false).align('left')
+    .rule();
+  getTestPageRows(printer, businessName).forEach(([label, value]) => doc.leftRight(label, value));
+  const ruler = Array.from({ length: doc.lineWidth }, (_, i) => String((i + 1) % 10)).join('');
+  return doc
+    .rule()
+    .line('The ruler below should fill one line:')
+    .line(ruler)
+    .bold().line('Bold').bold(false)
+    .size(2, 2).line('Large').size(1, 1)
+    .rule()
+    .align('center').line('If you can read this, the printer is set up.').align('left')
+    .cut()
+    .build();
+};
+
+/**
+ * Format a label date (YYYY-MM-DD) for people
+ * @param {string|null} value - Calendar date
+ * @returns {string} e.g. "Oct 19, 2026", or '' when missing
+ */
+const formatLabelDate = (value) => (value
+  ? new Date(`${value}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  : '');
+
+/**
+ * Lines of a product label, shared by both outputs
+ * @param {Object} label - Label contents (see labelService.getLabelData)
+ * @returns {Object} { ingredients, allergens, dates } text
+ */
+const getLabelText = (label) => ({
+  ingredients: label.ingredients.length > 0 ? `Ingredients: ${label.ingredients.join(', ')}` : '',
+  allergens: label.allergens.length > 0 ? `Contains: ${label.allergens.join(', ')}` : '',
+  dates: [
+    ['Made:', formatLabelDate(label.produced_on)],
+    ['Best before:', formatLabelDate(label.best_before)],
+  ].filter(([, value]) => value),
+});
+
+/**
+ * Generate product label HTML, one page the size of the label
+ * The label stock set in the printer driver should match the size.
+ * @param {Object} label - Label contents (see labelService.getLabelData)
+ * @param {Object} size - { width_mm, height_mm }
+ * @param {string} businessName - Shop name for the top of the label
+ * @returns {string} HTML document
+ */
+const getLabelHTML = (label, size, businessName) => {
+  const text = getLabelText(label);
+  const barcodeHeight = Math.min(10, size.height_mm * 0.22).toFixed(1);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    @page { size: ${size.width_mm}mm ${size.height_mm}mm; margin: 0; }
+    html, body { margin: 0; padding: 0; }
+    .label {
+      box-sizing: border-box;
+      width: ${size.width_mm}mm;
+      height: ${size.height_mm}mm;
+      padding: 1.5mm 2mm;
+      overflow: hidden;
+      display: flex;
+      flex-direction: column;
+      font-family: Arial, Helvetica, sans-serif;
+      font-size: 7pt;
+      line-height: 1.2;
+    }
+    .shop { font-size: 6pt; }
+    .top { display: flex; justify-content: space-between; align-items: baseline; gap: 2mm; }
+    .name, .price { font-weight: bold; font-size: 10pt; }
+    .price { white-space: nowrap; }
+    .ingredients { flex: 1; overflow: hidden; margin-top: 0.5mm; }
+    .bold { font-weight: bold; }
+    .dates { display: flex; justify-content: space-between; gap: 2mm; }
+    .barcode svg { display: block; width: 100%; height: ${barcodeHeight}mm; }
+    .code { text-align: center; font-family: monospace; font-size: 6pt; }
+  </style>
+</head>
+<body>
+  <div class="label">
+    <div class="shop">${sanitizeHTML(businessName)}</div>
+    <div class="top">
+      <div class="name">${sanitizeHTML(label.name)}</div>
+      <div class="price">${sanitizeHTML(formatCurrency(label.price))}</div>
+    </div>
+    <div class="ingredients">
+      ${text.ingredients ? `<div>${sanitizeHTML(text.ingredients)}</div>` : ''}
+      ${text.allergens ? `<div class="bold">${sanitizeHTML(text.allergens)}</div>` : ''}
+    </div>
+    <div class="dates">
+      ${text.dates.map(([name, value]) => `<span>${sanitizeHTML(name)} <span class="bold">${sanitizeHTML(value)}</span></span>`).join('\n      ')}
+    </div>
+    ${label.batch_number ? `<div>Batch: ${sanitizeHTML(label.batch_number)}</div>` : ''}
+    <div class="barcode">${code128SVG(label.barcode)}</div>
+    <div class="code">${sanitizeHTML(label.barcode)}</div>
+  </div>
+</body>
+</html>`;
+};
+
+/**
+ * Generate product label ESC/POS commands, for labels printed on a receipt roll
+ * @param {Object} label - Label contents (see labelService.getLabelData)
+ * @param {string} businessName - Shop name for the top of the label
+ * @param {number} paperWidth - Paper width in mm
+ * @returns {Buffer} Command stream
+ */
+const getLabelEscPos = (label, businessName, paperWidth) => {
+  const text = getLabelText(label);
+  const doc = new EscPosBuilder({ paperWidth })
+    .align('center').line(businessName)
+    .bold().size(2, 2).line(label.name).size(1, 1).line(formatCurrency(label.price)).bold(false).align('left')
+    .rule();
+  if (text.ingredients) doc.line(text.ingredients);
+  if (text.allergens) doc.bold().line(text.allergens).bold(false);
+  text.dates.forEach(([name, value]) => doc.leftRight(name, value));
+  if (label.batch_number) doc.leftRight('Batch:', label.batch_number);
+  return doc
+    .align('center').barcode(label.barcode, { height: 60 }).align('left')
+    .cut()
+    .build();
 };
 
 // ============================================================================
@@ -474,9 +853,10 @@ const getCustomerReceiptHTML = (orderData) => {
  * Print HTML content to thermal printer
  * @param {string} html - HTML content to print
  * @param {string|null} printerName - Optional printer name
+ * @param {Object} [options] - { copies, silent }; without silent the print dialog opens
  * @returns {Promise<boolean>} True if print succeeded
  */
-const printHTML = async (html, printerName = null) => {
+const printHTML = async (html, printerName = null, { copies = 1, silent = CONFIG.SILENT_MODE } = {}) => {
   if (!html || typeof html !== 'string') {
     throw new PrintError('Invalid HTML content', 'INVALID_DATA');
   }
@@ -541,7 +921,7 @@ const printHTML = async (html, printerName = null) => {
       // Set timeout for entire operation
       timeoutId = setTimeout(() => {
         rejectOnce(new PrintTimeoutError('Print operation timed out. Please check your printer connection and try again.'));
-      }, CONFIG.PRINT_TIMEOUT);
+      }, silent ? CONFIG.PRINT_TIMEOUT : CONFIG.DIALOG_PRINT_TIMEOUT);
 
       // Load HTML content
       const dataURL = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
@@ -555,7 +935,8 @@ const printHTML = async (html, printerName = null) => {
         setTimeout(() => {
           try {
             const printOptions = {
-              silent: CONFIG.SILENT_MODE,
+              silent,
+              copies,
               printBackground: true,
               margins: {
                 marginType: CONFIG.MARGIN_TYPE,
@@ -617,6 +998,209 @@ const printHTML = async (html, printerName = null) => {
   });
 };
 
+/**
+ * Render HTML content to a PDF, one page as long as the printout, on paper as wide as the roll
+ * @param {string} html - HTML content, as for printHTML
+ * @param {Object} [options] - { paperWidth } in mm
+ * @returns {Promise<Buffer>} PDF file
+ */
+const renderHTMLToPDF = async (html, { paperWidth = 80 } = {}) => {
+  if (!html || typeof html !== 'string') {
+    throw new PrintError('Invalid HTML content', 'INVALID_DATA');
+  }
+
+  const pdfWindow = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: true,
+    },
+  });
+  let timeoutId = null;
+
+  try {
+    const render = async () => {
+      await pdfWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+      await sleep(CONFIG.RENDER_DELAY);
+      // CSS pixels are 1/96 inch; a little extra keeps the last line off a second page
+      const heightPx = await pdfWindow.webContents.executeJavaScript('document.documentElement.scrollHeight');
+      return pdfWindow.webContents.printToPDF({
+        pageSize: { width: paperWidth / 25.4, height: (Number(heightPx) || 600) / 96 + 0.1 },
+        printBackground: true,
+        margins: { top: 0, bottom: 0, left: 0, right: 0 },
+      });
+    };
+    const timeout = new Promise((_resolve, reject) => {
+      timeoutId = setTimeout(() => reject(new PrintTimeoutError('Creating the PDF timed out')), CONFIG.PRINT_TIMEOUT);
+    });
+    return await Promise.race([render(), timeout]);
+  } catch (error) {
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(`Failed to create PDF: ${error.message}`, 'PDF_ERROR');
+  } finally {
+    clearTimeout(timeoutId);
+    if (!pdfWindow.isDestroyed()) {
+      pdfWindow.close();
+    }
+  }
+};
+
+/**
+ * Send ESC/POS commands to a raw printer
+ * @param {Buffer} data - Command stream
+ * @param {Object} target - Network address or device path (see escposService.parseRawTarget)
+ * @returns {Promise<boolean>} True if the printer took the job
+ */
+const printRaw = async (data, target) => {
+  const where = describeTarget(target);
+  try {
+    console.log(`[PrintService] Sending ${data.length} bytes to ${where}`);
+    await sendRaw(data, target, { timeout: CONFIG.PRINT_TIMEOUT });
+    return true;
+  } catch (error) {
+    if (error.code === 'ETIMEDOUT') {
+      throw new PrintTimeoutError(`Printer ${where} did not respond. Please check that it is powered on and connected.`);
+    }
+    if (['ENOENT', 'EACCES', 'EPERM', 'ENOTFOUND'].includes(error.code)) {
+      throw new PrintError(`Printer ${where} is not available: ${error.message}`, 'PRINTER_NOT_FOUND', false);
+    }
+    throw new PrintFailedError(`Print job failed on ${where}. Please check the printer and its connection. Error: ${error.message}`);
+  }
+};
+
+// ============================================================================
+// Print Job Log
+// ============================================================================
+
+let printJobFailureListener = null;
+
+/**
+ * Log a job before it is sent; a logging problem never stops the printout
+ * @param {Object} job - Job row fields (see printJobService.createPrintJob)
+ * @returns {number|null} Job ID, or null when it couldn't be logged
+ */
+const recordPrintJob = (job) => {
+  try {
+    return createPrintJob(job);
+  } catch (error) {
+    console.error('[PrintService] Could not log print job:', error);
+    return null;
+  }
+};
+
+/**
+ * Update a logged job's status; like recordPrintJob, a logging problem is only reported
+ * @param {number|null} jobId - Job ID
+ * @param {string} status - printing, printed or failed
+ * @param {string|null} [errorMessage] - Why it failed
+ */
+const setPrintJobStatus = (jobId, status, errorMessage = null) => {
+  if (!jobId) return;
+  try {
+    updatePrintJobStatus(jobId, status, errorMessage);
+  } catch (error) {
+    console.error('[PrintService] Could not update print job:', error);
+  }
+};
+
+/**
+ * Send a job's output to its printer
+ * @param {Object} output - { output_format, content, raw_content }
+ * @param {string|null} printerName - Printer the output was made for
+ * @param {Object} [options] - { copies, silent }
+ * @returns {Promise<boolean>} True if the printer took the job
+ */
+const sendPrintOutput = async ({ output_format, content, raw_content }, printerName, { copies = 1, silent = CONFIG.SILENT_MODE } = {}) => {
+  if (output_format === 'escpos') {
+    const target = parseRawTarget(printerName);
+    if (!target) {
+      throw new PrintError(`${printerName || 'The default printer'} is not an ESC/POS printer`, 'PRINTER_NOT_FOUND', false);
+    }
+    // Raw printers have no copies setting, so the commands go once per copy
+    const data = Buffer.from(raw_content);
+    return printRaw(copies > 1 ? Buffer.concat(Array(copies).fill(data)) : data, target);
+  }
+  return printHTML(content, printerName, { copies, silent });
+};
+
+/**
+ * Queue a logged job and keep its log row up to date; each send, retries included, is one attempt
+ * @param {number|null} jobId - Job ID
+ * @param {Object} job - { job_type, title, reference_label }, for the failure listener
+ * @param {Function} send - Sends the output once
+ * @returns {Promise<Object>} Result object with the job ID
+ */
+const runPrintJob = async (jobId, job, send) => {
+  try {
+    await printQueue.enqueue(async () => {
+      return await retryWithBackoff(async () => {
+        setPrintJobStatus(jobId, 'printing');
+        await send();
+      });
+    });
+    setPrintJobStatus(jobId, 'printed');
+    return { success: true, jobId };
+  } catch (error) {
+    setPrintJobStatus(jobId, 'failed', error.message);
+    if (jobId && printJobFailureListener) {
+      try {
+        printJobFailureListener({
+          id: jobId,
+          job_type: job.job_type,
+          title: job.title,
+          reference_label: job.reference_label || null,
+          error: error.message,
+        });
+      } catch (listenerError) {
+        console.error('[PrintService] Print job failure listener threw:', listenerError);
+      }
+    }
+    throw error;
+  }
+};
+
+// ESC p m t1 t2, which escposService puts at the very end of receipts and no-sale slips
+const DRAWER_KICK_LENGTH = 5;
+
+/**
+ * A reprint is a copy of the paper only, so the cash drawer stays shut
+ * @param {Buffer} data - Command stream
+ * @returns {Buffer} Command stream without a trailing drawer kick
+ */
+const withoutDrawerKick = (data) => {
+  const start = data.length - DRAWER_KICK_LENGTH;
+  return start >= 0 && data[start] === 0x1b && data[start + 1] === 0x70 ? data.subarray(0, start) : data;
+};
+
+/**
+ * Queue a document for the printer, as ESC/POS when the printer is a raw target
+ * and as HTML through the OS driver otherwise, and log it with its output
+ * @param {Object} document - Document builders
+ * @param {Function} document.html - Returns the HTML version for a paper width
+ * @param {Function} document.escpos - Returns the ESC/POS version for a paper width
+ * @param {Object} options - Printer options
+ * @param {string|null} [options.printerName] - OS printer name, network address or device path (null = default printer)
+ * @param {number} [options.paperWidth] - Paper width in mm, for ESC/POS
+ * @param {number} [options.copies] - Copies to print
+ * @param {boolean} [options.silent] - Print without the print dialog
+ * @param {Object|null} [options.job] - { job_type, title, reference_type, reference_id, reference_label, template_type } for the log;
+ *   without it the printout isn't logged
+ * @returns {Promise<Object>} Result object with the job ID
+ */
+const printDocument = async ({ html, escpos }, { printerName = null, paperWidth = 80, copies = 1, silent = CONFIG.SILENT_MODE, job = null } = {}) => {
+  const output = parseRawTarget(printerName)
+    ? { output_format: 'escpos', content: null, raw_content: escpos(paperWidth) }
+    : { output_format: 'html', content: html(paperWidth), raw_content: null };
+  const jobId = job
+    ? recordPrintJob({ ...job, ...output, printer_name: printerName, paper_width: paperWidth, copies, silent: silent ? 1 : 0 })
+    : null;
+
+  return runPrintJob(jobId, job || {}, () => sendPrintOutput(output, printerName, { copies, silent }));
+};
+
 // ============================================================================
 // Public API
 // ============================================================================
@@ -624,9 +1208,17 @@ const printHTML = async (html, printerName = null) => {
 /**
  * Print kitchen order
  * @param {Object} orderData - Order data
+ * @param {Object} [options] - Ticket options
+ * @param {string} [options.heading] - Ticket heading (defaults to KITCHEN ORDER)
+ * @param {string|null} [options.printerName] - Printer to use (null = default printer)
+ * @param {number} [options.paperWidth] - Paper width in mm
+ * @param {number} [options.copies] - Copies to print
+ * @param {boolean} [options.silent] - Print without the print dialog
+ * @param {Object} [options.template] - { body, paperWidth, logoPath }; the template's paper width wins
+ * @param {Object} [options.business] - Business details (see templateService.getBusinessDetails)
  * @returns {Promise<Object>} Result object
  */
-export const printKitchenOrder = async (orderData) => {
+export const printKitchenOrder = async (orderData, { heading, printerName = null, paperWidth, copies, silent, template = {}, business } = {}) => {
   const startTime = Date.now();
   console.log('[PrintService] Kitchen order print requested:', orderData.order_number);
 
@@ -634,15 +1226,21 @@ export const printKitchenOrder = async (orderData) => {
     // Validate input
     validateOrderData(orderData, 'kitchen');
 
-    // Generate HTML
-    const html = getKitchenOrderHTML(orderData);
-
     // Queue and execute print job with retry
-    const result = await printQueue.enqueue(async () => {
-      return await retryWithBackoff(async () => {
-        await printHTML(html, null);
-        return { success: true };
-      });
+    const document = getTemplateDocument('kitchen', withBusiness(getKitchenTemplateData(orderData, heading), business), template);
+    const result = await printDocument(document, {
+      printerName,
+      paperWidth: template.paperWidth || paperWidth,
+      copies,
+      silent,
+      job: {
+        job_type: 'kitchen',
+        title: heading ? `Kitchen ticket - ${heading}` : 'Kitchen ticket',
+        reference_type: 'order',
+        reference_id: orderData.order_id,
+        reference_label: orderData.order_number,
+        template_type: 'kitchen',
+      },
     });
 
     const duration = Date.now() - startTime;
@@ -664,12 +1262,52 @@ export const printKitchenOrder = async (orderData) => {
   }
 };
 
+/**
+ * Print the kitchen tickets of one order, one per prep station (and expo)
+ * Every ticket is attempted; a failure on one printer doesn't hold back the others.
+ * @param {Object} orderData - Order data
+ * @param {Array<{heading: string, items: Array, printer: Object}>} tickets - Tickets to print, each with its
+ *   printer's { printerName, paperWidth, copies, silent }
+ * @param {Object} [options] - { template, business }, as for printKitchenOrder
+ * @returns {Promise<Object>} Result object with the number of tickets printed
+ */
+export const printKitchenTickets = async (orderData, tickets, { template, business } = {}) => {
+  const failures = [];
+  let printed = 0;
+
+  for (const ticket of tickets) {
+    try {
+      await printKitchenOrder(
+        { ...orderData, items: ticket.items },
+        { heading: ticket.heading, ...ticket.printer, template, business }
+      );
+      printed += 1;
+    } catch (error) {
+      failures.push(`${ticket.heading}: ${error.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new PrintFailedError(
+      `${failures.length} of ${tickets.length} kitchen ticket(s) failed to print. ${failures.join('; ')}`
+    );
+  }
+  return { success: true, printed };
+};
+
 /**
  * Print customer receipt
  * @param {Object} orderData - Order data
+ * @param {Object} [options] - Printer options
+ * @param {string|null} [options.printerName] - Receipt printer (null = default printer)
+ * @param {number} [options.paperWidth] - Paper width in mm
+ * @param {number} [options.copies] - Copies to print
+ * @param {boolean} [options.silent] - Print without the print dialog
+ * @param {Object} [options.template] - { body, paperWidth, logoPath }; the template's paper width wins
+ * @param {Object} [options.business] - Business details (see templateService.getBusinessDetails)
  * @returns {Promise<Object>} Result object
  */
-export const printCustomerReceipt = async (orderData) => {
+export const printCustomerReceipt = async (orderData, { printerName = null, paperWidth, copies, silent, template = {}, business } = {}) => {
   const startTime = Date.now();
   console.log('[PrintService] Customer receipt print requested:', orderData.order_number);
 
@@ -677,15 +1315,26 @@ export const printCustomerReceipt = async (orderData) => {
     // Validate input
     validateOrderData(orderData, 'receipt');
 
-    // Generate HTML
-    const html = getCustomerReceiptHTML(orderData);
-
     // Queue and execute print job with retry
-    const result = await printQueue.enqueue(async () => {
-      return await retryWithBackoff(async () => {
-        await printHTML(html, null);
-        return { success: true };
-      });
+    // A raw printer opens the drawer itself when cash was taken; the till says so when earlier tenders are listed too
+    const payments = Array.isArray(orderData.payments) ? orderData.payments : [];
+    const cashTaken = typeof orderData.cash_taken === 'boolean'
+      ? orderData.cash_taken
+      : payments.length > 0 ? payments.some(p => p?.payment_method === 'cash') : orderData.payment_method === 'cash';
+    const document = getTemplateDocument('receipt', withBusiness(getReceiptTemplateData(orderData), business), template, { drawerKick: cashTaken });
+    const result = await printDocument(document, {
+      printerName,
+      paperWidth: template.paperWidth || paperWidth,
+      copies,
+      silent,
+      job: {
+        job_type: 'receipt',
+        title: 'Receipt',
+        reference_type: 'order',
+        reference_id: orderData.order_id,
+        reference_label: orderData.order_number,
+        template_type: 'receipt',
+      },
     });
 
     const duration = Date.now() - startTime;
@@ -707,6 +1356,337 @@ export const printCustomerReceipt = async (orderData) => {
   }
 };
 
+/**
+ * Print Z-report for a closed shift
+ * @param {Object} reportData - Shift summary (see shiftService.getShiftSummary)
+ * @param {Object} [options] - Printer options ({ printerName, paperWidth, copies, silent, template, business }, as for printCustomerReceipt)
+ * @returns {Promise<Object>} Result object
+ */
+export const printZReport = async (reportData, { printerName = null, paperWidth, copies, silent, template = {}, business } = {}) => {
+  const startTime = Date.now();
+  console.log('[PrintService] Z-report print requested:', reportData?.shift?.id);
+
+  try {
+    // Validate input
+    if (!reportData || typeof reportData !== 'object' || !reportData.shift || !reportData.shift.id) {
+      throw new PrintError('Invalid report data: shift is required', 'INVALID_DATA');
+    }
+
+    // Queue and execute print job with retry
+    const document = getTemplateDocument('z_report', withBusiness(getZReportTemplateData(reportData), business), template);
+    const result = await printDocument(document, {
+      printerName,
+      paperWidth: template.paperWidth || paperWidth,
+      copies,
+      silent,
+      job: {
+        job_type: 'z_report',
+        title: 'Z-report',
+        reference_type: 'shift',
+        reference_id: reportData.shift.id,
+        reference_label: `Shift #${reportData.shift.id}`,
+        template_type: 'z_report',
+      },
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[PrintService] Z-report printed successfully in ${duration}ms`);
+    return result;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[PrintService] Z-report print failed after ${duration}ms:`, error);
+
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(
+      `Failed to print Z-report: ${error.message}`,
+      'UNKNOWN_ERROR',
+      false
+    );
+  }
+};
+
+/**
+ * Print refund or void receipt
+ * @param {Object} refundData - Refund with its lines (see refundService.processRefund)
+ * @param {Object} [options] - Printer options ({ printerName, paperWidth, copies, silent, template, business }, as for printCustomerReceipt)
+ * @returns {Promise<Object>} Result object
+ */
+export const printRefundReceipt = async (refundData, { printerName = null, paperWidth, copies, silent, template = {}, business } = {}) => {
+  const startTime = Date.now();
+  console.log('[PrintService] Refund receipt print requested:', refundData?.refund_number);
+
+  try {
+    // Validate input
+    if (!refundData || typeof refundData !== 'object' || !refundData.refund_number) {
+      throw new PrintError('Invalid refund data: refund_number is required', 'INVALID_DATA');
+    }
+
+    // Queue and execute print job with retry
+    const document = getTemplateDocument('refund', withBusiness(getRefundTemplateData(refundData), business), template);
+    const result = await printDocument(document, {
+      printerName,
+      paperWidth: template.paperWidth || paperWidth,
+      copies,
+      silent,
+      job: {
+        job_type: 'refund',
+        title: refundData.refund_type === 'void' ? 'Void receipt' : 'Refund receipt',
+        reference_type: 'refund',
+        reference_id: refundData.id,
+        reference_label: refundData.refund_number,
+        template_type: 'refund',
+      },
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[PrintService] Refund receipt printed successfully in ${duration}ms`);
+    return result;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[PrintService] Refund receipt print failed after ${duration}ms:`, error);
+
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(
+      `Failed to print refund receipt: ${error.message}`,
+      'UNKNOWN_ERROR',
+      false
+    );
+  }
+};
+
+/**
+ * Open the cash drawer without a sale by printing a NO SALE slip
+ * On an ESC/POS printer the slip carries the drawer kick itself.
+ * @param {Object} drawerData - { user_name, approved_by_name, reason }
+ * @param {Object} [options] - Printer options ({ printerName, paperWidth, copies, silent, business }, as for printCustomerReceipt)
+ * @returns {Promise<Object>} Result object
+ */
+export const openCashDrawer = async (drawerData, { printerName = null, paperWidth, copies, silent, business } = {}) => {
+  const startTime = Date.now();
+  console.log('[PrintService] No-sale drawer open requested by:', drawerData?.user_name);
+
+  try {
+    const { business_name: businessName } = withBusiness({}, business);
+    const result = await printDocument({
+      html: () => getNoSaleHTML(drawerData, businessName),
+      escpos: (width) => getNoSaleEscPos(drawerData, businessName, width),
+    }, {
+      printerName,
+      paperWidth,
+      copies,
+      silent,
+      job: { job_type: 'no_sale', title: drawerData?.user_name ? `No-sale slip - ${drawerData.user_name}` : 'No-sale slip' },
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[PrintService] No-sale slip printed successfully in ${duration}ms`);
+    return result;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[PrintService] No-sale slip print failed after ${duration}ms:`, error);
+
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(
+      `Failed to open cash drawer: ${error.message}`,
+      'UNKNOWN_ERROR',
+      false
+    );
+  }
+};
+
+/**
+ * Print a test page on a printer, saved or not; test pages aren't logged as print jobs
+ * @param {Object} printer - { name, printerName, paperWidth, silent, roles }
+ * @param {Object} [options] - { business }
+ * @returns {Promise<Object>} Result object
+ */
+export const printTestPage = async (printer, { business } = {}) => {
+  console.log('[PrintService] Test page requested for:', printer?.name || printer?.printerName || 'default printer');
+
+  try {
+    const { business_name: businessName } = withBusiness({}, business);
+    const page = { ...printer, paperWidth: printer.paperWidth === 58 ? 58 : 80 };
+    return await printDocument({
+      html: () => getTestPageHTML(page, businessName),
+      escpos: () => getTestPageEscPos(page, businessName),
+    }, { printerName: page.printerName || null, paperWidth: page.paperWidth, silent: page.silent !== false });
+  } catch (error) {
+    console.error('[PrintService] Test page failed:', error);
+
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(
+      `Failed to print test page: ${error.message}`,
+      'UNKNOWN_ERROR',
+      false
+    );
+  }
+};
+
+/**
+ * Print product labels, one copy per label
+ * @param {Object} label - Label contents (see labelService.getLabelData)
+ * @param {Object} options - Label options
+ * @param {number} options.count - Labels to print
+ * @param {Object} options.size - { width_mm, height_mm }, for labels printed through the OS driver
+ * @param {string|null} [options.printerName] - Printer to use (null = default printer)
+ * @param {number} [options.paperWidth] - Paper width in mm, for ESC/POS
+ * @param {boolean} [options.silent] - Print without the print dialog
+ * @param {Object} [options.business] - Business details (see templateService.getBusinessDetails)
+ * @returns {Promise<Object>} Result object
+ */
+export const printLabels = async (label, { count, size, printerName = null, paperWidth, silent, business } = {}) => {
+  const startTime = Date.now();
+  console.log(`[PrintService] ${count} label(s) requested for:`, label?.name);
+
+  try {
+    if (!label?.name || !label.barcode) {
+      throw new PrintError('Invalid label data', 'INVALID_DATA');
+    }
+    const { business_name: businessName } = withBusiness({}, business);
+    const result = await printDocument({
+      html: () => getLabelHTML(label, size, businessName),
+      escpos: (width) => getLabelEscPos(label, businessName, width),
+    }, {
+      printerName,
+      paperWidth,
+      copies: count,
+      silent,
+      job: {
+        job_type: 'label',
+        title: `Labels - ${label.name}`,
+        reference_type: label.batch_id ? 'batch' : 'menu_item',
+        reference_id: label.batch_id || label.menu_item_id,
+        reference_label: label.batch_number || label.name,
+      },
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[PrintService] Labels printed successfully in ${duration}ms`);
+    return result;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[PrintService] Label print failed after ${duration}ms:`, error);
+
+    if (error instanceof PrintError) {
+      throw error;
+    }
+    throw new PrintError(
+      `Failed to print labels: ${error.message}`,
+      'UNKNOWN_ERROR',
+      false
+    );
+  }
+};
+
+/**
+ * Send a failed job again, exactly as it was made, and log the attempts on the same job
+ * @param {number} id - Job ID
+ * @returns {Promise<Object>} Result object with the job ID
+ */
+export const retryPrintJob = async (id) => {
+  const job = getPrintJobById(id);
+  if (!job) {
+    throw new PrintError('Print job not found', 'NOT_FOUND');
+  }
+  if (job.status !== 'failed') {
+    throw new PrintError('Only failed print jobs can be retried', 'INVALID_DATA');
+  }
+  console.log(`[PrintService] Retrying print job ${id}: ${job.title}`);
+  // Queued again straight away, so a second click can't send it twice
+  setPrintJobStatus(id, 'queued');
+
+  return runPrintJob(id, job, () => sendPrintOutput(job, job.printer_name, { copies: job.copies || 1, silent: job.silent !== 0 }));
+};
+
+/**
+ * Print a past job again, exactly as it was made, on the printer it went to; logged as a new job
+ * The drawer kick of a receipt or no-sale slip is left out.
+ * @param {number} id - Job ID
+ * @returns {Promise<Object>} Result object with the new job's ID
+ */
+export const reprintPrintJob = async (id) => {
+  const original = getPrintJobById(id);
+  if (!original) {
+    throw new PrintError('Print job not found', 'NOT_FOUND');
+  }
+  console.log(`[PrintService] Reprinting print job ${id}: ${original.title}`);
+
+  const output = {
+    output_format: original.output_format,
+    content: original.content,
+    raw_content: original.raw_content ? withoutDrawerKick(Buffer.from(original.raw_content)) : null,
+  };
+  const job = {
+    job_type: original.job_type,
+    title: original.title,
+    reference_type: original.reference_type,
+    reference_id: original.reference_id,
+    reference_label: original.reference_label,
+    template_type: original.template_type,
+    reprint_of: original.reprint_of || original.id,
+  };
+  // One copy, however many the original printed
+  const silent = original.silent !== 0;
+  const jobId = recordPrintJob({ ...job, ...output, printer_name: original.printer_name, paper_width: original.paper_width, copies: 1, silent: silent ? 1 : 0 });
+
+  return runPrintJob(jobId, job, () => sendPrintOutput(output, original.printer_name, { silent }));
+};
+
+/**
+ * Be told when a logged job fails for good (after its automatic retries)
+ * @param {Function|null} listener - Called with { id, job_type, title, reference_label, error }
+ */
+export const setPrintJobFailureListener = (listener) => {
+  printJobFailureListener = listener;
+};
+
+/**
+ * Render a template with example data for the template editor
+ * @param {string} type - receipt, refund, kitchen or z_report
+ * @param {Object} sampleData - Data shaped like the print handler's (see templateService.getTemplateSampleData)
+ * @param {Object} options - { body, paperWidth, logoPath, business }
+ * @returns {string} HTML document; template errors are thrown
+ */
+export const renderTemplatePreview = (type, sampleData, { body, paperWidth = 80, logoPath = null, business } = {}) => {
+  const data = withBusiness(TEMPLATE_DATA[type](sampleData), business);
+  return renderTemplateHTML(renderTemplate(body, data), { paperWidth, logoPath });
+};
+
+/**
+ * Render a product label as it prints through the OS driver, for the print dialog's preview
+ * @param {Object} label - Label contents (see labelService.getLabelData)
+ * @param {Object} options - { size, business }
+ * @returns {string} HTML document
+ */
+export const renderLabelPreview = (label, { size, business } = {}) => {
+  const { business_name: businessName } = withBusiness({}, business);
+  return getLabelHTML(label, size, businessName);
+};
+
+/**
+ * Render a receipt, refund slip or Z-report as a PDF, with the same template as the printout
+ * @param {string} type - receipt, refund or z_report
+ * @param {Object} data - Data as sent to the matching print function
+ * @param {Object} [options] - { paperWidth, template, business }, as for printCustomerReceipt
+ * @returns {Promise<Buffer>} PDF file
+ */
+export const renderPDF = async (type, data, { paperWidth = 80, template = {}, business } = {}) => {
+  if (!TEMPLATE_DATA[type] || type === 'kitchen') {
+    throw new PrintError(`No PDF layout for ${type}`, 'INVALID_DATA');
+  }
+  const width = template.paperWidth || paperWidth;
+  const document = getTemplateDocument(type, withBusiness(TEMPLATE_DATA[type](data), business), template);
+  return renderHTMLToPDF(document.html(width), { paperWidth: width });
+};
+
 /**
  * Get print queue status (for debugging/monitoring)
  * @returns {Object} Queue status
@@ -0,0 +1,221 @@
+// Printer service for handling the configured printers and which printouts each one takes
+import { dbQuery } from './databaseService.js';
+import { parseRawTarget } from './escposService.js';
+
+// receipt: receipts, refunds and the cash drawer; kitchen: tickets without a station printer;
+// labels: product labels; reports: Z-reports
+export const PRINTER_ROLES = ['receipt', 'kitchen', 'labels', 'reports'];
+
+const MAX_COPIES = 5;
+
+/**
+ * This till's terminal ID, for printers set up for one till only
+ * @returns {string} Upper-cased terminal ID, or '' when not set
+ */
+function getTerminalId() {
+  const row = dbQuery("SELECT value FROM settings WHERE key = 'terminal_id'")[0];
+  return (row?.value || '').trim().toUpperCase();
+}
+
+/**
+ * Shape a printers row for callers
+ * @param {Object} row - printers row
+ * @returns {Object} Printer with roles as an array and silent as a boolean
+ */
+function toPrinter(row) {
+  let roles = [];
+  try {
+    roles = JSON.parse(row.roles || '[]');
+  } catch (_) {
+    // A hand-edited row; treat it as having no roles
+  }
+  return {
+    ...row,
+    roles: Array.isArray(roles) ? roles.filter(role => PRINTER_ROLES.includes(role)) : [],
+    silent: !!row.silent,
+  };
+}
+
+/**
+ * Check printer details before saving
+ * @param {Object} printerData - Printer details
+ * @returns {Object} Cleaned details
+ */
+function validatePrinter(printerData) {
+  const { name, connection_type, device_name, roles = [], paper_width = 80, copies = 1, silent = true, terminal_id } = printerData;
+  if (!name || !name.trim()) {
+    throw new Error('Printer name is required');
+  }
+  if (!['system', 'escpos'].includes(connection_type)) {
+    throw new Error('Printer type must be system or escpos');
+  }
+  const device = (device_name || '').trim();
+  if (!device) {
+    throw new Error(connection_type === 'escpos' ? 'Printer address is required' : 'Choose a system printer');
+  }
+  if (connection_type === 'escpos' && !parseRawTarget(device)) {
+    throw new Error('ESC/POS printers need an IP address[:port], tcp://host:port or a device path such as /dev/usb/lp0 or COM3');
+  }
+  if (connection_type === 'system' && parseRawTarget(device)) {
+    throw new Error(`"${device}" is a network address or device path; add it as an ESC/POS printer`);
+  }
+  if (![58, 80].includes(Number(paper_width))) {
+    throw new Error('Paper width must be 58 or 80 mm');
+  }
+  const copyCount = parseInt(copies, 10);
+  if (!copyCount || copyCount < 1 || copyCount > MAX_COPIES) {
+    throw new Error(`Copies must be between 1 and ${MAX_COPIES}`);
+  }
+  const unknownRole = (roles || []).find(role => !PRINTER_ROLES.includes(role));
+  if (unknownRole) {
+    throw new Error(`Unknown printer role: ${unknownRole}`);
+  }
+
+  return {
+    name: name.trim(),
+    connection_type,
+    device_name: device,
+    roles: JSON.stringify(PRINTER_ROLES.filter(role => (roles || []).includes(role))),
+    paper_width: Number(paper_width),
+    copies: copyCount,
+    silent: silent === false ? 0 : 1,
+    terminal_id: terminal_id ? String(terminal_id).trim().toUpperCase() || null : null,
+  };
+}
+
+/**
+ * Get all configured printers
+ * @returns {Promise<Array>} Printers, by name
+ */
+export function getAllPrinters() {
+  try {
+    return dbQuery('SELECT * FROM printers ORDER BY name').map(toPrinter);
+  } catch (error) {
+    console.error('Error getting printers:', error);
+    throw new Error('Failed to retrieve printers');
+  }
+}
+
+/**
+ * Get a printer by ID
+ * @param {number} id - Printer ID
+ * @returns {Promise<Object|null>} Printer, or null when not found
+ */
+export function getPrinterById(id) {
+  try {
+    const row = dbQuery('SELECT * FROM printers WHERE id = ?', [id])[0];
+    return row ? toPrinter(row) : null;
+  } catch (error) {
+    console.error('Error getting printer:', error);
+    throw new Error('Failed to retrieve printer');
+  }
+}
+
+/**
+ * Add a printer
+ * @param {Object} printerData - Printer details
+ * @param {string} printerData.name - Name shown in the app (unique)
+ * @param {string} printerData.connection_type - 'system' (OS printer) or 'escpos' (network address or device path)
+ * @param {string} printerData.device_name - OS printer name, or the ESC/POS address
+ * @param {string[]} [printerData.roles] - Printouts it takes (see PRINTER_ROLES)
+ * @param {number} [printerData.paper_width] - 58 or 80 mm
+ * @param {number} [printerData.copies] - Copies of each printout
+ * @param {boolean} [printerData.silent] - Print without the print dialog
+ * @param {string|null} [printerData.terminal_id] - Till that uses it (null = every till)
+ * @returns {Promise<Object>} Created printer
+ */
+export function createPrinter(printerData) {
+  const printer = validatePrinter(printerData);
+  try {
+    const result = dbQuery(
+      `INSERT INTO printers (name, connection_type, device_name, roles, paper_width, copies, silent, terminal_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [printer.name, printer.connection_type, printer.device_name, printer.roles, printer.paper_width, printer.copies, printer.silent, printer.terminal_id]
+    );
+    return getPrinterById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error creating printer:', error);
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      throw new Error('A printer with this name already exists');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a printer
+ * @param {number} id - Printer ID
+ * @param {Object} printerData - Printer details (as for createPrinter)
+ * @returns {Promise<Object>} Updated printer
+ */
+export function updatePrinter(id, printerData) {
+  const printer = validatePrinter(printerData);
+  try {
+    dbQuery(
+      `UPDATE printers SET name = ?, connection_type = ?, device_name = ?, roles = ?, paper_width = ?, copies = ?, silent = ?,
+         terminal_id = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [printer.name, printer.connection_type, printer.device_name, printer.roles, printer.paper_width, printer.copies, printer.silent, printer.terminal_id, id]
+    );
+    return getPrinterById(id);
+  } catch (error) {
+    console.error('Error updating printer:', error);
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      throw new Error('A printer with this name already exists');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a printer; its printouts go to the next printer with the role, or the default printer
+ * @param {number} id - Printer ID
+ * @returns {Promise<boolean>} Success status
+ */
+export function deletePrinter(id) {
+  try {
+    dbQuery('DELETE FROM printers WHERE id = ?', [id]);
+    return true;
+  } catch (error) {
+    console.error('Error deleting printer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Printers this till can use, its own ones first
+ * @returns {Array} Printers
+ */
+function getTerminalPrinters() {
+  const terminalId = getTerminalId();
+  return getAllPrinters()
+    .filter(printer => !printer.terminal_id || printer.terminal_id === terminalId)
+    .sort((a, b) => (a.terminal_id ? 0 : 1) - (b.terminal_id ? 0 : 1) || a.id - b.id);
+}
+
+/**
+ * Print options for the print service
+ * A printout with its own printer (a prep station's, say) uses that printer's setup when it is a
+ * configured printer, by name or address; otherwise it goes to this till's printer for the role.
+ * With neither, it goes silently to the OS default printer on 80 mm paper.
+ * @param {string|null} printerName - Printer named for the printout, if any
+ * @param {string} role - receipt, kitchen, labels or reports
+ * @returns {Object} { printerName, paperWidth, copies, silent }
+ */
+export function getPrintOptions(printerName, role) {
+  const printers = getTerminalPrinters();
+  const name = (printerName || '').trim();
+  const printer = name
+    ? printers.find(p => p.name === name || p.device_name === name)
+    : printers.find(p => p.roles.includes(role));
+
+  if (!printer) {
+    return { printerName: name || null, paperWidth: 80, copies: 1, silent: true };
+  }
+  return {
+    printerName: printer.device_name,
+    paperWidth: printer.paper_width,
+    copies: printer.copies,
+    silent: printer.silent,
+  };
+}
@@ -0,0 +1,355 @@
+// Recipe service for handling menu item recipes and the stock sales use up
+import { dbQuery, getDatabase } from './databaseService.js';
+
+// Orders that count as sales: paid or completed, not voided
+const isSold = (order) =>
+  order.status !== 'cancelled' &&
+  (order.status === 'completed' || ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status));
+
+// Stock quantities are kept to a thousandth of a unit
+const roundQuantity = (quantity) => Math.round(quantity * 1000) / 1000;
+
+// ============================================================================
+// Recipes
+// ============================================================================
+
+/**
+ * Get a menu item's recipe
+ * Rows without a size_name are the base recipe; a row for a size replaces the base quantity of that ingredient
+ * for that size (0 = the size doesn't use it).
+ * @param {number} menuItemId - Menu item ID
+ * @returns {Promise<Array>} Recipe rows with their ingredient's name, unit, stock and cost
+ */
+export function getRecipe(menuItemId) {
+  try {
+    return dbQuery(
+      `SELECT mii.*, inv.name as inventory_item_name, inv.unit as inventory_unit, inv.current_stock, inv.cost_per_unit
+       FROM menu_item_ingredients mii
+       JOIN inventory_items inv ON mii.inventory_item_id = inv.id
+       WHERE mii.menu_item_id = ?
+       ORDER BY inv.name, mii.size_name IS NOT NULL, mii.size_name`,
+      [menuItemId]
+    );
+  } catch (error) {
+    console.error('Error getting recipe:', error);
+    throw new Error('Failed to retrieve recipe');
+  }
+}
+
+/**
+ * Replace a menu item's recipe
+ * @param {number} menuItemId - Menu item ID
+ * @param {Array<{inventory_item_id: number, size_name?: string|null, quantity_required: number, unit?: string}>} rows - Recipe rows
+ * @returns {Promise<Array>} Saved recipe
+ */
+export function saveRecipe(menuItemId, rows = []) {
+  try {
+    const item = dbQuery('SELECT id FROM menu_items WHERE id = ?', [menuItemId])[0];
+    if (!item) {
+      throw new Error('Menu item not found');
+    }
+
+    const sizeNames = dbQuery('SELECT name FROM menu_item_sizes WHERE menu_item_id = ?', [menuItemId]).map(size => size.name);
+    const seen = new Set();
+    const cleaned = rows.map((row) => {
+      const ingredient = dbQuery('SELECT id, name, unit FROM inventory_items WHERE id = ?', [row.inventory_item_id])[0];
+      if (!ingredient) {
+        throw new Error('One of the ingredients is no longer in inventory');
+      }
+      const sizeName = row.size_name?.trim() || null;
+      if (sizeName && !sizeNames.includes(sizeName)) {
+        throw new Error(`${sizeName} is not one of this item's sizes`);
+      }
+      const quantity = Number(row.quantity_required);
+      if (row.quantity_required === '' || row.quantity_required === null || isNaN(quantity) || quantity < 0) {
+        throw new Error(`Enter how much ${ingredient.name} the recipe uses`);
+      }
+      const key = `${ingredient.id}:${sizeName || ''}`;
+      if (seen.has(key)) {
+        throw new Error(`${ingredient.name} is in the recipe twice${sizeName ? ` for ${sizeName}` : ''}`);
+      }
+      seen.add(key);
+      return {
+        inventory_item_id: ingredient.id,
+        size_name: sizeName,
+        quantity_required: roundQuantity(quantity),
+        unit: row.unit?.trim() || ingredient.unit || null,
+      };
+    });
+
+    const db = getDatabase();
+    db.transaction(() => {
+      db.prepare('DELETE FROM menu_item_ingredients WHERE menu_item_id = ?').run(menuItemId);
+      const insert = db.prepare(
+        'INSERT INTO menu_item_ingredients (menu_item_id, inventory_item_id, size_name, quantity_required, unit) VALUES (?, ?, ?, ?, ?)'
+      );
+      for (const row of cleaned) {
+        insert.run(menuItemId, row.inventory_item_id, row.size_name, row.quantity_required, row.unit);
+      }
+    })();
+
+    return getRecipe(menuItemId);
+  } catch (error) {
+    console.error('Error saving recipe:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ingredients one unit of an item uses in a size
+ * @param {number} menuItemId - Menu item ID
+ * @param {string|null} sizeName - Size sold (null = no size)
+ * @returns {Array<{inventory_item_id: number, quantity: number}>} Quantities above zero
+ */
+function getUnitUsage(menuItemId, sizeName) {
+  const usage = new Map();
+  const rows = dbQuery(
+    'SELECT inventory_item_id, size_name, quantity_required FROM menu_item_ingredients WHERE menu_item_id = ? AND (size_name IS NULL OR size_name = ?)',
+    [menuItemId, sizeName || '']
+  );
+  // Base rows first so a size's own quantity wins
+  for (const row of rows.filter(r => r.size_name === null)) {
+    usage.set(row.inventory_item_id, row.quantity_required);
+  }
+  for (const row of rows.filter(r => r.size_name !== null)) {
+    usage.set(row.inventory_item_id, row.quantity_required);
+  }
+  return [...usage]
+    .filter(([, quantity]) => quantity > 0)
+    .map(([inventory_item_id, quantity]) => ({ inventory_item_id, quantity }));
+}
+
+// ============================================================================
+// Stock usage of sales
+// ============================================================================
+
+/**
+ * Stock a sold line still holds: what its sale took out less what refunds, voids and removed lines gave back
+ * @param {number} orderItemId - Order line ID
+ * @returns {Array<{inventory_item_id: number, quantity: number}>} Quantities above zero
+ */
+function getLineUsage(orderItemId) {
+  return dbQuery(
+    `SELECT inventory_item_id,
+       SUM(CASE WHEN transaction_type = 'out' THEN quantity ELSE -quantity END) as quantity
+     FROM inventory_transactions
+     WHERE order_item_id = ?
+       AND ((transaction_type = 'out' AND reference_type = 'order')
+         OR (transaction_type = 'in' AND reference_type IN ('order', 'refund')))
+     GROUP BY inventory_item_id
+     HAVING SUM(CASE WHEN transaction_type = 'out' THEN quantity ELSE -quantity END) > 0.0005`,
+    [orderItemId]
+  );
+}
+
+/**
+ * Write a stock movement and apply it to the ingredient's stock
+ * @param {Object} movement - inventory_transactions row
+ */
+function postMovement(movement) {
+  const db = getDatabase();
+  const quantity = roundQuantity(movement.quantity);
+  db.prepare(
+    `INSERT INTO inventory_transactions (inventory_item_id, transaction_type, quantity, unit_cost, reference_type, reference_id, order_item_id, notes, created_by)
+     VALUES (?, ?, ?, (SELECT cost_per_unit FROM inventory_items WHERE id = ?), ?, ?, ?, ?, ?)`
+  ).run(
+    movement.inventory_item_id,
+    movement.transaction_type,
+    quantity,
+    movement.inventory_item_id,
+    movement.reference_type,
+    movement.reference_id,
+    movement.order_item_id,
+    movement.notes || null,
+    movement.created_by || null
+  );
+  const change = movement.transaction_type === 'in' ? quantity : -quantity;
+  db.prepare('UPDATE inventory_items SET current_stock = current_stock + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+    .run(change, movement.inventory_item_id);
+}
+
+/**
+ * Bring an order's stock usage up to date. Safe to call after any change to the order.
+ * Once the order counts as a sale, each line not yet posted takes its recipe out of stock ('out', reference_type 'order').
+ * Lines taken off the order, and every line of a cancelled order, give back what they still hold.
+ * @param {number} orderId - Order ID
+ * @returns {Promise<{posted: number, returned: number}>} Movements written
+ */
+export function postOrderUsage(orderId) {
+  try {
+    const order = dbQuery(
+      `SELECT o.*, u.username FROM orders o LEFT JOIN users u ON o.user_id = u.id WHERE o.id = ?`,
+      [orderId]
+    )[0];
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const lines = dbQuery('SELECT * FROM order_items WHERE order_id = ? ORDER BY id', [orderId]);
+    const lineIds = new Set(lines.map(line => line.id));
+    const postedLineIds = new Set(
+      dbQuery(
+        `SELECT DISTINCT order_item_id FROM inventory_transactions
+         WHERE reference_type = 'order' AND reference_id = ? AND transaction_type = 'out' AND order_item_id IS NOT NULL`,
+        [orderId]
+      ).map(row => row.order_item_id)
+    );
+
+    const result = { posted: 0, returned: 0 };
+    const db = getDatabase();
+    db.transaction(() => {
+      const returnLine = (orderItemId, notes) => {
+        for (const usage of getLineUsage(orderItemId)) {
+          postMovement({
+            inventory_item_id: usage.inventory_item_id,
+            transaction_type: 'in',
+            quantity: usage.quantity,
+            reference_type: 'order',
+            reference_id: orderId,
+            order_item_id: orderItemId,
+            notes,
+            created_by: order.username,
+          });
+          result.returned++;
+        }
+      };
+
+      for (const orderItemId of postedLineIds) {
+        if (order.status === 'cancelled') {
+          returnLine(orderItemId, `${order.order_number} cancelled`);
+        } else if (!lineIds.has(orderItemId)) {
+          returnLine(orderItemId, `Line removed from ${order.order_number}`);
+        }
+      }
+
+      if (!isSold(order)) return;
+      for (const line of lines) {
+        const quantity = (line.quantity || 0) - (line.refunded_quantity || 0);
+        if (postedLineIds.has(line.id) || !line.menu_item_id || quantity <= 0) continue;
+        for (const usage of getUnitUsage(line.menu_item_id, line.size_name)) {
+          postMovement({
+            inventory_item_id: usage.inventory_item_id,
+            transaction_type: 'out',
+            quantity: usage.quantity * quantity,
+            reference_type: 'order',
+            reference_id: orderId,
+            order_item_id: line.id,
+            notes: `Sold on ${order.order_number}`,
+            created_by: order.username,
+          });
+          result.posted++;
+        }
+      }
+    })();
+
+    return result;
+  } catch (error) {
+    console.error('Error posting order stock usage:', error);
+    throw error;
+  }
+}
+
+/**
+ * Give back a refunded share of a line's stock usage. Runs inside the refund's transaction.
+ * Restocked units go back on the shelf; the rest were thrown away, so their usage moves from sales to waste.
+ * @param {Object} refund - What was refunded
+ * @param {Object} refund.line - Order line as it was before this refund
+ * @param {number} refund.quantity - Units refunded
+ * @param {boolean} refund.restock - Whether the units went back to stock
+ * @param {number} refund.refund_id - Refund ID
+ * @param {string} refund.refund_number - Refund number, for the notes
+ * @param {string|null} [refund.username] - User processing the refund
+ * @returns {number} Ingredients returned
+ */
+export function returnRefundedUsage({ line, quantity, restock, refund_id, refund_number, username = null }) {
+  const remaining = (line.quantity || 0) - (line.refunded_quantity || 0);
+  if (remaining <= 0 || quantity <= 0) return 0;
+
+  const usages = getLineUsage(line.id);
+  for (const usage of usages) {
+    const share = (usage.quantity * Math.min(quantity, remaining)) / remaining;
+    const movement = {
+      inventory_item_id: usage.inventory_item_id,
+      quantity: share,
+      reference_type: 'refund',
+      reference_id: refund_id,
+      order_item_id: line.id,
+      created_by: username,
+    };
+    postMovement({ ...movement, transaction_type: 'in', notes: `Returned by ${refund_number}` });
+    if (!restock) {
+      postMovement({ ...movement, transaction_type: 'waste', notes: `Refunded on ${refund_number}, not returned to stock` });
+    }
+  }
+  return usages.length;
+}
+
+/**
+ * Theoretical vs actual stock usage per ingredient
+ * Theoretical is what recipes say the period's sales used, net of refunds. Actual comes from stock levels:
+ * opening stock + received − closing stock, so shrinkage found by stock counts shows up in the variance
+ * next to logged waste. Stock levels at the period's edges are worked back from the current stock.
+ * @param {string} [startDate] - Start date (YYYY-MM-DD)
+ * @param {string} [endDate] - End date (YYYY-MM-DD)
+ * @returns {Promise<Array>} Ingredients with opening_stock, received, closing_stock, actual, theoretical, waste, variance and variance_cost
+ */
+export function getUsageReport(startDate, endDate) {
+  try {
+    const hasPeriod = Boolean(startDate && endDate);
+    const inPeriod = hasPeriod ? `date(it.created_at, 'localtime') BETWEEN ? AND ?` : '1';
+    const afterPeriod = hasPeriod ? `date(it.created_at, 'localtime') > ?` : '0';
+    // How each movement changed the stock level (adjustments carry their own sign)
+    const stockChange = `CASE
+         WHEN it.transaction_type IN ('in', 'adjustment') THEN it.quantity
+         WHEN it.transaction_type IN ('out', 'waste') THEN -it.quantity
+         ELSE 0 END`;
+
+    const query = `SELECT inv.id as inventory_item_id, inv.name, inv.unit, inv.cost_per_unit, inv.current_stock,
+       COALESCE(SUM(CASE WHEN ${inPeriod} THEN CASE
+         WHEN it.transaction_type = 'out' AND it.reference_type = 'order' THEN it.quantity
+         WHEN it.transaction_type = 'in' AND it.reference_type IN ('order', 'refund') AND it.order_item_id IS NOT NULL THEN -it.quantity
+         ELSE 0 END END), 0) as theoretical,
+       COALESCE(SUM(CASE WHEN ${inPeriod} AND it.transaction_type = 'waste' THEN it.quantity END), 0) as waste,
+       COALESCE(SUM(CASE WHEN ${inPeriod} AND it.transaction_type = 'in'
+         AND COALESCE(it.reference_type, '') NOT IN ('order', 'refund') THEN it.quantity END), 0) as received,
+       COALESCE(SUM(CASE WHEN ${inPeriod} THEN ${stockChange} END), 0) as period_change,
+       COALESCE(SUM(CASE WHEN ${afterPeriod} THEN ${stockChange} END), 0) as later_change
+     FROM inventory_items inv
+     LEFT JOIN inventory_transactions it ON it.inventory_item_id = inv.id
+     GROUP BY inv.id
+     ORDER BY inv.name`;
+    // Placeholders in the order they appear: four in-period sums, then the after-period one
+    const params = hasPeriod
+      ? [...Array(4).fill([startDate, endDate]).flat(), endDate]
+      : [];
+
+    return dbQuery(query, params)
+      .map((row) => {
+        const closingStock = roundQuantity((row.current_stock || 0) - row.later_change);
+        const openingStock = roundQuantity(closingStock - row.period_change);
+        const received = roundQuantity(row.received);
+        const theoretical = roundQuantity(row.theoretical);
+        const actual = roundQuantity(openingStock + received - closingStock);
+        const variance = roundQuantity(actual - theoretical);
+        return {
+          inventory_item_id: row.inventory_item_id,
+          name: row.name,
+          unit: row.unit,
+          cost_per_unit: row.cost_per_unit,
+          current_stock: row.current_stock,
+          opening_stock: openingStock,
+          received,
+          closing_stock: closingStock,
+          actual,
+          theoretical,
+          waste: roundQuantity(row.waste),
+          variance,
+          variance_cost: Math.round(variance * (row.cost_per_unit || 0) * 100) / 100,
+        };
+      })
+      .filter(row => row.theoretical !== 0 || row.actual !== 0 || row.received !== 0);
+  } catch (error) {
+    console.error('Error getting stock usage report:', error);
+    throw new Error('Failed to retrieve stock usage');
+  }
+}
@@ -0,0 +1,308 @@
+// Refund service for handling refunds and voids of orders
+import { dbQuery, getDatabase } from './databaseService.js';
+import { getCurrentShift } from './shiftService.js';
+import { isActionGuarded, getUsableOverride, markOverrideUsed } from './overrideService.js';
+import { returnRefundedUsage } from './recipeService.js';
+
+const REFUND_TYPES = ['refund', 'void'];
+const REFUND_METHODS = ['cash', 'card', 'mobile'];
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Get a refund with its lines
+ * @param {number} id - Refund ID
+ * @returns {Promise<Object|null>} Refund or null if not found
+ */
+export function getRefundById(id) {
+  try {
+    const results = dbQuery(
+      `SELECT r.*, o.order_number, o.pickup_number, u.full_name as user_name, u.username,
+         a.full_name as approved_by_name, a.username as approved_by_username
+       FROM refunds r
+       JOIN orders o ON r.order_id = o.id
+       LEFT JOIN users u ON r.user_id = u.id
+       LEFT JOIN users a ON r.approved_by = a.id
+       WHERE r.id = ?`,
+      [id]
+    );
+    if (results.length === 0) {
+      return null;
+    }
+
+    const items = dbQuery(
+      `SELECT ri.*, oi.menu_item_id, oi.price, mi.name
+       FROM refund_items ri
+       JOIN order_items oi ON ri.order_item_id = oi.id
+       LEFT JOIN menu_items mi ON oi.menu_item_id = mi.id
+       WHERE ri.refund_id = ?
+       ORDER BY ri.id`,
+      [id]
+    );
+
+    return { ...results[0], items };
+  } catch (error) {
+    console.error('Error getting refund by ID:', error);
+    throw new Error('Failed to retrieve refund');
+  }
+}
+
+/**
+ * Get all refunds and voids of an order, oldest first
+ * @param {number} orderId - Order ID
+ * @returns {Promise<Array>} Array of refunds with their lines
+ */
+export function getOrderRefunds(orderId) {
+  try {
+    const refunds = dbQuery('SELECT id FROM refunds WHERE order_id = ? ORDER BY created_at, id', [orderId]);
+    return refunds.map(r => getRefundById(r.id));
+  } catch (error) {
+    console.error('Error getting order refunds:', error);
+    throw new Error('Failed to retrieve refunds');
+  }
+}
+
+/**
+ * Get refunds and voids processed in a date range (used by reports)
+ * @param {string} [startDate] - Start date (YYYY-MM-DD)
+ * @param {string} [endDate] - End date (YYYY-MM-DD)
+ * @returns {Promise<Array>} Array of refunds, newest first
+ */
+export function getRefunds(startDate, endDate) {
+  try {
+    let query = `SELECT r.*, o.order_number, o.status as order_status, u.full_name as user_name, u.username
+       FROM refunds r
+       JOIN orders o ON r.order_id = o.id
+       LEFT JOIN users u ON r.user_id = u.id`;
+    const params = [];
+
+    if (startDate && endDate) {
+      query += ' WHERE DATE(r.created_at) BETWEEN ? AND ?';
+      params.push(startDate, endDate);
+    }
+
+    query += ' ORDER BY r.created_at DESC, r.id DESC';
+    return dbQuery(query, params);
+  } catch (error) {
+    console.error('Error getting refunds:', error);
+    throw new Error('Failed to retrieve refunds');
+  }
+}
+
+/**
+ * Amount actually taken for an order: the tender lines, or the order total for orders paid before split tenders
+ * @param {Object} order - Order row
+ * @returns {number} Paid amount
+ */
+function getPaidAmount(order) {
+  const payments = dbQuery('SELECT COUNT(*) as count, COALESCE(SUM(amount), 0) as total FROM order_payments WHERE order_id = ?', [order.id])[0];
+  if (payments.count > 0) {
+    return payments.total;
+  }
+  return ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status) ? order.total_amount || 0 : 0;
+}
+
+/**
+ * Value of one unit of a line as charged, after discounts and including tax.
+ * Lines saved before per-line tax fall back to their share of the order total.
+ * @param {Object} line - Order item row
+ * @param {Object} order - Order row
+ * @param {number} linesSubtotal - Sum of all line subtotals on the order
+ * @returns {{amount: number, tax: number}} Per-unit amount and tax
+ */
+function getUnitValue(line, order, linesSubtotal) {
+  const quantity = line.quantity || 1;
+  const charged = (line.taxable_amount || 0) + (line.tax_amount || 0);
+  if (charged > 0) {
+    return {
+      amount: charged / quantity,
+      tax: (line.tax_amount || 0) / quantity,
+    };
+  }
+  const share = linesSubtotal > 0 ? (line.subtotal || 0) / linesSubtotal : 0;
+  return {
+    amount: (share * (order.total_amount || 0)) / quantity,
+    tax: (share * (order.tax_amount || 0)) / quantity,
+  };
+}
+
+/**
+ * Refund lines of an order (partial or full) or void the whole order.
+ * Updates the order's refunded totals and payment status, writes cash refunds to the open shift
+ * and gives back the refunded share of each line's stock usage (to stock for lines marked restock, otherwise as waste).
+ * @param {Object} refundData - Refund data
+ * @param {number} refundData.order_id - Order ID (required)
+ * @param {string} refundData.refund_type - 'refund' or 'void'
+ * @param {Array<{order_item_id: number, quantity: number, restock?: boolean}>} [refundData.items] - Lines to refund (a void always takes every remaining unit)
+ * @param {string} [refundData.refund_method] - Tender the money goes back on (required when money is returned)
+ * @param {string} refundData.reason - Reason (required)
+ * @param {number} [refundData.user_id] - User processing the refund
+ * @param {number} [refundData.override_id] - Manager override approving it (required when the action is guarded; used up by the refund)
+ * @returns {Promise<Object>} Created refund with its lines
+ */
+export function processRefund(refundData) {
+  try {
+    const { order_id, refund_type, items = [], refund_method, reason, user_id, override_id } = refundData;
+
+    // Validation
+    if (!REFUND_TYPES.includes(refund_type)) {
+      throw new Error(`Invalid refund type. Must be one of: ${REFUND_TYPES.join(', ')}`);
+    }
+    if (!reason || !reason.trim()) {
+      throw new Error('A reason is required');
+    }
+
+    // Guarded actions carry the logged override for this order; the approver is taken from it
+    let approved_by = user_id || null;
+    const guarded = isActionGuarded(refund_type);
+    if (guarded) {
+      approved_by = getUsableOverride(override_id, refund_type, order_id).approved_by;
+    }
+
+    const order = dbQuery('SELECT * FROM orders WHERE id = ?', [order_id])[0];
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (order.status === 'cancelled') {
+      throw new Error('This order has already been voided');
+    }
+
+    const lines = dbQuery('SELECT * FROM order_items WHERE order_id = ? ORDER BY id', [order_id]);
+    const linesSubtotal = lines.reduce((sum, line) => sum + (line.subtotal || 0), 0);
+    const requested = new Map(items.map(item => [Number(item.order_item_id), item]));
+
+    // A void takes back every unit still on the order; a refund only the requested ones
+    const refundLines = [];
+    for (const line of lines) {
+      const remaining = (line.quantity || 0) - (line.refunded_quantity || 0);
+      const request = requested.get(line.id);
+      const quantity = refund_type === 'void' ? remaining : Math.floor(Number(request?.quantity) || 0);
+
+      if (quantity <= 0) continue;
+      if (quantity > remaining) {
+        throw new Error(`Only ${remaining} left to refund on one of the lines`);
+      }
+
+      const unit = getUnitValue(line, order, linesSubtotal);
+      refundLines.push({
+        line,
+        quantity,
+        amount: roundMoney(unit.amount * quantity),
+        tax_amount: roundMoney(unit.tax * quantity),
+        restock: !!request?.restock,
+      });
+    }
+    if (refund_type === 'refund' && refundLines.length === 0) {
+      throw new Error('Select at least one item to refund');
+    }
+
+    const paid = getPaidAmount(order);
+    const refundable = roundMoney(paid - (order.refunded_amount || 0));
+    if (refund_type === 'refund' && refundable <= 0) {
+      throw new Error('Nothing is left to refund on this order');
+    }
+
+    // Once every unit is back, refund whatever is left so rounding never strands a few cents
+    const unitsLeft = lines.reduce((sum, line) => sum + (line.quantity || 0) - (line.refunded_quantity || 0), 0);
+    const unitsRefunded = refundLines.reduce((sum, r) => sum + r.quantity, 0);
+    const linesTotal = roundMoney(refundLines.reduce((sum, r) => sum + r.amount, 0));
+    const amount = Math.max(0, unitsRefunded >= unitsLeft ? refundable : Math.min(linesTotal, refundable));
+    const taxAmount = roundMoney(refundLines.reduce((sum, r) => sum + r.tax_amount, 0));
+
+    if (amount > 0 && !REFUND_METHODS.includes(refund_method)) {
+      throw new Error(`Invalid refund method. Must be one of: ${REFUND_METHODS.join(', ')}`);
+    }
+
+    const shift = getCurrentShift();
+    if (amount > 0 && refund_method === 'cash' && !shift) {
+      throw new Error('Open a shift before giving a cash refund');
+    }
+
+    const refundedTotal = roundMoney((order.refunded_amount || 0) + amount);
+    let paymentStatus = order.payment_status;
+    if (refundedTotal > 0) {
+      paymentStatus = refundedTotal >= roundMoney(paid) ? 'refunded' : 'partially_refunded';
+    }
+
+    const user = user_id ? dbQuery('SELECT username FROM users WHERE id = ?', [user_id])[0] : null;
+
+    const db = getDatabase();
+    const transaction = db.transaction(() => {
+      const count = db.prepare('SELECT COUNT(*) as count FROM refunds WHERE order_id = ?').get(order_id).count;
+      let sequence = count + 1;
+      const taken = db.prepare('SELECT id FROM refunds WHERE refund_number = ?');
+      while (taken.get(`${order.order_number}-R${sequence}`)) {
+        sequence++;
+      }
+      const refundNumber = `${order.order_number}-R${sequence}`;
+
+      const result = db.prepare(
+        `INSERT INTO refunds (order_id, refund_number, refund_type, amount, tax_amount, refund_method, reason, user_id, approved_by, shift_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        order_id,
+        refundNumber,
+        refund_type,
+        amount,
+        taxAmount,
+        amount > 0 ? refund_method : null,
+        reason.trim(),
+        user_id || null,
+        approved_by,
+        shift?.id || null
+      );
+      const refundId = result.lastInsertRowid;
+
+      // One approval, one refund
+      if (guarded) {
+        markOverrideUsed(override_id, refundId);
+      }
+
+      const insertItem = db.prepare(
+        'INSERT INTO refund_items (refund_id, order_item_id, quantity, amount, tax_amount, restocked) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      const updateLine = db.prepare('UPDATE order_items SET refunded_quantity = COALESCE(refunded_quantity, 0) + ? WHERE id = ?');
+
+      for (const refundLine of refundLines) {
+        insertItem.run(refundId, refundLine.line.id, refundLine.quantity, refundLine.amount, refundLine.tax_amount, refundLine.restock ? 1 : 0);
+        updateLine.run(refundLine.quantity, refundLine.line.id);
+
+        returnRefundedUsage({
+          line: refundLine.line,
+          quantity: refundLine.quantity,
+          restock: refundLine.restock,
+          refund_id: refundId,
+          refund_number: refundNumber,
+          username: user?.username || null,
+        });
+      }
+
+      db.prepare(
+        'UPDATE orders SET refunded_amount = ?, payment_status = ?, status = ? WHERE id = ?'
+      ).run(refundedTotal, paymentStatus, refund_type === 'void' ? 'cancelled' : order.status, order_id);
+
+      if (refund_type === 'void') {
+        // A voided sale no longer counts as a use of its promotion, and its table is free again
+        if (order.discount_id) {
+          db.prepare('UPDATE discounts SET usage_count = MAX(COALESCE(usage_count, 0) - 1, 0) WHERE id = ?').run(order.discount_id);
+        }
+        if (order.table_id) {
+          db.prepare('UPDATE tables SET status = ?, current_order_id = NULL WHERE id = ? AND current_order_id = ?').run('available', order.table_id, order_id);
+        }
+      }
+
+      if (amount > 0 && refund_method === 'cash') {
+        db.prepare(
+          'INSERT INTO cash_movements (shift_id, movement_type, amount, reason, order_id, user_id) VALUES (?, ?, ?, ?, ?, ?)'
+        ).run(shift.id, 'refund', amount, `${refundNumber}: ${reason.trim()}`, order_id, user_id || null);
+      }
+
+      return refundId;
+    });
+
+    return getRefundById(transaction());
+  } catch (error) {
+    console.error('Error processing refund:', error);
+    throw error;
+  }
+}
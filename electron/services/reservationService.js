@@ -0,0 +1,423 @@
+// Reservation service for handling table bookings and the table holds they drive
+import { dbQuery, getDatabase } from './databaseService.js';
+import { getTableById } from './tableService.js';
+import { getNextOrderNumber } from './numberingService.js';
+import { getCurrentShift } from './shiftService.js';
+
+const RESERVATION_STATUSES = ['booked', 'seated', 'completed', 'cancelled', 'no_show'];
+// Bookings that still claim their table
+const ACTIVE_STATUSES = ['booked', 'seated'];
+const STARTS_AT_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})/;
+
+/**
+ * Read a numeric setting
+ * @param {string} key - Setting key
+ * @param {number} fallback - Value when missing or invalid
+ * @returns {number} Setting value
+ */
+function getSettingNumber(key, fallback) {
+  const value = parseInt(dbQuery('SELECT value FROM settings WHERE key = ?', [key])[0]?.value, 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Parse a local "YYYY-MM-DD HH:MM" time
+ * @param {string} startsAt - Local time
+ * @returns {Date} Date
+ */
+function parseLocal(startsAt) {
+  const [date, time] = startsAt.split(' ');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Check and normalise a booking time to "YYYY-MM-DD HH:MM"
+ * @param {string} startsAt - Local date and time
+ * @returns {string} Normalised time
+ */
+function normalizeStartsAt(startsAt) {
+  const match = STARTS_AT_PATTERN.exec(String(startsAt || '').trim());
+  if (!match || isNaN(parseLocal(`${match[1]} ${match[2]}`).getTime())) {
+    throw new Error('Booking date and time are required');
+  }
+  return `${match[1]} ${match[2]}`;
+}
+
+/**
+ * Get bookings on a table that overlap a time slot
+ * @param {Object} slot - Slot to check
+ * @param {number} slot.table_id - Table ID
+ * @param {string} slot.starts_at - Local start time
+ * @param {number} slot.duration_minutes - Length in minutes
+ * @param {number} [slot.exclude_id] - Booking being edited
+ * @returns {Promise<Array>} Overlapping active bookings
+ */
+export function findReservationConflicts({ table_id, starts_at, duration_minutes, exclude_id }) {
+  try {
+    const start = parseLocal(normalizeStartsAt(starts_at)).getTime();
+    const end = start + duration_minutes * 60000;
+    const day = starts_at.slice(0, 10);
+
+    // Bookings from the day before can run past midnight
+    const candidates = dbQuery(
+      `SELECT * FROM reservations
+       WHERE table_id = ? AND id != ? AND status IN (${ACTIVE_STATUSES.map(() => '?').join(', ')})
+         AND substr(starts_at, 1, 10) BETWEEN date(?, '-1 day') AND ?`,
+      [table_id, exclude_id || 0, ...ACTIVE_STATUSES, day, day]
+    );
+    return candidates.filter((r) => {
+      const otherStart = parseLocal(r.starts_at).getTime();
+      const otherEnd = otherStart + r.duration_minutes * 60000;
+      return otherStart < end && start < otherEnd;
+    });
+  } catch (error) {
+    console.error('Error checking reservation conflicts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Validate booking data, including table capacity and double bookings
+ * @param {Object} data - Booking data (normalised)
+ * @param {number} [excludeId] - Booking being edited
+ */
+function validateReservation(data, excludeId) {
+  if (!data.guest_name) {
+    throw new Error('Guest name is required');
+  }
+  if (!Number.isInteger(data.party_size) || data.party_size < 1) {
+    throw new Error('Party size must be at least 1');
+  }
+  if (!Number.isInteger(data.duration_minutes) || data.duration_minutes < 15 || data.duration_minutes > 720) {
+    throw new Error('Duration must be between 15 and 720 minutes');
+  }
+
+  if (data.table_id) {
+    const table = getTableById(data.table_id);
+    if (!table) {
+      throw new Error('Table not found');
+    }
+    if ((table.capacity || 0) < data.party_size) {
+      throw new Error(`Table ${table.number} seats ${table.capacity}; the party is ${data.party_size}`);
+    }
+    const conflict = findReservationConflicts({ ...data, exclude_id: excludeId })[0];
+    if (conflict) {
+      throw new Error(`Table ${table.number} is already booked for ${conflict.guest_name} at ${conflict.starts_at.slice(11)}`);
+    }
+  }
+}
+
+const SELECT_RESERVATION = `SELECT r.*, t.number as table_number, t.name as table_name, t.capacity as table_capacity,
+     o.order_number, u.full_name as created_by_name, u.username as created_by_username
+   FROM reservations r
+   LEFT JOIN tables t ON r.table_id = t.id
+   LEFT JOIN orders o ON r.order_id = o.id
+   LEFT JOIN users u ON r.created_by = u.id`;
+
+/**
+ * Get the bookings of a day
+ * @param {string} date - Day (YYYY-MM-DD, local)
+ * @returns {Promise<Array>} Bookings by start time, with table and order numbers
+ */
+export function getReservations(date) {
+  try {
+    return dbQuery(
+      `${SELECT_RESERVATION} WHERE substr(r.starts_at, 1, 10) = ? ORDER BY r.starts_at, r.id`,
+      [date]
+    );
+  } catch (error) {
+    console.error('Error getting reservations:', error);
+    throw new Error('Failed to retrieve reservations');
+  }
+}
+
+/**
+ * Get a booking by ID
+ * @param {number} id - Reservation ID
+ * @returns {Promise<Object|null>} Booking or null if not found
+ */
+export function getReservationById(id) {
+  try {
+    const results = dbQuery(`${SELECT_RESERVATION} WHERE r.id = ?`, [id]);
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting reservation by ID:', error);
+    throw new Error('Failed to retrieve reservation');
+  }
+}
+
+/**
+ * Create a booking
+ * @param {Object} reservationData - Booking data
+ * @param {string} reservationData.guest_name - Guest name (required)
+ * @param {string} [reservationData.phone] - Contact number
+ * @param {number} reservationData.party_size - Number of guests (required)
+ * @param {string} reservationData.starts_at - Local start time, YYYY-MM-DD HH:MM (required)
+ * @param {number} [reservationData.duration_minutes] - Length (default reservation_default_duration)
+ * @param {number} [reservationData.table_id] - Assigned table
+ * @param {string} [reservationData.notes] - Notes (occasion, allergies, ...)
+ * @param {number} [reservationData.created_by] - User taking the booking
+ * @returns {Promise<Object>} Created booking
+ */
+export function createReservation(reservationData) {
+  try {
+    const data = {
+      guest_name: reservationData.guest_name?.trim(),
+      phone: reservationData.phone?.trim() || null,
+      party_size: parseInt(reservationData.party_size, 10),
+      starts_at: normalizeStartsAt(reservationData.starts_at),
+      duration_minutes: parseInt(reservationData.duration_minutes, 10) || getSettingNumber('reservation_default_duration', 90),
+      table_id: reservationData.table_id || null,
+      notes: reservationData.notes?.trim() || null,
+    };
+    validateReservation(data);
+
+    const result = dbQuery(
+      `INSERT INTO reservations (guest_name, phone, party_size, starts_at, duration_minutes, table_id, notes, created_by, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [data.guest_name, data.phone, data.party_size, data.starts_at, data.duration_minutes, data.table_id, data.notes, reservationData.created_by || null]
+    );
+
+    applyReservationHolds();
+    return getReservationById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error creating reservation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a booking that has not been seated yet
+ * @param {number} id - Reservation ID
+ * @param {Object} reservationData - Fields to change (as for createReservation)
+ * @returns {Promise<Object>} Updated booking
+ */
+export function updateReservation(id, reservationData) {
+  try {
+    const existing = getReservationById(id);
+    if (!existing) {
+      throw new Error('Reservation not found');
+    }
+    if (existing.status !== 'booked') {
+      throw new Error('Only bookings that have not been seated can be changed');
+    }
+
+    const pick = (key) => (reservationData[key] !== undefined ? reservationData[key] : existing[key]);
+    const data = {
+      guest_name: String(pick('guest_name') || '').trim(),
+      phone: String(pick('phone') || '').trim() || null,
+      party_size: parseInt(pick('party_size'), 10),
+      starts_at: normalizeStartsAt(pick('starts_at')),
+      duration_minutes: parseInt(pick('duration_minutes'), 10),
+      table_id: pick('table_id') || null,
+      notes: String(pick('notes') || '').trim() || null,
+    };
+    validateReservation(data, id);
+
+    dbQuery(
+      `UPDATE reservations SET guest_name = ?, phone = ?, party_size = ?, starts_at = ?, duration_minutes = ?, table_id = ?,
+         notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [data.guest_name, data.phone, data.party_size, data.starts_at, data.duration_minutes, data.table_id, data.notes, id]
+    );
+
+    applyReservationHolds();
+    return getReservationById(id);
+  } catch (error) {
+    console.error('Error updating reservation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark a booking cancelled, no-show or completed, or put it back to booked
+ * @param {number} id - Reservation ID
+ * @param {string} status - 'booked', 'completed', 'cancelled' or 'no_show' (use seatReservation to seat)
+ * @returns {Promise<Object>} Updated booking
+ */
+export function setReservationStatus(id, status) {
+  try {
+    if (!RESERVATION_STATUSES.includes(status) || status === 'seated') {
+      throw new Error(`Invalid status. Must be one of: ${RESERVATION_STATUSES.filter(s => s !== 'seated').join(', ')}`);
+    }
+    const existing = getReservationById(id);
+    if (!existing) {
+      throw new Error('Reservation not found');
+    }
+    if (status === 'booked') {
+      if (existing.status === 'seated') {
+        throw new Error('A seated booking cannot be reopened');
+      }
+      // Reopening must not double-book the table
+      validateReservation({ ...existing }, id);
+    }
+
+    dbQuery('UPDATE reservations SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [status, id]);
+    applyReservationHolds();
+    return getReservationById(id);
+  } catch (error) {
+    console.error('Error setting reservation status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a booking
+ * @param {number} id - Reservation ID
+ * @returns {Promise<boolean>} True if deleted
+ */
+export function deleteReservation(id) {
+  try {
+    const existing = getReservationById(id);
+    if (!existing) {
+      throw new Error('Reservation not found');
+    }
+    if (existing.status === 'seated') {
+      throw new Error('A seated booking cannot be deleted');
+    }
+
+    dbQuery('UPDATE tables SET reservation_id = NULL WHERE reservation_id = ?', [id]);
+    dbQuery('DELETE FROM reservations WHERE id = ?', [id]);
+    applyReservationHolds();
+    return true;
+  } catch (error) {
+    console.error('Error deleting reservation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Seat a booked party: opens a dine-in order for them at the booked table and marks the table occupied
+ * @param {number} id - Reservation ID
+ * @param {Object} seatData - Seating data
+ * @param {number} seatData.user_id - User seating the party (required)
+ * @param {number} [seatData.table_id] - Table to seat them at instead of the booked one
+ * @returns {Promise<{reservation: Object, order_id: number}>} Seated booking and the new order
+ */
+export function seatReservation(id, seatData) {
+  try {
+    const { user_id, table_id } = seatData || {};
+    if (!user_id) {
+      throw new Error('User is required');
+    }
+    const reservation = getReservationById(id);
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+    if (reservation.status !== 'booked') {
+      throw new Error('Only booked reservations can be seated');
+    }
+
+    const table = getTableById(table_id || reservation.table_id);
+    if (!table) {
+      throw new Error('Assign a table before seating the party');
+    }
+    if (table.status === 'occupied' || table.current_order_id) {
+      throw new Error(`Table ${table.number} is still occupied`);
+    }
+    if (table.status === 'cleaning') {
+      throw new Error(`Table ${table.number} is being cleaned`);
+    }
+
+    // A guest who booked with a known phone number is linked to their customer record
+    const customer = reservation.phone
+      ? dbQuery('SELECT id FROM customers WHERE phone = ? ORDER BY id LIMIT 1', [reservation.phone])[0]
+      : null;
+    const shift = getCurrentShift();
+
+    const db = getDatabase();
+    const orderId = db.transaction(() => {
+      const numbers = getNextOrderNumber();
+      const result = dbQuery(
+        `INSERT INTO orders (order_number, terminal_id, business_date, pickup_number, total_amount, subtotal, tax_amount,
+           discount_amount, table_id, order_type, customer_id, user_id, shift_id, label, status, payment_status)
+         VALUES (?, ?, ?, ?, 0, 0, 0, 0, ?, 'dine_in', ?, ?, ?, ?, 'pending', 'pending')`,
+        [
+          numbers.order_number, numbers.terminal_id, numbers.business_date, numbers.pickup_number, table.id,
+          customer?.id || null, user_id, shift?.id || null, reservation.guest_name,
+        ]
+      );
+      const newOrderId = result.lastInsertRowid;
+
+      dbQuery(
+        `UPDATE tables SET status = 'occupied', current_order_id = ?, occupied_at = CURRENT_TIMESTAMP, reservation_id = NULL,
+           updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [newOrderId, table.id]
+      );
+      dbQuery(
+        `UPDATE reservations SET status = 'seated', table_id = ?, order_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [table.id, newOrderId, id]
+      );
+      return newOrderId;
+    })();
+
+    applyReservationHolds();
+    return { reservation: getReservationById(id), order_id: orderId };
+  } catch (error) {
+    console.error('Error seating reservation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Bring table statuses in line with the bookings: a free table is switched to 'reserved'
+ * reservation_hold_minutes before its booking, and the hold is lifted once the booking is
+ * cancelled, seated or over. Seated bookings are completed once their bill is closed or deleted.
+ * Runs every minute from the main process and after every booking change.
+ * @param {Date} [now] - Current time
+ * @returns {Promise<number>} Number of tables changed
+ */
+export function applyReservationHolds(now = new Date()) {
+  try {
+    const holdMinutes = getSettingNumber('reservation_hold_minutes', 30);
+    const db = getDatabase();
+
+    return db.transaction(() => {
+      dbQuery(
+        `UPDATE reservations SET status = 'completed', updated_at = CURRENT_TIMESTAMP
+         WHERE status = 'seated' AND (order_id IS NULL OR order_id IN (
+           SELECT id FROM orders WHERE payment_status = 'paid' OR status IN ('completed', 'cancelled')
+         ))`
+      );
+
+      const today = now.toLocaleDateString('en-CA');
+      const booked = dbQuery(
+        `SELECT * FROM reservations
+         WHERE status = 'booked' AND table_id IS NOT NULL
+           AND substr(starts_at, 1, 10) BETWEEN date(?, '-1 day') AND date(?, '+1 day')
+         ORDER BY starts_at`,
+        [today, today]
+      );
+      // Bookings whose hold window (hold minutes before the start until the end) includes now
+      const holding = booked.filter((r) => {
+        const start = parseLocal(r.starts_at).getTime();
+        return now.getTime() >= start - holdMinutes * 60000 && now.getTime() < start + r.duration_minutes * 60000;
+      });
+
+      let changed = 0;
+      const tables = dbQuery("SELECT * FROM tables WHERE status IN ('available', 'reserved')");
+      tables.forEach((table) => {
+        const hold = holding.find(r => r.table_id === table.id);
+        if (table.status === 'available' && hold && !table.current_order_id) {
+          dbQuery(
+            "UPDATE tables SET status = 'reserved', reservation_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+            [hold.id, table.id]
+          );
+          changed++;
+        } else if (table.status === 'reserved' && table.reservation_id && hold?.id !== table.reservation_id) {
+          // Only holds placed here are lifted; a table reserved by hand has no reservation_id
+          dbQuery(
+            `UPDATE tables SET status = ?, reservation_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+            [hold ? 'reserved' : 'available', hold?.id || null, table.id]
+          );
+          changed++;
+        }
+      });
+      return changed;
+    })();
+  } catch (error) {
+    console.error('Error applying reservation holds:', error);
+    throw error;
+  }
+}
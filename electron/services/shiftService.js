@@ -0,0 +1,357 @@
+// Shift service for handling cash drawer (till session) operations
+import { dbQuery, getDatabase } from './databaseService.js';
+import { getTerminalId } from './numberingService.js';
+
+const MOVEMENT_TYPES = ['paid_in', 'paid_out', 'refund'];
+
+/**
+ * Get this till's open shift (one drawer per terminal; shifts pulled from other tills are left alone)
+ * @returns {Promise<Object|null>} Open shift or null if the drawer is closed or no terminal ID is set
+ */
+export function getCurrentShift() {
+  try {
+    let terminalId;
+    try {
+      terminalId = getTerminalId();
+    } catch {
+      return null;
+    }
+    const results = dbQuery(
+      `SELECT s.*, u.username, u.full_name
+       FROM shifts s
+       LEFT JOIN users u ON s.user_id = u.id
+       WHERE s.status = 'open' AND s.terminal_id = ?
+       ORDER BY s.opened_at DESC
+       LIMIT 1`,
+      [terminalId]
+    );
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting current shift:', error);
+    throw new Error('Failed to retrieve current shift');
+  }
+}
+
+/**
+ * Get a single shift by ID
+ * @param {number} id - Shift ID
+ * @returns {Promise<Object|null>} Shift or null if not found
+ */
+export function getShiftById(id) {
+  try {
+    const results = dbQuery(
+      `SELECT s.*, u.username, u.full_name, cu.username as closed_by_username, cu.full_name as closed_by_name
+       FROM shifts s
+       LEFT JOIN users u ON s.user_id = u.id
+       LEFT JOIN users cu ON s.closed_by = cu.id
+       WHERE s.id = ?`,
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting shift by ID:', error);
+    throw new Error('Failed to retrieve shift');
+  }
+}
+
+/**
+ * Get shift history, newest first
+ * @param {number} [limit] - Maximum number of shifts (default 100)
+ * @returns {Promise<Array>} Array of shifts
+ */
+export function getShifts(limit = 100) {
+  try {
+    return dbQuery(
+      `SELECT s.*, u.username, u.full_name, cu.username as closed_by_username, cu.full_name as closed_by_name
+       FROM shifts s
+       LEFT JOIN users u ON s.user_id = u.id
+       LEFT JOIN users cu ON s.closed_by = cu.id
+       ORDER BY s.opened_at DESC
+       LIMIT ?`,
+      [limit]
+    );
+  } catch (error) {
+    console.error('Error getting shifts:', error);
+    throw new Error('Failed to retrieve shifts');
+  }
+}
+
+/**
+ * Open a new shift with a counted float
+ * @param {Object} shiftData - Shift data
+ * @param {number} shiftData.user_id - User opening the drawer (required)
+ * @param {number} shiftData.opening_float - Counted starting cash
+ * @param {string} [shiftData.notes] - Notes
+ * @returns {Promise<Object>} Opened shift
+ */
+export function openShift(shiftData) {
+  try {
+    const { user_id, opening_float = 0, notes } = shiftData;
+
+    // Validation
+    if (!user_id) {
+      throw new Error('User is required to open a shift');
+    }
+    if (isNaN(opening_float) || opening_float < 0) {
+      throw new Error('Opening float must be zero or a positive number');
+    }
+    const terminalId = getTerminalId();
+    if (getCurrentShift()) {
+      throw new Error('A shift is already open on this till. Close it before opening a new one.');
+    }
+
+    const result = dbQuery(
+      'INSERT INTO shifts (user_id, terminal_id, status, opening_float, notes) VALUES (?, ?, ?, ?, ?)',
+      [user_id, terminalId, 'open', Number(opening_float), notes?.trim() || null]
+    );
+
+    return getShiftById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error opening shift:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a paid-in, paid-out or cash refund against an open shift
+ * @param {Object} movementData - Movement data
+ * @param {number} movementData.shift_id - Shift ID (required)
+ * @param {string} movementData.movement_type - 'paid_in', 'paid_out' or 'refund'
+ * @param {number} movementData.amount - Positive amount
+ * @param {string} [movementData.reason] - Reason
+ * @param {number} [movementData.order_id] - Related order (refunds)
+ * @param {number} [movementData.user_id] - User recording the movement
+ * @returns {Promise<Object>} Created movement
+ */
+export function addCashMovement(movementData) {
+  try {
+    const { shift_id, movement_type, amount, reason, order_id, user_id } = movementData;
+
+    // Validation
+    if (!shift_id) {
+      throw new Error('Shift is required');
+    }
+    if (!MOVEMENT_TYPES.includes(movement_type)) {
+      throw new Error(`Invalid movement type. Must be one of: ${MOVEMENT_TYPES.join(', ')}`);
+    }
+    if (isNaN(amount) || Number(amount) <= 0) {
+      throw new Error('Amount must be a positive number');
+    }
+
+    const shift = getShiftById(shift_id);
+    if (!shift) {
+      throw new Error('Shift not found');
+    }
+    if (shift.status !== 'open') {
+      throw new Error('Cash movements can only be recorded against an open shift');
+    }
+
+    const result = dbQuery(
+      'INSERT INTO cash_movements (shift_id, movement_type, amount, reason, order_id, user_id) VALUES (?, ?, ?, ?, ?, ?)',
+      [shift_id, movement_type, Number(amount), reason?.trim() || null, order_id || null, user_id || null]
+    );
+
+    const movements = dbQuery('SELECT * FROM cash_movements WHERE id = ?', [result.lastInsertRowid]);
+    return movements[0];
+  } catch (error) {
+    console.error('Error adding cash movement:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get cash movements for a shift
+ * @param {number} shiftId - Shift ID
+ * @returns {Promise<Array>} Array of movements
+ */
+export function getCashMovements(shiftId) {
+  try {
+    return dbQuery(
+      `SELECT cm.*, u.username, u.full_name, o.order_number
+       FROM cash_movements cm
+       LEFT JOIN users u ON cm.user_id = u.id
+       LEFT JOIN orders o ON cm.order_id = o.id
+       WHERE cm.shift_id = ?
+       ORDER BY cm.created_at, cm.id`,
+      [shiftId]
+    );
+  } catch (error) {
+    console.error('Error getting cash movements:', error);
+    throw new Error('Failed to retrieve cash movements');
+  }
+}
+
+/**
+ * Calculate live cash totals for a shift from its tenders and cash movements
+ * @param {Object} shift - Shift row
+ * @returns {Object} Cash totals
+ */
+function calculateCashTotals(shift) {
+  const cashSales = dbQuery(
+    `SELECT COALESCE(SUM(amount), 0) as total
+     FROM order_payments
+     WHERE shift_id = ? AND payment_method = 'cash'`,
+    [shift.id]
+  )[0].total;
+
+  const movementTotals = dbQuery(
+    `SELECT movement_type, COALESCE(SUM(amount), 0) as total
+     FROM cash_movements
+     WHERE shift_id = ?
+     GROUP BY movement_type`,
+    [shift.id]
+  );
+  const totalFor = (type) => movementTotals.find(m => m.movement_type === type)?.total || 0;
+
+  const paidIn = totalFor('paid_in');
+  const paidOut = totalFor('paid_out');
+  const cashRefunds = totalFor('refund');
+
+  return {
+    cash_sales: cashSales,
+    paid_in: paidIn,
+    paid_out: paidOut,
+    cash_refunds: cashRefunds,
+    expected_cash: (shift.opening_float || 0) + cashSales + paidIn - paidOut - cashRefunds,
+  };
+}
+
+/**
+ * Get the full summary of a shift (used for the close-out screen and Z-report)
+ * @param {number} shiftId - Shift ID
+ * @returns {Promise<Object>} Shift summary
+ */
+export function getShiftSummary(shiftId) {
+  try {
+    const shift = getShiftById(shiftId);
+    if (!shift) {
+      throw new Error('Shift not found');
+    }
+
+    // Closed shifts report the totals frozen at close; open shifts are calculated live
+    const totals = shift.status === 'closed'
+      ? {
+          cash_sales: shift.cash_sales || 0,
+          paid_in: shift.paid_in || 0,
+          paid_out: shift.paid_out || 0,
+          cash_refunds: shift.cash_refunds || 0,
+          expected_cash: shift.expected_cash || 0,
+        }
+      : calculateCashTotals(shift);
+
+    const sales = dbQuery(
+      `SELECT COUNT(*) as order_count, COALESCE(SUM(total_amount), 0) as sales_total, COALESCE(SUM(discount_amount), 0) as discount_total,
+         COALESCE(SUM(tax_amount), 0) as tax_total
+       FROM orders
+       WHERE shift_id = ? AND status != 'cancelled'`,
+      [shiftId]
+    )[0];
+
+    const refunds = dbQuery(
+      `SELECT COALESCE(SUM(CASE WHEN refund_type = 'refund' THEN amount ELSE 0 END), 0) as refund_total,
+         COALESCE(SUM(CASE WHEN refund_type = 'void' THEN 1 ELSE 0 END), 0) as void_count
+       FROM refunds
+       WHERE shift_id = ?`,
+      [shiftId]
+    )[0];
+
+    const tenders = dbQuery(
+      `SELECT payment_method, SUM(amount) as total_amount, COUNT(*) as payment_count
+       FROM order_payments
+       WHERE shift_id = ?
+       GROUP BY payment_method
+       ORDER BY total_amount DESC`,
+      [shiftId]
+    );
+
+    let denominations = null;
+    if (shift.denominations) {
+      try {
+        denominations = JSON.parse(shift.denominations);
+      } catch (parseError) {
+        console.error('Error parsing shift denominations:', parseError);
+      }
+    }
+
+    return {
+      shift: { ...shift, denominations },
+      ...totals,
+      counted_cash: shift.counted_cash,
+      over_short: shift.over_short,
+      order_count: sales.order_count,
+      sales_total: sales.sales_total,
+      discount_total: sales.discount_total,
+      tax_total: sales.tax_total,
+      refund_total: refunds.refund_total,
+      void_count: refunds.void_count,
+      tenders,
+      movements: getCashMovements(shiftId),
+    };
+  } catch (error) {
+    console.error('Error getting shift summary:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a shift with a denomination count and compute over/short
+ * @param {number} id - Shift ID
+ * @param {Object} closeData - Close-out data
+ * @param {Array<{denomination: number, count: number}>} closeData.denominations - Counted notes and coins
+ * @param {number} [closeData.closed_by] - User closing the drawer
+ * @param {string} [closeData.notes] - Notes
+ * @returns {Promise<Object>} Summary of the closed shift
+ */
+export function closeShift(id, closeData) {
+  try {
+    const { denominations = [], closed_by, notes } = closeData;
+
+    const shift = getShiftById(id);
+    if (!shift) {
+      throw new Error('Shift not found');
+    }
+    if (shift.status !== 'open') {
+      throw new Error('Shift is already closed');
+    }
+    if (!Array.isArray(denominations) || denominations.length === 0) {
+      throw new Error('A denomination count is required to close the shift');
+    }
+
+    const counts = denominations
+      .map(d => ({ denomination: Number(d.denomination), count: Math.max(0, parseInt(d.count, 10) || 0) }))
+      .filter(d => !isNaN(d.denomination) && d.denomination > 0);
+    const countedCash = Math.round(counts.reduce((sum, d) => sum + d.denomination * d.count, 0) * 100) / 100;
+
+    const db = getDatabase();
+    const transaction = db.transaction(() => {
+      const totals = calculateCashTotals(shift);
+      const overShort = Math.round((countedCash - totals.expected_cash) * 100) / 100;
+
+      db.prepare(
+        `UPDATE shifts
+         SET status = 'closed', cash_sales = ?, paid_in = ?, paid_out = ?, cash_refunds = ?,
+             expected_cash = ?, counted_cash = ?, over_short = ?, denominations = ?,
+             notes = COALESCE(?, notes), closed_at = CURRENT_TIMESTAMP, closed_by = ?
+         WHERE id = ?`
+      ).run(
+        totals.cash_sales,
+        totals.paid_in,
+        totals.paid_out,
+        totals.cash_refunds,
+        totals.expected_cash,
+        countedCash,
+        overShort,
+        JSON.stringify(counts),
+        notes?.trim() || null,
+        closed_by || null,
+        id
+      );
+    });
+    transaction();
+
+    return getShiftSummary(id);
+  } catch (error) {
+    console.error('Error closing shift:', error);
+    throw error;
+  }
+}
@@ -17,6 +17,8 @@ let _bucketVerified = false;
 
 // Tables to sync in order (respecting foreign key dependencies)
 const SYNC_TABLE_ORDER = [
+  'tax_classes',
+  'prep_stations',
   'categories',
   'menu_items',
   'customers',
@@ -26,21 +28,39 @@ const SYNC_TABLE_ORDER = [
   'addons',
   'users',
   'settings',
+  'print_templates',
+  'printers',
+  'label_sizes',
+  'production_batches',
+  'floor_sections',
   'tables',
+  'discounts',
+  'shifts',
   'orders',
   'order_items',
+  'order_payments',
+  'cash_movements',
+  'refunds',
+  'manager_overrides',
+  'table_transfers',
+  'reservations',
+  'order_station_bumps',
   'menu_item_option_groups',
   'menu_item_addons',
   'order_item_options',
   'order_item_addons',
   'menu_item_sizes',
   'menu_item_custom_options',
+  'order_item_custom_options',
+  'refund_items',
   'inventory_transactions',
   'menu_item_ingredients',
   'analytics',
-  'discounts',
 ];
 
+// Per-till settings: never pushed, and a pull must not overwrite them
+const TERMINAL_SETTINGS_KEYS = ['terminal_id', 'pickup_number_start', 'pickup_board_enabled', 'pickup_board_network'];
+
 // Columns that need int->bool conversion (SQLite 0/1 -> Postgres true/false)
 const BOOLEAN_COLUMNS = {
   menu_items: ['is_available'],
@@ -52,6 +72,11 @@ const BOOLEAN_COLUMNS = {
   discounts: ['is_active'],
   menu_item_sizes: ['is_default'],
   menu_item_custom_options: ['is_available'],
+  orders: ['tax_inclusive'],
+  refund_items: ['restocked'],
+  prep_stations: ['show_on_kds'],
+  printers: ['silent'],
+  label_sizes: ['is_default'],
 };
 
 function toSupabaseRow(row, tableName) {
@@ -294,7 +319,9 @@ export async function pushToSupabase(db, onProgress, options = {}) {
         let transformed = rows.map((r) => toSupabaseRow(r, table));
         const conflictKey = table === 'settings' ? 'key' : 'id';
         if (table === 'settings') {
-          transformed = transformed.map(({ id, ...rest }) => rest);
+          transformed = transformed
+            .filter((r) => !TERMINAL_SETTINGS_KEYS.includes(r.key))
+            .map(({ id, ...rest }) => rest);
         }
         const { error } = await supabase.from(table).upsert(transformed, {
           onConflict: conflictKey,
@@ -410,7 +437,7 @@ export async function pullFromSupabase(db, onProgress, options = {}) {
         if (!rows || rows.length === 0) continue;
 
         // Don't overwrite local Supabase config when pulling settings
-        const PROTECTED_KEYS = ['supabase_url', 'supabase_service_key'];
+        const PROTECTED_KEYS = ['supabase_url', 'supabase_service_key', ...TERMINAL_SETTINGS_KEYS];
         const filteredRows =
           table === 'settings'
             ? rows.filter((r) => !PROTECTED_KEYS.includes(r.key))
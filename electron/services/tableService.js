@@ -1,5 +1,57 @@
 // Table service for handling table operations
-import { dbQuery } from './databaseService.js';
+import { dbQuery, getDatabase } from './databaseService.js';
+
+const VALID_SHAPES = ['square', 'round', 'rectangle'];
+
+// Tables are laid out on a fixed canvas per floor section; the UI scales it to fit
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 600;
+
+/**
+ * Validate and normalise the floor plan fields of a table
+ * @param {Object} layout - Any of section_id, shape, pos_x, pos_y, width, height, rotation
+ * @returns {Object} Only the fields that were provided, cleaned up
+ */
+function normalizeLayout(layout) {
+  const { section_id, shape, pos_x, pos_y, width, height, rotation } = layout;
+  const result = {};
+
+  if (section_id !== undefined) {
+    if (section_id && dbQuery('SELECT id FROM floor_sections WHERE id = ?', [section_id]).length === 0) {
+      throw new Error('Floor section not found');
+    }
+    result.section_id = section_id || null;
+  }
+  if (shape !== undefined) {
+    if (!VALID_SHAPES.includes(shape)) {
+      throw new Error(`Invalid shape. Must be one of: ${VALID_SHAPES.join(', ')}`);
+    }
+    result.shape = shape;
+  }
+  if (width !== undefined) {
+    if (isNaN(width) || width < 30 || width > 400) {
+      throw new Error('Width must be between 30 and 400');
+    }
+    result.width = Number(width);
+  }
+  if (height !== undefined) {
+    if (isNaN(height) || height < 30 || height > 400) {
+      throw new Error('Height must be between 30 and 400');
+    }
+    result.height = Number(height);
+  }
+  if (pos_x !== undefined) {
+    result.pos_x = Math.min(Math.max(Number(pos_x) || 0, 0), CANVAS_WIDTH);
+  }
+  if (pos_y !== undefined) {
+    result.pos_y = Math.min(Math.max(Number(pos_y) || 0, 0), CANVAS_HEIGHT);
+  }
+  if (rotation !== undefined) {
+    result.rotation = (((Number(rotation) || 0) % 360) + 360) % 360;
+  }
+
+  return result;
+}
 
 /**
  * Get all tables
@@ -59,11 +111,27 @@ export function getTablesByStatus(status) {
  * @param {number} [tableData.capacity] - Table capacity (default 4)
  * @param {string} [tableData.status] - Table status (default 'available')
  * @param {string} [tableData.notes] - Table notes
+ * @param {number} [tableData.section_id] - Floor section
+ * @param {string} [tableData.shape] - 'square', 'round' or 'rectangle' (default 'square')
+ * @param {number} [tableData.pos_x] - Position on the floor plan (0-1000)
+ * @param {number} [tableData.pos_y] - Position on the floor plan (0-600)
+ * @param {number} [tableData.width] - Width on the floor plan (default 80)
+ * @param {number} [tableData.height] - Height on the floor plan (default 80)
+ * @param {number} [tableData.rotation] - Rotation in degrees (default 0)
  * @returns {Promise<Object>} Created table with ID
  */
 export function createTable(tableData) {
   try {
     const { number, name, capacity = 4, status = 'available', notes } = tableData;
+    const layout = normalizeLayout({
+      shape: 'square',
+      width: 80,
+      height: 80,
+      rotation: 0,
+      pos_x: 0,
+      pos_y: 0,
+      ...Object.fromEntries(Object.entries(tableData).filter(([, value]) => value !== undefined)),
+    });
 
     // Validation
     if (!number || !number.trim()) {
@@ -91,9 +159,23 @@ export function createTable(tableData) {
     }
 
     const result = dbQuery(
-      `INSERT INTO tables (number, name, capacity, status, notes, updated_at)
-       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
-      [number.trim(), name?.trim() || null, capacity, status, notes?.trim() || null]
+      `INSERT INTO tables (number, name, capacity, status, notes, section_id, shape, pos_x, pos_y, width, height, rotation,
+         occupied_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${status === 'occupied' ? 'CURRENT_TIMESTAMP' : 'NULL'}, CURRENT_TIMESTAMP)`,
+      [
+        number.trim(),
+        name?.trim() || null,
+        capacity,
+        status,
+        notes?.trim() || null,
+        layout.section_id || null,
+        layout.shape,
+        layout.pos_x,
+        layout.pos_y,
+        layout.width,
+        layout.height,
+        layout.rotation,
+      ]
     );
 
     const newTable = getTableById(result.lastInsertRowid);
@@ -113,6 +195,7 @@ export function createTable(tableData) {
 export function updateTable(id, tableData) {
   try {
     const { number, name, capacity, status, current_order_id, notes } = tableData;
+    const layout = normalizeLayout(tableData);
 
     // Check if table exists
     const existing = getTableById(id);
@@ -154,6 +237,16 @@ export function updateTable(id, tableData) {
     if (status !== undefined) updates.push('status = ?'), values.push(status);
     if (current_order_id !== undefined) updates.push('current_order_id = ?'), values.push(current_order_id || null);
     if (notes !== undefined) updates.push('notes = ?'), values.push(notes?.trim() || null);
+    Object.entries(layout).forEach(([column, value]) => {
+      updates.push(`${column} = ?`);
+      values.push(value);
+    });
+
+    // Track how long the table has been seated; a status set by hand also ends any booking hold
+    if (status !== undefined && status !== existing.status) {
+      updates.push(status === 'occupied' ? 'occupied_at = CURRENT_TIMESTAMP' : 'occupied_at = NULL');
+      updates.push('reservation_id = NULL');
+    }
 
     updates.push('updated_at = CURRENT_TIMESTAMP');
     values.push(id);
@@ -213,10 +306,78 @@ export function updateTableStatus(id, status) {
       throw new Error(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
     }
 
-    return updateTable(id, { status });
+    // Freeing a table by hand also detaches the order it was holding
+    return updateTable(id, status === 'available' ? { status, current_order_id: null } : { status });
   } catch (error) {
     console.error('Error updating table status:', error);
     throw error;
   }
 }
 
+
+/**
+ * Save the floor plan positions of several tables at once
+ * @param {Array<Object>} layouts - Items with id plus any of section_id, shape, pos_x, pos_y, width, height, rotation
+ * @returns {Promise<Array>} All tables after saving
+ */
+export function saveTableLayout(layouts) {
+  try {
+    if (!Array.isArray(layouts)) {
+      throw new Error('Layout must be a list of tables');
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      layouts.forEach((item) => {
+        if (!item.id || !getTableById(item.id)) {
+          throw new Error(`Table not found: ${item.id}`);
+        }
+        const layout = normalizeLayout(item);
+        const columns = Object.keys(layout);
+        if (columns.length === 0) return;
+
+        dbQuery(
+          `UPDATE tables SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [...Object.values(layout), item.id]
+        );
+      });
+    })();
+
+    return getAllTables();
+  } catch (error) {
+    console.error('Error saving table layout:', error);
+    throw error;
+  }
+}
+
+/**
+ * Free the tables an order is seated at once it is settled or removed. A table that still has another
+ * open bill (after a split) stays occupied by that bill; a table re-seated since is left alone.
+ * @param {number} orderId - Order ID
+ * @returns {Promise<Array>} Tables that were updated
+ */
+export function releaseOrderTables(orderId) {
+  try {
+    const tables = dbQuery(
+      'SELECT * FROM tables WHERE current_order_id = ? OR id = (SELECT table_id FROM orders WHERE id = ?)',
+      [orderId, orderId]
+    );
+
+    return tables
+      .filter(table => !table.current_order_id || table.current_order_id === orderId)
+      .map((table) => {
+        const nextOrder = dbQuery(
+          `SELECT id FROM orders
+           WHERE table_id = ? AND id != ? AND status = 'pending' AND payment_status IN ('pending', 'partial')
+           ORDER BY created_at, id LIMIT 1`,
+          [table.id, orderId]
+        )[0];
+        return nextOrder
+          ? updateTable(table.id, { current_order_id: nextOrder.id })
+          : updateTable(table.id, { status: 'available', current_order_id: null });
+      });
+  } catch (error) {
+    console.error('Error releasing order tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,508 @@
+// Table transfer service for moving, merging and splitting the running orders of tables
+import { dbQuery, getDatabase } from './databaseService.js';
+import { getTableById, releaseOrderTables } from './tableService.js';
+import { getNextOrderNumber } from './numberingService.js';
+import { postOrderUsage } from './recipeService.js';
+
+const OPEN_ORDER_CONDITION = "status = 'pending' AND payment_status IN ('pending', 'partial')";
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Check the user doing a transfer exists and is active
+ * @param {number} userId - User ID
+ */
+function requireUser(userId) {
+  if (!userId) {
+    throw new Error('User is required');
+  }
+  if (dbQuery('SELECT id FROM users WHERE id = ? AND is_active = 1', [userId]).length === 0) {
+    throw new Error('User not found or inactive');
+  }
+}
+
+/**
+ * Get a table that must exist
+ * @param {number} tableId - Table ID
+ * @returns {Object} Table
+ */
+function requireTable(tableId) {
+  const table = tableId ? getTableById(tableId) : null;
+  if (!table) {
+    throw new Error('Table not found');
+  }
+  return table;
+}
+
+/**
+ * Get an order that is still open (not settled, not cancelled)
+ * @param {number} orderId - Order ID
+ * @returns {Object} Order
+ */
+function requireOpenOrder(orderId) {
+  const order = dbQuery(`SELECT * FROM orders WHERE id = ? AND ${OPEN_ORDER_CONDITION}`, [orderId])[0];
+  if (!order) {
+    throw new Error('Order not found or already settled');
+  }
+  return order;
+}
+
+/**
+ * Open orders seated at a table, the table's current order first
+ * @param {Object} table - Table
+ * @returns {Array} Orders
+ */
+function getOpenTableOrders(table) {
+  return dbQuery(
+    `SELECT * FROM orders
+     WHERE ${OPEN_ORDER_CONDITION} AND (table_id = ? OR id = ?)
+     ORDER BY (id = ?) DESC, created_at, id`,
+    [table.id, table.current_order_id || 0, table.current_order_id || 0]
+  );
+}
+
+/**
+ * Re-derive payment status after bills were combined or split
+ * @param {number} orderId - Order ID
+ */
+function refreshPaymentStatus(orderId) {
+  const order = dbQuery('SELECT total_amount FROM orders WHERE id = ?', [orderId])[0];
+  const paid = dbQuery('SELECT COALESCE(SUM(amount), 0) as paid FROM order_payments WHERE order_id = ?', [orderId])[0].paid;
+  const status = paid >= (order?.total_amount || 0) - 0.005 && paid > 0 ? 'paid' : paid > 0 ? 'partial' : 'pending';
+  dbQuery('UPDATE orders SET payment_status = ? WHERE id = ?', [status, orderId]);
+  if (status === 'paid') {
+    releaseOrderTables(orderId);
+    postOrderUsage(orderId);
+  }
+}
+
+/**
+ * Record a move, merge or split in the table history
+ * @param {Object} transfer - Log entry (action, tables, orders, user and a readable description)
+ */
+function logTransfer({ action, from_table_id, to_table_id, order_id, target_order_id, user_id, details }) {
+  dbQuery(
+    `INSERT INTO table_transfers (action, from_table_id, to_table_id, order_id, target_order_id, user_id, details)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [action, from_table_id || null, to_table_id || null, order_id || null, target_order_id || null, user_id || null, details || null]
+  );
+}
+
+/**
+ * Move a party, with all its open bills, to another table
+ * @param {Object} transferData - Transfer data
+ * @param {number} transferData.from_table_id - Occupied table
+ * @param {number} transferData.to_table_id - Free table to move to
+ * @param {number} transferData.user_id - User doing the move
+ * @returns {Promise<{from: Object, to: Object}>} Both tables after the move
+ */
+export function moveTable(transferData) {
+  try {
+    const { from_table_id, to_table_id, user_id } = transferData;
+    requireUser(user_id);
+    if (from_table_id === to_table_id) {
+      throw new Error('Choose a different table');
+    }
+    const from = requireTable(from_table_id);
+    const to = requireTable(to_table_id);
+
+    const orders = getOpenTableOrders(from);
+    if (orders.length === 0) {
+      throw new Error(`Table ${from.number} has no open bill to move`);
+    }
+    if (to.status === 'occupied' || getOpenTableOrders(to).length > 0) {
+      throw new Error(`Table ${to.number} is occupied. Merge the tables instead.`);
+    }
+    if (to.status === 'cleaning') {
+      throw new Error(`Table ${to.number} is being cleaned`);
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      dbQuery(
+        `UPDATE orders SET table_id = ?, order_type = 'dine_in' WHERE id IN (${orders.map(() => '?').join(', ')})`,
+        [to.id, ...orders.map(o => o.id)]
+      );
+      // The party keeps its seated time
+      dbQuery(
+        `UPDATE tables SET status = 'occupied', current_order_id = ?, occupied_at = COALESCE(?, CURRENT_TIMESTAMP),
+           updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [orders[0].id, from.occupied_at || null, to.id]
+      );
+      dbQuery(
+        `UPDATE tables SET status = 'available', current_order_id = NULL, occupied_at = NULL,
+           updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [from.id]
+      );
+      logTransfer({
+        action: 'move',
+        from_table_id: from.id,
+        to_table_id: to.id,
+        order_id: orders[0].id,
+        user_id,
+        details: `Moved ${orders.map(o => o.order_number).join(', ')} from table ${from.number} to table ${to.number}`,
+      });
+    })();
+
+    return { from: getTableById(from.id), to: getTableById(to.id) };
+  } catch (error) {
+    console.error('Error moving table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Merge the open bills of one table into the running bill of another. Lines and part payments move
+ * to the target bill, the emptied bills are cancelled, and both tables stay occupied by the one bill.
+ * @param {Object} transferData - Transfer data
+ * @param {number} transferData.from_table_id - Table whose bills are merged away
+ * @param {number} transferData.to_table_id - Table whose bill receives them
+ * @param {number} transferData.user_id - User doing the merge
+ * @returns {Promise<Object>} The merged order
+ */
+export function mergeTables(transferData) {
+  try {
+    const { from_table_id, to_table_id, user_id } = transferData;
+    requireUser(user_id);
+    if (from_table_id === to_table_id) {
+      throw new Error('Choose a different table');
+    }
+    const from = requireTable(from_table_id);
+    const to = requireTable(to_table_id);
+
+    const target = getOpenTableOrders(to)[0];
+    if (!target) {
+      throw new Error(`Table ${to.number} has no open bill. Move the table instead.`);
+    }
+    const sources = getOpenTableOrders(from).filter(o => o.id !== target.id);
+    if (sources.length === 0) {
+      throw new Error(`Table ${from.number} has no other open bill to merge`);
+    }
+
+    // A bill carries one promotion, and its use has already been counted
+    const promotions = new Set([target, ...sources].map(o => o.discount_id).filter(Boolean));
+    if (promotions.size > 1) {
+      throw new Error('Both bills have a different promotion applied. Remove one before merging.');
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      let { subtotal, tax_amount, discount_amount, promotion_discount, total_amount } = target;
+      let { discount_id, promotion_name, label, customer_id } = target;
+
+      sources.forEach((source) => {
+        dbQuery('UPDATE order_items SET order_id = ? WHERE order_id = ?', [target.id, source.id]);
+        dbQuery('UPDATE order_payments SET order_id = ? WHERE order_id = ?', [target.id, source.id]);
+
+        subtotal += source.subtotal || 0;
+        tax_amount += source.tax_amount || 0;
+        discount_amount += source.discount_amount || 0;
+        promotion_discount += source.promotion_discount || 0;
+        total_amount += source.total_amount || 0;
+        discount_id = discount_id || source.discount_id;
+        promotion_name = promotion_name || source.promotion_name;
+        label = label || source.label;
+        customer_id = customer_id || source.customer_id;
+
+        // The emptied bill stays on record (its number may already be on a kitchen ticket)
+        dbQuery(
+          `UPDATE orders SET status = 'cancelled', total_amount = 0, subtotal = 0, tax_amount = 0, discount_amount = 0,
+             discount_id = NULL, promotion_discount = 0, table_id = NULL, notes = ? WHERE id = ?`,
+          [`Merged into ${target.order_number}`, source.id]
+        );
+      });
+
+      // Bills with the same promotion each counted a use; the merged bill keeps only one
+      const promotionUses = [target, ...sources].filter(o => o.discount_id).length;
+      if (promotionUses > 1) {
+        dbQuery(
+          'UPDATE discounts SET usage_count = MAX(COALESCE(usage_count, 0) - ?, 0) WHERE id = ?',
+          [promotionUses - 1, discount_id]
+        );
+      }
+
+      dbQuery(
+        `UPDATE orders SET subtotal = ?, tax_amount = ?, discount_amount = ?, promotion_discount = ?, total_amount = ?,
+           discount_id = ?, promotion_name = ?, label = ?, customer_id = ? WHERE id = ?`,
+        [
+          roundMoney(subtotal),
+          roundMoney(tax_amount || 0),
+          roundMoney(discount_amount || 0),
+          roundMoney(promotion_discount || 0),
+          roundMoney(total_amount),
+          discount_id || null,
+          promotion_name || null,
+          label || null,
+          customer_id || null,
+          target.id,
+        ]
+      );
+      refreshPaymentStatus(target.id);
+
+      // The party may still sit at both tables; settling the bill frees them together
+      dbQuery(
+        `UPDATE tables SET status = 'occupied', current_order_id = ?, occupied_at = COALESCE(occupied_at, CURRENT_TIMESTAMP),
+           updated_at = CURRENT_TIMESTAMP WHERE id IN (?, ?)`,
+        [target.id, from.id, to.id]
+      );
+
+      logTransfer({
+        action: 'merge',
+        from_table_id: from.id,
+        to_table_id: to.id,
+        order_id: sources[0].id,
+        target_order_id: target.id,
+        user_id,
+        details: `Merged ${sources.map(o => o.order_number).join(', ')} (table ${from.number}) into ${target.order_number} (table ${to.number})`,
+      });
+    })();
+
+    return dbQuery('SELECT * FROM orders WHERE id = ?', [target.id])[0];
+  } catch (error) {
+    console.error('Error merging tables:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move part of a line (or all of it) to another order, copying its options and add-ons
+ * @param {Object} line - Order item
+ * @param {number} quantity - Quantity to move
+ * @param {number} orderId - Order to move it to
+ */
+function moveOrderLine(line, quantity, orderId) {
+  if (quantity === line.quantity) {
+    dbQuery('UPDATE order_items SET order_id = ? WHERE id = ?', [orderId, line.id]);
+    return;
+  }
+
+  const share = quantity / line.quantity;
+  const moved = {
+    subtotal: roundMoney(line.subtotal * share),
+    taxable_amount: roundMoney((line.taxable_amount ?? line.subtotal) * share),
+    tax_amount: roundMoney((line.tax_amount || 0) * share),
+  };
+
+  const result = dbQuery(
+    `INSERT INTO order_items (order_id, menu_item_id, quantity, price, subtotal, notes, size_id, size_name, size_price,
+       tax_rate, taxable_amount, tax_amount, seat_number)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      orderId, line.menu_item_id, quantity, line.price, moved.subtotal, line.notes, line.size_id, line.size_name, line.size_price,
+      line.tax_rate || 0, moved.taxable_amount, moved.tax_amount, line.seat_number ?? null,
+    ]
+  );
+  const newLineId = result.lastInsertRowid;
+
+  dbQuery(
+    `INSERT INTO order_item_options (order_item_id, option_id, option_group_id, price_modifier)
+     SELECT ?, option_id, option_group_id, price_modifier FROM order_item_options WHERE order_item_id = ?`,
+    [newLineId, line.id]
+  );
+  dbQuery(
+    `INSERT INTO order_item_addons (order_item_id, addon_id, quantity, price, subtotal)
+     SELECT ?, addon_id, quantity, price, subtotal FROM order_item_addons WHERE order_item_id = ?`,
+    [newLineId, line.id]
+  );
+  dbQuery(
+    `INSERT INTO order_item_custom_options (order_item_id, custom_option_id, name, price)
+     SELECT ?, custom_option_id, name, price FROM order_item_custom_options WHERE order_item_id = ?`,
+    [newLineId, line.id]
+  );
+
+  dbQuery(
+    'UPDATE order_items SET quantity = ?, subtotal = ?, taxable_amount = ?, tax_amount = ? WHERE id = ?',
+    [
+      line.quantity - quantity,
+      roundMoney(line.subtotal - moved.subtotal),
+      roundMoney((line.taxable_amount ?? line.subtotal) - moved.taxable_amount),
+      roundMoney((line.tax_amount || 0) - moved.tax_amount),
+      line.id,
+    ]
+  );
+}
+
+/**
+ * Split an open order into several bills. Each bill lists the lines (and how many of each) to take off
+ * the original order; whatever is not listed stays on it. The order discount is shared out by value.
+ * @param {Object} splitData - Split data
+ * @param {number} splitData.order_id - Order to split
+ * @param {Array<Array<{order_item_id: number, quantity: number}>>} splitData.bills - Lines for each new bill
+ * @param {number} splitData.user_id - User doing the split
+ * @returns {Promise<{order_id: number, new_order_ids: number[]}>} Original and new order IDs
+ */
+export function splitOrder(splitData) {
+  try {
+    const { order_id, bills, user_id } = splitData;
+    requireUser(user_id);
+    const order = requireOpenOrder(order_id);
+
+    const lines = dbQuery('SELECT * FROM order_items WHERE order_id = ? ORDER BY id', [order.id]);
+    const newBills = (bills || []).filter(bill => Array.isArray(bill) && bill.some(entry => entry.quantity > 0));
+    if (newBills.length === 0) {
+      throw new Error('Choose the items for the new bill');
+    }
+
+    // Validation: every line exists and is not split beyond its quantity
+    const taken = {};
+    newBills.flat().forEach(({ order_item_id, quantity }) => {
+      const line = lines.find(l => l.id === order_item_id);
+      if (!line) {
+        throw new Error('Item not found on this order');
+      }
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        throw new Error('Quantities must be whole numbers');
+      }
+      taken[line.id] = (taken[line.id] || 0) + quantity;
+      if (taken[line.id] > line.quantity) {
+        throw new Error(`Only ${line.quantity} of an item can be split`);
+      }
+    });
+    if (lines.every(line => (taken[line.id] || 0) === line.quantity)) {
+      throw new Error('Leave at least one item on the original bill');
+    }
+
+    const paid = dbQuery('SELECT COALESCE(SUM(amount), 0) as paid FROM order_payments WHERE order_id = ?', [order.id])[0].paid;
+    const table = order.table_id ? getTableById(order.table_id) : null;
+    const baseLabel = order.label || (table ? `Table ${table.number}` : order.order_number);
+
+    const db = getDatabase();
+    const newOrderIds = db.transaction(() => {
+      const ids = newBills.map((bill, index) => {
+        const numbers = getNextOrderNumber();
+        const result = dbQuery(
+          `INSERT INTO orders (order_number, terminal_id, business_date, pickup_number, total_amount, subtotal, tax_amount, tax_inclusive,
+             discount_amount, promotion_name, promotion_discount, table_id, order_type, customer_id, user_id, shift_id, label,
+             status, payment_status)
+           VALUES (?, ?, ?, ?, 0, 0, 0, ?, 0, ?, 0, ?, ?, ?, ?, ?, ?, 'pending', 'pending')`,
+          [
+            numbers.order_number, numbers.terminal_id, numbers.business_date, numbers.pickup_number, order.tax_inclusive || 0,
+            order.promotion_discount > 0 ? order.promotion_name : null, order.table_id || null, order.order_type || 'takeaway', order.customer_id || null,
+            order.user_id || null, order.shift_id || null, `${baseLabel} · Bill ${index + 2}`,
+          ]
+        );
+        const newOrderId = result.lastInsertRowid;
+        bill.filter(entry => entry.quantity > 0).forEach(({ order_item_id, quantity }) => {
+          // Re-read the line: an earlier bill may have taken part of it
+          const line = dbQuery('SELECT * FROM order_items WHERE id = ?', [order_item_id])[0];
+          moveOrderLine(line, quantity, newOrderId);
+        });
+        return newOrderId;
+      });
+
+      // Each new bill gets its share of the discount; the original keeps the rest so nothing is lost to rounding
+      const totals = { subtotal: 0, tax_amount: 0, discount_amount: 0, promotion_discount: 0, total_amount: 0 };
+      ids.forEach((id) => {
+        const sums = dbQuery(
+          'SELECT COALESCE(SUM(subtotal), 0) as subtotal, COALESCE(SUM(tax_amount), 0) as tax_amount FROM order_items WHERE order_id = ?',
+          [id]
+        )[0];
+        const share = order.subtotal > 0 ? sums.subtotal / order.subtotal : 0;
+        const discount = roundMoney((order.discount_amount || 0) * share);
+        const promotion = roundMoney((order.promotion_discount || 0) * share);
+        const net = Math.max(0, sums.subtotal - discount);
+        const total = roundMoney(order.tax_inclusive ? net : net + sums.tax_amount);
+
+        dbQuery(
+          'UPDATE orders SET subtotal = ?, tax_amount = ?, discount_amount = ?, promotion_discount = ?, total_amount = ? WHERE id = ?',
+          [roundMoney(sums.subtotal), roundMoney(sums.tax_amount), discount, promotion, total, id]
+        );
+        totals.subtotal += sums.subtotal;
+        totals.tax_amount += sums.tax_amount;
+        totals.discount_amount += discount;
+        totals.promotion_discount += promotion;
+        totals.total_amount += total;
+      });
+
+      const remainingTotal = roundMoney(order.total_amount - totals.total_amount);
+      if (paid > remainingTotal + 0.005) {
+        throw new Error('Part payments already cover more than would be left on the original bill');
+      }
+      dbQuery(
+        'UPDATE orders SET subtotal = ?, tax_amount = ?, discount_amount = ?, promotion_discount = ?, total_amount = ? WHERE id = ?',
+        [
+          roundMoney(order.subtotal - totals.subtotal),
+          roundMoney((order.tax_amount || 0) - totals.tax_amount),
+          roundMoney((order.discount_amount || 0) - totals.discount_amount),
+          roundMoney((order.promotion_discount || 0) - totals.promotion_discount),
+          remainingTotal,
+          order.id,
+        ]
+      );
+      refreshPaymentStatus(order.id);
+
+      const numbers = ids.map(id => dbQuery('SELECT order_number FROM orders WHERE id = ?', [id])[0].order_number);
+      logTransfer({
+        action: 'split',
+        from_table_id: order.table_id,
+        to_table_id: order.table_id,
+        order_id: order.id,
+        target_order_id: ids[0],
+        user_id,
+        details: `Split ${order.order_number} into ${ids.length + 1} bills (new: ${numbers.join(', ')})`,
+      });
+
+      return ids;
+    })();
+
+    return { order_id: order.id, new_order_ids: newOrderIds };
+  } catch (error) {
+    console.error('Error splitting order:', error);
+    throw error;
+  }
+}
+
+/**
+ * Split an open order into one bill per seat. Lines without a seat stay on the original bill;
+ * if every line has a seat, the lowest seat stays on it.
+ * @param {Object} splitData - Split data
+ * @param {number} splitData.order_id - Order to split
+ * @param {number} splitData.user_id - User doing the split
+ * @returns {Promise<{order_id: number, new_order_ids: number[]}>} Original and new order IDs
+ */
+export function splitOrderBySeat(splitData) {
+  try {
+    const { order_id, user_id } = splitData;
+    const lines = dbQuery('SELECT id, quantity, seat_number FROM order_items WHERE order_id = ? ORDER BY id', [order_id]);
+    const seats = Array.from(new Set(lines.filter(l => l.seat_number).map(l => l.seat_number))).sort((a, b) => a - b);
+    const movedSeats = lines.some(l => !l.seat_number) ? seats : seats.slice(1);
+    if (movedSeats.length === 0) {
+      throw new Error('Assign seats to the items before splitting by seat');
+    }
+
+    return splitOrder({
+      order_id,
+      user_id,
+      bills: movedSeats.map(seat =>
+        lines.filter(l => l.seat_number === seat).map(l => ({ order_item_id: l.id, quantity: l.quantity }))
+      ),
+    });
+  } catch (error) {
+    console.error('Error splitting order by seat:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the move/merge/split log, newest first
+ * @param {number} [limit] - Maximum number of entries (default 100)
+ * @returns {Promise<Array>} Array of transfers with table numbers and user names
+ */
+export function getTableTransfers(limit = 100) {
+  try {
+    return dbQuery(
+      `SELECT tt.*, ft.number as from_table_number, tt2.number as to_table_number,
+         u.username, u.full_name as user_name
+       FROM table_transfers tt
+       LEFT JOIN tables ft ON tt.from_table_id = ft.id
+       LEFT JOIN tables tt2 ON tt.to_table_id = tt2.id
+       LEFT JOIN users u ON tt.user_id = u.id
+       ORDER BY tt.created_at DESC, tt.id DESC
+       LIMIT ?`,
+      [limit]
+    );
+  } catch (error) {
+    console.error('Error getting table transfers:', error);
+    throw new Error('Failed to retrieve table history');
+  }
+}
@@ -0,0 +1,117 @@
+// Tax service for handling tax classes
+import { dbQuery } from './databaseService.js';
+
+/**
+ * Get all tax classes
+ * @returns {Promise<Array>} Array of tax classes
+ */
+export function getAllTaxClasses() {
+  try {
+    return dbQuery('SELECT * FROM tax_classes ORDER BY rate, name');
+  } catch (error) {
+    console.error('Error getting all tax classes:', error);
+    throw new Error('Failed to retrieve tax classes');
+  }
+}
+
+/**
+ * Get tax class by ID
+ * @param {number} id - Tax class ID
+ * @returns {Promise<Object|null>} Tax class or null if not found
+ */
+export function getTaxClassById(id) {
+  try {
+    const results = dbQuery('SELECT * FROM tax_classes WHERE id = ?', [id]);
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Error getting tax class by ID:', error);
+    throw new Error('Failed to retrieve tax class');
+  }
+}
+
+/**
+ * Validate tax class fields shared by create and update
+ * @param {Object} taxClassData - Tax class data
+ * @param {number} [excludeId] - Tax class being updated (skipped in the duplicate name check)
+ */
+function validateTaxClass(taxClassData, excludeId) {
+  const { name, rate } = taxClassData;
+
+  if (!name || !name.trim()) {
+    throw new Error('Tax class name is required');
+  }
+  if (rate === undefined || rate === null || isNaN(rate) || Number(rate) < 0 || Number(rate) > 100) {
+    throw new Error('Tax rate must be between 0 and 100');
+  }
+
+  const existing = dbQuery('SELECT id FROM tax_classes WHERE name = ? AND id != ?', [name.trim(), excludeId || 0]);
+  if (existing.length > 0) {
+    throw new Error('Tax class with this name already exists');
+  }
+}
+
+/**
+ * Create a new tax class
+ * @param {Object} taxClassData - Tax class data
+ * @param {string} taxClassData.name - Name (required)
+ * @param {number} taxClassData.rate - Rate percentage (required)
+ * @param {string} [taxClassData.description] - Description
+ * @returns {Promise<Object>} Created tax class
+ */
+export function createTaxClass(taxClassData) {
+  try {
+    validateTaxClass(taxClassData);
+    const { name, rate, description } = taxClassData;
+
+    const result = dbQuery(
+      'INSERT INTO tax_classes (name, rate, description) VALUES (?, ?, ?)',
+      [name.trim(), Number(rate), description?.trim() || null]
+    );
+
+    return getTaxClassById(result.lastInsertRowid);
+  } catch (error) {
+    console.error('Error creating tax class:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an existing tax class (past order lines keep the rate they were charged)
+ * @param {number} id - Tax class ID
+ * @param {Object} taxClassData - Updated tax class data
+ * @returns {Promise<Object>} Updated tax class
+ */
+export function updateTaxClass(id, taxClassData) {
+  try {
+    if (!getTaxClassById(id)) {
+      throw new Error('Tax class not found');
+    }
+    validateTaxClass(taxClassData, id);
+    const { name, rate, description } = taxClassData;
+
+    dbQuery(
+      'UPDATE tax_classes SET name = ?, rate = ?, description = ? WHERE id = ?',
+      [name.trim(), Number(rate), description?.trim() || null, id]
+    );
+
+    return getTaxClassById(id);
+  } catch (error) {
+    console.error('Error updating tax class:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a tax class; categories and items using it fall back to the standard rate
+ * @param {number} id - Tax class ID
+ * @returns {Promise<boolean>} True if deleted
+ */
+export function deleteTaxClass(id) {
+  try {
+    const result = dbQuery('DELETE FROM tax_classes WHERE id = ?', [id]);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('Error deleting tax class:', error);
+    throw error;
+  }
+}
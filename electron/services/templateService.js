@@ -0,0 +1,555 @@
+// Template service for handling the editable receipt, refund, kitchen ticket and Z-report layouts
+import { dbQuery } from './databaseService.js';
+
+/*
+ * Template markup
+ *
+ * Placeholders   {{order_number}}, {{shift.id}}; values are printed as text
+ * Conditionals   {{#if discount}}...{{else}}...{{/if}}, {{#unless tax_inclusive}}...{{/unless}}
+ * Loops          {{#each items}}...{{/each}}; inside, the item's fields (or {{this}}) and
+ *                {{@index}}, {{@number}}, {{@first}}, {{@last}}; outer fields stay visible
+ * Lines          start with [center], [right], [bold], [large] or [small] (combine freely);
+ *                "left | right" prints columns, "---" a rule and [logo] the template's logo
+ *
+ * A block tag alone on its line takes its line break with it, so conditional lines leave no gap.
+ */
+
+export const TEMPLATE_TYPES = {
+  receipt: {
+    name: 'Customer Receipt',
+    fields: [
+      'order_number', 'pickup_number', 'date', 'order_type', 'table_number', 'customer_name',
+      'items[] (quantity, name, size, modifiers[], notes, price, total)', 'item_count',
+      'subtotal', 'promotion_name', 'promotion_discount', 'discount', 'tax', 'tax_inclusive',
+      'tax_lines[] (label, amount)', 'total', 'payments[] (method, amount)', 'change', 'payment_method',
+    ],
+  },
+  refund: {
+    name: 'Refund / Void Receipt',
+    fields: [
+      'title', 'refund_number', 'order_number', 'pickup_number', 'date', 'cashier', 'approved_by',
+      'items[] (quantity, name, amount, restocked)', 'tax', 'total', 'refund_method', 'reason',
+    ],
+  },
+  kitchen: {
+    name: 'Kitchen Ticket',
+    fields: [
+      'heading', 'order_number', 'pickup_number', 'order_type', 'table_number', 'customer_name', 'time',
+      'items[] (quantity, name, station, size, options[], notes)',
+    ],
+  },
+  z_report: {
+    name: 'Z-Report',
+    fields: [
+      'shift_id', 'cashier', 'closed_by', 'opened_at', 'closed_at', 'order_count', 'sales_total',
+      'discount_total', 'tax_total', 'refund_total', 'void_count', 'tenders[] (method, count, amount)',
+      'opening_float', 'cash_sales', 'paid_in', 'paid_out', 'cash_refunds', 'expected_cash',
+      'counted_cash', 'over_short_label', 'over_short', 'denominations[] (count, denomination, amount)',
+    ],
+  },
+};
+
+// Fields every template can use
+export const BUSINESS_FIELDS = ['business_name', 'business_address', 'business_phone', 'business_email', 'receipt_footer', 'printed_at'];
+
+const DEFAULT_TEMPLATES = {
+  receipt: `[logo]
+[center][bold][large]{{business_name}}
+{{#if business_address}}
+[center]{{business_address}}
+{{/if}}
+{{#if business_phone}}
+[center]Tel: {{business_phone}}
+{{/if}}
+---
+{{#if pickup_number}}
+[center][bold][large]Pickup #{{pickup_number}}
+{{/if}}
+Order #: | {{order_number}}
+Date: | {{date}}
+{{#if table_number}}
+Table: | {{table_number}}
+{{/if}}
+{{#if customer_name}}
+Customer: | {{customer_name}}
+{{/if}}
+---
+{{#each items}}
+{{quantity}}x {{name}} | {{total}}
+{{#if modifiers}}
+[small]   {{#each modifiers}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
+{{/each}}
+---
+Subtotal: | {{subtotal}}
+{{#if promotion_discount}}
+{{promotion_name}}: | -{{promotion_discount}}
+{{/if}}
+{{#if discount}}
+Discount: | -{{discount}}
+{{/if}}
+{{#if tax}}
+Tax: | {{tax}}
+{{/if}}
+[bold]TOTAL: | {{total}}
+{{#each payments}}
+{{method}}: | {{amount}}
+{{else}}
+{{#if payment_method}}
+Payment: | {{payment_method}}
+{{/if}}
+{{/each}}
+{{#if change}}
+Change: | {{change}}
+{{/if}}
+{{#if tax_lines}}
+---
+{{#each tax_lines}}
+[small]{{label}}: | {{amount}}
+{{/each}}
+{{/if}}
+---
+[center]{{receipt_footer}}
+`,
+  refund: `[center][bold][large]{{business_name}}
+[center][bold]{{title}}
+---
+Refund #: | {{refund_number}}
+Order #: | {{order_number}}{{#if pickup_number}} (#{{pickup_number}}){{/if}}
+Date: | {{date}}
+{{#if cashier}}
+By: | {{cashier}}
+{{/if}}
+{{#if approved_by}}
+Approved: | {{approved_by}}
+{{/if}}
+{{#if items}}
+---
+{{#each items}}
+{{quantity}}x {{name}}{{#if restocked}} (restocked){{/if}} | -{{amount}}
+{{/each}}
+{{/if}}
+---
+{{#if tax}}
+Tax refunded: | {{tax}}
+{{/if}}
+[bold]TOTAL REFUNDED: | {{total}}
+{{#if refund_method}}
+Refunded to: | {{refund_method}}
+{{/if}}
+---
+Reason: {{reason}}
+---
+
+Customer signature:
+
+
+---
+`,
+  kitchen: `[center][bold]{{heading}}
+{{#if pickup_number}}
+[center][bold][large]#{{pickup_number}}
+{{/if}}
+{{#if order_type}}
+[center][bold]{{order_type}}{{#if table_number}} - TABLE {{table_number}}{{/if}}
+{{/if}}
+Order #: | {{order_number}}
+Time: | {{time}}
+{{#if customer_name}}
+Customer: | {{customer_name}}
+{{/if}}
+---
+{{#each items}}
+[bold][large]{{quantity}}x {{name}}
+{{#if station}}
+  [{{station}}]
+{{/if}}
+{{#if size}}
+  Size: {{size}}
+{{/if}}
+{{#if options}}
+  + {{#each options}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
+{{#if notes}}
+[bold]  NOTE: {{notes}}
+{{/if}}
+---
+{{/each}}
+`,
+  z_report: `[center][bold][large]{{business_name}}
+[center][bold]Z-REPORT
+---
+Shift #: | {{shift_id}}
+Cashier: | {{cashier}}
+{{#if closed_by}}
+Closed by: | {{closed_by}}
+{{/if}}
+Opened: | {{opened_at}}
+Closed: | {{closed_at}}
+---
+Orders: | {{order_count}}
+Sales: | {{sales_total}}
+{{#if discount_total}}
+Discounts: | {{discount_total}}
+{{/if}}
+{{#if tax_total}}
+Tax: | {{tax_total}}
+{{/if}}
+{{#if refund_total}}
+Refunds: | -{{refund_total}}
+{{/if}}
+{{#if void_count}}
+Voids: | {{void_count}}
+{{/if}}
+{{#if tenders}}
+---
+[bold]TENDERS
+{{#each tenders}}
+{{method}} ({{count}}) | {{amount}}
+{{/each}}
+{{/if}}
+---
+[bold]CASH DRAWER
+Opening float: | {{opening_float}}
+Cash sales: | {{cash_sales}}
+Paid in: | {{paid_in}}
+Paid out: | -{{paid_out}}
+Cash refunds: | -{{cash_refunds}}
+[bold]EXPECTED: | {{expected_cash}}
+[bold]COUNTED: | {{counted_cash}}
+[bold]{{over_short_label}} | {{over_short}}
+{{#if denominations}}
+---
+[bold]COUNT
+{{#each denominations}}
+{{count}} x {{denomination}} | {{amount}}
+{{/each}}
+{{/if}}
+---
+[center]End of report
+`,
+};
+
+// Values stand in for these while a line is split into columns and tags, so a
+// customer called "A | B" can't add a column
+const VALUE_ESCAPES = [['|', '\u0001'], ['[', '\u0002']];
+
+const LINE_TAGS = ['center', 'right', 'bold', 'large', 'small', 'logo'];
+
+/**
+ * Parse template text into a tree of text, value and block nodes
+ * @param {string} body - Template text
+ * @returns {Array<Object>} Nodes
+ */
+function parseTemplate(body) {
+  // A block tag alone on a line swallows the line break
+  const source = String(body ?? '').replace(/^[ \t]*(\{\{\s*(?:#(?:if|unless|each)\s+[\w.@]+|else|\/(?:if|unless|each))\s*\}\})[ \t]*\r?\n/gm, '$1');
+  const root = { children: [] };
+  const stack = [root];
+  const tokens = /\{\{\s*(?:(#if|#unless|#each)\s+|(else|\/if|\/unless|\/each)(?=\s*\}\}))?([\w.@]*)\s*\}\}/g;
+  let last = 0;
+  let match;
+
+  const current = () => stack[stack.length - 1];
+  const append = (node) => (current().inElse ? current().otherwise : current().children).push(node);
+
+  const appendText = (value) => {
+    const stray = value.indexOf('{{');
+    if (stray >= 0) throw new Error(`Unrecognised tag near "${value.slice(stray, stray + 24)}"`);
+    append({ type: 'text', value });
+  };
+
+  while ((match = tokens.exec(source)) !== null) {
+    if (match.index > last) appendText(source.slice(last, match.index));
+    last = tokens.lastIndex;
+    const [tag, opening, closing, path] = match;
+    const keyword = opening || closing;
+
+    if (!keyword) {
+      if (!path) throw new Error(`Empty placeholder ${tag}`);
+      append({ type: 'value', path });
+    } else if (keyword.startsWith('#')) {
+      if (!path) throw new Error(`${tag} needs a field name`);
+      const node = { type: keyword.slice(1), path, children: [], otherwise: [], inElse: false };
+      append(node);
+      stack.push(node);
+    } else if (keyword === 'else') {
+      if (stack.length === 1 || current().inElse) throw new Error('{{else}} outside an {{#if}}, {{#unless}} or {{#each}}');
+      current().inElse = true;
+    } else {
+      const open = keyword.slice(1);
+      if (stack.length === 1 || current().type !== open) {
+        throw new Error(`${tag} does not match ${stack.length === 1 ? 'any open block' : `{{#${current().type} ${current().path}}}`}`);
+      }
+      stack.pop();
+    }
+  }
+  if (stack.length > 1) {
+    throw new Error(`{{#${current().type} ${current().path}}} is never closed`);
+  }
+  if (last < source.length) appendText(source.slice(last));
+  return root.children;
+}
+
+/**
+ * Look a field up from the innermost scope outwards
+ * @param {Array<Object>} scopes - Scopes, outermost first
+ * @param {string} path - Field name, dotted for nested fields
+ * @returns {*} Value, or undefined
+ */
+function lookup(scopes, path) {
+  if (path === 'this') return scopes[scopes.length - 1].value;
+  if (path.startsWith('@')) return scopes[scopes.length - 1].meta?.[path.slice(1)];
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const value = scopes[i].value;
+    if (value && typeof value === 'object' && head in value) {
+      return rest.reduce((acc, key) => (acc == null ? undefined : acc[key]), value[head]);
+    }
+  }
+  return undefined;
+}
+
+const isTruthy = (value) => (Array.isArray(value) ? value.length > 0 : !!value);
+
+/**
+ * Render parsed nodes against data
+ * @param {Array<Object>} nodes - Parsed template
+ * @param {Array<Object>} scopes - Data scopes
+ * @returns {string} Text
+ */
+function renderNodes(nodes, scopes) {
+  return nodes.map((node) => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'value') {
+      const value = lookup(scopes, node.path);
+      if (value == null || typeof value === 'object') return '';
+      return VALUE_ESCAPES.reduce((text, [char, stand]) => text.split(char).join(stand), String(value).replace(/\r?\n/g, ' '));
+    }
+    if (node.type === 'if' || node.type === 'unless') {
+      const show = isTruthy(lookup(scopes, node.path)) === (node.type === 'if');
+      return renderNodes(show ? node.children : node.otherwise, scopes);
+    }
+    // each
+    const list = lookup(scopes, node.path);
+    if (!Array.isArray(list) || list.length === 0) return renderNodes(node.otherwise, scopes);
+    return list.map((value, index) => renderNodes(node.children, [
+      ...scopes,
+      { value, meta: { index, number: index + 1, first: index === 0, last: index === list.length - 1 } },
+    ])).join('');
+  }).join('');
+}
+
+/**
+ * Render a template into printable lines
+ * @param {string} body - Template text
+ * @param {Object} data - Fields for the placeholders
+ * @returns {Array<Object>} Lines of { align, bold, size, logo, rule, cells }
+ */
+export function renderTemplate(body, data) {
+  const text = renderNodes(parseTemplate(body), [{ value: data }]);
+  const restore = (value) => VALUE_ESCAPES.reduce((acc, [char, stand]) => acc.split(stand).join(char), value);
+
+  return text.replace(/\n$/, '').split(/\r?\n/).map((raw) => {
+    const line = { align: 'left', bold: false, size: 'normal', logo: false, rule: false, cells: [] };
+    let rest = raw;
+    let tag;
+    while ((tag = rest.match(/^\[(\w+)\]/)) && LINE_TAGS.includes(tag[1])) {
+      if (tag[1] === 'center' || tag[1] === 'right') line.align = tag[1];
+      else if (tag[1] === 'bold') line.bold = true;
+      else if (tag[1] === 'large' || tag[1] === 'small') line.size = tag[1];
+      else line.logo = true;
+      rest = rest.slice(tag[0].length);
+    }
+    if (rest.trim() === '---') {
+      line.rule = true;
+    } else if (rest.includes('|')) {
+      line.cells = rest.split('|').map((cell, i, all) => restore(i === 0 ? cell.trimEnd() : i === all.length - 1 ? cell.trimStart() : cell.trim()));
+    } else {
+      line.cells = rest ? [restore(rest)] : [];
+    }
+    return line;
+  });
+}
+
+/**
+ * Check that template text parses
+ * @param {string} body - Template text
+ * @returns {string|null} Problem, or null when the template is fine
+ */
+export function validateTemplate(body) {
+  try {
+    parseTemplate(body);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+/**
+ * Built-in layout of a template type
+ * @param {string} type - Template type
+ * @returns {string} Template text
+ */
+export function getDefaultTemplateBody(type) {
+  return DEFAULT_TEMPLATES[type] || '';
+}
+
+/**
+ * Shape a template row for the renderer; a blank body means the built-in layout
+ * @param {string} type - Template type
+ * @param {Object|undefined} row - print_templates row
+ * @returns {Object} Template
+ */
+function toTemplate(type, row) {
+  return {
+    template_type: type,
+    name: TEMPLATE_TYPES[type].name,
+    body: row?.body || DEFAULT_TEMPLATES[type],
+    default_body: DEFAULT_TEMPLATES[type],
+    is_default: !row?.body,
+    paper_width: row?.paper_width || null,
+    logo: row?.logo || null,
+    fields: [...BUSINESS_FIELDS, ...TEMPLATE_TYPES[type].fields],
+    updated_at: row?.updated_at || null,
+  };
+}
+
+/**
+ * Get every print template, built-in layouts included
+ * @returns {Promise<Array>} Templates, in TEMPLATE_TYPES order
+ */
+export function getAllPrintTemplates() {
+  try {
+    const rows = dbQuery('SELECT * FROM print_templates');
+    return Object.keys(TEMPLATE_TYPES).map(type => toTemplate(type, rows.find(r => r.template_type === type)));
+  } catch (error) {
+    console.error('Error getting print templates:', error);
+    throw new Error('Failed to retrieve print templates');
+  }
+}
+
+/**
+ * Get the template used for a printout
+ * @param {string} type - receipt, refund, kitchen or z_report
+ * @returns {Promise<Object>} Template
+ */
+export function getPrintTemplate(type) {
+  if (!TEMPLATE_TYPES[type]) {
+    throw new Error(`Unknown template type: ${type}`);
+  }
+  try {
+    return toTemplate(type, dbQuery('SELECT * FROM print_templates WHERE template_type = ?', [type])[0]);
+  } catch (error) {
+    console.error('Error getting print template:', error);
+    throw new Error('Failed to retrieve print template');
+  }
+}
+
+/**
+ * Save a template's text, paper width and logo
+ * @param {string} type - Template type
+ * @param {Object} template - { body, paper_width, logo }; a body equal to the built-in layout is stored blank
+ * @returns {Promise<Object>} Saved template
+ */
+export function updatePrintTemplate(type, { body, paper_width = null, logo = null }) {
+  if (!TEMPLATE_TYPES[type]) {
+    throw new Error(`Unknown template type: ${type}`);
+  }
+  const problem = validateTemplate(body);
+  if (problem) {
+    throw new Error(`Template error: ${problem}`);
+  }
+  if (paper_width != null && ![58, 80].includes(Number(paper_width))) {
+    throw new Error('Paper width must be 58 or 80 mm');
+  }
+
+  try {
+    const storedBody = !body || body === DEFAULT_TEMPLATES[type] ? null : body;
+    dbQuery(
+      `INSERT INTO print_templates (template_type, body, paper_width, logo)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(template_type) DO UPDATE SET
+         body = excluded.body, paper_width = excluded.paper_width, logo = excluded.logo, updated_at = CURRENT_TIMESTAMP`,
+      [type, storedBody, paper_width ? Number(paper_width) : null, logo || null]
+    );
+    return getPrintTemplate(type);
+  } catch (error) {
+    console.error('Error updating print template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put a template's text back to the built-in layout; paper width and logo are kept
+ * @param {string} type - Template type
+ * @returns {Promise<Object>} Template
+ */
+export function resetPrintTemplate(type) {
+  if (!TEMPLATE_TYPES[type]) {
+    throw new Error(`Unknown template type: ${type}`);
+  }
+  try {
+    dbQuery('UPDATE print_templates SET body = NULL, updated_at = CURRENT_TIMESTAMP WHERE template_type = ?', [type]);
+    return getPrintTemplate(type);
+  } catch (error) {
+    console.error('Error resetting print template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Business details every template can print
+ * @returns {Object} business_* fields and receipt_footer
+ */
+export function getBusinessDetails() {
+  const rows = dbQuery(
+    "SELECT key, value FROM settings WHERE key IN ('business_name', 'business_address', 'business_phone', 'business_email', 'receipt_footer')"
+  );
+  const values = Object.fromEntries(rows.map(row => [row.key, row.value || '']));
+  return {
+    business_name: values.business_name || 'The Kings Bakery',
+    business_address: values.business_address || '',
+    business_phone: values.business_phone || '',
+    business_email: values.business_email || '',
+    receipt_footer: values.receipt_footer || '',
+  };
+}
+
+/**
+ * Example printout data for the editor preview, in the shape the print handlers receive
+ * @param {string} type - Template type
+ * @returns {Object} Order, refund or Z-report data
+ */
+export function getTemplateSampleData(type) {
+  const now = new Date().toISOString();
+  const items = [
+    { name: 'Croissant', quantity: 2, price: 25, subtotal: 50, size: 'Large', options: [{ name: 'Extra butter' }, { name: 'Warmed' }], station: 'Oven' },
+    { name: 'Cappuccino', quantity: 1, price: 40, subtotal: 40, notes: 'Oat milk', station: 'Coffee Bar' },
+  ];
+
+  if (type === 'refund') {
+    return {
+      refund_number: 'R-0001', refund_type: 'refund', order_number: 'ORD-0042', pickup_number: 17, created_at: now,
+      user_name: 'Cashier', approved_by_name: 'Manager', reason: 'Wrong item', refund_method: 'cash', amount: 25, tax_amount: 0,
+      items: [{ name: 'Croissant', quantity: 1, amount: 25, restocked: 0 }],
+    };
+  }
+  if (type === 'z_report') {
+    return {
+      shift: {
+        id: 12, full_name: 'Cashier', opened_at: now, closed_at: now, opening_float: 500,
+        denominations: [{ denomination: 100, count: 8 }, { denomination: 20, count: 5 }],
+      },
+      order_count: 24, sales_total: 1240, discount_total: 35, tax_total: 0, refund_total: 25, void_count: 1,
+      tenders: [{ payment_method: 'cash', payment_count: 15, total_amount: 800 }, { payment_method: 'card', payment_count: 9, total_amount: 440 }],
+      cash_sales: 800, paid_in: 0, paid_out: 100, cash_refunds: 25, expected_cash: 1175, counted_cash: 1170, over_short: -5,
+    };
+  }
+  return {
+    order_number: 'ORD-0042', pickup_number: 17, order_type: type === 'kitchen' ? 'takeaway' : 'dine_in', table_number: type === 'kitchen' ? null : '4',
+    customer_name: 'Aminata', created_at: now, items,
+    subtotal: 90, discount_amount: 10, promotion_name: 'Morning Deal', promotion_discount: 10, tax_amount: 0, tax_inclusive: 0,
+    total_amount: 80, payments: [{ payment_method: 'cash', amount: 80, amount_tendered: 100, change_given: 20 }],
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Zip Service - Minimal zip archive writer
+ *
+ * Builds a standard zip file (deflate, no zip64) in memory from a list of
+ * files. Enough for exporting a few thousand receipts; every archive tool
+ * and OS file manager opens the result.
+ */
+
+import zlib from 'zlib';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const VERSION = 20; // 2.0: deflate and folders
+const UTF8_NAMES = 0x0800; // General purpose flag bit 11
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// Zip offsets and sizes are 32-bit and entry counts 16-bit without zip64
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of a buffer, as zip headers store it
+ * @param {Buffer} data - File contents
+ * @returns {number} Unsigned CRC-32
+ */
+const crc32 = (data) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * MS-DOS time and date fields, in local time (zip has no time zones)
+ * @param {Date} date - Modification time
+ * @returns {Object} { time, date }
+ */
+const toDosDateTime = (date) => {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a zip archive
+ * Files are deflated unless that doesn't make them smaller (PDFs are often compressed already).
+ * @param {Array<{name: string, data: Buffer, modified?: Date}>} files - Files; names may contain / for folders
+ * @returns {Buffer} Zip file
+ */
+export const createZip = (files) => {
+  if (files.length > MAX_ENTRIES) {
+    throw new Error(`A zip file can hold at most ${MAX_ENTRIES} files`);
+  }
+
+  const parts = [];
+  const centralDirectory = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name.replace(/\\/g, '/'), 'utf8');
+    const data = Buffer.isBuffer(file.data) ? file.data : Buffer.from(file.data);
+    const deflated = zlib.deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(file.modified || new Date());
+
+    if (offset + 30 + name.length + body.length > MAX_SIZE) {
+      throw new Error('The export is too large for one zip file; choose a shorter date range');
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    entry.writeUInt16LE(VERSION, 4); // Made by
+    entry.writeUInt16LE(VERSION, 6); // Needed to extract
+    entry.writeUInt16LE(UTF8_NAMES, 8);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(body.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes (30-41) stay 0
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(header, name, body);
+    centralDirectory.push(entry, name);
+    offset += header.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  // Disk numbers (4-7) stay 0
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20); // Comment length
+
+  return Buffer.concat([...parts, directory, end]);
+};
@@ -0,0 +1,119 @@
+/**
+ * Stand-in for a network receipt printer: listens on a TCP port (9100 by default),
+ * saves every print job it receives as a .bin file and prints a readable decode.
+ * Point receipt_printer (or a prep station's printer) at 127.0.0.1:<port> to use it.
+ * Usage: node scripts/escpos-capture.js [port] [output dir]
+ */
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const port = parseInt(process.argv[2], 10) || 9100;
+const outDir = path.resolve(process.argv[3] || path.join(__dirname, '..', 'escpos-capture'));
+
+// Commands with a fixed number of parameter bytes after the command byte
+const ESC_COMMANDS = {
+  0x40: ['init', 0], 0x74: ['codepage', 1], 0x45: ['bold', 1], 0x2d: ['underline', 1],
+  0x4d: ['font', 1], 0x61: ['align', 1], 0x64: ['feed', 1], 0x70: ['drawer kick', 3],
+};
+const GS_COMMANDS = { 0x21: ['size', 1], 0x42: ['invert', 1], 0x68: ['barcode height', 1], 0x77: ['barcode width', 1], 0x48: ['barcode text', 1] };
+
+/**
+ * Turn a command stream into one line per command or line of text
+ * @param {Buffer} data - Captured bytes
+ * @returns {string[]} Readable lines
+ */
+function decode(data) {
+  const out = [];
+  let text = '';
+  const flush = () => {
+    if (text) out.push(`  "${text}"`);
+    text = '';
+  };
+  let i = 0;
+  while (i < data.length) {
+    const byte = data[i];
+    if (byte === 0x0a) {
+      flush();
+      out.push('  <LF>');
+      i += 1;
+    } else if (byte === 0x1b && ESC_COMMANDS[data[i + 1]]) {
+      flush();
+      const [name, argc] = ESC_COMMANDS[data[i + 1]];
+      out.push(`[ESC ${name}${argc ? ` ${[...data.subarray(i + 2, i + 2 + argc)].join(' ')}` : ''}]`);
+      i += 2 + argc;
+    } else if (byte === 0x1d && GS_COMMANDS[data[i + 1]]) {
+      flush();
+      const [name, argc] = GS_COMMANDS[data[i + 1]];
+      out.push(`[GS ${name} ${[...data.subarray(i + 2, i + 2 + argc)].join(' ')}]`);
+      i += 2 + argc;
+    } else if (byte === 0x1d && data[i + 1] === 0x56) {
+      flush();
+      // GS V m n: m 65/66 carry a feed byte
+      const mode = data[i + 2];
+      out.push(`[GS cut ${mode === 66 || mode === 1 ? 'partial' : 'full'}]`);
+      i += mode >= 65 ? 4 : 3;
+    } else if (byte === 0x1d && data[i + 1] === 0x76 && data[i + 2] === 0x30) {
+      flush();
+      // GS v 0 m xL xH yL yH, then the bitmap
+      const widthBytes = data[i + 4] + data[i + 5] * 256;
+      const height = data[i + 6] + data[i + 7] * 256;
+      out.push(`[GS image ${widthBytes * 8}x${height}]`);
+      i += 8 + widthBytes * height;
+    } else if (byte === 0x1d && data[i + 1] === 0x28 && data[i + 2] === 0x6b) {
+      flush();
+      // GS ( k pL pH cn fn ...: the QR symbol commands
+      const length = data[i + 3] + data[i + 4] * 256;
+      const fn = data[i + 6];
+      if (fn === 0x50) out.push(`[GS qr data "${data.subarray(i + 8, i + 5 + length).toString('latin1')}"]`);
+      else if (fn === 0x51) out.push('[GS qr print]');
+      i += 5 + length;
+    } else if (byte === 0x1d && data[i + 1] === 0x6b) {
+      flush();
+      // GS k m n data
+      const length = data[i + 3];
+      out.push(`[GS barcode type ${data[i + 2]} "${data.subarray(i + 4, i + 4 + length).toString('latin1')}"]`);
+      i += 4 + length;
+    } else if (byte >= 0x20 && byte < 0x7f) {
+      text += String.fromCharCode(byte);
+      i += 1;
+    } else {
+      flush();
+      out.push(`[0x${byte.toString(16).padStart(2, '0')}]`);
+      i += 1;
+    }
+  }
+  flush();
+  return out;
+}
+
+fs.mkdirSync(outDir, { recursive: true });
+let jobCount = 0;
+
+const server = net.createServer((socket) => {
+  const from = socket.remoteAddress;
+  const chunks = [];
+  socket.on('data', chunk => chunks.push(chunk));
+  socket.on('error', error => console.error('Connection error:', error.message));
+  socket.on('close', () => {
+    const data = Buffer.concat(chunks);
+    if (data.length === 0) return;
+    jobCount += 1;
+    const file = path.join(outDir, `job-${new Date().toISOString().replace(/[:.]/g, '-')}-${jobCount}.bin`);
+    fs.writeFileSync(file, data);
+    console.log(`\n=== Job ${jobCount}: ${data.length} bytes from ${from} -> ${file}`);
+    console.log(decode(data).join('\n'));
+  });
+});
+
+server.on('error', (error) => {
+  console.error(error.code === 'EADDRINUSE' ? `Port ${port} is already in use` : error.message);
+  process.exit(1);
+});
+
+server.listen(port, () => {
+  console.log(`ESC/POS capture listening on port ${port}, saving jobs to ${outDir}`);
+});
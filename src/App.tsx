@@ -1,4 +1,4 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import CssBaseline from '@mui/material/CssBaseline';
 import { Box, CircularProgress } from '@mui/material';
 import { ThemeContextProvider } from './contexts/ThemeContext';
@@ -11,6 +11,14 @@ import Inventory from './pages/Inventory';
 import Analytics from './pages/Analytics';
 import MenuManagement from './pages/MenuManagement';
 import Settings from './pages/Settings';
+import Shifts from './pages/Shifts';
+import Promotions from './pages/Promotions';
+import TableManagement from './pages/TableManagement';
+import Reservations from './pages/Reservations';
+import KitchenDisplay from './pages/KitchenDisplay';
+import CustomerDisplay from './pages/CustomerDisplay';
+import PrintJobs from './pages/PrintJobs';
+import Production from './pages/Production';
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: 'admin' | 'cashier' }> = ({ 
@@ -40,6 +48,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: 'admi
 
 function AppContent() {
   const { isAuthenticated, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -49,6 +58,11 @@ function AppContent() {
     );
   }
 
+  // The customer-facing screen shows only what the POS pushes, and must not fall back to the login page
+  if (location.pathname === '/customer-display') {
+    return <CustomerDisplay />;
+  }
+
   if (!isAuthenticated) {
     return (
       <Routes>
@@ -58,6 +72,11 @@ function AppContent() {
     );
   }
 
+  // The kitchen window (or second monitor) shows only the kitchen display
+  if (location.pathname === '/kds') {
+    return <KitchenDisplay standalone />;
+  }
+
   return (
     <Box sx={{ display: 'flex', height: '100vh' }}>
       <Sidebar />
@@ -79,9 +98,16 @@ function AppContent() {
           <Route path="/" element={<Navigate to="/pos" replace />} />
           <Route path="/pos" element={<ProtectedRoute><POS /></ProtectedRoute>} />
           <Route path="/orders" element={<ProtectedRoute><Orders /></ProtectedRoute>} />
+          <Route path="/tables" element={<ProtectedRoute><TableManagement /></ProtectedRoute>} />
+          <Route path="/reservations" element={<ProtectedRoute><Reservations /></ProtectedRoute>} />
+          <Route path="/kitchen" element={<ProtectedRoute><KitchenDisplay /></ProtectedRoute>} />
+          <Route path="/print-jobs" element={<ProtectedRoute><PrintJobs /></ProtectedRoute>} />
           <Route path="/inventory" element={<ProtectedRoute><Inventory /></ProtectedRoute>} />
+          <Route path="/production" element={<ProtectedRoute><Production /></ProtectedRoute>} />
           <Route path="/analytics" element={<ProtectedRoute requiredRole="admin"><Analytics /></ProtectedRoute>} />
           <Route path="/menu" element={<ProtectedRoute><MenuManagement /></ProtectedRoute>} />
+          <Route path="/shifts" element={<ProtectedRoute requiredRole="admin"><Shifts /></ProtectedRoute>} />
+          <Route path="/promotions" element={<ProtectedRoute requiredRole="admin"><Promotions /></ProtectedRoute>} />
           <Route path="/settings" element={<ProtectedRoute requiredRole="admin"><Settings /></ProtectedRoute>} />
           <Route path="/login" element={<Navigate to="/pos" replace />} />
         </Routes>
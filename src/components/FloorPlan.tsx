@@ -0,0 +1,247 @@
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import { Box, Typography, Tabs, Tab } from '@mui/material';
+import { Table, TableLayout, FloorSection } from '../utils/database';
+
+// Layout coordinates are stored on this canvas and scaled to the available width
+export const FLOOR_PLAN_WIDTH = 1000;
+export const FLOOR_PLAN_HEIGHT = 600;
+
+// A press that moves less than this (in screen pixels) is a click, not a drag
+const DRAG_THRESHOLD = 3;
+
+export const TABLE_STATUS_COLORS: Record<NonNullable<Table['status']>, string> = {
+  available: 'success.main',
+  occupied: 'error.main',
+  reserved: 'warning.main',
+  cleaning: 'text.disabled',
+};
+
+/** How long a table has been seated, e.g. "45m" or "1h 20m" */
+export const formatOccupiedTime = (occupiedAt: string | null | undefined, now: number): string | null => {
+  if (!occupiedAt) return null;
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+  const since = new Date(occupiedAt.includes('T') ? occupiedAt : `${occupiedAt.replace(' ', 'T')}Z`).getTime();
+  if (isNaN(since)) return null;
+  const minutes = Math.max(0, Math.floor((now - since) / 60000));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+type DragState = {
+  id: number;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+  x: number;
+  y: number;
+  moved: boolean;
+};
+
+interface FloorPlanProps {
+  tables: Table[];
+  sections: FloorSection[];
+  /** Section shown; leave unset to let the plan track it itself */
+  sectionId?: number | null;
+  onSectionChange?: (sectionId: number | null) => void;
+  /** Lets tables be dragged; the new position is reported through onTableChange */
+  editable?: boolean;
+  selectedTableId?: number | null;
+  onTableClick?: (table: Table) => void;
+  onTableChange?: (id: number, changes: Partial<TableLayout>) => void;
+  isTableDisabled?: (table: Table) => boolean;
+  /** Extra line under the table number, e.g. the running bill */
+  renderTableInfo?: (table: Table) => ReactNode;
+}
+
+/** Tables drawn where they stand in the room, one tab per floor section, coloured by status */
+export default function FloorPlan({
+  tables,
+  sections,
+  sectionId,
+  onSectionChange,
+  editable = false,
+  selectedTableId,
+  onTableClick,
+  onTableChange,
+  isTableDisabled,
+  renderTableInfo,
+}: FloorPlanProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [ownSectionId, setOwnSectionId] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const firstSectionId = sections[0]?.id ?? null;
+  const requestedSectionId = sectionId !== undefined ? sectionId : ownSectionId;
+  const activeSectionId = sections.some(s => s.id === requestedSectionId) ? requestedSectionId : firstSectionId;
+
+  // Tables without a (known) section are shown in the first one
+  const sectionOf = (table: Table) =>
+    sections.some(s => s.id === table.section_id) ? table.section_id : firstSectionId;
+  const visibleTables = tables.filter(t => sectionOf(t) === activeSectionId);
+
+  const handleSectionChange = (id: number) => {
+    setOwnSectionId(id);
+    onSectionChange?.(id);
+  };
+
+  const canvasScale = () => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect && rect.width > 0 ? FLOOR_PLAN_WIDTH / rect.width : 1;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, table: Table) => {
+    if (e.button !== 0 || (isTableDisabled?.(table) && !editable)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({
+      id: table.id!,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      originX: table.pos_x || 0,
+      originY: table.pos_y || 0,
+      x: table.pos_x || 0,
+      y: table.pos_y || 0,
+      moved: false,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>, table: Table) => {
+    if (!drag || drag.pointerId !== e.pointerId || !editable) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+    const scale = canvasScale();
+    const width = table.width || 80;
+    const height = table.height || 80;
+    setDrag({
+      ...drag,
+      moved: true,
+      x: Math.round(Math.min(Math.max(drag.originX + dx * scale, 0), FLOOR_PLAN_WIDTH - width)),
+      y: Math.round(Math.min(Math.max(drag.originY + dy * scale, 0), FLOOR_PLAN_HEIGHT - height)),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>, table: Table) => {
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDrag(null);
+    if (drag.moved) {
+      onTableChange?.(table.id!, { pos_x: drag.x, pos_y: drag.y });
+    } else if (!isTableDisabled?.(table)) {
+      onTableClick?.(table);
+    }
+  };
+
+  return (
+    <Box>
+      {sections.length > 1 && (
+        <Tabs
+          value={activeSectionId ?? false}
+          onChange={(_e, value) => handleSectionChange(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+          sx={{ mb: 1.5, minHeight: 36, '& .MuiTab-root': { minHeight: 36, textTransform: 'none', fontWeight: 600 } }}
+        >
+          {sections.map((section) => (
+            <Tab key={section.id} value={section.id} label={section.name} />
+          ))}
+        </Tabs>
+      )}
+
+      <Box
+        ref={canvasRef}
+        sx={{
+          position: 'relative',
+          width: '100%',
+          aspectRatio: `${FLOOR_PLAN_WIDTH} / ${FLOOR_PLAN_HEIGHT}`,
+          borderRadius: 2,
+          border: '1px solid',
+          borderColor: 'divider',
+          overflow: 'hidden',
+          touchAction: 'none',
+          userSelect: 'none',
+          backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#161616' : '#FAFAFA',
+          backgroundImage: (theme) => {
+            const line = theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.05)';
+            return `linear-gradient(${line} 1px, transparent 1px), linear-gradient(90deg, ${line} 1px, transparent 1px)`;
+          },
+          backgroundSize: '5% 8.333%',
+        }}
+      >
+        {visibleTables.length === 0 && (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ position: 'absolute', top: '50%', left: 0, right: 0, textAlign: 'center', transform: 'translateY(-50%)' }}
+          >
+            No tables in this section
+          </Typography>
+        )}
+
+        {visibleTables.map((table) => {
+          const dragged = drag && drag.id === table.id && drag.moved ? drag : null;
+          const isDragging = !!dragged;
+          const x = dragged ? dragged.x : table.pos_x || 0;
+          const y = dragged ? dragged.y : table.pos_y || 0;
+          const width = table.width || 80;
+          const height = table.height || 80;
+          const rotation = table.rotation || 0;
+          const status = table.status || 'available';
+          const disabled = isTableDisabled?.(table) ?? false;
+          const selected = selectedTableId === table.id;
+          const occupiedFor = status === 'occupied' ? formatOccupiedTime(table.occupied_at, now) : null;
+
+          return (
+            <Box
+              key={table.id}
+              onPointerDown={(e) => handlePointerDown(e, table)}
+              onPointerMove={(e) => handlePointerMove(e, table)}
+              onPointerUp={(e) => handlePointerUp(e, table)}
+              onPointerCancel={() => setDrag(null)}
+              sx={{
+                position: 'absolute',
+                left: `${(x / FLOOR_PLAN_WIDTH) * 100}%`,
+                top: `${(y / FLOOR_PLAN_HEIGHT) * 100}%`,
+                width: `${(width / FLOOR_PLAN_WIDTH) * 100}%`,
+                height: `${(height / FLOOR_PLAN_HEIGHT) * 100}%`,
+                transform: `rotate(${rotation}deg)`,
+                borderRadius: table.shape === 'round' ? '50%' : 1.5,
+                border: selected ? '3px solid' : '2px solid',
+                borderColor: selected ? 'primary.main' : TABLE_STATUS_COLORS[status],
+                backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#242424' : '#FFFFFF',
+                boxShadow: isDragging ? 6 : 1,
+                zIndex: isDragging ? 2 : 1,
+                cursor: editable ? (isDragging ? 'grabbing' : 'grab') : disabled ? 'not-allowed' : 'pointer',
+                opacity: disabled ? 0.5 : 1,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                overflow: 'hidden',
+                '&:hover': { boxShadow: 4 },
+              }}
+            >
+              {/* Keep the label upright whatever way the table is turned */}
+              <Box sx={{ transform: `rotate(${-rotation}deg)`, textAlign: 'center', lineHeight: 1.1, px: 0.5, pointerEvents: 'none' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: { xs: '12px', md: '16px' }, lineHeight: 1.1 }}>
+                  {table.number}
+                </Typography>
+                <Typography sx={{ fontSize: '10px', fontWeight: 600, color: TABLE_STATUS_COLORS[status], lineHeight: 1.2 }} noWrap>
+                  {occupiedFor || (status === 'available' ? `${table.capacity || 4} seats` : status)}
+                </Typography>
+                {renderTableInfo?.(table)}
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
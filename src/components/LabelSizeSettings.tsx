@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  Checkbox,
+  FormControlLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from '@mui/material';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  getLabelSizes,
+  addLabelSize,
+  updateLabelSize,
+  deleteLabelSize,
+  LabelSize,
+} from '../utils/database';
+
+const EMPTY_FORM = { name: '', width_mm: '', height_mm: '', is_default: false };
+
+/** Sizes of the label stock product labels print on */
+export default function LabelSizeSettings() {
+  const [sizes, setSizes] = useState<LabelSize[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSize, setEditingSize] = useState<LabelSize | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSizes = async () => {
+    try {
+      setSizes(await getLabelSizes());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load label sizes');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSizes();
+  }, []);
+
+  const openDialog = (size: LabelSize | null) => {
+    setEditingSize(size);
+    setForm(size
+      ? { name: size.name, width_mm: String(size.width_mm), height_mm: String(size.height_mm), is_default: !!size.is_default }
+      : EMPTY_FORM);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setFormError('Label size name is required');
+      return;
+    }
+    const size = {
+      name: form.name.trim(),
+      width_mm: Number(form.width_mm),
+      height_mm: Number(form.height_mm),
+      is_default: form.is_default ? 1 : 0,
+    };
+    setSaving(true);
+    try {
+      if (editingSize?.id) {
+        await updateLabelSize(editingSize.id, size);
+      } else {
+        await addLabelSize(size);
+      }
+      // Making one size the default changes the others too
+      await loadSizes();
+      setDialogOpen(false);
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save label size');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (size: LabelSize) => {
+    if (!size.id) return;
+    if (!window.confirm(`Remove the "${size.name}" label size?`)) return;
+    try {
+      await deleteLabelSize(size.id);
+      await loadSizes();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete label size');
+    }
+  };
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 700 }}>
+            Label Sizes
+          </Typography>
+          <Button
+            variant="contained"
+            size="small"
+            startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+            onClick={() => openDialog(null)}
+          >
+            Add Size
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Product labels print on the printer with the Labels role. Set the same label size in that printer's driver.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Width</TableCell>
+                <TableCell>Height</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sizes.map((size) => (
+                <TableRow key={size.id}>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {size.name}
+                      </Typography>
+                      {!!size.is_default && <Chip label="Default" size="small" variant="outlined" />}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{size.width_mm} mm</TableCell>
+                  <TableCell>{size.height_mm} mm</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" onClick={() => openDialog(size)}>
+                      <PencilIcon style={{ width: 18, height: 18 }} />
+                    </IconButton>
+                    <IconButton size="small" color="error" disabled={sizes.length <= 1} onClick={() => handleDelete(size)}>
+                      <TrashIcon style={{ width: 18, height: 18 }} />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{editingSize ? 'Edit Label Size' : 'Add Label Size'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            {formError && <Alert severity="error">{formError}</Alert>}
+            <TextField
+              label="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., 58 x 40 mm"
+              required
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Width (mm)"
+                type="number"
+                value={form.width_mm}
+                onChange={(e) => setForm({ ...form, width_mm: e.target.value })}
+                inputProps={{ min: 20, max: 120 }}
+                fullWidth
+              />
+              <TextField
+                label="Height (mm)"
+                type="number"
+                value={form.height_mm}
+                onChange={(e) => setForm({ ...form, height_mm: e.target.value })}
+                inputProps={{ min: 15, max: 200 }}
+                fullWidth
+              />
+            </Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={form.is_default}
+                  onChange={(e) => setForm({ ...form, is_default: e.target.checked })}
+                />
+              }
+              label="Use unless another size is chosen"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
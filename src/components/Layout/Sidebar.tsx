@@ -21,6 +21,13 @@ import {
   Cog6ToothIcon,
   DocumentTextIcon,
   CubeIcon,
+  BanknotesIcon,
+  TagIcon,
+  TableCellsIcon,
+  CalendarDaysIcon,
+  FireIcon,
+  PrinterIcon,
+  CakeIcon,
   SunIcon,
   MoonIcon,
   ChevronLeftIcon,
@@ -34,6 +41,13 @@ import {
   Cog6ToothIcon as Cog6ToothIconSolid,
   DocumentTextIcon as DocumentTextIconSolid,
   CubeIcon as CubeIconSolid,
+  BanknotesIcon as BanknotesIconSolid,
+  TagIcon as TagIconSolid,
+  TableCellsIcon as TableCellsIconSolid,
+  CalendarDaysIcon as CalendarDaysIconSolid,
+  FireIcon as FireIconSolid,
+  PrinterIcon as PrinterIconSolid,
+  CakeIcon as CakeIconSolid,
 } from '@heroicons/react/24/solid';
 
 const drawerWidth = 220;
@@ -50,9 +64,16 @@ interface MenuItem {
 const menuItems: MenuItem[] = [
   { text: 'POS', icon: ShoppingCartIcon, iconSolid: ShoppingCartIconSolid, path: '/pos', roles: ['admin', 'cashier'] },
   { text: 'Orders', icon: DocumentTextIcon, iconSolid: DocumentTextIconSolid, path: '/orders', roles: ['admin', 'cashier'] },
+  { text: 'Tables', icon: TableCellsIcon, iconSolid: TableCellsIconSolid, path: '/tables', roles: ['admin', 'cashier'] },
+  { text: 'Reservations', icon: CalendarDaysIcon, iconSolid: CalendarDaysIconSolid, path: '/reservations', roles: ['admin', 'cashier'] },
+  { text: 'Kitchen', icon: FireIcon, iconSolid: FireIconSolid, path: '/kitchen', roles: ['admin', 'cashier'] },
+  { text: 'Print Jobs', icon: PrinterIcon, iconSolid: PrinterIconSolid, path: '/print-jobs', roles: ['admin', 'cashier'] },
   { text: 'Inventory', icon: CubeIcon, iconSolid: CubeIconSolid, path: '/inventory', roles: ['admin', 'cashier'] },
+  { text: 'Production', icon: CakeIcon, iconSolid: CakeIconSolid, path: '/production', roles: ['admin', 'cashier'] },
   { text: 'Analytics', icon: ChartPieIcon, iconSolid: ChartPieIconSolid, path: '/analytics', roles: ['admin'] },
   { text: 'Menu', icon: ClipboardDocumentListIcon, iconSolid: ClipboardDocumentListIconSolid, path: '/menu', roles: ['admin', 'cashier'] },
+  { text: 'Shifts', icon: BanknotesIcon, iconSolid: BanknotesIconSolid, path: '/shifts', roles: ['admin'] },
+  { text: 'Promotions', icon: TagIcon, iconSolid: TagIconSolid, path: '/promotions', roles: ['admin'] },
   { text: 'Settings', icon: Cog6ToothIcon, iconSolid: Cog6ToothIconSolid, path: '/settings', roles: ['admin'] },
 ];
 
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import {
+  getOverrideConfig,
+  approveOverride,
+  OverrideConfig,
+  OverrideRequest,
+  OVERRIDE_ACTION_LABELS,
+} from '../utils/database';
+import { useAuth } from '../contexts/AuthContext';
+
+/** Result of an approved action. override_id is only set when the action was guarded and logged. */
+export interface OverrideApproval {
+  override_id?: number;
+  approved_by?: number;
+  approved_by_name?: string;
+}
+
+type PendingOverride = {
+  request: Omit<OverrideRequest, 'requested_by' | 'pin'>;
+  resolve: (approval: OverrideApproval | null) => void;
+};
+
+interface ManagerOverrideDialogProps {
+  pending: PendingOverride | null;
+  requestedBy?: number;
+  onClose: () => void;
+}
+
+/** PIN entry shown to a cashier when a guarded action needs a manager on the same terminal */
+export default function ManagerOverrideDialog({ pending, requestedBy, onClose }: ManagerOverrideDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [approving, setApproving] = useState(false);
+
+  useEffect(() => {
+    setPin('');
+    setError(null);
+  }, [pending]);
+
+  const handleCancel = () => {
+    pending?.resolve(null);
+    onClose();
+  };
+
+  const handleApprove = async () => {
+    if (!pending || !requestedBy) return;
+    if (!pin.trim()) {
+      setError('Enter a manager PIN');
+      return;
+    }
+
+    try {
+      setApproving(true);
+      setError(null);
+      const override = await approveOverride({ ...pending.request, requested_by: requestedBy, pin: pin.trim() });
+      pending.resolve({
+        override_id: override.id,
+        approved_by: override.approved_by,
+        approved_by_name: override.approved_by_name || override.approved_by_username,
+      });
+      onClose();
+    } catch (err: any) {
+      console.error('Error approving override:', err);
+      setError(err.message || 'Failed to approve');
+      setPin('');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!pending} onClose={handleCancel} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ fontWeight: 700, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <LockClosedIcon style={{ width: 20, height: 20 }} />
+        Manager Override
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              {pending ? OVERRIDE_ACTION_LABELS[pending.request.action] : ''}
+            </Typography>
+            {pending?.request.details && (
+              <Typography variant="caption" color="text.secondary">
+                {pending.request.details}
+              </Typography>
+            )}
+          </Box>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            label="Manager PIN"
+            type="password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleApprove();
+            }}
+            inputProps={{ inputMode: 'numeric', autoComplete: 'off' }}
+            autoFocus
+            fullWidth
+            size="small"
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleCancel} variant="outlined" size="small" disabled={approving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApprove}
+          variant="contained"
+          size="small"
+          disabled={approving || !pin}
+          startIcon={approving ? <CircularProgress size={16} /> : undefined}
+        >
+          Approve
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+/**
+ * Guards privileged actions. requestOverride resolves immediately for unguarded actions,
+ * logs an admin's own approval, and otherwise asks for a manager PIN (null when cancelled).
+ * Render overrideDialog once in the page.
+ */
+export function useManagerOverride() {
+  const { user } = useAuth();
+  const [overrideConfig, setOverrideConfig] = useState<OverrideConfig | null>(null);
+  const [pending, setPending] = useState<PendingOverride | null>(null);
+  const configRef = useRef<OverrideConfig | null>(null);
+
+  const loadConfig = useCallback(async (): Promise<OverrideConfig | null> => {
+    try {
+      const config = await getOverrideConfig();
+      configRef.current = config;
+      setOverrideConfig(config);
+      return config;
+    } catch (err) {
+      console.error('Error loading override settings:', err);
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const requestOverride = useCallback(
+    async (request: Omit<OverrideRequest, 'requested_by' | 'pin'>): Promise<OverrideApproval | null> => {
+      const config = configRef.current || (await loadConfig());
+      if (!config || !config.actions.includes(request.action)) {
+        return { approved_by: user?.id };
+      }
+      if (!user?.id) {
+        throw new Error('You must be signed in');
+      }
+
+      if (user.role === 'admin') {
+        const override = await approveOverride({ ...request, requested_by: user.id });
+        return {
+          override_id: override.id,
+          approved_by: override.approved_by,
+          approved_by_name: override.approved_by_name || override.approved_by_username,
+        };
+      }
+
+      return new Promise<OverrideApproval | null>((resolve) => {
+        setPending({ request, resolve });
+      });
+    },
+    [user, loadConfig]
+  );
+
+  const overrideDialog = (
+    <ManagerOverrideDialog pending={pending} requestedBy={user?.id} onClose={() => setPending(null)} />
+  );
+
+  return { overrideConfig, requestOverride, overrideDialog };
+}
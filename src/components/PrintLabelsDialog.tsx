@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import { PrinterIcon } from '@heroicons/react/24/outline';
+import {
+  getLabelSizes,
+  previewLabel,
+  printLabels,
+  LabelData,
+  LabelSize,
+  ProductionBatch,
+} from '../utils/database';
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Labels for an item made today (or on a chosen date), or for a recorded batch
+  menuItem?: { id?: number; name: string } | null;
+  batch?: ProductionBatch | null;
+}
+
+const PREVIEW_SCALE = 1.5;
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+function PrintLabelsDialog({ open, onClose, menuItem = null, batch = null }: PrintLabelsDialogProps) {
+  const [sizes, setSizes] = useState<LabelSize[]>([]);
+  const [sizeId, setSizeId] = useState<number | ''>('');
+  const [count, setCount] = useState('1');
+  const [producedOn, setProducedOn] = useState(today());
+  const [batchNumber, setBatchNumber] = useState('');
+  const [preview, setPreview] = useState<{ label: LabelData; html: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCount(String(batch?.quantity || 1));
+    setProducedOn(today());
+    setBatchNumber('');
+    setPreview(null);
+    setError(null);
+    getLabelSizes()
+      .then((all) => {
+        setSizes(all);
+        setSizeId(all.find(size => size.is_default)?.id ?? all[0]?.id ?? '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load label sizes'));
+  }, [open, batch]);
+
+  const request = batch
+    ? { batch_id: batch.id, label_size_id: sizeId || null }
+    : { menu_item_id: menuItem?.id, produced_at: producedOn, batch_number: batchNumber.trim() || undefined, label_size_id: sizeId || null };
+
+  // Waits for typing to stop before asking for a new preview
+  useEffect(() => {
+    if (!open || !sizeId || (!batch && !menuItem?.id)) return;
+    const timer = setTimeout(() => {
+      previewLabel(request)
+        .then((result) => {
+          setPreview(result);
+          setError(null);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : 'Failed to preview the label'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [open, sizeId, producedOn, batchNumber, batch, menuItem]);
+
+  const handlePrint = async () => {
+    const labels = parseInt(count, 10);
+    if (!labels || labels < 1) {
+      setError('Enter how many labels to print');
+      return;
+    }
+    try {
+      setPrinting(true);
+      setError(null);
+      await printLabels({ ...request, count: labels });
+      alert(`${labels} label${labels === 1 ? '' : 's'} sent to the labels printer`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to print labels');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const size = sizes.find(s => s.id === sizeId);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Print Labels - {batch ? `${batch.item_name} (${batch.batch_number})` : menuItem?.name}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Labels"
+              type="number"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+              inputProps={{ min: 1, max: 200, step: 1 }}
+              sx={{ width: 120 }}
+            />
+            <FormControl fullWidth>
+              <InputLabel>Label Size</InputLabel>
+              <Select value={sizeId} label="Label Size" onChange={(e) => setSizeId(Number(e.target.value))}>
+                {sizes.map((s) => (
+                  <MenuItem key={s.id} value={s.id}>{s.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          {!batch && (
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Production Date"
+                type="date"
+                value={producedOn}
+                onChange={(e) => setProducedOn(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+              <TextField
+                label="Batch Number"
+                value={batchNumber}
+                onChange={(e) => setBatchNumber(e.target.value)}
+                helperText="Optional"
+                fullWidth
+              />
+            </Box>
+          )}
+
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>Preview</Typography>
+            {preview && size ? (
+              <>
+                <Box
+                  sx={{
+                    width: `calc(${size.width_mm}mm * ${PREVIEW_SCALE})`,
+                    height: `calc(${size.height_mm}mm * ${PREVIEW_SCALE})`,
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    overflow: 'hidden',
+                    backgroundColor: '#fff',
+                  }}
+                >
+                  <Box
+                    component="iframe"
+                    title="Label preview"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    sx={{
+                      width: `${size.width_mm}mm`,
+                      height: `${size.height_mm}mm`,
+                      border: 0,
+                      transform: `scale(${PREVIEW_SCALE})`,
+                      transformOrigin: 'top left',
+                    }}
+                  />
+                </Box>
+                {preview.label.ingredients.length === 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    This item has no recipe ingredients, so the label has no ingredient or allergen list.
+                  </Alert>
+                )}
+              </>
+            ) : (
+              !error && <CircularProgress size={24} />
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handlePrint}
+          disabled={printing || !preview}
+          startIcon={printing ? <CircularProgress size={16} /> : <PrinterIcon style={{ width: 18, height: 18 }} />}
+        >
+          Print
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default PrintLabelsDialog;
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Chip,
+  Tabs,
+  Tab,
+  CircularProgress,
+} from '@mui/material';
+import { ArrowPathIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  getPrintTemplates,
+  updatePrintTemplate,
+  resetPrintTemplate,
+  previewPrintTemplate,
+  saveMedia,
+  PrintTemplate,
+  PrintTemplateInput,
+  PrintTemplateType,
+} from '../utils/database';
+
+// Wait for a pause in typing before rendering the preview
+const PREVIEW_DELAY_MS = 300;
+
+const toDraft = (template: PrintTemplate): PrintTemplateInput => ({
+  body: template.body,
+  paper_width: template.paper_width,
+  logo: template.logo,
+});
+
+/** Editor for the receipt, refund, kitchen ticket and Z-report layouts, with a preview on example data */
+export default function PrintTemplateEditor() {
+  const [templates, setTemplates] = useState<PrintTemplate[]>([]);
+  const [selectedType, setSelectedType] = useState<PrintTemplateType>('receipt');
+  const [draft, setDraft] = useState<PrintTemplateInput | null>(null);
+  const [preview, setPreview] = useState<{ html: string | null; error: string | null }>({ html: null, error: null });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = templates.find(t => t.template_type === selectedType);
+  const isDirty = !!selected && !!draft && (
+    draft.body !== selected.body || draft.paper_width !== selected.paper_width || draft.logo !== selected.logo
+  );
+
+  useEffect(() => {
+    getPrintTemplates()
+      .then((loaded) => {
+        setTemplates(loaded);
+        const first = loaded.find(t => t.template_type === 'receipt') || loaded[0];
+        if (first) {
+          setSelectedType(first.template_type);
+          setDraft(toDraft(first));
+        }
+      })
+      .catch((err: any) => setError(err.message || 'Failed to load print templates'));
+  }, []);
+
+  useEffect(() => {
+    if (!draft) return;
+    const timeoutId = setTimeout(() => {
+      previewPrintTemplate(selectedType, draft)
+        .then(setPreview)
+        .catch((err: any) => setPreview({ html: null, error: err.message || 'Preview failed' }));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [selectedType, draft]);
+
+  const replaceTemplate = (saved: PrintTemplate) => {
+    setTemplates(prev => prev.map(t => (t.template_type === saved.template_type ? saved : t)));
+    setDraft(toDraft(saved));
+  };
+
+  const handleSelectType = (type: PrintTemplateType) => {
+    if (type === selectedType) return;
+    if (isDirty && !window.confirm('Discard your unsaved changes to this template?')) return;
+    const template = templates.find(t => t.template_type === type);
+    if (!template) return;
+    setSelectedType(type);
+    setDraft(toDraft(template));
+    setError(null);
+  };
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !draft) return;
+    try {
+      const extension = file.name.split('.').pop() || 'png';
+      const filename = `print-logo-${Date.now()}.${extension}`;
+      await saveMedia(filename, await file.arrayBuffer());
+      setDraft({ ...draft, logo: filename });
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload logo');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (preview.error) {
+      setError(`Fix the template before saving: ${preview.error}`);
+      return;
+    }
+    setSaving(true);
+    try {
+      replaceTemplate(await updatePrintTemplate(selectedType, draft));
+      setError(null);
+      alert('Template saved!');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Put the ${selected.name} back to the built-in layout? Paper width and logo are kept.`)) return;
+    try {
+      const reset = await resetPrintTemplate(selectedType);
+      // Unsaved paper width and logo changes survive the reset
+      replaceTemplate(reset);
+      setDraft({ ...(draft || toDraft(reset)), body: reset.body });
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset template');
+    }
+  };
+
+  if (!selected || !draft) {
+    return (
+      <Card>
+        <CardContent>
+          {error ? <Alert severity="error">{error}</Alert> : <CircularProgress size={24} />}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 700 }}>
+            Print Templates
+          </Typography>
+          {isDirty && <Chip label="Unsaved changes" size="small" color="warning" />}
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Layouts for receipts, kitchen tickets and reports. They print the same through the printer driver and on ESC/POS printers.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Tabs
+          value={selectedType}
+          onChange={(_e, value) => handleSelectType(value)}
+          variant="scrollable"
+          sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
+        >
+          {templates.map(t => (
+            <Tab key={t.template_type} value={t.template_type} label={t.is_default ? t.name : `${t.name} *`} />
+          ))}
+        </Tabs>
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <TextField
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              multiline
+              minRows={22}
+              maxRows={22}
+              fullWidth
+              inputProps={{ spellCheck: false, style: { fontFamily: 'monospace', fontSize: 13 } }}
+            />
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mt: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel>Paper Width</InputLabel>
+                <Select
+                  value={draft.paper_width ?? ''}
+                  label="Paper Width"
+                  onChange={(e) => setDraft({ ...draft, paper_width: e.target.value ? (Number(e.target.value) as 58 | 80) : null })}
+                >
+                  <MenuItem value="">Printer's width</MenuItem>
+                  <MenuItem value={58}>58 mm</MenuItem>
+                  <MenuItem value={80}>80 mm</MenuItem>
+                </Select>
+              </FormControl>
+              <Button
+                variant="outlined"
+                component="label"
+                size="small"
+                startIcon={<PhotoIcon style={{ width: 18, height: 18 }} />}
+              >
+                {draft.logo ? 'Change Logo' : 'Upload Logo'}
+                <input type="file" hidden accept="image/png,image/jpeg,image/gif,image/bmp" onChange={handleLogoUpload} />
+              </Button>
+              {draft.logo && (
+                <Chip
+                  label={draft.logo}
+                  size="small"
+                  onDelete={() => setDraft({ ...draft, logo: null })}
+                  deleteIcon={<XMarkIcon style={{ width: 16, height: 16 }} />}
+                />
+              )}
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+              <Button variant="contained" onClick={handleSave} disabled={!isDirty || saving}>
+                {saving ? 'Saving…' : 'Save Template'}
+              </Button>
+              <Button
+                variant="outlined"
+                onClick={() => setDraft(toDraft(selected))}
+                disabled={!isDirty}
+              >
+                Discard Changes
+              </Button>
+              <Button
+                color="warning"
+                startIcon={<ArrowPathIcon style={{ width: 18, height: 18 }} />}
+                onClick={handleReset}
+                disabled={selected.is_default && draft.body === selected.default_body}
+              >
+                Reset to Default
+              </Button>
+            </Box>
+
+            <Alert severity="info" sx={{ mt: 2 }}>
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                <code>{'{{field}}'}</code> prints a value; <code>{'{{#if field}}…{{else}}…{{/if}}'}</code> and{' '}
+                <code>{'{{#unless field}}…{{/unless}}'}</code> print a part only when the field has a value;{' '}
+                <code>{'{{#each items}}…{{/each}}'}</code> repeats for every entry (<code>{'{{this}}'}</code>,{' '}
+                <code>{'{{@number}}'}</code>, <code>{'{{#unless @last}}'}</code>). Start a line with <code>[center]</code>,{' '}
+                <code>[right]</code>, <code>[bold]</code>, <code>[large]</code> or <code>[small]</code>; write{' '}
+                <code>left | right</code> for columns, <code>---</code> for a rule and <code>[logo]</code> for the logo.
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                {selected.fields.map(field => (
+                  <Chip key={field} label={field} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                ))}
+              </Box>
+            </Alert>
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+              Preview (example data)
+            </Typography>
+            {preview.error ? (
+              <Alert severity="error">{preview.error}</Alert>
+            ) : (
+              <Box
+                component="iframe"
+                title="Template preview"
+                sandbox=""
+                srcDoc={preview.html || ''}
+                sx={{ width: '100%', height: 640, border: '1px solid', borderColor: 'divider', borderRadius: 1, backgroundColor: '#fff' }}
+              />
+            )}
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,480 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Chip,
+  Checkbox,
+  Switch,
+  Autocomplete,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from '@mui/material';
+import { ArrowPathIcon, PencilIcon, PlusIcon, PrinterIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  getPrinters,
+  getSystemPrinters,
+  addPrinter,
+  updatePrinter,
+  deletePrinter,
+  printTestPage,
+  getSetting,
+  Printer,
+  PrinterRole,
+  SystemPrinter,
+  PRINTER_ROLE_LABELS,
+} from '../utils/database';
+
+type PrinterForm = Omit<Printer, 'id' | 'created_at' | 'updated_at'>;
+
+const EMPTY_FORM: PrinterForm = {
+  name: '',
+  connection_type: 'system',
+  device_name: '',
+  roles: [],
+  paper_width: 80,
+  copies: 1,
+  silent: true,
+  terminal_id: null,
+};
+
+const toForm = (printer: Printer): PrinterForm => ({
+  name: printer.name,
+  connection_type: printer.connection_type,
+  device_name: printer.device_name,
+  roles: printer.roles,
+  paper_width: printer.paper_width,
+  copies: printer.copies,
+  silent: printer.silent,
+  terminal_id: printer.terminal_id,
+});
+
+/** Printers this till prints to, what each one prints, and the printers found on this computer */
+export default function PrinterSettings() {
+  const [printers, setPrinters] = useState<Printer[]>([]);
+  const [systemPrinters, setSystemPrinters] = useState<SystemPrinter[]>([]);
+  const [terminalId, setTerminalId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPrinter, setEditingPrinter] = useState<Printer | null>(null);
+  const [form, setForm] = useState<PrinterForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testingKey, setTestingKey] = useState<string | null>(null);
+
+  const loadSystemPrinters = useCallback(async () => {
+    try {
+      setSystemPrinters(await getSystemPrinters());
+    } catch (err: any) {
+      setError(err.message || 'Failed to list the printers on this computer');
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([getPrinters(), getSetting('terminal_id')])
+      .then(([loaded, terminal]) => {
+        setPrinters(loaded);
+        setTerminalId((terminal?.value || '').trim().toUpperCase());
+      })
+      .catch((err: any) => {
+        setError(err.message || 'Failed to load printers');
+        console.error(err);
+      })
+      .finally(() => setLoading(false));
+    loadSystemPrinters();
+  }, [loadSystemPrinters]);
+
+  // This till's printers, plus the ones shared by every till
+  const visiblePrinters = printers.filter(p => !p.terminal_id || p.terminal_id === terminalId);
+  const otherTillCount = printers.length - visiblePrinters.length;
+  const unconfiguredSystemPrinters = systemPrinters.filter(
+    sp => !printers.some(p => p.connection_type === 'system' && p.device_name === sp.name)
+  );
+
+  const openDialog = (printer: Printer | null, systemPrinter?: SystemPrinter) => {
+    setEditingPrinter(printer);
+    if (printer) {
+      setForm(toForm(printer));
+    } else if (systemPrinter) {
+      setForm({ ...EMPTY_FORM, name: systemPrinter.displayName || systemPrinter.name, device_name: systemPrinter.name });
+    } else {
+      setForm(EMPTY_FORM);
+    }
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const toggleRole = (role: PrinterRole) => {
+    setForm(prev => ({
+      ...prev,
+      roles: prev.roles.includes(role) ? prev.roles.filter(r => r !== role) : [...prev.roles, role],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setFormError('Printer name is required');
+      return;
+    }
+    if (!form.device_name.trim()) {
+      setFormError(form.connection_type === 'escpos' ? 'Printer address is required' : 'Choose a system printer');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editingPrinter?.id) {
+        const saved = await updatePrinter(editingPrinter.id, form);
+        setPrinters(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+      } else {
+        const saved = await addPrinter(form);
+        setPrinters(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setDialogOpen(false);
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save printer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (printer: Printer) => {
+    if (!printer.id) return;
+    if (!window.confirm(`Remove "${printer.name}"? What it prints will go to the next printer with the same role, or the default printer.`)) return;
+    try {
+      await deletePrinter(printer.id);
+      setPrinters(prev => prev.filter(p => p.id !== printer.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete printer');
+    }
+  };
+
+  // key tells the buttons apart while a test page is printing: a printer ID, or 'form' for the dialog
+  const handleTest = async (printer: PrinterForm, key: string, onError: (message: string) => void) => {
+    setTestingKey(key);
+    try {
+      await printTestPage(printer);
+    } catch (err: any) {
+      onError(`Test print to "${printer.name || printer.device_name}" failed: ${err.message || 'unknown error'}`);
+    } finally {
+      setTestingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent>
+          <CircularProgress size={24} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 700 }}>
+            Printers
+          </Typography>
+          <Button
+            variant="contained"
+            size="small"
+            startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+            onClick={() => openDialog(null)}
+          >
+            Add Printer
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Choose what each printer prints. Anything without a printer goes to this computer's default printer.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {visiblePrinters.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            No printers set up yet. Add one below or with Add Printer.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Connection</TableCell>
+                <TableCell>Prints</TableCell>
+                <TableCell>Paper</TableCell>
+                <TableCell>Copies</TableCell>
+                <TableCell>Mode</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visiblePrinters.map((printer) => (
+                <TableRow key={printer.id}>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {printer.name}
+                    </Typography>
+                    {printer.terminal_id && (
+                      <Typography variant="caption" color="text.secondary">
+                        This till only
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{printer.device_name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {printer.connection_type === 'escpos' ? 'ESC/POS' : 'System printer'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                      {printer.roles.length === 0 ? (
+                        <Typography variant="caption" color="text.secondary">Nothing</Typography>
+                      ) : (
+                        printer.roles.map(role => <Chip key={role} label={PRINTER_ROLE_LABELS[role]} size="small" />)
+                      )}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{printer.paper_width} mm</TableCell>
+                  <TableCell>{printer.copies}</TableCell>
+                  <TableCell>{printer.silent ? 'Silent' : 'Print dialog'}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Button
+                      size="small"
+                      startIcon={<PrinterIcon style={{ width: 16, height: 16 }} />}
+                      disabled={testingKey !== null}
+                      onClick={() => handleTest(printer, String(printer.id), setError)}
+                    >
+                      {testingKey === String(printer.id) ? 'Printing...' : 'Test'}
+                    </Button>
+                    <IconButton size="small" onClick={() => openDialog(printer)}>
+                      <PencilIcon style={{ width: 18, height: 18 }} />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(printer)}>
+                      <TrashIcon style={{ width: 18, height: 18 }} />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {otherTillCount > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            {otherTillCount} more {otherTillCount === 1 ? 'printer is' : 'printers are'} set up for other tills.
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 3, mb: 1 }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+            Found on this computer
+          </Typography>
+          <Button
+            size="small"
+            startIcon={<ArrowPathIcon style={{ width: 18, height: 18 }} />}
+            onClick={loadSystemPrinters}
+          >
+            Refresh
+          </Button>
+        </Box>
+        {unconfiguredSystemPrinters.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {systemPrinters.length === 0
+              ? 'No printers are installed on this computer. Network ESC/POS printers can be added by address.'
+              : 'Every installed printer is set up.'}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {unconfiguredSystemPrinters.map((sp) => (
+              <Box key={sp.name} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <PrinterIcon style={{ width: 18, height: 18, opacity: 0.6 }} />
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {sp.displayName || sp.name}
+                </Typography>
+                {sp.isDefault && <Chip label="Default" size="small" variant="outlined" />}
+                {sp.description && (
+                  <Typography variant="caption" color="text.secondary">
+                    {sp.description}
+                  </Typography>
+                )}
+                <Button size="small" sx={{ ml: 'auto' }} onClick={() => openDialog(null, sp)}>
+                  Set Up
+                </Button>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingPrinter ? 'Edit Printer' : 'Add Printer'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setFormError(null)}>
+              {formError}
+            </Alert>
+          )}
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} sm={5}>
+              <FormControl fullWidth>
+                <InputLabel>Connection</InputLabel>
+                <Select
+                  value={form.connection_type}
+                  label="Connection"
+                  onChange={(e) => setForm({
+                    ...form,
+                    connection_type: e.target.value as PrinterForm['connection_type'],
+                    device_name: '',
+                    silent: true,
+                  })}
+                >
+                  <MenuItem value="system">System printer</MenuItem>
+                  <MenuItem value="escpos">ESC/POS (network or device)</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={7}>
+              {form.connection_type === 'system' ? (
+                <Autocomplete
+                  freeSolo
+                  options={systemPrinters.map(sp => sp.name)}
+                  value={form.device_name}
+                  onInputChange={(_e, value) => setForm(prev => ({ ...prev, device_name: value }))}
+                  renderInput={(params) => (
+                    <TextField {...params} label="Printer" helperText="As listed by the operating system" />
+                  )}
+                />
+              ) : (
+                <TextField
+                  fullWidth
+                  label="Address"
+                  value={form.device_name}
+                  onChange={(e) => setForm({ ...form, device_name: e.target.value })}
+                  placeholder="192.168.1.50:9100"
+                  helperText="IP address[:port], tcp://host:port, or a device such as /dev/usb/lp0 or COM3"
+                />
+              )}
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Front counter"
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormControl component="fieldset">
+                <FormLabel component="legend">Prints</FormLabel>
+                <FormGroup row>
+                  {(Object.keys(PRINTER_ROLE_LABELS) as PrinterRole[]).map(role => (
+                    <FormControlLabel
+                      key={role}
+                      control={<Checkbox checked={form.roles.includes(role)} onChange={() => toggleRole(role)} />}
+                      label={PRINTER_ROLE_LABELS[role]}
+                    />
+                  ))}
+                </FormGroup>
+              </FormControl>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                Receipts include refunds and the cash drawer. Kitchen takes tickets for stations without their own printer.
+              </Typography>
+            </Grid>
+            <Grid item xs={6}>
+              <FormControl fullWidth>
+                <InputLabel>Paper Width</InputLabel>
+                <Select
+                  value={form.paper_width}
+                  label="Paper Width"
+                  onChange={(e) => setForm({ ...form, paper_width: Number(e.target.value) as PrinterForm['paper_width'] })}
+                >
+                  <MenuItem value={80}>80 mm</MenuItem>
+                  <MenuItem value={58}>58 mm</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={6}>
+              <TextField
+                fullWidth
+                label="Copies"
+                type="number"
+                value={form.copies}
+                onChange={(e) => setForm({ ...form, copies: parseInt(e.target.value, 10) || 1 })}
+                inputProps={{ min: 1, max: 5 }}
+              />
+            </Grid>
+            {form.connection_type === 'system' && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!form.silent}
+                      onChange={(e) => setForm({ ...form, silent: !e.target.checked })}
+                    />
+                  }
+                  label="Show the print dialog before printing"
+                />
+              </Grid>
+            )}
+            <Grid item xs={12}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={!!form.terminal_id}
+                    disabled={!terminalId}
+                    onChange={(e) => setForm({ ...form, terminal_id: e.target.checked ? terminalId : null })}
+                  />
+                }
+                label={terminalId ? `This till only (${terminalId})` : 'This till only (set a terminal ID under System Settings first)'}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            startIcon={<PrinterIcon style={{ width: 16, height: 16 }} />}
+            disabled={!form.device_name.trim() || testingKey !== null}
+            onClick={() => handleTest(form, 'form', setFormError)}
+            sx={{ mr: 'auto' }}
+          >
+            {testingKey === 'form' ? 'Printing...' : 'Test Print'}
+          </Button>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
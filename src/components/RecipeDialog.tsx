@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Autocomplete,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from '@mui/material';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  getRecipe,
+  saveRecipe,
+  getInventoryItems,
+  getMenuItemSizes,
+  InventoryItem,
+  MenuItemSize,
+} from '../utils/database';
+
+interface RecipeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  menuItem: { id?: number; name: string } | null;
+}
+
+// One ingredient: its base quantity, and the sizes that use a different amount (blank = base)
+interface RecipeLine {
+  inventoryItem: InventoryItem | null;
+  quantity: string;
+  sizes: Record<string, string>;
+}
+
+const EMPTY_LINE: RecipeLine = { inventoryItem: null, quantity: '', sizes: {} };
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'SLE' }).format(amount);
+
+/** Ingredients one unit of a menu item takes out of stock when it's sold */
+function RecipeDialog({ open, onClose, menuItem }: RecipeDialogProps) {
+  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [sizes, setSizes] = useState<MenuItemSize[]>([]);
+  const [lines, setLines] = useState<RecipeLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !menuItem?.id) return;
+    setLoading(true);
+    setError(null);
+    Promise.all([getInventoryItems(), getMenuItemSizes(menuItem.id), getRecipe(menuItem.id)])
+      .then(([inventory, itemSizes, recipe]) => {
+        setInventoryItems(inventory);
+        setSizes(itemSizes);
+        const byIngredient = new Map<number, RecipeLine>();
+        for (const row of recipe) {
+          const line = byIngredient.get(row.inventory_item_id) || {
+            inventoryItem: inventory.find(i => i.id === row.inventory_item_id) || null,
+            quantity: '',
+            sizes: {},
+          };
+          if (row.size_name) {
+            line.sizes[row.size_name] = String(row.quantity_required);
+          } else {
+            line.quantity = String(row.quantity_required);
+          }
+          byIngredient.set(row.inventory_item_id, line);
+        }
+        setLines([...byIngredient.values()]);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load the recipe'))
+      .finally(() => setLoading(false));
+  }, [open, menuItem]);
+
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async () => {
+    if (!menuItem?.id) return;
+    const rows = [];
+    for (const line of lines) {
+      if (!line.inventoryItem?.id) {
+        setError('Choose an ingredient on every line, or remove the empty ones');
+        return;
+      }
+      const sizeRows = sizes
+        .filter(size => (line.sizes[size.name] ?? '').trim() !== '')
+        .map(size => ({ size_name: size.name, quantity_required: Number(line.sizes[size.name]) }));
+      // An ingredient only some sizes use can leave the base blank
+      if (line.quantity.trim() === '' && sizeRows.length === 0) {
+        setError(`Enter how much ${line.inventoryItem.name} the recipe uses`);
+        return;
+      }
+      const unit = line.inventoryItem.unit || null;
+      rows.push({
+        inventory_item_id: line.inventoryItem.id,
+        size_name: null,
+        quantity_required: line.quantity.trim() === '' ? 0 : Number(line.quantity),
+        unit,
+      });
+      rows.push(...sizeRows.map(row => ({ ...row, inventory_item_id: line.inventoryItem!.id!, unit })));
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveRecipe(menuItem.id, rows);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Cost of the ingredients one unit uses, per size
+  const getCost = (sizeName: string | null) =>
+    lines.reduce((sum, line) => {
+      const sized = sizeName ? (line.sizes[sizeName] ?? '').trim() : '';
+      const quantity = Number(sized !== '' ? sized : line.quantity) || 0;
+      return sum + quantity * (line.inventoryItem?.cost_per_unit || 0);
+    }, 0);
+
+  const usedIds = lines.map(line => line.inventoryItem?.id);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Recipe - {menuItem?.name}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Quantities are for one unit sold and come out of stock once the order is paid or completed.
+            {sizes.length > 0 && ' Leave a size blank to use the base quantity, or enter 0 if that size leaves the ingredient out.'}
+          </Typography>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <CircularProgress size={24} />
+          ) : (
+            <>
+              {lines.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+                  No ingredients yet. Sales of this item don't change stock.
+                </Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ minWidth: 200 }}>Ingredient</TableCell>
+                      <TableCell>{sizes.length > 0 ? 'Base' : 'Quantity'}</TableCell>
+                      {sizes.map((size) => (
+                        <TableCell key={size.name}>{size.name}</TableCell>
+                      ))}
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {lines.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Autocomplete
+                            size="small"
+                            options={inventoryItems}
+                            value={line.inventoryItem}
+                            onChange={(_e, value) => updateLine(index, { inventoryItem: value })}
+                            getOptionLabel={(item) => item.name}
+                            getOptionDisabled={(item) => usedIds.includes(item.id) && item.id !== line.inventoryItem?.id}
+                            isOptionEqualToValue={(option, value) => option.id === value.id}
+                            renderInput={(params) => <TextField {...params} placeholder="Ingredient" />}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                            inputProps={{ min: 0, step: 'any' }}
+                            InputProps={{
+                              endAdornment: (
+                                <Typography variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>
+                                  {line.inventoryItem?.unit || ''}
+                                </Typography>
+                              ),
+                            }}
+                            sx={{ width: 120 }}
+                          />
+                        </TableCell>
+                        {sizes.map((size) => (
+                          <TableCell key={size.name}>
+                            <TextField
+                              size="small"
+                              type="number"
+                              value={line.sizes[size.name] ?? ''}
+                              onChange={(e) => updateLine(index, { sizes: { ...line.sizes, [size.name]: e.target.value } })}
+                              placeholder={line.quantity || '0'}
+                              inputProps={{ min: 0, step: 'any' }}
+                              sx={{ width: 90 }}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell align="right">
+                          <IconButton size="small" color="error" onClick={() => setLines(lines.filter((_, i) => i !== index))}>
+                            <TrashIcon style={{ width: 18, height: 18 }} />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                          Ingredient cost
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{formatCurrency(getCost(null))}</TableCell>
+                      {sizes.map((size) => (
+                        <TableCell key={size.name}>{formatCurrency(getCost(size.name))}</TableCell>
+                      ))}
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+              <Box>
+                <Button
+                  size="small"
+                  startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+                  onClick={() => setLines([...lines, { ...EMPTY_LINE, sizes: {} }])}
+                >
+                  Add Ingredient
+                </Button>
+              </Box>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || loading}>
+          Save Recipe
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default RecipeDialog;
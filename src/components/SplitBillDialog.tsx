@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import {
+  getHeldOrders,
+  getOrderItems,
+  splitOrder,
+  splitOrderBySeat,
+  HeldOrder,
+  OrderItem,
+  SplitBill,
+  Table,
+} from '../utils/database';
+
+const MAX_BILLS = 8;
+
+// One row per unit, so "3 x Coffee" can go to three different bills
+type SplitUnit = { key: string; item: OrderItem; unit: number };
+
+interface SplitBillDialogProps {
+  table: Table | null;
+  userId?: number;
+  onClose: () => void;
+  onSplit: (newBillCount: number) => void;
+}
+
+/** Splits the running bill of a table by item (unit by unit) or by seat */
+export default function SplitBillDialog({ table, userId, onClose, onSplit }: SplitBillDialogProps) {
+  const [orders, setOrders] = useState<HeldOrder[]>([]);
+  const [orderId, setOrderId] = useState<number | ''>('');
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [billCount, setBillCount] = useState(2);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!table) return;
+    setError(null);
+    setOrders([]);
+    setOrderId('');
+    (async () => {
+      try {
+        setLoading(true);
+        const tableOrders = (await getHeldOrders()).filter(o => o.table_id === table.id || o.id === table.current_order_id);
+        setOrders(tableOrders);
+        setOrderId(tableOrders.find(o => o.id === table.current_order_id)?.id || tableOrders[0]?.id || '');
+        if (tableOrders.length === 0) {
+          setError(`Table ${table.number} has no open bill`);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load the bill');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [table]);
+
+  useEffect(() => {
+    setItems([]);
+    setAssignments({});
+    setBillCount(2);
+    if (!orderId) return;
+    getOrderItems(orderId)
+      .then(setItems)
+      .catch((err) => {
+        setError(err.message || 'Failed to load the bill');
+        console.error(err);
+      });
+  }, [orderId]);
+
+  const units: SplitUnit[] = items.flatMap(item =>
+    Array.from({ length: item.quantity }, (_, unit) => ({ key: `${item.id}:${unit}`, item, unit }))
+  );
+  const hasSeats = items.some(item => item.seat_number);
+
+  const buildBills = (): SplitBill[] =>
+    Array.from({ length: billCount - 1 }, (_, index) => {
+      const counts: Record<number, number> = {};
+      units
+        .filter(u => (assignments[u.key] || 1) === index + 2)
+        .forEach(u => { counts[u.item.id!] = (counts[u.item.id!] || 0) + 1; });
+      return Object.entries(counts).map(([id, quantity]) => ({ order_item_id: Number(id), quantity }));
+    }).filter(bill => bill.length > 0);
+
+  const billTotal = (bill: number) =>
+    units
+      .filter(u => (assignments[u.key] || 1) === bill)
+      .reduce((sum, u) => sum + u.item.subtotal / u.item.quantity, 0);
+
+  const handleSplit = async (bySeat: boolean) => {
+    if (!orderId || !userId) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const result = bySeat
+        ? await splitOrderBySeat(orderId, userId)
+        : await splitOrder(orderId, buildBills(), userId);
+      onSplit(result.new_order_ids.length);
+    } catch (err: any) {
+      setError(err.message || 'Failed to split the bill');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'SLE',
+    }).format(amount);
+  };
+
+  return (
+    <Dialog open={!!table} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Split Bill{table ? ` · Table ${table.number}` : ''}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {loading && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+          {orders.length > 1 && (
+            <FormControl size="small" fullWidth>
+              <InputLabel>Bill</InputLabel>
+              <Select value={orderId} label="Bill" onChange={(e) => setOrderId(e.target.value as number)}>
+                {orders.map(order => (
+                  <MenuItem key={order.id} value={order.id}>
+                    {order.label || order.order_number} · {formatCurrency(order.total_amount)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          {units.length > 0 && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography variant="body2" color="text.secondary">
+                  Choose the bill for each item. Bill 1 stays on the table's current bill.
+                </Typography>
+                <Button
+                  size="small"
+                  onClick={() => setBillCount(Math.min(billCount + 1, MAX_BILLS))}
+                  disabled={billCount >= MAX_BILLS}
+                >
+                  Add Bill
+                </Button>
+              </Box>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, maxHeight: 360, overflowY: 'auto' }}>
+                {units.map(({ key, item, unit }) => (
+                  <Box key={key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2" noWrap>
+                        {item.name || 'Item'}
+                        {item.size_name ? ` (${item.size_name})` : ''}
+                        {item.quantity > 1 ? ` · ${unit + 1} of ${item.quantity}` : ''}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {formatCurrency(item.subtotal / item.quantity)}
+                        {item.seat_number ? ` · Seat ${item.seat_number}` : ''}
+                      </Typography>
+                    </Box>
+                    <ToggleButtonGroup
+                      value={assignments[key] || 1}
+                      exclusive
+                      size="small"
+                      onChange={(_e, bill) => bill && setAssignments({ ...assignments, [key]: bill })}
+                    >
+                      {Array.from({ length: billCount }, (_, i) => i + 1).map(bill => (
+                        <ToggleButton key={bill} value={bill} sx={{ px: 1.25, py: 0.25 }}>
+                          {bill}
+                        </ToggleButton>
+                      ))}
+                    </ToggleButtonGroup>
+                  </Box>
+                ))}
+              </Box>
+              <Divider />
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                {Array.from({ length: billCount }, (_, i) => i + 1).map(bill => (
+                  <Typography key={bill} variant="caption" color="text.secondary">
+                    Bill {bill}: <strong>{formatCurrency(billTotal(bill))}</strong>
+                  </Typography>
+                ))}
+              </Box>
+              <Typography variant="caption" color="text.secondary">
+                Amounts are before discounts and tax; the bill's discount is shared out by value.
+              </Typography>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        {hasSeats && (
+          <Button onClick={() => handleSplit(true)} variant="outlined" disabled={saving}>
+            Split by Seat
+          </Button>
+        )}
+        <Button
+          onClick={() => handleSplit(false)}
+          variant="contained"
+          disabled={saving || buildBills().length === 0}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          Split
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
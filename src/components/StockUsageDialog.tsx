@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from '@mui/material';
+import { getStockUsage, StockUsage } from '../utils/database';
+
+interface StockUsageDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toLocaleDateString('en-CA');
+};
+
+const formatQuantity = (quantity: number) =>
+  new Intl.NumberFormat('en-US', { maximumFractionDigits: 3 }).format(quantity);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'SLE' }).format(amount);
+
+/** Theoretical usage (what recipes say sales used) next to what actually left stock, from opening and closing stock */
+function StockUsageDialog({ open, onClose }: StockUsageDialogProps) {
+  const [startDate, setStartDate] = useState(daysAgo(6));
+  const [endDate, setEndDate] = useState(daysAgo(0));
+  const [usage, setUsage] = useState<StockUsage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !startDate || !endDate) return;
+    setLoading(true);
+    getStockUsage(startDate, endDate)
+      .then((rows) => {
+        setUsage(rows);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load stock usage'))
+      .finally(() => setLoading(false));
+  }, [open, startDate, endDate]);
+
+  const varianceCost = usage.reduce((sum, row) => sum + row.variance_cost, 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Stock Usage</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="From"
+              type="date"
+              size="small"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="To"
+              type="date"
+              size="small"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+          <Typography variant="body2" color="text.secondary">
+            Actual is opening stock plus stock received, less closing stock. Theoretical is what the recipes of
+            the items sold used, less refunds. The variance is waste plus anything stock counts found missing.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <CircularProgress size={24} />
+          ) : usage.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              No stock was used in this period
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Ingredient</TableCell>
+                  <TableCell align="right">Opening</TableCell>
+                  <TableCell align="right">Received</TableCell>
+                  <TableCell align="right">Closing</TableCell>
+                  <TableCell align="right">Actual</TableCell>
+                  <TableCell align="right">Theoretical</TableCell>
+                  <TableCell align="right">Waste</TableCell>
+                  <TableCell align="right">Variance</TableCell>
+                  <TableCell align="right">Variance Cost</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {usage.map((row) => (
+                  <TableRow key={row.inventory_item_id}>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {row.name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {formatQuantity(row.current_stock || 0)} {row.unit || 'unit'} in stock
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{formatQuantity(row.opening_stock)}</TableCell>
+                    <TableCell align="right">{formatQuantity(row.received)}</TableCell>
+                    <TableCell align="right">{formatQuantity(row.closing_stock)}</TableCell>
+                    <TableCell align="right">{formatQuantity(row.actual)}</TableCell>
+                    <TableCell align="right">{formatQuantity(row.theoretical)}</TableCell>
+                    <TableCell align="right">{formatQuantity(row.waste)}</TableCell>
+                    <TableCell align="right" sx={{ color: row.variance > 0 ? 'error.main' : undefined, fontWeight: 600 }}>
+                      {formatQuantity(row.variance)} {row.unit || ''}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(row.variance_cost)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={8} sx={{ fontWeight: 700 }}>
+                    Total variance cost
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 700 }}>
+                    {formatCurrency(varianceCost)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default StockUsageDialog;
@@ -34,7 +34,15 @@ import {
   getTopSellingItems,
   getOrders,
   getTotalItemsSold,
+  getPaymentBreakdown,
+  getPromotionBreakdown,
+  getTaxBreakdown,
+  getRefunds,
   type Analytics,
+  type PaymentBreakdown,
+  type PromotionBreakdown,
+  type TaxSummaryLine,
+  type Refund,
 } from '../utils/database';
 import PageHeader from '../components/Layout/PageHeader';
 
@@ -47,6 +55,10 @@ function Analytics() {
   const [endDate, setEndDate] = useState<string>('');
   const [analyticsData, setAnalyticsData] = useState<Analytics[]>([]);
   const [topSellingItems, setTopSellingItems] = useState<any[]>([]);
+  const [paymentBreakdown, setPaymentBreakdown] = useState<PaymentBreakdown[]>([]);
+  const [promotionBreakdown, setPromotionBreakdown] = useState<PromotionBreakdown[]>([]);
+  const [taxBreakdown, setTaxBreakdown] = useState<TaxSummaryLine[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
   const [summaryStats, setSummaryStats] = useState({
     totalRevenue: 0,
     totalOrders: 0,
@@ -77,14 +89,18 @@ function Analytics() {
       }
 
       // Load analytics data
-      const [analytics, topItems, allOrders, totalItemsSold] = await Promise.all([
+      const [analytics, topItems, allOrders, totalItemsSold, tenders, promotions, taxes, refundList] = await Promise.all([
         getDailyAnalytics(start, end),
         getTopSellingItems(10, start, end),
         getOrders(10000), // Get more orders to ensure we have all data
         getTotalItemsSold(start, end),
+        getPaymentBreakdown(start, end),
+        getPromotionBreakdown(start, end),
+        getTaxBreakdown(start, end),
+        getRefunds(start, end),
       ]);
 
-      // Calculate summary statistics - count paid or completed orders
+      // Calculate summary statistics - count paid or completed orders; voided orders are not sales
       const startDateObj = new Date(start);
       startDateObj.setHours(0, 0, 0, 0);
       const endDateObj = new Date(end);
@@ -94,10 +110,13 @@ function Analytics() {
         if (!order.created_at) return false;
         const orderDate = new Date(order.created_at);
         const isInRange = orderDate >= startDateObj && orderDate <= endDateObj;
-        const isPaidOrCompleted = order.payment_status === 'paid' || order.status === 'completed';
-        return isInRange && isPaidOrCompleted;
+        const isPaidOrCompleted = ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status) || order.status === 'completed';
+        return isInRange && isPaidOrCompleted && order.status !== 'cancelled';
       });
 
+      // Refunds come off revenue on the day the money went back; voids already drop the order itself
+      const revenueRefunds = refundList.filter(r => r.refund_type === 'refund' && r.order_status !== 'cancelled');
+
       // Calculate daily revenue from actual orders to ensure accurate chart data
       const dailyRevenueMap = new Map<string, { revenue: number; orders: number }>();
       
@@ -110,6 +129,15 @@ function Analytics() {
         });
       });
 
+      revenueRefunds.forEach((refund) => {
+        const refundDate = new Date(refund.created_at || '').toISOString().split('T')[0];
+        const existing = dailyRevenueMap.get(refundDate) || { revenue: 0, orders: 0 };
+        dailyRevenueMap.set(refundDate, {
+          revenue: existing.revenue - (refund.amount || 0),
+          orders: existing.orders,
+        });
+      });
+
       // Fill in missing days with zero values to ensure proper chart rendering
       const filledAnalytics: Analytics[] = [];
       
@@ -139,8 +167,13 @@ function Analytics() {
 
       setAnalyticsData(filledAnalytics);
       setTopSellingItems(topItems);
+      setPaymentBreakdown(tenders);
+      setPromotionBreakdown(promotions);
+      setTaxBreakdown(taxes);
+      setRefunds(refundList);
 
-      const totalRevenue = filteredOrders.reduce((sum: number, order: any) => sum + (order.total_amount || 0), 0);
+      const grossRevenue = filteredOrders.reduce((sum: number, order: any) => sum + (order.total_amount || 0), 0);
+      const totalRevenue = grossRevenue - revenueRefunds.reduce((sum, refund) => sum + (refund.amount || 0), 0);
       const totalOrders = filteredOrders.length;
       const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
@@ -329,7 +362,7 @@ function Analytics() {
                     flex: 1,
                   }}
                 >
-                  Total Revenue
+                  Net Revenue
                 </Typography>
                 <Box sx={{ ml: 0.5, flexShrink: 0 }}>
                   <CurrencyDollarIcon style={{ width: 18, height: 18, opacity: 0.4 }} />
@@ -693,9 +726,9 @@ function Analytics() {
           </Card>
         </Grid>
 
-        {/* Top Selling Items */}
-        <Grid item xs={12} md={4}>
-          <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+        {/* Top Selling Items & Payment Methods */}
+        <Grid item xs={12} md={4} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Card sx={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column' }}>
             <CardContent sx={{ flex: 1, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
               <Typography variant="h6" sx={{ fontWeight: 700, mb: 2 }}>
                 Top Selling Items
@@ -763,6 +796,198 @@ function Analytics() {
               )}
             </CardContent>
           </Card>
+
+          <Card sx={{ flexShrink: 0 }}>
+            <CardContent>
+              <Typography variant="h6" sx={{ fontWeight: 700, mb: 2 }}>
+                Payment Methods
+              </Typography>
+              {paymentBreakdown.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No payments recorded
+                </Typography>
+              ) : (
+                <Box>
+                  {paymentBreakdown.map((tender) => {
+                    const tenderTotal = paymentBreakdown.reduce((sum, t) => sum + (t.total_amount || 0), 0);
+                    const share = tenderTotal > 0 ? ((tender.total_amount || 0) / tenderTotal) * 100 : 0;
+                    return (
+                      <Box
+                        key={tender.payment_method}
+                        sx={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'space-between',
+                          py: 1,
+                          borderBottom: (theme) =>
+                            `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                        }}
+                      >
+                        <Box sx={{ minWidth: 0 }}>
+                          <Typography variant="body2" sx={{ fontWeight: 600, textTransform: 'capitalize' }}>
+                            {tender.payment_method}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                            {tender.payment_count} payments · {share.toFixed(1)}%
+                          </Typography>
+                        </Box>
+                        <Typography variant="body2" sx={{ fontWeight: 700, color: '#FFD700', minWidth: 80, textAlign: 'right' }}>
+                          {formatCurrency(tender.total_amount || 0)}
+                        </Typography>
+                      </Box>
+                    );
+                  })}
+                </Box>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card sx={{ flexShrink: 0 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 2 }}>
+                <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                  Promotions
+                </Typography>
+                {promotionBreakdown.length > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    Cost: {formatCurrency(promotionBreakdown.reduce((sum, p) => sum + (p.total_discount || 0), 0))}
+                  </Typography>
+                )}
+              </Box>
+              {promotionBreakdown.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No promotions used
+                </Typography>
+              ) : (
+                <Box>
+                  {promotionBreakdown.map((promo) => (
+                    <Box
+                      key={`${promo.discount_id ?? 'deleted'}-${promo.promotion_name}`}
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        py: 1,
+                        borderBottom: (theme) =>
+                          `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                      }}
+                    >
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                          {promo.promotion_name || 'Promotion'}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                          {promo.order_count} orders
+                        </Typography>
+                      </Box>
+                      <Typography variant="body2" sx={{ fontWeight: 700, color: 'success.main', minWidth: 80, textAlign: 'right' }}>
+                        -{formatCurrency(promo.total_discount || 0)}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card sx={{ flexShrink: 0 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 2 }}>
+                <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                  Tax Collected
+                </Typography>
+                {taxBreakdown.length > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    Total: {formatCurrency(taxBreakdown.reduce((sum, t) => sum + (t.tax_amount || 0), 0))}
+                  </Typography>
+                )}
+              </Box>
+              {taxBreakdown.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No taxed sales
+                </Typography>
+              ) : (
+                <Box>
+                  {taxBreakdown.map((tax) => (
+                    <Box
+                      key={tax.tax_rate}
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        py: 1,
+                        borderBottom: (theme) =>
+                          `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                      }}
+                    >
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                          {tax.tax_rate}%
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                          Taxable {formatCurrency(tax.taxable_amount || 0)} · {tax.order_count} orders
+                        </Typography>
+                      </Box>
+                      <Typography variant="body2" sx={{ fontWeight: 700, color: '#FFD700', minWidth: 80, textAlign: 'right' }}>
+                        {formatCurrency(tax.tax_amount || 0)}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              )}
+            </CardContent>
+          </Card>
+          <Card sx={{ flexShrink: 0 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 2 }}>
+                <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                  Refunds &amp; Voids
+                </Typography>
+                {refunds.length > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    Total: {formatCurrency(refunds.reduce((sum, r) => sum + (r.amount || 0), 0))}
+                  </Typography>
+                )}
+              </Box>
+              {refunds.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No refunds or voids
+                </Typography>
+              ) : (
+                <Box>
+                  {(['refund', 'void'] as const).map((type) => {
+                    const ofType = refunds.filter(r => r.refund_type === type);
+                    if (ofType.length === 0) return null;
+                    return (
+                      <Box
+                        key={type}
+                        sx={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'space-between',
+                          py: 1,
+                          borderBottom: (theme) =>
+                            `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                        }}
+                      >
+                        <Box sx={{ minWidth: 0 }}>
+                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                            {type === 'refund' ? 'Refunds' : 'Voids'}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                            {ofType.length} {type === 'refund' ? 'refunds' : 'orders voided'}
+                          </Typography>
+                        </Box>
+                        <Typography variant="body2" sx={{ fontWeight: 700, color: 'error.main', minWidth: 80, textAlign: 'right' }}>
+                          -{formatCurrency(ofType.reduce((sum, r) => sum + (r.amount || 0), 0))}
+                        </Typography>
+                      </Box>
+                    );
+                  })}
+                </Box>
+              )}
+            </CardContent>
+          </Card>
         </Grid>
       </Grid>
     </Box>
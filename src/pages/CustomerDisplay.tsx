@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { Box, Typography, Divider } from '@mui/material';
+import {
+  getCustomerDisplayState,
+  onCustomerDisplayState,
+  getPromoImages,
+  getSetting,
+  CustomerDisplayState,
+} from '../utils/database';
+
+// How long each promotional image stays up between sales
+const PROMO_ROTATE_MS = 8000;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'SLE',
+  }).format(amount);
+};
+
+/**
+ * Customer-facing screen on the second monitor. It keeps no order state of its own:
+ * the POS pushes the basket, the thank-you screen or idle through the main process.
+ */
+function CustomerDisplay() {
+  const [state, setState] = useState<CustomerDisplayState>({ mode: 'idle' });
+  const [businessName, setBusinessName] = useState('');
+  const [promoImages, setPromoImages] = useState<string[]>([]);
+  const [promoIndex, setPromoIndex] = useState(0);
+
+  useEffect(() => {
+    getCustomerDisplayState()
+      .then(setState)
+      .catch(err => console.error('Error loading customer display state:', err));
+    getSetting('business_name')
+      .then(setting => setBusinessName(setting?.value || ''))
+      .catch(err => console.error('Error loading business name:', err));
+    return onCustomerDisplayState(setState);
+  }, []);
+
+  // Pick up images added to the promotions folder each time the screen goes idle
+  useEffect(() => {
+    if (state.mode !== 'idle') return;
+    getPromoImages()
+      .then((images) => {
+        setPromoImages(images);
+        setPromoIndex(0);
+      })
+      .catch(err => console.error('Error loading promotional images:', err));
+  }, [state.mode]);
+
+  useEffect(() => {
+    if (state.mode !== 'idle' || promoImages.length < 2) return;
+    const interval = setInterval(() => setPromoIndex(index => (index + 1) % promoImages.length), PROMO_ROTATE_MS);
+    return () => clearInterval(interval);
+  }, [state.mode, promoImages]);
+
+  const shell = (content: React.ReactNode) => (
+    <Box
+      sx={{
+        height: '100vh',
+        overflow: 'hidden',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#121212' : '#FAFAFA',
+        cursor: 'none',
+      }}
+    >
+      {content}
+    </Box>
+  );
+
+  if (state.mode === 'thank_you') {
+    return shell(
+      <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: 2, textAlign: 'center', p: 4 }}>
+        <Typography variant="h2" sx={{ fontWeight: 800 }}>
+          Thank you!
+        </Typography>
+        <Typography variant="h5" color="text.secondary">
+          Order {state.order_label}
+        </Typography>
+        <Box sx={{ mt: 3, minWidth: 360 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="h6">Total</Typography>
+            <Typography variant="h6">{formatCurrency(state.total)}</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="h6">Paid</Typography>
+            <Typography variant="h6">{formatCurrency(state.paid)}</Typography>
+          </Box>
+          {state.change_due > 0 && (
+            <>
+              <Divider sx={{ my: 1.5 }} />
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography variant="h4" sx={{ fontWeight: 800 }}>Change</Typography>
+                <Typography variant="h4" sx={{ fontWeight: 800, color: 'success.main' }}>
+                  {formatCurrency(state.change_due)}
+                </Typography>
+              </Box>
+            </>
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.mode === 'cart') {
+    return shell(
+      <>
+        <Box sx={{ px: 4, py: 2.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+          <Typography variant="h5" sx={{ fontWeight: 800 }}>
+            {businessName || 'Your Order'}
+          </Typography>
+        </Box>
+        <Box sx={{ flexGrow: 1, overflowY: 'auto', px: 4, py: 2 }}>
+          {state.lines.map((line, index) => (
+            <Box key={index} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, py: 1.25, borderBottom: '1px dashed', borderColor: 'divider' }}>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography variant="h6" sx={{ fontWeight: 600 }}>
+                  {line.quantity} × {line.name}
+                  {line.size ? ` (${line.size})` : ''}
+                </Typography>
+                {line.modifiers.length > 0 && (
+                  <Typography variant="body1" color="text.secondary">
+                    {line.modifiers.join(', ')}
+                  </Typography>
+                )}
+              </Box>
+              <Typography variant="h6" sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                {formatCurrency(line.line_total)}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+        <Box sx={{ px: 4, py: 2.5, borderTop: '2px solid', borderColor: 'divider' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+            <Typography variant="h6" color="text.secondary">Subtotal</Typography>
+            <Typography variant="h6" color="text.secondary">{formatCurrency(state.subtotal)}</Typography>
+          </Box>
+          {state.discount > 0 && (
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="h6" color="success.main">
+                Discount{state.promotion_name ? ` (${state.promotion_name})` : ''}
+              </Typography>
+              <Typography variant="h6" color="success.main">-{formatCurrency(state.discount)}</Typography>
+            </Box>
+          )}
+          {state.tax > 0 && (
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="h6" color="text.secondary">
+                {state.tax_inclusive ? 'Includes tax' : 'Tax'}
+              </Typography>
+              <Typography variant="h6" color="text.secondary">{formatCurrency(state.tax)}</Typography>
+            </Box>
+          )}
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+            <Typography variant="h3" sx={{ fontWeight: 800 }}>Total</Typography>
+            <Typography variant="h3" sx={{ fontWeight: 800 }}>{formatCurrency(state.total)}</Typography>
+          </Box>
+          {state.paid > 0 && (
+            <>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                <Typography variant="h6">Paid</Typography>
+                <Typography variant="h6">{formatCurrency(state.paid)}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography variant="h5" sx={{ fontWeight: 700 }}>Balance Due</Typography>
+                <Typography variant="h5" sx={{ fontWeight: 700 }}>{formatCurrency(state.balance_due)}</Typography>
+              </Box>
+            </>
+          )}
+        </Box>
+      </>
+    );
+  }
+
+  // Idle: promotional images, or a welcome when there are none
+  const promo = promoImages[promoIndex];
+  return shell(
+    promo ? (
+      <Box
+        component="img"
+        src={promo}
+        alt=""
+        sx={{ width: '100%', height: '100%', objectFit: 'contain', backgroundColor: '#000' }}
+      />
+    ) : (
+      <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
+        <Typography variant="h2" sx={{ fontWeight: 800 }}>
+          {businessName || 'Welcome'}
+        </Typography>
+        {businessName && (
+          <Typography variant="h5" color="text.secondary">
+            Welcome
+          </Typography>
+        )}
+      </Box>
+    )
+  );
+}
+
+export default CustomerDisplay;
@@ -31,6 +31,7 @@ import {
   ArrowDownIcon,
   ClockIcon,
   CubeIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
 import {
   getInventoryItems,
@@ -43,6 +44,7 @@ import {
   InventoryTransaction,
 } from '../utils/database';
 import PageHeader from '../components/Layout/PageHeader';
+import StockUsageDialog from '../components/StockUsageDialog';
 
 function Inventory() {
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
@@ -52,6 +54,7 @@ function Inventory() {
   const [openDialog, setOpenDialog] = useState(false);
   const [openAdjustDialog, setOpenAdjustDialog] = useState(false);
   const [openHistoryDialog, setOpenHistoryDialog] = useState(false);
+  const [openUsageDialog, setOpenUsageDialog] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
   const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
@@ -71,6 +74,7 @@ function Inventory() {
     category: '',
     location: '',
     barcode: '',
+    allergens: '',
   });
 
   const [adjustmentData, setAdjustmentData] = useState({
@@ -160,6 +164,7 @@ function Inventory() {
         category: item.category || '',
         location: item.location || '',
         barcode: item.barcode || '',
+        allergens: item.allergens || '',
       });
     } else {
       setEditingItem(null);
@@ -175,6 +180,7 @@ function Inventory() {
         category: '',
         location: '',
         barcode: '',
+        allergens: '',
       });
     }
     setOpenDialog(true);
@@ -204,6 +210,7 @@ function Inventory() {
         category: formData.category.trim() || undefined,
         location: formData.location.trim() || undefined,
         barcode: formData.barcode.trim() || undefined,
+        allergens: formData.allergens.split(',').map(a => a.trim()).filter(Boolean).join(', ') || null,
       };
 
       if (editingItem) {
@@ -341,17 +348,30 @@ function Inventory() {
           { label: 'Inventory' },
         ]}
         actions={
-          <Button
-            variant="contained"
-            startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
-            onClick={() => handleOpenDialog()}
-            sx={{
-              textTransform: 'none',
-              fontWeight: 600,
-            }}
-          >
-            Add Item
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<ChartBarIcon style={{ width: 20, height: 20 }} />}
+              onClick={() => setOpenUsageDialog(true)}
+              sx={{
+                textTransform: 'none',
+                fontWeight: 600,
+              }}
+            >
+              Usage
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+              onClick={() => handleOpenDialog()}
+              sx={{
+                textTransform: 'none',
+                fontWeight: 600,
+              }}
+            >
+              Add Item
+            </Button>
+          </Box>
         }
       />
 
@@ -619,6 +639,11 @@ function Inventory() {
                             Barcode: {item.barcode}
                           </Typography>
                         )}
+                        {item.allergens && (
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem' }}>
+                            Allergens: {item.allergens}
+                          </Typography>
+                        )}
                       </Box>
 
                       {/* Actions */}
@@ -754,6 +779,15 @@ function Inventory() {
                 fullWidth
               />
             </Box>
+
+            <TextField
+              label="Allergens"
+              value={formData.allergens}
+              onChange={(e) => setFormData({ ...formData, allergens: e.target.value })}
+              fullWidth
+              placeholder="e.g., Gluten, Milk, Eggs"
+              helperText="Separate with commas; printed on the labels of items made with this"
+            />
           </Box>
         </DialogContent>
         <DialogActions>
@@ -874,6 +908,8 @@ function Inventory() {
           <Button onClick={() => setOpenHistoryDialog(false)}>Close</Button>
         </DialogActions>
       </Dialog>
+
+      <StockUsageDialog open={openUsageDialog} onClose={() => setOpenUsageDialog(false)} />
     </Box>
   );
 }
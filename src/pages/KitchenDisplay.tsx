@@ -0,0 +1,384 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  Chip,
+  Drawer,
+  Alert,
+  CircularProgress,
+  Divider,
+  FormControl,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import {
+  ArrowTopRightOnSquareIcon,
+  ArrowUturnLeftIcon,
+  CheckCircleIcon,
+  PlayIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getKitchenTickets,
+  getBumpedTickets,
+  startKitchenTicket,
+  bumpKitchenTicket,
+  recallKitchenTicket,
+  bumpStationTicket,
+  recallStationTicket,
+  openKitchenWindow,
+  getPrepStations,
+  onKitchenUpdate,
+  getSetting,
+  KitchenTicket,
+  PrepStation,
+  ORDER_TYPE_LABELS,
+} from '../utils/database';
+import PageHeader from '../components/Layout/PageHeader';
+
+/** Minutes since a SQLite CURRENT_TIMESTAMP (UTC, no zone marker) */
+const minutesSince = (timestamp: string | null | undefined, now: number) => {
+  if (!timestamp) return 0;
+  const since = new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`).getTime();
+  return isNaN(since) ? 0 : Math.max(0, Math.floor((now - since) / 60000));
+};
+
+const formatAge = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+interface KitchenDisplayProps {
+  /** Running in its own window (or second monitor): no page header, full height */
+  standalone?: boolean;
+}
+
+/**
+ * Kitchen display: open orders as tickets, oldest first, refreshed whenever an order changes.
+ * With a prep station picked (?station=ID) it shows only that station's items, and Bump means
+ * "our part is done"; the expo view shows every item and bumps the whole order.
+ */
+function KitchenDisplay({ standalone = false }: KitchenDisplayProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const stationId = parseInt(searchParams.get('station') || '', 10) || null;
+  const [stations, setStations] = useState<PrepStation[]>([]);
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [bumped, setBumped] = useState<KitchenTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showRecall, setShowRecall] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [thresholds, setThresholds] = useState({ warning: 8, critical: 15 });
+  const [now, setNow] = useState(Date.now());
+
+  const loadTickets = useCallback(async () => {
+    try {
+      const [open, recent] = await Promise.all([getKitchenTickets(stationId), getBumpedTickets(12, stationId)]);
+      setTickets(open);
+      setBumped(recent);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load kitchen tickets');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    loadTickets();
+    getPrepStations()
+      .then(setStations)
+      .catch(err => console.error('Error loading prep stations:', err));
+    Promise.all([getSetting('kds_warning_minutes'), getSetting('kds_critical_minutes')])
+      .then(([warning, critical]) => {
+        setThresholds({
+          warning: parseInt(warning?.value || '', 10) || 8,
+          critical: parseInt(critical?.value || '', 10) || 15,
+        });
+      })
+      .catch(err => console.error('Error loading kitchen display settings:', err));
+
+    // The main process pushes a notification whenever an order is saved or changes status
+    const unsubscribe = onKitchenUpdate(loadTickets);
+    // Only the age timers tick locally
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [loadTickets]);
+
+  const runAction = async (ticket: KitchenTicket, action: (id: number) => Promise<unknown>) => {
+    try {
+      setBusyId(ticket.id);
+      setError(null);
+      await action(ticket.id);
+      await loadTickets();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the ticket');
+      console.error(err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBump = (ticket: KitchenTicket) =>
+    runAction(ticket, stationId ? (id) => bumpStationTicket(id, stationId) : bumpKitchenTicket);
+
+  const handleRecall = (ticket: KitchenTicket) =>
+    runAction(ticket, stationId ? (id) => recallStationTicket(id, stationId) : recallKitchenTicket);
+
+  const handleStationChange = (value: number | '') => {
+    setLoading(true);
+    setSearchParams(value ? { station: String(value) } : {});
+  };
+
+  const handleOpenWindow = async () => {
+    try {
+      await openKitchenWindow(stationId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open the kitchen display');
+      console.error(err);
+    }
+  };
+
+  const ageColor = (minutes: number) =>
+    minutes >= thresholds.critical ? 'error.main' : minutes >= thresholds.warning ? 'warning.main' : 'success.main';
+
+  const ticketTitle = (ticket: KitchenTicket) =>
+    [
+      ticket.table_number ? `Table ${ticket.table_number}` : ticket.label || ticket.customer_name,
+      ORDER_TYPE_LABELS[ticket.order_type || 'takeaway'],
+    ].filter(Boolean).join(' · ');
+
+  const renderItems = (ticket: KitchenTicket) => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {ticket.items.map((item) => (
+        <Box key={item.id}>
+          <Typography sx={{ fontWeight: 700, fontSize: '1.05rem', lineHeight: 1.3 }}>
+            {item.quantity} × {item.name}
+            {item.size_name ? ` (${item.size_name})` : ''}
+            {item.seat_number ? (
+              <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                Seat {item.seat_number}
+              </Typography>
+            ) : null}
+          </Typography>
+          {item.modifiers.map((modifier, index) => (
+            <Typography key={index} variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+              + {modifier}
+            </Typography>
+          ))}
+          {item.notes && (
+            <Typography variant="body2" sx={{ pl: 2, fontStyle: 'italic', color: 'warning.main' }}>
+              {item.notes}
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+
+  // On the expo view: which stations have items on the ticket, and whether they are done
+  const renderStationProgress = (ticket: KitchenTicket) => {
+    const involved = stations.filter(station => ticket.items.some(item => item.station_id === station.id));
+    if (stationId || involved.length === 0) return null;
+    return (
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+        {involved.map(station => (
+          <Chip
+            key={station.id}
+            label={station.name}
+            size="small"
+            color={ticket.bumped_station_ids.includes(station.id!) ? 'success' : 'default'}
+            variant={ticket.bumped_station_ids.includes(station.id!) ? 'filled' : 'outlined'}
+          />
+        ))}
+      </Box>
+    );
+  };
+
+  const renderTicket = (ticket: KitchenTicket) => {
+    const age = minutesSince(ticket.created_at, now);
+    const busy = busyId === ticket.id;
+    return (
+      <Card
+        key={ticket.id}
+        variant="outlined"
+        sx={{ display: 'flex', flexDirection: 'column', borderWidth: 2, borderColor: ageColor(age), breakInside: 'avoid' }}
+      >
+        <Box sx={{ px: 2, py: 1.25, backgroundColor: ageColor(age), color: 'common.white' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            <Typography sx={{ fontWeight: 800, fontSize: '1.4rem', lineHeight: 1.1 }}>
+              #{ticket.pickup_number ?? ticket.order_number}
+            </Typography>
+            <Typography sx={{ fontWeight: 700, fontSize: '1.1rem' }}>{formatAge(age)}</Typography>
+          </Box>
+          <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+            {ticketTitle(ticket)}
+          </Typography>
+        </Box>
+        <Box sx={{ p: 2, flexGrow: 1 }}>
+          {ticket.status === 'preparing' && (
+            <Chip label="Preparing" size="small" color="info" sx={{ mb: 1 }} />
+          )}
+          {renderStationProgress(ticket)}
+          {renderItems(ticket)}
+          {ticket.notes && (
+            <Alert severity="warning" icon={false} sx={{ mt: 1.5, py: 0 }}>
+              {ticket.notes}
+            </Alert>
+          )}
+        </Box>
+        <Divider />
+        <Box sx={{ display: 'flex', gap: 1, p: 1.5 }}>
+          {ticket.status === 'pending' && (
+            <Button
+              variant="outlined"
+              startIcon={<PlayIcon style={{ width: 18, height: 18 }} />}
+              onClick={() => runAction(ticket, startKitchenTicket)}
+              disabled={busy}
+              sx={{ flex: 1 }}
+            >
+              Start
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={busy ? <CircularProgress size={16} /> : <CheckCircleIcon style={{ width: 18, height: 18 }} />}
+            onClick={() => handleBump(ticket)}
+            disabled={busy}
+            sx={{ flex: 2 }}
+          >
+            Bump
+          </Button>
+        </Box>
+      </Card>
+    );
+  };
+
+  const kdsStations = stations.filter(station => station.show_on_kds);
+  const currentStation = stations.find(station => station.id === stationId);
+
+  const toolbar = (
+    <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center' }}>
+      {kdsStations.length > 0 && (
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <Select
+            value={stationId ?? ''}
+            displayEmpty
+            onChange={(e) => handleStationChange(e.target.value as number | '')}
+          >
+            <MenuItem value="">All stations (expo)</MenuItem>
+            {kdsStations.map(station => (
+              <MenuItem key={station.id} value={station.id}>{station.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      <Button
+        variant="outlined"
+        startIcon={<ArrowUturnLeftIcon style={{ width: 18, height: 18 }} />}
+        onClick={() => setShowRecall(true)}
+      >
+        Recall ({bumped.length})
+      </Button>
+      {!standalone && (
+        <Button
+          variant="contained"
+          startIcon={<ArrowTopRightOnSquareIcon style={{ width: 18, height: 18 }} />}
+          onClick={handleOpenWindow}
+        >
+          Open Kitchen Window
+        </Button>
+      )}
+    </Box>
+  );
+
+  return (
+    <Box sx={standalone ? { minHeight: '100vh', p: 2, backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#121212' : '#ECECEC' } : undefined}>
+      {standalone ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography variant="h5" sx={{ fontWeight: 800, mr: 'auto' }}>
+            {currentStation?.name || 'Kitchen'} · {tickets.length} open
+          </Typography>
+          {toolbar}
+        </Box>
+      ) : (
+        <PageHeader
+          title={currentStation ? `Kitchen Display · ${currentStation.name}` : 'Kitchen Display'}
+          subtitle={`${tickets.length} open ticket${tickets.length === 1 ? '' : 's'}, oldest first`}
+          breadcrumbs={[
+            { label: 'Home', path: '/pos' },
+            { label: 'Kitchen Display' },
+          ]}
+          actions={toolbar}
+        />
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : tickets.length === 0 ? (
+        <Card variant="outlined" sx={{ p: 6, textAlign: 'center' }}>
+          <Typography variant="h6" color="text.secondary">No open tickets</Typography>
+        </Card>
+      ) : (
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: 2, alignItems: 'start' }}>
+          {tickets.map(renderTicket)}
+        </Box>
+      )}
+
+      {/* Bumped tickets, newest first, for recall */}
+      <Drawer anchor="right" open={showRecall} onClose={() => setShowRecall(false)}>
+        <Box sx={{ width: 360, p: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 700, mb: 2 }}>
+            Bumped Tickets
+          </Typography>
+          {bumped.length === 0 ? (
+            <Typography color="text.secondary">Nothing bumped recently</Typography>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              {bumped.map((ticket) => (
+                <Card key={ticket.id} variant="outlined" sx={{ p: 1.5 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                    <Box>
+                      <Typography sx={{ fontWeight: 700 }}>
+                        #{ticket.pickup_number ?? ticket.order_number} · {ticketTitle(ticket)}
+                      </Typography>
+                      {ticket.ready_at && (
+                        <Typography variant="caption" color="text.secondary">
+                          Bumped {formatAge(minutesSince(ticket.ready_at, now))} ago
+                        </Typography>
+                      )}
+                    </Box>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={() => handleRecall(ticket)}
+                      disabled={busyId === ticket.id}
+                    >
+                      Recall
+                    </Button>
+                  </Box>
+                  {renderItems(ticket)}
+                </Card>
+              ))}
+            </Box>
+          )}
+        </Box>
+      </Drawer>
+    </Box>
+  );
+}
+
+export default KitchenDisplay;
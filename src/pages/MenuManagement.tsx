@@ -32,8 +32,13 @@ import {
   PhotoIcon,
   XMarkIcon,
   FolderIcon,
+  AdjustmentsHorizontalIcon,
+  TagIcon,
+  BeakerIcon,
 } from '@heroicons/react/24/outline';
 import MenuItemImage from '../components/MenuItemImage';
+import PrintLabelsDialog from '../components/PrintLabelsDialog';
+import RecipeDialog from '../components/RecipeDialog';
 import {
   getAllMenuItems,
   addMenuItem,
@@ -45,12 +50,34 @@ import {
   deleteCategory,
   saveMedia,
   getMenuItemSizes,
+  getRecipe,
   saveMenuItemSizes,
   getMenuItemCustomOptions,
   saveMenuItemCustomOptions,
+  getOptionGroups,
+  addOptionGroup,
+  updateOptionGroup,
+  deleteOptionGroup,
+  getOptions,
+  addOption,
+  updateOption,
+  deleteOption,
+  getAllAddons,
+  addAddon,
+  updateAddon,
+  deleteAddon,
+  getMenuItemOptionGroups,
+  saveMenuItemOptionGroups,
+  getMenuItemAddonLinks,
+  saveMenuItemAddons,
+  getTaxClasses,
   MenuItem as MenuItemType,
   Category,
   CreateMenuItemData,
+  OptionGroup,
+  OptionGroupWithOptions,
+  Addon,
+  TaxClass,
 } from '../utils/database';
 import PageHeader from '../components/Layout/PageHeader';
 
@@ -70,6 +97,8 @@ function MenuManagement() {
   const [imageLoadFailed, setImageLoadFailed] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
+  const [labelItem, setLabelItem] = useState<MenuItemType | null>(null);
+  const [recipeItem, setRecipeItem] = useState<MenuItemType | null>(null);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -77,6 +106,9 @@ function MenuManagement() {
     price: '',
     category: '',
     is_available: true,
+    tax_class_id: '',
+    shelf_life_days: '',
+    barcode: '',
   });
 
   // Per-menu-item sizes and options
@@ -85,11 +117,39 @@ function MenuManagement() {
   const [sizes, setSizes] = useState<Array<{ id?: number; name: string; price: string; is_default: boolean }>>([]);
   const [customOptions, setCustomOptions] = useState<Array<{ id?: number; name: string; price: string; is_available: boolean }>>([]);
 
+  // Shared option groups and add-ons
+  const [optionGroups, setOptionGroups] = useState<OptionGroupWithOptions[]>([]);
+  const [addons, setAddons] = useState<Addon[]>([]);
+  const [attachedGroupIds, setAttachedGroupIds] = useState<number[]>([]);
+  const [attachedAddonIds, setAttachedAddonIds] = useState<number[]>([]);
+  const [openOptionGroupDialog, setOpenOptionGroupDialog] = useState(false);
+  const [editingOptionGroup, setEditingOptionGroup] = useState<OptionGroupWithOptions | null>(null);
+  const [optionGroupFormData, setOptionGroupFormData] = useState({
+    name: '',
+    description: '',
+    is_required: false,
+    min_selections: 1,
+    max_selections: 1,
+    display_order: 0,
+  });
+  const [groupOptions, setGroupOptions] = useState<Array<{ id?: number; name: string; price_modifier: string; is_available: boolean }>>([]);
+  const [openAddonDialog, setOpenAddonDialog] = useState(false);
+  const [editingAddon, setEditingAddon] = useState<Addon | null>(null);
+  const [addonFormData, setAddonFormData] = useState({
+    name: '',
+    description: '',
+    price: '',
+    category: '',
+    is_available: true,
+  });
+
   const [categoryFormData, setCategoryFormData] = useState({
     name: '',
     description: '',
     display_order: 0,
+    tax_class_id: '',
   });
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
 
 
 
@@ -101,12 +161,20 @@ function MenuManagement() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [items, cats] = await Promise.all([
+      const [items, cats, groups, allOptions, allAddons] = await Promise.all([
         getAllMenuItems(),
         getCategories(),
+        getOptionGroups(),
+        getOptions(),
+        getAllAddons(),
       ]);
       setMenuItems(items);
       setCategories(cats);
+      setOptionGroups(groups.map((group: OptionGroup) => ({
+        ...group,
+        options: allOptions.filter(o => o.option_group_id === group.id),
+      })));
+      setAddons(allAddons);
       setError(null);
     } catch (err) {
       setError('Failed to load menu items');
@@ -114,6 +182,11 @@ function MenuManagement() {
     } finally {
       setLoading(false);
     }
+    try {
+      setTaxClasses(await getTaxClasses());
+    } catch (err) {
+      console.error('Failed to load tax classes:', err);
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -132,6 +205,9 @@ function MenuManagement() {
         price: item.price.toString(),
         category: item.category || '',
         is_available: item.is_available !== 0,
+        tax_class_id: item.tax_class_id ? String(item.tax_class_id) : '',
+        shelf_life_days: item.shelf_life_days != null ? String(item.shelf_life_days) : '',
+        barcode: item.barcode || '',
       });
       // Convert image path to media:// protocol URL for display
       if (item.image_path) {
@@ -148,10 +224,14 @@ function MenuManagement() {
       
       // Load existing sizes and custom options for this item
       try {
-        const [itemSizes, itemOptions] = await Promise.all([
+        const [itemSizes, itemOptions, groupLinks, addonLinks] = await Promise.all([
           getMenuItemSizes(item.id!),
           getMenuItemCustomOptions(item.id!),
+          getMenuItemOptionGroups(item.id!),
+          getMenuItemAddonLinks(item.id!),
         ]);
+        setAttachedGroupIds(groupLinks.map(link => link.option_group_id));
+        setAttachedAddonIds(addonLinks.map(link => link.addon_id));
         
         if (itemSizes.length > 0) {
           setHasSizes(true);
@@ -184,6 +264,8 @@ function MenuManagement() {
         setHasOptions(false);
         setSizes([]);
         setCustomOptions([]);
+        setAttachedGroupIds([]);
+        setAttachedAddonIds([]);
       }
     } else {
       setEditingItem(null);
@@ -193,6 +275,9 @@ function MenuManagement() {
         price: '',
         category: '',
         is_available: true,
+        tax_class_id: '',
+        shelf_life_days: '',
+        barcode: '',
       });
       setImagePreview(null);
       setImageFile(null);
@@ -201,6 +286,8 @@ function MenuManagement() {
       setHasOptions(false);
       setSizes([]);
       setCustomOptions([]);
+      setAttachedGroupIds([]);
+      setAttachedAddonIds([]);
     }
     setOpenDialog(true);
   };
@@ -214,6 +301,9 @@ function MenuManagement() {
       price: '',
       category: '',
       is_available: true,
+      tax_class_id: '',
+      shelf_life_days: '',
+      barcode: '',
     });
     setImagePreview(null);
     setImageFile(null);
@@ -222,6 +312,8 @@ function MenuManagement() {
     setHasOptions(false);
     setSizes([]);
     setCustomOptions([]);
+    setAttachedGroupIds([]);
+    setAttachedAddonIds([]);
   };
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -258,6 +350,7 @@ function MenuManagement() {
         name: category.name,
         description: category.description || '',
         display_order: category.display_order || 0,
+        tax_class_id: category.tax_class_id ? String(category.tax_class_id) : '',
       });
     } else {
       setEditingCategory(null);
@@ -265,6 +358,7 @@ function MenuManagement() {
         name: '',
         description: '',
         display_order: 0,
+        tax_class_id: '',
       });
     }
     setOpenCategoryDialog(true);
@@ -277,6 +371,7 @@ function MenuManagement() {
       name: '',
       description: '',
       display_order: 0,
+      tax_class_id: '',
     });
   };
 
@@ -294,6 +389,7 @@ function MenuManagement() {
           name: categoryFormData.name,
           description: categoryFormData.description || undefined,
           display_order: categoryFormData.display_order,
+          tax_class_id: categoryFormData.tax_class_id ? Number(categoryFormData.tax_class_id) : null,
         });
         console.log('Update result:', result);
       } else {
@@ -301,6 +397,7 @@ function MenuManagement() {
           name: categoryFormData.name,
           description: categoryFormData.description || undefined,
           display_order: categoryFormData.display_order,
+          tax_class_id: categoryFormData.tax_class_id ? Number(categoryFormData.tax_class_id) : null,
         });
         console.log('Create result:', result);
       }
@@ -380,6 +477,226 @@ function MenuManagement() {
     setCustomOptions(newOptions);
   };
 
+  const toggleAttachedGroup = (groupId: number) => {
+    setAttachedGroupIds(attachedGroupIds.includes(groupId)
+      ? attachedGroupIds.filter(id => id !== groupId)
+      : [...attachedGroupIds, groupId]);
+  };
+
+  const toggleAttachedAddon = (addonId: number) => {
+    setAttachedAddonIds(attachedAddonIds.includes(addonId)
+      ? attachedAddonIds.filter(id => id !== addonId)
+      : [...attachedAddonIds, addonId]);
+  };
+
+  const handleOpenOptionGroupDialog = (group?: OptionGroupWithOptions) => {
+    if (group) {
+      setEditingOptionGroup(group);
+      setOptionGroupFormData({
+        name: group.name,
+        description: group.description || '',
+        is_required: group.is_required === 1,
+        min_selections: group.min_selections ?? 1,
+        max_selections: group.max_selections ?? 1,
+        display_order: group.display_order || 0,
+      });
+      setGroupOptions(group.options.map(o => ({
+        id: o.id,
+        name: o.name,
+        price_modifier: (o.price_modifier || 0).toString(),
+        is_available: o.is_available !== 0,
+      })));
+    } else {
+      setEditingOptionGroup(null);
+      setOptionGroupFormData({
+        name: '',
+        description: '',
+        is_required: false,
+        min_selections: 1,
+        max_selections: 1,
+        display_order: 0,
+      });
+      setGroupOptions([{ name: '', price_modifier: '', is_available: true }]);
+    }
+    setOpenOptionGroupDialog(true);
+  };
+
+  const handleCloseOptionGroupDialog = () => {
+    setOpenOptionGroupDialog(false);
+    setEditingOptionGroup(null);
+    setGroupOptions([]);
+  };
+
+  const updateGroupOption = (index: number, field: 'name' | 'price_modifier' | 'is_available', value: string | boolean) => {
+    const newOptions = [...groupOptions];
+    newOptions[index] = { ...newOptions[index], [field]: value };
+    setGroupOptions(newOptions);
+  };
+
+  const handleSaveOptionGroup = async () => {
+    try {
+      if (!optionGroupFormData.name.trim()) {
+        setError('Option group name is required');
+        return;
+      }
+      const { min_selections, max_selections } = optionGroupFormData;
+      if (max_selections < 1 || min_selections < 0 || min_selections > max_selections) {
+        setError('Selections must satisfy 0 ≤ minimum ≤ maximum, with a maximum of at least 1');
+        return;
+      }
+      const optionsToSave = groupOptions.filter(o => o.name.trim());
+      if (optionsToSave.length === 0) {
+        setError('Add at least one option to the group');
+        return;
+      }
+
+      const groupData = {
+        name: optionGroupFormData.name,
+        description: optionGroupFormData.description || undefined,
+        is_required: optionGroupFormData.is_required ? 1 : 0,
+        min_selections,
+        max_selections,
+        display_order: optionGroupFormData.display_order,
+      };
+
+      let groupId: number;
+      if (editingOptionGroup) {
+        await updateOptionGroup(editingOptionGroup.id!, groupData);
+        groupId = editingOptionGroup.id!;
+      } else {
+        const result = await addOptionGroup(groupData);
+        groupId = result.id || result.lastInsertRowid;
+      }
+
+      // Sync the group's options: update kept ones, add new ones, remove deleted ones
+      for (const [index, option] of optionsToSave.entries()) {
+        const optionData = {
+          option_group_id: groupId,
+          name: option.name.trim(),
+          price_modifier: parseFloat(option.price_modifier) || 0,
+          display_order: index,
+          is_available: option.is_available ? 1 : 0,
+        };
+        if (option.id) {
+          await updateOption(option.id, optionData);
+        } else {
+          await addOption(optionData);
+        }
+      }
+      const keptIds = optionsToSave.filter(o => o.id).map(o => o.id);
+      for (const option of editingOptionGroup?.options || []) {
+        if (!keptIds.includes(option.id)) {
+          try {
+            await deleteOption(option.id!);
+          } catch (deleteErr) {
+            // Options already used on orders are kept for history and hidden instead
+            console.error('Error deleting option, marking unavailable:', deleteErr);
+            await updateOption(option.id!, { ...option, is_available: 0 });
+          }
+        }
+      }
+
+      await loadData();
+      handleCloseOptionGroupDialog();
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save option group');
+      console.error(err);
+    }
+  };
+
+  const handleDeleteOptionGroup = async (id: number) => {
+    if (!window.confirm('Are you sure you want to delete this option group and its options?')) {
+      return;
+    }
+
+    try {
+      await deleteOptionGroup(id);
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete option group');
+      console.error(err);
+    }
+  };
+
+  const handleOpenAddonDialog = (addon?: Addon) => {
+    if (addon) {
+      setEditingAddon(addon);
+      setAddonFormData({
+        name: addon.name,
+        description: addon.description || '',
+        price: addon.price.toString(),
+        category: addon.category || '',
+        is_available: addon.is_available !== 0,
+      });
+    } else {
+      setEditingAddon(null);
+      setAddonFormData({
+        name: '',
+        description: '',
+        price: '',
+        category: '',
+        is_available: true,
+      });
+    }
+    setOpenAddonDialog(true);
+  };
+
+  const handleCloseAddonDialog = () => {
+    setOpenAddonDialog(false);
+    setEditingAddon(null);
+  };
+
+  const handleSaveAddon = async () => {
+    try {
+      if (!addonFormData.name.trim()) {
+        setError('Add-on name is required');
+        return;
+      }
+      const price = parseFloat(addonFormData.price);
+      if (isNaN(price) || price < 0) {
+        setError('Add-on price must be a valid positive number');
+        return;
+      }
+
+      const addonData = {
+        name: addonFormData.name,
+        description: addonFormData.description || undefined,
+        price,
+        category: addonFormData.category || undefined,
+        is_available: addonFormData.is_available ? 1 : 0,
+      };
+      if (editingAddon) {
+        await updateAddon(editingAddon.id!, addonData);
+      } else {
+        await addAddon(addonData);
+      }
+
+      await loadData();
+      handleCloseAddonDialog();
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save add-on');
+      console.error(err);
+    }
+  };
+
+  const handleDeleteAddon = async (id: number) => {
+    if (!window.confirm('Are you sure you want to delete this add-on?')) {
+      return;
+    }
+
+    try {
+      await deleteAddon(id);
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete add-on');
+      console.error(err);
+    }
+  };
+
   const handleSave = async () => {
     try {
       if (!formData.name.trim()) {
@@ -398,6 +715,22 @@ function MenuManagement() {
         return;
       }
 
+      // Sizes keep their recipe quantities when renamed, but removing one drops them
+      if (editingItem) {
+        const keptIds = hasSizes ? sizes.filter(s => s.name.trim() && s.price.trim()).map(s => s.id) : [];
+        const [savedSizes, recipe] = await Promise.all([
+          getMenuItemSizes(editingItem.id!),
+          getRecipe(editingItem.id!).catch(() => []),
+        ]);
+        const removed = savedSizes.filter(size => !keptIds.includes(size.id)).map(size => size.name);
+        const dropped = removed.filter(name => recipe.some(row => row.size_name === name));
+        if (dropped.length > 0 && !window.confirm(
+          `${dropped.join(', ')} ${dropped.length === 1 ? 'has its' : 'have their'} own recipe quantities, which will be removed with the ${dropped.length === 1 ? 'size' : 'sizes'}. Continue?`
+        )) {
+          return;
+        }
+      }
+
       setUploadingImage(true);
       let imagePath = editingItem?.image_path || undefined;
 
@@ -432,6 +765,9 @@ function MenuManagement() {
           category: formData.category || undefined,
           image_path: imagePath,
           is_available: formData.is_available ? 1 : 0,
+          tax_class_id: formData.tax_class_id ? Number(formData.tax_class_id) : null,
+          shelf_life_days: formData.shelf_life_days !== '' ? Number(formData.shelf_life_days) : null,
+          barcode: formData.barcode.trim() || null,
         });
         
         // Save sizes if enabled
@@ -439,6 +775,7 @@ function MenuManagement() {
           const sizesToSave = sizes
             .filter(s => s.name.trim() && s.price.trim())
             .map((s, index) => ({
+              id: s.id,
               name: s.name.trim(),
               price: parseFloat(s.price),
               display_order: index,
@@ -465,6 +802,9 @@ function MenuManagement() {
           // Delete all options if disabled
           await saveMenuItemCustomOptions(editingItem.id!, []);
         }
+
+        await saveMenuItemOptionGroups(editingItem.id!, attachedGroupIds);
+        await saveMenuItemAddons(editingItem.id!, attachedAddonIds);
       } else {
         const menuItemData: CreateMenuItemData = {
           name: formData.name,
@@ -473,6 +813,9 @@ function MenuManagement() {
           category: formData.category || undefined,
           image_path: imagePath,
           is_available: formData.is_available ? 1 : 0,
+          tax_class_id: formData.tax_class_id ? Number(formData.tax_class_id) : null,
+          shelf_life_days: formData.shelf_life_days !== '' ? Number(formData.shelf_life_days) : null,
+          barcode: formData.barcode.trim() || null,
         };
         const result = await addMenuItem(menuItemData);
         const newMenuItemId = result.id || result.lastInsertRowid;
@@ -482,6 +825,7 @@ function MenuManagement() {
           const sizesToSave = sizes
             .filter(s => s.name.trim() && s.price.trim())
             .map((s, index) => ({
+              id: s.id,
               name: s.name.trim(),
               price: parseFloat(s.price),
               display_order: index,
@@ -502,6 +846,11 @@ function MenuManagement() {
             }));
           await saveMenuItemCustomOptions(newMenuItemId, optionsToSave);
         }
+
+        if (newMenuItemId) {
+          await saveMenuItemOptionGroups(newMenuItemId, attachedGroupIds);
+          await saveMenuItemAddons(newMenuItemId, attachedAddonIds);
+        }
       }
 
       setUploadingImage(false);
@@ -570,7 +919,7 @@ function MenuManagement() {
             >
               Add Item
             </Button>
-          ) : (
+          ) : activeTab === 1 ? (
             <Button
               variant="contained"
               startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
@@ -585,6 +934,30 @@ function MenuManagement() {
             >
               Add Category
             </Button>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 1.5 }}>
+              <Button
+                variant="outlined"
+                startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+                onClick={() => handleOpenAddonDialog()}
+              >
+                Add Add-on
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+                onClick={() => handleOpenOptionGroupDialog()}
+                sx={{
+                  backgroundColor: 'primary.main',
+                  color: 'primary.contrastText',
+                  '&:hover': {
+                    backgroundColor: 'primary.dark',
+                  },
+                }}
+              >
+                Add Option Group
+              </Button>
+            </Box>
           )
         }
       />
@@ -675,6 +1048,31 @@ function MenuManagement() {
               </Box>
             }
           />
+          <Tab 
+            label={
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="body1" sx={{ fontWeight: 'inherit' }}>
+                  Modifiers
+                </Typography>
+                <Chip
+                  label={optionGroups.length + addons.length}
+                  size="small"
+                  sx={{
+                    height: 20,
+                    fontSize: '11px',
+                    fontWeight: 600,
+                    backgroundColor: (theme) => 
+                      activeTab === 2 
+                        ? (theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.2)' : 'rgba(255, 215, 0, 0.15)')
+                        : theme.palette.mode === 'dark' 
+                          ? 'rgba(255, 255, 255, 0.1)' 
+                          : 'rgba(0, 0, 0, 0.08)',
+                    color: activeTab === 2 ? 'primary.main' : 'inherit',
+                  }}
+                />
+              </Box>
+            }
+          />
         </Tabs>
       </Box>
 
@@ -924,6 +1322,36 @@ function MenuManagement() {
                       </Typography>
                     </Box>
                     <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      <Tooltip title="Recipe">
+                        <IconButton
+                          size="small"
+                          onClick={() => setRecipeItem(item)}
+                          sx={{
+                            '&:hover': {
+                              backgroundColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.06)',
+                              transform: 'scale(1.1)',
+                            },
+                            transition: 'all 0.2s',
+                          }}
+                        >
+                          <BeakerIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Print Labels">
+                        <IconButton
+                          size="small"
+                          onClick={() => setLabelItem(item)}
+                          sx={{
+                            '&:hover': {
+                              backgroundColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.06)',
+                              transform: 'scale(1.1)',
+                            },
+                            transition: 'all 0.2s',
+                          }}
+                        >
+                          <TagIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
                       <Tooltip title="Edit">
                         <IconButton
                           size="small"
@@ -1145,6 +1573,137 @@ function MenuManagement() {
         </>
       )}
 
+      {/* Modifiers Tab */}
+      {activeTab === 2 && (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <Card variant="outlined" sx={{ p: 3, height: '100%' }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <AdjustmentsHorizontalIcon style={{ width: 20, height: 20, opacity: 0.7 }} />
+                <Typography variant="h6" sx={{ fontWeight: 700, fontSize: '17px' }}>
+                  Option Groups
+                </Typography>
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2.5 }}>
+                Reusable choices such as Milk or Bread Type. Attach them to items from the item editor.
+              </Typography>
+              {optionGroups.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                  No option groups yet
+                </Typography>
+              ) : (
+                optionGroups.map((group) => (
+                  <Card key={group.id} variant="outlined" sx={{ p: 2, mb: 1.5 }}>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2 }}>
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                          <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                            {group.name}
+                          </Typography>
+                          <Chip
+                            label={group.is_required === 1 ? 'Required' : 'Optional'}
+                            size="small"
+                            color={group.is_required === 1 ? 'primary' : 'default'}
+                            sx={{ height: 20, fontSize: '11px' }}
+                          />
+                          <Typography variant="caption" color="text.secondary">
+                            {group.max_selections === 1 ? 'Pick one' : `Pick ${group.min_selections ?? 0}–${group.max_selections}`}
+                          </Typography>
+                        </Box>
+                        {group.description && (
+                          <Typography variant="body2" color="text.secondary" sx={{ fontSize: '13px', mb: 1 }}>
+                            {group.description}
+                          </Typography>
+                        )}
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75 }}>
+                          {group.options.map((option) => (
+                            <Chip
+                              key={option.id}
+                              label={option.price_modifier ? `${option.name} (+${formatCurrency(option.price_modifier)})` : option.name}
+                              size="small"
+                              variant="outlined"
+                              sx={{ fontSize: '12px', opacity: option.is_available === 0 ? 0.5 : 1 }}
+                            />
+                          ))}
+                        </Box>
+                      </Box>
+                      <Box sx={{ display: 'flex', gap: 0.5 }}>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => handleOpenOptionGroupDialog(group)}>
+                            <PencilIcon style={{ width: 18, height: 18 }} />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton size="small" color="error" onClick={() => handleDeleteOptionGroup(group.id!)}>
+                            <TrashIcon style={{ width: 18, height: 18 }} />
+                          </IconButton>
+                        </Tooltip>
+                      </Box>
+                    </Box>
+                  </Card>
+                ))
+              )}
+            </Card>
+          </Grid>
+          <Grid item xs={12} md={5}>
+            <Card variant="outlined" sx={{ p: 3, height: '100%' }}>
+              <Typography variant="h6" sx={{ fontWeight: 700, fontSize: '17px', mb: 0.5 }}>
+                Add-ons
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2.5 }}>
+                Extras sold with an item, such as an extra shot or cream.
+              </Typography>
+              {addons.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                  No add-ons yet
+                </Typography>
+              ) : (
+                addons.map((addon) => (
+                  <Box
+                    key={addon.id}
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 2,
+                      py: 1.25,
+                      borderBottom: '1px solid',
+                      borderColor: 'divider',
+                      opacity: addon.is_available === 0 ? 0.5 : 1,
+                    }}
+                  >
+                    <Box sx={{ flexGrow: 1 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                        {addon.name}
+                      </Typography>
+                      {(addon.category || addon.is_available === 0) && (
+                        <Typography variant="caption" color="text.secondary">
+                          {[addon.category, addon.is_available === 0 ? 'Unavailable' : null].filter(Boolean).join(' · ')}
+                        </Typography>
+                      )}
+                    </Box>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {formatCurrency(addon.price)}
+                    </Typography>
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => handleOpenAddonDialog(addon)}>
+                          <PencilIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => handleDeleteAddon(addon.id!)}>
+                          <TrashIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  </Box>
+                ))
+              )}
+            </Card>
+          </Grid>
+        </Grid>
+      )}
+
 
       {/* Add/Edit Dialog */}
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="md" fullWidth>
@@ -1260,6 +1819,40 @@ function MenuManagement() {
                 ))}
               </Select>
             </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Tax Class</InputLabel>
+              <Select
+                value={formData.tax_class_id}
+                label="Tax Class"
+                onChange={(e) => setFormData({ ...formData, tax_class_id: e.target.value })}
+              >
+                <MenuItem value="">Category default</MenuItem>
+                {taxClasses.map((taxClass) => (
+                  <MenuItem key={taxClass.id} value={String(taxClass.id)}>
+                    {taxClass.name} ({taxClass.rate}%)
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Shelf Life (days)"
+                type="number"
+                value={formData.shelf_life_days}
+                onChange={(e) => setFormData({ ...formData, shelf_life_days: e.target.value })}
+                fullWidth
+                inputProps={{ min: 0, step: 1 }}
+                helperText="Best-before date on labels; blank = none"
+              />
+              <TextField
+                label="Barcode"
+                value={formData.barcode}
+                onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                fullWidth
+                inputProps={{ maxLength: 48 }}
+                helperText="Printed on labels; blank = the item number"
+              />
+            </Box>
             <FormControlLabel
               control={
                 <Switch
@@ -1426,6 +2019,52 @@ function MenuManagement() {
                 </Box>
               )}
             </Box>
+
+            {/* Shared Option Groups */}
+            {optionGroups.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 0.5 }}>
+                  Shared Option Groups
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                  Select the option groups offered with this item
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {optionGroups.map((group) => (
+                    <Chip
+                      key={group.id}
+                      label={group.name}
+                      onClick={() => toggleAttachedGroup(group.id!)}
+                      color={attachedGroupIds.includes(group.id!) ? 'primary' : 'default'}
+                      variant={attachedGroupIds.includes(group.id!) ? 'filled' : 'outlined'}
+                    />
+                  ))}
+                </Box>
+              </Box>
+            )}
+
+            {/* Add-ons */}
+            {addons.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 0.5 }}>
+                  Add-ons
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                  Select the add-ons that can be sold with this item
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {addons.map((addon) => (
+                    <Chip
+                      key={addon.id}
+                      label={`${addon.name} (+${formatCurrency(addon.price)})`}
+                      onClick={() => toggleAttachedAddon(addon.id!)}
+                      color={attachedAddonIds.includes(addon.id!) ? 'primary' : 'default'}
+                      variant={attachedAddonIds.includes(addon.id!) ? 'filled' : 'outlined'}
+                    />
+                  ))}
+                </Box>
+              </Box>
+            )}
           </Box>
         </DialogContent>
         <DialogActions>
@@ -1470,6 +2109,21 @@ function MenuManagement() {
               fullWidth
               inputProps={{ min: 0 }}
             />
+            <FormControl fullWidth>
+              <InputLabel>Tax Class</InputLabel>
+              <Select
+                value={categoryFormData.tax_class_id}
+                label="Tax Class"
+                onChange={(e) => setCategoryFormData({ ...categoryFormData, tax_class_id: e.target.value })}
+              >
+                <MenuItem value="">Standard rate</MenuItem>
+                {taxClasses.map((taxClass) => (
+                  <MenuItem key={taxClass.id} value={String(taxClass.id)}>
+                    {taxClass.name} ({taxClass.rate}%)
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
           </Box>
         </DialogContent>
         <DialogActions>
@@ -1480,7 +2134,190 @@ function MenuManagement() {
         </DialogActions>
       </Dialog>
 
+      {/* Option Group Dialog */}
+      <Dialog open={openOptionGroupDialog} onClose={handleCloseOptionGroupDialog} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {editingOptionGroup ? 'Edit Option Group' : 'Add Option Group'}
+        </DialogTitle>
+        <DialogContent sx={{ maxHeight: '80vh', overflowY: 'auto' }}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Group Name"
+              value={optionGroupFormData.name}
+              onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, name: e.target.value })}
+              placeholder="e.g., Milk"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={optionGroupFormData.description}
+              onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, description: e.target.value })}
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={optionGroupFormData.is_required}
+                    onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, is_required: e.target.checked })}
+                  />
+                }
+                label="Required"
+              />
+              <TextField
+                label="Min Selections"
+                type="number"
+                value={optionGroupFormData.min_selections}
+                onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, min_selections: parseInt(e.target.value) || 0 })}
+                size="small"
+                sx={{ width: 140 }}
+                inputProps={{ min: 0 }}
+              />
+              <TextField
+                label="Max Selections"
+                type="number"
+                value={optionGroupFormData.max_selections}
+                onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, max_selections: parseInt(e.target.value) || 1 })}
+                size="small"
+                sx={{ width: 140 }}
+                inputProps={{ min: 1 }}
+              />
+              <TextField
+                label="Display Order"
+                type="number"
+                value={optionGroupFormData.display_order}
+                onChange={(e) => setOptionGroupFormData({ ...optionGroupFormData, display_order: parseInt(e.target.value) || 0 })}
+                size="small"
+                sx={{ width: 140 }}
+                inputProps={{ min: 0 }}
+              />
+            </Box>
+            <Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                  Options
+                </Typography>
+                <Button
+                  size="small"
+                  startIcon={<PlusIcon style={{ width: 16, height: 16 }} />}
+                  onClick={() => setGroupOptions([...groupOptions, { name: '', price_modifier: '', is_available: true }])}
+                >
+                  Add Option
+                </Button>
+              </Box>
+              {groupOptions.map((option, index) => (
+                <Card key={index} variant="outlined" sx={{ p: 2, mb: 1.5 }}>
+                  <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+                    <TextField
+                      label="Option Name"
+                      value={option.name}
+                      onChange={(e) => updateGroupOption(index, 'name', e.target.value)}
+                      placeholder="e.g., Oat Milk"
+                      size="small"
+                      sx={{ flex: 1 }}
+                    />
+                    <TextField
+                      label="Price Modifier"
+                      type="number"
+                      value={option.price_modifier}
+                      onChange={(e) => updateGroupOption(index, 'price_modifier', e.target.value)}
+                      placeholder="0.00"
+                      size="small"
+                      sx={{ width: 150 }}
+                      inputProps={{ step: 0.01 }}
+                      helperText="Added to base price"
+                    />
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={option.is_available}
+                          onChange={(e) => updateGroupOption(index, 'is_available', e.target.checked)}
+                          size="small"
+                        />
+                      }
+                      label="Available"
+                      sx={{ mr: 1 }}
+                    />
+                    <IconButton
+                      size="small"
+                      onClick={() => setGroupOptions(groupOptions.filter((_, i) => i !== index))}
+                      color="error"
+                    >
+                      <TrashIcon style={{ width: 18, height: 18 }} />
+                    </IconButton>
+                  </Box>
+                </Card>
+              ))}
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseOptionGroupDialog}>Cancel</Button>
+          <Button onClick={handleSaveOptionGroup} variant="contained">
+            {editingOptionGroup ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Add-on Dialog */}
+      <Dialog open={openAddonDialog} onClose={handleCloseAddonDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingAddon ? 'Edit Add-on' : 'Add Add-on'}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Add-on Name"
+              value={addonFormData.name}
+              onChange={(e) => setAddonFormData({ ...addonFormData, name: e.target.value })}
+              placeholder="e.g., Extra Shot"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={addonFormData.description}
+              onChange={(e) => setAddonFormData({ ...addonFormData, description: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Price"
+              type="number"
+              value={addonFormData.price}
+              onChange={(e) => setAddonFormData({ ...addonFormData, price: e.target.value })}
+              required
+              fullWidth
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <TextField
+              label="Category"
+              value={addonFormData.category}
+              onChange={(e) => setAddonFormData({ ...addonFormData, category: e.target.value })}
+              placeholder="e.g., Drinks"
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={addonFormData.is_available}
+                  onChange={(e) => setAddonFormData({ ...addonFormData, is_available: e.target.checked })}
+                />
+              }
+              label="Available"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseAddonDialog}>Cancel</Button>
+          <Button onClick={handleSaveAddon} variant="contained">
+            {editingAddon ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
 
+      <PrintLabelsDialog open={!!labelItem} menuItem={labelItem} onClose={() => setLabelItem(null)} />
+      <RecipeDialog open={!!recipeItem} menuItem={recipeItem} onClose={() => setRecipeItem(null)} />
     </Box>
   );
 }
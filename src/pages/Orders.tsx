@@ -19,6 +19,8 @@ import {
   Alert,
   Divider,
   InputAdornment,
+  Checkbox,
+  FormControlLabel,
 } from '@mui/material';
 import {
   MagnifyingGlassIcon,
@@ -29,42 +31,58 @@ import {
   CalendarIcon,
   DocumentTextIcon,
   PrinterIcon,
-  TrashIcon,
+  ArrowUturnLeftIcon,
+  NoSymbolIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 import {
   getOrders,
   getOrderItems,
-  getOrderItemOptions,
-  getOrderItemAddons,
+  getOrderPayments,
   getTables,
   updateOrder,
   updateTable,
   getCustomer,
   getAllUsers,
-  deleteOrder,
+  getOrderRefunds,
+  processRefund,
+  getOrderPdfDocuments,
+  saveReceiptPdf,
+  openPdfDocument,
+  exportPdfDocument,
+  exportPdfArchive,
+  summarizeTax,
+  ORDER_TYPE_LABELS,
   Order,
   OrderItem,
+  OrderPayment,
+  Refund,
   Table,
   Customer,
   User,
+  PdfDocument,
 } from '../utils/database';
 import PageHeader from '../components/Layout/PageHeader';
 import { useAuth } from '../contexts/AuthContext';
-
-interface OrderItemWithDetails extends OrderItem {
-  options?: any[];
-  addons?: any[];
-}
+import { useManagerOverride } from '../components/ManagerOverrideDialog';
 
 interface OrderWithDetails extends Order {
   table?: Table;
   customer?: Customer;
   user?: User; // User/cashier who created the order
-  items?: OrderItemWithDetails[];
+  items?: OrderItem[];
+  payments?: OrderPayment[];
+  refunds?: Refund[];
+}
+
+interface RefundLineInput {
+  quantity: string;
+  restock: boolean;
 }
 
 function Orders() {
-  const { user, hasRole } = useAuth();
+  const { user } = useAuth();
+  const { overrideConfig, requestOverride, overrideDialog } = useManagerOverride();
   const [orders, setOrders] = useState<OrderWithDetails[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<OrderWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
@@ -76,7 +94,14 @@ function Orders() {
   const [paymentStatusFilter, setPaymentStatusFilter] = useState<string>('all');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
-  const isCashier = hasRole('cashier');
+  const [refundType, setRefundType] = useState<'refund' | 'void' | null>(null);
+  const [refundLines, setRefundLines] = useState<Record<number, RefundLineInput>>({});
+  const [refundMethod, setRefundMethod] = useState<string>('cash');
+  const [refundReason, setRefundReason] = useState('');
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const [processingRefund, setProcessingRefund] = useState(false);
+  const [orderPdfs, setOrderPdfs] = useState<PdfDocument[]>([]);
+  const [pdfBusy, setPdfBusy] = useState(false);
 
   useEffect(() => {
     loadOrders();
@@ -140,6 +165,8 @@ function Orders() {
         (order) => {
           // Search in order number
           if (order.order_number?.toLowerCase().includes(term)) return true;
+          if (order.label?.toLowerCase().includes(term)) return true;
+          if (order.pickup_number && String(order.pickup_number) === term.replace(/^#/, '')) return true;
           
           // Search in table number and name
           if (order.table?.number?.toLowerCase().includes(term)) return true;
@@ -197,27 +224,21 @@ function Orders() {
 
   const handleViewDetails = async (order: OrderWithDetails) => {
     try {
-      const items = await getOrderItems(order.id!);
-      
-      // Load options and addons for each item
-      const itemsWithDetails: OrderItemWithDetails[] = await Promise.all(
-        items.map(async (item) => {
-          const [options, addons] = await Promise.all([
-            getOrderItemOptions(item.id!),
-            getOrderItemAddons(item.id!),
-          ]);
-          return {
-            ...item,
-            options,
-            addons,
-          };
-        })
-      );
+      // Items come back with their sizes, options and add-ons attached
+      const [items, payments, refunds] = await Promise.all([
+        getOrderItems(order.id!),
+        getOrderPayments(order.id!),
+        getOrderRefunds(order.id!),
+      ]);
 
       setSelectedOrder({
         ...order,
-        items: itemsWithDetails,
+        items,
+        payments,
+        refunds,
       });
+      // The dialog still opens if the archive can't be read; the receipt PDF is made on request
+      setOrderPdfs(await getOrderPdfDocuments(order.id!).catch(() => []));
       setOpenDetailsDialog(true);
     } catch (err: any) {
       setError(err.message || 'Failed to load order details');
@@ -225,15 +246,28 @@ function Orders() {
     }
   };
 
-  const handleUpdateStatus = async (orderId: number, field: 'status' | 'payment_status', value: string) => {
+  const handleUpdateStatus = async (orderId: number, field: 'status', value: string) => {
     try {
+      // Taking an order back out of 'completed' reopens it
+      const current = orders.find(o => o.id === orderId);
+      if (field === 'status' && current?.status === 'completed' && value !== 'completed') {
+        const approval = await requestOverride({
+          action: 'reopen_order',
+          order_id: orderId,
+          order_number: current.order_number,
+          amount: current.total_amount,
+          details: `Reopen ${current.order_number} as ${value}`,
+        });
+        if (!approval) return;
+      }
+
       await updateOrder(orderId, { [field]: value });
       
       // If status is being set to 'completed', free up the table
       if (field === 'status' && value === 'completed') {
         const order = orders.find(o => o.id === orderId);
         if (order && order.table_id) {
-          await updateTable(order.table_id, { status: 'available', current_order_id: undefined });
+          await updateTable(order.table_id, { status: 'available', current_order_id: null });
         }
       }
       
@@ -266,39 +300,157 @@ function Orders() {
     }).format(amount);
   };
 
-  const handleDeleteOrder = async (orderId: number, orderNumber: string) => {
-    // Check if user is a cashier
-    if (isCashier) {
-      setError('Cashiers are not allowed to delete orders. Please contact an administrator.');
+  // Amount actually taken: the tender lines, or the total for orders paid before split tenders
+  const getPaidAmount = (order: OrderWithDetails) => {
+    if (order.payments && order.payments.length > 0) {
+      return order.payments.reduce((sum, p) => sum + p.amount, 0);
+    }
+    return ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status || '') ? order.total_amount || 0 : 0;
+  };
+
+  const getRefundableAmount = (order: OrderWithDetails) =>
+    Math.max(0, Math.round((getPaidAmount(order) - (order.refunded_amount || 0)) * 100) / 100);
+
+  const getRemainingQuantity = (item: OrderItem) => item.quantity - (item.refunded_quantity || 0);
+
+  // Estimate only; the main process works out the exact amount from the stored line totals
+  const calculateRefundPreview = () => {
+    if (!selectedOrder?.items) return 0;
+    const refundable = getRefundableAmount(selectedOrder);
+    const linesSubtotal = selectedOrder.items.reduce((sum, item) => sum + (item.subtotal || 0), 0);
+    let unitsLeft = 0;
+    let unitsRefunded = 0;
+    let amount = 0;
+    for (const item of selectedOrder.items) {
+      const remaining = getRemainingQuantity(item);
+      const quantity = refundType === 'void' ? remaining : Math.min(remaining, parseInt(refundLines[item.id!]?.quantity, 10) || 0);
+      const charged = (item.taxable_amount || 0) + (item.tax_amount || 0);
+      const lineValue = charged > 0
+        ? charged
+        : linesSubtotal > 0 ? ((item.subtotal || 0) / linesSubtotal) * (selectedOrder.total_amount || 0) : 0;
+      unitsLeft += remaining;
+      unitsRefunded += Math.max(0, quantity);
+      amount += (lineValue / (item.quantity || 1)) * Math.max(0, quantity);
+    }
+    return unitsRefunded >= unitsLeft ? refundable : Math.min(Math.round(amount * 100) / 100, refundable);
+  };
+
+  const handleOpenRefund = (type: 'refund' | 'void') => {
+    if (!selectedOrder) return;
+    const lines: Record<number, RefundLineInput> = {};
+    for (const item of selectedOrder.items || []) {
+      lines[item.id!] = { quantity: type === 'void' ? String(getRemainingQuantity(item)) : '0', restock: false };
+    }
+    setRefundLines(lines);
+    setRefundMethod(selectedOrder.payments?.[0]?.payment_method || selectedOrder.payment_method || 'cash');
+    setRefundReason('');
+    setRefundError(null);
+    setRefundType(type);
+  };
+
+  const handleProcessRefund = async () => {
+    if (!selectedOrder || !refundType || !user?.id) return;
+    if (!refundReason.trim()) {
+      setRefundError('Please enter a reason');
+      return;
+    }
+
+    const items = (selectedOrder.items || [])
+      .map(item => ({
+        order_item_id: item.id!,
+        quantity: refundType === 'void' ? getRemainingQuantity(item) : parseInt(refundLines[item.id!]?.quantity, 10) || 0,
+        restock: !!refundLines[item.id!]?.restock,
+      }))
+      .filter(item => item.quantity > 0);
+    if (refundType === 'refund' && items.length === 0) {
+      setRefundError('Select at least one item to refund');
       return;
     }
 
-    if (!window.confirm(`Are you sure you want to delete order ${orderNumber}? This action cannot be undone.`)) {
+    const preview = calculateRefundPreview();
+    const confirmMessage = refundType === 'void'
+      ? `Void order ${selectedOrder.order_number}${preview > 0 ? ` and refund ${formatCurrency(preview)}` : ''}?`
+      : `Refund ${formatCurrency(preview)} on order ${selectedOrder.order_number}?`;
+    if (!window.confirm(confirmMessage)) {
       return;
     }
 
     try {
-      const result = await deleteOrder(orderId, user?.id);
-      // Check if deletion was successful
-      if (result && result.success === false) {
-        setError(result.message || 'Failed to delete order');
-        return;
-      }
-      // Remove the order from the lists
-      setOrders(prevOrders => prevOrders.filter(o => o.id !== orderId));
-      setFilteredOrders(prevOrders => prevOrders.filter(o => o.id !== orderId));
-      // Close dialog if the deleted order was open
-      if (selectedOrder && selectedOrder.id === orderId) {
-        setOpenDetailsDialog(false);
-        setSelectedOrder(null);
+      setProcessingRefund(true);
+      const approval = await requestOverride({
+        action: refundType,
+        order_id: selectedOrder.id!,
+        order_number: selectedOrder.order_number,
+        amount: preview,
+        details: `${refundType === 'void' ? 'Void' : 'Refund'} ${formatCurrency(preview)} on ${selectedOrder.order_number}: ${refundReason.trim()}`,
+      });
+      if (!approval) return;
+
+      const refund = await processRefund({
+        order_id: selectedOrder.id!,
+        refund_type: refundType,
+        items,
+        refund_method: refundMethod,
+        reason: refundReason.trim(),
+        user_id: user.id,
+        override_id: approval.override_id,
+      });
+
+      setRefundType(null);
+      setOpenDetailsDialog(false);
+      setSelectedOrder(null);
+      await loadOrders();
+
+      try {
+        await window.electronAPI.print.refundReceipt(refund);
+      } catch (printErr: any) {
+        console.error(printErr);
+        setError(`${refund.refund_number} was saved, but the refund receipt could not be printed: ${printErr.message || printErr}`);
       }
-      setError(null);
+      alert(`${refund.refund_type === 'void' ? 'Voided' : 'Refunded'} (${refund.refund_number}): ${formatCurrency(refund.amount)}${refund.refund_method ? ` back on ${refund.refund_method}` : ''}`);
     } catch (err: any) {
-      setError(err.message || 'Failed to delete order');
+      setRefundError(err.message || 'Failed to process refund');
       console.error(err);
+    } finally {
+      setProcessingRefund(false);
     }
   };
 
+  // The data the receipt printout (and its PDF) is made from
+  const buildReceiptData = (order: OrderWithDetails) => ({
+    order_id: order.id,
+    order_number: order.order_number,
+    pickup_number: order.pickup_number || null,
+    table: order.table ? {
+      name: order.table.name,
+      number: order.table.number,
+    } : null,
+    customer_name: order.customer?.name || null,
+    subtotal: order.subtotal || 0,
+    discount_amount: order.discount_amount || 0,
+    promotion_name: order.promotion_name || null,
+    promotion_discount: order.promotion_discount || 0,
+    tax_amount: order.tax_amount || 0,
+    tax_inclusive: !!order.tax_inclusive,
+    tax_summary: summarizeTax(order.items || []),
+    total_amount: order.total_amount || 0,
+    payment_method: order.payment_method || null,
+    payments: order.payments || [],
+    created_at: order.created_at || new Date().toISOString(),
+    items: (order.items || []).map(item => ({
+      name: item.name || 'Unknown Item',
+      quantity: item.quantity,
+      size: item.size_name || null,
+      options: [
+        ...(item.custom_options || []).map(opt => ({ name: opt.name })),
+        ...(item.options || []).map(opt => ({ name: opt.option_name })),
+        ...(item.addons || []).map(addon => ({ name: (addon.quantity || 1) > 1 ? `${addon.addon_name} x${addon.quantity}` : addon.addon_name })),
+      ],
+      price: item.price,
+      subtotal: item.subtotal || (item.price * item.quantity),
+    })),
+  });
+
   const handlePrintReceipt = async (order: OrderWithDetails) => {
     try {
       if (!order.items || order.items.length === 0) {
@@ -306,29 +458,7 @@ function Orders() {
         return;
       }
 
-      const receiptData = {
-        order_number: order.order_number,
-        table: order.table ? {
-          name: order.table.name,
-          number: order.table.number,
-        } : null,
-        customer_name: order.customer?.name || null,
-        subtotal: order.subtotal || 0,
-        discount_amount: order.discount_amount || 0,
-        total_amount: order.total_amount || 0,
-        payment_method: order.payment_method || null,
-        created_at: order.created_at || new Date().toISOString(),
-        items: order.items.map(item => ({
-          name: item.name || 'Unknown Item',
-          quantity: item.quantity,
-          size: null, // Could be enhanced to get size info
-          options: [], // Could be enhanced to get options info
-          price: item.price,
-          subtotal: item.subtotal || (item.price * item.quantity),
-        })),
-      };
-
-      await window.electronAPI.print.customerReceipt(receiptData);
+      await window.electronAPI.print.customerReceipt(buildReceiptData(order));
       setError(null);
     } catch (err: any) {
       setError(err.message || 'Failed to print receipt');
@@ -336,6 +466,59 @@ function Orders() {
     }
   };
 
+  const handleReceiptPdf = async (order: OrderWithDetails, action: 'open' | 'export') => {
+    if (!order.items || order.items.length === 0) {
+      setError('Order has no items for a receipt');
+      return;
+    }
+    setPdfBusy(true);
+    try {
+      let receipt = orderPdfs.find(pdf => pdf.document_type === 'receipt');
+      if (!receipt) {
+        receipt = await saveReceiptPdf(buildReceiptData(order));
+        setOrderPdfs(await getOrderPdfDocuments(order.id!));
+      }
+      if (action === 'open') {
+        await openPdfDocument(receipt.id);
+      } else {
+        await exportPdfDocument(receipt.id);
+      }
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create the receipt PDF');
+      console.error(err);
+    } finally {
+      setPdfBusy(false);
+    }
+  };
+
+  const handleOpenPdf = async (pdf: PdfDocument) => {
+    try {
+      await openPdfDocument(pdf.id);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open PDF');
+      console.error(err);
+    }
+  };
+
+  const handleExportPdfs = async () => {
+    // One date exports that day; no dates, today
+    const today = new Date().toLocaleDateString('en-CA');
+    const from = startDate || endDate || today;
+    const to = endDate || startDate || today;
+    try {
+      const result = await exportPdfArchive(from, to);
+      setError(null);
+      if (result) {
+        alert(`Exported ${result.count} PDF${result.count === 1 ? '' : 's'} to ${result.path}`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to export PDFs');
+      console.error(err);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
     const date = new Date(dateString);
@@ -351,6 +534,7 @@ function Orders() {
   const getPaymentMethodIcon = (method?: string) => {
     switch (method) {
       case 'card':
+      case 'mobile':
         return <CreditCardIcon style={{ width: 16, height: 16 }} />;
       case 'cash':
         return <BanknotesIcon style={{ width: 16, height: 16 }} />;
@@ -449,7 +633,9 @@ function Orders() {
           >
             <MenuItem value="all">All Payments</MenuItem>
             <MenuItem value="paid">Paid</MenuItem>
+            <MenuItem value="partial">Partially Paid</MenuItem>
             <MenuItem value="pending">Pending</MenuItem>
+            <MenuItem value="partially_refunded">Partially Refunded</MenuItem>
             <MenuItem value="refunded">Refunded</MenuItem>
           </Select>
         </FormControl>
@@ -520,6 +706,16 @@ function Orders() {
             Clear Dates
           </Button>
         )}
+
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<ArrowDownTrayIcon style={{ width: 18, height: 18 }} />}
+          onClick={handleExportPdfs}
+          sx={{ ml: 'auto', textTransform: 'none' }}
+        >
+          {startDate || endDate ? 'Export PDFs for Dates' : "Export Today's PDFs"}
+        </Button>
       </Box>
 
       {/* Orders List */}
@@ -570,8 +766,13 @@ function Orders() {
                     {/* Order Number */}
                     <Box sx={{ minWidth: 120 }}>
                       <Typography variant="body1" sx={{ fontWeight: 700, fontSize: '0.95rem' }}>
-                        {order.order_number}
+                        {order.pickup_number ? `#${order.pickup_number} · ` : ''}{order.order_number}
                       </Typography>
+                      {order.label && (
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'block', mt: 0.25 }}>
+                          Tab: {order.label}
+                        </Typography>
+                      )}
                       {order.customer && (
                         <Typography variant="body2" sx={{ fontSize: '0.8rem', color: '#FFD700', fontWeight: 600, mt: 0.25 }}>
                           {order.customer.name}
@@ -604,6 +805,7 @@ function Orders() {
                         <InputLabel sx={{ fontSize: '0.75rem' }}>Status</InputLabel>
                         <Select
                           value={order.status || 'pending'}
+                          disabled={order.status === 'cancelled'}
                           onChange={(e) => {
                             e.stopPropagation();
                             handleUpdateStatus(order.id!, 'status', e.target.value);
@@ -616,7 +818,7 @@ function Orders() {
                           <MenuItem value="preparing" sx={{ fontSize: '0.8rem' }}>Preparing</MenuItem>
                           <MenuItem value="ready" sx={{ fontSize: '0.8rem' }}>Ready</MenuItem>
                           <MenuItem value="completed" sx={{ fontSize: '0.8rem' }}>Completed</MenuItem>
-                          <MenuItem value="cancelled" sx={{ fontSize: '0.8rem' }}>Cancelled</MenuItem>
+                          <MenuItem value="cancelled" disabled sx={{ fontSize: '0.8rem' }}>Cancelled</MenuItem>
                         </Select>
                       </FormControl>
                     </Box>
@@ -627,17 +829,17 @@ function Orders() {
                         <InputLabel sx={{ fontSize: '0.75rem' }}>Payment</InputLabel>
                         <Select
                           value={order.payment_status || 'pending'}
-                          onChange={(e) => {
-                            e.stopPropagation();
-                            handleUpdateStatus(order.id!, 'payment_status', e.target.value);
-                          }}
+                          // Follows the recorded tenders; take a payment at the till to change it
+                          disabled
                           label="Payment"
                           size="small"
                           sx={{ fontSize: '0.8rem' }}
                         >
                           <MenuItem value="paid" sx={{ fontSize: '0.8rem' }}>Paid</MenuItem>
+                          <MenuItem value="partial" sx={{ fontSize: '0.8rem' }}>Partially Paid</MenuItem>
                           <MenuItem value="pending" sx={{ fontSize: '0.8rem' }}>Pending</MenuItem>
-                          <MenuItem value="refunded" sx={{ fontSize: '0.8rem' }}>Refunded</MenuItem>
+                          <MenuItem value="partially_refunded" disabled sx={{ fontSize: '0.8rem' }}>Partially Refunded</MenuItem>
+                          <MenuItem value="refunded" disabled sx={{ fontSize: '0.8rem' }}>Refunded</MenuItem>
                         </Select>
                       </FormControl>
                     </Box>
@@ -663,6 +865,11 @@ function Orders() {
                             Discount: {formatCurrency(order.discount_amount)}
                           </Typography>
                         ) : null}
+                        {(order.refunded_amount && Number(order.refunded_amount) > 0) ? (
+                          <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'error.main', display: 'block' }}>
+                            Refunded: {formatCurrency(order.refunded_amount)}
+                          </Typography>
+                        ) : null}
                       </Box>
                     )}
 
@@ -687,29 +894,6 @@ function Orders() {
                       >
                         <EyeIcon style={{ width: 20, height: 20 }} />
                       </IconButton>
-                      {!isCashier && (
-                        <IconButton
-                          size="small"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (order.id && order.order_number) {
-                              handleDeleteOrder(order.id, order.order_number);
-                            }
-                          }}
-                          sx={{
-                            color: 'text.secondary',
-                            '&:hover': {
-                              color: 'error.main',
-                              backgroundColor: (theme) =>
-                                theme.palette.mode === 'dark'
-                                  ? 'rgba(244, 67, 54, 0.1)'
-                                  : 'rgba(244, 67, 54, 0.08)',
-                            },
-                          }}
-                        >
-                          <TrashIcon style={{ width: 20, height: 20 }} />
-                        </IconButton>
-                      )}
                     </Box>
                   </Box>
                 </CardContent>
@@ -747,13 +931,14 @@ function Orders() {
         >
           <Box sx={{ flex: 1 }}>
             <Typography variant="h6" sx={{ fontWeight: 700, mb: 1, fontSize: '1rem' }}>
-              {selectedOrder?.order_number}
+              {selectedOrder?.pickup_number ? `#${selectedOrder.pickup_number} · ` : ''}{selectedOrder?.order_number}
             </Typography>
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
               <FormControl size="small" sx={{ minWidth: 120 }}>
                 <InputLabel sx={{ fontSize: '0.75rem' }}>Status</InputLabel>
                 <Select
                   value={selectedOrder?.status || 'pending'}
+                  disabled={selectedOrder?.status === 'cancelled'}
                   onChange={(e) => selectedOrder && handleUpdateStatus(selectedOrder.id!, 'status', e.target.value)}
                   label="Status"
                   size="small"
@@ -763,21 +948,23 @@ function Orders() {
                   <MenuItem value="preparing" sx={{ fontSize: '0.75rem' }}>Preparing</MenuItem>
                   <MenuItem value="ready" sx={{ fontSize: '0.75rem' }}>Ready</MenuItem>
                   <MenuItem value="completed" sx={{ fontSize: '0.75rem' }}>Completed</MenuItem>
-                  <MenuItem value="cancelled" sx={{ fontSize: '0.75rem' }}>Cancelled</MenuItem>
+                  <MenuItem value="cancelled" disabled sx={{ fontSize: '0.75rem' }}>Cancelled</MenuItem>
                 </Select>
               </FormControl>
               <FormControl size="small" sx={{ minWidth: 120 }}>
                 <InputLabel sx={{ fontSize: '0.75rem' }}>Payment</InputLabel>
                 <Select
                   value={selectedOrder?.payment_status || 'pending'}
-                  onChange={(e) => selectedOrder && handleUpdateStatus(selectedOrder.id!, 'payment_status', e.target.value)}
+                  disabled
                   label="Payment"
                   size="small"
                   sx={{ fontSize: '0.75rem' }}
                 >
                   <MenuItem value="paid" sx={{ fontSize: '0.75rem' }}>Paid</MenuItem>
+                  <MenuItem value="partial" sx={{ fontSize: '0.75rem' }}>Partially Paid</MenuItem>
                   <MenuItem value="pending" sx={{ fontSize: '0.75rem' }}>Pending</MenuItem>
-                  <MenuItem value="refunded" sx={{ fontSize: '0.75rem' }}>Refunded</MenuItem>
+                  <MenuItem value="partially_refunded" disabled sx={{ fontSize: '0.75rem' }}>Partially Refunded</MenuItem>
+                  <MenuItem value="refunded" disabled sx={{ fontSize: '0.75rem' }}>Refunded</MenuItem>
                 </Select>
               </FormControl>
             </Box>
@@ -793,6 +980,11 @@ function Orders() {
                   Information
                 </Typography>
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+                  {selectedOrder.order_type && (
+                    <Typography variant="body2" sx={{ fontSize: '0.8rem' }}>
+                      {ORDER_TYPE_LABELS[selectedOrder.order_type]}
+                    </Typography>
+                  )}
                   {selectedOrder.table && (
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
                       <TableCellsIcon style={{ width: 14, height: 14, opacity: 0.6 }} />
@@ -841,6 +1033,7 @@ function Orders() {
                           <Box sx={{ flex: 1 }}>
                             <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8rem', mb: 0.25 }}>
                               {item.name || 'Unknown Item'}
+                              {item.size_name && ` (${item.size_name})`}
                             </Typography>
                             {item.notes && (
                               <Typography variant="caption" color="text.secondary" sx={{ fontStyle: 'italic', fontSize: '0.7rem' }}>
@@ -851,21 +1044,27 @@ function Orders() {
                           <Box sx={{ textAlign: 'right', ml: 1 }}>
                             <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
                               {item.quantity}x
+                              {item.refunded_quantity ? ` (${item.refunded_quantity} refunded)` : ''}
                             </Typography>
                             <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8rem' }}>
                               {formatCurrency(item.subtotal)}
                             </Typography>
                           </Box>
                         </Box>
-                        {(item.options && item.options.length > 0) || (item.addons && item.addons.length > 0) ? (
+                        {(item.custom_options && item.custom_options.length > 0) || (item.options && item.options.length > 0) || (item.addons && item.addons.length > 0) ? (
                           <Box sx={{ pl: 1.5, pt: 0.5 }}>
-                            {item.options && item.options.map((option: any) => (
-                              <Typography key={option.id} variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.7rem' }}>
+                            {item.custom_options && item.custom_options.map((option, optionIndex) => (
+                              <Typography key={`custom-${optionIndex}`} variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.7rem' }}>
+                                • {option.name}{option.price > 0 && ` (+${formatCurrency(option.price)})`}
+                              </Typography>
+                            ))}
+                            {item.options && item.options.map((option, optionIndex) => (
+                              <Typography key={`option-${optionIndex}`} variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.7rem' }}>
                                 • {option.option_name}
                               </Typography>
                             ))}
-                            {item.addons && item.addons.map((addon: any) => (
-                              <Typography key={addon.id} variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.7rem' }}>
+                            {item.addons && item.addons.map((addon, addonIndex) => (
+                              <Typography key={`addon-${addonIndex}`} variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.7rem' }}>
                                 • {addon.addon_name} x{addon.quantity}
                               </Typography>
                             ))}
@@ -892,14 +1091,24 @@ function Orders() {
                   {selectedOrder.discount_amount && selectedOrder.discount_amount > 0 && (
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
                       <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8rem' }}>
-                        Discount
+                        Discount{selectedOrder.promotion_name ? ` (${selectedOrder.promotion_name})` : ''}
                       </Typography>
                       <Typography variant="body2" sx={{ fontWeight: 600, color: 'success.main', fontSize: '0.8rem' }}>
                         -{formatCurrency(selectedOrder.discount_amount)}
                       </Typography>
                     </Box>
                   )}
-                  {selectedOrder.discount_amount && selectedOrder.discount_amount > 0 && (
+                  {selectedOrder.tax_amount && selectedOrder.tax_amount > 0 && (
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8rem' }}>
+                        {selectedOrder.tax_inclusive ? 'Includes tax' : 'Tax'}
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8rem' }}>
+                        {formatCurrency(selectedOrder.tax_amount)}
+                      </Typography>
+                    </Box>
+                  )}
+                  {((selectedOrder.discount_amount && selectedOrder.discount_amount > 0) || (selectedOrder.tax_amount && selectedOrder.tax_amount > 0)) && (
                     <Divider sx={{ my: 0.5 }} />
                   )}
                   <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -912,6 +1121,95 @@ function Orders() {
                   </Box>
                 </Box>
               </Box>
+
+              {/* Payments */}
+              {selectedOrder.payments && selectedOrder.payments.length > 0 && (
+                <>
+                  <Divider sx={{ my: 0.5 }} />
+                  <Box>
+                    <Typography variant="caption" sx={{ fontWeight: 700, mb: 1, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                      Payments ({selectedOrder.payments.length})
+                    </Typography>
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                      {selectedOrder.payments.map((payment) => (
+                        <Box key={payment.id} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                            {getPaymentMethodIcon(payment.payment_method)}
+                            <Box>
+                              <Typography variant="body2" sx={{ fontSize: '0.8rem', textTransform: 'capitalize' }}>
+                                {payment.payment_method}
+                              </Typography>
+                              {(payment.reference || (payment.change_given && payment.change_given > 0)) ? (
+                                <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                                  {payment.change_given && payment.change_given > 0
+                                    ? `Tendered ${formatCurrency(payment.amount_tendered || payment.amount)}, change ${formatCurrency(payment.change_given)} `
+                                    : ''}
+                                  {payment.reference ? `Ref: ${payment.reference}` : ''}
+                                </Typography>
+                              ) : null}
+                            </Box>
+                          </Box>
+                          <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8rem' }}>
+                            {formatCurrency(payment.amount)}
+                          </Typography>
+                        </Box>
+                      ))}
+                    </Box>
+                  </Box>
+                </>
+              )}
+
+              {/* Refunds and voids */}
+              {selectedOrder.refunds && selectedOrder.refunds.length > 0 && (
+                <>
+                  <Divider sx={{ my: 0.5 }} />
+                  <Box>
+                    <Typography variant="caption" sx={{ fontWeight: 700, mb: 1, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                      Refunds ({selectedOrder.refunds.length})
+                    </Typography>
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+                      {selectedOrder.refunds.map((refund) => (
+                        <Box key={refund.id} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                          <Box>
+                            <Typography variant="body2" sx={{ fontSize: '0.8rem', fontWeight: 600 }}>
+                              {refund.refund_type === 'void' ? 'Void' : 'Refund'} {refund.refund_number}
+                              {refund.refund_method ? ` · ${refund.refund_method}` : ''}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block' }}>
+                              {formatDate(refund.created_at)} · {refund.user_name || refund.username || 'Unknown'}
+                              {refund.approved_by_name || refund.approved_by_username ? `, approved by ${refund.approved_by_name || refund.approved_by_username}` : ''}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', fontStyle: 'italic' }}>
+                              {refund.reason}
+                            </Typography>
+                            {refund.items && refund.items.length > 0 && (
+                              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block' }}>
+                                {refund.items.map(item => `${item.quantity}x ${item.name || 'Item'}${item.restocked ? ' (restocked)' : ''}`).join(', ')}
+                              </Typography>
+                            )}
+                            {orderPdfs
+                              .filter(pdf => pdf.document_type === 'refund' && pdf.reference_id === refund.id)
+                              .map(pdf => (
+                                <Button
+                                  key={pdf.id}
+                                  size="small"
+                                  startIcon={<DocumentTextIcon style={{ width: 14, height: 14 }} />}
+                                  onClick={() => handleOpenPdf(pdf)}
+                                  sx={{ p: 0, minWidth: 0, fontSize: '0.7rem', textTransform: 'none' }}
+                                >
+                                  {refund.refund_type === 'void' ? 'Void' : 'Refund'} slip PDF
+                                </Button>
+                              ))}
+                          </Box>
+                          <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8rem', color: 'error.main' }}>
+                            -{formatCurrency(refund.amount)}
+                          </Typography>
+                        </Box>
+                      ))}
+                    </Box>
+                  </Box>
+                </>
+              )}
             </Box>
           )}
         </DialogContent>
@@ -935,21 +1233,46 @@ function Orders() {
               >
                 Print Receipt
               </Button>
-              {!isCashier && (
-                <Button
-                  variant="outlined"
-                  size="small"
-                  color="error"
-                  startIcon={<TrashIcon style={{ width: 18, height: 18 }} />}
-                  onClick={() => {
-                    if (selectedOrder.id && selectedOrder.order_number) {
-                      handleDeleteOrder(selectedOrder.id, selectedOrder.order_number);
-                    }
-                  }}
-                  sx={{ ml: 'auto' }}
-                >
-                  Delete Order
-                </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<DocumentTextIcon style={{ width: 18, height: 18 }} />}
+                onClick={() => handleReceiptPdf(selectedOrder, 'open')}
+                disabled={pdfBusy}
+              >
+                Receipt PDF
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<ArrowDownTrayIcon style={{ width: 18, height: 18 }} />}
+                onClick={() => handleReceiptPdf(selectedOrder, 'export')}
+                disabled={pdfBusy}
+              >
+                Save PDF
+              </Button>
+              {selectedOrder.status !== 'cancelled' && (
+                <>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<ArrowUturnLeftIcon style={{ width: 18, height: 18 }} />}
+                    onClick={() => handleOpenRefund('refund')}
+                    disabled={getRefundableAmount(selectedOrder) <= 0}
+                    sx={{ ml: 'auto' }}
+                  >
+                    Refund
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    color="error"
+                    startIcon={<NoSymbolIcon style={{ width: 18, height: 18 }} />}
+                    onClick={() => handleOpenRefund('void')}
+                  >
+                    Void Order
+                  </Button>
+                </>
               )}
             </>
           )}
@@ -958,6 +1281,118 @@ function Orders() {
           </Button>
         </DialogActions>
       </Dialog>
+      {/* Refund / Void Dialog */}
+      <Dialog
+        open={refundType !== null}
+        onClose={() => !processingRefund && setRefundType(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {refundType === 'void' ? 'Void' : 'Refund'} {selectedOrder?.order_number}
+        </DialogTitle>
+        <DialogContent>
+          {refundError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setRefundError(null)}>
+              {refundError}
+            </Alert>
+          )}
+          {refundType === 'void' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              The whole order is cancelled and anything paid on it is refunded.
+            </Typography>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+            {(selectedOrder?.items || []).map((item) => {
+              const remaining = getRemainingQuantity(item);
+              const line = refundLines[item.id!] || { quantity: '0', restock: false };
+              return (
+                <Box key={item.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {item.name || 'Unknown Item'}
+                      {item.size_name && ` (${item.size_name})`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {remaining} of {item.quantity} left to refund
+                    </Typography>
+                  </Box>
+                  <TextField
+                    label="Qty"
+                    type="number"
+                    size="small"
+                    value={line.quantity}
+                    onChange={(e) => setRefundLines({ ...refundLines, [item.id!]: { ...line, quantity: e.target.value } })}
+                    inputProps={{ min: 0, max: remaining, step: 1 }}
+                    disabled={refundType === 'void' || remaining <= 0}
+                    sx={{ width: 80 }}
+                  />
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={line.restock}
+                        onChange={(e) => setRefundLines({ ...refundLines, [item.id!]: { ...line, restock: e.target.checked } })}
+                        disabled={remaining <= 0}
+                      />
+                    }
+                    label={<Typography variant="caption">Return to stock</Typography>}
+                    sx={{ mr: 0 }}
+                  />
+                </Box>
+              );
+            })}
+          </Box>
+          {selectedOrder && getRefundableAmount(selectedOrder) > 0 && (
+            <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+              <InputLabel>Refund To</InputLabel>
+              <Select value={refundMethod} label="Refund To" onChange={(e) => setRefundMethod(e.target.value)}>
+                <MenuItem value="cash">Cash</MenuItem>
+                <MenuItem value="card">Card</MenuItem>
+                <MenuItem value="mobile">Mobile Payment</MenuItem>
+              </Select>
+            </FormControl>
+          )}
+          <TextField
+            label="Reason"
+            fullWidth
+            required
+            multiline
+            minRows={2}
+            value={refundReason}
+            onChange={(e) => setRefundReason(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body1" sx={{ fontWeight: 700 }}>
+              Amount to refund
+            </Typography>
+            <Typography variant="body1" sx={{ fontWeight: 700, color: 'error.main' }}>
+              {formatCurrency(calculateRefundPreview())}
+            </Typography>
+          </Box>
+          {refundType && overrideConfig?.actions.includes(refundType) && user?.role !== 'admin' && (
+            <Typography variant="caption" color="text.secondary">
+              A manager PIN is required to {refundType === 'void' ? 'void this order' : 'process this refund'}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRefundType(null)} disabled={processingRefund}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleProcessRefund}
+            disabled={processingRefund || !refundReason.trim()}
+          >
+            {refundType === 'void' ? 'Void Order' : 'Process Refund'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {overrideDialog}
     </Box>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -26,6 +26,9 @@ import {
   ListItemSecondaryAction,
   Badge,
   InputAdornment,
+  ToggleButton,
+  ToggleButtonGroup,
+  Snackbar,
 } from '@mui/material';
 import {
   PlusIcon,
@@ -36,32 +39,107 @@ import {
   BanknotesIcon,
   MagnifyingGlassIcon,
   PrinterIcon,
+  ClockIcon,
+  TagIcon,
+  PencilSquareIcon,
+  TableCellsIcon,
+  ComputerDesktopIcon,
 } from '@heroicons/react/24/outline';
 import {
   getMenuItems,
   getMenuItemSizes,
   getMenuItemCustomOptions,
+  getMenuItemOptionGroupDetails,
+  getMenuItemAddons,
   createOrder,
+  getHeldOrders,
+  updateHeldOrder,
+  discardHeldOrder,
+  getOrderItems,
+  getOrderPayments,
   addCustomer,
   getCustomers,
+  getSetting,
+  getCurrentShift,
+  getShiftSummary,
+  openShift,
+  closeShift,
+  addCashMovement,
+  evaluatePromotions,
+  getDiscount,
+  getTaxConfig,
+  getNextOrderNumber,
+  getTables,
+  getFloorSections,
+  resolveTaxRate,
+  calculateTax,
+  openCustomerDisplay,
+  updateCustomerDisplay,
+  onPrintJobFailed,
+  retryPrintJob,
   MenuItem as MenuItemType,
   MenuItemSize,
   MenuItemCustomOption,
+  OptionGroupWithOptions,
+  Option,
+  Addon,
+  Shift,
+  ShiftSummary,
+  HeldOrder,
+  AppliedPromotion,
+  TaxConfig,
+  OrderData,
+  OrderPayment,
+  OrderType,
+  Table,
+  FloorSection,
+  PrintJobFailure,
+  ORDER_TYPE_LABELS,
 } from '../utils/database';
 import { useAuth } from '../contexts/AuthContext';
 import MenuItemImage from '../components/MenuItemImage';
+import { useManagerOverride } from '../components/ManagerOverrideDialog';
+import FloorPlan from '../components/FloorPlan';
 
 interface CartItem {
   menuItem: MenuItemType;
   quantity: number;
   selectedSize?: { id: number; name: string; price: number };
   selectedOptions: Array<{ id: number; name: string; price: number }>;
+  selectedModifiers: SelectedModifier[];
+  selectedAddons: SelectedAddon[];
   notes?: string;
   price: number;
+  originalPrice?: number; // Calculated price before a manual price change
+  seat?: number; // Seat at the table, so a dine-in bill can be split by seat
+}
+
+// Choice from a shared option group
+interface SelectedModifier {
+  option_id: number;
+  option_group_id: number;
+  name: string;
+  price: number;
+}
+
+interface SelectedAddon {
+  addon_id: number;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+interface TenderLine {
+  payment_method: string;
+  amount: number;
+  amount_tendered: number;
+  change_given: number;
+  reference?: string;
 }
 
 function POS() {
   const { user } = useAuth();
+  const { overrideConfig, requestOverride, overrideDialog } = useManagerOverride();
   const [menuItems, setMenuItems] = useState<MenuItemType[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -74,16 +152,140 @@ function POS() {
   const [selectedSize, setSelectedSize] = useState<{ id: number; name: string; price: number } | null>(null);
   const [selectedOptions, setSelectedOptions] = useState<Array<{ id: number; name: string; price: number }>>([]);
   const [itemNotes, setItemNotes] = useState('');
+  const [itemOptionGroups, setItemOptionGroups] = useState<OptionGroupWithOptions[]>([]);
+  const [itemAddons, setItemAddons] = useState<Addon[]>([]);
+  const [selectedModifiers, setSelectedModifiers] = useState<SelectedModifier[]>([]);
+  const [selectedAddons, setSelectedAddons] = useState<SelectedAddon[]>([]);
   const [openCheckoutDialog, setOpenCheckoutDialog] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderReference, setTenderReference] = useState('');
+  const [payments, setPayments] = useState<TenderLine[]>([]);
   const [discountAmount, setDiscountAmount] = useState(0);
   const [customerName, setCustomerName] = useState('');
   const [menuSearchTerm, setMenuSearchTerm] = useState('');
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null);
+  const [openShiftDialog, setOpenShiftDialog] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [openCashMovementDialog, setOpenCashMovementDialog] = useState(false);
+  const [movementType, setMovementType] = useState<'paid_in' | 'paid_out' | 'refund'>('paid_out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [openCloseShiftDialog, setOpenCloseShiftDialog] = useState(false);
+  const [shiftSummary, setShiftSummary] = useState<ShiftSummary | null>(null);
+  const [denominations, setDenominations] = useState<number[]>([]);
+  const [denominationCounts, setDenominationCounts] = useState<Record<string, string>>({});
+  const [heldOrders, setHeldOrders] = useState<HeldOrder[]>([]);
+  const [activeHeldOrder, setActiveHeldOrder] = useState<HeldOrder | null>(null);
+  const [openHeldOrdersDialog, setOpenHeldOrdersDialog] = useState(false);
+  const [openParkDialog, setOpenParkDialog] = useState(false);
+  const [parkLabel, setParkLabel] = useState('');
+  const [promotion, setPromotion] = useState<AppliedPromotion | null>(null);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [taxConfig, setTaxConfig] = useState<TaxConfig | null>(null);
+  const [orderNumber, setOrderNumber] = useState<Pick<OrderData, 'order_number' | 'terminal_id' | 'business_date' | 'pickup_number'> | null>(null);
+  const [approvedDiscount, setApprovedDiscount] = useState(0);
+  const [priceEditIndex, setPriceEditIndex] = useState<number | null>(null);
+  const [priceEditValue, setPriceEditValue] = useState('');
+  const [orderType, setOrderType] = useState<OrderType>('takeaway');
+  const [selectedTable, setSelectedTable] = useState<Table | null>(null);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [floorSections, setFloorSections] = useState<FloorSection[]>([]);
+  const [openTableDialog, setOpenTableDialog] = useState(false);
+  // Receipts and kitchen tickets that failed to print, oldest first, each offered for a retry
+  const [printFailures, setPrintFailures] = useState<PrintJobFailure[]>([]);
+  // Set once a sale is paid, so the customer keeps seeing the thank-you screen until the next item
+  const saleCompletedRef = useRef(false);
 
   useEffect(() => {
     loadData();
+    loadShift();
+    loadHeldOrders();
+    loadTaxConfig();
+  }, []);
+
+  // Re-check promotions whenever the cart or the entered code changes
+  useEffect(() => {
+    let cancelled = false;
+    const refreshPromotion = async () => {
+      if (cart.length === 0) {
+        setPromotion(null);
+        return;
+      }
+      try {
+        const result = await evaluatePromotions({
+          items: cart.map(item => ({ menu_item_id: item.menuItem.id!, subtotal: item.price * item.quantity })),
+          subtotal: calculateSubtotal(),
+          code: appliedPromoCode || undefined,
+          redeemed_discount_id: activeHeldOrder?.discount_id,
+        });
+        if (!cancelled) setPromotion(result);
+      } catch (err: any) {
+        if (cancelled) return;
+        setPromotion(null);
+        if (appliedPromoCode) {
+          // The code no longer applies (e.g. cart dropped below the minimum spend)
+          setAppliedPromoCode(null);
+          setError(err.message || 'Promo code could not be applied');
+        } else {
+          console.error('Error evaluating promotions:', err);
+        }
+      }
+    };
+    refreshPromotion();
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, appliedPromoCode, activeHeldOrder]);
+
+  // Mirror the cart on the customer display
+  useEffect(() => {
+    if (cart.length === 0) {
+      if (saleCompletedRef.current) return;
+      updateCustomerDisplay({ mode: 'idle' }).catch(err => console.error('Error updating customer display:', err));
+      return;
+    }
+    saleCompletedRef.current = false;
+    updateCustomerDisplay({
+      mode: 'cart',
+      lines: cart.map(item => ({
+        name: item.menuItem.name,
+        quantity: item.quantity,
+        size: item.selectedSize?.name || null,
+        modifiers: describeModifiers(item),
+        line_total: item.price * item.quantity,
+      })),
+      subtotal: calculateSubtotal(),
+      discount: calculateTotalDiscount(),
+      promotion_name: promotion?.discount.name || null,
+      tax: calculateCartTax().tax_total,
+      tax_inclusive: isTaxInclusive(),
+      total: calculateTotal(),
+      paid: (activeHeldOrder?.paid_amount || 0) + calculatePaidAmount(),
+      balance_due: calculateBalanceDue(),
+    }).catch(err => console.error('Error updating customer display:', err));
+  }, [cart, promotion, discountAmount, payments, taxConfig, activeHeldOrder]);
+
+  useEffect(() => {
+    return onPrintJobFailed((failure) => {
+      if (failure.job_type !== 'receipt' && failure.job_type !== 'kitchen') return;
+      setPrintFailures(prev => [...prev.filter(f => f.id !== failure.id), failure]);
+    });
   }, []);
 
+  // Keep table status live while the picker is open
+  useEffect(() => {
+    if (!openTableDialog) return;
+    loadTables();
+    loadHeldOrders();
+    const interval = setInterval(() => {
+      loadTables();
+      loadHeldOrders();
+    }, 10000);
+    return () => clearInterval(interval);
+  }, [openTableDialog]);
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -98,19 +300,225 @@ function POS() {
     }
   };
 
+  const loadShift = async () => {
+    try {
+      const [shift, denominationSetting] = await Promise.all([
+        getCurrentShift(),
+        getSetting('cash_denominations'),
+      ]);
+      setCurrentShift(shift);
+      setDenominations(
+        (denominationSetting?.value || '')
+          .split(',')
+          .map(d => parseFloat(d.trim()))
+          .filter(d => !isNaN(d) && d > 0)
+      );
+      if (!shift) {
+        setOpenShiftDialog(true);
+      }
+    } catch (err: any) {
+      console.error('Error loading shift:', err);
+    }
+  };
+
+  const loadTaxConfig = async () => {
+    try {
+      setTaxConfig(await getTaxConfig());
+    } catch (err: any) {
+      console.error('Error loading tax settings:', err);
+    }
+  };
+
+  const loadHeldOrders = async () => {
+    try {
+      setHeldOrders(await getHeldOrders());
+    } catch (err: any) {
+      console.error('Error loading held orders:', err);
+    }
+  };
+
+  const loadTables = async () => {
+    try {
+      const [tableList, sections] = await Promise.all([getTables(), getFloorSections()]);
+      setTables(tableList);
+      setFloorSections(sections);
+    } catch (err: any) {
+      console.error('Error loading tables:', err);
+    }
+  };
+
+  const handleChangeOrderType = (type: OrderType | null) => {
+    if (!type) return;
+    setOrderType(type);
+    if (type === 'dine_in' && !selectedTable) {
+      setOpenTableDialog(true);
+    }
+  };
+
+  // The running order on an occupied table is an open tab on this till
+  const findTableOrder = (table: Table) =>
+    heldOrders.find(o => o.id === table.current_order_id) || heldOrders.find(o => o.table_id === table.id);
+
+  const handleSelectTable = async (table: Table) => {
+    if (table.status === 'occupied') {
+      const runningOrder = findTableOrder(table);
+      if (!runningOrder) {
+        setError(`Table ${table.number} is occupied but has no open bill. Free it from the Tables page.`);
+        return;
+      }
+      if (runningOrder.id !== activeHeldOrder?.id) {
+        setOpenTableDialog(false);
+        await handleRecallOrder(runningOrder);
+      } else {
+        setOpenTableDialog(false);
+      }
+      return;
+    }
+    if (table.status === 'reserved' && !window.confirm(`Table ${table.number} is reserved. Seat this order there anyway?`)) {
+      return;
+    }
+    setSelectedTable(table);
+    setOrderType('dine_in');
+    setOpenTableDialog(false);
+    setError(null);
+  };
+
+  // Dine-in orders must be seated before they are held or paid
+  const checkTableSelected = () => {
+    if (orderType === 'dine_in' && !selectedTable) {
+      setError('Choose a table for this dine-in order');
+      setOpenTableDialog(true);
+      return false;
+    }
+    return true;
+  };
+
+  const buildOrderTypeData = () => ({
+    order_type: orderType,
+    table_id: orderType === 'dine_in' ? selectedTable?.id : undefined,
+  });
+
+  const handleOpenShift = async () => {
+    if (!user?.id) return;
+    const float = parseFloat(openingFloat) || 0;
+    if (float < 0) {
+      setError('Opening float cannot be negative');
+      return;
+    }
+    try {
+      const shift = await openShift({ user_id: user.id, opening_float: float });
+      setCurrentShift(shift);
+      setOpeningFloat('');
+      setOpenShiftDialog(false);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open shift');
+      console.error(err);
+    }
+  };
+
+  const handleAddCashMovement = async () => {
+    if (!currentShift) return;
+    const amount = parseFloat(movementAmount);
+    if (!amount || isNaN(amount) || amount <= 0) {
+      setError('Enter a valid amount');
+      return;
+    }
+    if (!movementReason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+    try {
+      await addCashMovement({
+        shift_id: currentShift.id!,
+        movement_type: movementType,
+        amount,
+        reason: movementReason.trim(),
+        user_id: user?.id,
+      });
+      setMovementAmount('');
+      setMovementReason('');
+      setOpenCashMovementDialog(false);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to record cash movement');
+      console.error(err);
+    }
+  };
+
+  const handleOpenCloseShift = async () => {
+    if (!currentShift) return;
+    try {
+      const summary = await getShiftSummary(currentShift.id!);
+      setShiftSummary(summary);
+      setDenominationCounts({});
+      setOpenCloseShiftDialog(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load shift summary');
+      console.error(err);
+    }
+  };
+
+  const calculateCountedCash = () => {
+    return denominations.reduce((sum, d) => sum + d * (parseInt(denominationCounts[String(d)], 10) || 0), 0);
+  };
+
+  const handleCloseShift = async () => {
+    if (!currentShift) return;
+    if (!window.confirm('Close this shift? The drawer count cannot be changed afterwards.')) {
+      return;
+    }
+    try {
+      const summary = await closeShift(currentShift.id!, {
+        denominations: denominations.map(d => ({
+          denomination: d,
+          count: parseInt(denominationCounts[String(d)], 10) || 0,
+        })),
+        closed_by: user?.id,
+      });
+
+      try {
+        await window.electronAPI.print.zReport(summary);
+      } catch (printErr: any) {
+        console.error('Error printing Z-report:', printErr);
+        // Don't fail the close-out if printing fails
+      }
+
+      setCurrentShift(null);
+      setShiftSummary(null);
+      setOpenCloseShiftDialog(false);
+      setOpenShiftDialog(true);
+      setError(null);
+
+      const overShort = summary.over_short || 0;
+      alert(overShort === 0
+        ? 'Shift closed. Drawer balanced.'
+        : `Shift closed. Drawer ${overShort > 0 ? 'over' : 'short'} by ${formatCurrency(Math.abs(overShort))}.`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to close shift');
+      console.error(err);
+    }
+  };
+
   const handleOpenItemDialog = async (item: MenuItemType) => {
     setSelectedMenuItem(item);
     setSelectedSize(null);
     setSelectedOptions([]);
+    setSelectedModifiers([]);
+    setSelectedAddons([]);
     setItemNotes('');
     
     try {
-      const [sizes, options] = await Promise.all([
+      const [sizes, options, optionGroups, addons] = await Promise.all([
         getMenuItemSizes(item.id!),
         getMenuItemCustomOptions(item.id!),
+        getMenuItemOptionGroupDetails(item.id!),
+        getMenuItemAddons(item.id!),
       ]);
       setItemSizes(sizes);
       setItemOptions(options.filter(o => (o.is_available ?? 0) === 1));
+      setItemOptionGroups(optionGroups.filter(g => g.options.length > 0));
+      setItemAddons(addons);
       
       const defaultSize = sizes.find(s => (s.is_default ?? 0) === 1);
       if (defaultSize) {
@@ -133,27 +541,94 @@ function POS() {
     setItemNotes('');
     setItemSizes([]);
     setItemOptions([]);
+    setItemOptionGroups([]);
+    setItemAddons([]);
+    setSelectedModifiers([]);
+    setSelectedAddons([]);
   };
 
-  const calculateItemPrice = (item: MenuItemType, size?: { id: number; name: string; price: number } | null, options: Array<{ id: number; name: string; price: number }> = []) => {
+  const calculateItemPrice = (
+    item: MenuItemType,
+    size?: { id: number; name: string; price: number } | null,
+    options: Array<{ id: number; name: string; price: number }> = [],
+    modifiers: SelectedModifier[] = [],
+    addons: SelectedAddon[] = []
+  ) => {
     let basePrice = item.price;
     if (size) {
       basePrice = size.price;
     }
     const optionsPrice = options.reduce((sum, opt) => sum + opt.price, 0);
-    return basePrice + optionsPrice;
+    const modifiersPrice = modifiers.reduce((sum, mod) => sum + mod.price, 0);
+    const addonsPrice = addons.reduce((sum, addon) => sum + addon.price * addon.quantity, 0);
+    return basePrice + optionsPrice + modifiersPrice + addonsPrice;
+  };
+
+  const handleToggleModifier = (group: OptionGroupWithOptions, option: Option) => {
+    if (selectedModifiers.some(m => m.option_id === option.id)) {
+      setSelectedModifiers(selectedModifiers.filter(m => m.option_id !== option.id));
+      return;
+    }
+
+    const modifier: SelectedModifier = {
+      option_id: option.id!,
+      option_group_id: group.id!,
+      name: option.name,
+      price: option.price_modifier || 0,
+    };
+    const maxSelections = group.max_selections || 1;
+
+    // Single-choice groups swap the current pick
+    if (maxSelections === 1) {
+      setSelectedModifiers([...selectedModifiers.filter(m => m.option_group_id !== group.id), modifier]);
+      return;
+    }
+    if (selectedModifiers.filter(m => m.option_group_id === group.id).length >= maxSelections) {
+      setError(`Choose up to ${maxSelections} for ${group.name}`);
+      return;
+    }
+    setSelectedModifiers([...selectedModifiers, modifier]);
+  };
+
+  const handleUpdateAddonQuantity = (addon: Addon, delta: number) => {
+    const quantity = Math.max(0, (selectedAddons.find(a => a.addon_id === addon.id)?.quantity || 0) + delta);
+    const others = selectedAddons.filter(a => a.addon_id !== addon.id);
+    setSelectedAddons(quantity > 0
+      ? [...others, { addon_id: addon.id!, name: addon.name, price: addon.price, quantity }]
+      : others);
+  };
+
+  // Modifier names shown on the cart, kitchen ticket and receipt
+  const describeModifiers = (item: CartItem) => {
+    return [
+      ...item.selectedOptions.map(o => o.name),
+      ...item.selectedModifiers.map(m => m.name),
+      ...item.selectedAddons.map(a => (a.quantity > 1 ? `${a.name} x${a.quantity}` : a.name)),
+    ];
   };
 
   const handleAddToCart = () => {
     if (!selectedMenuItem) return;
 
-    const finalPrice = calculateItemPrice(selectedMenuItem, selectedSize, selectedOptions);
+    // Optional groups may be skipped; required groups need at least their minimum
+    for (const group of itemOptionGroups) {
+      const count = selectedModifiers.filter(m => m.option_group_id === group.id).length;
+      const minSelections = group.is_required ? Math.max(1, group.min_selections || 1) : 0;
+      if (count < minSelections) {
+        setError(minSelections > 1 ? `Choose at least ${minSelections} for ${group.name}` : `Choose an option for ${group.name}`);
+        return;
+      }
+    }
+
+    const finalPrice = calculateItemPrice(selectedMenuItem, selectedSize, selectedOptions, selectedModifiers, selectedAddons);
     
     const cartItem: CartItem = {
       menuItem: selectedMenuItem,
       quantity: 1,
       selectedSize: selectedSize || undefined,
       selectedOptions: [...selectedOptions],
+      selectedModifiers: [...selectedModifiers],
+      selectedAddons: [...selectedAddons],
       notes: itemNotes.trim() || undefined,
       price: finalPrice,
     };
@@ -172,13 +647,124 @@ function POS() {
     setCart(cart.filter((_, i) => i !== index));
   };
 
+  const handleOpenPriceEdit = (index: number) => {
+    setPriceEditIndex(index);
+    setPriceEditValue(String(cart[index].price));
+  };
+
+  const handleApplyPrice = async () => {
+    if (priceEditIndex === null) return;
+    const item = cart[priceEditIndex];
+    const price = parseFloat(priceEditValue);
+    if (isNaN(price) || price < 0) {
+      setError('Enter a valid price');
+      return;
+    }
+
+    const originalPrice = item.originalPrice ?? item.price;
+    if (price !== item.price) {
+      // A threshold of 0 guards every change; otherwise only changes beyond it from the menu price
+      const change = originalPrice > 0 ? (Math.abs(price - originalPrice) / originalPrice) * 100 : 100;
+      const threshold = overrideConfig?.price_threshold || 0;
+      if (price !== originalPrice && (threshold === 0 || change > threshold)) {
+        try {
+          const { order_number } = await ensureOrderNumber();
+          const approval = await requestOverride({
+            action: 'price_override',
+            order_number,
+            amount: price,
+            details: `${item.menuItem.name}: ${formatCurrency(originalPrice)} → ${formatCurrency(price)}`,
+          });
+          if (!approval) return;
+        } catch (err: any) {
+          setError(err.message || 'Failed to approve price change');
+          console.error(err);
+          return;
+        }
+      }
+    }
+
+    setCart(cart.map((cartItem, i) => (i === priceEditIndex ? { ...cartItem, price, originalPrice } : cartItem)));
+    setPriceEditIndex(null);
+    setError(null);
+  };
+
+  const handleSetSeat = (index: number, seat: number | '') => {
+    setCart(cart.map((cartItem, i) => (i === index ? { ...cartItem, seat: seat || undefined } : cartItem)));
+  };
+
   const calculateSubtotal = () => {
     return cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
   };
 
+  const calculatePromotionDiscount = () => {
+    return Math.min(promotion?.amount || 0, calculateSubtotal());
+  };
+
+  // Manual discounts are taken off what is left after the promotion
+  const calculateMaxManualDiscount = () => {
+    return Math.max(0, calculateSubtotal() - calculatePromotionDiscount());
+  };
+
+  const calculateTotalDiscount = () => {
+    return calculatePromotionDiscount() + Math.min(discountAmount, calculateMaxManualDiscount());
+  };
+
+  // Tax per cart line, after the order discount is spread across the lines
+  const calculateCartTax = () => {
+    return calculateTax(
+      cart.map(item => ({
+        amount: item.price * item.quantity,
+        tax_rate: taxConfig ? resolveTaxRate(item.menuItem, taxConfig) : 0,
+      })),
+      calculateTotalDiscount(),
+      taxConfig?.inclusive || false
+    );
+  };
+
+  const isTaxInclusive = () => taxConfig?.inclusive || false;
+
   const calculateTotal = () => {
     const subtotal = calculateSubtotal();
-    return Math.max(0, subtotal - discountAmount);
+    const net = Math.max(0, subtotal - calculateTotalDiscount());
+    // Inclusive prices already carry the tax
+    return isTaxInclusive() ? net : net + calculateCartTax().tax_total;
+  };
+
+  const buildDiscountData = () => ({
+    discount_amount: calculateTotalDiscount(),
+    discount_id: promotion?.discount.id,
+    promotion_name: promotion?.discount.name,
+    promotion_discount: calculatePromotionDiscount(),
+  });
+
+  const buildTaxData = () => ({
+    tax_amount: calculateCartTax().tax_total,
+    tax_inclusive: isTaxInclusive(),
+  });
+
+  const handleApplyPromoCode = () => {
+    if (!promoCodeInput.trim()) {
+      setError('Enter a promo code');
+      return;
+    }
+    setAppliedPromoCode(promoCodeInput.trim().toUpperCase());
+    setPromoCodeInput('');
+    setError(null);
+  };
+
+  const handleRemovePromoCode = () => {
+    setAppliedPromoCode(null);
+  };
+
+  const calculatePaidAmount = () => {
+    return payments.reduce((sum, p) => sum + p.amount, 0);
+  };
+
+  const calculateBalanceDue = () => {
+    // A recalled tab may already carry part payments
+    const previouslyPaid = activeHeldOrder?.paid_amount || 0;
+    return Math.max(0, calculateTotal() - previouslyPaid - calculatePaidAmount());
   };
 
   const formatCurrency = (amount: number) => {
@@ -188,14 +774,113 @@ function POS() {
     }).format(amount);
   };
 
-  const handleCheckout = () => {
+  const formatPaymentMethod = (method: string) => {
+    switch (method) {
+      case 'cash':
+        return 'Cash';
+      case 'card':
+        return 'Card';
+      case 'mobile':
+        return 'Mobile Payment';
+      default:
+        return method;
+    }
+  };
+
+  const handleCheckout = async () => {
     if (cart.length === 0) {
       setError('Cart is empty');
       return;
     }
+    if (!currentShift) {
+      setError('Open a shift before taking payments');
+      setOpenShiftDialog(true);
+      return;
+    }
+    if (!checkTableSelected()) return;
+
+    // Manual discounts above the threshold need a manager; promotions are set up by admins already
+    const manualDiscount = Math.min(discountAmount, calculateMaxManualDiscount());
+    const subtotal = calculateSubtotal();
+    const discountPercent = subtotal > 0 ? (manualDiscount / subtotal) * 100 : 0;
+    if (manualDiscount > approvedDiscount && discountPercent > (overrideConfig?.discount_threshold ?? 0)) {
+      try {
+        const { order_number } = await ensureOrderNumber();
+        const approval = await requestOverride({
+          action: 'discount',
+          order_number,
+          amount: manualDiscount,
+          details: `Discount ${formatCurrency(manualDiscount)} (${discountPercent.toFixed(1)}%) on ${formatCurrency(subtotal)}`,
+        });
+        if (!approval) return;
+        setApprovedDiscount(manualDiscount);
+      } catch (err: any) {
+        setError(err.message || 'Failed to approve discount');
+        console.error(err);
+        return;
+      }
+    }
+
+    setPayments([]);
+    setTenderAmount('');
+    setTenderReference('');
     setOpenCheckoutDialog(true);
   };
 
+  const handleAddTender = () => {
+    const balanceDue = calculateBalanceDue();
+    if (balanceDue <= 0) {
+      setError('The balance is already settled');
+      return;
+    }
+
+    // An empty amount means "pay the remaining balance with this method"
+    const amount = tenderAmount.trim() ? parseFloat(tenderAmount) : balanceDue;
+    if (!amount || isNaN(amount) || amount <= 0) {
+      setError('Enter a valid payment amount');
+      return;
+    }
+    if (amount > balanceDue && paymentMethod !== 'cash') {
+      setError('Only cash can be tendered above the balance due');
+      return;
+    }
+
+    const applied = Math.min(amount, balanceDue);
+    setPayments([
+      ...payments,
+      {
+        payment_method: paymentMethod,
+        amount: applied,
+        amount_tendered: amount,
+        change_given: amount - applied,
+        reference: tenderReference.trim() || undefined,
+      },
+    ]);
+    setTenderAmount('');
+    setTenderReference('');
+    setError(null);
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setPayments(payments.filter((_, i) => i !== index));
+  };
+
+  // A ticket keeps the numbers it was first given, so its kitchen ticket and receipt match
+  const ensureOrderNumber = async () => {
+    if (activeHeldOrder) {
+      return {
+        order_number: activeHeldOrder.order_number,
+        terminal_id: activeHeldOrder.terminal_id,
+        business_date: activeHeldOrder.business_date,
+        pickup_number: activeHeldOrder.pickup_number,
+      };
+    }
+    if (orderNumber) return orderNumber;
+    const allocated = await getNextOrderNumber();
+    setOrderNumber(allocated);
+    return allocated;
+  };
+
   const handleSendToKitchen = async () => {
     try {
       if (cart.length === 0) {
@@ -203,15 +888,21 @@ function POS() {
         return;
       }
 
+      const { order_number, pickup_number } = await ensureOrderNumber();
       const orderData = {
-        order_number: `KIT-${Date.now()}`,
+        order_id: activeHeldOrder?.id || null,
+        order_number,
+        pickup_number,
+        order_type: orderType,
+        table_number: orderType === 'dine_in' ? selectedTable?.number : null,
         customer_name: customerName || null,
         created_at: new Date().toISOString(),
         items: cart.map(item => ({
+          menu_item_id: item.menuItem.id, // Routes the line to its prep station's printer
           name: item.menuItem.name,
           quantity: item.quantity,
           size: item.selectedSize?.name || null,
-          options: item.selectedOptions.map(opt => ({ name: opt.name })),
+          options: describeModifiers(item).map(name => ({ name })),
           notes: item.notes || null,
         })),
       };
@@ -224,86 +915,323 @@ function POS() {
     }
   };
 
+  // Create or find customer if name is provided
+  const resolveCustomerId = async (): Promise<number | undefined> => {
+    if (!customerName.trim()) return undefined;
+    try {
+      // Try to find existing customer by name
+      const existingCustomers = await getCustomers();
+      const existingCustomer = existingCustomers.find(
+        c => c.name.toLowerCase().trim() === customerName.toLowerCase().trim()
+      );
+
+      if (existingCustomer) {
+        return existingCustomer.id;
+      }
+      // Create new customer
+      const newCustomer = await addCustomer({ name: customerName.trim() });
+      return newCustomer.lastInsertRowid;
+    } catch (err: any) {
+      console.error('Error creating/finding customer:', err);
+      // Continue without customer if there's an error
+      return undefined;
+    }
+  };
+
+  const buildOrderItems = () => {
+    const tax = calculateCartTax();
+    return cart.map((item, index) => ({
+      menu_item_id: item.menuItem.id!,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal: item.price * item.quantity,
+      ...tax.lines[index],
+      notes: item.notes,
+      size_id: item.selectedSize?.id,
+      size_name: item.selectedSize?.name,
+      size_price: item.selectedSize?.price,
+      seat_number: orderType === 'dine_in' ? item.seat : undefined,
+      custom_options: item.selectedOptions.map(opt => ({
+        custom_option_id: opt.id,
+        name: opt.name,
+        price: opt.price,
+      })),
+      options: item.selectedModifiers.map(mod => ({
+        option_id: mod.option_id,
+        option_group_id: mod.option_group_id,
+        price_modifier: mod.price,
+      })),
+      addons: item.selectedAddons.map(addon => ({
+        addon_id: addon.addon_id,
+        quantity: addon.quantity,
+        price: addon.price,
+        subtotal: addon.price * addon.quantity,
+      })),
+    }));
+  };
+
+  const resetCart = () => {
+    setCart([]);
+    setDiscountAmount(0);
+    setCustomerName('');
+    setPayments([]);
+    setActiveHeldOrder(null);
+    setOrderNumber(null);
+    setPromotion(null);
+    setAppliedPromoCode(null);
+    setPromoCodeInput('');
+    setApprovedDiscount(0);
+    setOrderType('takeaway');
+    setSelectedTable(null);
+  };
+
+  const handleNoSale = async () => {
+    try {
+      const approval = await requestOverride({ action: 'no_sale', details: 'Open the cash drawer without a sale' });
+      if (!approval) return;
+      await window.electronAPI.print.openDrawer({
+        user_name: user?.full_name || user?.username,
+        approved_by_name: approval.approved_by_name,
+      });
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open cash drawer');
+      console.error(err);
+    }
+  };
+
+  const handleOpenParkDialog = () => {
+    if (cart.length === 0) {
+      setError('Cart is empty');
+      return;
+    }
+    if (!checkTableSelected()) return;
+    setParkLabel(activeHeldOrder?.label || customerName || (orderType === 'dine_in' && selectedTable ? `Table ${selectedTable.number}` : ''));
+    setOpenParkDialog(true);
+  };
+
+  const handleParkOrder = async () => {
+    if (!parkLabel.trim()) {
+      setError('Enter a name for the held ticket');
+      return;
+    }
+    try {
+      const orderData = {
+        ...(await ensureOrderNumber()),
+        total_amount: calculateTotal(),
+        subtotal: calculateSubtotal(),
+        ...buildDiscountData(),
+        ...buildTaxData(),
+        customer_id: await resolveCustomerId(),
+        user_id: user?.id,
+        shift_id: currentShift?.id,
+        ...buildOrderTypeData(),
+        label: parkLabel,
+        items: buildOrderItems(),
+      };
+
+      if (activeHeldOrder) {
+        await updateHeldOrder(activeHeldOrder.id!, orderData);
+      } else {
+        await createOrder(orderData);
+      }
+
+      resetCart();
+      setParkLabel('');
+      setOpenParkDialog(false);
+      await loadHeldOrders();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to hold order');
+      console.error(err);
+    }
+  };
+
+  const handleRecallOrder = async (order: HeldOrder) => {
+    if (cart.length > 0 && !window.confirm('Replace the current cart with this held ticket? Unsaved changes will be lost.')) {
+      return;
+    }
+    try {
+      const [items, discount] = await Promise.all([
+        getOrderItems(order.id!),
+        order.discount_id ? getDiscount(order.discount_id) : Promise.resolve(null),
+      ]);
+      setCart(items.map(item => ({
+        // Items that have since been made unavailable are rebuilt from the saved line
+        menuItem: menuItems.find(m => m.id === item.menu_item_id)
+          || { id: item.menu_item_id, name: item.name || 'Item', description: item.description, price: item.price },
+        quantity: item.quantity,
+        selectedSize: item.size_name
+          ? { id: item.size_id || 0, name: item.size_name, price: item.size_price ?? item.price }
+          : undefined,
+        selectedOptions: (item.custom_options || []).map(opt => ({
+          id: opt.custom_option_id || 0,
+          name: opt.name,
+          price: opt.price,
+        })),
+        selectedModifiers: (item.options || []).map(opt => ({
+          option_id: opt.option_id,
+          option_group_id: opt.option_group_id,
+          name: opt.option_name || 'Option',
+          price: opt.price_modifier || 0,
+        })),
+        selectedAddons: (item.addons || []).map(addon => ({
+          addon_id: addon.addon_id,
+          name: addon.addon_name || 'Add-on',
+          price: addon.price,
+          quantity: addon.quantity || 1,
+        })),
+        notes: item.notes || undefined,
+        price: item.price,
+        seat: item.seat_number || undefined,
+      })));
+      // The promotion is re-evaluated from the cart; only the manual part of the discount is restored
+      setDiscountAmount(Math.max(0, (order.discount_amount || 0) - (order.promotion_discount || 0)));
+      setAppliedPromoCode(discount?.code || null);
+      setCustomerName('');
+      setPayments([]);
+      setActiveHeldOrder(order);
+      setOrderNumber(null);
+      setOrderType(order.order_type || (order.table_id ? 'dine_in' : 'takeaway'));
+      setSelectedTable(order.table_id
+        ? (await getTables()).find(t => t.id === order.table_id) || null
+        : null);
+      setOpenHeldOrdersDialog(false);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to recall held order');
+      console.error(err);
+    }
+  };
+
+  const handleDiscardHeldOrder = async (order: HeldOrder) => {
+    if (!window.confirm(`Discard held ticket "${order.label || order.order_number}"?`)) {
+      return;
+    }
+    if (!user?.id) {
+      setError('You must be signed in');
+      return;
+    }
+    try {
+      const approval = await requestOverride({
+        action: 'void',
+        order_id: order.id!,
+        order_number: order.order_number,
+        amount: order.total_amount,
+        details: `Discard held ticket ${order.label || order.order_number}`,
+      });
+      if (!approval) return;
+
+      const result = await discardHeldOrder(order.id!, user.id, approval.override_id);
+      if (result && result.success === false) {
+        setError(result.message || 'Failed to discard held ticket');
+        return;
+      }
+      if (activeHeldOrder?.id === order.id) {
+        resetCart();
+      }
+      await loadHeldOrders();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to discard held ticket');
+      console.error(err);
+    }
+  };
+
   const handleProcessPayment = async () => {
     try {
       const subtotal = calculateSubtotal();
       const total = calculateTotal();
 
-      const orderNumber = `ORD-${Date.now()}`;
-
-      // Create or find customer if name is provided
-      let customerId: number | undefined;
-      if (customerName.trim()) {
-        try {
-          // Try to find existing customer by name
-          const existingCustomers = await getCustomers();
-          const existingCustomer = existingCustomers.find(
-            c => c.name.toLowerCase().trim() === customerName.toLowerCase().trim()
-          );
-          
-          if (existingCustomer) {
-            customerId = existingCustomer.id;
-          } else {
-            // Create new customer
-            const newCustomer = await addCustomer({ name: customerName.trim() });
-            customerId = newCustomer.lastInsertRowid;
-          }
-        } catch (err: any) {
-          console.error('Error creating/finding customer:', err);
-          // Continue without customer if there's an error
-        }
+      if (calculateBalanceDue() > 0) {
+        setError('Add payments until the balance due reaches zero');
+        return;
       }
 
-      await createOrder({
-        order_number: orderNumber,
+      const numbers = await ensureOrderNumber();
+      const orderData = {
+        ...numbers,
         total_amount: total,
         subtotal: subtotal,
-        discount_amount: discountAmount,
-        payment_method: paymentMethod,
-        customer_id: customerId,
-        user_id: user?.id, // Record which user/cashier created this order
-        items: cart.map(item => ({
-          menu_item_id: item.menuItem.id!,
-          quantity: item.quantity,
-          price: item.price,
-          subtotal: item.price * item.quantity,
-          notes: item.notes,
-        })),
-      });
+        ...buildDiscountData(),
+        ...buildTaxData(),
+        customer_id: await resolveCustomerId(),
+        user_id: user?.id, // Record which user/cashier created this order
+        shift_id: currentShift?.id,
+        ...buildOrderTypeData(),
+        label: activeHeldOrder?.label,
+        items: buildOrderItems(),
+        payments: payments.map(p => ({ ...p, user_id: user?.id })),
+      };
+
+      // Settling a recalled tab updates the held order instead of creating a new one
+      let orderId: number;
+      if (activeHeldOrder) {
+        await updateHeldOrder(activeHeldOrder.id!, orderData);
+        orderId = activeHeldOrder.id!;
+      } else {
+        orderId = await createOrder(orderData);
+      }
+
+      const changeDue = payments.reduce((sum, p) => sum + p.change_given, 0);
+      // A settled tab's receipt lists every tender on it, including those taken before it was recalled
+      const receiptPayments: Omit<OrderPayment, 'id' | 'order_id' | 'created_at'>[] = activeHeldOrder
+        ? await getOrderPayments(orderId).catch((err) => {
+            console.error('Error loading payments for the receipt:', err);
+            return payments;
+          })
+        : payments;
+      const orderLabel = numbers.pickup_number ? `#${numbers.pickup_number} (${numbers.order_number})` : numbers.order_number;
+      saleCompletedRef.current = true;
+      updateCustomerDisplay({
+        mode: 'thank_you',
+        order_label: numbers.pickup_number ? `#${numbers.pickup_number}` : numbers.order_number,
+        total,
+        paid: receiptPayments.reduce((sum, p) => sum + p.amount, 0),
+        change_due: changeDue,
+      }).catch(err => console.error('Error updating customer display:', err));
 
       // Print customer receipt
       try {
         const receiptData = {
-          order_number: orderNumber,
+          order_id: orderId,
+          order_number: numbers.order_number,
+          pickup_number: numbers.pickup_number,
+          table_number: orderType === 'dine_in' ? selectedTable?.number : null,
           customer_name: customerName || null,
           subtotal: subtotal,
-          discount_amount: discountAmount,
+          ...buildDiscountData(),
+          ...buildTaxData(),
+          tax_summary: calculateCartTax().summary,
           total_amount: total,
-          payment_method: paymentMethod,
+          payments: receiptPayments,
+          // Only cash taken just now opens the drawer
+          cash_taken: payments.some(p => p.payment_method === 'cash'),
           created_at: new Date().toISOString(),
           items: cart.map(item => ({
             name: item.menuItem.name,
             quantity: item.quantity,
             size: item.selectedSize?.name || null,
-            options: item.selectedOptions.map(opt => ({ name: opt.name })),
+            options: describeModifiers(item).map(name => ({ name })),
             price: item.price,
             subtotal: item.price * item.quantity,
           })),
         };
         await window.electronAPI.print.customerReceipt(receiptData);
       } catch (printErr: any) {
+        // The order is saved either way; a failed print comes up as a toast with a retry
         console.error('Error printing receipt:', printErr);
-        // Don't fail the order if printing fails
       }
 
-      setCart([]);
-      setDiscountAmount(0);
-      setCustomerName('');
+      resetCart();
       setOpenCheckoutDialog(false);
       await loadData();
+      await loadHeldOrders();
       
       setError(null);
-      alert(`Order ${orderNumber} created successfully!`);
+      alert(changeDue > 0
+        ? `Order ${orderLabel} created successfully! Change due: ${formatCurrency(changeDue)}`
+        : `Order ${orderLabel} created successfully!`);
     } catch (err: any) {
       setError(err.message || 'Failed to process payment');
       console.error(err);
@@ -329,8 +1257,55 @@ function POS() {
     );
   }
 
+  const dismissPrintFailure = () => {
+    setPrintFailures(prev => prev.slice(1));
+  };
+
+  const handleRetryPrint = async (failure: PrintJobFailure) => {
+    dismissPrintFailure();
+    try {
+      await retryPrintJob(failure.id);
+    } catch (err: any) {
+      // A print that fails again is reported by its own toast
+      console.error('Error retrying print job:', err);
+    }
+  };
+
+  const printFailure = printFailures[0] || null;
+
   return (
     <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column', overflow: 'hidden', mx: { xs: -2, sm: -3, md: -4 }, mb: { xs: -2, sm: -3 } }}>
+      <Snackbar
+        open={!!printFailure}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        onClose={(_e, reason) => {
+          if (reason !== 'clickaway') dismissPrintFailure();
+        }}
+      >
+        {printFailure ? (
+          <Alert
+            severity="error"
+            variant="filled"
+            sx={{ minWidth: 400, alignItems: 'center' }}
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => handleRetryPrint(printFailure)}>
+                  Retry
+                </Button>
+                <Button color="inherit" size="small" onClick={dismissPrintFailure}>
+                  Dismiss
+                </Button>
+              </>
+            }
+          >
+            <Typography variant="body2" sx={{ fontWeight: 700 }}>
+              {printFailure.title}{printFailure.reference_label ? ` ${printFailure.reference_label}` : ''} did not print
+              {printFailures.length > 1 ? ` (+${printFailures.length - 1} more)` : ''}
+            </Typography>
+            <Typography variant="caption">{printFailure.error}</Typography>
+          </Alert>
+        ) : undefined}
+      </Snackbar>
       {error && (
         <Alert 
           severity="error" 
@@ -502,20 +1477,106 @@ function POS() {
               <Typography variant="body2" sx={{ fontWeight: 600, color: 'text.secondary', textTransform: 'uppercase', fontSize: '0.75rem', letterSpacing: '0.5px' }}>
                 Cart
               </Typography>
-              <Badge 
-                badgeContent={cart.reduce((sum, item) => sum + item.quantity, 0)} 
-                color="primary"
-                sx={{
-                  '& .MuiBadge-badge': {
-                    fontSize: '0.65rem',
-                    height: 16,
-                    minWidth: 16,
-                  }
-                }}
-              />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                <Button
+                  size="small"
+                  startIcon={<ClockIcon style={{ width: 14, height: 14 }} />}
+                  onClick={() => setOpenHeldOrdersDialog(true)}
+                  sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}
+                >
+                  Held ({heldOrders.length})
+                </Button>
+                <IconButton
+                  size="small"
+                  title="Open customer display"
+                  onClick={() => openCustomerDisplay().catch((err: any) => setError(err.message || 'Failed to open the customer display'))}
+                >
+                  <ComputerDesktopIcon style={{ width: 16, height: 16 }} />
+                </IconButton>
+                <Badge 
+                  badgeContent={cart.reduce((sum, item) => sum + item.quantity, 0)} 
+                  color="primary"
+                  sx={{
+                    '& .MuiBadge-badge': {
+                      fontSize: '0.65rem',
+                      height: 16,
+                      minWidth: 16,
+                    }
+                  }}
+                />
+              </Box>
             </Box>
           </Box>
 
+          {/* Shift */}
+          <Box sx={{ px: 2, py: 1, borderBottom: '1px solid', borderColor: 'divider', flexShrink: 0, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            {currentShift ? (
+              <>
+                <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                  Shift #{currentShift.id} · {currentShift.full_name || currentShift.username}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 0.5 }}>
+                  <Button size="small" onClick={handleNoSale} sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}>
+                    No Sale
+                  </Button>
+                  <Button size="small" onClick={() => setOpenCashMovementDialog(true)} sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}>
+                    Cash In/Out
+                  </Button>
+                  <Button size="small" color="error" onClick={handleOpenCloseShift} sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}>
+                    Close Shift
+                  </Button>
+                </Box>
+              </>
+            ) : (
+              <>
+                <Typography variant="caption" color="error.main" sx={{ fontSize: '0.7rem', fontWeight: 600 }}>
+                  No open shift
+                </Typography>
+                <Button size="small" onClick={() => setOpenShiftDialog(true)} sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}>
+                  Open Shift
+                </Button>
+              </>
+            )}
+          </Box>
+
+          {/* Order type */}
+          <Box sx={{ px: 2, py: 1, borderBottom: '1px solid', borderColor: 'divider', flexShrink: 0, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            <ToggleButtonGroup
+              value={orderType}
+              exclusive
+              size="small"
+              onChange={(_e, value) => handleChangeOrderType(value)}
+            >
+              {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((type) => (
+                <ToggleButton key={type} value={type} sx={{ px: 1, py: 0.25, fontSize: '0.7rem', textTransform: 'none' }}>
+                  {ORDER_TYPE_LABELS[type]}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            {orderType === 'dine_in' && (
+              <Button
+                size="small"
+                startIcon={<TableCellsIcon style={{ width: 14, height: 14 }} />}
+                onClick={() => setOpenTableDialog(true)}
+                sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}
+              >
+                {selectedTable ? `Table ${selectedTable.number}` : 'Choose table'}
+              </Button>
+            )}
+          </Box>
+
+          {/* Recalled held ticket */}
+          {activeHeldOrder && (
+            <Box sx={{ px: 2, py: 1, borderBottom: '1px solid', borderColor: 'divider', flexShrink: 0, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, backgroundColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.08)' : 'rgba(255, 215, 0, 0.15)' }}>
+              <Typography variant="caption" sx={{ fontSize: '0.7rem', fontWeight: 600 }} noWrap>
+                Tab: {activeHeldOrder.label || activeHeldOrder.order_number}
+              </Typography>
+              <Button size="small" onClick={resetCart} sx={{ minWidth: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}>
+                Release
+              </Button>
+            </Box>
+          )}
+
           {/* Cart Content */}
           <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', minHeight: 0, overflow: 'hidden' }}>
           {cart.length === 0 ? (
@@ -555,10 +1616,10 @@ function POS() {
                         <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '14px', mb: 0.25 }}>
                           {item.menuItem.name}
                         </Typography>
-                        {(item.selectedSize || item.selectedOptions.length > 0) && (
+                        {(item.selectedSize || describeModifiers(item).length > 0) && (
                           <Typography variant="caption" color="text.secondary" sx={{ fontSize: '11px', display: 'block' }}>
                             {item.selectedSize && `${item.selectedSize.name} `}
-                            {item.selectedOptions.length > 0 && item.selectedOptions.map(o => o.name).join(', ')}
+                            {describeModifiers(item).join(', ')}
                           </Typography>
                         )}
                         {item.notes && (
@@ -619,9 +1680,29 @@ function POS() {
                           <PlusIcon style={{ width: 14, height: 14 }} />
                         </IconButton>
                       </Box>
-                      <Typography variant="body2" sx={{ fontWeight: 700, fontSize: '15px' }}>
-                        {formatCurrency(item.price * item.quantity)}
-                      </Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {orderType === 'dine_in' && (
+                          <Select
+                            value={item.seat || ''}
+                            onChange={(e) => handleSetSeat(index, e.target.value as number | '')}
+                            displayEmpty
+                            size="small"
+                            renderValue={(value) => (value ? `Seat ${value}` : 'Seat')}
+                            sx={{ fontSize: '11px', height: 24, '& .MuiSelect-select': { py: 0.25, pl: 1 } }}
+                          >
+                            <MenuItem value="">Shared</MenuItem>
+                            {Array.from({ length: Math.max(selectedTable?.capacity || 4, item.seat || 0) }, (_, i) => i + 1).map(seat => (
+                              <MenuItem key={seat} value={seat}>Seat {seat}</MenuItem>
+                            ))}
+                          </Select>
+                        )}
+                        <IconButton size="small" onClick={() => handleOpenPriceEdit(index)} sx={{ p: 0.5 }}>
+                          <PencilSquareIcon style={{ width: 14, height: 14 }} />
+                        </IconButton>
+                        <Typography variant="body2" sx={{ fontWeight: 700, fontSize: '15px' }}>
+                          {formatCurrency(item.price * item.quantity)}
+                        </Typography>
+                      </Box>
                     </Box>
                   </Box>
                 ))}
@@ -646,10 +1727,10 @@ function POS() {
                   value={discountAmount || ''}
                   onChange={(e) => {
                     const value = parseFloat(e.target.value) || 0;
-                    const maxDiscount = calculateSubtotal();
+                    const maxDiscount = calculateMaxManualDiscount();
                     setDiscountAmount(Math.max(0, Math.min(value, maxDiscount)));
                   }}
-                  inputProps={{ min: 0, max: calculateSubtotal(), step: 0.01 }}
+                  inputProps={{ min: 0, max: calculateMaxManualDiscount(), step: 0.01 }}
                   fullWidth
                   sx={{ mb: 2 }}
                   placeholder="0.00"
@@ -663,6 +1744,17 @@ function POS() {
                       {formatCurrency(calculateSubtotal())}
                     </Typography>
                   </Box>
+                  {promotion && calculatePromotionDiscount() > 0 && (
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <Typography variant="body2" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        <TagIcon style={{ width: 14, height: 14 }} />
+                        {promotion.discount.name}
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600, color: 'success.main' }}>
+                        -{formatCurrency(calculatePromotionDiscount())}
+                      </Typography>
+                    </Box>
+                  )}
                   {discountAmount > 0 && (
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                       <Typography variant="body2" color="text.secondary">
@@ -673,6 +1765,16 @@ function POS() {
                       </Typography>
                     </Box>
                   )}
+                  {calculateCartTax().tax_total > 0 && (
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <Typography variant="body2" color="text.secondary">
+                        {isTaxInclusive() ? 'Includes tax' : 'Tax'}
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {formatCurrency(calculateCartTax().tax_total)}
+                      </Typography>
+                    </Box>
+                  )}
                   <Divider sx={{ my: 0.5 }} />
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
@@ -683,21 +1785,37 @@ function POS() {
                     </Typography>
                   </Box>
                 </Box>
-                <Button
-                  variant="contained"
-                  fullWidth
-                  size="medium"
-                  onClick={handleCheckout}
-                  disabled={cart.length === 0}
-                  sx={{
-                    py: 1.25,
-                    fontWeight: 600,
-                    textTransform: 'none',
-                    fontSize: '14px',
-                  }}
-                >
-                  Checkout
-                </Button>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <Button
+                    variant="outlined"
+                    size="medium"
+                    onClick={handleOpenParkDialog}
+                    disabled={cart.length === 0}
+                    sx={{
+                      py: 1.25,
+                      fontWeight: 600,
+                      textTransform: 'none',
+                      fontSize: '14px',
+                    }}
+                  >
+                    Hold
+                  </Button>
+                  <Button
+                    variant="contained"
+                    fullWidth
+                    size="medium"
+                    onClick={handleCheckout}
+                    disabled={cart.length === 0}
+                    sx={{
+                      py: 1.25,
+                      fontWeight: 600,
+                      textTransform: 'none',
+                      fontSize: '14px',
+                    }}
+                  >
+                    Checkout
+                  </Button>
+                </Box>
               </Box>
             </Box>
           )}
@@ -763,6 +1881,64 @@ function POS() {
               </FormControl>
             )}
 
+            {itemOptionGroups.map((group) => (
+              <Box key={group.id}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                  {group.name}
+                  <Typography component="span" variant="caption" color={group.is_required ? 'error.main' : 'text.secondary'} sx={{ ml: 1 }}>
+                    {group.is_required ? 'Required' : 'Optional'}
+                    {(group.max_selections || 1) > 1 && ` · up to ${group.max_selections}`}
+                  </Typography>
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {group.options.map((option) => {
+                    const isSelected = selectedModifiers.some(m => m.option_id === option.id);
+                    return (
+                      <Chip
+                        key={option.id}
+                        label={`${option.name}${(option.price_modifier || 0) !== 0 ? ` (${(option.price_modifier || 0) > 0 ? '+' : ''}${formatCurrency(option.price_modifier || 0)})` : ''}`}
+                        color={isSelected ? 'primary' : 'default'}
+                        variant={isSelected ? 'filled' : 'outlined'}
+                        onClick={() => handleToggleModifier(group, option)}
+                      />
+                    );
+                  })}
+                </Box>
+              </Box>
+            ))}
+
+            {itemAddons.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Add-ons
+                </Typography>
+                {itemAddons.map((addon) => {
+                  const quantity = selectedAddons.find(a => a.addon_id === addon.id)?.quantity || 0;
+                  return (
+                    <Box key={addon.id} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', py: 0.5 }}>
+                      <Typography variant="body2">
+                        {addon.name}
+                        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                          +{formatCurrency(addon.price)}
+                        </Typography>
+                      </Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                        <IconButton size="small" onClick={() => handleUpdateAddonQuantity(addon, -1)} disabled={quantity === 0}>
+                          <MinusIcon style={{ width: 14, height: 14 }} />
+                        </IconButton>
+                        <Typography variant="body2" sx={{ minWidth: 20, textAlign: 'center', fontWeight: 600 }}>
+                          {quantity}
+                        </Typography>
+                        <IconButton size="small" onClick={() => handleUpdateAddonQuantity(addon, 1)}>
+                          <PlusIcon style={{ width: 14, height: 14 }} />
+                        </IconButton>
+                      </Box>
+                    </Box>
+                  );
+                })}
+              </Box>
+            )}
+
             <TextField
               label="Special Instructions (Optional)"
               value={itemNotes}
@@ -777,7 +1953,7 @@ function POS() {
                 Price:
               </Typography>
               <Typography variant="h5" sx={{ fontWeight: 700, color: 'primary.main' }}>
-                {selectedMenuItem ? formatCurrency(calculateItemPrice(selectedMenuItem, selectedSize, selectedOptions)) : formatCurrency(0)}
+                {selectedMenuItem ? formatCurrency(calculateItemPrice(selectedMenuItem, selectedSize, selectedOptions, selectedModifiers, selectedAddons)) : formatCurrency(0)}
               </Typography>
             </Box>
           </Box>
@@ -815,7 +1991,7 @@ function POS() {
                       secondary={
                         <>
                           {item.selectedSize && `Size: ${item.selectedSize.name} `}
-                          {item.selectedOptions.length > 0 && `Options: ${item.selectedOptions.map(o => o.name).join(', ')}`}
+                          {describeModifiers(item).length > 0 && `Options: ${describeModifiers(item).join(', ')}`}
                         </>
                       }
                     />
@@ -832,12 +2008,28 @@ function POS() {
                 <Typography variant="body2">Subtotal:</Typography>
                 <Typography variant="body2">{formatCurrency(calculateSubtotal())}</Typography>
               </Box>
+              {promotion && calculatePromotionDiscount() > 0 && (
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                  <Typography variant="body2" color="text.secondary">{promotion.discount.name}:</Typography>
+                  <Typography variant="body2" sx={{ fontWeight: 600, color: 'success.main' }}>
+                    -{formatCurrency(calculatePromotionDiscount())}
+                  </Typography>
+                </Box>
+              )}
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
                 <Typography variant="body2" color="text.secondary">Discount:</Typography>
                 <Typography variant="body2" sx={{ fontWeight: 600, color: discountAmount > 0 ? 'success.main' : 'text.secondary' }}>
                   -{formatCurrency(discountAmount)}
                 </Typography>
               </Box>
+              {calculateCartTax().summary.filter(line => line.tax_amount > 0).map(line => (
+                <Box key={line.tax_rate} sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    {isTaxInclusive() ? `Includes tax ${line.tax_rate}%:` : `Tax ${line.tax_rate}%:`}
+                  </Typography>
+                  <Typography variant="body2">{formatCurrency(line.tax_amount)}</Typography>
+                </Box>
+              ))}
               <Divider sx={{ my: 1 }} />
               <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                 <Typography variant="h6" sx={{ fontWeight: 700 }}>
@@ -847,6 +2039,14 @@ function POS() {
                   {formatCurrency(calculateTotal())}
                 </Typography>
               </Box>
+              {(activeHeldOrder?.paid_amount || 0) > 0 && (
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                  <Typography variant="body2" color="text.secondary">Already paid on tab:</Typography>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                    {formatCurrency(activeHeldOrder!.paid_amount)}
+                  </Typography>
+                </Box>
+              )}
             </Box>
 
             <TextField
@@ -863,22 +2063,101 @@ function POS() {
               sx={{ mb: 2 }}
             />
 
+            <Box sx={{ mb: 2 }}>
+              {appliedPromoCode ? (
+                <Chip
+                  icon={<TagIcon style={{ width: 16, height: 16 }} />}
+                  label={promotion ? `${appliedPromoCode} · ${promotion.discount.name}` : appliedPromoCode}
+                  color="success"
+                  variant="outlined"
+                  onDelete={payments.length > 0 ? undefined : handleRemovePromoCode}
+                />
+              ) : (
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    label="Promo Code"
+                    size="small"
+                    value={promoCodeInput}
+                    onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => {
+                      e.stopPropagation();
+                      if (e.key === 'Enter') handleApplyPromoCode();
+                    }}
+                    disabled={payments.length > 0}
+                    fullWidth
+                  />
+                  <Button variant="outlined" onClick={handleApplyPromoCode} disabled={payments.length > 0 || !promoCodeInput.trim()}>
+                    Apply
+                  </Button>
+                </Box>
+              )}
+              {!appliedPromoCode && promotion && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                  {promotion.discount.name} applied automatically; a promo code replaces it
+                </Typography>
+              )}
+            </Box>
+
             <TextField
               label="Discount Amount"
               type="number"
               value={discountAmount}
               onChange={(e) => {
                 const value = parseFloat(e.target.value) || 0;
-                const maxDiscount = calculateSubtotal();
+                const maxDiscount = calculateMaxManualDiscount();
                 setDiscountAmount(Math.max(0, Math.min(value, maxDiscount)));
               }}
-              inputProps={{ min: 0, max: calculateSubtotal(), step: 0.01 }}
+              inputProps={{ min: 0, max: calculateMaxManualDiscount(), step: 0.01 }}
               fullWidth
-              helperText={`Maximum discount: ${formatCurrency(calculateSubtotal())}`}
+              disabled={payments.length > 0}
+              helperText={payments.length > 0
+                ? 'Remove payments to change the discount'
+                : `Maximum discount: ${formatCurrency(calculateMaxManualDiscount())}`}
               sx={{ mb: 2 }}
             />
 
-            <FormControl fullWidth>
+            <Box>
+              <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+                Payments
+              </Typography>
+              {payments.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  No payments added yet
+                </Typography>
+              ) : (
+                <List dense>
+                  {payments.map((payment, index) => (
+                    <ListItem key={index} sx={{ px: 0 }}>
+                      <ListItemText
+                        primary={formatPaymentMethod(payment.payment_method)}
+                        secondary={
+                          <>
+                            {payment.change_given > 0 && `Tendered ${formatCurrency(payment.amount_tendered)}, change ${formatCurrency(payment.change_given)} `}
+                            {payment.reference && `Ref: ${payment.reference}`}
+                          </>
+                        }
+                      />
+                      <ListItemSecondaryAction sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                          {formatCurrency(payment.amount)}
+                        </Typography>
+                        <IconButton size="small" onClick={() => handleRemoveTender(index)} sx={{ color: 'error.main', p: 0.5 }}>
+                          <TrashIcon style={{ width: 16, height: 16 }} />
+                        </IconButton>
+                      </ListItemSecondaryAction>
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>Balance Due:</Typography>
+                <Typography variant="body2" sx={{ fontWeight: 700, color: calculateBalanceDue() > 0 ? 'error.main' : 'success.main' }}>
+                  {formatCurrency(calculateBalanceDue())}
+                </Typography>
+              </Box>
+            </Box>
+
+            <FormControl fullWidth disabled={calculateBalanceDue() <= 0}>
               <InputLabel>Payment Method</InputLabel>
               <Select
                 value={paymentMethod}
@@ -905,15 +2184,354 @@ function POS() {
                 </MenuItem>
               </Select>
             </FormControl>
+
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <TextField
+                label={paymentMethod === 'cash' ? 'Amount Tendered' : 'Amount'}
+                type="number"
+                value={tenderAmount}
+                onChange={(e) => setTenderAmount(e.target.value)}
+                inputProps={{ min: 0, step: 0.01 }}
+                placeholder={calculateBalanceDue().toFixed(2)}
+                helperText="Leave empty to pay the full balance"
+                disabled={calculateBalanceDue() <= 0}
+                sx={{ flex: 1 }}
+              />
+              {paymentMethod !== 'cash' && (
+                <TextField
+                  label="Reference (Optional)"
+                  value={tenderReference}
+                  onChange={(e) => setTenderReference(e.target.value)}
+                  disabled={calculateBalanceDue() <= 0}
+                  sx={{ flex: 1 }}
+                />
+              )}
+              <Button
+                variant="outlined"
+                onClick={handleAddTender}
+                disabled={calculateBalanceDue() <= 0}
+                sx={{ height: 56 }}
+              >
+                Add Payment
+              </Button>
+            </Box>
           </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setOpenCheckoutDialog(false)}>Cancel</Button>
-          <Button onClick={handleProcessPayment} variant="contained" size="large">
+          <Button
+            onClick={handleProcessPayment}
+            variant="contained"
+            size="large"
+            disabled={calculateBalanceDue() > 0}
+          >
             Process Payment
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Hold Order Dialog */}
+      <Dialog open={openParkDialog} onClose={() => setOpenParkDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{activeHeldOrder ? 'Update Held Ticket' : 'Hold Order'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 1 }}>
+            <TextField
+              label="Ticket Name"
+              value={parkLabel}
+              onChange={(e) => setParkLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleParkOrder();
+              }}
+              fullWidth
+              autoFocus
+              placeholder="e.g. customer name"
+              helperText={`${cart.reduce((sum, item) => sum + item.quantity, 0)} item(s) · ${formatCurrency(calculateTotal())}`}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenParkDialog(false)}>Cancel</Button>
+          <Button onClick={handleParkOrder} variant="contained">
+            {activeHeldOrder ? 'Update Ticket' : 'Hold Order'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Held Orders Dialog */}
+      <Dialog open={openHeldOrdersDialog} onClose={() => setOpenHeldOrdersDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Held Tickets</DialogTitle>
+        <DialogContent>
+          {heldOrders.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+              No held tickets
+            </Typography>
+          ) : (
+            <List dense>
+              {heldOrders.map((order) => (
+                <ListItem
+                  key={order.id}
+                  sx={{
+                    px: 1,
+                    borderRadius: 1,
+                    backgroundColor: activeHeldOrder?.id === order.id ? 'action.selected' : 'transparent',
+                  }}
+                >
+                  <ListItemText
+                    primary={order.label || order.order_number}
+                    secondary={
+                      <>
+                        {`${order.item_count} item(s) · ${new Date(order.created_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                        {order.table_number && ` · Table ${order.table_number}`}
+                        {(order.full_name || order.username) && ` · ${order.full_name || order.username}`}
+                        {order.paid_amount > 0 && ` · Paid ${formatCurrency(order.paid_amount)}`}
+                      </>
+                    }
+                  />
+                  <ListItemSecondaryAction sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {formatCurrency(order.total_amount)}
+                    </Typography>
+                    <Button size="small" variant="outlined" onClick={() => handleRecallOrder(order)}>
+                      Recall
+                    </Button>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDiscardHeldOrder(order)}
+                      disabled={order.paid_amount > 0}
+                      sx={{ color: 'error.main', p: 0.5 }}
+                    >
+                      <TrashIcon style={{ width: 16, height: 16 }} />
+                    </IconButton>
+                  </ListItemSecondaryAction>
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenHeldOrdersDialog(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Table Picker Dialog */}
+      <Dialog open={openTableDialog} onClose={() => setOpenTableDialog(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Choose Table</DialogTitle>
+        <DialogContent>
+          {tables.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+              No tables set up yet. Add them from the Tables page.
+            </Typography>
+          ) : (
+            <Box sx={{ pt: 1 }}>
+              <FloorPlan
+                tables={tables}
+                sections={floorSections}
+                selectedTableId={selectedTable?.id}
+                onTableClick={handleSelectTable}
+                isTableDisabled={(table) => table.status === 'cleaning'}
+                renderTableInfo={(table) => {
+                  const runningOrder = table.status === 'occupied' ? findTableOrder(table) : undefined;
+                  return runningOrder ? (
+                    <Typography sx={{ fontSize: '10px', lineHeight: 1.2 }} noWrap>
+                      {formatCurrency(runningOrder.total_amount)}
+                    </Typography>
+                  ) : null;
+                }}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {selectedTable && (
+            <Button onClick={() => { setSelectedTable(null); setOpenTableDialog(false); }} color="error">
+              Clear Table
+            </Button>
+          )}
+          <Button onClick={() => setOpenTableDialog(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Open Shift Dialog */}
+      <Dialog open={openShiftDialog} onClose={() => setOpenShiftDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Open Shift</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Count the cash in the drawer and enter the opening float.
+            </Typography>
+            <TextField
+              label="Opening Float"
+              type="number"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+              placeholder="0.00"
+              fullWidth
+              autoFocus
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenShiftDialog(false)}>Later</Button>
+          <Button onClick={handleOpenShift} variant="contained">
+            Open Shift
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Price Change Dialog */}
+      <Dialog open={priceEditIndex !== null} onClose={() => setPriceEditIndex(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Change Price</DialogTitle>
+        <DialogContent>
+          {priceEditIndex !== null && cart[priceEditIndex] && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                {cart[priceEditIndex].menuItem.name} · menu price {formatCurrency(cart[priceEditIndex].originalPrice ?? cart[priceEditIndex].price)}
+              </Typography>
+              <TextField
+                label="Unit price"
+                type="number"
+                value={priceEditValue}
+                onChange={(e) => setPriceEditValue(e.target.value)}
+                inputProps={{ min: 0, step: 0.01 }}
+                autoFocus
+                fullWidth
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPriceEditIndex(null)}>Cancel</Button>
+          <Button onClick={handleApplyPrice} variant="contained">
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Cash In/Out Dialog */}
+      <Dialog open={openCashMovementDialog} onClose={() => setOpenCashMovementDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Cash In/Out</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <FormControl fullWidth>
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={movementType}
+                label="Type"
+                onChange={(e) => setMovementType(e.target.value as 'paid_in' | 'paid_out' | 'refund')}
+              >
+                <MenuItem value="paid_out">Paid Out</MenuItem>
+                <MenuItem value="paid_in">Paid In</MenuItem>
+                <MenuItem value="refund">Cash Refund</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Amount"
+              type="number"
+              value={movementAmount}
+              onChange={(e) => setMovementAmount(e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+              fullWidth
+            />
+            <TextField
+              label="Reason"
+              value={movementReason}
+              onChange={(e) => setMovementReason(e.target.value)}
+              placeholder="e.g. Bought milk, change from bank"
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenCashMovementDialog(false)}>Cancel</Button>
+          <Button onClick={handleAddCashMovement} variant="contained">
+            Record
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Close Shift Dialog */}
+      <Dialog open={openCloseShiftDialog} onClose={() => setOpenCloseShiftDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Close Shift #{currentShift?.id}</DialogTitle>
+        <DialogContent>
+          {shiftSummary && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+                  Drawer
+                </Typography>
+                {[
+                  { label: 'Opening float', value: shiftSummary.shift.opening_float || 0 },
+                  { label: 'Cash sales', value: shiftSummary.cash_sales },
+                  { label: 'Paid in', value: shiftSummary.paid_in },
+                  { label: 'Paid out', value: -shiftSummary.paid_out },
+                  { label: 'Cash refunds', value: -shiftSummary.cash_refunds },
+                ].map((line) => (
+                  <Box key={line.label} sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                    <Typography variant="body2" color="text.secondary">{line.label}</Typography>
+                    <Typography variant="body2">{formatCurrency(line.value)}</Typography>
+                  </Box>
+                ))}
+                <Divider sx={{ my: 1 }} />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="body2" sx={{ fontWeight: 700 }}>Expected cash</Typography>
+                  <Typography variant="body2" sx={{ fontWeight: 700 }}>{formatCurrency(shiftSummary.expected_cash)}</Typography>
+                </Box>
+              </Box>
+
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+                  Count
+                </Typography>
+                <Grid container spacing={1.5}>
+                  {denominations.map((d) => (
+                    <Grid item xs={6} sm={4} key={d}>
+                      <TextField
+                        label={`${d} x`}
+                        type="number"
+                        size="small"
+                        value={denominationCounts[String(d)] || ''}
+                        onChange={(e) => setDenominationCounts({ ...denominationCounts, [String(d)]: e.target.value })}
+                        inputProps={{ min: 0, step: 1 }}
+                        fullWidth
+                      />
+                    </Grid>
+                  ))}
+                </Grid>
+              </Box>
+
+              <Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>Counted cash</Typography>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>{formatCurrency(calculateCountedCash())}</Typography>
+                </Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="body2" sx={{ fontWeight: 700 }}>Over / Short</Typography>
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      fontWeight: 700,
+                      color: Math.abs(calculateCountedCash() - shiftSummary.expected_cash) < 0.005
+                        ? 'success.main'
+                        : 'error.main',
+                    }}
+                  >
+                    {formatCurrency(calculateCountedCash() - shiftSummary.expected_cash)}
+                  </Typography>
+                </Box>
+              </Box>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenCloseShiftDialog(false)}>Cancel</Button>
+          <Button onClick={handleCloseShift} variant="contained" color="error">
+            Close Shift & Print Z-Report
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {overrideDialog}
     </Box>
   );
 }
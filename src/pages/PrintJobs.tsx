@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  ArrowPathIcon,
+  CalendarIcon,
+  PrinterIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getPrintJobs,
+  getPrintQueueStatus,
+  retryPrintJob,
+  reprintPrintJob,
+  onPrintJobFailed,
+  PrintJob,
+  PrintJobStatus,
+  PrintQueueStatus,
+} from '../utils/database';
+import PageHeader from '../components/Layout/PageHeader';
+
+const STATUS_COLORS: Record<PrintJobStatus, 'default' | 'primary' | 'success' | 'error'> = {
+  queued: 'default',
+  printing: 'primary',
+  printed: 'success',
+  failed: 'error',
+};
+
+const STATUS_LABELS: Record<PrintJobStatus, string> = {
+  queued: 'Queued',
+  printing: 'Printing',
+  printed: 'Printed',
+  failed: 'Failed',
+};
+
+function PrintJobs() {
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [filter, setFilter] = useState<'failed' | 'all'>('failed');
+  const [queueStatus, setQueueStatus] = useState<PrintQueueStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyJobId, setBusyJobId] = useState<number | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const [loaded, status] = await Promise.all([
+        getPrintJobs({ status: filter === 'failed' ? 'failed' : null, limit: 200 }),
+        getPrintQueueStatus(),
+      ]);
+      setJobs(loaded);
+      setQueueStatus(status);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load print jobs');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadJobs();
+    // A job failing anywhere in the app shows up here straight away
+    return onPrintJobFailed(() => {
+      loadJobs();
+    });
+  }, [loadJobs]);
+
+  const runJobAction = async (job: PrintJob, action: (id: number) => Promise<unknown>, failureMessage: string) => {
+    setBusyJobId(job.id);
+    try {
+      await action(job.id);
+      setError(null);
+    } catch (err: any) {
+      setError(`${job.title}${job.reference_label ? ` ${job.reference_label}` : ''}: ${err.message || failureMessage}`);
+      console.error(err);
+    } finally {
+      setBusyJobId(null);
+      await loadJobs();
+    }
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <PageHeader
+        title="Print Jobs"
+        subtitle="Everything this till has printed, with failed jobs ready to retry"
+        breadcrumbs={[
+          { label: 'Home', path: '/pos' },
+          { label: 'Print Jobs' },
+        ]}
+      />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <ToggleButtonGroup
+          value={filter}
+          exclusive
+          size="small"
+          onChange={(_e, value) => value && setFilter(value)}
+        >
+          <ToggleButton value="failed">Failed</ToggleButton>
+          <ToggleButton value="all">All Jobs</ToggleButton>
+        </ToggleButtonGroup>
+        {queueStatus && (
+          <Typography variant="body2" color="text.secondary">
+            {queueStatus.processing
+              ? `Printing now${queueStatus.queueLength > 0 ? `, ${queueStatus.queueLength} waiting` : ''}`
+              : 'Printer queue is idle'}
+          </Typography>
+        )}
+        <Button
+          size="small"
+          startIcon={<ArrowPathIcon style={{ width: 18, height: 18 }} />}
+          onClick={loadJobs}
+          sx={{ ml: 'auto' }}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      <Box sx={{ flex: 1, overflow: 'auto', pr: 1 }}>
+        {jobs.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              py: 8,
+              gap: 2,
+            }}
+          >
+            <PrinterIcon style={{ width: 64, height: 64, opacity: 0.3 }} />
+            <Typography variant="h6" color="text.secondary">
+              {filter === 'failed' ? 'No failed print jobs' : 'Nothing printed yet'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {filter === 'failed'
+                ? 'Receipts and tickets that fail to print wait here for a retry'
+                : 'Receipts, kitchen tickets and reports are listed as they print'}
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {jobs.map((job) => (
+              <Card
+                key={job.id}
+                sx={{
+                  border: (theme) =>
+                    `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                }}
+              >
+                <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ minWidth: 220 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 700, fontSize: '0.95rem' }}>
+                        {job.title}{job.reference_label ? ` ${job.reference_label}` : ''}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.25 }}>
+                        <CalendarIcon style={{ width: 12, height: 12, opacity: 0.6 }} />
+                        {formatDate(job.created_at)}
+                        {job.reprint_of && ` · reprint of job #${job.reprint_of}`}
+                      </Typography>
+                    </Box>
+
+                    <Chip label={STATUS_LABELS[job.status]} color={STATUS_COLORS[job.status]} size="small" />
+
+                    <Box sx={{ minWidth: 140 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Printer
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {job.printer_name || 'Default printer'}
+                        {job.output_format === 'escpos' && job.paper_width ? ` (${job.paper_width} mm)` : ''}
+                      </Typography>
+                    </Box>
+
+                    <Box sx={{ minWidth: 70 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Attempts
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {job.attempts}
+                      </Typography>
+                    </Box>
+
+                    <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+                      {job.status === 'failed' && (
+                        <Button
+                          variant="contained"
+                          size="small"
+                          startIcon={<ArrowPathIcon style={{ width: 16, height: 16 }} />}
+                          disabled={busyJobId === job.id}
+                          onClick={() => runJobAction(job, retryPrintJob, 'Retry failed')}
+                        >
+                          Retry
+                        </Button>
+                      )}
+                      {(job.status === 'printed' || job.status === 'failed') && (
+                        <Button
+                          variant="outlined"
+                          size="small"
+                          startIcon={<PrinterIcon style={{ width: 16, height: 16 }} />}
+                          disabled={busyJobId === job.id}
+                          onClick={() => runJobAction(job, reprintPrintJob, 'Reprint failed')}
+                        >
+                          Reprint
+                        </Button>
+                      )}
+                    </Box>
+                  </Box>
+                  {job.status === 'failed' && job.error && (
+                    <Typography variant="body2" color="error.main" sx={{ mt: 1, fontSize: '0.8rem' }}>
+                      {job.error}
+                    </Typography>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export default PrintJobs;
@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  Autocomplete,
+  Checkbox,
+  FormControlLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowPathIcon,
+  CakeIcon,
+  CalendarIcon,
+  PlusIcon,
+  TagIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getProductionBatches,
+  addProductionBatch,
+  getAllMenuItems,
+  MenuItem as MenuItemType,
+  ProductionBatch,
+} from '../utils/database';
+import { useAuth } from '../contexts/AuthContext';
+import PageHeader from '../components/Layout/PageHeader';
+import PrintLabelsDialog from '../components/PrintLabelsDialog';
+
+// Local time in the format a datetime-local field takes
+const nowForInput = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EMPTY_FORM = {
+  menuItem: null as MenuItemType | null,
+  quantity: '',
+  produced_at: '',
+  notes: '',
+  printLabels: true,
+};
+
+function Production() {
+  const { user } = useAuth();
+  const [batches, setBatches] = useState<ProductionBatch[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemType[]>([]);
+  const [day, setDay] = useState(new Date().toLocaleDateString('en-CA'));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [labelBatch, setLabelBatch] = useState<ProductionBatch | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      setBatches(await getProductionBatches(day ? { startDate: day, endDate: day } : {}));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load production batches');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [day]);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  useEffect(() => {
+    getAllMenuItems()
+      .then(setMenuItems)
+      .catch((err) => console.error('Failed to load menu items:', err));
+  }, []);
+
+  const handleOpenDialog = () => {
+    setFormData({ ...EMPTY_FORM, produced_at: nowForInput() });
+    setOpenDialog(true);
+  };
+
+  const handleSave = async () => {
+    const quantity = parseInt(formData.quantity, 10);
+    if (!formData.menuItem?.id) {
+      setError('Choose the item that was made');
+      return;
+    }
+    if (!quantity || quantity < 1) {
+      setError('Quantity must be at least 1');
+      return;
+    }
+    try {
+      setSaving(true);
+      const batch = await addProductionBatch({
+        menu_item_id: formData.menuItem.id,
+        quantity,
+        produced_at: formData.produced_at || undefined,
+        notes: formData.notes.trim() || undefined,
+        user_id: user?.id ?? null,
+      });
+      setOpenDialog(false);
+      setError(null);
+      if (formData.printLabels) {
+        setLabelBatch(batch);
+      }
+      await loadBatches();
+    } catch (err: any) {
+      setError(err.message || 'Failed to record the batch');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(dateString));
+
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <PageHeader
+        title="Production"
+        subtitle="Batches as they come out of the oven, with their batch numbers and labels"
+        breadcrumbs={[
+          { label: 'Home', path: '/pos' },
+          { label: 'Production' },
+        ]}
+        actions={
+          <Button
+            variant="contained"
+            startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+            onClick={handleOpenDialog}
+          >
+            New Batch
+          </Button>
+        }
+      />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField
+          label="Day"
+          type="date"
+          size="small"
+          value={day}
+          onChange={(e) => setDay(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          helperText={day ? undefined : 'Showing the latest batches'}
+        />
+        {day && (
+          <Button size="small" onClick={() => setDay('')}>
+            Show All
+          </Button>
+        )}
+        <Button
+          size="small"
+          startIcon={<ArrowPathIcon style={{ width: 18, height: 18 }} />}
+          onClick={loadBatches}
+          sx={{ ml: 'auto' }}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      <Box sx={{ flex: 1, overflow: 'auto', pr: 1 }}>
+        {batches.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              py: 8,
+              gap: 2,
+            }}
+          >
+            <CakeIcon style={{ width: 64, height: 64, opacity: 0.3 }} />
+            <Typography variant="h6" color="text.secondary">
+              {day ? `Nothing recorded for ${formatDay(day)}` : 'No batches recorded yet'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Record each batch as it comes out to give it a batch number and print its labels
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {batches.map((batch) => (
+              <Card
+                key={batch.id}
+                sx={{
+                  border: (theme) =>
+                    `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                }}
+              >
+                <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ minWidth: 220 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 700, fontSize: '0.95rem' }}>
+                        {batch.item_name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.25 }}>
+                        <CalendarIcon style={{ width: 12, height: 12, opacity: 0.6 }} />
+                        {formatDateTime(batch.produced_at)}
+                        {(batch.user_name || batch.username) && ` · ${batch.user_name || batch.username}`}
+                      </Typography>
+                    </Box>
+
+                    <Chip label={batch.batch_number} size="small" />
+
+                    <Box sx={{ minWidth: 70 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Quantity
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {batch.quantity}
+                      </Typography>
+                    </Box>
+
+                    <Box sx={{ minWidth: 110 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Best Before
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {batch.best_before ? formatDay(batch.best_before) : 'None'}
+                      </Typography>
+                    </Box>
+
+                    <Box sx={{ ml: 'auto' }}>
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        startIcon={<TagIcon style={{ width: 16, height: 16 }} />}
+                        disabled={!batch.menu_item_id}
+                        onClick={() => setLabelBatch(batch)}
+                      >
+                        Print Labels
+                      </Button>
+                    </Box>
+                  </Box>
+                  {batch.notes && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1, fontSize: '0.8rem' }}>
+                      {batch.notes}
+                    </Typography>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Dialog open={openDialog} onClose={() => setOpenDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Batch</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Autocomplete
+              options={menuItems}
+              value={formData.menuItem}
+              onChange={(_e, value) => setFormData({ ...formData, menuItem: value })}
+              getOptionLabel={(item) => item.name}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={(params) => <TextField {...params} label="Item" required />}
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Quantity"
+                type="number"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                required
+                fullWidth
+                inputProps={{ min: 1, step: 1 }}
+              />
+              <TextField
+                label="Made At"
+                type="datetime-local"
+                value={formData.produced_at}
+                onChange={(e) => setFormData({ ...formData, produced_at: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label="Notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.printLabels}
+                  onChange={(e) => setFormData({ ...formData, printLabels: e.target.checked })}
+                />
+              }
+              label="Print labels for this batch"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenDialog(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            Record Batch
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <PrintLabelsDialog open={!!labelBatch} batch={labelBatch} onClose={() => setLabelBatch(null)} />
+    </Box>
+  );
+}
+
+export default Production;
@@ -0,0 +1,519 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  TagIcon,
+  CalendarIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getDiscounts,
+  addDiscount,
+  updateDiscount,
+  deleteDiscount,
+  getAllMenuItems,
+  Discount,
+  MenuItem as MenuItemType,
+} from '../utils/database';
+import PageHeader from '../components/Layout/PageHeader';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  code: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  min_purchase_amount: '',
+  applicable_items: [] as number[],
+  start_date: '',
+  end_date: '',
+  usage_limit: '',
+  is_active: true,
+};
+
+const parseItemIds = (value?: string): number[] => {
+  if (!value) return [];
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.map(Number) : [];
+  } catch {
+    return [];
+  }
+};
+
+function Promotions() {
+  const [discounts, setDiscounts] = useState<Discount[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingDiscount, setEditingDiscount] = useState<Discount | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [allDiscounts, items] = await Promise.all([
+        getDiscounts(),
+        getAllMenuItems(),
+      ]);
+      setDiscounts(allDiscounts);
+      setMenuItems(items);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load promotions');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'SLE',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(new Date(`${dateString.slice(0, 10)}T00:00:00`));
+  };
+
+  const describeValue = (discount: Discount) => {
+    return discount.discount_type === 'percentage'
+      ? `${discount.discount_value}% off`
+      : `${formatCurrency(discount.discount_value)} off`;
+  };
+
+  const describeWindow = (discount: Discount) => {
+    if (discount.start_date && discount.end_date) {
+      return `${formatDate(discount.start_date)} – ${formatDate(discount.end_date)}`;
+    }
+    if (discount.start_date) return `From ${formatDate(discount.start_date)}`;
+    if (discount.end_date) return `Until ${formatDate(discount.end_date)}`;
+    return 'No end date';
+  };
+
+  const describeItems = (discount: Discount) => {
+    const ids = parseItemIds(discount.applicable_items);
+    if (ids.length === 0) return 'Whole order';
+    const names = ids
+      .map(id => menuItems.find(item => item.id === id)?.name)
+      .filter(Boolean);
+    return names.length > 0 ? names.join(', ') : `${ids.length} items`;
+  };
+
+  const handleOpenDialog = (discount?: Discount) => {
+    if (discount) {
+      setEditingDiscount(discount);
+      setFormData({
+        name: discount.name,
+        description: discount.description || '',
+        code: discount.code || '',
+        discount_type: discount.discount_type,
+        discount_value: discount.discount_value.toString(),
+        min_purchase_amount: discount.min_purchase_amount ? discount.min_purchase_amount.toString() : '',
+        applicable_items: parseItemIds(discount.applicable_items),
+        start_date: discount.start_date?.slice(0, 10) || '',
+        end_date: discount.end_date?.slice(0, 10) || '',
+        usage_limit: discount.usage_limit ? discount.usage_limit.toString() : '',
+        is_active: discount.is_active !== 0,
+      });
+    } else {
+      setEditingDiscount(null);
+      setFormData(emptyForm);
+    }
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingDiscount(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (!formData.name.trim()) {
+        setError('Promotion name is required');
+        return;
+      }
+      const value = parseFloat(formData.discount_value);
+      if (isNaN(value) || value <= 0) {
+        setError('Discount value must be a positive number');
+        return;
+      }
+      if (formData.discount_type === 'percentage' && value > 100) {
+        setError('Percentage discounts cannot exceed 100%');
+        return;
+      }
+
+      const discountData = {
+        name: formData.name,
+        description: formData.description || undefined,
+        code: formData.code || undefined,
+        discount_type: formData.discount_type,
+        discount_value: value,
+        min_purchase_amount: parseFloat(formData.min_purchase_amount) || undefined,
+        applicable_items: formData.applicable_items.length > 0 ? JSON.stringify(formData.applicable_items) : undefined,
+        start_date: formData.start_date || undefined,
+        end_date: formData.end_date || undefined,
+        usage_limit: parseInt(formData.usage_limit) || undefined,
+        is_active: formData.is_active ? 1 : 0,
+      };
+
+      if (editingDiscount) {
+        await updateDiscount(editingDiscount.id!, discountData);
+      } else {
+        await addDiscount(discountData);
+      }
+
+      await loadData();
+      handleCloseDialog();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save promotion');
+      console.error(err);
+    }
+  };
+
+  const handleToggleActive = async (discount: Discount) => {
+    try {
+      const { id, usage_count, created_at, ...rest } = discount;
+      await updateDiscount(id!, { ...rest, is_active: discount.is_active ? 0 : 1 });
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update promotion');
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (discount: Discount) => {
+    if (!window.confirm(`Delete promotion "${discount.name}"? Past orders keep the discount they were given.`)) {
+      return;
+    }
+
+    try {
+      await deleteDiscount(discount.id!);
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete promotion');
+      console.error(err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <PageHeader
+        title="Promotions"
+        subtitle="Automatic promotions and promo codes applied at checkout"
+        breadcrumbs={[
+          { label: 'Home', path: '/pos' },
+          { label: 'Promotions' },
+        ]}
+        actions={
+          <Button
+            variant="contained"
+            startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+            onClick={() => handleOpenDialog()}
+            sx={{
+              backgroundColor: 'primary.main',
+              color: 'primary.contrastText',
+              '&:hover': {
+                backgroundColor: 'primary.dark',
+              },
+            }}
+          >
+            Add Promotion
+          </Button>
+        }
+      />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ flex: 1, overflow: 'auto', pr: 1 }}>
+        {discounts.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              py: 8,
+              gap: 2,
+            }}
+          >
+            <TagIcon style={{ width: 64, height: 64, opacity: 0.3 }} />
+            <Typography variant="h6" color="text.secondary">
+              No promotions yet
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Promotions without a code apply automatically; promo codes are entered at checkout
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {discounts.map((discount) => (
+              <Card
+                key={discount.id}
+                sx={{
+                  border: (theme) =>
+                    `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                  opacity: discount.is_active ? 1 : 0.6,
+                }}
+              >
+                <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ minWidth: 200, flex: 1 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 700, fontSize: '0.95rem' }}>
+                        {discount.name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block' }}>
+                        {describeItems(discount)}
+                        {discount.min_purchase_amount ? ` · Min. spend ${formatCurrency(discount.min_purchase_amount)}` : ''}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.25 }}>
+                        <CalendarIcon style={{ width: 12, height: 12, opacity: 0.6 }} />
+                        {describeWindow(discount)}
+                      </Typography>
+                    </Box>
+
+                    <Chip
+                      label={discount.code ? `Code: ${discount.code}` : 'Automatic'}
+                      color={discount.code ? 'default' : 'primary'}
+                      size="small"
+                      variant={discount.code ? 'outlined' : 'filled'}
+                    />
+
+                    <Box sx={{ minWidth: 100 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Discount
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {describeValue(discount)}
+                      </Typography>
+                    </Box>
+
+                    <Box sx={{ minWidth: 90 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Used
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {discount.usage_count || 0}{discount.usage_limit ? ` / ${discount.usage_limit}` : ''}
+                      </Typography>
+                    </Box>
+
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={discount.is_active !== 0}
+                          onChange={() => handleToggleActive(discount)}
+                          size="small"
+                        />
+                      }
+                      label="Active"
+                    />
+
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => handleOpenDialog(discount)}>
+                          <PencilIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(discount)}>
+                          <TrashIcon style={{ width: 18, height: 18 }} />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  </Box>
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      {/* Add/Edit Promotion Dialog */}
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingDiscount ? 'Edit Promotion' : 'Add Promotion'}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Weekend Pastry Deal"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Promo Code"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+              placeholder="Leave blank to apply automatically"
+              helperText="With a code the cashier enters it at checkout; without one the promotion applies to every eligible order"
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl sx={{ minWidth: 160 }}>
+                <InputLabel>Type</InputLabel>
+                <Select
+                  value={formData.discount_type}
+                  label="Type"
+                  onChange={(e) => setFormData({ ...formData, discount_type: e.target.value })}
+                >
+                  <MenuItem value="percentage">Percentage</MenuItem>
+                  <MenuItem value="fixed">Fixed Amount</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                label={formData.discount_type === 'percentage' ? 'Percent Off' : 'Amount Off'}
+                type="number"
+                value={formData.discount_value}
+                onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
+                required
+                fullWidth
+                inputProps={{ min: 0, step: formData.discount_type === 'percentage' ? 1 : 0.01 }}
+              />
+            </Box>
+            <TextField
+              label="Minimum Spend"
+              type="number"
+              value={formData.min_purchase_amount}
+              onChange={(e) => setFormData({ ...formData, min_purchase_amount: e.target.value })}
+              placeholder="No minimum"
+              fullWidth
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <FormControl fullWidth>
+              <InputLabel>Applies To</InputLabel>
+              <Select
+                multiple
+                value={formData.applicable_items}
+                label="Applies To"
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setFormData({ ...formData, applicable_items: typeof value === 'string' ? [] : value });
+                }}
+                renderValue={(selected) => (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {selected.map((id) => (
+                      <Chip key={id} size="small" label={menuItems.find(item => item.id === id)?.name || `#${id}`} />
+                    ))}
+                  </Box>
+                )}
+              >
+                {menuItems.map((item) => (
+                  <MenuItem key={item.id} value={item.id}>
+                    {item.name}
+                  </MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, ml: 1.75 }}>
+                Leave empty to discount the whole order
+              </Typography>
+            </FormControl>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Start Date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+              <TextField
+                label="End Date"
+                type="date"
+                value={formData.end_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label="Usage Limit"
+              type="number"
+              value={formData.usage_limit}
+              onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+              placeholder="Unlimited"
+              helperText={editingDiscount ? `Used ${editingDiscount.usage_count || 0} times so far` : 'Number of orders the promotion can be used on'}
+              fullWidth
+              inputProps={{ min: 1 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained">
+            {editingDiscount ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default Promotions;
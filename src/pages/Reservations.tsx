@@ -0,0 +1,638 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ListBulletIcon,
+  ChartBarIcon,
+  UserGroupIcon,
+  PhoneIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getReservations,
+  addReservation,
+  updateReservation,
+  setReservationStatus,
+  deleteReservation,
+  seatReservation,
+  getTables,
+  Reservation,
+  ReservationStatus,
+  Table,
+} from '../utils/database';
+import PageHeader from '../components/Layout/PageHeader';
+import { useAuth } from '../contexts/AuthContext';
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  booked: 'Booked',
+  seated: 'Seated',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+const STATUS_COLORS: Record<ReservationStatus, 'primary' | 'success' | 'default' | 'error' | 'warning'> = {
+  booked: 'primary',
+  seated: 'success',
+  completed: 'default',
+  cancelled: 'error',
+  no_show: 'warning',
+};
+
+// Hours shown on the timeline unless a booking falls outside them
+const TIMELINE_START_HOUR = 8;
+const TIMELINE_END_HOUR = 23;
+
+const toDateKey = (date: Date) => date.toLocaleDateString('en-CA');
+
+const shiftDate = (dateKey: string, days: number) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+};
+
+/** Minutes since midnight of a "YYYY-MM-DD HH:MM" booking time */
+const minutesOfDay = (startsAt: string) => {
+  const [hours, minutes] = startsAt.slice(11, 16).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatClock = (totalMinutes: number) => {
+  const minutes = ((totalMinutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const timeRange = (reservation: Reservation) => {
+  const start = minutesOfDay(reservation.starts_at);
+  return `${formatClock(start)} – ${formatClock(start + (reservation.duration_minutes || 90))}`;
+};
+
+const emptyForm = (date: string) => ({
+  guest_name: '',
+  phone: '',
+  party_size: 2,
+  date,
+  time: '19:00',
+  duration_minutes: '' as number | '',
+  table_id: '' as number | '',
+  notes: '',
+});
+
+function Reservations() {
+  const { user } = useAuth();
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [view, setView] = useState<'list' | 'timeline'>('list');
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingReservation, setEditingReservation] = useState<Reservation | null>(null);
+  const [formData, setFormData] = useState(emptyForm(date));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadReservations();
+  }, [date]);
+
+  const loadReservations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [dayReservations, allTables] = await Promise.all([getReservations(date), getTables()]);
+      setReservations(dayReservations);
+      setTables(allTables);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load reservations');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenDialog = (reservation?: Reservation) => {
+    setError(null);
+    if (reservation) {
+      setEditingReservation(reservation);
+      setFormData({
+        guest_name: reservation.guest_name,
+        phone: reservation.phone || '',
+        party_size: reservation.party_size,
+        date: reservation.starts_at.slice(0, 10),
+        time: reservation.starts_at.slice(11, 16),
+        duration_minutes: reservation.duration_minutes || '',
+        table_id: reservation.table_id || '',
+        notes: reservation.notes || '',
+      });
+    } else {
+      setEditingReservation(null);
+      setFormData(emptyForm(date));
+    }
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingReservation(null);
+  };
+
+  const handleSave = async () => {
+    if (!formData.guest_name.trim()) {
+      setError('Guest name is required');
+      return;
+    }
+
+    const reservationData: Reservation = {
+      guest_name: formData.guest_name.trim(),
+      phone: formData.phone.trim() || null,
+      party_size: formData.party_size,
+      starts_at: `${formData.date} ${formData.time}`,
+      duration_minutes: formData.duration_minutes || undefined,
+      table_id: formData.table_id || null,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingReservation) {
+        await updateReservation(editingReservation.id!, reservationData);
+      } else {
+        await addReservation({ ...reservationData, created_by: user?.id });
+      }
+      handleCloseDialog();
+      if (formData.date !== date) {
+        setDate(formData.date);
+      } else {
+        await loadReservations();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save reservation');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatus = async (reservation: Reservation, status: Exclude<ReservationStatus, 'seated'>) => {
+    if (status !== 'booked' && !window.confirm(`Mark the booking for ${reservation.guest_name} as ${STATUS_LABELS[status].toLowerCase()}?`)) {
+      return;
+    }
+    try {
+      setError(null);
+      await setReservationStatus(reservation.id!, status);
+      await loadReservations();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update reservation');
+      console.error(err);
+    }
+  };
+
+  const handleSeat = async (reservation: Reservation) => {
+    if (!user?.id) return;
+    try {
+      setError(null);
+      const { reservation: seated } = await seatReservation(reservation.id!, user.id);
+      await loadReservations();
+      alert(`${seated.guest_name} seated at Table ${seated.table_number}. Their bill ${seated.order_number} is open in the POS under Held Tickets.`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to seat the party');
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (reservation: Reservation) => {
+    if (!window.confirm(`Delete the booking for ${reservation.guest_name}?`)) {
+      return;
+    }
+    try {
+      setError(null);
+      await deleteReservation(reservation.id!);
+      await loadReservations();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete reservation');
+      console.error(err);
+    }
+  };
+
+  // Tables big enough for the party; the booked table stays listed when editing
+  const tableOptions = tables.filter(t =>
+    (t.capacity || 0) >= formData.party_size || t.id === editingReservation?.table_id
+  );
+
+  const isToday = date === toDateKey(new Date());
+  const dateLabel = new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+  const activeCount = reservations.filter(r => r.status === 'booked' || r.status === 'seated').length;
+  const coverCount = reservations
+    .filter(r => r.status === 'booked' || r.status === 'seated')
+    .reduce((sum, r) => sum + r.party_size, 0);
+
+  const renderActions = (reservation: Reservation) => (
+    <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center', flexWrap: 'wrap' }}>
+      {reservation.status === 'booked' && (
+        <>
+          <Button
+            size="small"
+            variant="contained"
+            onClick={() => handleSeat(reservation)}
+            disabled={!reservation.table_id}
+          >
+            Seat
+          </Button>
+          <Button size="small" onClick={() => handleStatus(reservation, 'no_show')}>
+            No-show
+          </Button>
+          <Button size="small" color="error" onClick={() => handleStatus(reservation, 'cancelled')}>
+            Cancel
+          </Button>
+          <Tooltip title="Edit">
+            <IconButton size="small" onClick={() => handleOpenDialog(reservation)}>
+              <PencilIcon style={{ width: 18, height: 18 }} />
+            </IconButton>
+          </Tooltip>
+        </>
+      )}
+      {(reservation.status === 'cancelled' || reservation.status === 'no_show') && (
+        <Button size="small" onClick={() => handleStatus(reservation, 'booked')}>
+          Restore
+        </Button>
+      )}
+      {reservation.status !== 'seated' && (
+        <Tooltip title="Delete">
+          <IconButton size="small" color="error" onClick={() => handleDelete(reservation)}>
+            <TrashIcon style={{ width: 18, height: 18 }} />
+          </IconButton>
+        </Tooltip>
+      )}
+    </Box>
+  );
+
+  const renderList = () => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      {reservations.map((reservation) => {
+        const status = reservation.status || 'booked';
+        const inactive = status === 'cancelled' || status === 'no_show';
+        return (
+          <Card
+            key={reservation.id}
+            variant="outlined"
+            sx={{ p: 2, display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', opacity: inactive ? 0.6 : 1 }}
+          >
+            <Box sx={{ minWidth: 110 }}>
+              <Typography variant="h6" sx={{ fontWeight: 700, lineHeight: 1.2 }}>
+                {reservation.starts_at.slice(11, 16)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {timeRange(reservation)}
+              </Typography>
+            </Box>
+            <Box sx={{ flexGrow: 1, minWidth: 200 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                  {reservation.guest_name}
+                </Typography>
+                <Chip label={STATUS_LABELS[status]} color={STATUS_COLORS[status]} size="small" />
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', color: 'text.secondary' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  <UserGroupIcon style={{ width: 16, height: 16 }} />
+                  <Typography variant="body2">{reservation.party_size}</Typography>
+                </Box>
+                <Typography variant="body2">
+                  {reservation.table_number ? `Table ${reservation.table_number}` : 'No table'}
+                </Typography>
+                {reservation.phone && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <PhoneIcon style={{ width: 16, height: 16 }} />
+                    <Typography variant="body2">{reservation.phone}</Typography>
+                  </Box>
+                )}
+                {reservation.order_number && (
+                  <Typography variant="body2">Bill {reservation.order_number}</Typography>
+                )}
+              </Box>
+              {reservation.notes && (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5, fontStyle: 'italic' }}>
+                  {reservation.notes}
+                </Typography>
+              )}
+            </Box>
+            {renderActions(reservation)}
+          </Card>
+        );
+      })}
+    </Box>
+  );
+
+  const renderTimeline = () => {
+    const shown = reservations.filter(r => r.status !== 'cancelled');
+    const startHour = Math.min(TIMELINE_START_HOUR, ...shown.map(r => Math.floor(minutesOfDay(r.starts_at) / 60)));
+    const endHour = Math.max(
+      TIMELINE_END_HOUR,
+      ...shown.map(r => Math.min(24, Math.ceil((minutesOfDay(r.starts_at) + (r.duration_minutes || 90)) / 60)))
+    );
+    const span = (endHour - startHour) * 60;
+    const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+    const rows: { key: string; label: string; capacity?: number; bookings: Reservation[] }[] = tables.map(table => ({
+      key: `table-${table.id}`,
+      label: `Table ${table.number}`,
+      capacity: table.capacity,
+      bookings: shown.filter(r => r.table_id === table.id),
+    }));
+    const unassigned = shown.filter(r => !r.table_id);
+    if (unassigned.length > 0) {
+      rows.push({ key: 'unassigned', label: 'No table', bookings: unassigned });
+    }
+
+    return (
+      <Card variant="outlined" sx={{ p: 2, overflowX: 'auto' }}>
+        <Box sx={{ minWidth: 720 }}>
+          <Box sx={{ display: 'flex', mb: 1 }}>
+            <Box sx={{ width: 110, flexShrink: 0 }} />
+            <Box sx={{ flexGrow: 1, display: 'flex' }}>
+              {hours.map(hour => (
+                <Typography key={hour} variant="caption" color="text.secondary" sx={{ flex: 1, borderLeft: '1px solid', borderColor: 'divider', pl: 0.5 }}>
+                  {formatClock(hour * 60)}
+                </Typography>
+              ))}
+            </Box>
+          </Box>
+          {rows.map(row => (
+            <Box key={row.key} sx={{ display: 'flex', alignItems: 'center', borderTop: '1px solid', borderColor: 'divider' }}>
+              <Box sx={{ width: 110, flexShrink: 0, py: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>{row.label}</Typography>
+                {row.capacity !== undefined && (
+                  <Typography variant="caption" color="text.secondary">{row.capacity} seats</Typography>
+                )}
+              </Box>
+              <Box sx={{ flexGrow: 1, position: 'relative', height: 48 }}>
+                {row.bookings.map(reservation => {
+                  const status = reservation.status || 'booked';
+                  const start = minutesOfDay(reservation.starts_at) - startHour * 60;
+                  const length = Math.min(reservation.duration_minutes || 90, span - start);
+                  return (
+                    <Tooltip
+                      key={reservation.id}
+                      title={`${timeRange(reservation)} · ${reservation.guest_name} (${reservation.party_size}) · ${STATUS_LABELS[status]}`}
+                    >
+                      <Box
+                        onClick={() => status === 'booked' && handleOpenDialog(reservation)}
+                        sx={{
+                          position: 'absolute',
+                          top: 6,
+                          bottom: 6,
+                          left: `${(start / span) * 100}%`,
+                          width: `${(length / span) * 100}%`,
+                          borderRadius: 1,
+                          px: 1,
+                          display: 'flex',
+                          alignItems: 'center',
+                          overflow: 'hidden',
+                          cursor: status === 'booked' ? 'pointer' : 'default',
+                          backgroundColor: STATUS_COLORS[status] === 'default' ? 'text.disabled' : `${STATUS_COLORS[status]}.main`,
+                          color: 'common.white',
+                          opacity: status === 'completed' || status === 'no_show' ? 0.6 : 1,
+                        }}
+                      >
+                        <Typography variant="caption" sx={{ fontWeight: 600 }} noWrap>
+                          {reservation.guest_name} · {reservation.party_size}
+                        </Typography>
+                      </Box>
+                    </Tooltip>
+                  );
+                })}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      </Card>
+    );
+  };
+
+  return (
+    <Box>
+      <PageHeader
+        title="Reservations"
+        subtitle="Book tables ahead and seat parties as they arrive"
+        breadcrumbs={[
+          { label: 'Home', path: '/pos' },
+          { label: 'Reservations' },
+        ]}
+        actions={
+          <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center' }}>
+            <ToggleButtonGroup
+              value={view}
+              exclusive
+              size="small"
+              onChange={(_e, value) => value && setView(value)}
+            >
+              <ToggleButton value="list" sx={{ px: 1.5, gap: 0.75, textTransform: 'none' }}>
+                <ListBulletIcon style={{ width: 18, height: 18 }} />
+                List
+              </ToggleButton>
+              <ToggleButton value="timeline" sx={{ px: 1.5, gap: 0.75, textTransform: 'none' }}>
+                <ChartBarIcon style={{ width: 18, height: 18 }} />
+                Timeline
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              variant="contained"
+              startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+              onClick={() => handleOpenDialog()}
+              sx={{
+                backgroundColor: 'primary.main',
+                color: 'primary.contrastText',
+                '&:hover': {
+                  backgroundColor: 'primary.dark',
+                },
+              }}
+            >
+              New Booking
+            </Button>
+          </Box>
+        }
+      />
+
+      {error && !openDialog && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3, flexWrap: 'wrap' }}>
+        <IconButton onClick={() => setDate(shiftDate(date, -1))}>
+          <ChevronLeftIcon style={{ width: 20, height: 20 }} />
+        </IconButton>
+        <TextField
+          type="date"
+          size="small"
+          value={date}
+          onChange={(e) => e.target.value && setDate(e.target.value)}
+        />
+        <IconButton onClick={() => setDate(shiftDate(date, 1))}>
+          <ChevronRightIcon style={{ width: 20, height: 20 }} />
+        </IconButton>
+        {!isToday && (
+          <Button size="small" onClick={() => setDate(toDateKey(new Date()))}>
+            Today
+          </Button>
+        )}
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, ml: 1 }}>
+          {dateLabel}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>
+          {activeCount} booking{activeCount === 1 ? '' : 's'} · {coverCount} guest{coverCount === 1 ? '' : 's'}
+        </Typography>
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : view === 'timeline' ? (
+        renderTimeline()
+      ) : reservations.length === 0 ? (
+        <Card variant="outlined" sx={{ p: 6, textAlign: 'center' }}>
+          <Typography color="text.secondary">No bookings for this day</Typography>
+        </Card>
+      ) : (
+        renderList()
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingReservation ? 'Edit Booking' : 'New Booking'}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+            <TextField
+              label="Guest Name"
+              value={formData.guest_name}
+              onChange={(e) => setFormData({ ...formData, guest_name: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Phone (Optional)"
+              value={formData.phone}
+              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                fullWidth
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                label="Time"
+                type="time"
+                value={formData.time}
+                onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                fullWidth
+                InputLabelProps={{ shrink: true }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Party Size"
+                type="number"
+                value={formData.party_size}
+                onChange={(e) => setFormData({ ...formData, party_size: parseInt(e.target.value) || 1 })}
+                fullWidth
+                inputProps={{ min: 1, max: 50 }}
+              />
+              <TextField
+                label="Duration (minutes)"
+                type="number"
+                value={formData.duration_minutes}
+                onChange={(e) => setFormData({ ...formData, duration_minutes: parseInt(e.target.value) || '' })}
+                fullWidth
+                placeholder="Default"
+                inputProps={{ min: 15, max: 720, step: 15 }}
+              />
+            </Box>
+            <FormControl fullWidth>
+              <InputLabel>Table</InputLabel>
+              <Select
+                value={formData.table_id}
+                label="Table"
+                onChange={(e) => setFormData({ ...formData, table_id: e.target.value as number | '' })}
+              >
+                <MenuItem value="">
+                  <em>No table yet</em>
+                </MenuItem>
+                {tableOptions.map((table) => (
+                  <MenuItem key={table.id} value={table.id}>
+                    Table {table.number}{table.name ? ` · ${table.name}` : ''} ({table.capacity} seats)
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Notes (Optional)"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              fullWidth
+              multiline
+              rows={2}
+              placeholder="e.g., Birthday, high chair, nut allergy"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={16} /> : undefined}
+          >
+            {editingReservation ? 'Update' : 'Book'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default Reservations;
@@ -28,6 +28,8 @@ import {
   Divider,
   Tabs,
   Tab,
+  Checkbox,
+  FormControlLabel,
 } from '@mui/material';
 import {
   PlusIcon,
@@ -39,6 +41,9 @@ import {
   CheckCircleIcon,
 } from '@heroicons/react/24/outline';
 import PageHeader from '../components/Layout/PageHeader';
+import PrintTemplateEditor from '../components/PrintTemplateEditor';
+import PrinterSettings from '../components/PrinterSettings';
+import LabelSizeSettings from '../components/LabelSizeSettings';
 import {
   getAllUsers,
   createUser,
@@ -53,8 +58,30 @@ import {
   syncTestConnection,
   getLastSyncTime,
   getImageSyncDiagnostics,
+  getTaxClasses,
+  addTaxClass,
+  updateTaxClass,
+  deleteTaxClass,
+  getPrepStations,
+  addPrepStation,
+  updatePrepStation,
+  deletePrepStation,
+  getCategories,
+  getMenuItems,
+  getPickupBoardStatus,
+  restartPickupBoard,
+  setUserPin,
+  getOverrides,
+  OVERRIDE_ACTION_LABELS,
   User,
   Setting,
+  TaxClass,
+  PrepStation,
+  PickupBoardStatus,
+  Category,
+  MenuItem as MenuItemType,
+  OverrideAction,
+  ManagerOverride,
 } from '../utils/database';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -94,11 +121,31 @@ function Settings() {
     role: 'cashier' as 'admin' | 'cashier',
     full_name: '',
     email: '',
+    pin: '',
   });
   const [syncLoading, setSyncLoading] = useState(false);
   const [lastSync, setLastSync] = useState<string | null>(null);
   const [syncConfig, setSyncConfig] = useState({ supabase_url: '', supabase_service_key: '' });
   const [syncAutoInterval, setSyncAutoInterval] = useState<string>('off');
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [openTaxClassDialog, setOpenTaxClassDialog] = useState(false);
+  const [editingTaxClass, setEditingTaxClass] = useState<TaxClass | null>(null);
+  const [taxClassForm, setTaxClassForm] = useState({ name: '', rate: '', description: '' });
+  const [prepStations, setPrepStations] = useState<PrepStation[]>([]);
+  const [stationCategories, setStationCategories] = useState<Category[]>([]);
+  const [stationMenuItems, setStationMenuItems] = useState<MenuItemType[]>([]);
+  const [openStationDialog, setOpenStationDialog] = useState(false);
+  const [editingStation, setEditingStation] = useState<PrepStation | null>(null);
+  const [stationForm, setStationForm] = useState({
+    name: '',
+    printer_name: '',
+    show_on_kds: true,
+    category_ids: [] as number[],
+    menu_item_ids: [] as number[],
+  });
+  const [pickupBoardStatus, setPickupBoardStatus] = useState<PickupBoardStatus | null>(null);
+  const [overrideLog, setOverrideLog] = useState<ManagerOverride[]>([]);
+  const [myPin, setMyPin] = useState('');
 
   useEffect(() => {
     loadData();
@@ -126,6 +173,10 @@ function Settings() {
 
       const lastSyncTime = await getLastSyncTime();
       setLastSync(lastSyncTime);
+      await loadTaxClasses();
+      await loadPrepStations();
+      await loadPickupBoardStatus();
+      await loadOverrideLog();
       setError(null);
     } catch (err: any) {
       setError(err.message || 'Failed to load data');
@@ -135,6 +186,274 @@ function Settings() {
     }
   };
 
+  const loadTaxClasses = async () => {
+    try {
+      setTaxClasses(await getTaxClasses());
+    } catch (err: any) {
+      console.error('Error loading tax classes:', err);
+    }
+  };
+
+  const loadPrepStations = async () => {
+    try {
+      const [stations, categories, menuItems] = await Promise.all([
+        getPrepStations(),
+        getCategories(),
+        getMenuItems(),
+      ]);
+      setPrepStations(stations);
+      setStationCategories(categories);
+      setStationMenuItems(menuItems);
+    } catch (err: any) {
+      console.error('Error loading prep stations:', err);
+    }
+  };
+
+  const loadPickupBoardStatus = async () => {
+    try {
+      setPickupBoardStatus(await getPickupBoardStatus());
+    } catch (err: any) {
+      console.error('Error loading pickup board status:', err);
+    }
+  };
+
+  const loadOverrideLog = async () => {
+    try {
+      setOverrideLog(await getOverrides(100));
+    } catch (err: any) {
+      console.error('Error loading override log:', err);
+    }
+  };
+
+  const handleToggleOverrideAction = (action: OverrideAction, checked: boolean) => {
+    const actions = getSettingValue('override_actions').split(',').filter(Boolean);
+    const next = checked ? [...actions.filter(a => a !== action), action] : actions.filter(a => a !== action);
+    handleSettingChange('override_actions', next.join(','));
+  };
+
+  const handleSaveSecuritySettings = async () => {
+    const discountThreshold = parseFloat(getSettingValue('override_discount_threshold') || '0');
+    const priceThreshold = parseFloat(getSettingValue('override_price_threshold') || '0');
+    if (isNaN(discountThreshold) || discountThreshold < 0 || discountThreshold > 100) {
+      setError('Discount threshold must be between 0 and 100');
+      return;
+    }
+    if (isNaN(priceThreshold) || priceThreshold < 0) {
+      setError('Price change threshold cannot be negative');
+      return;
+    }
+    try {
+      await updateSettings([
+        { key: 'override_actions', value: getSettingValue('override_actions') },
+        { key: 'override_discount_threshold', value: String(discountThreshold) },
+        { key: 'override_price_threshold', value: String(priceThreshold) },
+      ]);
+      setError(null);
+      alert('Security settings saved!');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save security settings');
+    }
+  };
+
+  const handleSaveMyPin = async () => {
+    if (!currentUser?.id) return;
+    try {
+      await setUserPin(currentUser.id, myPin.trim() || null);
+      setMyPin('');
+      await loadData();
+      alert(myPin.trim() ? 'Manager PIN saved!' : 'Manager PIN removed');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save manager PIN');
+    }
+  };
+
+  const handleSaveTaxSettings = async () => {
+    const rate = parseFloat(getSettingValue('tax_rate'));
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      setError('Standard tax rate must be between 0 and 100');
+      return;
+    }
+    try {
+      await updateSettings([
+        { key: 'tax_rate', value: String(rate) },
+        { key: 'tax_mode', value: getSettingValue('tax_mode') || 'exclusive' },
+      ]);
+      setError(null);
+      alert('Tax settings saved!');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save tax settings');
+    }
+  };
+
+  const handleOpenTaxClassDialog = (taxClass?: TaxClass) => {
+    setEditingTaxClass(taxClass || null);
+    setTaxClassForm({
+      name: taxClass?.name || '',
+      rate: taxClass ? String(taxClass.rate) : '',
+      description: taxClass?.description || '',
+    });
+    setOpenTaxClassDialog(true);
+  };
+
+  const handleCloseTaxClassDialog = () => {
+    setOpenTaxClassDialog(false);
+    setEditingTaxClass(null);
+    setTaxClassForm({ name: '', rate: '', description: '' });
+  };
+
+  const handleSaveTaxClass = async () => {
+    try {
+      if (!taxClassForm.name.trim()) {
+        setError('Tax class name is required');
+        return;
+      }
+      const rate = parseFloat(taxClassForm.rate);
+      if (isNaN(rate) || rate < 0 || rate > 100) {
+        setError('Tax rate must be between 0 and 100');
+        return;
+      }
+
+      const data = {
+        name: taxClassForm.name.trim(),
+        rate,
+        description: taxClassForm.description.trim() || undefined,
+      };
+      if (editingTaxClass) {
+        await updateTaxClass(editingTaxClass.id!, data);
+      } else {
+        await addTaxClass(data);
+      }
+
+      await loadTaxClasses();
+      handleCloseTaxClassDialog();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save tax class');
+      console.error(err);
+    }
+  };
+
+  const handleDeleteTaxClass = async (taxClass: TaxClass) => {
+    if (!window.confirm(`Delete tax class "${taxClass.name}"? Items and categories using it will be charged the standard rate.`)) {
+      return;
+    }
+    try {
+      await deleteTaxClass(taxClass.id!);
+      await loadTaxClasses();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete tax class');
+      console.error(err);
+    }
+  };
+
+  const handleSaveKitchenSettings = async () => {
+    const warning = parseInt(getSettingValue('kds_warning_minutes'), 10);
+    const critical = parseInt(getSettingValue('kds_critical_minutes'), 10);
+    if (isNaN(warning) || isNaN(critical) || warning < 1 || critical <= warning) {
+      setError('Ticket warning must be at least 1 minute and shorter than the critical time');
+      return;
+    }
+    try {
+      await updateSettings([
+        { key: 'kitchen_expo_ticket', value: getSettingValue('kitchen_expo_ticket') === 'false' ? 'false' : 'true' },
+        { key: 'kitchen_expo_printer', value: getSettingValue('kitchen_expo_printer').trim() },
+        { key: 'kds_warning_minutes', value: String(warning) },
+        { key: 'kds_critical_minutes', value: String(critical) },
+      ]);
+      setError(null);
+      alert('Kitchen settings saved!');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save kitchen settings');
+    }
+  };
+
+  const handleSavePickupBoard = async () => {
+    const readyMinutes = parseInt(getSettingValue('pickup_board_ready_minutes'), 10);
+    if (isNaN(readyMinutes) || readyMinutes < 1) {
+      setError('Ready orders must stay on the board for at least 1 minute');
+      return;
+    }
+    try {
+      await updateSettings([
+        { key: 'pickup_board_enabled', value: getSettingValue('pickup_board_enabled') === 'true' ? 'true' : 'false' },
+        { key: 'pickup_board_network', value: getSettingValue('pickup_board_network') === 'true' ? 'true' : 'false' },
+        { key: 'pickup_board_ready_minutes', value: String(readyMinutes) },
+      ]);
+      const status = await restartPickupBoard();
+      setPickupBoardStatus(status);
+      setError(status.error);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save pickup board settings');
+    }
+  };
+
+  const handleOpenStationDialog = (station?: PrepStation) => {
+    setEditingStation(station || null);
+    setStationForm({
+      name: station?.name || '',
+      printer_name: station?.printer_name || '',
+      show_on_kds: station ? !!station.show_on_kds : true,
+      category_ids: station?.category_ids || [],
+      menu_item_ids: station?.menu_item_ids || [],
+    });
+    setOpenStationDialog(true);
+  };
+
+  const handleCloseStationDialog = () => {
+    setOpenStationDialog(false);
+    setEditingStation(null);
+    setStationForm({ name: '', printer_name: '', show_on_kds: true, category_ids: [], menu_item_ids: [] });
+  };
+
+  const handleSaveStation = async () => {
+    try {
+      if (!stationForm.name.trim()) {
+        setError('Station name is required');
+        return;
+      }
+
+      const data = {
+        name: stationForm.name.trim(),
+        printer_name: stationForm.printer_name.trim() || null,
+        show_on_kds: stationForm.show_on_kds,
+        display_order: editingStation?.display_order ?? prepStations.length,
+        category_ids: stationForm.category_ids,
+        menu_item_ids: stationForm.menu_item_ids,
+      };
+      if (editingStation) {
+        await updatePrepStation(editingStation.id!, data);
+      } else {
+        await addPrepStation(data);
+      }
+
+      await loadPrepStations();
+      handleCloseStationDialog();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save prep station');
+      console.error(err);
+    }
+  };
+
+  const handleDeleteStation = async (station: PrepStation) => {
+    if (!window.confirm(`Delete prep station "${station.name}"? Its items will only be printed on the expo ticket.`)) {
+      return;
+    }
+    try {
+      await deletePrepStation(station.id!);
+      await loadPrepStations();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete prep station');
+      console.error(err);
+    }
+  };
+
+  // Another station already claims this category or item
+  const stationNameOf = (field: 'category_ids' | 'menu_item_ids', id: number) =>
+    prepStations.find(station => station.id !== editingStation?.id && station[field].includes(id))?.name;
+
   const handleSaveSyncConfig = async () => {
     try {
       await updateSettings([
@@ -255,6 +574,7 @@ function Settings() {
         role: user.role,
         full_name: user.full_name || '',
         email: user.email || '',
+        pin: '',
       });
     } else {
       setEditingUser(null);
@@ -264,6 +584,7 @@ function Settings() {
         role: 'cashier',
         full_name: '',
         email: '',
+        pin: '',
       });
     }
     setOpenUserDialog(true);
@@ -278,6 +599,7 @@ function Settings() {
       role: 'cashier',
       full_name: '',
       email: '',
+      pin: '',
     });
   };
 
@@ -293,6 +615,11 @@ function Settings() {
         return;
       }
 
+      if (userForm.role === 'admin' && userForm.pin && !/^\d{4,8}$/.test(userForm.pin)) {
+        setError('Manager PIN must be 4 to 8 digits');
+        return;
+      }
+
       if (editingUser) {
         const updateData: any = {
           role: userForm.role,
@@ -303,8 +630,14 @@ function Settings() {
           updateData.password_hash = userForm.password;
         }
         await updateUser(editingUser.id!, updateData);
+        // A user who is no longer an admin can't approve overrides
+        if (userForm.role === 'admin' && userForm.pin.trim()) {
+          await setUserPin(editingUser.id!, userForm.pin.trim());
+        } else if (userForm.role !== 'admin' && editingUser.has_pin) {
+          await setUserPin(editingUser.id!, null);
+        }
       } else {
-        await createUser({
+        const result = await createUser({
           username: userForm.username,
           password_hash: userForm.password,
           role: userForm.role,
@@ -312,6 +645,9 @@ function Settings() {
           email: userForm.email || undefined,
           is_active: 1,
         });
+        if (userForm.role === 'admin' && userForm.pin.trim()) {
+          await setUserPin(result.lastInsertRowid, userForm.pin.trim());
+        }
       }
 
       await loadData();
@@ -358,8 +694,13 @@ function Settings() {
     setSettings(prev => prev.map(s => s.key === key ? { ...s, value } : s));
   };
 
+  const getSettingValue = (key: string) => settings.find(s => s.key === key)?.value || '';
+
+  // Tax settings have their own tab
+  const TAX_SETTING_KEYS = ['tax_rate', 'tax_mode'];
+
   const groupedSettings = settings
-    .filter((s) => (s.category || 'general') !== 'sync')
+    .filter((s) => !['sync', 'security', 'kitchen'].includes(s.category || 'general') && !TAX_SETTING_KEYS.includes(s.key))
     .reduce((acc, setting) => {
       const category = setting.category || 'general';
       if (!acc[category]) {
@@ -399,6 +740,11 @@ function Settings() {
           <Tab label="Users" />
           <Tab label="System Settings" />
           <Tab label="Cloud Sync" />
+          <Tab label="Tax" />
+          <Tab label="Security" />
+          <Tab label="Kitchen" />
+          <Tab label="Printers" />
+          <Tab label="Receipts" />
         </Tabs>
 
         <Box sx={{ flex: 1, overflow: 'auto' }}>
@@ -426,6 +772,7 @@ function Settings() {
                         <TableCell>Full Name</TableCell>
                         <TableCell>Email</TableCell>
                         <TableCell>Role</TableCell>
+                        <TableCell>Manager PIN</TableCell>
                         <TableCell>Status</TableCell>
                         <TableCell>Last Login</TableCell>
                         <TableCell align="right">Actions</TableCell>
@@ -445,6 +792,9 @@ function Settings() {
                               sx={{ textTransform: 'capitalize' }}
                             />
                           </TableCell>
+                          <TableCell>
+                            {user.role === 'admin' ? (user.has_pin ? 'Set' : 'Not set') : '-'}
+                          </TableCell>
                           <TableCell>
                             <Chip
                               label={user.is_active ? 'Active' : 'Inactive'}
@@ -638,9 +988,563 @@ function Settings() {
               </CardContent>
             </Card>
           </TabPanel>
+
+          <TabPanel value={tabValue} index={3}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                    Tax
+                  </Typography>
+                  <Button variant="contained" onClick={handleSaveTaxSettings}>
+                    Save Tax Settings
+                  </Button>
+                </Box>
+
+                <Grid container spacing={2}>
+                  <Grid item xs={12} sm={6} md={4}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Menu Prices</InputLabel>
+                      <Select
+                        value={getSettingValue('tax_mode') || 'exclusive'}
+                        label="Menu Prices"
+                        onChange={(e) => handleSettingChange('tax_mode', e.target.value)}
+                      >
+                        <MenuItem value="exclusive">Exclude tax (added at checkout)</MenuItem>
+                        <MenuItem value="inclusive">Include tax</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={4}>
+                    <TextField
+                      label="Standard Tax Rate (%)"
+                      type="number"
+                      value={getSettingValue('tax_rate')}
+                      onChange={(e) => handleSettingChange('tax_rate', e.target.value)}
+                      inputProps={{ min: 0, max: 100, step: 0.01 }}
+                      fullWidth
+                      size="small"
+                      helperText="Used for items and categories without a tax class"
+                    />
+                  </Grid>
+                </Grid>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Box>
+                    <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                      Tax Classes
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Assign a class to a category or menu item to charge a different rate (e.g. zero-rated goods)
+                    </Typography>
+                  </Box>
+                  <Button
+                    variant="contained"
+                    startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+                    onClick={() => handleOpenTaxClassDialog()}
+                  >
+                    Add Tax Class
+                  </Button>
+                </Box>
+
+                {taxClasses.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No tax classes yet. Everything is charged the standard rate.
+                  </Typography>
+                ) : (
+                  <TableContainer>
+                    <Table>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Name</TableCell>
+                          <TableCell>Rate</TableCell>
+                          <TableCell>Description</TableCell>
+                          <TableCell align="right">Actions</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {taxClasses.map((taxClass) => (
+                          <TableRow key={taxClass.id}>
+                            <TableCell sx={{ fontWeight: 600 }}>{taxClass.name}</TableCell>
+                            <TableCell>{taxClass.rate}%</TableCell>
+                            <TableCell>{taxClass.description || '-'}</TableCell>
+                            <TableCell align="right">
+                              <IconButton size="small" onClick={() => handleOpenTaxClassDialog(taxClass)}>
+                                <PencilIcon style={{ width: 18, height: 18 }} />
+                              </IconButton>
+                              <IconButton size="small" onClick={() => handleDeleteTaxClass(taxClass)} color="error">
+                                <TrashIcon style={{ width: 18, height: 18 }} />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </CardContent>
+            </Card>
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={4}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Box>
+                    <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                      Manager Override
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      When a cashier attempts a checked action, an admin enters their PIN on the same terminal to approve it
+                    </Typography>
+                  </Box>
+                  <Button variant="contained" onClick={handleSaveSecuritySettings}>
+                    Save Security Settings
+                  </Button>
+                </Box>
+
+                <Grid container spacing={2}>
+                  <Grid item xs={12} md={6}>
+                    {(Object.keys(OVERRIDE_ACTION_LABELS) as OverrideAction[]).map((action) => (
+                      <FormControlLabel
+                        key={action}
+                        sx={{ display: 'flex' }}
+                        control={
+                          <Checkbox
+                            checked={getSettingValue('override_actions').split(',').includes(action)}
+                            onChange={(e) => handleToggleOverrideAction(action, e.target.checked)}
+                          />
+                        }
+                        label={OVERRIDE_ACTION_LABELS[action]}
+                      />
+                    ))}
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                      <TextField
+                        label="Discount threshold (%)"
+                        type="number"
+                        value={getSettingValue('override_discount_threshold')}
+                        onChange={(e) => handleSettingChange('override_discount_threshold', e.target.value)}
+                        inputProps={{ min: 0, max: 100, step: 0.1 }}
+                        fullWidth
+                        size="small"
+                        helperText="Manual discounts above this share of the subtotal need a PIN"
+                      />
+                      <TextField
+                        label="Price change threshold (%)"
+                        type="number"
+                        value={getSettingValue('override_price_threshold')}
+                        onChange={(e) => handleSettingChange('override_price_threshold', e.target.value)}
+                        inputProps={{ min: 0, step: 0.1 }}
+                        fullWidth
+                        size="small"
+                        helperText="0 means any price change needs a PIN"
+                      />
+                    </Box>
+                  </Grid>
+                </Grid>
+
+                {currentUser?.role === 'admin' && (
+                  <>
+                    <Divider sx={{ my: 3 }} />
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2 }}>
+                      Your Manager PIN
+                    </Typography>
+                    <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+                      <TextField
+                        label="New PIN"
+                        type="password"
+                        value={myPin}
+                        onChange={(e) => setMyPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                        inputProps={{ inputMode: 'numeric', autoComplete: 'new-password' }}
+                        size="small"
+                        helperText={`4-8 digits. ${users.find(u => u.id === currentUser.id)?.has_pin ? 'Leave blank and save to remove it.' : 'No PIN set yet.'}`}
+                      />
+                      <Button variant="outlined" onClick={handleSaveMyPin}>
+                        Save PIN
+                      </Button>
+                    </Box>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent>
+                <Typography variant="h6" sx={{ fontWeight: 700, mb: 3 }}>
+                  Override Log
+                </Typography>
+                {overrideLog.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No overrides recorded yet.
+                  </Typography>
+                ) : (
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Date</TableCell>
+                          <TableCell>Action</TableCell>
+                          <TableCell>Order</TableCell>
+                          <TableCell>Details</TableCell>
+                          <TableCell>Requested By</TableCell>
+                          <TableCell>Approved By</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {overrideLog.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell>{entry.created_at ? new Date(entry.created_at).toLocaleString() : '-'}</TableCell>
+                            <TableCell>{OVERRIDE_ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                            <TableCell>{entry.order_number || '-'}</TableCell>
+                            <TableCell>{entry.details || '-'}</TableCell>
+                            <TableCell>{entry.requested_by_name || entry.requested_by_username || '-'}</TableCell>
+                            <TableCell>{entry.approved_by_name || entry.approved_by_username || '-'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </CardContent>
+            </Card>
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={5}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                    Kitchen Tickets
+                  </Typography>
+                  <Button variant="contained" onClick={handleSaveKitchenSettings}>
+                    Save Kitchen Settings
+                  </Button>
+                </Box>
+
+                <Grid container spacing={2}>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={getSettingValue('kitchen_expo_ticket') !== 'false'}
+                          onChange={(e) => handleSettingChange('kitchen_expo_ticket', e.target.checked ? 'true' : 'false')}
+                        />
+                      }
+                      label="Print expo ticket"
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <TextField
+                      label="Expo Printer"
+                      value={getSettingValue('kitchen_expo_printer')}
+                      onChange={(e) => handleSettingChange('kitchen_expo_printer', e.target.value)}
+                      fullWidth
+                      size="small"
+                      helperText="Blank = the kitchen printer from the Printers tab"
+                      disabled={getSettingValue('kitchen_expo_ticket') === 'false'}
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <TextField
+                      label="Ticket Warning (minutes)"
+                      type="number"
+                      value={getSettingValue('kds_warning_minutes')}
+                      onChange={(e) => handleSettingChange('kds_warning_minutes', e.target.value)}
+                      inputProps={{ min: 1 }}
+                      fullWidth
+                      size="small"
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <TextField
+                      label="Ticket Critical (minutes)"
+                      type="number"
+                      value={getSettingValue('kds_critical_minutes')}
+                      onChange={(e) => handleSettingChange('kds_critical_minutes', e.target.value)}
+                      inputProps={{ min: 1 }}
+                      fullWidth
+                      size="small"
+                    />
+                  </Grid>
+                </Grid>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Box>
+                    <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                      Prep Stations
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Send each category or menu item to the station that makes it; a menu item's station wins over its category's
+                    </Typography>
+                  </Box>
+                  <Button
+                    variant="contained"
+                    startIcon={<PlusIcon style={{ width: 18, height: 18 }} />}
+                    onClick={() => handleOpenStationDialog()}
+                  >
+                    Add Station
+                  </Button>
+                </Box>
+
+                {prepStations.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No prep stations yet. Kitchen tickets print whole on the kitchen printer.
+                  </Typography>
+                ) : (
+                  <TableContainer>
+                    <Table>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Name</TableCell>
+                          <TableCell>Printer</TableCell>
+                          <TableCell>Kitchen Display</TableCell>
+                          <TableCell>Routed</TableCell>
+                          <TableCell align="right">Actions</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {prepStations.map((station) => (
+                          <TableRow key={station.id}>
+                            <TableCell sx={{ fontWeight: 600 }}>{station.name}</TableCell>
+                            <TableCell>{station.printer_name || 'Display only'}</TableCell>
+                            <TableCell>
+                              <Chip
+                                label={station.show_on_kds ? 'Shown' : 'Hidden'}
+                                size="small"
+                                color={station.show_on_kds ? 'success' : 'default'}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              {station.category_ids.length} categor{station.category_ids.length === 1 ? 'y' : 'ies'},{' '}
+                              {station.menu_item_ids.length} item{station.menu_item_ids.length === 1 ? '' : 's'}
+                            </TableCell>
+                            <TableCell align="right">
+                              <IconButton size="small" onClick={() => handleOpenStationDialog(station)}>
+                                <PencilIcon style={{ width: 18, height: 18 }} />
+                              </IconButton>
+                              <IconButton size="small" onClick={() => handleDeleteStation(station)} color="error">
+                                <TrashIcon style={{ width: 18, height: 18 }} />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card sx={{ mt: 3 }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+                  <Box>
+                    <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                      Pickup Board
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Now Preparing / Ready for Pickup by pickup number, for a TV or laptop on the same network
+                    </Typography>
+                  </Box>
+                  <Button variant="contained" onClick={handleSavePickupBoard}>
+                    Save Pickup Board
+                  </Button>
+                </Box>
+
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                  <Grid item xs={12} sm={6} md={4}>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={getSettingValue('pickup_board_enabled') === 'true'}
+                          onChange={(e) => handleSettingChange('pickup_board_enabled', e.target.checked ? 'true' : 'false')}
+                        />
+                      }
+                      label="Serve the pickup board from this till"
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={4}>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={getSettingValue('pickup_board_network') === 'true'}
+                          disabled={getSettingValue('pickup_board_enabled') !== 'true'}
+                          onChange={(e) => handleSettingChange('pickup_board_network', e.target.checked ? 'true' : 'false')}
+                        />
+                      }
+                      label="Let other devices on the network open it"
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={4}>
+                    <TextField
+                      label="Ready Orders Stay (minutes)"
+                      type="number"
+                      value={getSettingValue('pickup_board_ready_minutes')}
+                      onChange={(e) => handleSettingChange('pickup_board_ready_minutes', e.target.value)}
+                      inputProps={{ min: 1 }}
+                      fullWidth
+                      size="small"
+                      helperText="Collected (completed) orders leave straight away"
+                    />
+                  </Grid>
+                </Grid>
+
+                {pickupBoardStatus?.running ? (
+                  <Alert severity="success">
+                    Open {pickupBoardStatus.urls.length > 0 ? pickupBoardStatus.urls.join(' or ') : `port ${pickupBoardStatus.port} of this till, at /pickup,`} in the TV's browser.
+                  </Alert>
+                ) : (
+                  <Alert severity={pickupBoardStatus?.error ? 'error' : 'info'}>
+                    {pickupBoardStatus?.error || 'The pickup board is off on this till.'}
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={6}>
+            <PrinterSettings />
+            <LabelSizeSettings />
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={7}>
+            <PrintTemplateEditor />
+          </TabPanel>
         </Box>
       </Box>
 
+      {/* Tax Class Dialog */}
+      <Dialog open={openTaxClassDialog} onClose={handleCloseTaxClassDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>{editingTaxClass ? 'Edit Tax Class' : 'Add Tax Class'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={taxClassForm.name}
+              onChange={(e) => setTaxClassForm({ ...taxClassForm, name: e.target.value })}
+              fullWidth
+              required
+            />
+            <TextField
+              label="Rate (%)"
+              type="number"
+              value={taxClassForm.rate}
+              onChange={(e) => setTaxClassForm({ ...taxClassForm, rate: e.target.value })}
+              inputProps={{ min: 0, max: 100, step: 0.01 }}
+              fullWidth
+              required
+            />
+            <TextField
+              label="Description"
+              value={taxClassForm.description}
+              onChange={(e) => setTaxClassForm({ ...taxClassForm, description: e.target.value })}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseTaxClassDialog}>Cancel</Button>
+          <Button onClick={handleSaveTaxClass} variant="contained">
+            {editingTaxClass ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Prep Station Dialog */}
+      <Dialog open={openStationDialog} onClose={handleCloseStationDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingStation ? 'Edit Prep Station' : 'Add Prep Station'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={stationForm.name}
+              onChange={(e) => setStationForm({ ...stationForm, name: e.target.value })}
+              fullWidth
+              required
+              placeholder="e.g. Coffee Bar"
+            />
+            <TextField
+              label="Printer Name"
+              value={stationForm.printer_name}
+              onChange={(e) => setStationForm({ ...stationForm, printer_name: e.target.value })}
+              fullWidth
+              helperText="A printer from the Printers tab, or one listed by the operating system. Blank = no printed ticket, the station works from its kitchen display"
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={stationForm.show_on_kds}
+                  onChange={(e) => setStationForm({ ...stationForm, show_on_kds: e.target.checked })}
+                />
+              }
+              label="Has its own kitchen display view"
+            />
+            <FormControl fullWidth>
+              <InputLabel>Categories</InputLabel>
+              <Select
+                multiple
+                value={stationForm.category_ids}
+                label="Categories"
+                onChange={(e) => setStationForm({ ...stationForm, category_ids: e.target.value as number[] })}
+                renderValue={(ids) => stationCategories.filter(c => ids.includes(c.id!)).map(c => c.name).join(', ')}
+              >
+                {stationCategories.map((category) => (
+                  <MenuItem key={category.id} value={category.id}>
+                    <Checkbox checked={stationForm.category_ids.includes(category.id!)} size="small" />
+                    {category.name}
+                    {stationNameOf('category_ids', category.id!) && (
+                      <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        (now {stationNameOf('category_ids', category.id!)})
+                      </Typography>
+                    )}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Menu Items</InputLabel>
+              <Select
+                multiple
+                value={stationForm.menu_item_ids}
+                label="Menu Items"
+                onChange={(e) => setStationForm({ ...stationForm, menu_item_ids: e.target.value as number[] })}
+                renderValue={(ids) => stationMenuItems.filter(m => ids.includes(m.id!)).map(m => m.name).join(', ')}
+                MenuProps={{ PaperProps: { sx: { maxHeight: 360 } } }}
+              >
+                {stationMenuItems.map((item) => (
+                  <MenuItem key={item.id} value={item.id}>
+                    <Checkbox checked={stationForm.menu_item_ids.includes(item.id!)} size="small" />
+                    {item.name}
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                      {stationNameOf('menu_item_ids', item.id!) ? `(now ${stationNameOf('menu_item_ids', item.id!)})` : item.category}
+                    </Typography>
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Typography variant="caption" color="text.secondary">
+              Pick menu items only when they are made somewhere other than the rest of their category.
+            </Typography>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseStationDialog}>Cancel</Button>
+          <Button onClick={handleSaveStation} variant="contained">
+            {editingStation ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* User Dialog */}
       <Dialog open={openUserDialog} onClose={handleCloseUserDialog} maxWidth="sm" fullWidth>
         <DialogTitle>{editingUser ? 'Edit User' : 'Add User'}</DialogTitle>
@@ -673,6 +1577,17 @@ function Settings() {
                 <MenuItem value="cashier">Cashier</MenuItem>
               </Select>
             </FormControl>
+            {userForm.role === 'admin' && (
+              <TextField
+                label={editingUser?.has_pin ? 'New Manager PIN (leave blank to keep current)' : 'Manager PIN'}
+                type="password"
+                value={userForm.pin}
+                onChange={(e) => setUserForm({ ...userForm, pin: e.target.value.replace(/\D/g, '').slice(0, 8) })}
+                inputProps={{ inputMode: 'numeric', autoComplete: 'new-password' }}
+                helperText="4-8 digits, used to approve cashier overrides"
+                fullWidth
+              />
+            )}
             <TextField
               label="Full Name"
               value={userForm.full_name}
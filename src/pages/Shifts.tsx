@@ -0,0 +1,392 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Alert,
+  Divider,
+} from '@mui/material';
+import {
+  BanknotesIcon,
+  CalendarIcon,
+  PrinterIcon,
+} from '@heroicons/react/24/outline';
+import {
+  getShifts,
+  getShiftSummary,
+  Shift,
+  ShiftSummary,
+} from '../utils/database';
+import PageHeader from '../components/Layout/PageHeader';
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  paid_in: 'Paid In',
+  paid_out: 'Paid Out',
+  refund: 'Cash Refund',
+};
+
+function Shifts() {
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSummary, setSelectedSummary] = useState<ShiftSummary | null>(null);
+  const [openDetailsDialog, setOpenDetailsDialog] = useState(false);
+
+  useEffect(() => {
+    loadShifts();
+  }, []);
+
+  const loadShifts = async () => {
+    try {
+      setLoading(true);
+      const allShifts = await getShifts(200);
+      setShifts(allShifts);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load shifts');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleViewDetails = async (shift: Shift) => {
+    try {
+      const summary = await getShiftSummary(shift.id!);
+      setSelectedSummary(summary);
+      setOpenDetailsDialog(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load shift details');
+      console.error(err);
+    }
+  };
+
+  const handlePrintZReport = async (summary: ShiftSummary) => {
+    try {
+      await window.electronAPI.print.zReport(summary);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to print Z-report');
+      console.error(err);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'SLE',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  };
+
+  const getOverShortColor = (overShort?: number) => {
+    if (overShort === undefined || overShort === null) return 'text.secondary';
+    if (Math.abs(overShort) < 0.005) return 'success.main';
+    return 'error.main';
+  };
+
+  const renderLine = (label: string, value: string, bold = false) => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+      <Typography variant="body2" color={bold ? 'text.primary' : 'text.secondary'} sx={{ fontSize: '0.8rem', fontWeight: bold ? 700 : 400 }}>
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ fontSize: '0.8rem', fontWeight: bold ? 700 : 600 }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <PageHeader
+        title="Shifts"
+        subtitle="Cash drawer sessions, cash-ups and Z-reports"
+        breadcrumbs={[
+          { label: 'Home', path: '/pos' },
+          { label: 'Shifts' },
+        ]}
+      />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ flex: 1, overflow: 'auto', pr: 1 }}>
+        {shifts.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              py: 8,
+              gap: 2,
+            }}
+          >
+            <BanknotesIcon style={{ width: 64, height: 64, opacity: 0.3 }} />
+            <Typography variant="h6" color="text.secondary">
+              No shifts yet
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Shifts are opened from the POS screen
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {shifts.map((shift) => (
+              <Card
+                key={shift.id}
+                sx={{
+                  transition: 'all 0.2s ease-in-out',
+                  border: (theme) =>
+                    `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)'}`,
+                  cursor: 'pointer',
+                  '&:hover': {
+                    borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.3)' : 'rgba(0, 0, 0, 0.2)',
+                  },
+                }}
+                onClick={() => handleViewDetails(shift)}
+              >
+                <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ minWidth: 160 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 700, fontSize: '0.95rem' }}>
+                        Shift #{shift.id}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', fontStyle: 'italic' }}>
+                        Cashier: {shift.full_name || shift.username || 'Unknown'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.25 }}>
+                        <CalendarIcon style={{ width: 12, height: 12, opacity: 0.6 }} />
+                        {formatDate(shift.opened_at)}
+                        {shift.closed_at && ` – ${formatDate(shift.closed_at)}`}
+                      </Typography>
+                    </Box>
+
+                    <Chip
+                      label={shift.status === 'open' ? 'Open' : 'Closed'}
+                      color={shift.status === 'open' ? 'primary' : 'default'}
+                      size="small"
+                    />
+
+                    <Box sx={{ minWidth: 100 }}>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                        Float
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {formatCurrency(shift.opening_float || 0)}
+                      </Typography>
+                    </Box>
+
+                    {shift.status === 'closed' && (
+                      <>
+                        <Box sx={{ minWidth: 100 }}>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                            Expected
+                          </Typography>
+                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                            {formatCurrency(shift.expected_cash || 0)}
+                          </Typography>
+                        </Box>
+                        <Box sx={{ minWidth: 100 }}>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                            Counted
+                          </Typography>
+                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                            {formatCurrency(shift.counted_cash || 0)}
+                          </Typography>
+                        </Box>
+                      </>
+                    )}
+
+                    {shift.status === 'closed' && (
+                      <Box sx={{ ml: 'auto', textAlign: 'right', minWidth: 100 }}>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                          Over / Short
+                        </Typography>
+                        <Typography variant="body1" sx={{ fontWeight: 700, color: getOverShortColor(shift.over_short) }}>
+                          {formatCurrency(shift.over_short || 0)}
+                        </Typography>
+                      </Box>
+                    )}
+                  </Box>
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      {/* Shift Details Dialog */}
+      <Dialog
+        open={openDetailsDialog}
+        onClose={() => setOpenDetailsDialog(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle sx={{ fontWeight: 700 }}>
+          Shift #{selectedSummary?.shift.id}
+        </DialogTitle>
+        <DialogContent>
+          {selectedSummary && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Box>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                  Information
+                </Typography>
+                {renderLine('Opened by', selectedSummary.shift.full_name || selectedSummary.shift.username || 'Unknown')}
+                {renderLine('Opened', formatDate(selectedSummary.shift.opened_at))}
+                {selectedSummary.shift.status === 'closed' && (
+                  <>
+                    {renderLine('Closed by', selectedSummary.shift.closed_by_name || selectedSummary.shift.closed_by_username || 'Unknown')}
+                    {renderLine('Closed', formatDate(selectedSummary.shift.closed_at))}
+                  </>
+                )}
+              </Box>
+
+              <Divider />
+
+              <Box>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                  Sales
+                </Typography>
+                {renderLine('Orders', String(selectedSummary.order_count))}
+                {renderLine('Sales total', formatCurrency(selectedSummary.sales_total))}
+                {selectedSummary.discount_total > 0 && renderLine('Discounts', formatCurrency(selectedSummary.discount_total))}
+                {selectedSummary.tax_total > 0 && renderLine('Tax', formatCurrency(selectedSummary.tax_total))}
+                {selectedSummary.refund_total > 0 && renderLine('Refunds', `-${formatCurrency(selectedSummary.refund_total)}`)}
+                {selectedSummary.void_count > 0 && renderLine('Voids', String(selectedSummary.void_count))}
+                {selectedSummary.tenders.map((tender) => (
+                  <Box key={tender.payment_method}>
+                    {renderLine(
+                      `${tender.payment_method.charAt(0).toUpperCase() + tender.payment_method.slice(1)} (${tender.payment_count})`,
+                      formatCurrency(tender.total_amount)
+                    )}
+                  </Box>
+                ))}
+              </Box>
+
+              <Divider />
+
+              <Box>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                  Cash Drawer
+                </Typography>
+                {renderLine('Opening float', formatCurrency(selectedSummary.shift.opening_float || 0))}
+                {renderLine('Cash sales', formatCurrency(selectedSummary.cash_sales))}
+                {renderLine('Paid in', formatCurrency(selectedSummary.paid_in))}
+                {renderLine('Paid out', formatCurrency(-selectedSummary.paid_out))}
+                {renderLine('Cash refunds', formatCurrency(-selectedSummary.cash_refunds))}
+                {renderLine('Expected cash', formatCurrency(selectedSummary.expected_cash), true)}
+                {selectedSummary.shift.status === 'closed' && (
+                  <>
+                    {renderLine('Counted cash', formatCurrency(selectedSummary.counted_cash || 0), true)}
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <Typography variant="body2" sx={{ fontSize: '0.8rem', fontWeight: 700 }}>
+                        Over / Short
+                      </Typography>
+                      <Typography variant="body2" sx={{ fontSize: '0.8rem', fontWeight: 700, color: getOverShortColor(selectedSummary.over_short) }}>
+                        {formatCurrency(selectedSummary.over_short || 0)}
+                      </Typography>
+                    </Box>
+                  </>
+                )}
+              </Box>
+
+              {selectedSummary.shift.denominations && selectedSummary.shift.denominations.some(d => d.count > 0) && (
+                <>
+                  <Divider />
+                  <Box>
+                    <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                      Denomination Count
+                    </Typography>
+                    {selectedSummary.shift.denominations
+                      .filter(d => d.count > 0)
+                      .map((d) => (
+                        <Box key={d.denomination}>
+                          {renderLine(`${d.count} x ${d.denomination}`, formatCurrency(d.count * d.denomination))}
+                        </Box>
+                      ))}
+                  </Box>
+                </>
+              )}
+
+              {selectedSummary.movements.length > 0 && (
+                <>
+                  <Divider />
+                  <Box>
+                    <Typography variant="caption" sx={{ fontWeight: 700, color: 'text.secondary', fontSize: '0.7rem', textTransform: 'uppercase' }}>
+                      Cash Movements ({selectedSummary.movements.length})
+                    </Typography>
+                    {selectedSummary.movements.map((movement) => (
+                      <Box key={movement.id} sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                        <Box>
+                          <Typography variant="body2" sx={{ fontSize: '0.8rem' }}>
+                            {MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}
+                            {movement.order_number && ` · ${movement.order_number}`}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
+                            {movement.reason || 'No reason'} · {movement.full_name || movement.username || 'Unknown'}
+                          </Typography>
+                        </Box>
+                        <Typography variant="body2" sx={{ fontSize: '0.8rem', fontWeight: 600 }}>
+                          {formatCurrency(movement.movement_type === 'paid_in' ? movement.amount : -movement.amount)}
+                        </Typography>
+                      </Box>
+                    ))}
+                  </Box>
+                </>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {selectedSummary && selectedSummary.shift.status === 'closed' && (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<PrinterIcon style={{ width: 18, height: 18 }} />}
+              onClick={() => handlePrintZReport(selectedSummary)}
+            >
+              Print Z-Report
+            </Button>
+          )}
+          <Button onClick={() => setOpenDetailsDialog(false)} variant="outlined" size="small">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default Shifts;
@@ -19,12 +19,20 @@ import {
   Alert,
   CircularProgress,
   Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   PlusIcon,
   PencilIcon,
   TrashIcon,
   TableCellsIcon,
+  Squares2X2Icon,
+  MapIcon,
+  ArrowsRightLeftIcon,
+  ArrowsPointingInIcon,
+  ScissorsIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
 import {
   getTables,
@@ -32,12 +40,52 @@ import {
   updateTable,
   deleteTable,
   updateTableStatus,
+  saveTableLayout,
+  getFloorSections,
+  addFloorSection,
+  updateFloorSection,
+  deleteFloorSection,
+  moveTable,
+  mergeTables,
+  getTableTransfers,
   Table,
+  TableTransfer,
+  TableLayout,
+  TableShape,
+  FloorSection,
 } from '../utils/database';
 import PageHeader from '../components/Layout/PageHeader';
+import FloorPlan, { FLOOR_PLAN_WIDTH, FLOOR_PLAN_HEIGHT, formatOccupiedTime } from '../components/FloorPlan';
+import SplitBillDialog from '../components/SplitBillDialog';
+import { useAuth } from '../contexts/AuthContext';
+
+const TABLE_SHAPES: { value: TableShape; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'round', label: 'Round' },
+  { value: 'rectangle', label: 'Rectangle' },
+];
 
 function TableManagement() {
+  const { user, hasRole } = useAuth();
+  const isAdmin = hasRole('admin');
   const [tables, setTables] = useState<Table[]>([]);
+  const [sections, setSections] = useState<FloorSection[]>([]);
+  const [view, setView] = useState<'grid' | 'floor'>('floor');
+  const [activeSectionId, setActiveSectionId] = useState<number | null>(null);
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+  // Unsaved floor plan edits, keyed by table ID
+  const [layoutDraft, setLayoutDraft] = useState<Record<number, Partial<TableLayout>>>({});
+  const [savingLayout, setSavingLayout] = useState(false);
+  const [sectionDialog, setSectionDialog] = useState<{ open: boolean; section: FloorSection | null; name: string }>({
+    open: false,
+    section: null,
+    name: '',
+  });
+  const [transferDialog, setTransferDialog] = useState<{ action: 'move' | 'merge'; table: Table; targetId: number | '' } | null>(null);
+  const [transferring, setTransferring] = useState(false);
+  const [splitTable, setSplitTable] = useState<Table | null>(null);
+  const [openHistoryDialog, setOpenHistoryDialog] = useState(false);
+  const [transfers, setTransfers] = useState<TableTransfer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [openDialog, setOpenDialog] = useState(false);
@@ -49,6 +97,8 @@ function TableManagement() {
     capacity: 4,
     status: 'available' as 'available' | 'occupied' | 'reserved' | 'cleaning',
     notes: '',
+    section_id: '' as number | '',
+    shape: 'square' as TableShape,
   });
 
   useEffect(() => {
@@ -58,8 +108,9 @@ function TableManagement() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const data = await getTables();
+      const [data, sectionList] = await Promise.all([getTables(), getFloorSections()]);
       setTables(data);
+      setSections(sectionList);
       setError(null);
     } catch (err: any) {
       setError(err.message || 'Failed to load tables');
@@ -78,6 +129,8 @@ function TableManagement() {
         capacity: table.capacity || 4,
         status: table.status || 'available',
         notes: table.notes || '',
+        section_id: table.section_id || '',
+        shape: table.shape || 'square',
       });
     } else {
       setEditingTable(null);
@@ -87,6 +140,8 @@ function TableManagement() {
         capacity: 4,
         status: 'available',
         notes: '',
+        section_id: activeSectionId || sections[0]?.id || '',
+        shape: 'square',
       });
     }
     setOpenDialog(true);
@@ -101,6 +156,8 @@ function TableManagement() {
       capacity: 4,
       status: 'available',
       notes: '',
+      section_id: '',
+      shape: 'square',
     });
   };
 
@@ -118,14 +175,23 @@ function TableManagement() {
           capacity: formData.capacity,
           status: formData.status,
           notes: formData.notes.trim() || undefined,
+          section_id: formData.section_id || null,
+          shape: formData.shape,
         });
       } else {
+        // New tables start in the top-left corner of their section, ready to be dragged into place
         await addTable({
           number: formData.number.trim(),
           name: formData.name.trim() || undefined,
           capacity: formData.capacity,
           status: formData.status,
           notes: formData.notes.trim() || undefined,
+          section_id: formData.section_id || null,
+          shape: formData.shape,
+          width: formData.shape === 'rectangle' ? 140 : 80,
+          height: 80,
+          pos_x: 20,
+          pos_y: 20,
         });
       }
       await loadData();
@@ -144,6 +210,10 @@ function TableManagement() {
 
     try {
       await deleteTable(id);
+      setLayoutDraft(prev => {
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      });
       await loadData();
       setError(null);
     } catch (err: any) {
@@ -163,6 +233,98 @@ function TableManagement() {
     }
   };
 
+  const handleLayoutChange = (id: number, changes: Partial<TableLayout>) => {
+    setLayoutDraft(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleSaveLayout = async () => {
+    try {
+      setSavingLayout(true);
+      const layouts = Object.entries(layoutDraft).map(([id, changes]) => ({ ...changes, id: Number(id) }));
+      setTables(await saveTableLayout(layouts));
+      setLayoutDraft({});
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save floor plan');
+      console.error(err);
+    } finally {
+      setSavingLayout(false);
+    }
+  };
+
+  const handleDiscardLayout = () => {
+    if (!window.confirm('Discard your unsaved floor plan changes?')) return;
+    setLayoutDraft({});
+  };
+
+  const handleSaveSection = async () => {
+    try {
+      if (!sectionDialog.name.trim()) {
+        setError('Section name is required');
+        return;
+      }
+      if (sectionDialog.section) {
+        await updateFloorSection(sectionDialog.section.id!, { name: sectionDialog.name.trim() });
+      } else {
+        const created = await addFloorSection({ name: sectionDialog.name.trim() });
+        setActiveSectionId(created.id ?? null);
+      }
+      setSectionDialog({ open: false, section: null, name: '' });
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save section');
+      console.error(err);
+    }
+  };
+
+  const handleDeleteSection = async (section: FloorSection) => {
+    if (!window.confirm(`Delete the "${section.name}" section? Its tables move to the first section.`)) {
+      return;
+    }
+
+    try {
+      await deleteFloorSection(section.id!);
+      setActiveSectionId(null);
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete section');
+      console.error(err);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!transferDialog || !transferDialog.targetId || !user?.id) return;
+    try {
+      setTransferring(true);
+      if (transferDialog.action === 'move') {
+        await moveTable(transferDialog.table.id!, transferDialog.targetId, user.id);
+        setSelectedTableId(transferDialog.targetId);
+      } else {
+        await mergeTables(transferDialog.table.id!, transferDialog.targetId, user.id);
+      }
+      setTransferDialog(null);
+      await loadData();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || `Failed to ${transferDialog.action} table`);
+      console.error(err);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleOpenHistory = async () => {
+    try {
+      setTransfers(await getTableTransfers());
+      setOpenHistoryDialog(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load table history');
+      console.error(err);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available':
@@ -182,6 +344,11 @@ function TableManagement() {
     ? tables 
     : tables.filter(t => t.status === selectedStatus);
 
+  const planTables = tables.map(t => (layoutDraft[t.id!] ? { ...t, ...layoutDraft[t.id!] } : t));
+  const selectedPlanTable = planTables.find(t => t.id === selectedTableId) || null;
+  const currentSection = sections.find(s => s.id === activeSectionId) || sections[0] || null;
+  const hasLayoutChanges = Object.keys(layoutDraft).length > 0;
+
   if (loading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
@@ -200,20 +367,37 @@ function TableManagement() {
           { label: 'Table Management' },
         ]}
         actions={
-          <Button
-            variant="contained"
-            startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
-            onClick={() => handleOpenDialog()}
-            sx={{
-              backgroundColor: 'primary.main',
-              color: 'primary.contrastText',
-              '&:hover': {
-                backgroundColor: 'primary.dark',
-              },
-            }}
-          >
-            Add Table
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center' }}>
+            <ToggleButtonGroup
+              value={view}
+              exclusive
+              size="small"
+              onChange={(_e, value) => value && setView(value)}
+            >
+              <ToggleButton value="floor" sx={{ px: 1.5, gap: 0.75, textTransform: 'none' }}>
+                <MapIcon style={{ width: 18, height: 18 }} />
+                Floor Plan
+              </ToggleButton>
+              <ToggleButton value="grid" sx={{ px: 1.5, gap: 0.75, textTransform: 'none' }}>
+                <Squares2X2Icon style={{ width: 18, height: 18 }} />
+                Grid
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              variant="contained"
+              startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+              onClick={() => handleOpenDialog()}
+              sx={{
+                backgroundColor: 'primary.main',
+                color: 'primary.contrastText',
+                '&:hover': {
+                  backgroundColor: 'primary.dark',
+                },
+              }}
+            >
+              Add Table
+            </Button>
+          </Box>
         }
       />
 
@@ -223,223 +407,578 @@ function TableManagement() {
         </Alert>
       )}
 
-      {/* Filters */}
-      <Card
-        variant="outlined"
-        sx={{
-          mb: 4,
-          p: 2.5,
-          backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#1A1A1A' : '#FAFAFA',
-          borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)',
-        }}
-      >
-        <FormControl 
-          size="small" 
-          sx={{ 
-            minWidth: 200,
-            '& .MuiOutlinedInput-root': {
-              backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#121212' : '#FFFFFF',
-            },
-          }}
-        >
-          <InputLabel>Status</InputLabel>
-          <Select
-            value={selectedStatus}
-            label="Status"
-            onChange={(e) => setSelectedStatus(e.target.value)}
-          >
-            <MenuItem value="all">All Statuses</MenuItem>
-            <MenuItem value="available">Available</MenuItem>
-            <MenuItem value="occupied">Occupied</MenuItem>
-            <MenuItem value="reserved">Reserved</MenuItem>
-            <MenuItem value="cleaning">Cleaning</MenuItem>
-          </Select>
-        </FormControl>
-      </Card>
-
-      {/* Tables Grid */}
-      {filteredTables.length === 0 ? (
-        <Card
-          sx={{
-            p: 8,
-            textAlign: 'center',
-            backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#1E1E1E' : '#FFFFFF',
-          }}
-        >
-          <Box
+      {view === 'floor' && (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={9}>
+            <Card variant="outlined" sx={{ p: 2.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 700, mr: 'auto' }}>
+                  {currentSection ? currentSection.name : 'Floor Plan'}
+                </Typography>
+                <Button size="small" startIcon={<ClockIcon style={{ width: 16, height: 16 }} />} onClick={handleOpenHistory}>
+                  History
+                </Button>
+                {isAdmin && (
+                  <>
+                    <Button size="small" onClick={() => setSectionDialog({ open: true, section: null, name: '' })}>
+                      Add Section
+                    </Button>
+                    {currentSection && (
+                      <>
+                        <Button
+                          size="small"
+                          onClick={() => setSectionDialog({ open: true, section: currentSection, name: currentSection.name })}
+                        >
+                          Rename
+                        </Button>
+                        {sections.length > 1 && (
+                          <Button size="small" color="error" onClick={() => handleDeleteSection(currentSection)}>
+                            Delete Section
+                          </Button>
+                        )}
+                      </>
+                    )}
+                    <Button size="small" onClick={handleDiscardLayout} disabled={!hasLayoutChanges || savingLayout}>
+                      Discard
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={handleSaveLayout}
+                      disabled={!hasLayoutChanges || savingLayout}
+                      startIcon={savingLayout ? <CircularProgress size={16} /> : undefined}
+                    >
+                      Save Layout
+                    </Button>
+                  </>
+                )}
+              </Box>
+              <FloorPlan
+                tables={planTables}
+                sections={sections}
+                sectionId={activeSectionId}
+                onSectionChange={setActiveSectionId}
+                editable={isAdmin}
+                selectedTableId={selectedTableId}
+                onTableClick={(table) => setSelectedTableId(table.id!)}
+                onTableChange={(id, changes) => {
+                  handleLayoutChange(id, changes);
+                  setSelectedTableId(id);
+                }}
+              />
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                {isAdmin
+                  ? 'Drag tables to arrange the room, then save the layout. Click a table to change its shape, size or section.'
+                  : 'Click a table to see its details and change its status.'}
+              </Typography>
+            </Card>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Card variant="outlined" sx={{ p: 2.5 }}>
+              {!selectedPlanTable ? (
+                <Typography variant="body2" color="text.secondary">
+                  Select a table on the plan.
+                </Typography>
+              ) : (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                  <Box>
+                    <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                      Table {selectedPlanTable.number}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {selectedPlanTable.name ? `${selectedPlanTable.name} · ` : ''}
+                      {selectedPlanTable.capacity || 4} seats
+                    </Typography>
+                    {selectedPlanTable.status === 'occupied' && selectedPlanTable.occupied_at && (
+                      <Typography variant="caption" color="text.secondary">
+                        Occupied for {formatOccupiedTime(selectedPlanTable.occupied_at, Date.now())}
+                      </Typography>
+                    )}
+                  </Box>
+                  <FormControl size="small" fullWidth>
+                    <InputLabel>Status</InputLabel>
+                    <Select
+                      value={selectedPlanTable.status || 'available'}
+                      label="Status"
+                      onChange={(e) => handleStatusChange(selectedPlanTable.id!, e.target.value as any)}
+                    >
+                      <MenuItem value="available">Available</MenuItem>
+                      <MenuItem value="occupied">Occupied</MenuItem>
+                      <MenuItem value="reserved">Reserved</MenuItem>
+                      <MenuItem value="cleaning">Cleaning</MenuItem>
+                    </Select>
+                  </FormControl>
+                  {selectedPlanTable.status === 'occupied' && (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<ArrowsRightLeftIcon style={{ width: 16, height: 16 }} />}
+                        onClick={() => setTransferDialog({ action: 'move', table: selectedPlanTable, targetId: '' })}
+                      >
+                        Move
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<ArrowsPointingInIcon style={{ width: 16, height: 16 }} />}
+                        onClick={() => setTransferDialog({ action: 'merge', table: selectedPlanTable, targetId: '' })}
+                      >
+                        Merge
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<ScissorsIcon style={{ width: 16, height: 16 }} />}
+                        onClick={() => setSplitTable(selectedPlanTable)}
+                      >
+                        Split Bill
+                      </Button>
+                    </Box>
+                  )}
+                  {isAdmin && (
+                    <>
+                      <FormControl size="small" fullWidth>
+                        <InputLabel>Section</InputLabel>
+                        <Select
+                          value={selectedPlanTable.section_id || ''}
+                          label="Section"
+                          onChange={(e) => {
+                            const sectionId = Number(e.target.value) || null;
+                            handleLayoutChange(selectedPlanTable.id!, { section_id: sectionId });
+                            setActiveSectionId(sectionId);
+                          }}
+                        >
+                          {sections.map((section) => (
+                            <MenuItem key={section.id} value={section.id}>
+                              {section.name}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      <FormControl size="small" fullWidth>
+                        <InputLabel>Shape</InputLabel>
+                        <Select
+                          value={selectedPlanTable.shape || 'square'}
+                          label="Shape"
+                          onChange={(e) => handleLayoutChange(selectedPlanTable.id!, { shape: e.target.value as TableShape })}
+                        >
+                          {TABLE_SHAPES.map((shape) => (
+                            <MenuItem key={shape.value} value={shape.value}>
+                              {shape.label}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <TextField
+                          label="Width"
+                          type="number"
+                          size="small"
+                          value={selectedPlanTable.width || 80}
+                          onChange={(e) => {
+                            const width = Math.min(Math.max(parseInt(e.target.value) || 30, 30), 400);
+                            handleLayoutChange(selectedPlanTable.id!, {
+                              width,
+                              pos_x: Math.min(selectedPlanTable.pos_x || 0, FLOOR_PLAN_WIDTH - width),
+                            });
+                          }}
+                          inputProps={{ min: 30, max: 400, step: 10 }}
+                        />
+                        <TextField
+                          label="Height"
+                          type="number"
+                          size="small"
+                          value={selectedPlanTable.height || 80}
+                          onChange={(e) => {
+                            const height = Math.min(Math.max(parseInt(e.target.value) || 30, 30), 400);
+                            handleLayoutChange(selectedPlanTable.id!, {
+                              height,
+                              pos_y: Math.min(selectedPlanTable.pos_y || 0, FLOOR_PLAN_HEIGHT - height),
+                            });
+                          }}
+                          inputProps={{ min: 30, max: 400, step: 10 }}
+                        />
+                      </Box>
+                      <TextField
+                        label="Rotation (degrees)"
+                        type="number"
+                        size="small"
+                        value={selectedPlanTable.rotation || 0}
+                        onChange={(e) =>
+                          handleLayoutChange(selectedPlanTable.id!, { rotation: ((parseInt(e.target.value) || 0) % 360 + 360) % 360 })
+                        }
+                        inputProps={{ step: 15 }}
+                        fullWidth
+                      />
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          startIcon={<PencilIcon style={{ width: 16, height: 16 }} />}
+                          onClick={() => handleOpenDialog(tables.find(t => t.id === selectedPlanTable.id))}
+                        >
+                          Details
+                        </Button>
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<TrashIcon style={{ width: 16, height: 16 }} />}
+                          onClick={() => handleDelete(selectedPlanTable.id!)}
+                        >
+                          Delete
+                        </Button>
+                      </Box>
+                    </>
+                  )}
+                </Box>
+              )}
+            </Card>
+          </Grid>
+        </Grid>
+      )}
+
+      {view === 'grid' && (
+        <>
+          {/* Filters */}
+          <Card
+            variant="outlined"
             sx={{
-              display: 'flex',
-              flexDirection: 'column',
-              alignItems: 'center',
-              gap: 3,
+              mb: 4,
+              p: 2.5,
+              backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#1A1A1A' : '#FAFAFA',
+              borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.08)',
             }}
           >
-            <Box
+            <FormControl 
+              size="small" 
+              sx={{ 
+                minWidth: 200,
+                '& .MuiOutlinedInput-root': {
+                  backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#121212' : '#FFFFFF',
+                },
+              }}
+            >
+              <InputLabel>Status</InputLabel>
+              <Select
+                value={selectedStatus}
+                label="Status"
+                onChange={(e) => setSelectedStatus(e.target.value)}
+              >
+                <MenuItem value="all">All Statuses</MenuItem>
+                <MenuItem value="available">Available</MenuItem>
+                <MenuItem value="occupied">Occupied</MenuItem>
+                <MenuItem value="reserved">Reserved</MenuItem>
+                <MenuItem value="cleaning">Cleaning</MenuItem>
+              </Select>
+            </FormControl>
+          </Card>
+
+          {/* Tables Grid */}
+          {filteredTables.length === 0 ? (
+            <Card
               sx={{
-                width: 120,
-                height: 120,
-                borderRadius: '50%',
-                backgroundColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.1)' : 'rgba(255, 215, 0, 0.15)',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
+                p: 8,
+                textAlign: 'center',
+                backgroundColor: (theme) => theme.palette.mode === 'dark' ? '#1E1E1E' : '#FFFFFF',
               }}
             >
-              <TableCellsIcon style={{ width: 64, height: 64, opacity: 0.5 }} />
-            </Box>
-            <Box>
-              <Typography variant="h5" sx={{ fontWeight: 600, mb: 1 }}>
-                {selectedStatus !== 'all'
-                  ? 'No tables with this status'
-                  : 'No tables yet'}
-              </Typography>
-              <Typography variant="body1" color="text.secondary" sx={{ mb: 3, maxWidth: 400, mx: 'auto' }}>
-                {selectedStatus !== 'all'
-                  ? 'Try selecting a different status filter.'
-                  : 'Create your first table to start managing seating in your restaurant.'}
-              </Typography>
-              {selectedStatus === 'all' && (
-                <Button
-                  variant="contained"
-                  startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
-                  onClick={() => handleOpenDialog()}
-                  size="large"
-                  sx={{
-                    backgroundColor: 'primary.main',
-                    color: 'primary.contrastText',
-                    px: 4,
-                    py: 1.5,
-                    '&:hover': {
-                      backgroundColor: 'primary.dark',
-                    },
-                  }}
-                >
-                  Create Your First Table
-                </Button>
-              )}
-            </Box>
-          </Box>
-        </Card>
-      ) : (
-        <Grid container spacing={3}>
-          {filteredTables.map((table) => (
-            <Grid item xs={12} sm={6} md={4} lg={3} key={table.id}>
-              <Card
+              <Box
                 sx={{
-                  height: '100%',
                   display: 'flex',
                   flexDirection: 'column',
-                  transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-                  overflow: 'hidden',
-                  border: '1px solid',
-                  borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.08)',
-                  '&:hover': {
-                    transform: 'translateY(-8px)',
-                    boxShadow: (theme) => theme.palette.mode === 'dark' 
-                      ? '0 12px 24px rgba(0, 0, 0, 0.4)' 
-                      : '0 12px 24px rgba(0, 0, 0, 0.15)',
-                    borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.3)' : 'rgba(255, 215, 0, 0.25)',
-                  },
+                  alignItems: 'center',
+                  gap: 3,
                 }}
               >
-                <Box sx={{ p: 3, flexGrow: 1, display: 'flex', flexDirection: 'column' }}>
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
-                    <Box>
-                      <Typography variant="h5" sx={{ fontWeight: 700, fontSize: '24px', mb: 0.5 }}>
-                        {table.number}
-                      </Typography>
-                      {table.name && (
-                        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                          {table.name}
+                <Box
+                  sx={{
+                    width: 120,
+                    height: 120,
+                    borderRadius: '50%',
+                    backgroundColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.1)' : 'rgba(255, 215, 0, 0.15)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <TableCellsIcon style={{ width: 64, height: 64, opacity: 0.5 }} />
+                </Box>
+                <Box>
+                  <Typography variant="h5" sx={{ fontWeight: 600, mb: 1 }}>
+                    {selectedStatus !== 'all'
+                      ? 'No tables with this status'
+                      : 'No tables yet'}
+                  </Typography>
+                  <Typography variant="body1" color="text.secondary" sx={{ mb: 3, maxWidth: 400, mx: 'auto' }}>
+                    {selectedStatus !== 'all'
+                      ? 'Try selecting a different status filter.'
+                      : 'Create your first table to start managing seating in your restaurant.'}
+                  </Typography>
+                  {selectedStatus === 'all' && (
+                    <Button
+                      variant="contained"
+                      startIcon={<PlusIcon style={{ width: 20, height: 20 }} />}
+                      onClick={() => handleOpenDialog()}
+                      size="large"
+                      sx={{
+                        backgroundColor: 'primary.main',
+                        color: 'primary.contrastText',
+                        px: 4,
+                        py: 1.5,
+                        '&:hover': {
+                          backgroundColor: 'primary.dark',
+                        },
+                      }}
+                    >
+                      Create Your First Table
+                    </Button>
+                  )}
+                </Box>
+              </Box>
+            </Card>
+          ) : (
+            <Grid container spacing={3}>
+              {filteredTables.map((table) => (
+                <Grid item xs={12} sm={6} md={4} lg={3} key={table.id}>
+                  <Card
+                    sx={{
+                      height: '100%',
+                      display: 'flex',
+                      flexDirection: 'column',
+                      transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+                      overflow: 'hidden',
+                      border: '1px solid',
+                      borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.08)',
+                      '&:hover': {
+                        transform: 'translateY(-8px)',
+                        boxShadow: (theme) => theme.palette.mode === 'dark' 
+                          ? '0 12px 24px rgba(0, 0, 0, 0.4)' 
+                          : '0 12px 24px rgba(0, 0, 0, 0.15)',
+                        borderColor: (theme) => theme.palette.mode === 'dark' ? 'rgba(255, 215, 0, 0.3)' : 'rgba(255, 215, 0, 0.25)',
+                      },
+                    }}
+                  >
+                    <Box sx={{ p: 3, flexGrow: 1, display: 'flex', flexDirection: 'column' }}>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+                        <Box>
+                          <Typography variant="h5" sx={{ fontWeight: 700, fontSize: '24px', mb: 0.5 }}>
+                            {table.number}
+                          </Typography>
+                          {table.name && (
+                            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                              {table.name}
+                            </Typography>
+                          )}
+                        </Box>
+                        <Chip
+                          label={table.status ? table.status.charAt(0).toUpperCase() + table.status.slice(1) : 'Available'}
+                          color={getStatusColor(table.status || 'available') as any}
+                          size="small"
+                          sx={{ fontWeight: 600, fontSize: '11px' }}
+                        />
+                      </Box>
+
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                        <Chip
+                          label={`${table.capacity || 4} seats`}
+                          size="small"
+                          sx={{ 
+                            fontSize: '11px',
+                            height: 22,
+                            fontWeight: 500,
+                            backgroundColor: (theme) => theme.palette.mode === 'dark' 
+                              ? 'rgba(255, 255, 255, 0.08)' 
+                              : 'rgba(0, 0, 0, 0.06)',
+                          }}
+                        />
+                      </Box>
+
+                      {table.notes && (
+                        <Typography 
+                          variant="body2" 
+                          color="text.secondary" 
+                          sx={{ 
+                            mb: 2,
+                            fontSize: '12px',
+                            fontStyle: 'italic',
+                          }}
+                        >
+                          {table.notes}
                         </Typography>
                       )}
+
+                      <Box sx={{ display: 'flex', gap: 1, mt: 'auto', pt: 2, borderTop: '1px solid', borderColor: 'divider' }}>
+                        <Tooltip title="Edit">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleOpenDialog(table)}
+                            sx={{
+                              color: 'primary.main',
+                            }}
+                          >
+                            <PencilIcon style={{ width: 18, height: 18 }} />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleDelete(table.id!)}
+                            sx={{
+                              color: 'error.main',
+                            }}
+                          >
+                            <TrashIcon style={{ width: 18, height: 18 }} />
+                          </IconButton>
+                        </Tooltip>
+                        <Box sx={{ flexGrow: 1 }} />
+                        <FormControl size="small" sx={{ minWidth: 120 }}>
+                          <Select
+                            value={table.status || 'available'}
+                            onChange={(e) => handleStatusChange(table.id!, e.target.value as any)}
+                            sx={{
+                              fontSize: '11px',
+                              height: 28,
+                              '& .MuiSelect-select': {
+                                py: 0.5,
+                              },
+                            }}
+                          >
+                            <MenuItem value="available">Available</MenuItem>
+                            <MenuItem value="occupied">Occupied</MenuItem>
+                            <MenuItem value="reserved">Reserved</MenuItem>
+                            <MenuItem value="cleaning">Cleaning</MenuItem>
+                          </Select>
+                        </FormControl>
+                      </Box>
                     </Box>
-                    <Chip
-                      label={table.status ? table.status.charAt(0).toUpperCase() + table.status.slice(1) : 'Available'}
-                      color={getStatusColor(table.status || 'available') as any}
-                      size="small"
-                      sx={{ fontWeight: 600, fontSize: '11px' }}
-                    />
-                  </Box>
+                  </Card>
+                </Grid>
+              ))}
+            </Grid>
+          )}
+        </>
+      )}
 
-                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
-                    <Chip
-                      label={`${table.capacity || 4} seats`}
-                      size="small"
-                      sx={{ 
-                        fontSize: '11px',
-                        height: 22,
-                        fontWeight: 500,
-                        backgroundColor: (theme) => theme.palette.mode === 'dark' 
-                          ? 'rgba(255, 255, 255, 0.08)' 
-                          : 'rgba(0, 0, 0, 0.06)',
-                      }}
-                    />
-                  </Box>
+      {/* Move / Merge Dialog */}
+      <Dialog open={!!transferDialog} onClose={() => setTransferDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {transferDialog?.action === 'merge' ? 'Merge' : 'Move'} Table {transferDialog?.table.number}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {transferDialog?.action === 'merge'
+                ? 'The bill moves onto the chosen table\'s bill. Both tables stay occupied until it is settled.'
+                : 'The party and its bill move to the chosen table, and this table is freed.'}
+            </Typography>
+            <FormControl size="small" fullWidth>
+              <InputLabel>{transferDialog?.action === 'merge' ? 'Merge into' : 'Move to'}</InputLabel>
+              <Select
+                value={transferDialog?.targetId ?? ''}
+                label={transferDialog?.action === 'merge' ? 'Merge into' : 'Move to'}
+                onChange={(e) => transferDialog && setTransferDialog({ ...transferDialog, targetId: e.target.value as number })}
+              >
+                {tables
+                  .filter(t => t.id !== transferDialog?.table.id)
+                  .filter(t => (transferDialog?.action === 'merge'
+                    ? t.status === 'occupied'
+                    : t.status === 'available' || t.status === 'reserved'))
+                  .map(t => (
+                    <MenuItem key={t.id} value={t.id}>
+                      Table {t.number}{t.name ? ` · ${t.name}` : ''}{t.status === 'reserved' ? ' (reserved)' : ''}
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTransferDialog(null)} disabled={transferring}>Cancel</Button>
+          <Button
+            onClick={handleTransfer}
+            variant="contained"
+            disabled={!transferDialog?.targetId || transferring}
+            startIcon={transferring ? <CircularProgress size={16} /> : undefined}
+          >
+            {transferDialog?.action === 'merge' ? 'Merge' : 'Move'}
+          </Button>
+        </DialogActions>
+      </Dialog>
 
-                  {table.notes && (
-                    <Typography 
-                      variant="body2" 
-                      color="text.secondary" 
-                      sx={{ 
-                        mb: 2,
-                        fontSize: '12px',
-                        fontStyle: 'italic',
-                      }}
-                    >
-                      {table.notes}
-                    </Typography>
-                  )}
+      <SplitBillDialog
+        table={splitTable}
+        userId={user?.id}
+        onClose={() => setSplitTable(null)}
+        onSplit={async (newBillCount) => {
+          setSplitTable(null);
+          await loadData();
+          alert(`Bill split. ${newBillCount} new bill(s) are open for this table in the POS.`);
+        }}
+      />
 
-                  <Box sx={{ display: 'flex', gap: 1, mt: 'auto', pt: 2, borderTop: '1px solid', borderColor: 'divider' }}>
-                    <Tooltip title="Edit">
-                      <IconButton
-                        size="small"
-                        onClick={() => handleOpenDialog(table)}
-                        sx={{
-                          color: 'primary.main',
-                        }}
-                      >
-                        <PencilIcon style={{ width: 18, height: 18 }} />
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="Delete">
-                      <IconButton
-                        size="small"
-                        onClick={() => handleDelete(table.id!)}
-                        sx={{
-                          color: 'error.main',
-                        }}
-                      >
-                        <TrashIcon style={{ width: 18, height: 18 }} />
-                      </IconButton>
-                    </Tooltip>
-                    <Box sx={{ flexGrow: 1 }} />
-                    <FormControl size="small" sx={{ minWidth: 120 }}>
-                      <Select
-                        value={table.status || 'available'}
-                        onChange={(e) => handleStatusChange(table.id!, e.target.value as any)}
-                        sx={{
-                          fontSize: '11px',
-                          height: 28,
-                          '& .MuiSelect-select': {
-                            py: 0.5,
-                          },
-                        }}
-                      >
-                        <MenuItem value="available">Available</MenuItem>
-                        <MenuItem value="occupied">Occupied</MenuItem>
-                        <MenuItem value="reserved">Reserved</MenuItem>
-                        <MenuItem value="cleaning">Cleaning</MenuItem>
-                      </Select>
-                    </FormControl>
+      {/* Table History Dialog */}
+      <Dialog open={openHistoryDialog} onClose={() => setOpenHistoryDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Table History</DialogTitle>
+        <DialogContent>
+          {transfers.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+              No tables have been moved, merged or split yet.
+            </Typography>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, pt: 1 }}>
+              {transfers.map(transfer => (
+                <Box key={transfer.id} sx={{ borderBottom: '1px solid', borderColor: 'divider', pb: 1 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                    <Chip label={transfer.action} size="small" sx={{ textTransform: 'capitalize', fontSize: '11px', height: 20 }} />
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(transfer.created_at).toLocaleString()}
+                      {' · '}
+                      {transfer.user_name || transfer.username || 'Unknown user'}
+                    </Typography>
                   </Box>
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    {transfer.details}
+                  </Typography>
                 </Box>
-              </Card>
-            </Grid>
-          ))}
-        </Grid>
-      )}
+              ))}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenHistoryDialog(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Section Dialog */}
+      <Dialog
+        open={sectionDialog.open}
+        onClose={() => setSectionDialog({ open: false, section: null, name: '' })}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>{sectionDialog.section ? 'Rename Section' : 'Add Section'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Section Name"
+            value={sectionDialog.name}
+            onChange={(e) => setSectionDialog({ ...sectionDialog, name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveSection();
+            }}
+            placeholder="e.g., Terrace, Upstairs"
+            autoFocus
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSectionDialog({ open: false, section: null, name: '' })}>Cancel</Button>
+          <Button onClick={handleSaveSection} variant="contained">
+            {sectionDialog.section ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
 
       {/* Add/Edit Dialog */}
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
@@ -484,6 +1023,36 @@ function TableManagement() {
                 <MenuItem value="cleaning">Cleaning</MenuItem>
               </Select>
             </FormControl>
+            {sections.length > 0 && (
+              <FormControl fullWidth>
+                <InputLabel>Section</InputLabel>
+                <Select
+                  value={formData.section_id}
+                  label="Section"
+                  onChange={(e) => setFormData({ ...formData, section_id: e.target.value as number | '' })}
+                >
+                  {sections.map((section) => (
+                    <MenuItem key={section.id} value={section.id}>
+                      {section.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <FormControl fullWidth>
+              <InputLabel>Shape</InputLabel>
+              <Select
+                value={formData.shape}
+                label="Shape"
+                onChange={(e) => setFormData({ ...formData, shape: e.target.value as TableShape })}
+              >
+                {TABLE_SHAPES.map((shape) => (
+                  <MenuItem key={shape.value} value={shape.value}>
+                    {shape.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
             <TextField
               label="Notes (Optional)"
               value={formData.notes}
@@ -8,6 +8,10 @@ export interface MenuItem {
   category?: string;
   image_path?: string;
   is_available?: number;
+  tax_class_id?: number | null; // Overrides the category's tax class
+  prep_station_id?: number | null; // Overrides the category's prep station
+  shelf_life_days?: number | null; // Best-before date on labels; null = none
+  barcode?: string | null; // Printed on labels; blank = the item's ID
   created_at?: string;
   updated_at?: string;
 }
@@ -19,22 +23,91 @@ export interface CreateMenuItemData extends Omit<MenuItem, 'id' | 'created_at' |
 
 export interface Order {
   id?: number;
-  order_number: string;
+  order_number: string; // Invoice number: <terminal_id>-<YYYYMMDD>-<pickup number>
+  terminal_id?: string;
+  business_date?: string;
+  pickup_number?: number; // Called out at the counter; restarts every business day
   customer_id?: number;
   table_id?: number;
+  order_type?: OrderType;
   user_id?: number; // User/cashier who created the order
+  shift_id?: number; // Cash drawer shift the order was rung up in
   total_amount: number;
   subtotal: number;
   tax_amount?: number;
+  tax_inclusive?: number; // 1 when prices included tax at sale time
   discount_amount?: number;
   status?: string;
   payment_method?: string;
   payment_status?: string;
   notes?: string;
+  label?: string; // Name given to a held ticket / open tab
+  discount_id?: number; // Promotion applied to the order
+  promotion_name?: string;
+  promotion_discount?: number; // Part of discount_amount given by the promotion
+  refunded_amount?: number; // Running total of refunds and voids
+  ready_at?: string | null; // When the kitchen bumped the order (UTC)
   created_at?: string;
   completed_at?: string;
 }
 
+export type OrderType = 'dine_in' | 'takeaway' | 'delivery';
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  dine_in: 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
+// An order as the kitchen display shows it
+export interface KitchenTicket {
+  id: number;
+  order_number: string;
+  pickup_number?: number;
+  order_type?: OrderType;
+  label?: string | null;
+  notes?: string | null;
+  status: 'pending' | 'preparing' | 'ready';
+  created_at: string;
+  ready_at?: string | null;
+  table_id?: number | null;
+  table_number?: string | null;
+  customer_name?: string | null;
+  items: {
+    id: number;
+    name: string;
+    quantity: number;
+    size_name?: string | null;
+    notes?: string | null;
+    seat_number?: number | null;
+    station_id?: number | null; // The item's prep station, or else its category's
+    modifiers: string[]; // Options, custom options and addons, as printed on a kitchen ticket
+  }[];
+  bumped_station_ids: number[]; // Prep stations that have finished their part
+}
+
+// A prep station (coffee bar, hot kitchen, ...) with the categories and items routed to it
+export interface PrepStation {
+  id?: number;
+  name: string;
+  printer_name?: string | null; // Blank = no printed ticket, the station works from its kitchen display
+  show_on_kds?: number | boolean;
+  display_order?: number;
+  category_ids: number[];
+  menu_item_ids: number[]; // Routed here regardless of their category's station
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface HeldOrder extends Order {
+  item_count: number;
+  paid_amount: number;
+  username?: string;
+  full_name?: string;
+  table_number?: string;
+  table_name?: string;
+}
+
 export interface OrderItem {
   id?: number;
   order_id: number;
@@ -43,10 +116,29 @@ export interface OrderItem {
   price: number;
   subtotal: number;
   notes?: string;
+  size_id?: number;
+  size_name?: string; // Size name at sale time
+  size_price?: number; // Size price at sale time
+  custom_options?: Omit<OrderItemCustomOption, 'id' | 'order_item_id'>[];
+  options?: Omit<OrderItemOption, 'id' | 'order_item_id'>[]; // Shared option group choices
+  addons?: Omit<OrderItemAddon, 'id' | 'order_item_id'>[];
+  tax_rate?: number; // Rate applied at sale time
+  taxable_amount?: number; // Net of discounts, excluding tax
+  tax_amount?: number;
+  refunded_quantity?: number;
+  seat_number?: number | null; // Seat at a dine-in table, for splitting the bill by seat
   name?: string;
   description?: string;
 }
 
+export interface OrderItemCustomOption {
+  id?: number;
+  order_item_id: number;
+  custom_option_id?: number;
+  name: string; // Option name at sale time
+  price: number; // Option price at sale time
+}
+
 export interface Analytics {
   id?: number;
   date: string;
@@ -85,6 +177,7 @@ export interface InventoryItem {
   category?: string;
   location?: string;
   barcode?: string;
+  allergens?: string | null; // Comma-separated, printed on product labels
   created_at?: string;
   updated_at?: string;
 }
@@ -95,8 +188,9 @@ export interface InventoryTransaction {
   transaction_type: string; // 'in', 'out', 'adjustment', 'waste', 'transfer'
   quantity: number;
   unit_cost?: number;
-  reference_type?: string; // 'order', 'purchase', 'adjustment', etc.
+  reference_type?: string; // 'order', 'refund', 'purchase', 'adjustment', etc.
   reference_id?: number;
+  order_item_id?: number | null; // Order line a sale or refund movement belongs to
   notes?: string;
   created_at?: string;
   created_by?: string;
@@ -110,6 +204,7 @@ export interface User {
   full_name?: string;
   email?: string;
   is_active?: number;
+  has_pin?: number; // 1 when a manager PIN is set
   last_login?: string;
   created_at?: string;
   updated_at?: string;
@@ -130,6 +225,8 @@ export interface Category {
   name: string;
   description?: string;
   display_order?: number;
+  tax_class_id?: number | null; // Default tax class for items in this category
+  prep_station_id?: number | null; // Where items in this category are made
   created_at?: string;
 }
 
@@ -139,20 +236,85 @@ export interface Table {
   name?: string;
   capacity?: number;
   status?: 'available' | 'occupied' | 'reserved' | 'cleaning';
-  current_order_id?: number;
+  current_order_id?: number | null; // Running order while occupied
   notes?: string;
+  section_id?: number | null; // Floor section; null shows in the first section
+  shape?: TableShape;
+  pos_x?: number; // Position on the 1000 x 600 floor plan canvas
+  pos_y?: number;
+  width?: number;
+  height?: number;
+  rotation?: number; // Degrees
+  occupied_at?: string | null; // When the table was last seated (UTC)
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+export interface FloorSection {
+  id?: number;
+  name: string;
+  display_order?: number;
+  table_count?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TableTransfer {
+  id: number;
+  action: 'move' | 'merge' | 'split';
+  from_table_id?: number | null;
+  to_table_id?: number | null;
+  from_table_number?: string | null;
+  to_table_number?: string | null;
+  order_id?: number | null;
+  target_order_id?: number | null; // Bill merged into, or the first new bill of a split
+  user_id?: number | null;
+  username?: string;
+  user_name?: string;
+  details?: string;
+  created_at: string;
+}
+
+export type ReservationStatus = 'booked' | 'seated' | 'completed' | 'cancelled' | 'no_show';
+
+export interface Reservation {
+  id?: number;
+  guest_name: string;
+  phone?: string | null;
+  party_size: number;
+  starts_at: string; // Local "YYYY-MM-DD HH:MM"
+  duration_minutes?: number;
+  table_id?: number | null;
+  table_number?: string | null;
+  table_name?: string | null;
+  table_capacity?: number | null;
+  order_id?: number | null; // Order opened when the party was seated
+  order_number?: string | null;
+  status?: ReservationStatus;
+  notes?: string | null;
+  created_by?: number | null;
+  created_by_name?: string | null;
+  created_by_username?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// Lines (and how many of each) to take off an order for one new bill
+export type SplitBill = { order_item_id: number; quantity: number }[];
+
+export type TableLayout = Pick<Table, 'section_id' | 'shape' | 'pos_x' | 'pos_y' | 'width' | 'height' | 'rotation'> & { id: number };
+
 export interface Discount {
   id?: number;
   name: string;
   description?: string;
+  code?: string; // Promo code; promotions without one apply automatically
   discount_type: string; // 'percentage', 'fixed'
   discount_value: number;
   min_purchase_amount?: number;
-  applicable_items?: string;
+  applicable_items?: string; // JSON array of menu item IDs
   start_date?: string;
   end_date?: string;
   is_active?: number;
@@ -183,6 +345,10 @@ export interface Option {
   created_at?: string;
 }
 
+export interface OptionGroupWithOptions extends OptionGroup {
+  options: Option[];
+}
+
 export interface MenuItemOptionGroup {
   id?: number;
   menu_item_id: number;
@@ -213,6 +379,8 @@ export interface OrderItemOption {
   option_id: number;
   option_group_id: number;
   price_modifier?: number;
+  option_name?: string;
+  option_group_name?: string;
 }
 
 export interface OrderItemAddon {
@@ -222,20 +390,66 @@ export interface OrderItemAddon {
   quantity?: number;
   price: number;
   subtotal: number;
+  addon_name?: string;
+}
+
+export interface OrderPayment {
+  id?: number;
+  order_id: number;
+  payment_method: string; // 'cash', 'card', 'mobile'
+  amount: number; // Amount applied to the order
+  amount_tendered?: number; // Amount handed over (cash can exceed the balance)
+  change_given?: number;
+  reference?: string; // Card slip / mobile money transaction reference
+  user_id?: number;
+  shift_id?: number;
+  created_at?: string;
+}
+
+export interface PaymentBreakdown {
+  payment_method: string;
+  total_amount: number;
+  payment_count: number;
+  order_count: number;
+}
+
+export interface PromotionBreakdown {
+  discount_id?: number;
+  promotion_name: string;
+  order_count: number;
+  total_discount: number;
+}
+
+// Numbers allocated by the main process for a new order
+export interface OrderNumber {
+  order_number: string;
+  pickup_number: number;
+  business_date: string;
+  terminal_id: string;
 }
 
 export interface OrderData {
   order_number: string;
+  terminal_id?: string;
+  business_date?: string;
+  pickup_number?: number;
   total_amount: number;
   subtotal: number;
   tax_amount?: number;
-  discount_amount?: number;
-  payment_method: string;
-  payment_status?: string;
-  table_id?: number;
+  tax_inclusive?: boolean;
+  discount_amount?: number; // Total discount, including any promotion
+  discount_id?: number; // Promotion applied; its use is counted against usage_limit
+  promotion_name?: string;
+  promotion_discount?: number;
+  payment_method?: string; // Derived from payments when they are provided
+  table_id?: number; // Dine-in table; occupied until the bill is settled
+  order_type?: OrderType;
   customer_id?: number;
   user_id?: number; // User/cashier who created the order
+  shift_id?: number; // Open cash drawer shift
+  label?: string; // Held ticket / open tab name
   items: Omit<OrderItem, 'id' | 'order_id'>[];
+  payments?: Omit<OrderPayment, 'id' | 'order_id' | 'created_at'>[];
 }
 
 const dbQuery = async (query: string, params: any[] = []): Promise<any> => {
@@ -271,10 +485,10 @@ export const addMenuItem = async (item: CreateMenuItemData): Promise<any> => {
     return await window.electronAPI.menu.create(item);
   }
   // Fallback to legacy method
-  const { name, description, price, category, image_path, is_available } = item;
+  const { name, description, price, category, image_path, is_available, tax_class_id } = item;
   return await dbQuery(
-    'INSERT INTO menu_items (name, description, price, category, image_path, is_available) VALUES (?, ?, ?, ?, ?, ?)',
-    [name, description || null, price, category || null, image_path || null, is_available !== undefined ? is_available : 1]
+    'INSERT INTO menu_items (name, description, price, category, image_path, is_available, tax_class_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [name, description || null, price, category || null, image_path || null, is_available !== undefined ? is_available : 1, tax_class_id || null]
   );
 };
 
@@ -286,9 +500,9 @@ export const updateMenuItem = async (
     return await window.electronAPI.menu.update(id, item);
   }
   // Fallback to legacy method
-  const { name, description, price, category, image_path, is_available } = item;
+  const { name, description, price, category, image_path, is_available, tax_class_id } = item;
   return await dbQuery(
-    'UPDATE menu_items SET name = ?, description = ?, price = ?, category = ?, image_path = ?, is_available = ? WHERE id = ?',
+    'UPDATE menu_items SET name = ?, description = ?, price = ?, category = ?, image_path = ?, is_available = ?, tax_class_id = ? WHERE id = ?',
     [
       name,
       description || null,
@@ -296,6 +510,7 @@ export const updateMenuItem = async (
       category || null,
       image_path || null,
       is_available !== undefined ? is_available : 1,
+      tax_class_id || null,
       id,
     ]
   );
@@ -310,32 +525,34 @@ export const deleteMenuItem = async (id: number): Promise<any> => {
 };
 
 // Orders
-export const createOrder = async (orderData: OrderData): Promise<number> => {
-  const { order_number, total_amount, subtotal, discount_amount = 0, payment_method, payment_status, table_id, customer_id, user_id, items } = orderData;
-
-  // If payment_method is provided, default payment_status to 'paid', otherwise use provided value or 'pending'
-  const finalPaymentStatus = payment_status || (payment_method ? 'paid' : 'pending');
 
-  // Start transaction
-  const orderResult = await dbQuery(
-    'INSERT INTO orders (order_number, total_amount, subtotal, discount_amount, payment_method, table_id, customer_id, user_id, status, payment_status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [order_number, total_amount, subtotal, discount_amount, payment_method, table_id || null, customer_id || null, user_id || null, 'pending', finalPaymentStatus]
-  );
+// Payment status follows the tender ledger: nothing paid, part paid, or settled
+const derivePaymentStatus = (totalAmount: number, paidAmount: number): string => {
+  if (paidAmount >= totalAmount - 0.005) return 'paid';
+  if (paidAmount > 0) return 'partial';
+  return 'pending';
+};
 
-  const orderId = orderResult.lastInsertRowid;
+// A single method is kept as-is; several different methods are recorded as 'split'
+const derivePaymentMethod = (payments: { payment_method: string }[]): string | null => {
+  const methods = Array.from(new Set(payments.map(p => p.payment_method)));
+  if (methods.length === 0) return null;
+  return methods.length === 1 ? methods[0] : 'split';
+};
 
-  // Insert order items
-  for (const item of items) {
-    await dbQuery(
-      'INSERT INTO order_items (order_id, menu_item_id, quantity, price, subtotal) VALUES (?, ?, ?, ?, ?)',
-      [orderId, item.menu_item_id, item.quantity, item.price, item.subtotal]
-    );
+export const getNextOrderNumber = async (): Promise<OrderNumber> => {
+  if (window.electronAPI?.numbering?.next) {
+    return await window.electronAPI.numbering.next();
   }
+  throw new Error('Order numbering not available');
+};
 
-  // Update table status if table_id is provided
-  if (table_id) {
-    await updateTable(table_id, { status: 'occupied', current_order_id: orderId });
+// The order, its lines, tenders, promotion use and stock usage are saved in one transaction in the main process
+export const createOrder = async (orderData: OrderData): Promise<number> => {
+  if (!window.electronAPI?.order?.create) {
+    throw new Error('Saving orders not available');
   }
+  const orderId = await window.electronAPI.order.create(orderData);
 
   // Update analytics
   await updateDailyAnalytics(new Date());
@@ -343,17 +560,45 @@ export const createOrder = async (orderData: OrderData): Promise<number> => {
   return orderId;
 };
 
+// Held tickets / open tabs: orders still pending that have not been settled
+export const getHeldOrders = async (): Promise<HeldOrder[]> => {
+  return await dbQuery(
+    `SELECT o.*, u.username, u.full_name, t.number as table_number, t.name as table_name,
+       (SELECT COALESCE(SUM(quantity), 0) FROM order_items WHERE order_id = o.id) as item_count,
+       (SELECT COALESCE(SUM(amount), 0) FROM order_payments WHERE order_id = o.id) as paid_amount
+     FROM orders o
+     LEFT JOIN users u ON o.user_id = u.id
+     LEFT JOIN tables t ON o.table_id = t.id
+     WHERE o.status = 'pending' AND o.payment_status IN ('pending', 'partial')
+     ORDER BY o.created_at`
+  );
+};
+
+// Rewrites a held ticket's lines and totals; any payments passed are recorded against it, all in one transaction
+export const updateHeldOrder = async (id: number, orderData: OrderData): Promise<any> => {
+  if (!window.electronAPI?.order?.updateHeld) {
+    throw new Error('Saving orders not available');
+  }
+  const result = await window.electronAPI.order.updateHeld(id, orderData);
+
+  await updateDailyAnalytics(new Date());
+
+  return result;
+};
+
 export const getOrders = async (limit: number = 100): Promise<Order[]> => {
   return await dbQuery('SELECT * FROM orders ORDER BY created_at DESC LIMIT ?', [limit]);
 };
 
+// payment_status is left out on purpose: only recorded tenders change it (see refreshOrderPaymentStatus)
 export const updateOrder = async (id: number, orderData: Partial<Order>): Promise<any> => {
-  const { status, payment_status, notes } = orderData;
+  const { status, notes } = orderData;
   const updates: string[] = [];
   const values: any[] = [];
   
   if (status !== undefined) { updates.push('status = ?'); values.push(status); }
-  if (payment_status !== undefined) { updates.push('payment_status = ?'); values.push(payment_status); }
+  // Marking an order ready by hand counts as a kitchen bump
+  if (status === 'ready') { updates.push('ready_at = CURRENT_TIMESTAMP'); }
   if (notes !== undefined) { updates.push('notes = ?'); values.push(notes || null); }
   
   if (updates.length === 0) {
@@ -361,10 +606,17 @@ export const updateOrder = async (id: number, orderData: Partial<Order>): Promis
   }
   
   values.push(id);
-  return await dbQuery(
+  const result = await dbQuery(
     `UPDATE orders SET ${updates.join(', ')} WHERE id = ?`,
     values
   );
+
+  // Completing an order by hand makes it a sale
+  if (status !== undefined) {
+    await postOrderStockUsage(id);
+  }
+
+  return result;
 };
 
 export const deleteOrder = async (id: number, userId?: number): Promise<any> => {
@@ -374,20 +626,123 @@ export const deleteOrder = async (id: number, userId?: number): Promise<any> =>
   // First, free up the table if the order is associated with one
   const order = await dbQuery('SELECT table_id FROM orders WHERE id = ?', [id]);
   if (order[0]?.table_id) {
-    await updateTable(order[0].table_id, { status: 'available', current_order_id: undefined });
+    await updateTable(order[0].table_id, { status: 'available', current_order_id: null });
   }
   // Delete the order (order_items will be deleted automatically due to CASCADE)
   return await dbQuery('DELETE FROM orders WHERE id = ?', [id]);
 };
 
+// Held tickets nothing was paid on can be discarded by any user, with a manager's approval when voids are guarded
+export const discardHeldOrder = async (id: number, userId: number, overrideId?: number): Promise<{ success: boolean; message?: string }> => {
+  if (window.electronAPI?.order?.discardHeld) {
+    return await window.electronAPI.order.discardHeld(id, userId, overrideId);
+  }
+  throw new Error('Discarding held tickets not available');
+};
+
 export const getOrderItems = async (orderId: number): Promise<OrderItem[]> => {
-  return await dbQuery(
+  const items: OrderItem[] = await dbQuery(
     `SELECT oi.*, mi.name, mi.description 
      FROM order_items oi 
      JOIN menu_items mi ON oi.menu_item_id = mi.id 
      WHERE oi.order_id = ?`,
     [orderId]
   );
+
+  const customOptions: OrderItemCustomOption[] = await dbQuery(
+    `SELECT oico.*
+     FROM order_item_custom_options oico
+     JOIN order_items oi ON oico.order_item_id = oi.id
+     WHERE oi.order_id = ?
+     ORDER BY oico.id`,
+    [orderId]
+  );
+
+  const options: OrderItemOption[] = await dbQuery(
+    `SELECT oio.*, o.name as option_name, og.name as option_group_name
+     FROM order_item_options oio
+     JOIN order_items oi ON oio.order_item_id = oi.id
+     JOIN options o ON oio.option_id = o.id
+     JOIN option_groups og ON oio.option_group_id = og.id
+     WHERE oi.order_id = ?
+     ORDER BY oio.id`,
+    [orderId]
+  );
+
+  const addons: OrderItemAddon[] = await dbQuery(
+    `SELECT oia.*, a.name as addon_name
+     FROM order_item_addons oia
+     JOIN order_items oi ON oia.order_item_id = oi.id
+     JOIN addons a ON oia.addon_id = a.id
+     WHERE oi.order_id = ?
+     ORDER BY oia.id`,
+    [orderId]
+  );
+
+  return items.map(item => ({
+    ...item,
+    custom_options: customOptions.filter(option => option.order_item_id === item.id),
+    options: options.filter(option => option.order_item_id === item.id),
+    addons: addons.filter(addon => addon.order_item_id === item.id),
+  }));
+};
+
+// Order Payments
+const insertOrderPayment = async (payment: Omit<OrderPayment, 'id' | 'created_at'>): Promise<any> => {
+  const { order_id, payment_method, amount, amount_tendered, change_given, reference, user_id, shift_id } = payment;
+  return await dbQuery(
+    'INSERT INTO order_payments (order_id, payment_method, amount, amount_tendered, change_given, reference, user_id, shift_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [order_id, payment_method, amount, amount_tendered ?? amount, change_given || 0, reference || null, user_id || null, shift_id || null]
+  );
+};
+
+export const getOrderPayments = async (orderId: number): Promise<OrderPayment[]> => {
+  return await dbQuery(
+    'SELECT * FROM order_payments WHERE order_id = ? ORDER BY created_at, id',
+    [orderId]
+  );
+};
+
+const refreshOrderPaymentStatus = async (orderId: number): Promise<void> => {
+  const orders = await dbQuery('SELECT total_amount FROM orders WHERE id = ?', [orderId]);
+  const payments = await getOrderPayments(orderId);
+  const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0);
+  const paymentStatus = derivePaymentStatus(orders[0]?.total_amount || 0, paidAmount);
+
+  await dbQuery(
+    'UPDATE orders SET payment_status = ?, payment_method = ? WHERE id = ?',
+    [paymentStatus, derivePaymentMethod(payments), orderId]
+  );
+
+  // Settling the bill frees the table
+  if (paymentStatus === 'paid') {
+    await releaseOrderTable(orderId);
+  }
+};
+
+// Frees the order's tables, unless another order has been seated there since
+const releaseOrderTable = async (orderId: number): Promise<void> => {
+  if (window.electronAPI?.table?.releaseOrder) {
+    await window.electronAPI.table.releaseOrder(orderId);
+    return;
+  }
+  // Fallback to legacy method
+  const tables: Table[] = await dbQuery(
+    'SELECT t.* FROM tables t JOIN orders o ON o.table_id = t.id WHERE o.id = ?',
+    [orderId]
+  );
+  const table = tables[0];
+  if (table && (!table.current_order_id || table.current_order_id === orderId)) {
+    await updateTable(table.id!, { status: 'available', current_order_id: null });
+  }
+};
+
+// Records a tender against an existing order and re-derives its payment status/method
+export const addOrderPayment = async (payment: Omit<OrderPayment, 'id' | 'created_at'>): Promise<any> => {
+  const result = await insertOrderPayment(payment);
+  await refreshOrderPaymentStatus(payment.order_id);
+  await postOrderStockUsage(payment.order_id);
+  return result;
 };
 
 // Analytics
@@ -413,12 +768,16 @@ export const getRevenueData = async (days: number = 30): Promise<Analytics[]> =>
   );
 };
 
+// Orders that count as sales: paid or completed, not voided (refunds are netted separately)
+const SOLD_ORDER_CONDITION = `o.status != 'cancelled' AND (o.status = 'completed' OR o.payment_status IN ('paid', 'partially_refunded', 'refunded'))`;
+
 export const getTopSellingItems = async (limit: number = 10, startDate?: string, endDate?: string): Promise<any[]> => {
-  let query = `SELECT mi.id, mi.name, SUM(oi.quantity) as total_quantity, SUM(oi.subtotal) as total_revenue
+  let query = `SELECT mi.id, mi.name, SUM(oi.quantity - COALESCE(oi.refunded_quantity, 0)) as total_quantity,
+       SUM(oi.subtotal * (oi.quantity - COALESCE(oi.refunded_quantity, 0)) / oi.quantity) as total_revenue
      FROM order_items oi
      JOIN menu_items mi ON oi.menu_item_id = mi.id
      JOIN orders o ON oi.order_id = o.id
-     WHERE (o.status = 'completed' OR o.payment_status = 'paid')`;
+     WHERE ${SOLD_ORDER_CONDITION} AND oi.quantity > COALESCE(oi.refunded_quantity, 0)`;
   
   const params: any[] = [];
   
@@ -436,10 +795,10 @@ export const getTopSellingItems = async (limit: number = 10, startDate?: string,
 };
 
 export const getTotalItemsSold = async (startDate?: string, endDate?: string): Promise<number> => {
-  let query = `SELECT SUM(oi.quantity) as total
+  let query = `SELECT SUM(oi.quantity - COALESCE(oi.refunded_quantity, 0)) as total
      FROM order_items oi
      JOIN orders o ON oi.order_id = o.id
-     WHERE (o.status = 'completed' OR o.payment_status = 'paid')`;
+     WHERE ${SOLD_ORDER_CONDITION}`;
   
   const params: any[] = [];
   
@@ -452,6 +811,85 @@ export const getTotalItemsSold = async (startDate?: string, endDate?: string): P
   return result[0]?.total || 0;
 };
 
+// Tender per payment method, less what was paid back by that method; voided orders are left out on both sides
+export const getPaymentBreakdown = async (startDate?: string, endDate?: string): Promise<PaymentBreakdown[]> => {
+  let dateFilter = '';
+  const params: any[] = [];
+
+  if (startDate && endDate) {
+    dateFilter = ` AND DATE(o.created_at) BETWEEN ? AND ?`;
+    params.push(startDate, endDate, startDate, endDate);
+  }
+
+  const query = `SELECT payment_method, SUM(amount) as total_amount, SUM(is_payment) as payment_count,
+       COUNT(DISTINCT CASE WHEN is_payment = 1 THEN order_id END) as order_count
+     FROM (
+       SELECT op.payment_method, op.amount, 1 as is_payment, op.order_id
+       FROM order_payments op
+       JOIN orders o ON op.order_id = o.id
+       WHERE o.status != 'cancelled'${dateFilter}
+       UNION ALL
+       SELECT r.refund_method, -r.amount, 0, r.order_id
+       FROM refunds r
+       JOIN orders o ON r.order_id = o.id
+       WHERE o.status != 'cancelled' AND r.refund_method IS NOT NULL${dateFilter}
+     )
+     GROUP BY payment_method
+     ORDER BY total_amount DESC`;
+
+  return await dbQuery(query, params);
+};
+
+// Promotion given per discount, scaled down by the share of each order that was refunded
+export const getPromotionBreakdown = async (startDate?: string, endDate?: string): Promise<PromotionBreakdown[]> => {
+  let query = `SELECT o.discount_id, o.promotion_name, COUNT(*) as order_count,
+       SUM(o.promotion_discount * (o.total_amount - COALESCE(r.amount, 0)) / o.total_amount) as total_discount
+     FROM orders o
+     LEFT JOIN (
+       SELECT order_id, SUM(amount) as amount FROM refunds GROUP BY order_id
+     ) r ON r.order_id = o.id
+     WHERE o.promotion_discount > 0 AND o.status != 'cancelled'
+       AND o.total_amount > COALESCE(r.amount, 0)`;
+
+  const params: any[] = [];
+
+  if (startDate && endDate) {
+    query += ` AND DATE(o.created_at) BETWEEN ? AND ?`;
+    params.push(startDate, endDate);
+  }
+
+  query += ` GROUP BY o.discount_id, o.promotion_name
+     ORDER BY total_discount DESC`;
+
+  return await dbQuery(query, params);
+};
+
+// Tax collected per rate, for GST filing; tax given back on refunded lines is deducted
+export const getTaxBreakdown = async (startDate?: string, endDate?: string): Promise<TaxSummaryLine[]> => {
+  let query = `SELECT oi.tax_rate,
+       SUM(oi.taxable_amount - COALESCE(ri.amount - ri.tax_amount, 0)) as taxable_amount,
+       SUM(oi.tax_amount - COALESCE(ri.tax_amount, 0)) as tax_amount,
+       COUNT(DISTINCT oi.order_id) as order_count
+     FROM order_items oi
+     JOIN orders o ON oi.order_id = o.id
+     LEFT JOIN (
+       SELECT order_item_id, SUM(amount) as amount, SUM(tax_amount) as tax_amount FROM refund_items GROUP BY order_item_id
+     ) ri ON ri.order_item_id = oi.id
+     WHERE ${SOLD_ORDER_CONDITION}`;
+
+  const params: any[] = [];
+
+  if (startDate && endDate) {
+    query += ` AND DATE(o.created_at) BETWEEN ? AND ?`;
+    params.push(startDate, endDate);
+  }
+
+  query += ` GROUP BY oi.tax_rate
+     ORDER BY oi.tax_rate`;
+
+  return await dbQuery(query, params);
+};
+
 const updateDailyAnalytics = async (date: Date): Promise<void> => {
   const dateStr = date.toISOString().split('T')[0];
 
@@ -544,19 +982,32 @@ export const getLowStockItems = async (): Promise<InventoryItem[]> => {
 };
 
 export const addInventoryItem = async (item: Omit<InventoryItem, 'id' | 'created_at' | 'updated_at'>): Promise<any> => {
-  const { name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode } = item;
+  const { name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode, allergens } = item;
   return await dbQuery(
-    'INSERT INTO inventory_items (name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [name, description || null, unit || 'unit', current_stock || 0, min_stock || 0, max_stock || 0, cost_per_unit || 0, supplier || null, category || null, location || null, barcode || null]
+    'INSERT INTO inventory_items (name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode, allergens) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [name, description || null, unit || 'unit', current_stock || 0, min_stock || 0, max_stock || 0, cost_per_unit || 0, supplier || null, category || null, location || null, barcode || null, allergens || null]
   );
 };
 
 export const updateInventoryItem = async (id: number, item: Partial<InventoryItem>): Promise<any> => {
-  const { name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode } = item;
-  return await dbQuery(
-    'UPDATE inventory_items SET name = ?, description = ?, unit = ?, current_stock = ?, min_stock = ?, max_stock = ?, cost_per_unit = ?, supplier = ?, category = ?, location = ?, barcode = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-    [name, description || null, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier || null, category || null, location || null, barcode || null, id]
+  const { name, description, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier, category, location, barcode, allergens } = item;
+  // A changed stock level is a count; the correction is logged so stock usage can show the shrinkage it found
+  const existing = await dbQuery('SELECT current_stock FROM inventory_items WHERE id = ?', [id]);
+  const correction = existing[0] && current_stock !== undefined ? current_stock - (existing[0].current_stock || 0) : 0;
+
+  const result = await dbQuery(
+    'UPDATE inventory_items SET name = ?, description = ?, unit = ?, current_stock = ?, min_stock = ?, max_stock = ?, cost_per_unit = ?, supplier = ?, category = ?, location = ?, barcode = ?, allergens = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [name, description || null, unit, current_stock, min_stock, max_stock, cost_per_unit, supplier || null, category || null, location || null, barcode || null, allergens || null, id]
   );
+
+  if (Math.abs(correction) > 0.0005) {
+    await dbQuery(
+      "INSERT INTO inventory_transactions (inventory_item_id, transaction_type, quantity, unit_cost, reference_type, notes) VALUES (?, 'adjustment', ?, ?, 'count', ?)",
+      [id, correction, cost_per_unit ?? null, 'Stock count']
+    );
+  }
+
+  return result;
 };
 
 export const deleteInventoryItem = async (id: number): Promise<any> => {
@@ -599,6 +1050,70 @@ export const getInventoryTransactions = async (inventoryItemId?: number): Promis
   return await dbQuery('SELECT * FROM inventory_transactions ORDER BY created_at DESC');
 };
 
+// Recipes: what one unit of a menu item uses from inventory.
+// Rows without a size_name are the base recipe; a size's own row replaces the base quantity for that size.
+export interface RecipeIngredient {
+  id?: number;
+  menu_item_id?: number;
+  inventory_item_id: number;
+  size_name?: string | null;
+  quantity_required: number;
+  unit?: string | null;
+  inventory_item_name?: string;
+  inventory_unit?: string;
+  current_stock?: number;
+  cost_per_unit?: number;
+}
+
+// Theoretical (recipes x sales) vs actual (sales, waste and stock taken out by hand) usage of one ingredient
+export interface StockUsage {
+  inventory_item_id: number;
+  name: string;
+  unit?: string;
+  cost_per_unit?: number;
+  current_stock?: number;
+  opening_stock: number;
+  received: number;
+  closing_stock: number;
+  actual: number; // opening + received - closing
+  theoretical: number; // What recipes say the period's sales used
+  waste: number;
+  variance: number;
+  variance_cost: number;
+}
+
+export const getRecipe = async (menuItemId: number): Promise<RecipeIngredient[]> => {
+  if (window.electronAPI?.recipe?.get) {
+    return await window.electronAPI.recipe.get(menuItemId);
+  }
+  throw new Error('Recipes not available');
+};
+
+export const saveRecipe = async (menuItemId: number, rows: Pick<RecipeIngredient, 'inventory_item_id' | 'size_name' | 'quantity_required' | 'unit'>[]): Promise<RecipeIngredient[]> => {
+  if (window.electronAPI?.recipe?.save) {
+    return await window.electronAPI.recipe.save(menuItemId, rows);
+  }
+  throw new Error('Recipes not available');
+};
+
+export const getStockUsage = async (startDate?: string, endDate?: string): Promise<StockUsage[]> => {
+  if (window.electronAPI?.recipe?.getUsage) {
+    return await window.electronAPI.recipe.getUsage(startDate, endDate);
+  }
+  throw new Error('Stock usage not available');
+};
+
+// Takes a sold order's recipes out of stock (or gives back removed lines). The sale is already saved,
+// so a failure here is logged rather than failing the sale.
+const postOrderStockUsage = async (orderId: number): Promise<void> => {
+  if (!window.electronAPI?.recipe?.postOrderUsage) return;
+  try {
+    await window.electronAPI.recipe.postOrderUsage(orderId);
+  } catch (err) {
+    console.error('Failed to post stock usage for order:', err);
+  }
+};
+
 // Categories
 export const getCategories = async (): Promise<Category[]> => {
   if (window.electronAPI?.category?.getAll) {
@@ -616,10 +1131,10 @@ export const addCategory = async (category: Omit<Category, 'id' | 'created_at'>)
   if (!window.electronAPI) {
     throw new Error('Electron API not available. Please ensure you are running the application in Electron.');
   }
-  const { name, description, display_order } = category;
+  const { name, description, display_order, tax_class_id } = category;
   return await dbQuery(
-    'INSERT INTO categories (name, description, display_order) VALUES (?, ?, ?)',
-    [name, description || null, display_order || 0]
+    'INSERT INTO categories (name, description, display_order, tax_class_id) VALUES (?, ?, ?, ?)',
+    [name, description || null, display_order || 0, tax_class_id || null]
   );
 };
 
@@ -628,10 +1143,10 @@ export const updateCategory = async (id: number, category: Partial<Category>): P
     return await window.electronAPI.category.update(id, category);
   }
   // Fallback to legacy method
-  const { name, description, display_order } = category;
+  const { name, description, display_order, tax_class_id } = category;
   return await dbQuery(
-    'UPDATE categories SET name = ?, description = ?, display_order = ? WHERE id = ?',
-    [name, description || null, display_order, id]
+    'UPDATE categories SET name = ?, description = ?, display_order = ?, tax_class_id = ? WHERE id = ?',
+    [name, description || null, display_order, tax_class_id || null, id]
   );
 };
 
@@ -722,83 +1237,761 @@ export const updateTableStatus = async (id: number, status: 'available' | 'occup
   return await updateTable(id, { status });
 };
 
-// Option Groups
-export const getOptionGroups = async (): Promise<OptionGroup[]> => {
-  if (window.electronAPI?.optionGroup?.getAll) {
-    return await window.electronAPI.optionGroup.getAll();
+export const saveTableLayout = async (layouts: TableLayout[]): Promise<Table[]> => {
+  if (window.electronAPI?.table?.saveLayout) {
+    return await window.electronAPI.table.saveLayout(layouts);
   }
-  // Fallback to legacy method
-  return await dbQuery('SELECT * FROM option_groups ORDER BY display_order, name');
+  throw new Error('Floor plan not available');
 };
 
-export const getOptionGroup = async (id: number): Promise<OptionGroup | null> => {
-  if (window.electronAPI?.optionGroup?.getById) {
-    return await window.electronAPI.optionGroup.getById(id);
+// Moving, merging and splitting the running orders of tables
+export const moveTable = async (fromTableId: number, toTableId: number, userId: number): Promise<{ from: Table; to: Table }> => {
+  if (window.electronAPI?.table?.move) {
+    return await window.electronAPI.table.move({ from_table_id: fromTableId, to_table_id: toTableId, user_id: userId });
   }
-  // Fallback to legacy method
-  const results = await dbQuery('SELECT * FROM option_groups WHERE id = ?', [id]);
-  return results.length > 0 ? results[0] : null;
+  throw new Error('Table transfers not available');
 };
 
-export const addOptionGroup = async (group: Omit<OptionGroup, 'id' | 'created_at'>): Promise<any> => {
-  if (window.electronAPI?.optionGroup?.create) {
-    return await window.electronAPI.optionGroup.create(group);
+export const mergeTables = async (fromTableId: number, toTableId: number, userId: number): Promise<Order> => {
+  if (window.electronAPI?.table?.merge) {
+    return await window.electronAPI.table.merge({ from_table_id: fromTableId, to_table_id: toTableId, user_id: userId });
   }
-  // Fallback to legacy method
-  const { name, description, is_required, min_selections, max_selections, display_order } = group;
-  return await dbQuery(
-    'INSERT INTO option_groups (name, description, is_required, min_selections, max_selections, display_order) VALUES (?, ?, ?, ?, ?, ?)',
-    [name, description || null, is_required || 0, min_selections || 1, max_selections || 1, display_order || 0]
-  );
+  throw new Error('Table transfers not available');
 };
 
-export const updateOptionGroup = async (id: number, group: Partial<OptionGroup>): Promise<any> => {
-  if (window.electronAPI?.optionGroup?.update) {
-    return await window.electronAPI.optionGroup.update(id, group);
+export const splitOrder = async (orderId: number, bills: SplitBill[], userId: number): Promise<{ order_id: number; new_order_ids: number[] }> => {
+  if (window.electronAPI?.table?.splitOrder) {
+    return await window.electronAPI.table.splitOrder({ order_id: orderId, bills, user_id: userId });
   }
-  // Fallback to legacy method
-  const { name, description, is_required, min_selections, max_selections, display_order } = group;
-  return await dbQuery(
-    'UPDATE option_groups SET name = ?, description = ?, is_required = ?, min_selections = ?, max_selections = ?, display_order = ? WHERE id = ?',
-    [name, description || null, is_required, min_selections, max_selections, display_order, id]
-  );
+  throw new Error('Table transfers not available');
 };
 
-export const deleteOptionGroup = async (id: number): Promise<any> => {
-  if (window.electronAPI?.optionGroup?.delete) {
-    return await window.electronAPI.optionGroup.delete(id);
+export const splitOrderBySeat = async (orderId: number, userId: number): Promise<{ order_id: number; new_order_ids: number[] }> => {
+  if (window.electronAPI?.table?.splitOrderBySeat) {
+    return await window.electronAPI.table.splitOrderBySeat({ order_id: orderId, user_id: userId });
   }
-  // Fallback to legacy method
-  return await dbQuery('DELETE FROM option_groups WHERE id = ?', [id]);
+  throw new Error('Table transfers not available');
 };
 
-// Options
-export const getOptions = async (optionGroupId?: number): Promise<Option[]> => {
-  if (window.electronAPI?.option?.getAll) {
-    return await window.electronAPI.option.getAll(optionGroupId);
-  }
-  // Fallback to legacy method
-  if (optionGroupId) {
-    return await dbQuery('SELECT * FROM options WHERE option_group_id = ? ORDER BY display_order, name', [optionGroupId]);
+export const getTableTransfers = async (limit: number = 100): Promise<TableTransfer[]> => {
+  if (window.electronAPI?.table?.getTransfers) {
+    return await window.electronAPI.table.getTransfers(limit);
   }
-  return await dbQuery('SELECT * FROM options ORDER BY option_group_id, display_order, name');
+  throw new Error('Table transfers not available');
 };
 
-export const addOption = async (option: Omit<Option, 'id' | 'created_at'>): Promise<any> => {
-  if (window.electronAPI?.option?.create) {
-    return await window.electronAPI.option.create(option);
+// Floor sections
+export const getFloorSections = async (): Promise<FloorSection[]> => {
+  if (window.electronAPI?.floorSection?.getAll) {
+    return await window.electronAPI.floorSection.getAll();
   }
-  // Fallback to legacy method
-  const { option_group_id, name, description, price_modifier, display_order, is_available } = option;
-  return await dbQuery(
-    'INSERT INTO options (option_group_id, name, description, price_modifier, display_order, is_available) VALUES (?, ?, ?, ?, ?, ?)',
-    [option_group_id, name, description || null, price_modifier || 0, display_order || 0, is_available !== undefined ? is_available : 1]
-  );
+  throw new Error('Floor plan not available');
 };
 
-export const updateOption = async (id: number, option: Partial<Option>): Promise<any> => {
-  if (window.electronAPI?.option?.update) {
-    return await window.electronAPI.option.update(id, option);
+export const addFloorSection = async (section: Pick<FloorSection, 'name' | 'display_order'>): Promise<FloorSection> => {
+  if (window.electronAPI?.floorSection?.create) {
+    return await window.electronAPI.floorSection.create(section);
+  }
+  throw new Error('Floor plan not available');
+};
+
+export const updateFloorSection = async (id: number, section: Partial<FloorSection>): Promise<FloorSection> => {
+  if (window.electronAPI?.floorSection?.update) {
+    return await window.electronAPI.floorSection.update(id, section);
+  }
+  throw new Error('Floor plan not available');
+};
+
+export const deleteFloorSection = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.floorSection?.delete) {
+    return await window.electronAPI.floorSection.delete(id);
+  }
+  throw new Error('Floor plan not available');
+};
+
+// Reservations
+export const getReservations = async (date: string): Promise<Reservation[]> => {
+  if (window.electronAPI?.reservation?.getByDate) {
+    return await window.electronAPI.reservation.getByDate(date);
+  }
+  throw new Error('Reservations not available');
+};
+
+export const addReservation = async (reservation: Reservation): Promise<Reservation> => {
+  if (window.electronAPI?.reservation?.create) {
+    return await window.electronAPI.reservation.create(reservation);
+  }
+  throw new Error('Reservations not available');
+};
+
+export const updateReservation = async (id: number, reservation: Partial<Reservation>): Promise<Reservation> => {
+  if (window.electronAPI?.reservation?.update) {
+    return await window.electronAPI.reservation.update(id, reservation);
+  }
+  throw new Error('Reservations not available');
+};
+
+export const setReservationStatus = async (id: number, status: Exclude<ReservationStatus, 'seated'>): Promise<Reservation> => {
+  if (window.electronAPI?.reservation?.setStatus) {
+    return await window.electronAPI.reservation.setStatus(id, status);
+  }
+  throw new Error('Reservations not available');
+};
+
+export const deleteReservation = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.reservation?.delete) {
+    return await window.electronAPI.reservation.delete(id);
+  }
+  throw new Error('Reservations not available');
+};
+
+export const seatReservation = async (id: number, userId: number, tableId?: number): Promise<{ reservation: Reservation; order_id: number }> => {
+  if (window.electronAPI?.reservation?.seat) {
+    return await window.electronAPI.reservation.seat(id, { user_id: userId, table_id: tableId });
+  }
+  throw new Error('Reservations not available');
+};
+
+// Kitchen display
+// Without a station: every item of every open order (the expo view)
+export const getKitchenTickets = async (stationId: number | null = null): Promise<KitchenTicket[]> => {
+  if (window.electronAPI?.kds?.getTickets) {
+    return await window.electronAPI.kds.getTickets(stationId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const getBumpedTickets = async (limit: number = 12, stationId: number | null = null): Promise<KitchenTicket[]> => {
+  if (window.electronAPI?.kds?.getBumped) {
+    return await window.electronAPI.kds.getBumped(limit, stationId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const startKitchenTicket = async (orderId: number): Promise<Order> => {
+  if (window.electronAPI?.kds?.start) {
+    return await window.electronAPI.kds.start(orderId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const bumpKitchenTicket = async (orderId: number): Promise<Order> => {
+  if (window.electronAPI?.kds?.bump) {
+    return await window.electronAPI.kds.bump(orderId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const recallKitchenTicket = async (orderId: number): Promise<Order> => {
+  if (window.electronAPI?.kds?.recall) {
+    return await window.electronAPI.kds.recall(orderId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const bumpStationTicket = async (orderId: number, stationId: number): Promise<Order> => {
+  if (window.electronAPI?.kds?.bumpStation) {
+    return await window.electronAPI.kds.bumpStation(orderId, stationId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const recallStationTicket = async (orderId: number, stationId: number): Promise<Order> => {
+  if (window.electronAPI?.kds?.recallStation) {
+    return await window.electronAPI.kds.recallStation(orderId, stationId);
+  }
+  throw new Error('Kitchen display not available');
+};
+
+export const openKitchenWindow = async (stationId: number | null = null): Promise<void> => {
+  if (window.electronAPI?.kds?.openWindow) {
+    await window.electronAPI.kds.openWindow(stationId);
+    return;
+  }
+  throw new Error('Kitchen display not available');
+};
+
+// Customer display
+export interface CustomerDisplayLine {
+  name: string;
+  quantity: number;
+  size?: string | null;
+  modifiers: string[];
+  line_total: number;
+}
+
+// What the customer-facing screen shows; the POS pushes a new state whenever it changes
+export type CustomerDisplayState =
+  | { mode: 'idle' }
+  | {
+      mode: 'cart';
+      lines: CustomerDisplayLine[];
+      subtotal: number;
+      discount: number;
+      promotion_name?: string | null;
+      tax: number;
+      tax_inclusive: boolean;
+      total: number;
+      paid: number; // Tendered so far, including earlier payments on a recalled tab
+      balance_due: number;
+    }
+  | {
+      mode: 'thank_you';
+      order_label: string;
+      total: number;
+      paid: number;
+      change_due: number;
+    };
+
+export const openCustomerDisplay = async (): Promise<void> => {
+  if (window.electronAPI?.customerDisplay?.open) {
+    await window.electronAPI.customerDisplay.open();
+    return;
+  }
+  throw new Error('Customer display not available');
+};
+
+// Sent on every cart change, so a missing display is not an error
+export const updateCustomerDisplay = async (state: CustomerDisplayState): Promise<void> => {
+  if (window.electronAPI?.customerDisplay?.update) {
+    await window.electronAPI.customerDisplay.update(state);
+  }
+};
+
+export const getCustomerDisplayState = async (): Promise<CustomerDisplayState> => {
+  if (window.electronAPI?.customerDisplay?.getState) {
+    return await window.electronAPI.customerDisplay.getState();
+  }
+  return { mode: 'idle' };
+};
+
+export const getPromoImages = async (): Promise<string[]> => {
+  if (window.electronAPI?.customerDisplay?.getPromoImages) {
+    return await window.electronAPI.customerDisplay.getPromoImages();
+  }
+  return [];
+};
+
+// Calls back with each new state; returns the unsubscribe function
+export const onCustomerDisplayState = (callback: (state: CustomerDisplayState) => void): (() => void) => {
+  if (window.electronAPI?.customerDisplay?.onState) {
+    return window.electronAPI.customerDisplay.onState(callback);
+  }
+  return () => {};
+};
+
+// Pickup board (counter TV page served to the LAN)
+export interface PickupBoardStatus {
+  running: boolean;
+  port: number | null;
+  urls: string[]; // One per network interface when served to the network, else this till only
+  error: string | null;
+}
+
+export const getPickupBoardStatus = async (): Promise<PickupBoardStatus> => {
+  if (window.electronAPI?.pickupBoard?.getStatus) {
+    return await window.electronAPI.pickupBoard.getStatus();
+  }
+  throw new Error('Pickup board not available');
+};
+
+// Applies the pickup_board_* settings: starts or stops the board, and opens it to the network or not
+export const restartPickupBoard = async (): Promise<PickupBoardStatus> => {
+  if (window.electronAPI?.pickupBoard?.restart) {
+    return await window.electronAPI.pickupBoard.restart();
+  }
+  throw new Error('Pickup board not available');
+};
+
+// Prep stations
+export const getPrepStations = async (): Promise<PrepStation[]> => {
+  if (window.electronAPI?.prepStation?.getAll) {
+    return await window.electronAPI.prepStation.getAll();
+  }
+  throw new Error('Prep stations not available');
+};
+
+export const addPrepStation = async (station: Omit<PrepStation, 'id' | 'created_at' | 'updated_at'>): Promise<PrepStation> => {
+  if (window.electronAPI?.prepStation?.create) {
+    return await window.electronAPI.prepStation.create(station);
+  }
+  throw new Error('Prep stations not available');
+};
+
+export const updatePrepStation = async (id: number, station: Omit<PrepStation, 'id' | 'created_at' | 'updated_at'>): Promise<PrepStation> => {
+  if (window.electronAPI?.prepStation?.update) {
+    return await window.electronAPI.prepStation.update(id, station);
+  }
+  throw new Error('Prep stations not available');
+};
+
+export const deletePrepStation = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.prepStation?.delete) {
+    return await window.electronAPI.prepStation.delete(id);
+  }
+  throw new Error('Prep stations not available');
+};
+
+// Printers
+export type PrinterRole = 'receipt' | 'kitchen' | 'labels' | 'reports';
+
+export const PRINTER_ROLE_LABELS: Record<PrinterRole, string> = {
+  receipt: 'Receipts',
+  kitchen: 'Kitchen',
+  labels: 'Labels',
+  reports: 'Reports',
+};
+
+export interface Printer {
+  id?: number;
+  name: string;
+  connection_type: 'system' | 'escpos'; // OS printer, or raw ESC/POS to a network address or device path
+  device_name: string; // OS printer name, or the ESC/POS address
+  roles: PrinterRole[];
+  paper_width: 58 | 80;
+  copies: number;
+  silent: boolean; // false = show the print dialog
+  terminal_id: string | null; // null = every till
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SystemPrinter {
+  name: string;
+  displayName: string;
+  description: string;
+  isDefault: boolean;
+}
+
+export const getPrinters = async (): Promise<Printer[]> => {
+  if (window.electronAPI?.printer?.getAll) {
+    return await window.electronAPI.printer.getAll();
+  }
+  throw new Error('Printers not available');
+};
+
+// Printers installed on this computer
+export const getSystemPrinters = async (): Promise<SystemPrinter[]> => {
+  if (window.electronAPI?.printer?.getSystemPrinters) {
+    return await window.electronAPI.printer.getSystemPrinters();
+  }
+  throw new Error('Printers not available');
+};
+
+export const addPrinter = async (printer: Omit<Printer, 'id' | 'created_at' | 'updated_at'>): Promise<Printer> => {
+  if (window.electronAPI?.printer?.create) {
+    return await window.electronAPI.printer.create(printer);
+  }
+  throw new Error('Printers not available');
+};
+
+export const updatePrinter = async (id: number, printer: Omit<Printer, 'id' | 'created_at' | 'updated_at'>): Promise<Printer> => {
+  if (window.electronAPI?.printer?.update) {
+    return await window.electronAPI.printer.update(id, printer);
+  }
+  throw new Error('Printers not available');
+};
+
+export const deletePrinter = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.printer?.delete) {
+    return await window.electronAPI.printer.delete(id);
+  }
+  throw new Error('Printers not available');
+};
+
+// Prints a test page; the printer doesn't have to be saved yet
+export const printTestPage = async (printer: Omit<Printer, 'id' | 'created_at' | 'updated_at'>): Promise<{ success: boolean }> => {
+  if (window.electronAPI?.printer?.test) {
+    return await window.electronAPI.printer.test(printer);
+  }
+  throw new Error('Printers not available');
+};
+
+// Product labels
+export interface LabelSize {
+  id?: number;
+  name: string;
+  width_mm: number;
+  height_mm: number;
+  is_default: number; // Picked unless another size is chosen
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ProductionBatch {
+  id: number;
+  batch_number: string; // <terminal ID>-B<YYYYMMDD>-<n>
+  menu_item_id: number | null; // null once the item is deleted
+  item_name: string;
+  quantity: number;
+  produced_at: string;
+  best_before: string | null; // YYYY-MM-DD; null when the item has no shelf life
+  notes: string | null;
+  user_id: number | null;
+  user_name?: string | null;
+  username?: string | null;
+  created_at: string;
+}
+
+export interface CreateProductionBatchData {
+  menu_item_id: number;
+  quantity: number;
+  produced_at?: string; // Default now
+  notes?: string;
+  user_id?: number | null;
+}
+
+// What a label is for: a batch, or an item with an optional production date and batch number
+export interface LabelRequest {
+  menu_item_id?: number;
+  batch_id?: number;
+  produced_at?: string;
+  batch_number?: string;
+  label_size_id?: number | null; // null = the default size
+  count?: number;
+}
+
+export interface LabelData {
+  menu_item_id: number;
+  batch_id: number | null;
+  name: string;
+  price: number;
+  barcode: string;
+  ingredients: string[];
+  allergens: string[];
+  produced_on: string; // YYYY-MM-DD
+  best_before: string | null;
+  batch_number: string | null;
+}
+
+export const getLabelSizes = async (): Promise<LabelSize[]> => {
+  if (window.electronAPI?.labelSize?.getAll) {
+    return await window.electronAPI.labelSize.getAll();
+  }
+  throw new Error('Labels not available');
+};
+
+export const addLabelSize = async (size: Omit<LabelSize, 'id' | 'created_at' | 'updated_at'>): Promise<LabelSize> => {
+  if (window.electronAPI?.labelSize?.create) {
+    return await window.electronAPI.labelSize.create(size);
+  }
+  throw new Error('Labels not available');
+};
+
+export const updateLabelSize = async (id: number, size: Omit<LabelSize, 'id' | 'created_at' | 'updated_at'>): Promise<LabelSize> => {
+  if (window.electronAPI?.labelSize?.update) {
+    return await window.electronAPI.labelSize.update(id, size);
+  }
+  throw new Error('Labels not available');
+};
+
+export const deleteLabelSize = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.labelSize?.delete) {
+    return await window.electronAPI.labelSize.delete(id);
+  }
+  throw new Error('Labels not available');
+};
+
+// Newest first; dates are YYYY-MM-DD production days
+export const getProductionBatches = async (filters: { startDate?: string; endDate?: string; limit?: number } = {}): Promise<ProductionBatch[]> => {
+  if (window.electronAPI?.production?.getAll) {
+    return await window.electronAPI.production.getAll(filters);
+  }
+  throw new Error('Production batches not available');
+};
+
+export const addProductionBatch = async (batch: CreateProductionBatchData): Promise<ProductionBatch> => {
+  if (window.electronAPI?.production?.create) {
+    return await window.electronAPI.production.create(batch);
+  }
+  throw new Error('Production batches not available');
+};
+
+export const previewLabel = async (request: LabelRequest): Promise<{ label: LabelData; html: string }> => {
+  if (window.electronAPI?.label?.preview) {
+    return await window.electronAPI.label.preview(request);
+  }
+  throw new Error('Labels not available');
+};
+
+// Prints on this till's labels printer
+export const printLabels = async (request: LabelRequest & { count: number }): Promise<{ success: boolean; jobId: number | null }> => {
+  if (window.electronAPI?.label?.print) {
+    return await window.electronAPI.label.print(request);
+  }
+  throw new Error('Labels not available');
+};
+
+// Print templates
+export type PrintTemplateType = 'receipt' | 'refund' | 'kitchen' | 'z_report';
+
+export interface PrintTemplate {
+  template_type: PrintTemplateType;
+  name: string;
+  body: string;
+  default_body: string;
+  is_default: boolean; // Prints the built-in layout
+  paper_width: 58 | 80 | null; // null = the receipt printer's paper width
+  logo: string | null; // Image in the media folder, printed on [logo] lines
+  fields: string[]; // Fields the template can use, for the editor's help
+  updated_at: string | null;
+}
+
+export type PrintTemplateInput = Pick<PrintTemplate, 'body' | 'paper_width' | 'logo'>;
+
+export const getPrintTemplates = async (): Promise<PrintTemplate[]> => {
+  if (window.electronAPI?.printTemplate?.getAll) {
+    return await window.electronAPI.printTemplate.getAll();
+  }
+  throw new Error('Print templates not available');
+};
+
+export const updatePrintTemplate = async (type: PrintTemplateType, template: PrintTemplateInput): Promise<PrintTemplate> => {
+  if (window.electronAPI?.printTemplate?.update) {
+    return await window.electronAPI.printTemplate.update(type, template);
+  }
+  throw new Error('Print templates not available');
+};
+
+// Back to the built-in layout; paper width and logo stay
+export const resetPrintTemplate = async (type: PrintTemplateType): Promise<PrintTemplate> => {
+  if (window.electronAPI?.printTemplate?.reset) {
+    return await window.electronAPI.printTemplate.reset(type);
+  }
+  throw new Error('Print templates not available');
+};
+
+// Renders unsaved template text with example data; error is set instead of html when the text doesn't parse
+export const previewPrintTemplate = async (type: PrintTemplateType, template: PrintTemplateInput): Promise<{ html: string | null; error: string | null }> => {
+  if (window.electronAPI?.printTemplate?.preview) {
+    return await window.electronAPI.printTemplate.preview(type, template);
+  }
+  throw new Error('Print templates not available');
+};
+
+// Print jobs
+export type PrintJobType = 'receipt' | 'refund' | 'kitchen' | 'z_report' | 'no_sale' | 'label';
+export type PrintJobStatus = 'queued' | 'printing' | 'printed' | 'failed';
+
+export interface PrintJob {
+  id: number;
+  job_type: PrintJobType;
+  title: string;
+  reference_type: 'order' | 'refund' | 'shift' | 'menu_item' | 'batch' | null;
+  reference_id: number | null;
+  reference_label: string | null; // Order or refund number, "Shift #12", or a label's batch number or item name
+  template_type: PrintTemplateType | null;
+  printer_name: string | null; // null = default printer
+  paper_width: number | null;
+  output_format: 'html' | 'escpos';
+  status: PrintJobStatus;
+  attempts: number; // Sends so far, automatic retries included
+  error: string | null;
+  reprint_of: number | null;
+  created_at: string;
+  printed_at: string | null;
+  updated_at: string;
+}
+
+export interface PrintJobFailure {
+  id: number;
+  job_type: PrintJobType;
+  title: string;
+  reference_label: string | null;
+  error: string;
+}
+
+export interface PrintQueueStatus {
+  queueLength: number;
+  processing: boolean;
+  currentJob: { startTime: number } | null;
+}
+
+export const getPrintJobs = async (filters: { status?: PrintJobStatus | null; limit?: number } = {}): Promise<PrintJob[]> => {
+  if (window.electronAPI?.printJob?.getAll) {
+    return await window.electronAPI.printJob.getAll(filters);
+  }
+  throw new Error('Print jobs not available');
+};
+
+export const getFailedPrintJobCount = async (): Promise<number> => {
+  if (window.electronAPI?.printJob?.getFailedCount) {
+    return await window.electronAPI.printJob.getFailedCount();
+  }
+  throw new Error('Print jobs not available');
+};
+
+// Sends a failed job again on the same log row
+export const retryPrintJob = async (id: number): Promise<{ success: boolean; jobId: number | null }> => {
+  if (window.electronAPI?.printJob?.retry) {
+    return await window.electronAPI.printJob.retry(id);
+  }
+  throw new Error('Print jobs not available');
+};
+
+// Prints a past job again as a new log row; a receipt's drawer kick is left out
+export const reprintPrintJob = async (id: number): Promise<{ success: boolean; jobId: number | null }> => {
+  if (window.electronAPI?.printJob?.reprint) {
+    return await window.electronAPI.printJob.reprint(id);
+  }
+  throw new Error('Print jobs not available');
+};
+
+export const getPrintQueueStatus = async (): Promise<PrintQueueStatus> => {
+  if (window.electronAPI?.printJob?.getQueueStatus) {
+    return await window.electronAPI.printJob.getQueueStatus();
+  }
+  throw new Error('Print jobs not available');
+};
+
+// Calls back when a print job fails after its automatic retries; returns the unsubscribe function
+export const onPrintJobFailed = (callback: (failure: PrintJobFailure) => void): (() => void) => {
+  if (window.electronAPI?.printJob?.onFailed) {
+    return window.electronAPI.printJob.onFailed(callback);
+  }
+  return () => {};
+};
+
+// PDF archive
+export type PdfDocumentType = 'receipt' | 'refund' | 'z_report';
+
+export interface PdfDocument {
+  id: number;
+  document_type: PdfDocumentType;
+  reference_id: number;
+  reference_label: string | null;
+  order_id: number | null;
+  document_date: string; // YYYY-MM-DD, the archive folder it is in
+  file_path: string;
+  file_size: number | null;
+  created_at: string;
+}
+
+// The receipt and refund slip PDFs of an order
+export const getOrderPdfDocuments = async (orderId: number): Promise<PdfDocument[]> => {
+  if (window.electronAPI?.pdfArchive?.getForOrder) {
+    return await window.electronAPI.pdfArchive.getForOrder(orderId);
+  }
+  throw new Error('PDF archive not available');
+};
+
+// Archives the receipt PDF if it isn't already; takes the same data as the receipt printout
+export const saveReceiptPdf = async (receiptData: any): Promise<PdfDocument> => {
+  if (window.electronAPI?.pdfArchive?.saveReceipt) {
+    return await window.electronAPI.pdfArchive.saveReceipt(receiptData);
+  }
+  throw new Error('PDF archive not available');
+};
+
+// Opens the PDF in the computer's PDF viewer
+export const openPdfDocument = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.pdfArchive?.open) {
+    return await window.electronAPI.pdfArchive.open(id);
+  }
+  throw new Error('PDF archive not available');
+};
+
+// Asks where to save a copy; null when the user cancels
+export const exportPdfDocument = async (id: number): Promise<{ path: string } | null> => {
+  if (window.electronAPI?.pdfArchive?.export) {
+    return await window.electronAPI.pdfArchive.export(id);
+  }
+  throw new Error('PDF archive not available');
+};
+
+// Zips every PDF dated in the range (YYYY-MM-DD, inclusive); null when the user cancels
+export const exportPdfArchive = async (startDate: string, endDate: string): Promise<{ path: string; count: number } | null> => {
+  if (window.electronAPI?.pdfArchive?.exportRange) {
+    return await window.electronAPI.pdfArchive.exportRange(startDate, endDate);
+  }
+  throw new Error('PDF archive not available');
+};
+
+// Calls back whenever an order changes; returns the unsubscribe function
+export const onKitchenUpdate = (callback: () => void): (() => void) => {
+  if (window.electronAPI?.kds?.onUpdated) {
+    return window.electronAPI.kds.onUpdated(callback);
+  }
+  return () => {};
+};
+
+// Option Groups
+export const getOptionGroups = async (): Promise<OptionGroup[]> => {
+  if (window.electronAPI?.optionGroup?.getAll) {
+    return await window.electronAPI.optionGroup.getAll();
+  }
+  // Fallback to legacy method
+  return await dbQuery('SELECT * FROM option_groups ORDER BY display_order, name');
+};
+
+export const getOptionGroup = async (id: number): Promise<OptionGroup | null> => {
+  if (window.electronAPI?.optionGroup?.getById) {
+    return await window.electronAPI.optionGroup.getById(id);
+  }
+  // Fallback to legacy method
+  const results = await dbQuery('SELECT * FROM option_groups WHERE id = ?', [id]);
+  return results.length > 0 ? results[0] : null;
+};
+
+export const addOptionGroup = async (group: Omit<OptionGroup, 'id' | 'created_at'>): Promise<any> => {
+  if (window.electronAPI?.optionGroup?.create) {
+    return await window.electronAPI.optionGroup.create(group);
+  }
+  // Fallback to legacy method
+  const { name, description, is_required, min_selections, max_selections, display_order } = group;
+  return await dbQuery(
+    'INSERT INTO option_groups (name, description, is_required, min_selections, max_selections, display_order) VALUES (?, ?, ?, ?, ?, ?)',
+    [name, description || null, is_required || 0, min_selections || 1, max_selections || 1, display_order || 0]
+  );
+};
+
+export const updateOptionGroup = async (id: number, group: Partial<OptionGroup>): Promise<any> => {
+  if (window.electronAPI?.optionGroup?.update) {
+    return await window.electronAPI.optionGroup.update(id, group);
+  }
+  // Fallback to legacy method
+  const { name, description, is_required, min_selections, max_selections, display_order } = group;
+  return await dbQuery(
+    'UPDATE option_groups SET name = ?, description = ?, is_required = ?, min_selections = ?, max_selections = ?, display_order = ? WHERE id = ?',
+    [name, description || null, is_required, min_selections, max_selections, display_order, id]
+  );
+};
+
+export const deleteOptionGroup = async (id: number): Promise<any> => {
+  if (window.electronAPI?.optionGroup?.delete) {
+    return await window.electronAPI.optionGroup.delete(id);
+  }
+  // Fallback to legacy method
+  return await dbQuery('DELETE FROM option_groups WHERE id = ?', [id]);
+};
+
+// Options
+export const getOptions = async (optionGroupId?: number): Promise<Option[]> => {
+  if (window.electronAPI?.option?.getAll) {
+    return await window.electronAPI.option.getAll(optionGroupId);
+  }
+  // Fallback to legacy method
+  if (optionGroupId) {
+    return await dbQuery('SELECT * FROM options WHERE option_group_id = ? ORDER BY display_order, name', [optionGroupId]);
+  }
+  return await dbQuery('SELECT * FROM options ORDER BY option_group_id, display_order, name');
+};
+
+export const addOption = async (option: Omit<Option, 'id' | 'created_at'>): Promise<any> => {
+  if (window.electronAPI?.option?.create) {
+    return await window.electronAPI.option.create(option);
+  }
+  // Fallback to legacy method
+  const { option_group_id, name, description, price_modifier, display_order, is_available } = option;
+  return await dbQuery(
+    'INSERT INTO options (option_group_id, name, description, price_modifier, display_order, is_available) VALUES (?, ?, ?, ?, ?, ?)',
+    [option_group_id, name, description || null, price_modifier || 0, display_order || 0, is_available !== undefined ? is_available : 1]
+  );
+};
+
+export const updateOption = async (id: number, option: Partial<Option>): Promise<any> => {
+  if (window.electronAPI?.option?.update) {
+    return await window.electronAPI.option.update(id, option);
   }
   // Fallback to legacy method
   const { name, description, price_modifier, display_order, is_available } = option;
@@ -839,6 +2032,41 @@ export const removeMenuItemOptionGroup = async (menuItemId: number, optionGroupI
   );
 };
 
+// Attached option groups with their available options, as shown in the POS item dialog
+export const getMenuItemOptionGroupDetails = async (menuItemId: number): Promise<OptionGroupWithOptions[]> => {
+  if (window.electronAPI?.menu?.getOptionGroups) {
+    return await window.electronAPI.menu.getOptionGroups(menuItemId);
+  }
+  // Fallback to legacy method
+  const groups: OptionGroup[] = await dbQuery(
+    `SELECT og.* FROM option_groups og
+     INNER JOIN menu_item_option_groups miog ON og.id = miog.option_group_id
+     WHERE miog.menu_item_id = ?
+     ORDER BY miog.display_order, og.display_order, og.name`,
+    [menuItemId]
+  );
+  const result: OptionGroupWithOptions[] = [];
+  for (const group of groups) {
+    const options = await dbQuery(
+      'SELECT * FROM options WHERE option_group_id = ? AND is_available = 1 ORDER BY display_order, name',
+      [group.id]
+    );
+    result.push({ ...group, options });
+  }
+  return result;
+};
+
+export const saveMenuItemOptionGroups = async (menuItemId: number, optionGroupIds: number[]): Promise<any> => {
+  if (window.electronAPI?.menu?.saveOptionGroups) {
+    return await window.electronAPI.menu.saveOptionGroups(menuItemId, optionGroupIds);
+  }
+  // Fallback to legacy method
+  await dbQuery('DELETE FROM menu_item_option_groups WHERE menu_item_id = ?', [menuItemId]);
+  for (const [index, optionGroupId] of optionGroupIds.entries()) {
+    await addMenuItemOptionGroup({ menu_item_id: menuItemId, option_group_id: optionGroupId, display_order: index });
+  }
+};
+
 // Addons
 export const getAddons = async (): Promise<Addon[]> => {
   if (window.electronAPI?.addon?.getAll) {
@@ -900,6 +2128,10 @@ export const deleteAddon = async (id: number): Promise<any> => {
 
 // Menu Item Addons
 export const getMenuItemAddons = async (menuItemId: number): Promise<Addon[]> => {
+  if (window.electronAPI?.menu?.getAddons) {
+    return await window.electronAPI.menu.getAddons(menuItemId);
+  }
+  // Fallback to legacy method
   return await dbQuery(
     `SELECT a.* FROM addons a
      INNER JOIN menu_item_addons mia ON a.id = mia.addon_id
@@ -924,6 +2156,24 @@ export const removeMenuItemAddon = async (menuItemId: number, addonId: number):
   );
 };
 
+export const getMenuItemAddonLinks = async (menuItemId: number): Promise<MenuItemAddon[]> => {
+  return await dbQuery(
+    'SELECT * FROM menu_item_addons WHERE menu_item_id = ? ORDER BY display_order',
+    [menuItemId]
+  );
+};
+
+export const saveMenuItemAddons = async (menuItemId: number, addonIds: number[]): Promise<any> => {
+  if (window.electronAPI?.menu?.saveAddons) {
+    return await window.electronAPI.menu.saveAddons(menuItemId, addonIds);
+  }
+  // Fallback to legacy method
+  await dbQuery('DELETE FROM menu_item_addons WHERE menu_item_id = ?', [menuItemId]);
+  for (const [index, addonId] of addonIds.entries()) {
+    await addMenuItemAddon({ menu_item_id: menuItemId, addon_id: addonId, display_order: index });
+  }
+};
+
 // Menu Item Sizes (per-menu-item)
 export interface MenuItemSize {
   id?: number;
@@ -942,7 +2192,8 @@ export const getMenuItemSizes = async (menuItemId: number): Promise<MenuItemSize
   return await dbQuery('SELECT * FROM menu_item_sizes WHERE menu_item_id = ? ORDER BY display_order, name', [menuItemId]);
 };
 
-export const saveMenuItemSizes = async (menuItemId: number, sizes: Omit<MenuItemSize, 'id' | 'menu_item_id' | 'created_at'>[]): Promise<any> => {
+// Existing sizes keep their id so recipe quantities follow a rename
+export const saveMenuItemSizes = async (menuItemId: number, sizes: Omit<MenuItemSize, 'menu_item_id' | 'created_at'>[]): Promise<any> => {
   if (window.electronAPI?.menu?.saveSizes) {
     return await window.electronAPI.menu.saveSizes(menuItemId, sizes);
   }
@@ -1142,6 +2393,445 @@ export const updateSettings = async (settings: { key: string; value: string }[])
   }
 };
 
+// Shifts (cash drawer)
+export interface Shift {
+  id?: number;
+  user_id?: number;
+  terminal_id?: string | null; // Till whose drawer this is
+  status: 'open' | 'closed';
+  opening_float: number;
+  cash_sales?: number;
+  paid_in?: number;
+  paid_out?: number;
+  cash_refunds?: number;
+  expected_cash?: number;
+  counted_cash?: number;
+  over_short?: number;
+  denominations?: ShiftDenominationCount[] | null;
+  notes?: string;
+  opened_at?: string;
+  closed_at?: string;
+  closed_by?: number;
+  username?: string;
+  full_name?: string;
+  closed_by_username?: string;
+  closed_by_name?: string;
+}
+
+export interface ShiftDenominationCount {
+  denomination: number;
+  count: number;
+}
+
+export interface CashMovement {
+  id?: number;
+  shift_id: number;
+  movement_type: 'paid_in' | 'paid_out' | 'refund';
+  amount: number;
+  reason?: string;
+  order_id?: number;
+  user_id?: number;
+  created_at?: string;
+  username?: string;
+  full_name?: string;
+  order_number?: string;
+}
+
+export interface ShiftSummary {
+  shift: Shift;
+  cash_sales: number;
+  paid_in: number;
+  paid_out: number;
+  cash_refunds: number;
+  expected_cash: number;
+  counted_cash?: number;
+  over_short?: number;
+  order_count: number;
+  sales_total: number;
+  discount_total: number;
+  tax_total: number;
+  refund_total: number;
+  void_count: number;
+  tenders: { payment_method: string; total_amount: number; payment_count: number }[];
+  movements: CashMovement[];
+}
+
+export const getCurrentShift = async (): Promise<Shift | null> => {
+  if (window.electronAPI?.shift?.getCurrent) {
+    return await window.electronAPI.shift.getCurrent();
+  }
+  throw new Error('Shifts not available');
+};
+
+export const getShifts = async (limit: number = 100): Promise<Shift[]> => {
+  if (window.electronAPI?.shift?.getAll) {
+    return await window.electronAPI.shift.getAll(limit);
+  }
+  throw new Error('Shifts not available');
+};
+
+export const getShiftSummary = async (id: number): Promise<ShiftSummary> => {
+  if (window.electronAPI?.shift?.getSummary) {
+    return await window.electronAPI.shift.getSummary(id);
+  }
+  throw new Error('Shifts not available');
+};
+
+export const openShift = async (shiftData: { user_id: number; opening_float: number; notes?: string }): Promise<Shift> => {
+  if (window.electronAPI?.shift?.open) {
+    return await window.electronAPI.shift.open(shiftData);
+  }
+  throw new Error('Shifts not available');
+};
+
+export const closeShift = async (
+  id: number,
+  closeData: { denominations: ShiftDenominationCount[]; closed_by?: number; notes?: string }
+): Promise<ShiftSummary> => {
+  if (window.electronAPI?.shift?.close) {
+    return await window.electronAPI.shift.close(id, closeData);
+  }
+  throw new Error('Shifts not available');
+};
+
+export const addCashMovement = async (movement: Omit<CashMovement, 'id' | 'created_at' | 'username' | 'full_name' | 'order_number'>): Promise<CashMovement> => {
+  if (window.electronAPI?.shift?.addCashMovement) {
+    return await window.electronAPI.shift.addCashMovement(movement);
+  }
+  throw new Error('Shifts not available');
+};
+
+// Refunds and voids
+export interface RefundItem {
+  id?: number;
+  refund_id?: number;
+  order_item_id: number;
+  quantity: number;
+  amount: number;
+  tax_amount?: number;
+  restocked?: number; // 1 when the line's ingredients went back into stock
+  menu_item_id?: number;
+  name?: string;
+}
+
+export interface Refund {
+  id?: number;
+  order_id: number;
+  refund_number: string; // <order_number>-R<n>
+  refund_type: 'refund' | 'void';
+  amount: number;
+  tax_amount?: number;
+  refund_method?: string;
+  reason: string;
+  user_id?: number;
+  approved_by?: number;
+  shift_id?: number;
+  created_at?: string;
+  order_number?: string;
+  pickup_number?: number;
+  order_status?: string;
+  user_name?: string;
+  username?: string;
+  approved_by_name?: string;
+  approved_by_username?: string;
+  items?: RefundItem[];
+}
+
+export interface RefundRequest {
+  order_id: number;
+  refund_type: 'refund' | 'void';
+  items: { order_item_id: number; quantity: number; restock?: boolean }[];
+  refund_method?: string;
+  reason: string;
+  user_id?: number;
+  override_id?: number; // Manager override approving a guarded refund or void
+}
+
+export const processRefund = async (refund: RefundRequest): Promise<Refund> => {
+  if (window.electronAPI?.refund?.process) {
+    return await window.electronAPI.refund.process(refund);
+  }
+  throw new Error('Refunds not available');
+};
+
+export const getOrderRefunds = async (orderId: number): Promise<Refund[]> => {
+  if (window.electronAPI?.refund?.getByOrder) {
+    return await window.electronAPI.refund.getByOrder(orderId);
+  }
+  throw new Error('Refunds not available');
+};
+
+export const getRefunds = async (startDate?: string, endDate?: string): Promise<Refund[]> => {
+  if (window.electronAPI?.refund?.getAll) {
+    return await window.electronAPI.refund.getAll(startDate, endDate);
+  }
+  throw new Error('Refunds not available');
+};
+
+// Manager overrides
+export type OverrideAction = 'discount' | 'price_override' | 'void' | 'refund' | 'reopen_order' | 'no_sale';
+
+export const OVERRIDE_ACTION_LABELS: Record<OverrideAction, string> = {
+  discount: 'Discount above threshold',
+  price_override: 'Price override',
+  void: 'Void order',
+  refund: 'Refund',
+  reopen_order: 'Reopen completed order',
+  no_sale: 'No sale (open drawer)',
+};
+
+export interface OverrideConfig {
+  actions: OverrideAction[]; // Actions that need a manager PIN
+  discount_threshold: number; // Percentage of the subtotal
+  price_threshold: number; // Percentage change from the menu price; 0 guards any change
+}
+
+export interface ManagerOverride {
+  id: number;
+  action: OverrideAction;
+  requested_by?: number;
+  approved_by?: number;
+  order_id?: number;
+  order_number?: string;
+  amount?: number;
+  details?: string;
+  created_at?: string;
+  used_at?: string | null; // Set once a refund or void approval has been spent
+  used_by_refund_id?: number | null;
+  requested_by_name?: string;
+  requested_by_username?: string;
+  approved_by_name?: string;
+  approved_by_username?: string;
+}
+
+export interface OverrideRequest {
+  action: OverrideAction;
+  requested_by: number;
+  pin?: string; // Not needed when the requester is an admin
+  order_id?: number;
+  order_number?: string;
+  amount?: number;
+  details?: string;
+}
+
+export const getOverrideConfig = async (): Promise<OverrideConfig> => {
+  if (window.electronAPI?.override?.getConfig) {
+    return await window.electronAPI.override.getConfig();
+  }
+  throw new Error('Manager override not available');
+};
+
+export const approveOverride = async (request: OverrideRequest): Promise<ManagerOverride> => {
+  if (window.electronAPI?.override?.approve) {
+    return await window.electronAPI.override.approve(request);
+  }
+  throw new Error('Manager override not available');
+};
+
+export const setUserPin = async (userId: number, pin: string | null): Promise<boolean> => {
+  if (window.electronAPI?.override?.setPin) {
+    return await window.electronAPI.override.setPin(userId, pin);
+  }
+  throw new Error('Manager override not available');
+};
+
+export const getOverrides = async (limit?: number): Promise<ManagerOverride[]> => {
+  if (window.electronAPI?.override?.getLog) {
+    return await window.electronAPI.override.getLog(limit);
+  }
+  throw new Error('Manager override not available');
+};
+
+// Tax
+export interface TaxClass {
+  id?: number;
+  name: string;
+  rate: number; // Percentage
+  description?: string;
+  created_at?: string;
+}
+
+export interface TaxConfig {
+  inclusive: boolean; // Prices already include tax
+  default_rate: number; // tax_rate setting, used when neither the item nor its category has a class
+  classes: TaxClass[];
+  categories: Category[];
+}
+
+export interface TaxSummaryLine {
+  tax_rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+  order_count?: number;
+}
+
+export interface TaxCalculation {
+  lines: { tax_rate: number; taxable_amount: number; tax_amount: number }[];
+  tax_total: number;
+  summary: TaxSummaryLine[];
+}
+
+export const getTaxClasses = async (): Promise<TaxClass[]> => {
+  if (window.electronAPI?.tax?.getClasses) {
+    return await window.electronAPI.tax.getClasses();
+  }
+  throw new Error('Tax classes not available');
+};
+
+export const addTaxClass = async (taxClass: Omit<TaxClass, 'id' | 'created_at'>): Promise<TaxClass> => {
+  if (window.electronAPI?.tax?.createClass) {
+    return await window.electronAPI.tax.createClass(taxClass);
+  }
+  throw new Error('Tax classes not available');
+};
+
+export const updateTaxClass = async (id: number, taxClass: Omit<TaxClass, 'id' | 'created_at'>): Promise<TaxClass> => {
+  if (window.electronAPI?.tax?.updateClass) {
+    return await window.electronAPI.tax.updateClass(id, taxClass);
+  }
+  throw new Error('Tax classes not available');
+};
+
+export const deleteTaxClass = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.tax?.deleteClass) {
+    return await window.electronAPI.tax.deleteClass(id);
+  }
+  throw new Error('Tax classes not available');
+};
+
+export const getTaxConfig = async (): Promise<TaxConfig> => {
+  const [rateSetting, modeSetting, classes, categories] = await Promise.all([
+    getSetting('tax_rate'),
+    getSetting('tax_mode'),
+    getTaxClasses(),
+    getCategories(),
+  ]);
+  return {
+    inclusive: modeSetting?.value === 'inclusive',
+    default_rate: parseFloat(rateSetting?.value || '0') || 0,
+    classes,
+    categories,
+  };
+};
+
+// Item's own tax class, then its category's, then the standard rate
+export const resolveTaxRate = (item: Pick<MenuItem, 'tax_class_id' | 'category'>, config: TaxConfig): number => {
+  const classId = item.tax_class_id
+    ?? config.categories.find(c => c.name === item.category)?.tax_class_id;
+  const taxClass = classId ? config.classes.find(c => c.id === classId) : undefined;
+  return taxClass ? taxClass.rate : config.default_rate;
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Group taxed lines by rate (receipt and reprint summary)
+export const summarizeTax = (
+  lines: { tax_rate?: number; taxable_amount?: number; tax_amount?: number }[]
+): TaxSummaryLine[] => {
+  const summary: TaxSummaryLine[] = [];
+  for (const line of lines) {
+    const rate = line.tax_rate || 0;
+    const existing = summary.find(s => s.tax_rate === rate);
+    if (existing) {
+      existing.taxable_amount = roundMoney(existing.taxable_amount + (line.taxable_amount || 0));
+      existing.tax_amount = roundMoney(existing.tax_amount + (line.tax_amount || 0));
+    } else {
+      summary.push({ tax_rate: rate, taxable_amount: line.taxable_amount || 0, tax_amount: line.tax_amount || 0 });
+    }
+  }
+  return summary.sort((a, b) => a.tax_rate - b.tax_rate);
+};
+
+// Per-line tax: the order discount is spread across lines by value, then each line is taxed at its own rate
+export const calculateTax = (
+  lines: { amount: number; tax_rate: number }[],
+  discount: number,
+  inclusive: boolean
+): TaxCalculation => {
+  const gross = lines.reduce((sum, line) => sum + line.amount, 0);
+  const totalDiscount = Math.min(Math.max(0, discount), gross);
+  let discountLeft = totalDiscount;
+
+  const results = lines.map((line, index) => {
+    const share = index === lines.length - 1
+      ? discountLeft
+      : (gross > 0 ? roundMoney(totalDiscount * (line.amount / gross)) : 0);
+    discountLeft = roundMoney(discountLeft - share);
+    const net = Math.max(0, line.amount - share);
+    const rate = line.tax_rate || 0;
+    const taxAmount = inclusive
+      ? roundMoney(net - net / (1 + rate / 100))
+      : roundMoney(net * (rate / 100));
+    return {
+      tax_rate: rate,
+      taxable_amount: roundMoney(inclusive ? net - taxAmount : net),
+      tax_amount: taxAmount,
+    };
+  });
+
+  return {
+    lines: results,
+    tax_total: roundMoney(results.reduce((sum, line) => sum + line.tax_amount, 0)),
+    summary: summarizeTax(results),
+  };
+};
+
+// Promotions (discounts table)
+export interface AppliedPromotion {
+  discount: Discount;
+  amount: number;
+}
+
+export interface PromotionCart {
+  items: { menu_item_id: number; subtotal: number }[];
+  subtotal: number;
+  code?: string;
+  redeemed_discount_id?: number; // Promotion already counted against a recalled ticket
+}
+
+export const getDiscounts = async (): Promise<Discount[]> => {
+  if (window.electronAPI?.discount?.getAll) {
+    return await window.electronAPI.discount.getAll();
+  }
+  throw new Error('Promotions not available');
+};
+
+export const getDiscount = async (id: number): Promise<Discount | null> => {
+  if (window.electronAPI?.discount?.getById) {
+    return await window.electronAPI.discount.getById(id);
+  }
+  throw new Error('Promotions not available');
+};
+
+export const addDiscount = async (discount: Omit<Discount, 'id' | 'usage_count' | 'created_at'>): Promise<Discount> => {
+  if (window.electronAPI?.discount?.create) {
+    return await window.electronAPI.discount.create(discount);
+  }
+  throw new Error('Promotions not available');
+};
+
+export const updateDiscount = async (id: number, discount: Omit<Discount, 'id' | 'usage_count' | 'created_at'>): Promise<Discount> => {
+  if (window.electronAPI?.discount?.update) {
+    return await window.electronAPI.discount.update(id, discount);
+  }
+  throw new Error('Promotions not available');
+};
+
+export const deleteDiscount = async (id: number): Promise<boolean> => {
+  if (window.electronAPI?.discount?.delete) {
+    return await window.electronAPI.discount.delete(id);
+  }
+  throw new Error('Promotions not available');
+};
+
+// Returns the promotion for the entered code (throws if it cannot be used), or the best automatic one
+export const evaluatePromotions = async (cart: PromotionCart): Promise<AppliedPromotion | null> => {
+  if (window.electronAPI?.discount?.evaluate) {
+    return await window.electronAPI.discount.evaluate(cart);
+  }
+  throw new Error('Promotions not available');
+};
+
 // Cloud Sync (Supabase)
 export const syncPush = async (): Promise<{
   pushed: number;
@@ -22,6 +22,18 @@ interface Window {
       saveSizes: (menuItemId: number, sizes: any[]) => Promise<boolean>;
       getCustomOptions: (menuItemId: number) => Promise<any[]>;
       saveCustomOptions: (menuItemId: number, options: any[]) => Promise<boolean>;
+      getOptionGroups: (menuItemId: number) => Promise<any[]>;
+      saveOptionGroups: (menuItemId: number, optionGroupIds: number[]) => Promise<boolean>;
+      getAddons: (menuItemId: number) => Promise<any[]>;
+      saveAddons: (menuItemId: number, addonIds: number[]) => Promise<boolean>;
+    };
+    
+    // Recipe handlers
+    recipe: {
+      get: (menuItemId: number) => Promise<any[]>;
+      save: (menuItemId: number, rows: any[]) => Promise<any[]>;
+      postOrderUsage: (orderId: number) => Promise<{ posted: number; returned: number }>;
+      getUsage: (startDate?: string, endDate?: string) => Promise<any[]>;
     };
     
     // Category handlers
@@ -69,17 +81,189 @@ interface Window {
       update: (id: number, tableData: any) => Promise<any>;
       delete: (id: number) => Promise<boolean>;
       updateStatus: (id: number, status: string) => Promise<any>;
+      saveLayout: (layouts: any[]) => Promise<any[]>;
+      releaseOrder: (orderId: number) => Promise<any[]>;
+      move: (transferData: any) => Promise<any>;
+      merge: (transferData: any) => Promise<any>;
+      splitOrder: (splitData: any) => Promise<{ order_id: number; new_order_ids: number[] }>;
+      splitOrderBySeat: (splitData: any) => Promise<{ order_id: number; new_order_ids: number[] }>;
+      getTransfers: (limit?: number) => Promise<any[]>;
+    };
+    
+    // Floor section handlers
+    floorSection: {
+      getAll: () => Promise<any[]>;
+      create: (sectionData: any) => Promise<any>;
+      update: (id: number, sectionData: any) => Promise<any>;
+      delete: (id: number) => Promise<boolean>;
     };
+    
+    // Reservation handlers
+    reservation: {
+      getByDate: (date: string) => Promise<any[]>;
+      getById: (id: number) => Promise<any>;
+      create: (reservationData: any) => Promise<any>;
+      update: (id: number, reservationData: any) => Promise<any>;
+      setStatus: (id: number, status: string) => Promise<any>;
+      delete: (id: number) => Promise<boolean>;
+      seat: (id: number, seatData: any) => Promise<{ reservation: any; order_id: number }>;
+    };
+  
+  // Kitchen display handlers
+  kds: {
+    getTickets: (stationId?: number | null) => Promise<any[]>;
+    getBumped: (limit?: number, stationId?: number | null) => Promise<any[]>;
+    start: (id: number) => Promise<any>;
+    bump: (id: number) => Promise<any>;
+    recall: (id: number) => Promise<any>;
+    bumpStation: (id: number, stationId: number) => Promise<any>;
+    recallStation: (id: number, stationId: number) => Promise<any>;
+    openWindow: (stationId?: number | null) => Promise<{ success: boolean }>;
+    onUpdated: (callback: () => void) => () => void;
+  };
+  
+  // Customer display handlers
+  customerDisplay: {
+    open: () => Promise<{ success: boolean }>;
+    close: () => Promise<{ success: boolean }>;
+    update: (state: any) => Promise<{ success: boolean }>;
+    getState: () => Promise<any>;
+    getPromoImages: () => Promise<string[]>;
+    onState: (callback: (state: any) => void) => () => void;
+  };
+  
+  // Pickup board handlers
+  pickupBoard: {
+    getStatus: () => Promise<{ running: boolean; port: number | null; urls: string[]; error: string | null }>;
+    restart: () => Promise<{ running: boolean; port: number | null; urls: string[]; error: string | null }>;
+  };
+  
+  // Prep station handlers
+  prepStation: {
+    getAll: () => Promise<any[]>;
+    create: (stationData: any) => Promise<any>;
+    update: (id: number, stationData: any) => Promise<any>;
+    delete: (id: number) => Promise<boolean>;
+  };
+  
+  // Printer handlers
+  printer: {
+    getAll: () => Promise<any[]>;
+    getSystemPrinters: () => Promise<Array<{ name: string; displayName: string; description: string; isDefault: boolean }>>;
+    create: (printerData: any) => Promise<any>;
+    update: (id: number, printerData: any) => Promise<any>;
+    delete: (id: number) => Promise<boolean>;
+    test: (printerData: any) => Promise<{ success: boolean }>;
+  };
+  
+  // Label handlers
+  labelSize: {
+    getAll: () => Promise<any[]>;
+    create: (sizeData: any) => Promise<any>;
+    update: (id: number, sizeData: any) => Promise<any>;
+    delete: (id: number) => Promise<boolean>;
+  };
+  production: {
+    getAll: (filters?: any) => Promise<any[]>;
+    create: (batchData: any) => Promise<any>;
+  };
+  label: {
+    preview: (request: any) => Promise<{ label: any; html: string }>;
+    print: (request: any) => Promise<{ success: boolean; jobId: number | null }>;
+  };
+  
+  // Print template handlers
+  printTemplate: {
+    getAll: () => Promise<any[]>;
+    update: (type: string, templateData: any) => Promise<any>;
+    reset: (type: string) => Promise<any>;
+    preview: (type: string, templateData: any) => Promise<{ html: string | null; error: string | null }>;
+  };
+  
+  // Print job handlers
+  printJob: {
+    getAll: (filters?: { status?: string | null; limit?: number }) => Promise<any[]>;
+    getFailedCount: () => Promise<number>;
+    retry: (id: number) => Promise<{ success: boolean; jobId: number | null }>;
+    reprint: (id: number) => Promise<{ success: boolean; jobId: number | null }>;
+    getQueueStatus: () => Promise<{ queueLength: number; processing: boolean; currentJob: { startTime: number } | null }>;
+    onFailed: (callback: (failure: any) => void) => () => void;
+  };
+  
+  // PDF archive handlers
+  pdfArchive: {
+    getForOrder: (orderId: number) => Promise<any[]>;
+    saveReceipt: (orderData: any) => Promise<any>;
+    open: (id: number) => Promise<boolean>;
+    export: (id: number) => Promise<{ path: string } | null>;
+    exportRange: (startDate: string, endDate: string) => Promise<{ path: string; count: number } | null>;
+  };
   
   // Print handlers
   print: {
-    kitchenOrder: (orderData: any) => Promise<{ success: boolean }>;
-    customerReceipt: (orderData: any) => Promise<{ success: boolean }>;
+    kitchenOrder: (orderData: any) => Promise<{ success: boolean; printed?: number }>;
+    customerReceipt: (orderData: any) => Promise<{ success: boolean; jobId?: number | null }>;
+    zReport: (reportData: any) => Promise<{ success: boolean; jobId?: number | null }>;
+    refundReceipt: (refundData: any) => Promise<{ success: boolean; jobId?: number | null }>;
+    openDrawer: (drawerData: any) => Promise<{ success: boolean; jobId?: number | null }>;
+  };
+  
+  // Shift (cash drawer) handlers
+  shift: {
+    getCurrent: () => Promise<any | null>;
+    getAll: (limit?: number) => Promise<any[]>;
+    getSummary: (id: number) => Promise<any>;
+    open: (shiftData: any) => Promise<any>;
+    close: (id: number, closeData: any) => Promise<any>;
+    addCashMovement: (movementData: any) => Promise<any>;
+  };
+  
+  // Discount (promotion) handlers
+  discount: {
+    getAll: () => Promise<any[]>;
+    getById: (id: number) => Promise<any | null>;
+    create: (discountData: any) => Promise<any>;
+    update: (id: number, discountData: any) => Promise<any>;
+    delete: (id: number) => Promise<boolean>;
+    evaluate: (cart: any) => Promise<any | null>;
+    redeem: (id: number) => Promise<any>;
+    release: (id: number) => Promise<any>;
+  };
+  
+  // Tax class handlers
+  tax: {
+    getClasses: () => Promise<any[]>;
+    createClass: (taxClassData: any) => Promise<any>;
+    updateClass: (id: number, taxClassData: any) => Promise<any>;
+    deleteClass: (id: number) => Promise<boolean>;
+  };
+  
+  // Order numbering handlers
+  numbering: {
+    next: () => Promise<any>;
+  };
+  
+  // Refund handlers
+  refund: {
+    process: (refundData: any) => Promise<any>;
+    getByOrder: (orderId: number) => Promise<any[]>;
+    getAll: (startDate?: string, endDate?: string) => Promise<any[]>;
+  };
+  
+  // Manager override handlers
+  override: {
+    getConfig: () => Promise<any>;
+    approve: (overrideData: any) => Promise<any>;
+    setPin: (userId: number, pin: string | null) => Promise<boolean>;
+    getLog: (limit?: number) => Promise<any[]>;
   };
   
   // Order handlers
   order: {
+    create: (orderData: any) => Promise<number>;
+    updateHeld: (id: number, orderData: any) => Promise<{ success: boolean }>;
     delete: (id: number, userId?: number) => Promise<{ success: boolean; message?: string }>;
+    discardHeld: (id: number, userId: number, overrideId?: number) => Promise<{ success: boolean; message?: string }>;
   };
   
   // User handlers
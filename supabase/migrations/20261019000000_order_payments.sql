@@ -0,0 +1,26 @@
+-- Kings Bakery POS - Split-tender payments
+-- Mirrors SQLite migration 10 from electron/migrations.js
+
+-- =============================================================================
+-- ORDER PAYMENTS (depends on orders, users)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS order_payments (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payment_method TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  amount_tendered DOUBLE PRECISION,
+  change_given DOUBLE PRECISION DEFAULT 0,
+  reference TEXT,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_method ON order_payments(payment_method);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 10)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (10) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,60 @@
+-- Kings Bakery POS - Cash drawer shifts
+-- Mirrors SQLite migration 11 from electron/migrations.js
+
+-- =============================================================================
+-- SHIFTS (depends on users)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
+  opening_float DOUBLE PRECISION NOT NULL DEFAULT 0,
+  cash_sales DOUBLE PRECISION DEFAULT 0,
+  paid_in DOUBLE PRECISION DEFAULT 0,
+  paid_out DOUBLE PRECISION DEFAULT 0,
+  cash_refunds DOUBLE PRECISION DEFAULT 0,
+  expected_cash DOUBLE PRECISION,
+  counted_cash DOUBLE PRECISION,
+  over_short DOUBLE PRECISION,
+  denominations TEXT,
+  notes TEXT,
+  opened_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  closed_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_shifts_status ON shifts(status);
+CREATE INDEX IF NOT EXISTS idx_shifts_opened_at ON shifts(opened_at);
+
+-- =============================================================================
+-- CASH MOVEMENTS (depends on shifts, orders, users)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id SERIAL PRIMARY KEY,
+  shift_id INTEGER NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK(movement_type IN ('paid_in', 'paid_out', 'refund')),
+  amount DOUBLE PRECISION NOT NULL,
+  reason TEXT,
+  order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift_id ON cash_movements(shift_id);
+
+-- =============================================================================
+-- SHIFT LINKS ON ORDERS AND TENDERS
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL;
+ALTER TABLE order_payments ADD COLUMN IF NOT EXISTS shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_shift_id ON orders(shift_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_shift_id ON order_payments(shift_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 11)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (11) ON CONFLICT (version) DO NOTHING;
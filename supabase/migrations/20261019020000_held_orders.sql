@@ -0,0 +1,15 @@
+-- Kings Bakery POS - Held tickets / open tabs
+-- Mirrors SQLite migration 12 from electron/migrations.js
+
+-- =============================================================================
+-- ORDERS - ticket label
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS label TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 12)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (12) ON CONFLICT (version) DO NOTHING;
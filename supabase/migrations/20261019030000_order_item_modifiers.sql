@@ -0,0 +1,29 @@
+-- Kings Bakery POS - Order line sizes and custom options
+-- Mirrors SQLite migration 13 from electron/migrations.js
+
+-- =============================================================================
+-- ORDER ITEMS - size snapshot
+-- =============================================================================
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS size_id INTEGER REFERENCES menu_item_sizes(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS size_name TEXT;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS size_price DOUBLE PRECISION;
+
+-- =============================================================================
+-- ORDER ITEM CUSTOM OPTIONS (depends on order_items, menu_item_custom_options)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS order_item_custom_options (
+  id SERIAL PRIMARY KEY,
+  order_item_id INTEGER NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  custom_option_id INTEGER REFERENCES menu_item_custom_options(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  price DOUBLE PRECISION DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_item_custom_options_item_id ON order_item_custom_options(order_item_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 13)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (13) ON CONFLICT (version) DO NOTHING;
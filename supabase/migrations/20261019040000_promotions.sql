@@ -0,0 +1,25 @@
+-- Kings Bakery POS - Promotions and promo codes
+-- Mirrors SQLite migration 14 from electron/migrations.js
+
+-- =============================================================================
+-- DISCOUNTS - promo codes
+-- =============================================================================
+
+ALTER TABLE discounts ADD COLUMN IF NOT EXISTS code TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_code ON discounts(code) WHERE code IS NOT NULL;
+
+-- =============================================================================
+-- ORDERS - applied promotion
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_id INTEGER REFERENCES discounts(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_name TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_discount DOUBLE PRECISION DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_orders_discount_id ON orders(discount_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 14)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (14) ON CONFLICT (version) DO NOTHING;
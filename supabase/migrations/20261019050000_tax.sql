@@ -0,0 +1,31 @@
+-- Kings Bakery POS - Tax classes and per-line tax
+-- Mirrors SQLite migration 15 from electron/migrations.js
+
+-- =============================================================================
+-- TAX CLASSES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  rate DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS tax_class_id INTEGER REFERENCES tax_classes(id) ON DELETE SET NULL;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS tax_class_id INTEGER REFERENCES tax_classes(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- ORDERS / ORDER ITEMS - tax captured at sale time
+-- =============================================================================
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS taxable_amount DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_amount DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN DEFAULT false;
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 15)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (15) ON CONFLICT (version) DO NOTHING;
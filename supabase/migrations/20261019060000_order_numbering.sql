@@ -0,0 +1,18 @@
+-- Kings Bakery POS - Terminal order numbering
+-- Mirrors SQLite migration 16 from electron/migrations.js
+-- order_number_sequences is local to each till and is not synced
+
+-- =============================================================================
+-- ORDERS - terminal, business day and pickup number
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS terminal_id TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS business_date TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS pickup_number INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_orders_terminal_business_date ON orders(terminal_id, business_date);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 16)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (16) ON CONFLICT (version) DO NOTHING;
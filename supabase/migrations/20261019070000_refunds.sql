@@ -0,0 +1,53 @@
+-- Kings Bakery POS - Refunds and voids
+-- Mirrors SQLite migration 17 from electron/migrations.js
+
+-- =============================================================================
+-- REFUNDS (depends on orders, users, shifts)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  refund_number TEXT UNIQUE NOT NULL,
+  refund_type TEXT NOT NULL CHECK(refund_type IN ('refund', 'void')),
+  amount DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK(amount >= 0),
+  tax_amount DOUBLE PRECISION DEFAULT 0,
+  refund_method TEXT,
+  reason TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  approved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_refunds_shift_id ON refunds(shift_id);
+
+-- =============================================================================
+-- REFUND ITEMS (depends on refunds, order_items)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id SERIAL PRIMARY KEY,
+  refund_id INTEGER NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id INTEGER NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK(quantity > 0),
+  amount DOUBLE PRECISION NOT NULL DEFAULT 0,
+  tax_amount DOUBLE PRECISION DEFAULT 0,
+  restocked BOOLEAN DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+
+-- =============================================================================
+-- REFUND TOTALS ON ORDERS AND LINES
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER DEFAULT 0;
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 17)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (17) ON CONFLICT (version) DO NOTHING;
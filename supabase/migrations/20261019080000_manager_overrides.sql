@@ -0,0 +1,32 @@
+-- Kings Bakery POS - Manager override PIN
+-- Mirrors SQLite migration 18 from electron/migrations.js
+
+-- =============================================================================
+-- USERS - manager PIN (scrypt hash)
+-- =============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+
+-- =============================================================================
+-- MANAGER OVERRIDES (depends on users, orders)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS manager_overrides (
+  id SERIAL PRIMARY KEY,
+  action TEXT NOT NULL,
+  requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  approved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+  order_number TEXT,
+  amount DOUBLE PRECISION,
+  details TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_overrides_created_at ON manager_overrides(created_at);
+CREATE INDEX IF NOT EXISTS idx_manager_overrides_order_id ON manager_overrides(order_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 18)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (18) ON CONFLICT (version) DO NOTHING;
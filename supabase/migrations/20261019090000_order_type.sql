@@ -0,0 +1,18 @@
+-- Kings Bakery POS - Order type (dine-in / takeaway / delivery)
+-- Mirrors SQLite migration 19 from electron/migrations.js
+
+-- =============================================================================
+-- ORDERS - order type
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_type TEXT DEFAULT 'takeaway';
+
+UPDATE orders SET order_type = CASE WHEN table_id IS NOT NULL THEN 'dine_in' ELSE 'takeaway' END
+WHERE order_type IS NULL OR (order_type = 'takeaway' AND table_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_orders_order_type ON orders(order_type);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 19)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (19) ON CONFLICT (version) DO NOTHING;
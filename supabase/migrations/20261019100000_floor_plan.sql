@@ -0,0 +1,34 @@
+-- Kings Bakery POS - Floor plan sections and table layout
+-- Mirrors SQLite migration 20 from electron/migrations.js
+
+-- =============================================================================
+-- FLOOR SECTIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS floor_sections (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- TABLES - position on the floor plan (1000 x 600 canvas per section)
+-- =============================================================================
+
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS section_id INTEGER REFERENCES floor_sections(id) ON DELETE SET NULL;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS shape TEXT DEFAULT 'square';
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS pos_x DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS pos_y DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS width DOUBLE PRECISION DEFAULT 80;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS height DOUBLE PRECISION DEFAULT 80;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS rotation DOUBLE PRECISION DEFAULT 0;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS occupied_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tables_section_id ON tables(section_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 20)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (20) ON CONFLICT (version) DO NOTHING;
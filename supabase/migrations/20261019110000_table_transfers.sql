@@ -0,0 +1,31 @@
+-- Kings Bakery POS - Seat numbers and table move/merge/split log
+-- Mirrors SQLite migration 21 from electron/migrations.js
+
+-- =============================================================================
+-- ORDER ITEMS - seat, for splitting a bill by seat
+-- =============================================================================
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS seat_number INTEGER;
+
+-- =============================================================================
+-- TABLE TRANSFERS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS table_transfers (
+  id SERIAL PRIMARY KEY,
+  action TEXT NOT NULL CHECK(action IN ('move', 'merge', 'split')),
+  from_table_id INTEGER REFERENCES tables(id) ON DELETE SET NULL,
+  to_table_id INTEGER REFERENCES tables(id) ON DELETE SET NULL,
+  order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+  target_order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  details TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_transfers_created_at ON table_transfers(created_at);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 21)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (21) ON CONFLICT (version) DO NOTHING;
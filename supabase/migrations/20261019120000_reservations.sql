@@ -0,0 +1,36 @@
+-- Kings Bakery POS - Reservations
+-- Mirrors SQLite migration 22 from electron/migrations.js
+
+-- =============================================================================
+-- RESERVATIONS - starts_at is local time (YYYY-MM-DD HH:MM)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS reservations (
+  id SERIAL PRIMARY KEY,
+  guest_name TEXT NOT NULL,
+  phone TEXT,
+  party_size INTEGER NOT NULL CHECK(party_size > 0),
+  starts_at TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 90 CHECK(duration_minutes > 0),
+  table_id INTEGER REFERENCES tables(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'booked' CHECK(status IN ('booked', 'seated', 'completed', 'cancelled', 'no_show')),
+  order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservations_starts_at ON reservations(starts_at);
+CREATE INDEX IF NOT EXISTS idx_reservations_table_id ON reservations(table_id);
+
+-- =============================================================================
+-- TABLES - booking the table is held for
+-- =============================================================================
+
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS reservation_id INTEGER REFERENCES reservations(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 22)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (22) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Kings Bakery POS - Kitchen display (bump time on orders)
+-- Mirrors SQLite migration 23 from electron/migrations.js
+
+-- =============================================================================
+-- ORDERS - when the kitchen bumped the order
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS ready_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 23)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (23) ON CONFLICT (version) DO NOTHING;
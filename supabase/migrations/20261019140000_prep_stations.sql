@@ -0,0 +1,36 @@
+-- Kings Bakery POS - Prep stations (kitchen ticket routing)
+-- Mirrors SQLite migration 24 from electron/migrations.js
+
+-- =============================================================================
+-- PREP STATIONS - printer and kitchen display per station
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS prep_stations (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  printer_name TEXT,
+  show_on_kds BOOLEAN DEFAULT TRUE,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS order_station_bumps (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  station_id INTEGER NOT NULL REFERENCES prep_stations(id) ON DELETE CASCADE,
+  bumped_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(order_id, station_id)
+);
+
+-- =============================================================================
+-- CATEGORIES / MENU ITEMS - station routing (an item's own station wins)
+-- =============================================================================
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS prep_station_id INTEGER REFERENCES prep_stations(id) ON DELETE SET NULL;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS prep_station_id INTEGER REFERENCES prep_stations(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 24)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (24) ON CONFLICT (version) DO NOTHING;
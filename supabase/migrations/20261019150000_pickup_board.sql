@@ -0,0 +1,9 @@
+-- Kings Bakery POS - Pickup board
+-- Mirrors SQLite migration 25 from electron/migrations.js
+-- The pickup board only adds settings rows (pickup_board_*), which sync with the settings table;
+-- pickup_board_enabled and pickup_board_port are per-till and never pushed.
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 25)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (25) ON CONFLICT (version) DO NOTHING;
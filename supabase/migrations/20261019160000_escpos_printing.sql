@@ -0,0 +1,9 @@
+-- Kings Bakery POS - ESC/POS printing
+-- Mirrors SQLite migration 26 from electron/migrations.js
+-- ESC/POS printing only adds settings rows (receipt_printer, printer_paper_width, receipt_logo);
+-- receipt_printer and printer_paper_width describe the till's own printer and are never pushed.
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 26)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (26) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,24 @@
+-- Kings Bakery POS - Print templates
+-- Mirrors SQLite migration 27 from electron/migrations.js
+
+-- =============================================================================
+-- PRINT TEMPLATES - editable receipt, refund, kitchen ticket and Z-report layouts
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS print_templates (
+  id SERIAL PRIMARY KEY,
+  template_type TEXT NOT NULL UNIQUE CHECK(template_type IN ('receipt', 'refund', 'kitchen', 'z_report')),
+  body TEXT,
+  paper_width INTEGER CHECK(paper_width IN (58, 80)),
+  logo TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The receipt logo moved from settings to the receipt template
+DELETE FROM settings WHERE key = 'receipt_logo';
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 27)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (27) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Kings Bakery POS - Print job log
+-- Mirrors SQLite migration 28 from electron/migrations.js
+-- print_jobs is local to each till (it holds that till's printer output) and is not synced;
+-- the print_job_retention_days setting syncs with the settings table.
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 28)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (28) ON CONFLICT (version) DO NOTHING;
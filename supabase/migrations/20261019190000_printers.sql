@@ -0,0 +1,29 @@
+-- Kings Bakery POS - Printers
+-- Mirrors SQLite migration 29 from electron/migrations.js
+-- The copies and silent columns SQLite adds to print_jobs have no counterpart here: print_jobs is not synced.
+
+-- =============================================================================
+-- PRINTERS - configured printers and the printouts (roles) each one takes
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS printers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  connection_type TEXT NOT NULL CHECK(connection_type IN ('system', 'escpos')),
+  device_name TEXT NOT NULL,
+  roles TEXT,
+  paper_width INTEGER NOT NULL DEFAULT 80 CHECK(paper_width IN (58, 80)),
+  copies INTEGER NOT NULL DEFAULT 1 CHECK(copies BETWEEN 1 AND 5),
+  silent BOOLEAN NOT NULL DEFAULT TRUE,
+  terminal_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Each till's receipt_printer and printer_paper_width settings became printers rows
+DELETE FROM settings WHERE key IN ('receipt_printer', 'printer_paper_width');
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 29)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (29) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,8 @@
+-- Kings Bakery POS - PDF archive
+-- Mirrors SQLite migration 30 from electron/migrations.js
+-- pdf_archive indexes the PDF files kept on each till's disk and is not synced.
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 30)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (30) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,52 @@
+-- Kings Bakery POS - Product labels and production batches
+-- Mirrors SQLite migration 31 from electron/migrations.js
+-- The wider job_type and reference_type checks SQLite gives print_jobs have no counterpart here: print_jobs is not synced.
+
+-- =============================================================================
+-- LABEL FIELDS - shelf life and barcode per item, allergens per ingredient
+-- =============================================================================
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS shelf_life_days INTEGER;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS barcode TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_items_barcode ON menu_items(barcode) WHERE barcode IS NOT NULL;
+
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS allergens TEXT;
+
+-- =============================================================================
+-- LABEL SIZES - label stock product labels print on
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS label_sizes (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  width_mm NUMERIC NOT NULL CHECK(width_mm >= 20 AND width_mm <= 120),
+  height_mm NUMERIC NOT NULL CHECK(height_mm >= 15 AND height_mm <= 200),
+  is_default BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- PRODUCTION BATCHES - a batch of one item made for the shelf
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS production_batches (
+  id SERIAL PRIMARY KEY,
+  batch_number TEXT NOT NULL UNIQUE,
+  menu_item_id INTEGER REFERENCES menu_items(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK(quantity > 0),
+  produced_at TIMESTAMPTZ NOT NULL,
+  best_before TEXT,
+  notes TEXT,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_batches_produced_at ON production_batches(produced_at);
+CREATE INDEX IF NOT EXISTS idx_production_batches_menu_item_id ON production_batches(menu_item_id);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 31)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (31) ON CONFLICT (version) DO NOTHING;
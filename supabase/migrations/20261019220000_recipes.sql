@@ -0,0 +1,27 @@
+-- Kings Bakery POS - Size-specific recipes and stock usage per order line
+-- Mirrors SQLite migration 32 from electron/migrations.js
+
+-- =============================================================================
+-- MENU ITEM INGREDIENTS - a size can use its own quantity of an ingredient
+-- =============================================================================
+
+ALTER TABLE menu_item_ingredients ADD COLUMN IF NOT EXISTS size_name TEXT;
+ALTER TABLE menu_item_ingredients DROP CONSTRAINT IF EXISTS menu_item_ingredients_menu_item_id_inventory_item_id_key;
+ALTER TABLE menu_item_ingredients DROP CONSTRAINT IF EXISTS menu_item_ingredients_quantity_required_check;
+ALTER TABLE menu_item_ingredients ADD CONSTRAINT menu_item_ingredients_quantity_required_check CHECK(quantity_required >= 0);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_item_ingredients_unique
+  ON menu_item_ingredients(menu_item_id, inventory_item_id, COALESCE(size_name, ''));
+
+-- =============================================================================
+-- INVENTORY TRANSACTIONS - sales and refunds name the order line they belong to
+-- =============================================================================
+
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS order_item_id INTEGER;
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reference ON inventory_transactions(reference_type, reference_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_order_item_id ON inventory_transactions(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_created_at ON inventory_transactions(created_at);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 32)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (32) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,15 @@
+-- Kings Bakery POS - Single-use refund and void approvals
+-- Mirrors SQLite migration 33 from electron/migrations.js
+
+-- =============================================================================
+-- MANAGER OVERRIDES - the refund a refund or void approval was spent on
+-- =============================================================================
+
+ALTER TABLE manager_overrides ADD COLUMN IF NOT EXISTS used_at TIMESTAMPTZ;
+ALTER TABLE manager_overrides ADD COLUMN IF NOT EXISTS used_by_refund_id INTEGER REFERENCES refunds(id) ON DELETE SET NULL;
+UPDATE manager_overrides SET used_at = created_at WHERE used_at IS NULL AND action IN ('refund', 'void');
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 33)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (33) ON CONFLICT (version) DO NOTHING;
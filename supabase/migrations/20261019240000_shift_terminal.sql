@@ -0,0 +1,14 @@
+-- Kings Bakery POS - Cash drawer shifts per terminal
+-- Mirrors SQLite migration 34 from electron/migrations.js
+
+-- =============================================================================
+-- SHIFTS - the till whose drawer a shift is
+-- =============================================================================
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS terminal_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_shifts_terminal_status ON shifts(terminal_id, status);
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 34)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (34) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Kings Bakery POS - Pickup board on the app server
+-- Mirrors SQLite migration 35 from electron/migrations.js
+-- Only settings rows change: pickup_board_network is added and pickup_board_port removed.
+-- pickup_board_enabled and pickup_board_network are per-till and never pushed.
+
+DELETE FROM settings WHERE key = 'pickup_board_port';
+
+-- =============================================================================
+-- SCHEMA VERSION - Mark as migrated (matches SQLite migration version 35)
+-- =============================================================================
+INSERT INTO schema_version (version) VALUES (35) ON CONFLICT (version) DO NOTHING;